@@ -10,12 +10,21 @@ import Dashboard from "./pages/Dashboard";
 import Auth from "./pages/Auth";
 import Invoices from "./pages/Invoices";
 import Customers from "./pages/Customers";
+import Suppliers from "./pages/Suppliers";
 import Reports from "./pages/Reports";
 import Bills from "./pages/Bills";
+import CreditNotes from "./pages/CreditNotes";
+import Recurring from "./pages/Recurring";
 import Banking from "./pages/Banking";
+import BankRules from "./pages/BankRules";
+import BankReconciliation from "./pages/BankReconciliation";
+import Journals from "./pages/Journals";
 import ChartOfAccounts from "./pages/ChartOfAccounts";
 import VatMtd from "./pages/VatMtd";
 import Subscription from "./pages/Subscription";
+import Settings from "./pages/Settings";
+import AuditLog from "./pages/AuditLog";
+import Team from "./pages/Team";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -45,6 +54,11 @@ const App = () => (
                   <Customers />
                 </ProtectedRoute>
               } />
+              <Route path="/suppliers" element={
+                <ProtectedRoute>
+                  <Suppliers />
+                </ProtectedRoute>
+              } />
               <Route path="/reports" element={
                 <ProtectedRoute>
                   <Reports />
@@ -55,11 +69,36 @@ const App = () => (
                   <Bills />
                 </ProtectedRoute>
               } />
+              <Route path="/credit-notes" element={
+                <ProtectedRoute>
+                  <CreditNotes />
+                </ProtectedRoute>
+              } />
+              <Route path="/recurring" element={
+                <ProtectedRoute>
+                  <Recurring />
+                </ProtectedRoute>
+              } />
               <Route path="/banking" element={
                 <ProtectedRoute>
                   <Banking />
                 </ProtectedRoute>
               } />
+              <Route path="/banking/rules" element={
+                <ProtectedRoute>
+                  <BankRules />
+                </ProtectedRoute>
+              } />
+              <Route path="/banking/reconcile" element={
+                <ProtectedRoute>
+                  <BankReconciliation />
+                </ProtectedRoute>
+              } />
+              <Route path="/journals" element={
+                <ProtectedRoute>
+                  <Journals />
+                </ProtectedRoute>
+              } />
               <Route path="/accounts" element={
                 <ProtectedRoute>
                   <ChartOfAccounts />
@@ -75,6 +114,21 @@ const App = () => (
                   <Subscription />
                 </ProtectedRoute>
               } />
+              <Route path="/settings" element={
+                <ProtectedRoute>
+                  <Settings />
+                </ProtectedRoute>
+              } />
+              <Route path="/audit" element={
+                <ProtectedRoute>
+                  <AuditLog />
+                </ProtectedRoute>
+              } />
+              <Route path="/team" element={
+                <ProtectedRoute>
+                  <Team />
+                </ProtectedRoute>
+              } />
               {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
               <Route path="*" element={<NotFound />} />
             </Routes>
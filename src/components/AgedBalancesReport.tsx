@@ -0,0 +1,141 @@
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChevronDown, ChevronRight, Clock, Download } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { AGED_BUCKETS, AgedBalanceKind, AgedBalances, agedBalancesCsvRows, calculateAgedBalances } from '@/lib/aged-balances';
+import { downloadCsv } from '@/lib/csv-export';
+
+interface AgedBalancesReportProps {
+  kind: AgedBalanceKind;
+  asAt: string;
+}
+
+const formatAmount = (amount: number) => (amount === 0 ? '-' : `£${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`);
+
+// Aged debtors or creditors; each customer or supplier expands to the documents making up its balance
+const AgedBalancesReport = ({ kind, asAt }: AgedBalancesReportProps) => {
+  const { toast } = useToast();
+  const [report, setReport] = useState<AgedBalances | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const receivables = kind === 'receivables';
+
+  const fetchReport = useCallback(async () => {
+    try {
+      setReport(await calculateAgedBalances(kind, asAt));
+    } catch (error) {
+      console.error('Error generating aged balances:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to generate the report",
+        variant: "destructive"
+      });
+    }
+  }, [kind, asAt, toast]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const toggle = (contactId: string) => {
+    const next = new Set(expanded);
+    if (next.has(contactId)) {
+      next.delete(contactId);
+    } else {
+      next.add(contactId);
+    }
+    setExpanded(next);
+  };
+
+  const exportCsv = () => {
+    if (!report) return;
+    downloadCsv(`aged-${receivables ? 'debtors' : 'creditors'}-${report.as_at}.csv`, agedBalancesCsvRows(report));
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="w-5 h-5" />
+            {receivables ? 'Aged Debtors' : 'Aged Creditors'}
+          </CardTitle>
+          <CardDescription>
+            {receivables ? 'Unpaid invoices' : 'Unpaid bills'} as at {new Date(asAt).toLocaleDateString()}, by days past their due date
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={exportCsv} disabled={!report || report.contacts.length === 0}>
+          <Download className="w-4 h-4 mr-2" />
+          Export CSV
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{receivables ? 'Customer' : 'Supplier'}</TableHead>
+              {AGED_BUCKETS.map((bucket) => (
+                <TableHead key={bucket.key} className="text-right">{bucket.label}</TableHead>
+              ))}
+              <TableHead className="text-right">Total</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report?.contacts.map((contact) => (
+              <Fragment key={contact.id}>
+                <TableRow className="cursor-pointer" onClick={() => toggle(contact.id)}>
+                  <TableCell className="font-medium">
+                    <span className="flex items-center gap-1">
+                      {expanded.has(contact.id) ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                      {contact.name}
+                    </span>
+                  </TableCell>
+                  {AGED_BUCKETS.map((bucket) => (
+                    <TableCell key={bucket.key} className="text-right">{formatAmount(contact.buckets[bucket.key])}</TableCell>
+                  ))}
+                  <TableCell className="text-right font-medium">{formatAmount(contact.total)}</TableCell>
+                </TableRow>
+                {expanded.has(contact.id) && contact.documents.map((document) => (
+                  <TableRow key={document.id} className="text-sm text-muted-foreground">
+                    <TableCell className="pl-10">
+                      {document.number} · due {new Date(document.due_date).toLocaleDateString()}
+                      {document.days_overdue > 0 && ` · ${document.days_overdue} days overdue`}
+                    </TableCell>
+                    {AGED_BUCKETS.map((bucket) => (
+                      <TableCell key={bucket.key} className="text-right">
+                        {bucket.key === document.bucket ? formatAmount(document.outstanding) : ''}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right">
+                      {document.outstanding !== document.total && `of ${formatAmount(document.total)}`}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </Fragment>
+            ))}
+          </TableBody>
+          {report && report.contacts.length > 0 && (
+            <TableFooter>
+              <TableRow>
+                <TableCell className="font-bold">Total</TableCell>
+                {AGED_BUCKETS.map((bucket) => (
+                  <TableCell key={bucket.key} className="text-right font-bold">{formatAmount(report.buckets[bucket.key])}</TableCell>
+                ))}
+                <TableCell className="text-right font-bold">{formatAmount(report.total)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          )}
+        </Table>
+
+        {report && report.contacts.length === 0 && (
+          <div className="text-center py-8 text-muted-foreground">
+            {receivables ? 'No customer owed anything' : 'Nothing was owed to suppliers'} on this date.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AgedBalancesReport;
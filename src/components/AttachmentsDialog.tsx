@@ -0,0 +1,210 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ExternalLink, FileText, Paperclip, Trash2, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  Attachment,
+  AttachmentRecord,
+  ATTACHMENT_CONTENT_TYPES,
+  attachmentPermission,
+  attachmentUrl,
+  deleteAttachment,
+  fetchAttachments,
+  formatFileSize,
+  uploadAttachment
+} from '@/lib/attachments';
+
+interface AttachmentsDialogProps {
+  record: AttachmentRecord | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Lets the page refresh its attachment counts
+  onChanged?: () => void;
+}
+
+const AttachmentsDialog = ({ record, open, onOpenChange, onChanged }: AttachmentsDialogProps) => {
+  const { currentOrganisation, can } = useAuth();
+  const canEdit = record ? can(attachmentPermission(record.type)) : false;
+  const { toast } = useToast();
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [selected, setSelected] = useState<Attachment | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const loadAttachments = useCallback(async () => {
+    if (!record) return;
+
+    try {
+      const existing = await fetchAttachments(record);
+      setAttachments(existing);
+      setSelected(current => existing.find(attachment => attachment.id === current?.id) || existing[0] || null);
+    } catch (error) {
+      console.error('Error fetching attachments:', error);
+    }
+  }, [record]);
+
+  useEffect(() => {
+    if (open) {
+      setSelected(null);
+      loadAttachments();
+    }
+  }, [open, loadAttachments]);
+
+  useEffect(() => {
+    setPreviewUrl(null);
+    if (!selected) return;
+
+    let cancelled = false;
+    attachmentUrl(selected)
+      .then(url => { if (!cancelled) setPreviewUrl(url); })
+      .catch(error => console.error('Error loading attachment preview:', error));
+
+    return () => { cancelled = true; };
+  }, [selected]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (!record || !currentOrganisation || files.length === 0) return;
+
+    setBusy(true);
+    try {
+      for (const file of files) {
+        await uploadAttachment(currentOrganisation.id, record, file);
+      }
+
+      toast({
+        title: "Success",
+        description: files.length === 1 ? `${files[0].name} attached` : `${files.length} files attached`
+      });
+    } catch (error) {
+      console.error('Error uploading attachment:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to upload the file",
+        variant: "destructive"
+      });
+    } finally {
+      setBusy(false);
+      loadAttachments();
+      onChanged?.();
+    }
+  };
+
+  const handleDelete = async (attachment: Attachment) => {
+    if (!confirm(`Delete ${attachment.file_name}?`)) return;
+
+    setBusy(true);
+    try {
+      await deleteAttachment(attachment);
+    } catch (error) {
+      console.error('Error deleting attachment:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to delete the file",
+        variant: "destructive"
+      });
+    } finally {
+      setBusy(false);
+      loadAttachments();
+      onChanged?.();
+    }
+  };
+
+  if (!record) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Attachments for {record.label}</DialogTitle>
+          <DialogDescription>Receipts and supporting documents, kept as PDF or image files</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            {attachments.map((attachment) => (
+              <div
+                key={attachment.id}
+                className={`flex items-center justify-between gap-2 rounded-md border p-2 text-sm cursor-pointer ${selected?.id === attachment.id ? 'bg-muted' : ''}`}
+                onClick={() => setSelected(attachment)}
+              >
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{attachment.file_name}</div>
+                  <div className="text-muted-foreground">
+                    {formatFileSize(Number(attachment.size_bytes))} · {new Date(attachment.created_at).toLocaleDateString()}
+                  </div>
+                </div>
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Delete"
+                    disabled={busy}
+                    onClick={(e) => { e.stopPropagation(); handleDelete(attachment); }}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+
+            {attachments.length === 0 && (
+              <div className="text-center py-6 text-sm text-muted-foreground">
+                <Paperclip className="w-6 h-6 mx-auto mb-2" />
+                Nothing attached yet
+              </div>
+            )}
+
+            {canEdit && (
+              <Button variant="outline" size="sm" className="w-full" disabled={busy} asChild>
+                <label className="cursor-pointer">
+                  <Upload className="w-4 h-4 mr-2" />
+                  {busy ? 'Uploading...' : 'Attach Files'}
+                  <input
+                    type="file"
+                    multiple
+                    accept={ATTACHMENT_CONTENT_TYPES.join(',')}
+                    className="hidden"
+                    onChange={handleUpload}
+                    disabled={busy}
+                  />
+                </label>
+              </Button>
+            )}
+          </div>
+
+          <div className="md:col-span-2 min-h-[24rem] rounded-md border flex items-center justify-center overflow-hidden">
+            {selected && previewUrl ? (
+              selected.content_type === 'application/pdf' ? (
+                <iframe src={previewUrl} title={selected.file_name} className="w-full h-[32rem]" />
+              ) : (
+                <img src={previewUrl} alt={selected.file_name} className="max-h-[32rem] max-w-full object-contain" />
+              )
+            ) : (
+              <div className="text-sm text-muted-foreground flex flex-col items-center">
+                <FileText className="w-8 h-8 mb-2" />
+                {selected ? 'Loading preview...' : 'Select a file to preview it'}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {selected && previewUrl && (
+          <div className="flex justify-end">
+            <Button variant="outline" size="sm" asChild>
+              <a href={previewUrl} target="_blank" rel="noreferrer">
+                <ExternalLink className="w-4 h-4 mr-2" />
+                Open {selected.file_name}
+              </a>
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AttachmentsDialog;
@@ -0,0 +1,268 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+
+export interface BankAccount {
+  id: string;
+  name: string;
+  sort_code?: string | null;
+  account_number?: string | null;
+  currency: string;
+  ledger_account_id: string;
+  opening_balance: number;
+  opening_balance_date: string;
+  active: boolean;
+}
+
+interface LedgerAccount {
+  id: string;
+  account_code?: string;
+  account_name: string;
+}
+
+interface BankAccountDialogProps {
+  bankAccount: BankAccount | null;
+  ledgerAccounts: LedgerAccount[];
+  // Once reconciled, the opening balance and ledger account are fixed
+  locked: boolean;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const emptyForm = {
+  name: '',
+  sort_code: '',
+  account_number: '',
+  currency: 'GBP',
+  ledger_account_id: '',
+  opening_balance: 0,
+  opening_balance_date: new Date().toISOString().split('T')[0],
+  active: true
+};
+
+const BankAccountDialog = ({ bankAccount, ledgerAccounts, locked, open, onOpenChange, onSaved }: BankAccountDialogProps) => {
+  const { toast } = useToast();
+  const [formData, setFormData] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setFormData(bankAccount ? {
+      name: bankAccount.name,
+      sort_code: bankAccount.sort_code || '',
+      account_number: bankAccount.account_number || '',
+      currency: bankAccount.currency,
+      ledger_account_id: bankAccount.ledger_account_id,
+      opening_balance: Number(bankAccount.opening_balance),
+      opening_balance_date: bankAccount.opening_balance_date,
+      active: bankAccount.active
+    } : emptyForm);
+  }, [open, bankAccount]);
+
+  const handleSubmit = async () => {
+    const payload = {
+      name: formData.name.trim(),
+      sort_code: formData.sort_code.trim() || null,
+      account_number: formData.account_number.trim() || null,
+      currency: formData.currency.trim().toUpperCase(),
+      ledger_account_id: formData.ledger_account_id,
+      opening_balance: formData.opening_balance,
+      opening_balance_date: formData.opening_balance_date,
+      active: formData.active
+    };
+
+    if (payload.sort_code && !/^\d{2}-\d{2}-\d{2}$/.test(payload.sort_code)) {
+      toast({
+        title: "Error",
+        description: "Enter the sort code as 12-34-56",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (payload.account_number && !/^\d{8}$/.test(payload.account_number)) {
+      toast({
+        title: "Error",
+        description: "The account number should be 8 digits",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (bankAccount) {
+        // Leave the posted opening balance alone unless it actually changed
+        const { opening_balance, opening_balance_date, ledger_account_id, ...details } = payload;
+        const openingChanged = opening_balance !== Number(bankAccount.opening_balance) ||
+          opening_balance_date !== bankAccount.opening_balance_date ||
+          ledger_account_id !== bankAccount.ledger_account_id;
+
+        const { error } = await supabase
+          .from('bank_accounts')
+          .update(openingChanged ? payload : details)
+          .eq('id', bankAccount.id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('bank_accounts')
+          .insert([payload]);
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: bankAccount ? "Bank account updated successfully" : "Bank account created successfully"
+      });
+
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving bank account:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to save bank account",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{bankAccount ? 'Edit Bank Account' : 'New Bank Account'}</DialogTitle>
+          <DialogDescription>
+            Transactions imported into this account post to its ledger account.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="bank-account-name">Name *</Label>
+            <Input
+              id="bank-account-name"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              placeholder="Business Current Account"
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="sort-code">Sort Code</Label>
+              <Input
+                id="sort-code"
+                value={formData.sort_code}
+                onChange={(e) => setFormData({ ...formData, sort_code: e.target.value })}
+                placeholder="12-34-56"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="account-number">Account Number</Label>
+              <Input
+                id="account-number"
+                value={formData.account_number}
+                onChange={(e) => setFormData({ ...formData, account_number: e.target.value })}
+                placeholder="12345678"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="currency">Currency</Label>
+              <Input
+                id="currency"
+                value={formData.currency}
+                maxLength={3}
+                onChange={(e) => setFormData({ ...formData, currency: e.target.value.toUpperCase() })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Ledger Account *</Label>
+            <Select
+              value={formData.ledger_account_id}
+              onValueChange={(value) => setFormData({ ...formData, ledger_account_id: value })}
+              disabled={locked}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select account" />
+              </SelectTrigger>
+              <SelectContent>
+                {ledgerAccounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {account.account_code} {account.account_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="opening-balance">Opening Balance</Label>
+              <Input
+                id="opening-balance"
+                type="number"
+                step="0.01"
+                value={formData.opening_balance}
+                onChange={(e) => setFormData({ ...formData, opening_balance: parseFloat(e.target.value) || 0 })}
+                disabled={locked}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="opening-balance-date">Opening Balance Date</Label>
+              <Input
+                id="opening-balance-date"
+                type="date"
+                value={formData.opening_balance_date}
+                onChange={(e) => setFormData({ ...formData, opening_balance_date: e.target.value })}
+                disabled={locked}
+              />
+            </div>
+          </div>
+          {locked && (
+            <p className="text-sm text-muted-foreground">
+              The opening balance and ledger account cannot change once the account has been reconciled.
+            </p>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Switch
+              id="bank-account-active"
+              checked={formData.active}
+              onCheckedChange={(checked) => setFormData({ ...formData, active: checked })}
+            />
+            <Label htmlFor="bank-account-active">Active</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isSaving || !formData.name.trim() || !formData.ledger_account_id || formData.currency.length !== 3}
+          >
+            {isSaving ? 'Saving...' : bankAccount ? 'Update Account' : 'Create Account'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BankAccountDialog;
@@ -0,0 +1,319 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Link2, RefreshCw, Unlink } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+
+interface FeedConnection {
+  id: string;
+  provider: string;
+  institution_name?: string;
+  status: string;
+  consent_expires_at?: string;
+  last_synced_at?: string;
+  last_error?: string;
+  accounts: FeedAccount[];
+}
+
+interface FeedAccount {
+  id: string;
+  name: string;
+  sort_code?: string;
+  account_number?: string;
+  currency: string;
+  bank_account_id?: string;
+  last_synced_at?: string;
+  locked_count: number;
+}
+
+interface BankAccountOption {
+  id: string;
+  name: string;
+}
+
+interface BankFeedsProps {
+  bankAccounts: BankAccountOption[];
+  onSynced: () => void;
+}
+
+// Radix selects cannot hold an empty value, so "not linked" uses a sentinel
+const NONE = 'none';
+
+const STATUS_COLORS: Record<string, string> = {
+  active: 'bg-green-100 text-green-800',
+  pending: 'bg-yellow-100 text-yellow-800',
+  expired: 'bg-red-100 text-red-800',
+  revoked: 'bg-red-100 text-red-800',
+  error: 'bg-red-100 text-red-800'
+};
+
+const BankFeeds = ({ bankAccounts, onSynced }: BankFeedsProps) => {
+  const { can } = useAuth();
+  const canEdit = can('banking.manage');
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [connections, setConnections] = useState<FeedConnection[]>([]);
+  const [busy, setBusy] = useState<string | null>(null);
+  const completedConsent = useRef<string | null>(null);
+
+  const fetchConnections = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('bank_feed_connections')
+      .select(`
+        *,
+        accounts:bank_feed_accounts (id, name, sort_code, account_number, currency, bank_account_id, last_synced_at, locked_count)
+      `)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error fetching bank feeds:', error);
+      return;
+    }
+
+    setConnections(data || []);
+  }, []);
+
+  const invoke = useCallback(async (body: Record<string, string>) => {
+    const { data, error } = await supabase.functions.invoke('bank-feeds', { body });
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return data;
+  }, []);
+
+  useEffect(() => {
+    fetchConnections();
+  }, [fetchConnections]);
+
+  // The provider sends the user back here with the consent they granted
+  useEffect(() => {
+    const consent = searchParams.get('consent');
+    if (!consent || completedConsent.current === consent) return;
+
+    completedConsent.current = consent;
+    setSearchParams({}, { replace: true });
+    setBusy('complete');
+    invoke({ action: 'complete', consent })
+      .then((result) => {
+        toast({
+          title: "Bank feed connected",
+          description: `${result.accounts} accounts found and ${result.imported} transactions imported.`
+        });
+        onSynced();
+      })
+      .catch((error) => {
+        console.error('Error completing bank feed connection:', error);
+        toast({
+          title: "Error",
+          description: (error as { message?: string }).message || "Failed to connect the bank feed",
+          variant: "destructive"
+        });
+      })
+      .finally(() => {
+        setBusy(null);
+        fetchConnections();
+      });
+  }, [searchParams, setSearchParams, invoke, toast, onSynced, fetchConnections]);
+
+  const connect = async () => {
+    setBusy('connect');
+    try {
+      const result = await invoke({ action: 'connect', redirectUrl: `${window.location.origin}/banking` });
+      window.location.href = result.authUrl;
+    } catch (error) {
+      console.error('Error connecting bank feed:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to start the bank connection",
+        variant: "destructive"
+      });
+      setBusy(null);
+    }
+  };
+
+  const sync = async (connection: FeedConnection) => {
+    setBusy(connection.id);
+    try {
+      const result = await invoke({ action: 'sync', connectionId: connection.id });
+
+      toast({
+        title: "Success",
+        description: `${result.imported} new transactions imported.`
+      });
+
+      onSynced();
+    } catch (error) {
+      console.error('Error syncing bank feed:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to sync the bank feed",
+        variant: "destructive"
+      });
+    } finally {
+      setBusy(null);
+      fetchConnections();
+    }
+  };
+
+  const disconnect = async (connection: FeedConnection) => {
+    if (!confirm(`Disconnect ${connection.institution_name || 'this bank'}? Transactions already imported are kept.`)) {
+      return;
+    }
+
+    setBusy(connection.id);
+    try {
+      await invoke({ action: 'disconnect', connectionId: connection.id });
+
+      toast({
+        title: "Success",
+        description: "Bank feed disconnected."
+      });
+    } catch (error) {
+      console.error('Error disconnecting bank feed:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to disconnect the bank feed",
+        variant: "destructive"
+      });
+    } finally {
+      setBusy(null);
+      fetchConnections();
+    }
+  };
+
+  const linkAccount = async (account: FeedAccount, bankAccountId: string) => {
+    const { error } = await supabase
+      .from('bank_feed_accounts')
+      .update({ bank_account_id: bankAccountId === NONE ? null : bankAccountId })
+      .eq('id', account.id);
+
+    if (error) {
+      console.error('Error linking feed account:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to link the account",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    fetchConnections();
+  };
+
+  const linkedElsewhere = (account: FeedAccount) => new Set(
+    connections
+      .flatMap(connection => connection.accounts)
+      .filter(other => other.id !== account.id && other.bank_account_id)
+      .map(other => other.bank_account_id)
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Bank Feeds</CardTitle>
+        {canEdit && (
+          <Button size="sm" onClick={connect} disabled={busy !== null}>
+            <Link2 className="w-4 h-4 mr-2" />
+            {busy === 'complete' ? 'Connecting...' : 'Connect Bank'}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {connections.map((connection) => (
+          <div key={connection.id} className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <div className="font-medium">
+                  {connection.institution_name || connection.provider}
+                  <Badge className={`ml-2 ${STATUS_COLORS[connection.status] || ''}`}>{connection.status}</Badge>
+                </div>
+                <div className="text-sm text-muted-foreground">
+                  {connection.last_synced_at
+                    ? `Last synced ${new Date(connection.last_synced_at).toLocaleString()}`
+                    : 'Not synced yet'}
+                  {connection.consent_expires_at &&
+                    ` · Access expires ${new Date(connection.consent_expires_at).toLocaleDateString()}`}
+                </div>
+                {connection.last_error && (
+                  <div className="text-sm text-red-600">{connection.last_error}</div>
+                )}
+              </div>
+              {canEdit && (
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => sync(connection)} disabled={busy !== null}>
+                    <RefreshCw className={`w-4 h-4 mr-2 ${busy === connection.id ? 'animate-spin' : ''}`} />
+                    Sync Now
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => disconnect(connection)} disabled={busy !== null}>
+                    <Unlink className="w-4 h-4 mr-2" />
+                    Disconnect
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Feed Account</TableHead>
+                  <TableHead>Sort Code / Account</TableHead>
+                  <TableHead>Imports Into</TableHead>
+                  <TableHead>Last Synced</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {connection.accounts.map((account) => {
+                  const taken = linkedElsewhere(account);
+                  return (
+                    <TableRow key={account.id}>
+                      <TableCell className="font-medium">{account.name} ({account.currency})</TableCell>
+                      <TableCell>{account.sort_code || '-'} / {account.account_number || '-'}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={account.bank_account_id || NONE}
+                          onValueChange={(value) => linkAccount(account, value)}
+                          disabled={!canEdit}
+                        >
+                          <SelectTrigger className="w-56">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NONE}>Not linked (not synced)</SelectItem>
+                            {bankAccounts.filter(b => !taken.has(b.id)).map((bankAccount) => (
+                              <SelectItem key={bankAccount.id} value={bankAccount.id}>{bankAccount.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        {account.last_synced_at ? new Date(account.last_synced_at).toLocaleString() : '-'}
+                        {account.locked_count > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            {account.locked_count} dated in a locked period were skipped
+                          </p>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        ))}
+
+        {connections.length === 0 && (
+          <div className="text-center py-8 text-muted-foreground">
+            No bank feeds yet. Connect a bank to import its transactions automatically every few hours.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BankFeeds;
@@ -0,0 +1,665 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Upload, AlertCircle, Save } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  CSV_DELIMITERS,
+  DATE_FORMATS,
+  STATEMENT_FILE_TYPES,
+  STATEMENT_FORMATS,
+  CsvMapping,
+  DateFormat,
+  DecimalSeparator,
+  ParseResult,
+  StatementFormat,
+  detectDelimiter,
+  detectStatementFormat,
+  guessCsvMapping,
+  hashStatement,
+  headerSignature,
+  parseCsvRows,
+  parseStatement
+} from '@/lib/bank-import';
+
+interface SavedMapping extends CsvMapping {
+  id: string;
+  name: string;
+  header_signature: string | null;
+}
+
+interface BankAccountOption {
+  id: string;
+  name: string;
+}
+
+interface BankImportDialogProps {
+  bankAccounts: BankAccountOption[];
+  defaultBankAccountId?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+const NONE = 'none';
+const PREVIEW_LIMIT = 100;
+
+const toSavedMapping = (row: Omit<SavedMapping, 'date_format' | 'decimal_separator'> & { date_format: string; decimal_separator: string }): SavedMapping => ({
+  ...row,
+  date_format: row.date_format as DateFormat,
+  decimal_separator: row.decimal_separator as DecimalSeparator
+});
+
+const BankImportDialog = ({ bankAccounts, defaultBankAccountId, open, onOpenChange, onImported }: BankImportDialogProps) => {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [savedMappings, setSavedMappings] = useState<SavedMapping[]>([]);
+  const [bankAccountId, setBankAccountId] = useState('');
+  const [file, setFile] = useState<{ name: string; text: string } | null>(null);
+  const [format, setFormat] = useState<StatementFormat>('csv');
+  const [mapping, setMapping] = useState<CsvMapping | null>(null);
+  const [mappingId, setMappingId] = useState(NONE);
+  const [mappingName, setMappingName] = useState('');
+  const [dateFormat, setDateFormat] = useState<DateFormat>('DD/MM/YYYY');
+  const [duplicateLines, setDuplicateLines] = useState<Set<number>>(new Set());
+  const [lockedUntil, setLockedUntil] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const fetchMappings = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('bank_import_mappings')
+      .select('*')
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching import mappings:', error);
+      return [];
+    }
+
+    const mappings = (data || []).map(toSavedMapping);
+    setSavedMappings(mappings);
+    return mappings;
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      setFile(null);
+      setMapping(null);
+      setMappingId(NONE);
+      setMappingName('');
+      setBankAccountId(defaultBankAccountId || bankAccounts[0]?.id || '');
+      fetchMappings();
+    }
+  }, [open, fetchMappings, defaultBankAccountId, bankAccounts]);
+
+  const csvRows = useMemo(
+    () => (file && format === 'csv' && mapping ? parseCsvRows(file.text, mapping.delimiter) : []),
+    [file, format, mapping]
+  );
+
+  const columns = useMemo(() => {
+    const width = Math.max(0, ...csvRows.slice(0, 20).map(row => row.length));
+    return Array.from({ length: width }, (_, index) =>
+      mapping?.has_header && csvRows[0]?.[index]?.trim()
+        ? csvRows[0][index].trim()
+        : `Column ${index + 1}`
+    );
+  }, [csvRows, mapping?.has_header]);
+
+  const preview = useMemo((): { result: ParseResult | null; error: string | null } => {
+    if (!file) return { result: null, error: null };
+    try {
+      return { result: parseStatement(file.text, format, { csvMapping: mapping || undefined, dateFormat }), error: null };
+    } catch (error) {
+      return { result: null, error: (error as { message?: string }).message || 'The file could not be read' };
+    }
+  }, [file, format, mapping, dateFormat]);
+
+  // Lines the account already holds (from an earlier or overlapping statement) are skipped on import
+  useEffect(() => {
+    const transactions = preview.result?.transactions || [];
+    setDuplicateLines(new Set());
+    if (transactions.length === 0 || !bankAccountId) return;
+
+    let cancelled = false;
+    supabase
+      .rpc('find_duplicate_bank_transactions', { _bank_account_id: bankAccountId, _transactions: transactions })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error checking for duplicates:', error);
+          return;
+        }
+        if (!cancelled) {
+          setDuplicateLines(new Set(data || []));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [preview.result, bankAccountId]);
+
+  // As are lines on or before the reconciled statement date or the period and VAT lock dates
+  useEffect(() => {
+    setLockedUntil(null);
+    if (!bankAccountId) return;
+
+    let cancelled = false;
+    supabase
+      .rpc('bank_import_locked_until', { _bank_account_id: bankAccountId })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error checking the lock date:', error);
+          return;
+        }
+        if (!cancelled) {
+          setLockedUntil(data);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [bankAccountId]);
+
+  // Use the saved mapping whose header row matches this file, otherwise guess from the headers
+  const prepareCsvMapping = (text: string, mappings: SavedMapping[]) => {
+    const delimiter = detectDelimiter(text);
+    const headers = parseCsvRows(text.split(/\r?\n/).slice(0, 1).join('\n'), delimiter)[0] || [];
+    const saved = mappings.find(m => m.header_signature && m.header_signature === headerSignature(headers));
+
+    if (saved) {
+      setMapping(saved);
+      setMappingId(saved.id);
+      setMappingName(saved.name);
+    } else {
+      setMapping(guessCsvMapping(headers, delimiter));
+      setMappingId(NONE);
+      setMappingName('');
+    }
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+
+    const text = await selected.text();
+    const detected = detectStatementFormat(selected.name, text);
+
+    setFile({ name: selected.name, text });
+    setFormat(detected);
+    if (detected === 'csv') {
+      prepareCsvMapping(text, savedMappings);
+    }
+
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleFormatChange = (value: StatementFormat) => {
+    setFormat(value);
+    if (value === 'csv' && file && !mapping) {
+      prepareCsvMapping(file.text, savedMappings);
+    }
+  };
+
+  const handleSavedMappingChange = (id: string) => {
+    setMappingId(id);
+    const saved = savedMappings.find(m => m.id === id);
+    if (saved) {
+      setMapping(saved);
+      setMappingName(saved.name);
+    }
+  };
+
+  const updateMapping = <K extends keyof CsvMapping>(field: K, value: CsvMapping[K]) => {
+    setMapping(prev => prev ? { ...prev, [field]: value } : prev);
+  };
+
+  const setAmountMode = (mode: 'single' | 'split') => {
+    setMapping(prev => {
+      if (!prev) return prev;
+      return mode === 'single'
+        ? { ...prev, amount_column: prev.amount_column ?? prev.credit_column ?? prev.debit_column ?? 0, debit_column: null, credit_column: null }
+        : { ...prev, amount_column: null, debit_column: prev.debit_column ?? prev.amount_column ?? 0, credit_column: prev.credit_column };
+    });
+  };
+
+  const saveMapping = async () => {
+    if (!mapping || !mappingName.trim()) return;
+
+    try {
+      const values = {
+        name: mappingName.trim(),
+        delimiter: mapping.delimiter,
+        has_header: mapping.has_header,
+        date_column: mapping.date_column,
+        description_column: mapping.description_column,
+        amount_column: mapping.amount_column,
+        debit_column: mapping.debit_column,
+        credit_column: mapping.credit_column,
+        reference_column: mapping.reference_column,
+        balance_column: mapping.balance_column,
+        date_format: mapping.date_format,
+        decimal_separator: mapping.decimal_separator,
+        invert_amounts: mapping.invert_amounts,
+        header_signature: mapping.has_header && csvRows[0] ? headerSignature(csvRows[0]) : null
+      };
+
+      // Saving under an existing name updates that mapping
+      const existing = savedMappings.find(m => m.name === values.name);
+      const { data, error } = existing
+        ? await supabase.from('bank_import_mappings').update(values).eq('id', existing.id).select('id').single()
+        : await supabase.from('bank_import_mappings').insert(values).select('id').single();
+
+      if (error) throw error;
+
+      await fetchMappings();
+      setMappingId(data.id);
+
+      toast({
+        title: "Success",
+        description: `Mapping "${values.name}" saved`
+      });
+    } catch (error) {
+      console.error('Error saving import mapping:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to save mapping",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const importTransactions = async () => {
+    const transactions = preview.result?.transactions || [];
+    if (!file || transactions.length === 0 || !bankAccountId) return;
+
+    setIsImporting(true);
+    try {
+      // The import is recorded as one batch; the database skips lines it already holds
+      const { data: batchId, error } = await supabase.rpc('import_bank_statement', {
+        _bank_account_id: bankAccountId,
+        _file_name: file.name,
+        _file_hash: await hashStatement(file.text),
+        _format: format,
+        _transactions: transactions
+      });
+
+      if (error) throw error;
+
+      const { data: batch, error: batchError } = await supabase
+        .from('bank_import_batches')
+        .select('transaction_count, duplicate_count, locked_count')
+        .eq('id', batchId)
+        .single();
+
+      if (batchError) throw batchError;
+
+      const skippedNotes = [
+        batch.duplicate_count > 0 && `${batch.duplicate_count} already imported`,
+        batch.locked_count > 0 && `${batch.locked_count} in a locked period`
+      ].filter(Boolean);
+
+      toast({
+        title: "Success",
+        description: skippedNotes.length > 0
+          ? `Imported ${batch.transaction_count} transactions from ${file.name}; skipped ${skippedNotes.join(' and ')}`
+          : `Imported ${batch.transaction_count} transactions from ${file.name}`
+      });
+
+      onImported();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error importing transactions:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to import transactions",
+        variant: "destructive"
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const columnSelect = (value: number | null, onChange: (column: number | null) => void, optional = false) => (
+    <Select
+      value={value === null ? NONE : String(value)}
+      onValueChange={(selected) => onChange(selected === NONE ? null : Number(selected))}
+    >
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {optional && <SelectItem value={NONE}>Not used</SelectItem>}
+        {columns.map((column, index) => (
+          <SelectItem key={index} value={String(index)}>{column}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const transactions = preview.result?.transactions || [];
+  const skipped = preview.result?.skipped || [];
+  const isLocked = (transaction: { date: string }) => lockedUntil !== null && transaction.date <= lockedUntil;
+  const lockedCount = transactions.filter(isLocked).length;
+  const newCount = transactions.filter((transaction, index) => !isLocked(transaction) && !duplicateLines.has(index + 1)).length;
+  const moneyIn = transactions.filter(t => t.amount > 0).reduce((sum, t) => sum + t.amount, 0);
+  const moneyOut = transactions.filter(t => t.amount < 0).reduce((sum, t) => sum + t.amount, 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Bank Statement</DialogTitle>
+          <DialogDescription>
+            CSV, OFX/QFX, QIF and CAMT.053 files are supported. Check the preview before importing.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2 md:w-64">
+            <Label>Bank Account</Label>
+            <Select value={bankAccountId} onValueChange={setBankAccountId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select account" />
+              </SelectTrigger>
+              <SelectContent>
+                {bankAccounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex flex-col md:flex-row md:items-end gap-4">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={STATEMENT_FILE_TYPES}
+              onChange={handleFileSelected}
+              className="hidden"
+            />
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="w-4 h-4 mr-2" />
+              {file ? 'Choose Another File' : 'Choose File'}
+            </Button>
+            {file && (
+              <>
+                <div className="text-sm text-muted-foreground flex-1 truncate">{file.name}</div>
+                <div className="space-y-2 md:w-64">
+                  <Label>Format</Label>
+                  <Select value={format} onValueChange={(value) => handleFormatChange(value as StatementFormat)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {STATEMENT_FORMATS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            )}
+          </div>
+
+          {file && format === 'qif' && (
+            <div className="space-y-2 md:w-64">
+              <Label>Date Format</Label>
+              <Select value={dateFormat} onValueChange={(value) => setDateFormat(value as DateFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DATE_FORMATS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {file && format === 'csv' && mapping && (
+            <div className="space-y-4 p-4 border rounded-lg">
+              <div className="flex flex-col md:flex-row md:items-end gap-4">
+                <div className="space-y-2 md:w-64">
+                  <Label>Saved Mapping</Label>
+                  <Select value={mappingId} onValueChange={handleSavedMappingChange}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Custom</SelectItem>
+                      {savedMappings.map(saved => (
+                        <SelectItem key={saved.id} value={saved.id}>{saved.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2 flex-1">
+                  <Label htmlFor="mapping-name">Save As</Label>
+                  <Input
+                    id="mapping-name"
+                    value={mappingName}
+                    onChange={(e) => setMappingName(e.target.value)}
+                    placeholder="e.g. Barclays current account"
+                  />
+                </div>
+                <Button variant="outline" onClick={saveMapping} disabled={!mappingName.trim()}>
+                  <Save className="w-4 h-4 mr-2" />
+                  Save Mapping
+                </Button>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="space-y-2">
+                  <Label>Delimiter</Label>
+                  <Select value={mapping.delimiter} onValueChange={(value) => updateMapping('delimiter', value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CSV_DELIMITERS.map(option => (
+                        <SelectItem key={option.label} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Date Format</Label>
+                  <Select value={mapping.date_format} onValueChange={(value) => updateMapping('date_format', value as DateFormat)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DATE_FORMATS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Decimal Separator</Label>
+                  <Select
+                    value={mapping.decimal_separator}
+                    onValueChange={(value) => updateMapping('decimal_separator', value as DecimalSeparator)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value=".">Point (1,234.56)</SelectItem>
+                      <SelectItem value=",">Comma (1.234,56)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Amounts</Label>
+                  <Select
+                    value={mapping.amount_column === null ? 'split' : 'single'}
+                    onValueChange={(value) => setAmountMode(value as 'single' | 'split')}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="single">One signed column</SelectItem>
+                      <SelectItem value="split">Separate money in / out</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Date Column</Label>
+                  {columnSelect(mapping.date_column, (column) => updateMapping('date_column', column ?? 0))}
+                </div>
+                <div className="space-y-2">
+                  <Label>Description Column</Label>
+                  {columnSelect(mapping.description_column, (column) => updateMapping('description_column', column ?? 0))}
+                </div>
+                {mapping.amount_column !== null ? (
+                  <div className="space-y-2">
+                    <Label>Amount Column</Label>
+                    {columnSelect(mapping.amount_column, (column) => updateMapping('amount_column', column ?? 0))}
+                  </div>
+                ) : (
+                  <>
+                    <div className="space-y-2">
+                      <Label>Money Out Column</Label>
+                      {columnSelect(mapping.debit_column, (column) => updateMapping('debit_column', column), true)}
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Money In Column</Label>
+                      {columnSelect(mapping.credit_column, (column) => updateMapping('credit_column', column), true)}
+                    </div>
+                  </>
+                )}
+                <div className="space-y-2">
+                  <Label>Reference Column</Label>
+                  {columnSelect(mapping.reference_column, (column) => updateMapping('reference_column', column), true)}
+                </div>
+                <div className="space-y-2">
+                  <Label>Balance Column</Label>
+                  {columnSelect(mapping.balance_column, (column) => updateMapping('balance_column', column), true)}
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-6">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="mapping-has-header"
+                    checked={mapping.has_header}
+                    onCheckedChange={(checked) => updateMapping('has_header', checked)}
+                  />
+                  <Label htmlFor="mapping-has-header">First row is a header</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="mapping-invert"
+                    checked={mapping.invert_amounts}
+                    onCheckedChange={(checked) => updateMapping('invert_amounts', checked)}
+                  />
+                  <Label htmlFor="mapping-invert">Reverse signs (card statements)</Label>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {preview.error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{preview.error}</AlertDescription>
+            </Alert>
+          )}
+
+          {preview.result && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="secondary">{newCount} to import</Badge>
+                {duplicateLines.size > 0 && <Badge variant="outline">{duplicateLines.size} already imported</Badge>}
+                {lockedCount > 0 && (
+                  <Badge variant="outline">{lockedCount} locked to {new Date(lockedUntil).toLocaleDateString()}</Badge>
+                )}
+                {skipped.length > 0 && <Badge variant="destructive">{skipped.length} skipped</Badge>}
+                <span className="text-green-600">In £{moneyIn.toFixed(2)}</span>
+                <span className="text-red-600">Out £{Math.abs(moneyOut).toFixed(2)}</span>
+              </div>
+
+              {skipped.length > 0 && (
+                <Alert>
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    <div className="space-y-1">
+                      {skipped.slice(0, 10).map(row => (
+                        <div key={row.row}>Row {row.row}: {row.reason}</div>
+                      ))}
+                      {skipped.length > 10 && <div>and {skipped.length - 10} more</div>}
+                    </div>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="border rounded-lg max-h-80 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead>Reference</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {transactions.slice(0, PREVIEW_LIMIT).map((transaction, index) => (
+                      <TableRow key={index} className={duplicateLines.has(index + 1) || isLocked(transaction) ? 'opacity-50' : undefined}>
+                        <TableCell>{new Date(transaction.date).toLocaleDateString()}</TableCell>
+                        <TableCell className="whitespace-pre-line">
+                          {transaction.description}
+                          {duplicateLines.has(index + 1) ? (
+                            <Badge variant="outline" className="ml-2">Already imported</Badge>
+                          ) : isLocked(transaction) && (
+                            <Badge variant="outline" className="ml-2">Locked period</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>{transaction.reference || '-'}</TableCell>
+                        <TableCell className={`text-right ${transaction.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          £{Math.abs(transaction.amount).toFixed(2)} {transaction.amount >= 0 ? 'CR' : 'DR'}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {transactions.length > PREVIEW_LIMIT && (
+                  <div className="text-center text-sm text-muted-foreground py-2">
+                    Showing the first {PREVIEW_LIMIT} of {transactions.length} transactions
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={importTransactions} disabled={isImporting || !bankAccountId || newCount <= 0}>
+            {isImporting ? 'Importing...' : `Import ${newCount} Transactions`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BankImportDialog;
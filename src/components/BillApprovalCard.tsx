@@ -0,0 +1,165 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ClipboardCheck, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+
+interface ApprovalThreshold {
+  id: string;
+  min_amount: number;
+  approvals_required: number;
+}
+
+// Bills at or over a threshold need that many approvals before they post to the ledger
+const BillApprovalCard = () => {
+  const { can } = useAuth();
+  const canEdit = can('settings.manage');
+  const { toast } = useToast();
+  const [thresholds, setThresholds] = useState<ApprovalThreshold[]>([]);
+  const [minAmount, setMinAmount] = useState('');
+  const [approvalsRequired, setApprovalsRequired] = useState('1');
+  const [busy, setBusy] = useState(false);
+
+  const fetchThresholds = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('bill_approval_thresholds')
+      .select('id, min_amount, approvals_required')
+      .order('min_amount');
+
+    if (error) {
+      console.error('Error fetching approval thresholds:', error);
+      return;
+    }
+
+    setThresholds(data || []);
+  }, []);
+
+  useEffect(() => {
+    fetchThresholds();
+  }, [fetchThresholds]);
+
+  const run = async (action: () => PromiseLike<{ error: unknown }>, success: string, failure: string) => {
+    setBusy(true);
+    try {
+      const { error } = await action();
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: success
+      });
+    } catch (error) {
+      console.error('Error updating approval thresholds:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || failure,
+        variant: "destructive"
+      });
+    } finally {
+      setBusy(false);
+      fetchThresholds();
+    }
+  };
+
+  const addThreshold = () => run(
+    async () => {
+      const result = await supabase
+        .from('bill_approval_thresholds')
+        .insert({ min_amount: Number(minAmount), approvals_required: Number(approvalsRequired) });
+      if (!result.error) setMinAmount('');
+      return result;
+    },
+    `Bills of £${Number(minAmount).toFixed(2)} or more now need approval`,
+    "Failed to add the threshold"
+  );
+
+  const removeThreshold = (threshold: ApprovalThreshold) => run(
+    () => supabase.from('bill_approval_thresholds').delete().eq('id', threshold.id),
+    "Threshold removed",
+    "Failed to remove the threshold"
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="w-5 h-5" />
+          Bill Approval
+        </CardTitle>
+        <CardDescription>
+          Bills whose total reaches a threshold are submitted for approval and only post to the ledger once approved by someone other than the person who submitted them
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {thresholds.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Bill total from</TableHead>
+                <TableHead>Approvals needed</TableHead>
+                {canEdit && <TableHead></TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {thresholds.map((threshold) => (
+                <TableRow key={threshold.id}>
+                  <TableCell>£{Number(threshold.min_amount).toFixed(2)}</TableCell>
+                  <TableCell>{threshold.approvals_required}</TableCell>
+                  {canEdit && (
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => removeThreshold(threshold)} disabled={busy}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground">No thresholds: bills post as soon as they are marked received.</p>
+        )}
+
+        {canEdit && (
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="threshold_amount">Bill total from (£)</Label>
+              <Input
+                id="threshold_amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={minAmount}
+                onChange={(e) => setMinAmount(e.target.value)}
+                className="w-40"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="threshold_approvals">Approvals needed</Label>
+              <Input
+                id="threshold_approvals"
+                type="number"
+                min="1"
+                max="5"
+                value={approvalsRequired}
+                onChange={(e) => setApprovalsRequired(e.target.value)}
+                className="w-32"
+              />
+            </div>
+            <Button variant="outline" onClick={addThreshold} disabled={busy || minAmount === '' || !approvalsRequired}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Threshold
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BillApprovalCard;
@@ -0,0 +1,286 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+
+export interface ApprovableBill {
+  id: string;
+  number: string;
+  supplier: string;
+  total: number;
+  status: string;
+  // From the organisation's thresholds for this bill's total
+  approvalsRequired: number;
+}
+
+interface ApprovalEvent {
+  id: string;
+  user_id: string | null;
+  action: string;
+  comment: string | null;
+  created_at: string;
+}
+
+interface BillLine {
+  id: string;
+  description: string;
+  quantity: number;
+  line_total: number;
+  account: { account_code: string | null; account_name: string } | null;
+}
+
+interface BillApprovalDialogProps {
+  bill: ApprovableBill | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChanged: () => void;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  submitted: 'Submitted for approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  withdrawn: 'Withdrawn',
+  commented: 'Comment',
+};
+
+const BillApprovalDialog = ({ bill, open, onOpenChange, onChanged }: BillApprovalDialogProps) => {
+  const { user, can } = useAuth();
+  const canEdit = can('purchases.manage');
+  const canApprove = can('bills.approve');
+  const { toast } = useToast();
+  const [events, setEvents] = useState<ApprovalEvent[]>([]);
+  const [lines, setLines] = useState<BillLine[]>([]);
+  const [memberNames, setMemberNames] = useState<Record<string, string>>({});
+  const [comment, setComment] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const fetchApproval = useCallback(async () => {
+    if (!bill) return;
+
+    const [eventsResult, linesResult, membersResult] = await Promise.all([
+      supabase
+        .from('bill_approval_events')
+        .select('id, user_id, action, comment, created_at')
+        .eq('bill_id', bill.id)
+        .order('created_at'),
+      supabase
+        .from('bill_lines')
+        .select('id, description, quantity, line_total, account:chart_of_accounts (account_code, account_name)')
+        .eq('bill_id', bill.id)
+        .order('created_at'),
+      supabase.rpc('organisation_members')
+    ]);
+
+    if (eventsResult.error || linesResult.error || membersResult.error) {
+      console.error('Error fetching bill approval:', eventsResult.error || linesResult.error || membersResult.error);
+      return;
+    }
+
+    setEvents(eventsResult.data || []);
+    setLines(linesResult.data || []);
+    setMemberNames(Object.fromEntries((membersResult.data || []).map(member => [member.user_id, member.name || member.email])));
+  }, [bill]);
+
+  useEffect(() => {
+    if (open) {
+      setComment('');
+      fetchApproval();
+    }
+  }, [open, fetchApproval]);
+
+  // Approvals count from the latest submission; earlier rounds ended in a rejection or withdrawal
+  const lastSubmission = events.reduce((last, event, index) => event.action === 'submitted' ? index : last, -1);
+  const submittedBy = lastSubmission >= 0 ? events[lastSubmission].user_id : null;
+  const approvedBy = new Set(events.slice(lastSubmission + 1).filter(event => event.action === 'approved').map(event => event.user_id));
+  const approvalsNeeded = Math.max(bill?.approvalsRequired || 0, 1);
+  const awaiting = bill?.status === 'awaiting_approval';
+  const canDecide = awaiting && canApprove && submittedBy !== user?.id && !approvedBy.has(user?.id ?? null);
+
+  const run = async (action: () => PromiseLike<{ error: unknown }>, success: string, failure: string, close = true) => {
+    setBusy(true);
+    try {
+      const { error } = await action();
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: success
+      });
+
+      setComment('');
+      onChanged();
+      if (close) {
+        onOpenChange(false);
+      } else {
+        fetchApproval();
+      }
+    } catch (error) {
+      console.error('Error updating bill approval:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || failure,
+        variant: "destructive"
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!bill) return null;
+
+  const submit = () => run(
+    () => supabase.rpc('submit_bill_for_approval', { _bill_id: bill.id, _comment: comment }),
+    `Bill ${bill.number} submitted for approval`,
+    "Failed to submit the bill"
+  );
+
+  const approve = () => run(
+    async () => {
+      const result = await supabase.rpc('approve_bill', { _bill_id: bill.id, _comment: comment });
+      if (!result.error && result.data === 'awaiting_approval') {
+        toast({ title: "Approved", description: `Bill ${bill.number} still needs more approvals before it posts.` });
+      }
+      return result;
+    },
+    `Approval of bill ${bill.number} recorded`,
+    "Failed to approve the bill"
+  );
+
+  const reject = () => run(
+    () => supabase.rpc('reject_bill', { _bill_id: bill.id, _comment: comment }),
+    `Bill ${bill.number} rejected and returned to draft`,
+    "Failed to reject the bill"
+  );
+
+  const withdraw = () => run(
+    () => supabase.rpc('withdraw_bill_from_approval', { _bill_id: bill.id, _comment: comment }),
+    `Bill ${bill.number} withdrawn and returned to draft`,
+    "Failed to withdraw the bill"
+  );
+
+  const addComment = () => run(
+    () => supabase.rpc('comment_on_bill', { _bill_id: bill.id, _comment: comment }),
+    "Comment added",
+    "Failed to add the comment",
+    false
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Approval for Bill {bill.number}</DialogTitle>
+          <DialogDescription>
+            {bill.supplier} · £{Number(bill.total).toFixed(2)}
+            {awaiting
+              ? ` · ${approvedBy.size} of ${approvalsNeeded} approval${approvalsNeeded === 1 ? '' : 's'}`
+              : bill.approvalsRequired > 0 && ` · needs ${bill.approvalsRequired} approval${bill.approvalsRequired === 1 ? '' : 's'}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Description</TableHead>
+              <TableHead>Account</TableHead>
+              <TableHead className="text-right">Qty</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {lines.map((line) => (
+              <TableRow key={line.id}>
+                <TableCell>{line.description}</TableCell>
+                <TableCell>
+                  {line.account ? `${line.account.account_code ? line.account.account_code + ' ' : ''}${line.account.account_name}` : '-'}
+                </TableCell>
+                <TableCell className="text-right">{line.quantity}</TableCell>
+                <TableCell className="text-right">£{Number(line.line_total).toFixed(2)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {events.length > 0 && (
+          <div className="space-y-2">
+            <Label>History</Label>
+            <div className="space-y-2 max-h-48 overflow-y-auto">
+              {events.map((event) => (
+                <div key={event.id} className="rounded-md border p-2 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <span>
+                      <Badge variant={event.action === 'rejected' ? 'destructive' : 'outline'} className="mr-2">
+                        {ACTION_LABELS[event.action] || event.action}
+                      </Badge>
+                      {event.user_id ? memberNames[event.user_id] || 'Former member' : 'Recurring schedule'}
+                    </span>
+                    <span className="text-muted-foreground">{new Date(event.created_at).toLocaleString()}</span>
+                  </div>
+                  {event.comment && <p className="mt-1 text-muted-foreground">{event.comment}</p>}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {(canEdit || canApprove) && (
+          <div className="space-y-2">
+            <Label htmlFor="approval_comment">Comment</Label>
+            <Textarea
+              id="approval_comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder={canDecide ? "Required when rejecting" : "Optional"}
+              rows={2}
+            />
+          </div>
+        )}
+
+        {awaiting && canApprove && !canDecide && (
+          <p className="text-sm text-muted-foreground">
+            {submittedBy === user?.id
+              ? "You submitted this bill, so someone else needs to approve it."
+              : "You have already approved this bill."}
+          </p>
+        )}
+
+        <DialogFooter className="gap-2">
+          {(canEdit || canApprove) && (
+            <Button variant="outline" onClick={addComment} disabled={busy || !comment.trim()}>
+              Add Comment
+            </Button>
+          )}
+          {awaiting && canEdit && (
+            <Button variant="outline" onClick={withdraw} disabled={busy}>
+              Withdraw
+            </Button>
+          )}
+          {canDecide && (
+            <>
+              <Button variant="destructive" onClick={reject} disabled={busy || !comment.trim()}>
+                Reject
+              </Button>
+              <Button onClick={approve} disabled={busy}>
+                Approve
+              </Button>
+            </>
+          )}
+          {bill.status === 'draft' && canEdit && (
+            <Button onClick={submit} disabled={busy}>
+              Submit for Approval
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BillApprovalDialog;
@@ -0,0 +1,567 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertCircle, FileText, Plus, Trash2, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { ATTACHMENT_CONTENT_TYPES, MAX_ATTACHMENT_BYTES, formatFileSize, uploadAttachment } from '@/lib/attachments';
+import { BILL_EXTRACTORS, ExtractedBill, defaultBillExtractor, matchSupplier } from '@/lib/bill-extraction';
+
+interface SupplierOption {
+  id: string;
+  name: string;
+  vat_number?: string | null;
+  default_account_id?: string | null;
+  default_tax_code_id?: string | null;
+  payment_terms_days?: number | null;
+}
+
+interface TaxCodeOption {
+  id: string;
+  name: string;
+  rate: number;
+}
+
+interface AccountOption {
+  id: string;
+  account_code?: string;
+  account_name: string;
+}
+
+interface DraftLine {
+  description: string;
+  quantity: number;
+  unit_price: number;
+  account_id: string;
+  tax_code_id: string;
+}
+
+interface BillImportDialogProps {
+  suppliers: SupplierOption[];
+  taxCodes: TaxCodeOption[];
+  expenseAccounts: AccountOption[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const addDays = (date: string, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result.toISOString().split('T')[0];
+};
+
+// Reads a bill from a PDF or image, then lets the user check and correct it before a draft is created
+const BillImportDialog = ({ suppliers, taxCodes, expenseAccounts, open, onOpenChange, onImported }: BillImportDialogProps) => {
+  const { currentOrganisation } = useAuth();
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [extractorId, setExtractorId] = useState('');
+  const [extracted, setExtracted] = useState<ExtractedBill | null>(null);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [showText, setShowText] = useState(false);
+  const [formData, setFormData] = useState({ supplier_id: '', bill_number: '', date: '', due_date: '' });
+  const [lines, setLines] = useState<DraftLine[]>([]);
+  const [duplicate, setDuplicate] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setFile(null);
+      setExtracted(null);
+      setExtractorId('');
+      setShowText(false);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (!file) {
+      setPreviewUrl(null);
+      return;
+    }
+
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  // Warn when the supplier's bill with this number has already been entered
+  useEffect(() => {
+    setDuplicate(false);
+    if (!formData.supplier_id || !formData.bill_number.trim()) return;
+
+    let cancelled = false;
+    supabase
+      .from('bills')
+      .select('id')
+      .eq('supplier_id', formData.supplier_id)
+      .eq('bill_number', formData.bill_number.trim())
+      .neq('status', 'cancelled')
+      .limit(1)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error checking for duplicate bills:', error);
+          return;
+        }
+        if (!cancelled) setDuplicate((data || []).length > 0);
+      });
+
+    return () => { cancelled = true; };
+  }, [formData.supplier_id, formData.bill_number]);
+
+  const taxCodeForRate = (rate: number | null) =>
+    rate === null ? undefined : taxCodes.find(taxCode => Number(taxCode.rate) === rate);
+
+  const extract = async (selected: File, id: string) => {
+    const extractor = BILL_EXTRACTORS.find(candidate => candidate.id === id);
+    if (!extractor) return;
+
+    setIsExtracting(true);
+    try {
+      const bill = await extractor.extract(selected);
+      const supplier = matchSupplier(bill, suppliers);
+      const date = bill.date || new Date().toISOString().split('T')[0];
+      const taxCodeId = taxCodeForRate(bill.vat_rate)?.id || supplier?.default_tax_code_id || '';
+
+      setExtracted(bill);
+      setFormData({
+        supplier_id: supplier?.id || '',
+        bill_number: bill.bill_number || '',
+        date,
+        due_date: bill.due_date || (supplier ? addDays(date, supplier.payment_terms_days ?? 30) : '')
+      });
+      setLines((bill.lines.length > 0 ? bill.lines : [{ description: '', quantity: 1, unit_price: 0 }]).map(line => ({
+        ...line,
+        account_id: supplier?.default_account_id || '',
+        tax_code_id: taxCodeId
+      })));
+    } catch (error) {
+      console.error('Error extracting bill:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "The file could not be read",
+        variant: "destructive"
+      });
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+
+    if (!ATTACHMENT_CONTENT_TYPES.includes(selected.type)) {
+      toast({ title: "Error", description: `${selected.name} is not a PDF or image`, variant: "destructive" });
+      return;
+    }
+    if (selected.size > MAX_ATTACHMENT_BYTES) {
+      toast({ title: "Error", description: `${selected.name} is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}`, variant: "destructive" });
+      return;
+    }
+
+    const extractor = defaultBillExtractor(selected);
+    if (!extractor) {
+      toast({ title: "Error", description: `No extractor can read ${selected.name}`, variant: "destructive" });
+      return;
+    }
+
+    setFile(selected);
+    setExtractorId(extractor.id);
+    extract(selected, extractor.id);
+  };
+
+  const handleExtractorChange = (id: string) => {
+    setExtractorId(id);
+    if (file) extract(file, id);
+  };
+
+  const handleSupplierChange = (supplierId: string) => {
+    const supplier = suppliers.find(s => s.id === supplierId);
+    setFormData({
+      ...formData,
+      supplier_id: supplierId,
+      due_date: extracted?.due_date || (supplier && formData.date ? addDays(formData.date, supplier.payment_terms_days ?? 30) : formData.due_date)
+    });
+    setLines(lines.map(line => ({
+      ...line,
+      account_id: line.account_id || supplier?.default_account_id || '',
+      tax_code_id: line.tax_code_id || supplier?.default_tax_code_id || ''
+    })));
+  };
+
+  const updateLine = (index: number, changes: Partial<DraftLine>) =>
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+
+  const lineVat = (line: DraftLine) => {
+    const taxCode = taxCodes.find(tc => tc.id === line.tax_code_id);
+    return round(line.quantity * line.unit_price * (taxCode ? Number(taxCode.rate) / 100 : 0));
+  };
+
+  const subtotal = round(lines.reduce((sum, line) => sum + line.quantity * line.unit_price, 0));
+  const vatAmount = round(lines.reduce((sum, line) => sum + lineVat(line), 0));
+  const total = round(subtotal + vatAmount);
+  const totalMismatch = extracted?.total !== null && extracted?.total !== undefined && Math.abs(extracted.total - total) > 0.01;
+
+  const canCreate = !!formData.supplier_id && !!formData.bill_number.trim() && !!formData.date
+    && lines.length > 0 && lines.every(line => line.description.trim() && line.account_id);
+
+  const handleCreate = async () => {
+    if (!file || !currentOrganisation) return;
+
+    setIsSaving(true);
+    try {
+      const { data: bill, error: billError } = await supabase
+        .from('bills')
+        .insert({
+          supplier_id: formData.supplier_id,
+          bill_number: formData.bill_number.trim(),
+          date: formData.date,
+          due_date: formData.due_date || null,
+          status: 'draft',
+          subtotal,
+          vat_amount: vatAmount,
+          total
+        })
+        .select()
+        .single();
+
+      if (billError) throw billError;
+
+      const { error: linesError } = await supabase
+        .from('bill_lines')
+        .insert(lines.map(line => {
+          const vat = lineVat(line);
+          return {
+            bill_id: bill.id,
+            description: line.description.trim(),
+            quantity: line.quantity,
+            unit_price: line.unit_price,
+            account_id: line.account_id,
+            tax_code_id: line.tax_code_id || null,
+            line_total: round(line.quantity * line.unit_price + vat),
+            vat_amount: vat
+          };
+        }));
+
+      if (linesError) {
+        await supabase.from('bills').delete().eq('id', bill.id);
+        throw linesError;
+      }
+
+      // The file stays with the bill as its supporting document
+      try {
+        await uploadAttachment(currentOrganisation.id, { type: 'bill', id: bill.id, label: `Bill ${bill.bill_number}` }, file);
+      } catch (error) {
+        console.error('Error attaching bill file:', error);
+        toast({
+          title: "Bill created",
+          description: `Bill ${bill.bill_number} was created but the file could not be attached: ${(error as { message?: string }).message || 'unknown error'}`,
+          variant: "destructive"
+        });
+        onImported();
+        onOpenChange(false);
+        return;
+      }
+
+      toast({
+        title: "Success",
+        description: `Draft bill ${bill.bill_number} created from ${file.name}`
+      });
+      onImported();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error creating bill from file:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to create the bill",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Bill from File</DialogTitle>
+          <DialogDescription>
+            Upload a supplier's bill as a PDF or image. The details read from it are shown for you to check before a draft bill is created.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <Button variant="outline" disabled={isExtracting || isSaving} asChild>
+            <label className="cursor-pointer">
+              <Upload className="w-4 h-4 mr-2" />
+              {file ? 'Choose Another File' : 'Choose File'}
+              <input
+                type="file"
+                accept={ATTACHMENT_CONTENT_TYPES.join(',')}
+                className="hidden"
+                onChange={handleFile}
+                disabled={isExtracting || isSaving}
+              />
+            </label>
+          </Button>
+          {file && <span className="text-sm text-muted-foreground">{file.name} · {formatFileSize(file.size)}</span>}
+          {BILL_EXTRACTORS.length > 1 && file && (
+            <div className="space-y-2">
+              <Label>Read with</Label>
+              <Select value={extractorId} onValueChange={handleExtractorChange}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BILL_EXTRACTORS.filter(extractor => extractor.accepts.includes(file.type)).map((extractor) => (
+                    <SelectItem key={extractor.id} value={extractor.id}>{extractor.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        {isExtracting && <p className="text-sm text-muted-foreground">Reading {file?.name}...</p>}
+
+        {file && extracted && !isExtracting && (
+          <div className="grid grid-cols-1 lg:grid-cols-5 gap-4">
+            <div className="lg:col-span-2 min-h-[24rem] rounded-md border flex items-center justify-center overflow-hidden">
+              {previewUrl ? (
+                file.type === 'application/pdf' ? (
+                  <iframe src={previewUrl} title={file.name} className="w-full h-[36rem]" />
+                ) : (
+                  <img src={previewUrl} alt={file.name} className="max-h-[36rem] max-w-full object-contain" />
+                )
+              ) : (
+                <FileText className="w-8 h-8 text-muted-foreground" />
+              )}
+            </div>
+
+            <div className="lg:col-span-3 space-y-4">
+              {extracted.warnings.length > 0 && (
+                <Alert>
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    <ul className="list-disc pl-4">
+                      {extracted.warnings.map((warning) => <li key={warning}>{warning}</li>)}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Supplier</Label>
+                  <Select value={formData.supplier_id} onValueChange={handleSupplierChange}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select supplier" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {suppliers.map((supplier) => (
+                        <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {!formData.supplier_id && extracted.supplier_name && (
+                    <p className="text-xs text-muted-foreground">
+                      Read as "{extracted.supplier_name}"{extracted.supplier_vat_number && ` (${extracted.supplier_vat_number})`}, which matches no supplier
+                    </p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="import_bill_number">Bill Number</Label>
+                  <Input
+                    id="import_bill_number"
+                    value={formData.bill_number}
+                    onChange={(e) => setFormData({ ...formData, bill_number: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="import_date">Date</Label>
+                  <Input
+                    id="import_date"
+                    type="date"
+                    value={formData.date}
+                    onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="import_due_date">Due Date</Label>
+                  <Input
+                    id="import_due_date"
+                    type="date"
+                    value={formData.due_date}
+                    onChange={(e) => setFormData({ ...formData, due_date: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              {duplicate && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>This supplier already has a bill numbered {formData.bill_number.trim()}.</AlertDescription>
+                </Alert>
+              )}
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Description</TableHead>
+                    <TableHead>Account</TableHead>
+                    <TableHead className="w-20">Qty</TableHead>
+                    <TableHead className="w-28">Unit Price</TableHead>
+                    <TableHead>VAT</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line, index) => (
+                    <TableRow key={index}>
+                      <TableCell>
+                        <Input value={line.description} onChange={(e) => updateLine(index, { description: e.target.value })} />
+                      </TableCell>
+                      <TableCell>
+                        <Select value={line.account_id} onValueChange={(value) => updateLine(index, { account_id: value })}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Expense account" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {expenseAccounts.map((account) => (
+                              <SelectItem key={account.id} value={account.id}>
+                                {account.account_code} {account.account_name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={line.quantity}
+                          onChange={(e) => updateLine(index, { quantity: parseFloat(e.target.value) || 0 })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          value={line.unit_price}
+                          onChange={(e) => updateLine(index, { unit_price: parseFloat(e.target.value) || 0 })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Select value={line.tax_code_id} onValueChange={(value) => updateLine(index, { tax_code_id: value })}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="VAT" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {taxCodes.map((taxCode) => (
+                              <SelectItem key={taxCode.id} value={taxCode.id}>
+                                {taxCode.name} ({taxCode.rate}%)
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                          disabled={lines.length === 1}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  const supplier = suppliers.find(s => s.id === formData.supplier_id);
+                  setLines([...lines, {
+                    description: '',
+                    quantity: 1,
+                    unit_price: 0,
+                    account_id: supplier?.default_account_id || '',
+                    tax_code_id: supplier?.default_tax_code_id || ''
+                  }]);
+                }}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Line
+              </Button>
+
+              <div className="p-4 bg-muted rounded-lg text-sm space-y-1">
+                {[
+                  { label: 'Subtotal', value: subtotal, read: extracted.subtotal },
+                  { label: 'VAT', value: vatAmount, read: extracted.vat_amount },
+                  { label: 'Total', value: total, read: extracted.total }
+                ].map(({ label, value, read }) => (
+                  <div key={label} className={`flex justify-between ${label === 'Total' ? 'font-bold' : ''}`}>
+                    <span>{label}:</span>
+                    <span>
+                      £{value.toFixed(2)}
+                      {read !== null && (
+                        <span className={`ml-2 font-normal ${Math.abs(read - value) > 0.01 ? 'text-destructive' : 'text-muted-foreground'}`}>
+                          (bill shows £{read.toFixed(2)})
+                        </span>
+                      )}
+                    </span>
+                  </div>
+                ))}
+              </div>
+
+              {totalMismatch && (
+                <p className="text-sm text-destructive">The lines do not add up to the total on the bill. Check the amounts and VAT rates.</p>
+              )}
+
+              {extracted.text.length > 0 && (
+                <div className="space-y-2">
+                  <Button variant="link" size="sm" className="px-0" onClick={() => setShowText(!showText)}>
+                    {showText ? 'Hide' : 'Show'} the text read from the file
+                  </Button>
+                  {showText && (
+                    <pre className="max-h-48 overflow-y-auto rounded-md border p-2 text-xs whitespace-pre-wrap">
+                      {extracted.text.join('\n')}
+                    </pre>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleCreate} disabled={!file || !extracted || isExtracting || isSaving || !canCreate}>
+            {isSaving ? 'Creating...' : 'Create Draft Bill'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BillImportDialog;
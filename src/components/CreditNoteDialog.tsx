@@ -0,0 +1,409 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+export interface CreditableDocument {
+  type: 'invoice' | 'bill';
+  id: string;
+  number: string;
+  date: string;
+  outstanding: number;
+}
+
+interface CreditNoteLine {
+  description: string;
+  quantity: number;
+  unit_price: number;
+  tax_code_id: string;
+  account_id: string;
+}
+
+interface TaxCode {
+  id: string;
+  name: string;
+  rate: number;
+}
+
+interface CreditNoteDialogProps {
+  document: CreditableDocument | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: () => void;
+}
+
+const NONE = 'none';
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const CreditNoteDialog = ({ document, open, onOpenChange, onCreated }: CreditNoteDialogProps) => {
+  const { toast } = useToast();
+  const [taxCodes, setTaxCodes] = useState<TaxCode[]>([]);
+  const [lines, setLines] = useState<CreditNoteLine[]>([]);
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [reason, setReason] = useState('');
+  const [supplierReference, setSupplierReference] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isBill = document?.type === 'bill';
+
+  // Start from the original document's lines so a full or partial credit is a matter of adjusting quantities
+  const loadDocumentLines = useCallback(async () => {
+    if (!document) return;
+
+    const [linesResult, taxCodesResult] = await Promise.all([
+      document.type === 'bill'
+        ? supabase
+            .from('bill_lines')
+            .select('description, quantity, unit_price, tax_code_id, account_id')
+            .eq('bill_id', document.id)
+            .order('created_at')
+        : supabase
+            .from('invoice_lines')
+            .select('description, quantity, unit_price, tax_code_id')
+            .eq('invoice_id', document.id)
+            .order('created_at'),
+      supabase.from('tax_codes').select('id, name, rate').order('rate', { ascending: false })
+    ]);
+
+    if (linesResult.error || taxCodesResult.error) {
+      console.error('Error loading document lines:', linesResult.error || taxCodesResult.error);
+      toast({
+        title: "Error",
+        description: `Failed to load ${document.number}`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setTaxCodes(taxCodesResult.data || []);
+    setLines((linesResult.data || []).map(line => ({
+      description: line.description,
+      quantity: Number(line.quantity),
+      unit_price: Number(line.unit_price),
+      tax_code_id: line.tax_code_id || NONE,
+      account_id: (line as { account_id?: string | null }).account_id || NONE
+    })));
+  }, [document, toast]);
+
+  useEffect(() => {
+    if (open && document) {
+      setDate(new Date().toISOString().split('T')[0]);
+      setReason('');
+      setSupplierReference('');
+      loadDocumentLines();
+    }
+  }, [open, document, loadDocumentLines]);
+
+  const calculateLine = (line: CreditNoteLine) => {
+    const taxCode = taxCodes.find(tc => tc.id === line.tax_code_id);
+    const net = round(line.quantity * line.unit_price);
+    const vatAmount = round(taxCode ? (net * taxCode.rate) / 100 : 0);
+    return { net, vatAmount };
+  };
+
+  const totals = lines.reduce((sum, line) => {
+    const { net, vatAmount } = calculateLine(line);
+    return { subtotal: round(sum.subtotal + net), vatAmount: round(sum.vatAmount + vatAmount) };
+  }, { subtotal: 0, vatAmount: 0 });
+  const total = round(totals.subtotal + totals.vatAmount);
+
+  const updateLine = (index: number, field: keyof CreditNoteLine, value: string | number) => {
+    setLines(prev => prev.map((line, i) => i === index ? { ...line, [field]: value } : line));
+  };
+
+  const addLine = () => {
+    setLines(prev => [...prev, { description: '', quantity: 1, unit_price: 0, tax_code_id: NONE, account_id: NONE }]);
+  };
+
+  const removeLine = (index: number) => {
+    setLines(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const saveCreditNote = async (issue: boolean) => {
+    if (!document) return;
+
+    if (total <= 0 || total > document.outstanding + 0.005) {
+      toast({
+        title: "Error",
+        description: `The credit must be between £0.01 and the outstanding £${document.outstanding.toFixed(2)}`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const header = {
+        date,
+        reason: reason.trim() || null,
+        subtotal: totals.subtotal,
+        vat_amount: totals.vatAmount,
+        total
+      };
+
+      // Lines can only be added while the credit note is a draft, so it is issued afterwards;
+      // the database posts the journal and reduces the outstanding balance at that point
+      let creditNote: { id: string; credit_note_number: string };
+
+      if (document.type === 'bill') {
+        const { data: bill, error: billError } = await supabase
+          .from('bills')
+          .select('supplier_id')
+          .eq('id', document.id)
+          .single();
+
+        if (billError) throw billError;
+
+        const { data, error } = await supabase
+          .from('supplier_credit_notes')
+          .insert({ ...header, bill_id: document.id, supplier_id: bill.supplier_id, credit_note_number: supplierReference.trim() })
+          .select('id, credit_note_number')
+          .single();
+
+        if (error) throw error;
+        creditNote = data;
+
+        const { error: linesError } = await supabase
+          .from('supplier_credit_note_lines')
+          .insert(lines.map(line => {
+            const { net, vatAmount } = calculateLine(line);
+            return {
+              supplier_credit_note_id: creditNote.id,
+              description: line.description,
+              quantity: line.quantity,
+              unit_price: line.unit_price,
+              tax_code_id: line.tax_code_id === NONE ? null : line.tax_code_id,
+              account_id: line.account_id === NONE ? null : line.account_id,
+              line_total: round(net + vatAmount),
+              vat_amount: vatAmount
+            };
+          }));
+
+        if (linesError) throw linesError;
+
+        if (issue) {
+          const { error: issueError } = await supabase
+            .from('supplier_credit_notes')
+            .update({ status: 'received' })
+            .eq('id', creditNote.id);
+
+          if (issueError) throw issueError;
+        }
+      } else {
+        const { data: invoice, error: invoiceError } = await supabase
+          .from('invoices')
+          .select('customer_id')
+          .eq('id', document.id)
+          .single();
+
+        if (invoiceError) throw invoiceError;
+
+        const { data, error } = await supabase
+          .from('credit_notes')
+          .insert({ ...header, invoice_id: document.id, customer_id: invoice.customer_id })
+          .select('id, credit_note_number')
+          .single();
+
+        if (error) throw error;
+        creditNote = data;
+
+        const { error: linesError } = await supabase
+          .from('credit_note_lines')
+          .insert(lines.map(line => {
+            const { net, vatAmount } = calculateLine(line);
+            return {
+              credit_note_id: creditNote.id,
+              description: line.description,
+              quantity: line.quantity,
+              unit_price: line.unit_price,
+              tax_code_id: line.tax_code_id === NONE ? null : line.tax_code_id,
+              line_total: net,
+              vat_amount: vatAmount
+            };
+          }));
+
+        if (linesError) throw linesError;
+
+        if (issue) {
+          const { error: issueError } = await supabase
+            .from('credit_notes')
+            .update({ status: 'issued' })
+            .eq('id', creditNote.id);
+
+          if (issueError) throw issueError;
+        }
+      }
+
+      toast({
+        title: "Success",
+        description: issue
+          ? `Credit note ${creditNote.credit_note_number} applied to ${document.number}`
+          : `Draft credit note ${creditNote.credit_note_number} saved`
+      });
+
+      onCreated();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving credit note:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to save credit note",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const canSave = lines.length > 0 && lines.every(line => line.description.trim()) && (!isBill || supplierReference.trim());
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isBill ? 'Supplier Credit Note' : 'Credit Note'} for {document?.number}</DialogTitle>
+          <DialogDescription>
+            Outstanding balance £{Number(document?.outstanding || 0).toFixed(2)}. Adjust the lines to the amount being credited.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {isBill && (
+              <div className="space-y-2">
+                <Label htmlFor="credit-note-reference">Supplier Reference *</Label>
+                <Input
+                  id="credit-note-reference"
+                  value={supplierReference}
+                  onChange={(e) => setSupplierReference(e.target.value)}
+                  placeholder="Number on the supplier's credit note"
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="credit-note-date">Date</Label>
+              <Input
+                id="credit-note-date"
+                type="date"
+                min={document?.date}
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="credit-note-reason">Reason</Label>
+              <Textarea
+                id="credit-note-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Goods returned, pricing error"
+                rows={2}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+              <Label className="text-base font-semibold">Lines</Label>
+              <Button type="button" variant="outline" size="sm" onClick={addLine}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Line
+              </Button>
+            </div>
+
+            {lines.map((line, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-end p-3 border rounded-lg">
+                <div className="col-span-12 md:col-span-5 space-y-1">
+                  <Label className="text-xs">Description</Label>
+                  <Input
+                    value={line.description}
+                    onChange={(e) => updateLine(index, 'description', e.target.value)}
+                  />
+                </div>
+                <div className="col-span-3 md:col-span-2 space-y-1">
+                  <Label className="text-xs">Quantity</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={line.quantity}
+                    onChange={(e) => updateLine(index, 'quantity', parseFloat(e.target.value) || 0)}
+                  />
+                </div>
+                <div className="col-span-4 md:col-span-2 space-y-1">
+                  <Label className="text-xs">Unit Price (£)</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={line.unit_price}
+                    onChange={(e) => updateLine(index, 'unit_price', parseFloat(e.target.value) || 0)}
+                  />
+                </div>
+                <div className="col-span-4 md:col-span-2 space-y-1">
+                  <Label className="text-xs">Tax Code</Label>
+                  <Select value={line.tax_code_id} onValueChange={(value) => updateLine(index, 'tax_code_id', value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>No VAT</SelectItem>
+                      {taxCodes.map(taxCode => (
+                        <SelectItem key={taxCode.id} value={taxCode.id}>
+                          {taxCode.name} ({taxCode.rate}%)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="col-span-1 flex justify-end">
+                  <Button type="button" variant="ghost" size="sm" onClick={() => removeLine(index)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="border-t pt-4 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span>Net</span>
+              <span>£{totals.subtotal.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>VAT</span>
+              <span>£{totals.vatAmount.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between font-bold text-base">
+              <span>Credit total</span>
+              <span>£{total.toFixed(2)}</span>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="outline" onClick={() => saveCreditNote(false)} disabled={isSaving || !canSave}>
+            Save Draft
+          </Button>
+          <Button onClick={() => saveCreditNote(true)} disabled={isSaving || !canSave}>
+            {isSaving ? 'Saving...' : isBill ? 'Record Credit Note' : 'Issue Credit Note'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CreditNoteDialog;
@@ -0,0 +1,206 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BookOpen, Download } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  GeneralLedger,
+  LedgerAccount,
+  SOURCE_LABELS,
+  calculateGeneralLedger,
+  generalLedgerCsvRows
+} from '@/lib/general-ledger';
+import { downloadCsv } from '@/lib/csv-export';
+
+interface GeneralLedgerReportProps {
+  accountId: string;
+  onAccountChange: (accountId: string) => void;
+  // No start date lists every posting up to the end date, as the trial balance totals them
+  from: string | null;
+  to: string;
+  // Set when opened from the P&L, which leaves out year-end closing journals
+  excludeYearEndClose: boolean;
+  onExcludeYearEndCloseChange: (exclude: boolean) => void;
+}
+
+const formatAmount = (amount: number) => `£${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// The postings behind a single account's figure, with running balance
+const GeneralLedgerReport = ({
+  accountId,
+  onAccountChange,
+  from,
+  to,
+  excludeYearEndClose,
+  onExcludeYearEndCloseChange
+}: GeneralLedgerReportProps) => {
+  const { toast } = useToast();
+  const [accounts, setAccounts] = useState<LedgerAccount[]>([]);
+  const [ledger, setLedger] = useState<GeneralLedger | null>(null);
+
+  const fetchAccounts = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('chart_of_accounts')
+      .select('id, account_code, account_name, account_type')
+      .order('account_code');
+
+    if (error) {
+      console.error('Error fetching accounts:', error);
+      return;
+    }
+
+    setAccounts(data || []);
+  }, []);
+
+  useEffect(() => {
+    fetchAccounts();
+  }, [fetchAccounts]);
+
+  // A response for an account or period no longer shown is dropped, so a slow earlier request
+  // cannot replace the ledger that was asked for last
+  useEffect(() => {
+    if (!accountId) {
+      setLedger(null);
+      return;
+    }
+
+    let cancelled = false;
+    calculateGeneralLedger(accountId, from, to, { excludeYearEndClose })
+      .then(result => { if (!cancelled) setLedger(result); })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Error generating general ledger:', error);
+        toast({
+          title: "Error",
+          description: (error as { message?: string }).message || "Failed to generate the general ledger",
+          variant: "destructive"
+        });
+      });
+
+    return () => { cancelled = true; };
+  }, [accountId, from, to, excludeYearEndClose, toast]);
+
+  const exportCsv = () => {
+    if (!ledger) return;
+    const name = `${ledger.account.account_code || ''} ${ledger.account.account_name}`.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    downloadCsv(`general-ledger-${name}-${ledger.from || 'start'}-to-${ledger.to}.csv`, generalLedgerCsvRows(ledger));
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col md:flex-row md:items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <BookOpen className="w-5 h-5" />
+            General Ledger
+          </CardTitle>
+          <CardDescription>
+            {from ? `Postings from ${new Date(from).toLocaleDateString()}` : 'All postings'} to {new Date(to).toLocaleDateString()}. Click a figure on another report to open its account here.
+            {excludeYearEndClose && ' Year-end closing journals are left out, as on the Profit & Loss.'}
+          </CardDescription>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex items-center gap-2">
+            <Switch
+              id="ledger-exclude-year-end"
+              checked={excludeYearEndClose}
+              onCheckedChange={onExcludeYearEndCloseChange}
+            />
+            <Label htmlFor="ledger-exclude-year-end">Hide year-end close</Label>
+          </div>
+          <Select value={accountId} onValueChange={onAccountChange}>
+            <SelectTrigger className="w-64">
+              <SelectValue placeholder="Choose an account" />
+            </SelectTrigger>
+            <SelectContent>
+              {accounts.map((account) => (
+                <SelectItem key={account.id} value={account.id}>
+                  {account.account_code} {account.account_name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={exportCsv} disabled={!ledger}>
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {ledger ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Reference</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">Debit</TableHead>
+                <TableHead className="text-right">Credit</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              <TableRow className="font-medium">
+                <TableCell>{ledger.from ? new Date(ledger.from).toLocaleDateString() : '-'}</TableCell>
+                <TableCell colSpan={5}>Opening balance</TableCell>
+                <TableCell className="text-right">{formatAmount(ledger.opening_balance)}</TableCell>
+              </TableRow>
+              {ledger.lines.map((line) => (
+                <TableRow key={line.id}>
+                  <TableCell>{new Date(line.date).toLocaleDateString()}</TableCell>
+                  <TableCell>
+                    <Link to={`/journals?search=${encodeURIComponent(line.reference)}`} className="hover:underline">
+                      {line.reference}
+                    </Link>
+                  </TableCell>
+                  <TableCell>
+                    {line.document_link ? (
+                      <Link to={line.document_link}>
+                        <Badge variant="secondary" className="cursor-pointer">{SOURCE_LABELS[line.source_type] || line.source_type}</Badge>
+                      </Link>
+                    ) : (
+                      <Badge variant="secondary">{SOURCE_LABELS[line.source_type] || line.source_type}</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{line.description || '-'}</TableCell>
+                  <TableCell className="text-right">{line.debit > 0 ? formatAmount(line.debit) : '-'}</TableCell>
+                  <TableCell className="text-right">{line.credit > 0 ? formatAmount(line.credit) : '-'}</TableCell>
+                  <TableCell className="text-right">{formatAmount(line.balance)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell>{new Date(ledger.to).toLocaleDateString()}</TableCell>
+                <TableCell colSpan={3} className="font-bold">Closing balance</TableCell>
+                <TableCell className="text-right">{formatAmount(ledger.total_debits)}</TableCell>
+                <TableCell className="text-right">{formatAmount(ledger.total_credits)}</TableCell>
+                <TableCell className="text-right font-bold">{formatAmount(ledger.closing_balance)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            Choose an account to see its postings.
+          </div>
+        )}
+
+        {ledger && ledger.lines.length === 0 && (
+          <div className="text-center py-4 text-muted-foreground">
+            Nothing was posted to this account in the period.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GeneralLedgerReport;
@@ -2,6 +2,8 @@ import { useState } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { useNavigate, Link, useLocation } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
+import OrganisationSwitcher from '@/components/OrganisationSwitcher';
+import PendingInvitations from '@/components/PendingInvitations';
 import { 
   LayoutDashboard, 
   FileText, 
@@ -11,17 +13,25 @@ import {
   LogOut,
   Calculator,
   Users,
+  NotebookPen,
+  Truck,
+  FileMinus,
+  Repeat,
+  Settings,
+  History,
+  UserCog,
   Menu,
   X
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { ROLE_LABELS } from '@/lib/permissions';
 
 interface LayoutProps {
   children: React.ReactNode;
 }
 
 const Layout = ({ children }: LayoutProps) => {
-  const { user, profile, signOut } = useAuth();
+  const { user, profile, currentOrganisation, signOut } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
   const [sidebarOpen, setSidebarOpen] = useState(false);
@@ -39,11 +49,18 @@ const Layout = ({ children }: LayoutProps) => {
     { name: 'Dashboard', href: '/', icon: LayoutDashboard },
     { name: 'Invoices', href: '/invoices', icon: FileText },
     { name: 'Bills', href: '/bills', icon: Receipt },
+    { name: 'Credit Notes', href: '/credit-notes', icon: FileMinus },
+    { name: 'Recurring', href: '/recurring', icon: Repeat },
     { name: 'Banking', href: '/banking', icon: Banknote },
+    { name: 'Journals', href: '/journals', icon: NotebookPen },
     { name: 'Reports', href: '/reports', icon: BarChart3 },
     { name: 'VAT MTD', href: '/vat-mtd', icon: FileText },
     { name: 'Customers', href: '/customers', icon: Users },
+    { name: 'Suppliers', href: '/suppliers', icon: Truck },
     { name: 'Chart of Accounts', href: '/accounts', icon: Calculator },
+    { name: 'Audit Log', href: '/audit', icon: History },
+    { name: 'Team', href: '/team', icon: UserCog },
+    { name: 'Settings', href: '/settings', icon: Settings },
   ];
 
   return (
@@ -71,7 +88,7 @@ const Layout = ({ children }: LayoutProps) => {
           <div className="p-6 hidden md:block">
             <h1 className="text-xl font-bold text-foreground">UK Bookkeeping</h1>
             <p className="text-sm text-muted-foreground mt-1">
-              {profile?.name} ({profile?.role})
+              {profile?.name}{currentOrganisation && ` (${ROLE_LABELS[currentOrganisation.role]})`}
             </p>
           </div>
           
@@ -94,8 +111,13 @@ const Layout = ({ children }: LayoutProps) => {
               </Button>
             </div>
           </div>
+
+          <div className="px-4 mt-4 md:mt-0 mb-4 space-y-2">
+            <OrganisationSwitcher />
+            <PendingInvitations />
+          </div>
           
-          <nav className="px-4 space-y-2 mt-4 md:mt-0">
+          <nav className="px-4 space-y-2">
             {navigationItems.map((item) => (
               <Link
                 key={item.name}
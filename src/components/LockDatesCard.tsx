@@ -0,0 +1,215 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Lock, Unlock } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+
+interface LockOverride {
+  id: string;
+  reason: string;
+  created_at: string;
+  expires_at: string;
+  ended_at?: string | null;
+  changes: { count: number }[];
+}
+
+const OVERRIDE_MINUTES = 15;
+
+const isActive = (override: LockOverride) =>
+  !override.ended_at && new Date(override.expires_at) > new Date();
+
+const LockDatesCard = () => {
+  const { can } = useAuth();
+  const canEdit = can('settings.manage');
+  const canOverride = can('lock_dates.override');
+  const { toast } = useToast();
+  const [lockDate, setLockDate] = useState('');
+  const [savedLockDate, setSavedLockDate] = useState('');
+  const [vatLockDate, setVatLockDate] = useState<string | null>(null);
+  const [overrides, setOverrides] = useState<LockOverride[]>([]);
+  const [reason, setReason] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const fetchLockDates = useCallback(async () => {
+    const [{ data: settings, error: settingsError }, { data: overrideData, error: overridesError }] = await Promise.all([
+      supabase.from('company_settings').select('lock_date, vat_lock_date').maybeSingle(),
+      supabase
+        .from('lock_date_overrides')
+        .select('id, reason, created_at, expires_at, ended_at, changes:lock_date_override_changes(count)')
+        .order('created_at', { ascending: false })
+        .limit(10)
+    ]);
+
+    if (settingsError || overridesError) {
+      console.error('Error fetching lock dates:', settingsError || overridesError);
+      return;
+    }
+
+    setLockDate(settings?.lock_date || '');
+    setSavedLockDate(settings?.lock_date || '');
+    setVatLockDate(settings?.vat_lock_date || null);
+    setOverrides(overrideData || []);
+  }, []);
+
+  useEffect(() => {
+    fetchLockDates();
+  }, [fetchLockDates]);
+
+  const run = async (action: () => PromiseLike<{ error: unknown }>, success: string, failure: string) => {
+    setBusy(true);
+    try {
+      const { error } = await action();
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: success
+      });
+    } catch (error) {
+      console.error('Error updating lock dates:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || failure,
+        variant: "destructive"
+      });
+    } finally {
+      setBusy(false);
+      fetchLockDates();
+    }
+  };
+
+  const saveLockDate = () => run(
+    () => supabase
+      .from('company_settings')
+      .upsert({ lock_date: lockDate || null, updated_at: new Date().toISOString() }),
+    lockDate ? `Transactions on or before ${new Date(lockDate).toLocaleDateString()} are now locked` : "Lock date removed",
+    "Failed to save the lock date"
+  );
+
+  const beginOverride = () => run(
+    async () => {
+      const result = await supabase.rpc('begin_lock_override', { _reason: reason.trim(), _minutes: OVERRIDE_MINUTES });
+      if (!result.error) setReason('');
+      return result;
+    },
+    `Locked periods can be changed for the next ${OVERRIDE_MINUTES} minutes. Every change is recorded.`,
+    "Failed to start the override"
+  );
+
+  const endOverride = () => run(
+    () => supabase.rpc('end_lock_override'),
+    "Locked periods are closed again",
+    "Failed to end the override"
+  );
+
+  const activeOverride = overrides.find(isActive);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Lock className="w-5 h-5" />
+          Lock Dates
+        </CardTitle>
+        <CardDescription>
+          Invoices, bills, journals and bank transactions dated on or before a lock date cannot be added, changed or deleted
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="lock_date">Period Lock Date</Label>
+            <div className="flex gap-2">
+              <Input
+                id="lock_date"
+                type="date"
+                value={lockDate}
+                onChange={(e) => setLockDate(e.target.value)}
+                disabled={!canEdit}
+              />
+              {canEdit && (
+                <Button variant="outline" onClick={saveLockDate} disabled={busy || lockDate === savedLockDate}>
+                  Save
+                </Button>
+              )}
+            </div>
+            <p className="text-sm text-muted-foreground">Set this once a period's accounts are finished</p>
+          </div>
+          <div className="space-y-2">
+            <Label>VAT Lock Date</Label>
+            <div className="h-10 flex items-center font-medium">
+              {vatLockDate ? new Date(vatLockDate).toLocaleDateString() : 'No VAT returns submitted'}
+            </div>
+            <p className="text-sm text-muted-foreground">Moves forward automatically to the end of each VAT return you submit</p>
+          </div>
+        </div>
+
+        {canOverride && (
+          <div className="space-y-2">
+            <Label htmlFor="override_reason">Override</Label>
+            {activeOverride ? (
+              <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3">
+                <div className="text-sm">
+                  <div className="font-medium">Locked periods are open until {new Date(activeOverride.expires_at).toLocaleTimeString()}</div>
+                  <div className="text-muted-foreground">{activeOverride.reason}</div>
+                </div>
+                <Button variant="outline" size="sm" onClick={endOverride} disabled={busy}>
+                  <Lock className="w-4 h-4 mr-2" />
+                  End Override
+                </Button>
+              </div>
+            ) : (
+              <div className="flex gap-2">
+                <Input
+                  id="override_reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Reason, e.g. correcting a miscoded bill after the accountant's review"
+                />
+                <Button variant="outline" onClick={beginOverride} disabled={busy || !reason.trim()}>
+                  <Unlock className="w-4 h-4 mr-2" />
+                  Override for {OVERRIDE_MINUTES} minutes
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {overrides.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Started</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Changes</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {overrides.map((override) => (
+                <TableRow key={override.id}>
+                  <TableCell>{new Date(override.created_at).toLocaleString()}</TableCell>
+                  <TableCell>{override.reason}</TableCell>
+                  <TableCell>{override.changes[0]?.count ?? 0}</TableCell>
+                  <TableCell>
+                    {isActive(override)
+                      ? <Badge className="bg-yellow-100 text-yellow-800">active</Badge>
+                      : <Badge variant="secondary">ended</Badge>}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LockDatesCard;
@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Plus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+const NEW_ORGANISATION = '__new__';
+
+const OrganisationSwitcher = () => {
+  const { organisations, currentOrganisation, switchOrganisation, createOrganisation } = useAuth();
+  const { toast } = useToast();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const handleSelect = async (value: string) => {
+    if (value === NEW_ORGANISATION) {
+      setIsCreateOpen(true);
+      return;
+    }
+
+    if (value === currentOrganisation?.id) return;
+
+    setBusy(true);
+    const { error } = await switchOrganisation(value);
+    if (error) {
+      setBusy(false);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to switch organisation",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    window.location.reload();
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setBusy(true);
+    const { error } = await createOrganisation(name);
+    if (error) {
+      setBusy(false);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create the organisation",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    window.location.reload();
+  };
+
+  return (
+    <>
+      <Select value={currentOrganisation?.id ?? ''} onValueChange={handleSelect} disabled={busy}>
+        <SelectTrigger className="w-full">
+          <SelectValue placeholder="Select organisation" />
+        </SelectTrigger>
+        <SelectContent>
+          {organisations.map((organisation) => (
+            <SelectItem key={organisation.id} value={organisation.id}>
+              {organisation.name}
+            </SelectItem>
+          ))}
+          <SelectItem value={NEW_ORGANISATION}>
+            <span className="flex items-center">
+              <Plus className="w-4 h-4 mr-2" />
+              New organisation
+            </span>
+          </SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Organisation</DialogTitle>
+            <DialogDescription>
+              An organisation has its own books, settings and team. You will be its owner.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="organisation-name">Name</Label>
+              <Input
+                id="organisation-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsCreateOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={busy || !name.trim()}>
+                {busy ? 'Creating...' : 'Create Organisation'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default OrganisationSwitcher;
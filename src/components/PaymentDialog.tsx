@@ -0,0 +1,270 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+export interface PayableDocument {
+  type: 'invoice' | 'bill';
+  id: string;
+  number: string;
+  total: number;
+  // Issued credit notes reduce what is left to pay
+  credited?: number;
+}
+
+interface Payment {
+  id: string;
+  amount: number;
+  date: string;
+  method: string | null;
+  reference: string | null;
+}
+
+interface PaymentDialogProps {
+  document: PayableDocument | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onPaymentsChanged: () => void;
+}
+
+const PAYMENT_METHODS = [
+  { value: 'bank_transfer', label: 'Bank Transfer' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'cheque', label: 'Cheque' },
+  { value: 'card', label: 'Card' },
+];
+
+const emptyForm = {
+  amount: 0,
+  date: new Date().toISOString().split('T')[0],
+  method: 'bank_transfer',
+  reference: ''
+};
+
+const PaymentDialog = ({ document, open, onOpenChange, onPaymentsChanged }: PaymentDialogProps) => {
+  const { toast } = useToast();
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const column = document?.type === 'bill' ? 'bill_id' : 'invoice_id';
+  const amountPaid = payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
+  const credited = Number(document?.credited || 0);
+  const outstanding = document ? Math.max(Number(document.total) - credited - amountPaid, 0) : 0;
+
+  const fetchPayments = useCallback(async () => {
+    if (!document) return;
+
+    const { data, error } = await supabase
+      .from('payments')
+      .select('id, amount, date, method, reference')
+      .eq(column, document.id)
+      .order('date');
+
+    if (error) {
+      console.error('Error fetching payments:', error);
+      return;
+    }
+
+    const existing = data || [];
+    const paid = existing.reduce((sum, payment) => sum + Number(payment.amount), 0);
+    setPayments(existing);
+    setFormData({
+      ...emptyForm,
+      date: new Date().toISOString().split('T')[0],
+      amount: Math.round(Math.max(Number(document.total) - Number(document.credited || 0) - paid, 0) * 100) / 100
+    });
+  }, [document, column]);
+
+  useEffect(() => {
+    if (open) {
+      fetchPayments();
+    }
+  }, [open, fetchPayments]);
+
+  const recordPayment = async () => {
+    if (!document) return;
+
+    if (formData.amount <= 0 || formData.amount > outstanding + 0.005) {
+      toast({
+        title: "Error",
+        description: `Enter an amount between £0.01 and £${outstanding.toFixed(2)}`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      // The database posts the bank journal and marks the document paid once fully settled
+      const { error } = await supabase
+        .from('payments')
+        .insert({
+          [column]: document.id,
+          amount: formData.amount,
+          date: formData.date,
+          method: formData.method,
+          reference: formData.reference || null
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `Payment of £${formData.amount.toFixed(2)} recorded against ${document.number}`
+      });
+
+      await fetchPayments();
+      onPaymentsChanged();
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to record payment",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deletePayment = async (payment: Payment) => {
+    if (!confirm(`Delete the payment of £${Number(payment.amount).toFixed(2)}? Its journal will be reversed.`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('payments')
+        .delete()
+        .eq('id', payment.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Payment deleted"
+      });
+
+      await fetchPayments();
+      onPaymentsChanged();
+    } catch (error) {
+      console.error('Error deleting payment:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete payment",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            {document?.type === 'bill' ? 'Pay Bill' : 'Receive Payment'} {document?.number}
+          </DialogTitle>
+          <DialogDescription>
+            Total £{Number(document?.total || 0).toFixed(2)}
+            {credited > 0 && ` · Credited £${credited.toFixed(2)}`} · Paid £{amountPaid.toFixed(2)} · Outstanding £{outstanding.toFixed(2)}
+          </DialogDescription>
+        </DialogHeader>
+
+        {payments.length > 0 && (
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Payments</Label>
+            {payments.map((payment) => (
+              <div key={payment.id} className="flex items-center justify-between p-2 border rounded text-sm">
+                <div>
+                  <span className="font-medium">£{Number(payment.amount).toFixed(2)}</span>
+                  <span className="text-muted-foreground ml-2">
+                    {new Date(payment.date).toLocaleDateString()}
+                    {' · '}
+                    {PAYMENT_METHODS.find(m => m.value === payment.method)?.label || payment.method}
+                    {payment.reference && ` · ${payment.reference}`}
+                  </span>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => deletePayment(payment)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {outstanding > 0 ? (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="payment-amount">Amount (£)</Label>
+              <Input
+                id="payment-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.amount}
+                onChange={(e) => setFormData(prev => ({ ...prev, amount: parseFloat(e.target.value) || 0 }))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="payment-date">Date</Label>
+              <Input
+                id="payment-date"
+                type="date"
+                value={formData.date}
+                onChange={(e) => setFormData(prev => ({ ...prev, date: e.target.value }))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Method</Label>
+              <Select value={formData.method} onValueChange={(value) => setFormData(prev => ({ ...prev, method: value }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAYMENT_METHODS.map(method => (
+                    <SelectItem key={method.value} value={method.value}>
+                      {method.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="payment-reference">Reference</Label>
+              <Input
+                id="payment-reference"
+                value={formData.reference}
+                onChange={(e) => setFormData(prev => ({ ...prev, reference: e.target.value }))}
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">This document is fully paid.</p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {outstanding > 0 && (
+            <Button onClick={recordPayment} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Record Payment'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PaymentDialog;
@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { ROLE_LABELS, Role } from '@/lib/permissions';
+import { setActiveOrganisationId } from '@/lib/active-organisation';
+
+interface PendingInvitation {
+  id: string;
+  organisation_name: string;
+  role: Role;
+}
+
+// Invitations to other organisations addressed to the signed-in user
+const PendingInvitations = () => {
+  const { toast } = useToast();
+  const [invitations, setInvitations] = useState<PendingInvitation[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const fetchInvitations = useCallback(async () => {
+    const { data, error } = await supabase.rpc('my_invitations');
+
+    if (error) {
+      console.error('Error fetching invitations:', error);
+      return;
+    }
+
+    setInvitations(data || []);
+  }, []);
+
+  useEffect(() => {
+    fetchInvitations();
+  }, [fetchInvitations]);
+
+  const respond = async (invitation: PendingInvitation, accept: boolean) => {
+    setBusy(true);
+    const { data, error } = accept
+      ? await supabase.rpc('accept_invitation', { _invitation_id: invitation.id })
+      : await supabase.rpc('decline_invitation', { _invitation_id: invitation.id });
+
+    if (error) {
+      setBusy(false);
+      console.error('Error responding to invitation:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to respond to the invitation",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // Accepting switches to the organisation just joined
+    if (accept) {
+      setActiveOrganisationId(data as string);
+      window.location.reload();
+      return;
+    }
+
+    setBusy(false);
+    fetchInvitations();
+  };
+
+  if (invitations.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {invitations.map((invitation) => (
+        <div key={invitation.id} className="rounded-lg border border-border p-3 text-sm">
+          <p>
+            Join <span className="font-medium">{invitation.organisation_name}</span> as {ROLE_LABELS[invitation.role].toLowerCase()}?
+          </p>
+          <div className="flex gap-2 mt-2">
+            <Button size="sm" onClick={() => respond(invitation, true)} disabled={busy}>
+              Accept
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => respond(invitation, false)} disabled={busy}>
+              Decline
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PendingInvitations;
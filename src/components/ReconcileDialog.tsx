@@ -0,0 +1,491 @@
+import { useState, useEffect, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2, Wand2, Sparkles } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { suggestMatches, MatchSuggestion, OpenDocument } from '@/lib/bank-matching';
+
+export interface ReconcilableTransaction {
+  id: string;
+  date: string;
+  description: string;
+  amount: number;
+  reference?: string;
+  account_id?: string;
+  tax_code_id?: string;
+  customer_id?: string;
+  supplier_id?: string;
+  bank_rule_id?: string;
+}
+
+interface Account {
+  id: string;
+  account_code?: string;
+  account_name: string;
+}
+
+interface TaxCode {
+  id: string;
+  name: string;
+  rate: number;
+}
+
+interface Contact {
+  id: string;
+  name: string;
+}
+
+interface AllocationRow {
+  key: number;
+  kind: 'document' | 'account';
+  document_id: string;
+  account_id: string;
+  tax_code_id: string;
+  description: string;
+  amount: string;
+}
+
+interface ReconcileDialogProps {
+  transaction: ReconcilableTransaction | null;
+  documents: OpenDocument[];
+  accounts: Account[];
+  taxCodes: TaxCode[];
+  customers: Contact[];
+  suppliers: Contact[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onReconciled: () => void;
+}
+
+// Radix selects cannot hold an empty value, so "none" uses a sentinel
+const NONE = 'none';
+
+// A suggestion this strong is filled in straight away rather than waiting to be picked
+const AUTO_FILL_SCORE = 60;
+
+let nextKey = 1;
+
+const documentRow = (document_id = '', amount = 0): AllocationRow => ({
+  key: nextKey++,
+  kind: 'document',
+  document_id,
+  account_id: '',
+  tax_code_id: NONE,
+  description: '',
+  amount: amount ? amount.toFixed(2) : ''
+});
+
+const accountRow = (account_id = '', tax_code_id = NONE, amount = 0): AllocationRow => ({
+  key: nextKey++,
+  kind: 'account',
+  document_id: '',
+  account_id,
+  tax_code_id,
+  description: '',
+  amount: amount ? amount.toFixed(2) : ''
+});
+
+const rowsFromSuggestion = (suggestion: MatchSuggestion) =>
+  suggestion.allocations.map(allocation => documentRow(allocation.document.id, allocation.amount));
+
+const ReconcileDialog = ({
+  transaction,
+  documents,
+  accounts,
+  taxCodes,
+  customers,
+  suppliers,
+  open,
+  onOpenChange,
+  onReconciled
+}: ReconcileDialogProps) => {
+  const { toast } = useToast();
+  const [rows, setRows] = useState<AllocationRow[]>([]);
+  const [contactId, setContactId] = useState(NONE);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const moneyIn = (transaction?.amount || 0) > 0;
+  const total = Math.abs(transaction?.amount || 0);
+  const documentLabel = moneyIn ? 'Invoice' : 'Bill';
+  const openDocuments = useMemo(
+    () => documents.filter(document => document.type === (moneyIn ? 'invoice' : 'bill')),
+    [documents, moneyIn]
+  );
+
+  const suggestions = useMemo(
+    () => (transaction ? suggestMatches(transaction, documents) : []),
+    [transaction, documents]
+  );
+
+  // Start from the bank rule's coding if there is one, otherwise from a confident match
+  useEffect(() => {
+    if (!open || !transaction) return;
+
+    if (transaction.account_id) {
+      setRows([accountRow(transaction.account_id, transaction.tax_code_id || NONE, Math.abs(transaction.amount))]);
+    } else if (suggestions[0]?.score >= AUTO_FILL_SCORE) {
+      setRows(rowsFromSuggestion(suggestions[0]));
+    } else {
+      setRows([]);
+    }
+    setContactId((transaction.amount > 0 ? transaction.customer_id : transaction.supplier_id) || NONE);
+  }, [open, transaction, suggestions]);
+
+  const allocated = rows.reduce((sum, row) => sum + (parseFloat(row.amount) || 0), 0);
+  const remaining = Math.round((total - allocated) * 100) / 100;
+
+  const updateRow = (key: number, changes: Partial<AllocationRow>) => {
+    setRows(prev => prev.map(row => (row.key === key ? { ...row, ...changes } : row)));
+  };
+
+  const addRow = (row: AllocationRow) => {
+    setRows(prev => [...prev, { ...row, amount: remaining > 0 ? remaining.toFixed(2) : '' }]);
+  };
+
+  const chooseDocument = (row: AllocationRow, documentId: string) => {
+    const document = openDocuments.find(d => d.id === documentId);
+    // Default to whatever is left of the payment, capped at what the document still owes
+    const otherRows = rows.filter(r => r.key !== row.key).reduce((sum, r) => sum + (parseFloat(r.amount) || 0), 0);
+    const amount = document ? Math.min(document.outstanding, Math.max(total - otherRows, 0)) : 0;
+    updateRow(row.key, { document_id: documentId, amount: amount ? amount.toFixed(2) : row.amount });
+  };
+
+  const rowError = (row: AllocationRow) => {
+    const amount = parseFloat(row.amount) || 0;
+    if (amount <= 0) return 'Enter an amount';
+    if (row.kind === 'account') return row.account_id ? null : 'Choose an account';
+
+    const document = openDocuments.find(d => d.id === row.document_id);
+    if (!document) return `Choose ${moneyIn ? 'an invoice' : 'a bill'}`;
+    if (amount > document.outstanding + 0.005) return `Only £${document.outstanding.toFixed(2)} is outstanding`;
+    return null;
+  };
+
+  const isDuplicateDocument = (row: AllocationRow) =>
+    row.kind === 'document' && !!row.document_id &&
+    rows.some(other => other.key !== row.key && other.kind === 'document' && other.document_id === row.document_id);
+
+  const canReconcile =
+    rows.length > 0 &&
+    remaining === 0 &&
+    rows.every(row => !rowError(row) && !isDuplicateDocument(row));
+
+  const saveContact = async () => {
+    if (!transaction) return;
+    const contact = contactId === NONE ? null : contactId;
+    const current = (moneyIn ? transaction.customer_id : transaction.supplier_id) || null;
+    if (contact === current) return;
+
+    const { error } = await supabase
+      .from('bank_transactions')
+      .update(moneyIn ? { customer_id: contact } : { supplier_id: contact })
+      .eq('id', transaction.id);
+
+    if (error) throw error;
+  };
+
+  const reconcile = async () => {
+    if (!transaction) return;
+
+    setIsSaving(true);
+    try {
+      await saveContact();
+
+      // Document allocations become payments; account allocations are posted with the transaction
+      const allocations = rows.map(row => {
+        const amount = Math.round((parseFloat(row.amount) || 0) * 100) / 100;
+        if (row.kind === 'document') {
+          return moneyIn ? { invoice_id: row.document_id, amount } : { bill_id: row.document_id, amount };
+        }
+        return {
+          account_id: row.account_id,
+          tax_code_id: row.tax_code_id === NONE ? null : row.tax_code_id,
+          description: row.description || null,
+          amount
+        };
+      });
+
+      const { error } = await supabase.rpc('reconcile_bank_transaction', {
+        _transaction_id: transaction.id,
+        _allocations: allocations
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Transaction reconciled and posted.",
+      });
+
+      onOpenChange(false);
+      onReconciled();
+    } catch (error) {
+      console.error('Error reconciling transaction:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to reconcile transaction.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // For transactions settled outside the books, e.g. transfers between the business's own accounts
+  const markReconciled = async () => {
+    if (!transaction) return;
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('bank_transactions')
+        .update({ reconciled: true })
+        .eq('id', transaction.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Transaction marked as reconciled.",
+      });
+
+      onOpenChange(false);
+      onReconciled();
+    } catch (error) {
+      console.error('Error reconciling transaction:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to reconcile transaction.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reconcile Transaction</DialogTitle>
+          <DialogDescription>
+            Allocate the full amount to {moneyIn ? 'invoices' : 'bills'}, accounts or a mix of both.
+            An allocation smaller than a {documentLabel.toLowerCase()}'s balance records a part payment.
+          </DialogDescription>
+        </DialogHeader>
+
+        {transaction && (
+          <div className="space-y-6">
+            <div className="p-4 bg-muted rounded-lg grid grid-cols-4 gap-4">
+              <div>
+                <Label className="text-sm font-medium">Date</Label>
+                <p>{new Date(transaction.date).toLocaleDateString()}</p>
+              </div>
+              <div>
+                <Label className="text-sm font-medium">Amount</Label>
+                <p className={moneyIn ? 'text-green-600' : 'text-red-600'}>
+                  £{total.toFixed(2)} {moneyIn ? 'CR' : 'DR'}
+                </p>
+              </div>
+              <div className="col-span-2">
+                <Label className="text-sm font-medium">Description</Label>
+                <p>{transaction.description}</p>
+                {transaction.reference && <p className="text-sm text-muted-foreground">Ref {transaction.reference}</p>}
+              </div>
+            </div>
+
+            {suggestions.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="font-medium flex items-center gap-2">
+                  <Sparkles className="w-4 h-4" />
+                  Suggested matches
+                </h4>
+                {suggestions.map((suggestion) => (
+                  <div
+                    key={suggestion.allocations.map(allocation => allocation.document.id).join(',')}
+                    className="flex items-center justify-between p-2 border rounded"
+                  >
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <Badge variant={suggestion.score >= AUTO_FILL_SCORE ? 'default' : 'secondary'}>
+                          {suggestion.score}%
+                        </Badge>
+                        <span className="font-medium">
+                          {suggestion.allocations.map(allocation => allocation.document.number).join(' + ')}
+                        </span>
+                        <span className="text-muted-foreground text-sm">
+                          {Array.from(new Set(suggestion.allocations.map(allocation => allocation.document.contact_name))).join(', ')}
+                          {' · '}£{suggestion.allocations.reduce((sum, allocation) => sum + allocation.amount, 0).toFixed(2)}
+                        </span>
+                      </div>
+                      <p className="text-xs text-muted-foreground">{suggestion.reasons.join(' · ')}</p>
+                    </div>
+                    <Button size="sm" variant="outline" onClick={() => setRows(rowsFromSuggestion(suggestion))}>
+                      Use
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h4 className="font-medium">Allocations</h4>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => addRow(documentRow())}>
+                    <Plus className="w-4 h-4 mr-1" />
+                    {documentLabel}
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => addRow(accountRow())}>
+                    <Plus className="w-4 h-4 mr-1" />
+                    Account Split
+                  </Button>
+                </div>
+              </div>
+
+              {transaction.bank_rule_id && transaction.account_id && (
+                <p className="text-sm text-muted-foreground flex items-center gap-1">
+                  <Wand2 className="w-3 h-3" />
+                  Coded by a bank rule.
+                </p>
+              )}
+
+              {rows.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Use a suggestion or add {moneyIn ? 'an invoice' : 'a bill'} or account split.
+                </p>
+              )}
+
+              {rows.map((row) => {
+                const error = isDuplicateDocument(row) ? `${documentLabel} is already allocated` : rowError(row);
+                return (
+                  <div key={row.key} className="space-y-1">
+                    <div className="flex items-start gap-2">
+                      {row.kind === 'document' ? (
+                        <div className="flex-1">
+                          <Select value={row.document_id} onValueChange={(value) => chooseDocument(row, value)}>
+                            <SelectTrigger>
+                              <SelectValue placeholder={`Select ${documentLabel.toLowerCase()}`} />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {openDocuments.map((document) => (
+                                <SelectItem key={document.id} value={document.id}>
+                                  {document.number} · {document.contact_name || 'Unknown'} · £{document.outstanding.toFixed(2)} outstanding
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      ) : (
+                        <>
+                          <div className="flex-1">
+                            <Select
+                              value={row.account_id}
+                              onValueChange={(value) => updateRow(row.key, { account_id: value })}
+                            >
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select account" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {accounts.map((account) => (
+                                  <SelectItem key={account.id} value={account.id}>
+                                    {account.account_code} {account.account_name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="w-40">
+                            <Select
+                              value={row.tax_code_id}
+                              onValueChange={(value) => updateRow(row.key, { tax_code_id: value })}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={NONE}>No VAT</SelectItem>
+                                {taxCodes.map((taxCode) => (
+                                  <SelectItem key={taxCode.id} value={taxCode.id}>
+                                    {taxCode.name} ({taxCode.rate}%)
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <Input
+                            className="w-40"
+                            placeholder="Description"
+                            value={row.description}
+                            onChange={(e) => updateRow(row.key, { description: e.target.value })}
+                          />
+                        </>
+                      )}
+                      <Input
+                        className="w-28"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={row.amount}
+                        onChange={(e) => updateRow(row.key, { amount: e.target.value })}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Remove allocation"
+                        onClick={() => setRows(prev => prev.filter(r => r.key !== row.key))}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    {error && row.amount !== '' && <p className="text-xs text-destructive">{error}</p>}
+                  </div>
+                );
+              })}
+
+              <div className="flex justify-end gap-6 text-sm">
+                <span>Allocated £{allocated.toFixed(2)}</span>
+                <span className={remaining === 0 ? 'text-muted-foreground' : 'text-destructive font-medium'}>
+                  {remaining >= 0 ? `Remaining £${remaining.toFixed(2)}` : `Over by £${Math.abs(remaining).toFixed(2)}`}
+                </span>
+              </div>
+            </div>
+
+            <div className="space-y-2 max-w-xs">
+              <Label>{moneyIn ? 'Customer' : 'Supplier'}</Label>
+              <Select value={contactId} onValueChange={setContactId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>None</SelectItem>
+                  {(moneyIn ? customers : suppliers).map((contact) => (
+                    <SelectItem key={contact.id} value={contact.id}>
+                      {contact.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={markReconciled} disabled={isSaving}>
+            Mark as Reconciled Without Posting
+          </Button>
+          <Button onClick={reconcile} disabled={!canReconcile || isSaving}>
+            Reconcile
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReconcileDialog;
@@ -0,0 +1,580 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+export type RecurringTemplateType = 'invoice' | 'bill';
+
+interface Counterparty {
+  id: string;
+  name: string;
+  payment_terms_days?: number | null;
+  default_account_id?: string | null;
+  default_tax_code_id?: string | null;
+}
+
+interface TemplateLine {
+  description: string;
+  quantity: number;
+  unit_price: number;
+  tax_code_id: string;
+  account_id: string;
+}
+
+interface TaxCode {
+  id: string;
+  name: string;
+  rate: number;
+}
+
+interface ExpenseAccount {
+  id: string;
+  account_code?: string;
+  account_name: string;
+}
+
+interface RecurringTemplateDialogProps {
+  type: RecurringTemplateType;
+  templateId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const NONE = 'none';
+
+const FREQUENCIES = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'yearly', label: 'Yearly' }
+];
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const emptyForm = () => ({
+  name: '',
+  counterparty_id: '',
+  bill_reference: '',
+  frequency: 'monthly',
+  start_date: new Date().toISOString().split('T')[0],
+  end_date: '',
+  due_days: 30,
+  auto_issue: false
+});
+
+const RecurringTemplateDialog = ({ type, templateId, open, onOpenChange, onSaved }: RecurringTemplateDialogProps) => {
+  const { toast } = useToast();
+  const [counterparties, setCounterparties] = useState<Counterparty[]>([]);
+  const [taxCodes, setTaxCodes] = useState<TaxCode[]>([]);
+  const [expenseAccounts, setExpenseAccounts] = useState<ExpenseAccount[]>([]);
+  const [formData, setFormData] = useState(emptyForm());
+  const [lines, setLines] = useState<TemplateLine[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isBill = type === 'bill';
+
+  const loadTemplate = useCallback(async () => {
+    const [counterpartiesResult, taxCodesResult, accountsResult] = await Promise.all([
+      type === 'bill'
+        ? supabase
+            .from('suppliers')
+            .select('id, name, payment_terms_days, default_account_id, default_tax_code_id')
+            .order('name')
+        : supabase.from('customers').select('id, name').order('name'),
+      supabase.from('tax_codes').select('id, name, rate').order('rate', { ascending: false }),
+      supabase
+        .from('chart_of_accounts')
+        .select('id, account_code, account_name')
+        .eq('account_type', 'expense')
+        .order('account_code')
+    ]);
+
+    const error = counterpartiesResult.error || taxCodesResult.error || accountsResult.error;
+    if (error) {
+      console.error('Error loading template options:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load template details",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setCounterparties(counterpartiesResult.data || []);
+    setTaxCodes(taxCodesResult.data || []);
+    setExpenseAccounts(accountsResult.data || []);
+
+    if (!templateId) {
+      setFormData(emptyForm());
+      setLines([{ description: '', quantity: 1, unit_price: 0, tax_code_id: NONE, account_id: NONE }]);
+      return;
+    }
+
+    const { data, error: templateError } = type === 'bill'
+      ? await supabase
+          .from('recurring_bills')
+          .select('*, lines:recurring_bill_lines(description, quantity, unit_price, tax_code_id, account_id, created_at)')
+          .eq('id', templateId)
+          .single()
+      : await supabase
+          .from('recurring_invoices')
+          .select('*, lines:recurring_invoice_lines(description, quantity, unit_price, tax_code_id, created_at)')
+          .eq('id', templateId)
+          .single();
+
+    if (templateError || !data) {
+      console.error('Error loading template:', templateError);
+      toast({
+        title: "Error",
+        description: "Failed to load template",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const template = data as typeof data & {
+      customer_id?: string;
+      supplier_id?: string;
+      bill_reference?: string;
+      auto_send?: boolean;
+      auto_receive?: boolean;
+    };
+
+    setFormData({
+      name: template.name,
+      counterparty_id: (template.supplier_id || template.customer_id) ?? '',
+      bill_reference: template.bill_reference || '',
+      frequency: template.frequency,
+      start_date: template.start_date,
+      end_date: template.end_date || '',
+      due_days: template.due_days,
+      auto_issue: Boolean(template.auto_receive ?? template.auto_send)
+    });
+    setLines([...(template.lines || [])]
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map(line => ({
+        description: line.description,
+        quantity: Number(line.quantity),
+        unit_price: Number(line.unit_price),
+        tax_code_id: line.tax_code_id || NONE,
+        account_id: (line as { account_id?: string | null }).account_id || NONE
+      })));
+  }, [type, templateId, toast]);
+
+  useEffect(() => {
+    if (open) {
+      loadTemplate();
+    }
+  }, [open, loadTemplate]);
+
+  const calculateLine = (line: TemplateLine) => {
+    const taxCode = taxCodes.find(tc => tc.id === line.tax_code_id);
+    const net = round(line.quantity * line.unit_price);
+    const vatAmount = round(taxCode ? (net * taxCode.rate) / 100 : 0);
+    return { net, vatAmount };
+  };
+
+  const totals = lines.reduce((sum, line) => {
+    const { net, vatAmount } = calculateLine(line);
+    return { subtotal: round(sum.subtotal + net), vatAmount: round(sum.vatAmount + vatAmount) };
+  }, { subtotal: 0, vatAmount: 0 });
+  const total = round(totals.subtotal + totals.vatAmount);
+
+  // Suppliers carry payment terms and posting defaults; apply them to the new template
+  const handleCounterpartyChange = (counterpartyId: string) => {
+    const counterparty = counterparties.find(c => c.id === counterpartyId);
+
+    setFormData({
+      ...formData,
+      counterparty_id: counterpartyId,
+      due_days: counterparty?.payment_terms_days ?? formData.due_days
+    });
+
+    if (isBill && counterparty) {
+      setLines(prev => prev.map(line => ({
+        ...line,
+        account_id: line.account_id !== NONE ? line.account_id : counterparty.default_account_id || NONE,
+        tax_code_id: line.tax_code_id !== NONE ? line.tax_code_id : counterparty.default_tax_code_id || NONE
+      })));
+    }
+  };
+
+  const updateLine = (index: number, field: keyof TemplateLine, value: string | number) => {
+    setLines(prev => prev.map((line, i) => i === index ? { ...line, [field]: value } : line));
+  };
+
+  const addLine = () => {
+    const counterparty = counterparties.find(c => c.id === formData.counterparty_id);
+    setLines(prev => [...prev, {
+      description: '',
+      quantity: 1,
+      unit_price: 0,
+      tax_code_id: (isBill && counterparty?.default_tax_code_id) || NONE,
+      account_id: (isBill && counterparty?.default_account_id) || NONE
+    }]);
+  };
+
+  const removeLine = (index: number) => {
+    setLines(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const saveTemplate = async () => {
+    setIsSaving(true);
+    try {
+      const header = {
+        name: formData.name.trim(),
+        frequency: formData.frequency,
+        start_date: formData.start_date,
+        end_date: formData.end_date || null,
+        due_days: formData.due_days,
+        subtotal: totals.subtotal,
+        vat_amount: totals.vatAmount,
+        total
+      };
+
+      // The database sets and maintains next_run_date from the start date and frequency.
+      // Lines are replaced wholesale on edit; documents already generated keep their own copies.
+      if (isBill) {
+        const billHeader = {
+          ...header,
+          supplier_id: formData.counterparty_id,
+          bill_reference: formData.bill_reference.trim(),
+          auto_receive: formData.auto_issue
+        };
+
+        const { data, error } = templateId
+          ? await supabase.from('recurring_bills').update(billHeader).eq('id', templateId).select('id').single()
+          : await supabase.from('recurring_bills').insert(billHeader).select('id').single();
+
+        if (error) throw error;
+
+        if (templateId) {
+          const { error: deleteError } = await supabase
+            .from('recurring_bill_lines')
+            .delete()
+            .eq('recurring_bill_id', data.id);
+
+          if (deleteError) throw deleteError;
+        }
+
+        const { error: linesError } = await supabase
+          .from('recurring_bill_lines')
+          .insert(lines.map(line => {
+            const { net, vatAmount } = calculateLine(line);
+            return {
+              recurring_bill_id: data.id,
+              description: line.description,
+              quantity: line.quantity,
+              unit_price: line.unit_price,
+              tax_code_id: line.tax_code_id === NONE ? null : line.tax_code_id,
+              account_id: line.account_id === NONE ? null : line.account_id,
+              line_total: round(net + vatAmount),
+              vat_amount: vatAmount
+            };
+          }));
+
+        if (linesError) throw linesError;
+      } else {
+        const invoiceHeader = {
+          ...header,
+          customer_id: formData.counterparty_id,
+          auto_send: formData.auto_issue
+        };
+
+        const { data, error } = templateId
+          ? await supabase.from('recurring_invoices').update(invoiceHeader).eq('id', templateId).select('id').single()
+          : await supabase.from('recurring_invoices').insert(invoiceHeader).select('id').single();
+
+        if (error) throw error;
+
+        if (templateId) {
+          const { error: deleteError } = await supabase
+            .from('recurring_invoice_lines')
+            .delete()
+            .eq('recurring_invoice_id', data.id);
+
+          if (deleteError) throw deleteError;
+        }
+
+        const { error: linesError } = await supabase
+          .from('recurring_invoice_lines')
+          .insert(lines.map(line => {
+            const { net, vatAmount } = calculateLine(line);
+            return {
+              recurring_invoice_id: data.id,
+              description: line.description,
+              quantity: line.quantity,
+              unit_price: line.unit_price,
+              tax_code_id: line.tax_code_id === NONE ? null : line.tax_code_id,
+              line_total: net,
+              vat_amount: vatAmount
+            };
+          }));
+
+        if (linesError) throw linesError;
+      }
+
+      toast({
+        title: "Success",
+        description: templateId ? "Recurring template updated" : "Recurring template created"
+      });
+
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving recurring template:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to save recurring template",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const canSave = formData.name.trim()
+    && formData.counterparty_id
+    && (!isBill || formData.bill_reference.trim())
+    && (!formData.end_date || formData.end_date >= formData.start_date)
+    && lines.length > 0
+    && lines.every(line => line.description.trim())
+    && total > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {templateId ? 'Edit' : 'New'} Recurring {isBill ? 'Bill' : 'Invoice'}
+          </DialogTitle>
+          <DialogDescription>
+            A {isBill ? 'bill' : 'invoice'} is generated on the start date and then every period until the end date.
+            Missed periods are caught up on the next run.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="recurring-name">Template Name *</Label>
+              <Input
+                id="recurring-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder={isBill ? 'e.g. Office rent' : 'e.g. Monthly retainer'}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>{isBill ? 'Supplier' : 'Customer'} *</Label>
+              <Select value={formData.counterparty_id} onValueChange={handleCounterpartyChange}>
+                <SelectTrigger>
+                  <SelectValue placeholder={isBill ? 'Select supplier' : 'Select customer'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {counterparties.map(counterparty => (
+                    <SelectItem key={counterparty.id} value={counterparty.id}>
+                      {counterparty.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Frequency</Label>
+              <Select value={formData.frequency} onValueChange={(value) => setFormData({ ...formData, frequency: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FREQUENCIES.map(frequency => (
+                    <SelectItem key={frequency.value} value={frequency.value}>
+                      {frequency.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {isBill && (
+              <div className="space-y-2">
+                <Label htmlFor="recurring-reference">Bill Reference *</Label>
+                <Input
+                  id="recurring-reference"
+                  value={formData.bill_reference}
+                  onChange={(e) => setFormData({ ...formData, bill_reference: e.target.value })}
+                  placeholder="e.g. RENT"
+                />
+                <p className="text-xs text-muted-foreground">Bills are numbered with this reference and the period date</p>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="recurring-start">Start Date</Label>
+              <Input
+                id="recurring-start"
+                type="date"
+                value={formData.start_date}
+                onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="recurring-end">End Date</Label>
+              <Input
+                id="recurring-end"
+                type="date"
+                min={formData.start_date}
+                value={formData.end_date}
+                onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="recurring-due-days">Due After (days)</Label>
+              <Input
+                id="recurring-due-days"
+                type="number"
+                min="0"
+                value={formData.due_days}
+                onChange={(e) => setFormData({ ...formData, due_days: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+
+            <div className="flex items-center justify-between rounded-lg border p-3">
+              <div>
+                <Label htmlFor="recurring-auto-issue">{isBill ? 'Record as received' : 'Send automatically'}</Label>
+                <p className="text-xs text-muted-foreground">
+                  {isBill
+                    ? 'Post generated bills to the ledger instead of leaving drafts'
+                    : 'Email generated invoices to the customer and issue them once sent'}
+                </p>
+              </div>
+              <Switch
+                id="recurring-auto-issue"
+                checked={formData.auto_issue}
+                onCheckedChange={(checked) => setFormData({ ...formData, auto_issue: checked })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+              <Label className="text-base font-semibold">Lines</Label>
+              <Button type="button" variant="outline" size="sm" onClick={addLine}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Line
+              </Button>
+            </div>
+
+            {lines.map((line, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-end p-3 border rounded-lg">
+                <div className={`col-span-12 ${isBill ? 'md:col-span-3' : 'md:col-span-5'} space-y-1`}>
+                  <Label className="text-xs">Description</Label>
+                  <Input
+                    value={line.description}
+                    onChange={(e) => updateLine(index, 'description', e.target.value)}
+                  />
+                </div>
+                {isBill && (
+                  <div className="col-span-12 md:col-span-2 space-y-1">
+                    <Label className="text-xs">Account</Label>
+                    <Select value={line.account_id} onValueChange={(value) => updateLine(index, 'account_id', value)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NONE}>Default expense</SelectItem>
+                        {expenseAccounts.map(account => (
+                          <SelectItem key={account.id} value={account.id}>
+                            {account.account_code} {account.account_name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div className="col-span-3 md:col-span-2 space-y-1">
+                  <Label className="text-xs">Quantity</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={line.quantity}
+                    onChange={(e) => updateLine(index, 'quantity', parseFloat(e.target.value) || 0)}
+                  />
+                </div>
+                <div className="col-span-4 md:col-span-2 space-y-1">
+                  <Label className="text-xs">Unit Price (£)</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={line.unit_price}
+                    onChange={(e) => updateLine(index, 'unit_price', parseFloat(e.target.value) || 0)}
+                  />
+                </div>
+                <div className="col-span-4 md:col-span-2 space-y-1">
+                  <Label className="text-xs">Tax Code</Label>
+                  <Select value={line.tax_code_id} onValueChange={(value) => updateLine(index, 'tax_code_id', value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>No VAT</SelectItem>
+                      {taxCodes.map(taxCode => (
+                        <SelectItem key={taxCode.id} value={taxCode.id}>
+                          {taxCode.name} ({taxCode.rate}%)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="col-span-1 flex justify-end">
+                  <Button type="button" variant="ghost" size="sm" onClick={() => removeLine(index)} disabled={lines.length === 1}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="border-t pt-4 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span>Net</span>
+              <span>£{totals.subtotal.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>VAT</span>
+              <span>£{totals.vatAmount.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between font-bold text-base">
+              <span>Total per {isBill ? 'bill' : 'invoice'}</span>
+              <span>£{total.toFixed(2)}</span>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={saveTemplate} disabled={isSaving || !canSave}>
+            {templateId ? 'Save Changes' : 'Create Template'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecurringTemplateDialog;
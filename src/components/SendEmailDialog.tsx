@@ -0,0 +1,186 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+
+export interface EmailableDocument {
+  type: 'invoice' | 'statement';
+  customerId: string;
+  invoiceId?: string;
+  title: string;
+  recipient: string;
+}
+
+interface DocumentSend {
+  id: string;
+  recipient: string;
+  subject: string;
+  status: string;
+  error: string | null;
+  created_at: string;
+}
+
+interface SendEmailDialogProps {
+  document: EmailableDocument | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Runs before the email is sent and can add to the request, e.g. the PDF a draft is issued with
+  onBeforeSend?: () => Promise<Record<string, string> | void>;
+  onSent?: () => void;
+}
+
+const SendEmailDialog = ({ document, open, onOpenChange, onBeforeSend, onSent }: SendEmailDialogProps) => {
+  const { toast } = useToast();
+  const [history, setHistory] = useState<DocumentSend[]>([]);
+  const [recipient, setRecipient] = useState('');
+  const [note, setNote] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const fetchHistory = useCallback(async () => {
+    if (!document) return;
+
+    let query = supabase
+      .from('document_sends')
+      .select('id, recipient, subject, status, error, created_at')
+      .order('created_at', { ascending: false });
+
+    query = document.type === 'invoice'
+      ? query.eq('invoice_id', document.invoiceId)
+      : query.eq('customer_id', document.customerId).eq('document_type', 'statement');
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching send history:', error);
+      return;
+    }
+    setHistory(data || []);
+  }, [document]);
+
+  useEffect(() => {
+    if (open && document) {
+      setRecipient(document.recipient);
+      setNote('');
+      fetchHistory();
+    }
+  }, [open, document, fetchHistory]);
+
+  const sendEmail = async () => {
+    if (!document) return;
+
+    setIsSending(true);
+    try {
+      const extra = await onBeforeSend?.();
+
+      const { error } = await supabase.functions.invoke('send-document', {
+        body: {
+          type: document.type,
+          invoiceId: document.invoiceId,
+          customerId: document.customerId,
+          to: recipient.trim(),
+          note: note.trim() || undefined,
+          ...extra
+        }
+      });
+
+      if (error) {
+        // The function reports the reason in the response body
+        const details = await (error as { context?: Response }).context?.json?.().catch(() => null);
+        throw new Error(details?.error || error.message);
+      }
+
+      toast({
+        title: "Success",
+        description: `${document.title} emailed to ${recipient.trim()}`
+      });
+
+      onSent?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error sending email:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to send email",
+        variant: "destructive"
+      });
+      fetchHistory();
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Email {document?.title}</DialogTitle>
+          <DialogDescription>
+            {document?.type === 'invoice'
+              ? 'The invoice PDF is attached to a standard covering message'
+              : 'Lists every unpaid invoice and the balance outstanding'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="email-recipient">To</Label>
+            <Input
+              id="email-recipient"
+              type="email"
+              value={recipient}
+              onChange={(e) => setRecipient(e.target.value)}
+              placeholder="customer@example.com"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="email-note">Personal note</Label>
+            <Textarea
+              id="email-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Optional, added above the signature"
+              rows={3}
+            />
+          </div>
+
+          {history.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Send history</Label>
+              {history.map((send) => (
+                <div key={send.id} className="flex items-center justify-between p-2 border rounded text-sm">
+                  <div>
+                    <p>{send.recipient}</p>
+                    <p className="text-muted-foreground">
+                      {new Date(send.created_at).toLocaleString()}
+                      {send.error && ` · ${send.error}`}
+                    </p>
+                  </div>
+                  <Badge variant={send.status === 'sent' ? 'secondary' : 'destructive'}>
+                    {send.status}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={sendEmail} disabled={isSending || !recipient.trim()}>
+            {isSending ? 'Sending...' : 'Send'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SendEmailDialog;
@@ -0,0 +1,190 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+
+interface YearEndClose {
+  id: string;
+  year_end: string;
+  net_profit: number;
+  created_at: string;
+  reopened_at?: string | null;
+}
+
+interface YearEndCloseDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onClosed: () => void;
+}
+
+// A year after the last close, or the most recent 31 December when nothing is closed yet
+const suggestedYearEnd = (lastClose?: string) => {
+  if (!lastClose) return `${new Date().getFullYear() - 1}-12-31`;
+
+  const next = new Date(`${lastClose}T00:00:00Z`);
+  next.setUTCFullYear(next.getUTCFullYear() + 1);
+  return next.toISOString().split('T')[0];
+};
+
+const YearEndCloseDialog = ({ open, onOpenChange, onClosed }: YearEndCloseDialogProps) => {
+  const { toast } = useToast();
+  const [closes, setCloses] = useState<YearEndClose[]>([]);
+  const [yearEnd, setYearEnd] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const fetchCloses = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('year_end_closes')
+      .select('id, year_end, net_profit, created_at, reopened_at')
+      .order('year_end', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching year-end closes:', error);
+      return;
+    }
+
+    setCloses(data || []);
+    setYearEnd(suggestedYearEnd(data?.find(close => !close.reopened_at)?.year_end));
+  }, []);
+
+  useEffect(() => {
+    if (open) fetchCloses();
+  }, [open, fetchCloses]);
+
+  const latestOpen = closes.find(close => !close.reopened_at);
+
+  const handleClose = async () => {
+    if (!confirm(`Close the year to ${new Date(yearEnd).toLocaleDateString()}? Income and expenses up to that date will be moved into Retained Earnings.`)) {
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const { error } = await supabase.rpc('close_financial_year', { _year_end: yearEnd });
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `The year to ${new Date(yearEnd).toLocaleDateString()} is closed.`
+      });
+
+      onClosed();
+      fetchCloses();
+    } catch (error) {
+      console.error('Error closing financial year:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to close the year",
+        variant: "destructive"
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleReopen = async (close: YearEndClose) => {
+    if (!confirm(`Reopen the year to ${new Date(close.year_end).toLocaleDateString()}? Its closing journal will be reversed.`)) {
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const { error } = await supabase.rpc('reopen_financial_year', { _close_id: close.id });
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `The year to ${new Date(close.year_end).toLocaleDateString()} has been reopened.`
+      });
+
+      onClosed();
+      fetchCloses();
+    } catch (error) {
+      console.error('Error reopening financial year:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to reopen the year",
+        variant: "destructive"
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Year-End Close</DialogTitle>
+          <DialogDescription>
+            Closing a year posts a journal on the year end that moves the profit or loss into Retained Earnings,
+            so the next year's Profit & Loss starts from zero. Set a lock date in Settings afterwards to stop
+            changes to the closed year.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="flex items-end gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="year-end">Financial Year End</Label>
+              <Input
+                id="year-end"
+                type="date"
+                value={yearEnd}
+                onChange={(e) => setYearEnd(e.target.value)}
+              />
+            </div>
+            <Button onClick={handleClose} disabled={busy || !yearEnd}>
+              {busy ? 'Working...' : 'Close Year'}
+            </Button>
+          </div>
+
+          {closes.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Year End</TableHead>
+                  <TableHead className="text-right">Profit / (Loss)</TableHead>
+                  <TableHead>Closed</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {closes.map((close) => (
+                  <TableRow key={close.id}>
+                    <TableCell className="font-medium">{new Date(close.year_end).toLocaleDateString()}</TableCell>
+                    <TableCell className="text-right">£{Number(close.net_profit).toLocaleString()}</TableCell>
+                    <TableCell>{new Date(close.created_at).toLocaleDateString()}</TableCell>
+                    <TableCell className="text-right">
+                      {close.reopened_at ? (
+                        <Badge variant="secondary">Reopened</Badge>
+                      ) : close.id === latestOpen?.id && (
+                        <Button variant="outline" size="sm" onClick={() => handleReopen(close)} disabled={busy}>
+                          Reopen
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default YearEndCloseDialog;
@@ -1,22 +1,36 @@
 import { createContext, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import type { Permission, Role } from '@/lib/permissions';
+import { getActiveOrganisationId, setActiveOrganisationId } from '@/lib/active-organisation';
 
 interface Profile {
   id: string;
   user_id: string;
   name: string;
-  role: 'owner' | 'accountant';
+  role: Role;
+  current_organisation_id?: string | null;
+}
+
+export interface Organisation {
+  id: string;
+  name: string;
+  role: Role;
 }
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
   profile: Profile | null;
+  organisations: Organisation[];
+  currentOrganisation: Organisation | null;
+  can: (permission: Permission) => boolean;
   loading: boolean;
   signUp: (email: string, password: string, name: string) => Promise<{ error: any }>;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
   signOut: () => Promise<void>;
+  switchOrganisation: (organisationId: string) => Promise<{ error: { message: string } | null }>;
+  createOrganisation: (name: string) => Promise<{ error: { message: string } | null }>;
 }
 
 const AuthContext = createContext<AuthContextType>({} as AuthContextType);
@@ -37,6 +51,9 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
+  const [organisations, setOrganisations] = useState<Organisation[]>([]);
+  const [currentOrganisationId, setCurrentOrganisationId] = useState<string | null>(null);
+  const [rolePermissions, setRolePermissions] = useState<{ role: Role; permission: string }[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -50,7 +67,11 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
             fetchUserProfile(session.user.id);
           }, 0);
         } else {
+          setActiveOrganisationId(null);
           setProfile(null);
+          setOrganisations([]);
+          setCurrentOrganisationId(null);
+          setRolePermissions([]);
           setLoading(false);
         }
       }
@@ -80,6 +101,39 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
       
       if (error) throw error;
       setProfile(data);
+
+      const [membershipsResult, currentResult, permissionsResult] = await Promise.all([
+        supabase
+          .from('user_roles')
+          .select('role, organisation:organisations(id, name)')
+          .eq('user_id', userId),
+        supabase.rpc('current_organisation_id'),
+        supabase.from('role_permissions').select('role, permission'),
+      ]);
+
+      if (membershipsResult.error) throw membershipsResult.error;
+      if (currentResult.error) throw currentResult.error;
+      if (permissionsResult.error) throw permissionsResult.error;
+
+      let organisationId = currentResult.data;
+
+      // The tab's organisation is no longer one the user belongs to; start again from the last used
+      if (!organisationId && getActiveOrganisationId()) {
+        setActiveOrganisationId(null);
+        const { data, error } = await supabase.rpc('current_organisation_id');
+        if (error) throw error;
+        organisationId = data;
+      }
+
+      setActiveOrganisationId(organisationId);
+
+      setOrganisations(
+        (membershipsResult.data || [])
+          .flatMap(({ role, organisation }) => organisation ? [{ ...organisation, role }] : [])
+          .sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setCurrentOrganisationId(organisationId);
+      setRolePermissions(permissionsResult.data || []);
     } catch (error) {
       console.error('Error fetching profile:', error);
     } finally {
@@ -117,15 +171,40 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     await supabase.auth.signOut();
   };
 
+  // Every page loads its data for the organisation in use, so callers reload once these succeed.
+  // Only this tab moves; the profile remembers the choice for tabs opened later.
+  const switchOrganisation = async (organisationId: string) => {
+    const { error } = await supabase.rpc('switch_organisation', { _organisation_id: organisationId });
+    if (!error) setActiveOrganisationId(organisationId);
+    return { error };
+  };
+
+  const createOrganisation = async (name: string) => {
+    const { data, error } = await supabase.rpc('create_organisation', { _name: name });
+    if (!error) setActiveOrganisationId(data);
+    return { error };
+  };
+
+  const currentOrganisation = organisations.find(organisation => organisation.id === currentOrganisationId) ?? null;
+
+  // The database enforces these too; this only decides which actions to offer
+  const can = (permission: Permission) =>
+    rolePermissions.some(entry => entry.role === currentOrganisation?.role && entry.permission === permission);
+
   return (
     <AuthContext.Provider value={{
       user,
       session,
       profile,
+      organisations,
+      currentOrganisation,
+      can,
       loading,
       signUp,
       signIn,
-      signOut
+      signOut,
+      switchOrganisation,
+      createOrganisation
     }}>
       {children}
     </AuthContext.Provider>
@@ -0,0 +1,20 @@
+import { useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+export const linkedDocumentElementId = (id: string) => `document-${id}`;
+
+/**
+ * The document a report linked to with ?document=<id>. Once the page has loaded its list, the
+ * document's row (given the id from linkedDocumentElementId) is scrolled into view.
+ */
+export const useLinkedDocument = (loaded: boolean) => {
+  const [searchParams] = useSearchParams();
+  const documentId = searchParams.get('document');
+
+  useEffect(() => {
+    if (!loaded || !documentId) return;
+    document.getElementById(linkedDocumentElementId(documentId))?.scrollIntoView({ block: 'center' });
+  }, [loaded, documentId]);
+
+  return documentId;
+};
@@ -14,505 +14,2312 @@ export type Database = {
   }
   public: {
     Tables: {
-      bank_transactions: {
+      attachments: {
         Row: {
-          amount: number
+          bank_transaction_id: string | null
           bill_id: string | null
+          content_type: string
           created_at: string
-          date: string
-          description: string
+          file_name: string
           id: string
           invoice_id: string | null
-          reconciled: boolean | null
-          reference: string | null
+          journal_id: string | null
+          organisation_id: string
+          size_bytes: number
+          storage_path: string
           user_id: string | null
         }
         Insert: {
-          amount: number
+          bank_transaction_id?: string | null
           bill_id?: string | null
+          content_type: string
           created_at?: string
-          date: string
-          description: string
+          file_name: string
           id?: string
           invoice_id?: string | null
-          reconciled?: boolean | null
-          reference?: string | null
+          journal_id?: string | null
+          organisation_id?: string
+          size_bytes: number
+          storage_path: string
           user_id?: string | null
         }
         Update: {
-          amount?: number
+          bank_transaction_id?: string | null
           bill_id?: string | null
+          content_type?: string
           created_at?: string
-          date?: string
-          description?: string
+          file_name?: string
           id?: string
           invoice_id?: string | null
-          reconciled?: boolean | null
-          reference?: string | null
+          journal_id?: string | null
+          organisation_id?: string
+          size_bytes?: number
+          storage_path?: string
           user_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "bank_transactions_bill_id_fkey"
+            foreignKeyName: "attachments_bank_transaction_id_fkey"
+            columns: ["bank_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "bank_transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attachments_bill_id_fkey"
             columns: ["bill_id"]
             isOneToOne: false
             referencedRelation: "bills"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "bank_transactions_invoice_id_fkey"
+            foreignKeyName: "attachments_invoice_id_fkey"
             columns: ["invoice_id"]
             isOneToOne: false
             referencedRelation: "invoices"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "attachments_journal_id_fkey"
+            columns: ["journal_id"]
+            isOneToOne: false
+            referencedRelation: "journals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attachments_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      bill_lines: {
+      audit_log: {
         Row: {
-          bill_id: string
+          actor_email: string | null
+          actor_id: string | null
           created_at: string
-          description: string
           id: string
-          line_total: number
-          quantity: number
-          tax_code_id: string | null
-          unit_price: number
-          vat_amount: number
+          new_data: Json | null
+          old_data: Json | null
+          operation: string
+          organisation_id: string
+          record_id: string | null
+          table_name: string
         }
         Insert: {
-          bill_id: string
+          actor_email?: string | null
+          actor_id?: string | null
           created_at?: string
-          description: string
           id?: string
-          line_total: number
-          quantity?: number
-          tax_code_id?: string | null
-          unit_price: number
-          vat_amount?: number
+          new_data?: Json | null
+          old_data?: Json | null
+          operation: string
+          organisation_id?: string
+          record_id?: string | null
+          table_name: string
         }
         Update: {
-          bill_id?: string
+          actor_email?: string | null
+          actor_id?: string | null
           created_at?: string
-          description?: string
           id?: string
-          line_total?: number
-          quantity?: number
-          tax_code_id?: string | null
-          unit_price?: number
-          vat_amount?: number
+          new_data?: Json | null
+          old_data?: Json | null
+          operation?: string
+          organisation_id?: string
+          record_id?: string | null
+          table_name?: string
         }
         Relationships: [
           {
-            foreignKeyName: "bill_lines_bill_id_fkey"
-            columns: ["bill_id"]
-            isOneToOne: false
-            referencedRelation: "bills"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "bill_lines_tax_code_id_fkey"
-            columns: ["tax_code_id"]
+            foreignKeyName: "audit_log_organisation_id_fkey"
+            columns: ["organisation_id"]
             isOneToOne: false
-            referencedRelation: "tax_codes"
+            referencedRelation: "organisations"
             referencedColumns: ["id"]
           },
         ]
       }
-      bills: {
+      bank_accounts: {
         Row: {
-          bill_number: string
+          account_number: string | null
+          active: boolean
           created_at: string
-          date: string
-          due_date: string | null
+          currency: string
           id: string
-          status: string
-          subtotal: number
-          supplier_id: string
-          total: number
+          ledger_account_id: string
+          name: string
+          opening_balance: number
+          opening_balance_date: string
+          organisation_id: string
+          sort_code: string | null
           updated_at: string
           user_id: string | null
-          vat_amount: number
         }
         Insert: {
-          bill_number: string
+          account_number?: string | null
+          active?: boolean
           created_at?: string
-          date: string
-          due_date?: string | null
+          currency?: string
           id?: string
-          status?: string
-          subtotal?: number
-          supplier_id: string
-          total?: number
+          ledger_account_id: string
+          name: string
+          opening_balance?: number
+          opening_balance_date?: string
+          organisation_id?: string
+          sort_code?: string | null
           updated_at?: string
           user_id?: string | null
-          vat_amount?: number
         }
         Update: {
-          bill_number?: string
+          account_number?: string | null
+          active?: boolean
           created_at?: string
-          date?: string
-          due_date?: string | null
+          currency?: string
           id?: string
-          status?: string
-          subtotal?: number
-          supplier_id?: string
-          total?: number
+          ledger_account_id?: string
+          name?: string
+          opening_balance?: number
+          opening_balance_date?: string
+          organisation_id?: string
+          sort_code?: string | null
           updated_at?: string
           user_id?: string | null
-          vat_amount?: number
         }
         Relationships: [
           {
-            foreignKeyName: "bills_supplier_id_fkey"
-            columns: ["supplier_id"]
+            foreignKeyName: "bank_accounts_ledger_account_id_fkey"
+            columns: ["ledger_account_id"]
             isOneToOne: false
-            referencedRelation: "suppliers"
+            referencedRelation: "chart_of_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_accounts_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
             referencedColumns: ["id"]
           },
         ]
       }
-      chart_of_accounts: {
-        Row: {
-          account_code: string | null
-          account_name: string
-          account_type: string
-          created_at: string
-          id: string
-          user_id: string | null
-        }
-        Insert: {
-          account_code?: string | null
-          account_name: string
-          account_type: string
-          created_at?: string
-          id?: string
-          user_id?: string | null
-        }
-        Update: {
-          account_code?: string | null
-          account_name?: string
-          account_type?: string
-          created_at?: string
-          id?: string
-          user_id?: string | null
-        }
-        Relationships: []
-      }
-      customers: {
+      bank_feed_accounts: {
         Row: {
-          address: string | null
+          account_number: string | null
+          bank_account_id: string | null
+          connection_id: string
           created_at: string
-          email: string | null
+          currency: string
           id: string
+          last_synced_at: string | null
+          locked_count: number
           name: string
+          organisation_id: string
+          provider_account_id: string
+          sort_code: string | null
+          sync_cursor: string | null
           user_id: string | null
         }
         Insert: {
-          address?: string | null
+          account_number?: string | null
+          bank_account_id?: string | null
+          connection_id: string
           created_at?: string
-          email?: string | null
+          currency?: string
           id?: string
+          last_synced_at?: string | null
+          locked_count?: number
           name: string
+          organisation_id?: string
+          provider_account_id: string
+          sort_code?: string | null
+          sync_cursor?: string | null
           user_id?: string | null
         }
         Update: {
-          address?: string | null
+          account_number?: string | null
+          bank_account_id?: string | null
+          connection_id?: string
           created_at?: string
-          email?: string | null
+          currency?: string
           id?: string
+          last_synced_at?: string | null
+          locked_count?: number
           name?: string
+          organisation_id?: string
+          provider_account_id?: string
+          sort_code?: string | null
+          sync_cursor?: string | null
           user_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "bank_feed_accounts_bank_account_id_fkey"
+            columns: ["bank_account_id"]
+            isOneToOne: false
+            referencedRelation: "bank_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_feed_accounts_connection_id_fkey"
+            columns: ["connection_id"]
+            isOneToOne: false
+            referencedRelation: "bank_feed_connections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_feed_accounts_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      hmrc_oauth_tokens: {
+      bank_feed_connections: {
         Row: {
-          access_token: string
+          consent_expires_at: string | null
+          consent_id: string
           created_at: string
-          expires_at: string
           id: string
-          refresh_token: string
-          scope: string | null
-          token_type: string
+          institution_name: string | null
+          last_error: string | null
+          last_synced_at: string | null
+          organisation_id: string
+          provider: string
+          status: string
           updated_at: string
-          user_id: string
+          user_id: string | null
         }
         Insert: {
-          access_token: string
+          consent_expires_at?: string | null
+          consent_id: string
           created_at?: string
-          expires_at: string
           id?: string
-          refresh_token: string
-          scope?: string | null
-          token_type: string
+          institution_name?: string | null
+          last_error?: string | null
+          last_synced_at?: string | null
+          organisation_id?: string
+          provider: string
+          status?: string
           updated_at?: string
-          user_id: string
+          user_id?: string | null
         }
         Update: {
-          access_token?: string
+          consent_expires_at?: string | null
+          consent_id?: string
           created_at?: string
-          expires_at?: string
           id?: string
-          refresh_token?: string
-          scope?: string | null
-          token_type?: string
+          institution_name?: string | null
+          last_error?: string | null
+          last_synced_at?: string | null
+          organisation_id?: string
+          provider?: string
+          status?: string
           updated_at?: string
-          user_id?: string
+          user_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "bank_feed_connections_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      invoice_lines: {
+      bank_import_batches: {
         Row: {
+          bank_account_id: string | null
           created_at: string
-          description: string
+          duplicate_count: number
+          file_hash: string
+          file_name: string
+          format: string
           id: string
-          invoice_id: string
-          line_total: number
-          quantity: number
-          tax_code_id: string | null
-          unit_price: number
-          vat_amount: number
+          locked_count: number
+          organisation_id: string
+          rolled_back_at: string | null
+          status: string
+          transaction_count: number
+          user_id: string | null
         }
         Insert: {
+          bank_account_id?: string | null
           created_at?: string
-          description: string
+          duplicate_count?: number
+          file_hash: string
+          file_name: string
+          format: string
           id?: string
-          invoice_id: string
-          line_total: number
-          quantity?: number
-          tax_code_id?: string | null
-          unit_price: number
-          vat_amount?: number
+          locked_count?: number
+          organisation_id?: string
+          rolled_back_at?: string | null
+          status?: string
+          transaction_count?: number
+          user_id?: string | null
         }
         Update: {
+          bank_account_id?: string | null
           created_at?: string
-          description?: string
+          duplicate_count?: number
+          file_hash?: string
+          file_name?: string
+          format?: string
           id?: string
-          invoice_id?: string
-          line_total?: number
-          quantity?: number
-          tax_code_id?: string | null
-          unit_price?: number
-          vat_amount?: number
+          locked_count?: number
+          organisation_id?: string
+          rolled_back_at?: string | null
+          status?: string
+          transaction_count?: number
+          user_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "invoice_lines_invoice_id_fkey"
-            columns: ["invoice_id"]
+            foreignKeyName: "bank_import_batches_bank_account_id_fkey"
+            columns: ["bank_account_id"]
             isOneToOne: false
-            referencedRelation: "invoices"
+            referencedRelation: "bank_accounts"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "invoice_lines_tax_code_id_fkey"
-            columns: ["tax_code_id"]
+            foreignKeyName: "bank_import_batches_organisation_id_fkey"
+            columns: ["organisation_id"]
             isOneToOne: false
-            referencedRelation: "tax_codes"
+            referencedRelation: "organisations"
             referencedColumns: ["id"]
           },
         ]
       }
-      invoices: {
+      bank_import_mappings: {
         Row: {
+          amount_column: number | null
+          balance_column: number | null
           created_at: string
-          customer_id: string
-          date: string
-          due_date: string | null
+          credit_column: number | null
+          date_column: number
+          date_format: string
+          debit_column: number | null
+          decimal_separator: string
+          delimiter: string
+          description_column: number
+          has_header: boolean
+          header_signature: string | null
           id: string
-          invoice_number: string
-          status: string
-          subtotal: number
-          total: number
+          invert_amounts: boolean
+          name: string
+          organisation_id: string
+          reference_column: number | null
           updated_at: string
           user_id: string | null
-          vat_amount: number
         }
         Insert: {
+          amount_column?: number | null
+          balance_column?: number | null
           created_at?: string
-          customer_id: string
-          date: string
-          due_date?: string | null
+          credit_column?: number | null
+          date_column: number
+          date_format?: string
+          debit_column?: number | null
+          decimal_separator?: string
+          delimiter?: string
+          description_column: number
+          has_header?: boolean
+          header_signature?: string | null
           id?: string
-          invoice_number: string
-          status?: string
-          subtotal?: number
-          total?: number
+          invert_amounts?: boolean
+          name: string
+          organisation_id?: string
+          reference_column?: number | null
           updated_at?: string
           user_id?: string | null
-          vat_amount?: number
         }
         Update: {
+          amount_column?: number | null
+          balance_column?: number | null
           created_at?: string
-          customer_id?: string
-          date?: string
-          due_date?: string | null
+          credit_column?: number | null
+          date_column?: number
+          date_format?: string
+          debit_column?: number | null
+          decimal_separator?: string
+          delimiter?: string
+          description_column?: number
+          has_header?: boolean
+          header_signature?: string | null
           id?: string
-          invoice_number?: string
-          status?: string
-          subtotal?: number
-          total?: number
+          invert_amounts?: boolean
+          name?: string
+          organisation_id?: string
+          reference_column?: number | null
           updated_at?: string
           user_id?: string | null
-          vat_amount?: number
         }
         Relationships: [
           {
-            foreignKeyName: "invoices_customer_id_fkey"
-            columns: ["customer_id"]
+            foreignKeyName: "bank_import_mappings_organisation_id_fkey"
+            columns: ["organisation_id"]
             isOneToOne: false
-            referencedRelation: "customers"
+            referencedRelation: "organisations"
             referencedColumns: ["id"]
           },
         ]
       }
-      journal_lines: {
+      bank_reconciliations: {
         Row: {
-          account_id: string
+          bank_account_id: string
           created_at: string
-          credit_amount: number | null
-          debit_amount: number | null
-          description: string | null
           id: string
-          journal_id: string
+          organisation_id: string
+          statement_balance: number
+          statement_date: string
+          user_id: string | null
         }
         Insert: {
-          account_id: string
+          bank_account_id: string
           created_at?: string
-          credit_amount?: number | null
-          debit_amount?: number | null
+          id?: string
+          organisation_id?: string
+          statement_balance: number
+          statement_date: string
+          user_id?: string | null
+        }
+        Update: {
+          bank_account_id?: string
+          created_at?: string
+          id?: string
+          organisation_id?: string
+          statement_balance?: number
+          statement_date?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_reconciliations_bank_account_id_fkey"
+            columns: ["bank_account_id"]
+            isOneToOne: false
+            referencedRelation: "bank_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_reconciliations_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bank_rules: {
+        Row: {
+          account_id: string
+          active: boolean
+          created_at: string
+          customer_id: string | null
+          direction: string
+          id: string
+          match_type: string
+          max_amount: number | null
+          min_amount: number | null
+          name: string
+          organisation_id: string
+          pattern: string
+          priority: number
+          supplier_id: string | null
+          tax_code_id: string | null
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          account_id: string
+          active?: boolean
+          created_at?: string
+          customer_id?: string | null
+          direction?: string
+          id?: string
+          match_type?: string
+          max_amount?: number | null
+          min_amount?: number | null
+          name: string
+          organisation_id?: string
+          pattern: string
+          priority?: number
+          supplier_id?: string | null
+          tax_code_id?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          account_id?: string
+          active?: boolean
+          created_at?: string
+          customer_id?: string | null
+          direction?: string
+          id?: string
+          match_type?: string
+          max_amount?: number | null
+          min_amount?: number | null
+          name?: string
+          organisation_id?: string
+          pattern?: string
+          priority?: number
+          supplier_id?: string | null
+          tax_code_id?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_rules_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "chart_of_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_rules_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_rules_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_rules_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_rules_tax_code_id_fkey"
+            columns: ["tax_code_id"]
+            isOneToOne: false
+            referencedRelation: "tax_codes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bank_transaction_allocations: {
+        Row: {
+          account_id: string | null
+          amount: number
+          bank_transaction_id: string
+          bill_id: string | null
+          created_at: string
+          description: string | null
+          id: string
+          invoice_id: string | null
+          organisation_id: string
+          payment_id: string | null
+          tax_code_id: string | null
+          user_id: string | null
+          vat_amount: number
+        }
+        Insert: {
+          account_id?: string | null
+          amount: number
+          bank_transaction_id: string
+          bill_id?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          invoice_id?: string | null
+          organisation_id?: string
+          payment_id?: string | null
+          tax_code_id?: string | null
+          user_id?: string | null
+          vat_amount?: number
+        }
+        Update: {
+          account_id?: string | null
+          amount?: number
+          bank_transaction_id?: string
+          bill_id?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          invoice_id?: string | null
+          organisation_id?: string
+          payment_id?: string | null
+          tax_code_id?: string | null
+          user_id?: string | null
+          vat_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_transaction_allocations_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "chart_of_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_transaction_allocations_bank_transaction_id_fkey"
+            columns: ["bank_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "bank_transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_transaction_allocations_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_transaction_allocations_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_transaction_allocations_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_transaction_allocations_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_transaction_allocations_tax_code_id_fkey"
+            columns: ["tax_code_id"]
+            isOneToOne: false
+            referencedRelation: "tax_codes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bank_transactions: {
+        Row: {
+          account_id: string | null
+          amount: number
+          balance: number | null
+          bank_account_id: string | null
+          bank_rule_id: string | null
+          bill_id: string | null
+          created_at: string
+          customer_id: string | null
+          date: string
+          description: string
+          external_id: string | null
+          feed_account_id: string | null
+          fingerprint: string | null
+          id: string
+          import_batch_id: string | null
+          invoice_id: string | null
+          organisation_id: string
+          reconciled: boolean | null
+          reference: string | null
+          supplier_id: string | null
+          tax_code_id: string | null
+          user_id: string | null
+          vat_amount: number
+        }
+        Insert: {
+          account_id?: string | null
+          amount: number
+          balance?: number | null
+          bank_account_id?: string | null
+          bank_rule_id?: string | null
+          bill_id?: string | null
+          created_at?: string
+          customer_id?: string | null
+          date: string
+          description: string
+          external_id?: string | null
+          feed_account_id?: string | null
+          fingerprint?: string | null
+          id?: string
+          import_batch_id?: string | null
+          invoice_id?: string | null
+          organisation_id?: string
+          reconciled?: boolean | null
+          reference?: string | null
+          supplier_id?: string | null
+          tax_code_id?: string | null
+          user_id?: string | null
+          vat_amount?: number
+        }
+        Update: {
+          account_id?: string | null
+          amount?: number
+          balance?: number | null
+          bank_account_id?: string | null
+          bank_rule_id?: string | null
+          bill_id?: string | null
+          created_at?: string
+          customer_id?: string | null
+          date?: string
+          description?: string
+          external_id?: string | null
+          feed_account_id?: string | null
+          fingerprint?: string | null
+          id?: string
+          import_batch_id?: string | null
+          invoice_id?: string | null
+          organisation_id?: string
+          reconciled?: boolean | null
+          reference?: string | null
+          supplier_id?: string | null
+          tax_code_id?: string | null
+          user_id?: string | null
+          vat_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_transactions_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "chart_of_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_transactions_bank_account_id_fkey"
+            columns: ["bank_account_id"]
+            isOneToOne: false
+            referencedRelation: "bank_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_transactions_bank_rule_id_fkey"
+            columns: ["bank_rule_id"]
+            isOneToOne: false
+            referencedRelation: "bank_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_transactions_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_transactions_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_transactions_feed_account_id_fkey"
+            columns: ["feed_account_id"]
+            isOneToOne: false
+            referencedRelation: "bank_feed_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_transactions_import_batch_id_fkey"
+            columns: ["import_batch_id"]
+            isOneToOne: false
+            referencedRelation: "bank_import_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_transactions_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_transactions_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_transactions_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_transactions_tax_code_id_fkey"
+            columns: ["tax_code_id"]
+            isOneToOne: false
+            referencedRelation: "tax_codes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bill_approval_events: {
+        Row: {
+          action: string
+          bill_id: string
+          comment: string | null
+          created_at: string
+          id: string
+          organisation_id: string
+          user_id: string | null
+        }
+        Insert: {
+          action: string
+          bill_id: string
+          comment?: string | null
+          created_at?: string
+          id?: string
+          organisation_id: string
+          user_id?: string | null
+        }
+        Update: {
+          action?: string
+          bill_id?: string
+          comment?: string | null
+          created_at?: string
+          id?: string
+          organisation_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bill_approval_events_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bill_approval_events_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bill_approval_thresholds: {
+        Row: {
+          approvals_required: number
+          created_at: string
+          id: string
+          min_amount: number
+          organisation_id: string
+        }
+        Insert: {
+          approvals_required?: number
+          created_at?: string
+          id?: string
+          min_amount: number
+          organisation_id?: string
+        }
+        Update: {
+          approvals_required?: number
+          created_at?: string
+          id?: string
+          min_amount?: number
+          organisation_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bill_approval_thresholds_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bill_lines: {
+        Row: {
+          account_id: string | null
+          bill_id: string
+          created_at: string
+          description: string
+          id: string
+          line_total: number
+          quantity: number
+          tax_code_id: string | null
+          unit_price: number
+          vat_amount: number
+        }
+        Insert: {
+          account_id?: string | null
+          bill_id: string
+          created_at?: string
+          description: string
+          id?: string
+          line_total: number
+          quantity?: number
+          tax_code_id?: string | null
+          unit_price: number
+          vat_amount?: number
+        }
+        Update: {
+          account_id?: string | null
+          bill_id?: string
+          created_at?: string
+          description?: string
+          id?: string
+          line_total?: number
+          quantity?: number
+          tax_code_id?: string | null
+          unit_price?: number
+          vat_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bill_lines_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "chart_of_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bill_lines_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bill_lines_tax_code_id_fkey"
+            columns: ["tax_code_id"]
+            isOneToOne: false
+            referencedRelation: "tax_codes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bills: {
+        Row: {
+          amount_credited: number
+          amount_paid: number
+          bill_number: string
+          created_at: string
+          date: string
+          due_date: string | null
+          id: string
+          organisation_id: string
+          recurring_bill_id: string | null
+          recurring_period: string | null
+          status: string
+          subtotal: number
+          supplier_id: string
+          total: number
+          updated_at: string
+          user_id: string | null
+          vat_amount: number
+        }
+        Insert: {
+          amount_credited?: number
+          amount_paid?: number
+          bill_number: string
+          created_at?: string
+          date: string
+          due_date?: string | null
+          id?: string
+          organisation_id?: string
+          recurring_bill_id?: string | null
+          recurring_period?: string | null
+          status?: string
+          subtotal?: number
+          supplier_id: string
+          total?: number
+          updated_at?: string
+          user_id?: string | null
+          vat_amount?: number
+        }
+        Update: {
+          amount_credited?: number
+          amount_paid?: number
+          bill_number?: string
+          created_at?: string
+          date?: string
+          due_date?: string | null
+          id?: string
+          organisation_id?: string
+          recurring_bill_id?: string | null
+          recurring_period?: string | null
+          status?: string
+          subtotal?: number
+          supplier_id?: string
+          total?: number
+          updated_at?: string
+          user_id?: string | null
+          vat_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bills_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bills_recurring_bill_id_fkey"
+            columns: ["recurring_bill_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_bills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bills_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chart_of_accounts: {
+        Row: {
+          account_code: string | null
+          account_name: string
+          account_type: string
+          created_at: string
+          id: string
+          organisation_id: string | null
+          user_id: string | null
+        }
+        Insert: {
+          account_code?: string | null
+          account_name: string
+          account_type: string
+          created_at?: string
+          id?: string
+          organisation_id?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          account_code?: string | null
+          account_name?: string
+          account_type?: string
+          created_at?: string
+          id?: string
+          organisation_id?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chart_of_accounts_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      company_settings: {
+        Row: {
+          address: string | null
+          bank_account_name: string | null
+          bank_account_number: string | null
+          bank_iban: string | null
+          bank_name: string | null
+          bank_sort_code: string | null
+          company_name: string
+          company_number: string | null
+          created_at: string
+          email: string | null
+          invoice_footer: string | null
+          lock_date: string | null
+          logo_path: string | null
+          organisation_id: string
+          phone: string | null
+          updated_at: string
+          user_id: string | null
+          vat_lock_date: string | null
+          vat_number: string | null
+        }
+        Insert: {
+          address?: string | null
+          bank_account_name?: string | null
+          bank_account_number?: string | null
+          bank_iban?: string | null
+          bank_name?: string | null
+          bank_sort_code?: string | null
+          company_name?: string
+          company_number?: string | null
+          created_at?: string
+          email?: string | null
+          invoice_footer?: string | null
+          lock_date?: string | null
+          logo_path?: string | null
+          organisation_id?: string
+          phone?: string | null
+          updated_at?: string
+          user_id?: string | null
+          vat_lock_date?: string | null
+          vat_number?: string | null
+        }
+        Update: {
+          address?: string | null
+          bank_account_name?: string | null
+          bank_account_number?: string | null
+          bank_iban?: string | null
+          bank_name?: string | null
+          bank_sort_code?: string | null
+          company_name?: string
+          company_number?: string | null
+          created_at?: string
+          email?: string | null
+          invoice_footer?: string | null
+          lock_date?: string | null
+          logo_path?: string | null
+          organisation_id?: string
+          phone?: string | null
+          updated_at?: string
+          user_id?: string | null
+          vat_lock_date?: string | null
+          vat_number?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "company_settings_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_note_lines: {
+        Row: {
+          created_at: string
+          credit_note_id: string
+          description: string
+          id: string
+          line_total: number
+          quantity: number
+          tax_code_id: string | null
+          unit_price: number
+          vat_amount: number
+        }
+        Insert: {
+          created_at?: string
+          credit_note_id: string
+          description: string
+          id?: string
+          line_total: number
+          quantity?: number
+          tax_code_id?: string | null
+          unit_price: number
+          vat_amount?: number
+        }
+        Update: {
+          created_at?: string
+          credit_note_id?: string
+          description?: string
+          id?: string
+          line_total?: number
+          quantity?: number
+          tax_code_id?: string | null
+          unit_price?: number
+          vat_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_note_lines_credit_note_id_fkey"
+            columns: ["credit_note_id"]
+            isOneToOne: false
+            referencedRelation: "credit_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_note_lines_tax_code_id_fkey"
+            columns: ["tax_code_id"]
+            isOneToOne: false
+            referencedRelation: "tax_codes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_notes: {
+        Row: {
+          created_at: string
+          credit_note_number: string
+          customer_id: string
+          date: string
+          id: string
+          invoice_id: string
+          organisation_id: string
+          reason: string | null
+          status: string
+          subtotal: number
+          total: number
+          updated_at: string
+          user_id: string | null
+          vat_amount: number
+        }
+        Insert: {
+          created_at?: string
+          credit_note_number?: string
+          customer_id: string
+          date: string
+          id?: string
+          invoice_id: string
+          organisation_id?: string
+          reason?: string | null
+          status?: string
+          subtotal?: number
+          total?: number
+          updated_at?: string
+          user_id?: string | null
+          vat_amount?: number
+        }
+        Update: {
+          created_at?: string
+          credit_note_number?: string
+          customer_id?: string
+          date?: string
+          id?: string
+          invoice_id?: string
+          organisation_id?: string
+          reason?: string | null
+          status?: string
+          subtotal?: number
+          total?: number
+          updated_at?: string
+          user_id?: string | null
+          vat_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_notes_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_notes_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_notes_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customers: {
+        Row: {
+          address: string | null
+          created_at: string
+          email: string | null
+          id: string
+          name: string
+          organisation_id: string
+          user_id: string | null
+        }
+        Insert: {
+          address?: string | null
+          created_at?: string
+          email?: string | null
+          id?: string
+          name: string
+          organisation_id?: string
+          user_id?: string | null
+        }
+        Update: {
+          address?: string | null
+          created_at?: string
+          email?: string | null
+          id?: string
+          name?: string
+          organisation_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customers_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_sends: {
+        Row: {
+          created_at: string
+          customer_id: string
+          document_type: string
+          error: string | null
+          id: string
+          invoice_id: string | null
+          message_id: string | null
+          organisation_id: string
+          recipient: string
+          status: string
+          subject: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          customer_id: string
+          document_type: string
+          error?: string | null
+          id?: string
+          invoice_id?: string | null
+          message_id?: string | null
+          organisation_id?: string
+          recipient: string
+          status: string
+          subject: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          customer_id?: string
+          document_type?: string
+          error?: string | null
+          id?: string
+          invoice_id?: string | null
+          message_id?: string | null
+          organisation_id?: string
+          recipient?: string
+          status?: string
+          subject?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_sends_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_sends_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_sends_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hmrc_oauth_tokens: {
+        Row: {
+          access_token: string
+          created_at: string
+          expires_at: string
+          id: string
+          organisation_id: string
+          refresh_token: string
+          scope: string | null
+          token_type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          access_token: string
+          created_at?: string
+          expires_at: string
+          id?: string
+          organisation_id?: string
+          refresh_token: string
+          scope?: string | null
+          token_type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          access_token?: string
+          created_at?: string
+          expires_at?: string
+          id?: string
+          organisation_id?: string
+          refresh_token?: string
+          scope?: string | null
+          token_type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hmrc_oauth_tokens_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_lines: {
+        Row: {
+          created_at: string
+          description: string
+          id: string
+          invoice_id: string
+          line_total: number
+          quantity: number
+          tax_code_id: string | null
+          unit_price: number
+          vat_amount: number
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          id?: string
+          invoice_id: string
+          line_total: number
+          quantity?: number
+          tax_code_id?: string | null
+          unit_price: number
+          vat_amount?: number
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          id?: string
+          invoice_id?: string
+          line_total?: number
+          quantity?: number
+          tax_code_id?: string | null
+          unit_price?: number
+          vat_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_lines_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_lines_tax_code_id_fkey"
+            columns: ["tax_code_id"]
+            isOneToOne: false
+            referencedRelation: "tax_codes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_number_sequences: {
+        Row: {
+          credit_note_next_number: number
+          credit_note_prefix: string
+          next_number: number
+          organisation_id: string
+          padding: number
+          prefix: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          credit_note_next_number?: number
+          credit_note_prefix?: string
+          next_number?: number
+          organisation_id?: string
+          padding?: number
+          prefix?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          credit_note_next_number?: number
+          credit_note_prefix?: string
+          next_number?: number
+          organisation_id?: string
+          padding?: number
+          prefix?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_number_sequences_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoices: {
+        Row: {
+          amount_credited: number
+          amount_paid: number
+          auto_send_pending: boolean
+          created_at: string
+          customer_id: string
+          date: string
+          due_date: string | null
+          id: string
+          invoice_number: string
+          last_sent_at: string | null
+          organisation_id: string
+          pdf_generated_at: string | null
+          pdf_path: string | null
+          recurring_invoice_id: string | null
+          recurring_period: string | null
+          status: string
+          subtotal: number
+          total: number
+          updated_at: string
+          user_id: string | null
+          vat_amount: number
+        }
+        Insert: {
+          amount_credited?: number
+          amount_paid?: number
+          auto_send_pending?: boolean
+          created_at?: string
+          customer_id: string
+          date: string
+          due_date?: string | null
+          id?: string
+          invoice_number?: string
+          last_sent_at?: string | null
+          organisation_id?: string
+          pdf_generated_at?: string | null
+          pdf_path?: string | null
+          recurring_invoice_id?: string | null
+          recurring_period?: string | null
+          status?: string
+          subtotal?: number
+          total?: number
+          updated_at?: string
+          user_id?: string | null
+          vat_amount?: number
+        }
+        Update: {
+          amount_credited?: number
+          amount_paid?: number
+          auto_send_pending?: boolean
+          created_at?: string
+          customer_id?: string
+          date?: string
+          due_date?: string | null
+          id?: string
+          invoice_number?: string
+          last_sent_at?: string | null
+          organisation_id?: string
+          pdf_generated_at?: string | null
+          pdf_path?: string | null
+          recurring_invoice_id?: string | null
+          recurring_period?: string | null
+          status?: string
+          subtotal?: number
+          total?: number
+          updated_at?: string
+          user_id?: string | null
+          vat_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_recurring_invoice_id_fkey"
+            columns: ["recurring_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      journal_lines: {
+        Row: {
+          account_id: string
+          created_at: string
+          credit_amount: number | null
+          debit_amount: number | null
+          description: string | null
+          id: string
+          journal_id: string
+        }
+        Insert: {
+          account_id: string
+          created_at?: string
+          credit_amount?: number | null
+          debit_amount?: number | null
+          description?: string | null
+          id?: string
+          journal_id: string
+        }
+        Update: {
+          account_id?: string
+          created_at?: string
+          credit_amount?: number | null
+          debit_amount?: number | null
+          description?: string | null
+          id?: string
+          journal_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "journal_lines_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "chart_of_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "journal_lines_journal_id_fkey"
+            columns: ["journal_id"]
+            isOneToOne: false
+            referencedRelation: "journals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      journals: {
+        Row: {
+          created_at: string
+          date: string
+          description: string | null
+          id: string
+          organisation_id: string
+          reference: string
+          reverses_journal_id: string | null
+          source_id: string | null
+          source_type: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          date: string
           description?: string | null
           id?: string
-          journal_id: string
+          organisation_id?: string
+          reference: string
+          reverses_journal_id?: string | null
+          source_id?: string | null
+          source_type?: string
+          user_id?: string | null
         }
         Update: {
-          account_id?: string
           created_at?: string
-          credit_amount?: number | null
-          debit_amount?: number | null
+          date?: string
           description?: string | null
           id?: string
-          journal_id?: string
+          organisation_id?: string
+          reference?: string
+          reverses_journal_id?: string | null
+          source_id?: string | null
+          source_type?: string
+          user_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "journal_lines_account_id_fkey"
+            foreignKeyName: "journals_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "journals_reverses_journal_id_fkey"
+            columns: ["reverses_journal_id"]
+            isOneToOne: false
+            referencedRelation: "journals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lock_date_override_changes: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          id: string
+          operation: string
+          organisation_id: string
+          override_id: string
+          record_date: string
+          record_id: string | null
+          table_name: string
+          user_id: string | null
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          operation: string
+          organisation_id?: string
+          override_id: string
+          record_date: string
+          record_id?: string | null
+          table_name: string
+          user_id?: string | null
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          operation?: string
+          organisation_id?: string
+          override_id?: string
+          record_date?: string
+          record_id?: string | null
+          table_name?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lock_date_override_changes_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lock_date_override_changes_override_id_fkey"
+            columns: ["override_id"]
+            isOneToOne: false
+            referencedRelation: "lock_date_overrides"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lock_date_overrides: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          ended_at: string | null
+          expires_at: string
+          id: string
+          organisation_id: string
+          reason: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          ended_at?: string | null
+          expires_at: string
+          id?: string
+          organisation_id?: string
+          reason: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          ended_at?: string | null
+          expires_at?: string
+          id?: string
+          organisation_id?: string
+          reason?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lock_date_overrides_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organisation_invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string
+          declined_at: string | null
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          organisation_id: string
+          role: Database["public"]["Enums"]["user_role"]
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          declined_at?: string | null
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          organisation_id?: string
+          role: Database["public"]["Enums"]["user_role"]
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          declined_at?: string | null
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          organisation_id?: string
+          role?: Database["public"]["Enums"]["user_role"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organisation_invitations_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organisations: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      payments: {
+        Row: {
+          amount: number
+          bank_account_id: string | null
+          bill_id: string | null
+          created_at: string
+          date: string
+          id: string
+          invoice_id: string | null
+          method: string | null
+          organisation_id: string
+          reference: string | null
+          user_id: string | null
+        }
+        Insert: {
+          amount: number
+          bank_account_id?: string | null
+          bill_id?: string | null
+          created_at?: string
+          date: string
+          id?: string
+          invoice_id?: string | null
+          method?: string | null
+          organisation_id?: string
+          reference?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          amount?: number
+          bank_account_id?: string | null
+          bill_id?: string | null
+          created_at?: string
+          date?: string
+          id?: string
+          invoice_id?: string | null
+          method?: string | null
+          organisation_id?: string
+          reference?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_bank_account_id_fkey"
+            columns: ["bank_account_id"]
+            isOneToOne: false
+            referencedRelation: "bank_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          current_organisation_id: string | null
+          id: string
+          name: string
+          role: Database["public"]["Enums"]["user_role"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          current_organisation_id?: string | null
+          id?: string
+          name: string
+          role?: Database["public"]["Enums"]["user_role"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          current_organisation_id?: string | null
+          id?: string
+          name?: string
+          role?: Database["public"]["Enums"]["user_role"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_current_organisation_id_fkey"
+            columns: ["current_organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_bill_lines: {
+        Row: {
+          account_id: string | null
+          created_at: string
+          description: string
+          id: string
+          line_total: number
+          quantity: number
+          recurring_bill_id: string
+          tax_code_id: string | null
+          unit_price: number
+          vat_amount: number
+        }
+        Insert: {
+          account_id?: string | null
+          created_at?: string
+          description: string
+          id?: string
+          line_total: number
+          quantity?: number
+          recurring_bill_id: string
+          tax_code_id?: string | null
+          unit_price: number
+          vat_amount?: number
+        }
+        Update: {
+          account_id?: string | null
+          created_at?: string
+          description?: string
+          id?: string
+          line_total?: number
+          quantity?: number
+          recurring_bill_id?: string
+          tax_code_id?: string | null
+          unit_price?: number
+          vat_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_bill_lines_account_id_fkey"
             columns: ["account_id"]
             isOneToOne: false
-            referencedRelation: "chart_of_accounts"
+            referencedRelation: "chart_of_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_bill_lines_recurring_bill_id_fkey"
+            columns: ["recurring_bill_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_bills"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "journal_lines_journal_id_fkey"
-            columns: ["journal_id"]
+            foreignKeyName: "recurring_bill_lines_tax_code_id_fkey"
+            columns: ["tax_code_id"]
             isOneToOne: false
-            referencedRelation: "journals"
+            referencedRelation: "tax_codes"
             referencedColumns: ["id"]
           },
         ]
       }
-      journals: {
+      recurring_bills: {
         Row: {
+          active: boolean
+          auto_receive: boolean
+          bill_reference: string
           created_at: string
-          date: string
-          description: string | null
+          due_days: number
+          end_date: string | null
+          frequency: string
           id: string
-          reference: string
+          last_error: string | null
+          last_run_at: string | null
+          name: string
+          next_run_date: string
+          organisation_id: string
+          start_date: string
+          subtotal: number
+          supplier_id: string
+          total: number
+          updated_at: string
           user_id: string | null
+          vat_amount: number
         }
         Insert: {
+          active?: boolean
+          auto_receive?: boolean
+          bill_reference: string
           created_at?: string
-          date: string
-          description?: string | null
+          due_days?: number
+          end_date?: string | null
+          frequency: string
           id?: string
-          reference: string
+          last_error?: string | null
+          last_run_at?: string | null
+          name: string
+          next_run_date?: string
+          organisation_id?: string
+          start_date: string
+          subtotal?: number
+          supplier_id: string
+          total?: number
+          updated_at?: string
           user_id?: string | null
+          vat_amount?: number
         }
         Update: {
+          active?: boolean
+          auto_receive?: boolean
+          bill_reference?: string
           created_at?: string
-          date?: string
-          description?: string | null
+          due_days?: number
+          end_date?: string | null
+          frequency?: string
           id?: string
-          reference?: string
+          last_error?: string | null
+          last_run_at?: string | null
+          name?: string
+          next_run_date?: string
+          organisation_id?: string
+          start_date?: string
+          subtotal?: number
+          supplier_id?: string
+          total?: number
+          updated_at?: string
           user_id?: string | null
+          vat_amount?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "recurring_bills_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_bills_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      payments: {
+      recurring_invoice_lines: {
         Row: {
-          amount: number
-          bill_id: string | null
           created_at: string
-          date: string
+          description: string
           id: string
-          invoice_id: string | null
-          method: string | null
-          reference: string | null
-          user_id: string | null
+          line_total: number
+          quantity: number
+          recurring_invoice_id: string
+          tax_code_id: string | null
+          unit_price: number
+          vat_amount: number
         }
         Insert: {
-          amount: number
-          bill_id?: string | null
           created_at?: string
-          date: string
+          description: string
           id?: string
-          invoice_id?: string | null
-          method?: string | null
-          reference?: string | null
-          user_id?: string | null
+          line_total: number
+          quantity?: number
+          recurring_invoice_id: string
+          tax_code_id?: string | null
+          unit_price: number
+          vat_amount?: number
         }
         Update: {
-          amount?: number
-          bill_id?: string | null
           created_at?: string
-          date?: string
+          description?: string
           id?: string
-          invoice_id?: string | null
-          method?: string | null
-          reference?: string | null
-          user_id?: string | null
+          line_total?: number
+          quantity?: number
+          recurring_invoice_id?: string
+          tax_code_id?: string | null
+          unit_price?: number
+          vat_amount?: number
         }
         Relationships: [
           {
-            foreignKeyName: "payments_bill_id_fkey"
-            columns: ["bill_id"]
+            foreignKeyName: "recurring_invoice_lines_recurring_invoice_id_fkey"
+            columns: ["recurring_invoice_id"]
             isOneToOne: false
-            referencedRelation: "bills"
+            referencedRelation: "recurring_invoices"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "payments_invoice_id_fkey"
-            columns: ["invoice_id"]
+            foreignKeyName: "recurring_invoice_lines_tax_code_id_fkey"
+            columns: ["tax_code_id"]
             isOneToOne: false
-            referencedRelation: "invoices"
+            referencedRelation: "tax_codes"
             referencedColumns: ["id"]
           },
         ]
       }
-      profiles: {
+      recurring_invoices: {
         Row: {
+          active: boolean
+          auto_send: boolean
           created_at: string
+          customer_id: string
+          due_days: number
+          end_date: string | null
+          frequency: string
           id: string
+          last_error: string | null
+          last_run_at: string | null
           name: string
-          role: Database["public"]["Enums"]["user_role"]
+          next_run_date: string
+          organisation_id: string
+          start_date: string
+          subtotal: number
+          total: number
           updated_at: string
-          user_id: string
+          user_id: string | null
+          vat_amount: number
         }
         Insert: {
+          active?: boolean
+          auto_send?: boolean
           created_at?: string
+          customer_id: string
+          due_days?: number
+          end_date?: string | null
+          frequency: string
           id?: string
+          last_error?: string | null
+          last_run_at?: string | null
           name: string
-          role?: Database["public"]["Enums"]["user_role"]
+          next_run_date?: string
+          organisation_id?: string
+          start_date: string
+          subtotal?: number
+          total?: number
           updated_at?: string
-          user_id: string
+          user_id?: string | null
+          vat_amount?: number
         }
         Update: {
+          active?: boolean
+          auto_send?: boolean
           created_at?: string
+          customer_id?: string
+          due_days?: number
+          end_date?: string | null
+          frequency?: string
           id?: string
+          last_error?: string | null
+          last_run_at?: string | null
           name?: string
-          role?: Database["public"]["Enums"]["user_role"]
+          next_run_date?: string
+          organisation_id?: string
+          start_date?: string
+          subtotal?: number
+          total?: number
           updated_at?: string
-          user_id?: string
+          user_id?: string | null
+          vat_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_invoices_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_invoices_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      role_permissions: {
+        Row: {
+          permission: string
+          role: Database["public"]["Enums"]["user_role"]
+        }
+        Insert: {
+          permission: string
+          role: Database["public"]["Enums"]["user_role"]
+        }
+        Update: {
+          permission?: string
+          role?: Database["public"]["Enums"]["user_role"]
         }
         Relationships: []
       }
@@ -555,32 +2362,209 @@ export type Database = {
         }
         Relationships: []
       }
+      supplier_credit_note_lines: {
+        Row: {
+          account_id: string | null
+          created_at: string
+          description: string
+          id: string
+          line_total: number
+          quantity: number
+          supplier_credit_note_id: string
+          tax_code_id: string | null
+          unit_price: number
+          vat_amount: number
+        }
+        Insert: {
+          account_id?: string | null
+          created_at?: string
+          description: string
+          id?: string
+          line_total: number
+          quantity?: number
+          supplier_credit_note_id: string
+          tax_code_id?: string | null
+          unit_price: number
+          vat_amount?: number
+        }
+        Update: {
+          account_id?: string | null
+          created_at?: string
+          description?: string
+          id?: string
+          line_total?: number
+          quantity?: number
+          supplier_credit_note_id?: string
+          tax_code_id?: string | null
+          unit_price?: number
+          vat_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "supplier_credit_note_lines_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "chart_of_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_credit_note_lines_supplier_credit_note_id_fkey"
+            columns: ["supplier_credit_note_id"]
+            isOneToOne: false
+            referencedRelation: "supplier_credit_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_credit_note_lines_tax_code_id_fkey"
+            columns: ["tax_code_id"]
+            isOneToOne: false
+            referencedRelation: "tax_codes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      supplier_credit_notes: {
+        Row: {
+          bill_id: string
+          created_at: string
+          credit_note_number: string
+          date: string
+          id: string
+          organisation_id: string
+          reason: string | null
+          status: string
+          subtotal: number
+          supplier_id: string
+          total: number
+          updated_at: string
+          user_id: string | null
+          vat_amount: number
+        }
+        Insert: {
+          bill_id: string
+          created_at?: string
+          credit_note_number: string
+          date: string
+          id?: string
+          organisation_id?: string
+          reason?: string | null
+          status?: string
+          subtotal?: number
+          supplier_id: string
+          total?: number
+          updated_at?: string
+          user_id?: string | null
+          vat_amount?: number
+        }
+        Update: {
+          bill_id?: string
+          created_at?: string
+          credit_note_number?: string
+          date?: string
+          id?: string
+          organisation_id?: string
+          reason?: string | null
+          status?: string
+          subtotal?: number
+          supplier_id?: string
+          total?: number
+          updated_at?: string
+          user_id?: string | null
+          vat_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "supplier_credit_notes_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_credit_notes_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_credit_notes_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       suppliers: {
         Row: {
           address: string | null
+          contact_name: string | null
           created_at: string
+          default_account_id: string | null
+          default_tax_code_id: string | null
           email: string | null
           id: string
           name: string
+          organisation_id: string
+          payment_terms_days: number
+          phone: string | null
           user_id: string | null
+          vat_number: string | null
         }
         Insert: {
           address?: string | null
+          contact_name?: string | null
           created_at?: string
+          default_account_id?: string | null
+          default_tax_code_id?: string | null
           email?: string | null
           id?: string
           name: string
+          organisation_id?: string
+          payment_terms_days?: number
+          phone?: string | null
           user_id?: string | null
+          vat_number?: string | null
         }
         Update: {
           address?: string | null
+          contact_name?: string | null
           created_at?: string
+          default_account_id?: string | null
+          default_tax_code_id?: string | null
           email?: string | null
           id?: string
           name?: string
+          organisation_id?: string
+          payment_terms_days?: number
+          phone?: string | null
           user_id?: string | null
+          vat_number?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "suppliers_default_account_id_fkey"
+            columns: ["default_account_id"]
+            isOneToOne: false
+            referencedRelation: "chart_of_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "suppliers_default_tax_code_id_fkey"
+            columns: ["default_tax_code_id"]
+            isOneToOne: false
+            referencedRelation: "tax_codes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "suppliers_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       tax_codes: {
         Row: {
@@ -607,22 +2591,33 @@ export type Database = {
         Row: {
           created_at: string
           id: string
+          organisation_id: string
           role: Database["public"]["Enums"]["user_role"]
           user_id: string
         }
         Insert: {
           created_at?: string
           id?: string
+          organisation_id: string
           role: Database["public"]["Enums"]["user_role"]
           user_id: string
         }
         Update: {
           created_at?: string
           id?: string
+          organisation_id?: string
           role?: Database["public"]["Enums"]["user_role"]
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "user_roles_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       vat_obligations: {
         Row: {
@@ -630,6 +2625,7 @@ export type Database = {
           due_date: string
           end_date: string
           id: string
+          organisation_id: string
           period_key: string
           received_date: string | null
           start_date: string
@@ -642,6 +2638,7 @@ export type Database = {
           due_date: string
           end_date: string
           id?: string
+          organisation_id?: string
           period_key: string
           received_date?: string | null
           start_date: string
@@ -654,6 +2651,7 @@ export type Database = {
           due_date?: string
           end_date?: string
           id?: string
+          organisation_id?: string
           period_key?: string
           received_date?: string | null
           start_date?: string
@@ -661,7 +2659,15 @@ export type Database = {
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "vat_obligations_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       vat_returns: {
         Row: {
@@ -671,6 +2677,7 @@ export type Database = {
           id: string
           net_vat_due: number
           obligation_id: string | null
+          organisation_id: string
           period_key: string
           submitted_at: string | null
           total_acquisitions_ex_vat: number
@@ -690,6 +2697,7 @@ export type Database = {
           id?: string
           net_vat_due?: number
           obligation_id?: string | null
+          organisation_id?: string
           period_key: string
           submitted_at?: string | null
           total_acquisitions_ex_vat?: number
@@ -709,6 +2717,7 @@ export type Database = {
           id?: string
           net_vat_due?: number
           obligation_id?: string | null
+          organisation_id?: string
           period_key?: string
           submitted_at?: string | null
           total_acquisitions_ex_vat?: number
@@ -729,6 +2738,64 @@ export type Database = {
             referencedRelation: "vat_obligations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "vat_returns_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      year_end_closes: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          journal_id: string | null
+          net_profit: number
+          organisation_id: string
+          reopened_at: string | null
+          user_id: string | null
+          year_end: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          journal_id?: string | null
+          net_profit?: number
+          organisation_id?: string
+          reopened_at?: string | null
+          user_id?: string | null
+          year_end: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          journal_id?: string | null
+          net_profit?: number
+          organisation_id?: string
+          reopened_at?: string | null
+          user_id?: string | null
+          year_end?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "year_end_closes_journal_id_fkey"
+            columns: ["journal_id"]
+            isOneToOne: false
+            referencedRelation: "journals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "year_end_closes_organisation_id_fkey"
+            columns: ["organisation_id"]
+            isOneToOne: false
+            referencedRelation: "organisations"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
@@ -736,6 +2803,284 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      accept_invitation: {
+        Args: {
+          _invitation_id: string
+        }
+        Returns: string
+      }
+      add_journal_line: {
+        Args: {
+          _account_id: string
+          _amount: number
+          _description: string
+          _journal_id: string
+        }
+        Returns: undefined
+      }
+      apply_bank_rules: {
+        Args: never
+        Returns: number
+      }
+      approve_bill: {
+        Args: {
+          _bill_id: string
+          _comment?: string
+        }
+        Returns: string
+      }
+      attachment_permission: {
+        Args: {
+          _folder: string
+        }
+        Returns: string
+      }
+      bank_account_balances: {
+        Args: never
+        Returns: {
+          bank_account_id: string
+          ledger_balance: number
+          locked_until: string
+          reconciled_balance: number
+          statement_balance: number
+          unreconciled_count: number
+        }[]
+      }
+      bank_account_locked_until: {
+        Args: {
+          _bank_account_id: string
+        }
+        Returns: string
+      }
+      bank_import_locked_until: {
+        Args: {
+          _bank_account_id: string
+        }
+        Returns: string
+      }
+      bank_ledger_account_id: {
+        Args: {
+          _bank_account_id: string
+          _organisation_id: string
+        }
+        Returns: string
+      }
+      bank_ledger_balance: {
+        Args: {
+          _as_of: string
+          _bank_account_id: string
+        }
+        Returns: number
+      }
+      bank_ledger_locked_until: {
+        Args: {
+          _account_id: string
+          _organisation_id: string
+        }
+        Returns: string
+      }
+      bank_statement_fingerprints: {
+        Args: {
+          _transactions: Json
+        }
+        Returns: {
+          fingerprint: string
+          line_number: number
+        }[]
+      }
+      bank_transaction_key: {
+        Args: {
+          _amount: number
+          _balance: number
+          _date: string
+          _description: string
+          _reference: string
+        }
+        Returns: string
+      }
+      begin_lock_override: {
+        Args: {
+          _minutes?: number
+          _reason: string
+        }
+        Returns: string
+      }
+      bill_approval_count: {
+        Args: {
+          _bill_id: string
+        }
+        Returns: number
+      }
+      bill_approvals_required: {
+        Args: {
+          _amount: number
+          _organisation_id: string
+        }
+        Returns: number
+      }
+      bill_line_totals: {
+        Args: {
+          _bill_id: string
+        }
+        Returns: {
+          line_count: number
+          subtotal: number
+          total: number
+          vat_amount: number
+        }[]
+      }
+      can_manage_attachment: {
+        Args: {
+          _attachment: Database["public"]["Tables"]["attachments"]["Row"]
+        }
+        Returns: boolean
+      }
+      can_manage_payment: {
+        Args: {
+          _bill_id: string
+        }
+        Returns: boolean
+      }
+      can_write_storage_object: {
+        Args: {
+          _bucket_id: string
+          _name: string
+        }
+        Returns: boolean
+      }
+      check_lock_date: {
+        Args: {
+          _date: string
+          _include_vat?: boolean
+          _operation: string
+          _organisation_id: string
+          _record_id: string
+          _table_name: string
+        }
+        Returns: undefined
+      }
+      close_financial_year: {
+        Args: {
+          _year_end: string
+        }
+        Returns: string
+      }
+      comment_on_bill: {
+        Args: {
+          _bill_id: string
+          _comment: string
+        }
+        Returns: undefined
+      }
+      complete_bank_reconciliation: {
+        Args: {
+          _bank_account_id: string
+          _statement_balance: number
+          _statement_date: string
+        }
+        Returns: string
+      }
+      create_manual_journal: {
+        Args: {
+          _date: string
+          _description: string
+          _lines: Json
+          _reference: string
+        }
+        Returns: string
+      }
+      create_organisation: {
+        Args: {
+          _name: string
+        }
+        Returns: string
+      }
+      create_reversal_journal: {
+        Args: {
+          _date: string
+          _journal_id: string
+        }
+        Returns: string
+      }
+      current_organisation_id: {
+        Args: never
+        Returns: string
+      }
+      decline_invitation: {
+        Args: {
+          _invitation_id: string
+        }
+        Returns: undefined
+      }
+      default_bank_account_id: {
+        Args: {
+          _organisation_id: string
+        }
+        Returns: string
+      }
+      end_lock_override: {
+        Args: never
+        Returns: undefined
+      }
+      find_bank_rule: {
+        Args: {
+          _amount: number
+          _description: string
+          _organisation_id: string
+        }
+        Returns: {
+          account_id: string
+          active: boolean
+          created_at: string
+          customer_id: string | null
+          direction: string
+          id: string
+          match_type: string
+          max_amount: number | null
+          min_amount: number | null
+          name: string
+          organisation_id: string
+          pattern: string
+          priority: number
+          supplier_id: string | null
+          tax_code_id: string | null
+          updated_at: string
+          user_id: string | null
+        }[]
+      }
+      find_duplicate_bank_transactions: {
+        Args: {
+          _bank_account_id: string
+          _transactions: Json
+        }
+        Returns: number[]
+      }
+      generate_recurring_documents: {
+        Args: {
+          _as_of?: string
+        }
+        Returns: number
+      }
+      get_account_id: {
+        Args: {
+          _account_code: string
+          _organisation_id: string
+        }
+        Returns: string
+      }
+      get_active_posting: {
+        Args: {
+          _source_id: string
+          _source_type: string
+        }
+        Returns: string
+      }
+      has_permission: {
+        Args: {
+          _permission: string
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["user_role"]
@@ -743,9 +3088,181 @@ export type Database = {
         }
         Returns: boolean
       }
+      import_bank_statement: {
+        Args: {
+          _bank_account_id: string
+          _file_hash: string
+          _file_name: string
+          _format: string
+          _transactions: Json
+        }
+        Returns: string
+      }
+      ingest_bank_feed_transactions: {
+        Args: {
+          _cursor: string
+          _feed_account_id: string
+          _transactions: Json
+        }
+        Returns: number
+      }
+      is_year_end_close_journal: {
+        Args: {
+          _journal: Database["public"]["Tables"]["journals"]["Row"]
+        }
+        Returns: boolean
+      }
+      mark_overdue_invoices: {
+        Args: never
+        Returns: number
+      }
+      my_invitations: {
+        Args: never
+        Returns: {
+          created_at: string
+          expires_at: string
+          id: string
+          organisation_id: string
+          organisation_name: string
+          role: Database["public"]["Enums"]["user_role"]
+        }[]
+      }
+      next_credit_note_number: {
+        Args: {
+          _organisation_id: string
+        }
+        Returns: string
+      }
+      next_invoice_number: {
+        Args: {
+          _organisation_id: string
+        }
+        Returns: string
+      }
+      organisation_members: {
+        Args: never
+        Returns: {
+          created_at: string
+          email: string
+          id: string
+          name: string
+          role: Database["public"]["Enums"]["user_role"]
+          user_id: string
+        }[]
+      }
+      reconcile_bank_transaction: {
+        Args: {
+          _allocations: Json
+          _transaction_id: string
+        }
+        Returns: undefined
+      }
+      recurring_next_date: {
+        Args: {
+          _after: string
+          _frequency: string
+          _start: string
+        }
+        Returns: string
+      }
+      refresh_payment_status: {
+        Args: {
+          _bill_id: string
+          _invoice_id: string
+        }
+        Returns: undefined
+      }
+      reject_bill: {
+        Args: {
+          _bill_id: string
+          _comment: string
+        }
+        Returns: undefined
+      }
+      reopen_financial_year: {
+        Args: {
+          _close_id: string
+        }
+        Returns: undefined
+      }
+      require_permission: {
+        Args: {
+          _permission: string
+        }
+        Returns: undefined
+      }
+      reverse_journal: {
+        Args: {
+          _date?: string
+          _journal_id: string
+        }
+        Returns: string
+      }
+      rollback_bank_import: {
+        Args: {
+          _batch_id: string
+        }
+        Returns: number
+      }
+      save_invoice: {
+        Args: {
+          _invoice: Json
+          _invoice_id?: string
+          _lines: Json
+        }
+        Returns: {
+          amount_credited: number
+          amount_paid: number
+          auto_send_pending: boolean
+          created_at: string
+          customer_id: string
+          date: string
+          due_date: string | null
+          id: string
+          invoice_number: string
+          last_sent_at: string | null
+          organisation_id: string
+          pdf_generated_at: string | null
+          pdf_path: string | null
+          recurring_invoice_id: string | null
+          recurring_period: string | null
+          status: string
+          subtotal: number
+          total: number
+          updated_at: string
+          user_id: string | null
+          vat_amount: number
+        }
+      }
+      submit_bill_for_approval: {
+        Args: {
+          _bill_id: string
+          _comment?: string
+        }
+        Returns: undefined
+      }
+      switch_organisation: {
+        Args: {
+          _organisation_id: string
+        }
+        Returns: undefined
+      }
+      unreconcile_bank_transaction: {
+        Args: {
+          _transaction_id: string
+        }
+        Returns: undefined
+      }
+      withdraw_bill_from_approval: {
+        Args: {
+          _bill_id: string
+          _comment?: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
-      user_role: "owner" | "accountant"
+      user_role: "owner" | "accountant" | "bookkeeper" | "approver" | "read_only"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -873,7 +3390,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      user_role: ["owner", "accountant"],
+      user_role: ["owner", "accountant", "bookkeeper", "approver", "read_only"],
     },
   },
 } as const
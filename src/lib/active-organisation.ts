@@ -0,0 +1,26 @@
+// The organisation a tab works in is kept in the tab's session storage and sent with every
+// request, so tabs open on different organisations keep to their own books. The database reads
+// the header in current_organisation_id().
+export const ORGANISATION_HEADER = 'x-organisation-id';
+
+const STORAGE_KEY = 'active-organisation-id';
+
+export const getActiveOrganisationId = () => sessionStorage.getItem(STORAGE_KEY);
+
+export const setActiveOrganisationId = (organisationId: string | null) => {
+  if (organisationId) {
+    sessionStorage.setItem(STORAGE_KEY, organisationId);
+  } else {
+    sessionStorage.removeItem(STORAGE_KEY);
+  }
+};
+
+/** fetch for the Supabase client that names the tab's organisation on each request */
+export const fetchWithOrganisation: typeof fetch = (input, init) => {
+  const organisationId = getActiveOrganisationId();
+  if (!organisationId) return fetch(input, init);
+
+  const headers = new Headers(init?.headers);
+  headers.set(ORGANISATION_HEADER, organisationId);
+  return fetch(input, { ...init, headers });
+};
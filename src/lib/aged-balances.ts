@@ -0,0 +1,223 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { CsvValue } from '@/lib/csv-export';
+import { fetchAllRows } from '@/lib/fetch-all-rows';
+
+export type AgedBalanceKind = 'receivables' | 'payables';
+
+export type AgedBucket = 'current' | 'days_1_30' | 'days_31_60' | 'days_61_90' | 'days_91_120' | 'over_120';
+
+// Upper bound of days overdue for each bucket
+export const AGED_BUCKETS: { key: AgedBucket; label: string; maxDays: number }[] = [
+  { key: 'current', label: 'Current', maxDays: 0 },
+  { key: 'days_1_30', label: '1–30 days', maxDays: 30 },
+  { key: 'days_31_60', label: '31–60 days', maxDays: 60 },
+  { key: 'days_61_90', label: '61–90 days', maxDays: 90 },
+  { key: 'days_91_120', label: '91–120 days', maxDays: 120 },
+  { key: 'over_120', label: 'Over 120 days', maxDays: Infinity }
+];
+
+export type AgedBucketTotals = Record<AgedBucket, number>;
+
+export interface AgedDocument {
+  id: string;
+  number: string;
+  date: string;
+  due_date: string;
+  total: number;
+  outstanding: number;
+  days_overdue: number;
+  bucket: AgedBucket;
+}
+
+export interface AgedContact {
+  id: string;
+  name: string;
+  documents: AgedDocument[];
+  buckets: AgedBucketTotals;
+  total: number;
+}
+
+export interface AgedBalances {
+  kind: AgedBalanceKind;
+  as_at: string;
+  contacts: AgedContact[];
+  buckets: AgedBucketTotals;
+  total: number;
+}
+
+interface OpenDocument {
+  id: string;
+  number: string;
+  date: string;
+  due_date: string | null;
+  total: number;
+  contact: { id: string; name: string } | null;
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const emptyBuckets = (): AgedBucketTotals => ({
+  current: 0, days_1_30: 0, days_31_60: 0, days_61_90: 0, days_91_120: 0, over_120: 0
+});
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000));
+
+const sumBy = (rows: { id: string | null; amount: number }[]) => {
+  const totals = new Map<string, number>();
+  rows.forEach(row => {
+    if (row.id) totals.set(row.id, (totals.get(row.id) || 0) + Number(row.amount));
+  });
+  return totals;
+};
+
+const fetchOpenDocuments = async (kind: AgedBalanceKind, asAt: string) => {
+  if (kind === 'receivables') {
+    const [invoices, payments, creditNotes] = await Promise.all([
+      fetchAllRows((from, to) => supabase
+        .from('invoices')
+        .select('id, invoice_number, date, due_date, total, customer:customers(id, name)')
+        .in('status', ['sent', 'overdue', 'paid'])
+        .lte('date', asAt)
+        .order('id')
+        .range(from, to)),
+      fetchAllRows((from, to) => supabase
+        .from('payments')
+        .select('invoice_id, amount')
+        .not('invoice_id', 'is', null)
+        .lte('date', asAt)
+        .order('id')
+        .range(from, to)),
+      fetchAllRows((from, to) => supabase
+        .from('credit_notes')
+        .select('invoice_id, total')
+        .eq('status', 'issued')
+        .lte('date', asAt)
+        .order('id')
+        .range(from, to))
+    ]);
+
+    return {
+      documents: invoices.map((invoice): OpenDocument => ({
+        ...invoice,
+        number: invoice.invoice_number,
+        contact: invoice.customer
+      })),
+      paid: sumBy(payments.map(payment => ({ id: payment.invoice_id, amount: payment.amount }))),
+      credited: sumBy(creditNotes.map(note => ({ id: note.invoice_id, amount: note.total })))
+    };
+  }
+
+  const [bills, payments, creditNotes] = await Promise.all([
+    fetchAllRows((from, to) => supabase
+      .from('bills')
+      .select('id, bill_number, date, due_date, total, supplier:suppliers(id, name)')
+      .in('status', ['received', 'overdue', 'paid'])
+      .lte('date', asAt)
+      .order('id')
+      .range(from, to)),
+    fetchAllRows((from, to) => supabase
+      .from('payments')
+      .select('bill_id, amount')
+      .not('bill_id', 'is', null)
+      .lte('date', asAt)
+      .order('id')
+      .range(from, to)),
+    fetchAllRows((from, to) => supabase
+      .from('supplier_credit_notes')
+      .select('bill_id, total')
+      .eq('status', 'received')
+      .lte('date', asAt)
+      .order('id')
+      .range(from, to))
+  ]);
+
+  return {
+    documents: bills.map((bill): OpenDocument => ({
+      ...bill,
+      number: bill.bill_number,
+      contact: bill.supplier
+    })),
+    paid: sumBy(payments.map(payment => ({ id: payment.bill_id, amount: payment.amount }))),
+    credited: sumBy(creditNotes.map(note => ({ id: note.bill_id, amount: note.total })))
+  };
+};
+
+/**
+ * Outstanding invoices (receivables) or bills (payables) as they stood at a date, grouped by
+ * customer or supplier and aged by days past due. Only payments and credit notes dated on or
+ * before the date count, so an earlier date shows what was owed then. Documents without a due
+ * date age from their own date.
+ */
+export const calculateAgedBalances = async (kind: AgedBalanceKind, asAt: string): Promise<AgedBalances> => {
+  const { documents, paid, credited } = await fetchOpenDocuments(kind, asAt);
+  const contacts = new Map<string, AgedContact>();
+
+  documents.forEach(document => {
+    const outstanding = round(Number(document.total) - (paid.get(document.id) || 0) - (credited.get(document.id) || 0));
+    if (outstanding === 0) return;
+
+    const dueDate = document.due_date || document.date;
+    const daysOverdue = Math.max(daysBetween(dueDate, asAt), 0);
+    const bucket = AGED_BUCKETS.find(candidate => daysOverdue <= candidate.maxDays)!.key;
+    const contactId = document.contact?.id || 'unknown';
+
+    if (!contacts.has(contactId)) {
+      contacts.set(contactId, { id: contactId, name: document.contact?.name || 'Unknown', documents: [], buckets: emptyBuckets(), total: 0 });
+    }
+    const contact = contacts.get(contactId)!;
+    contact.documents.push({
+      id: document.id,
+      number: document.number,
+      date: document.date,
+      due_date: dueDate,
+      total: Number(document.total),
+      outstanding,
+      days_overdue: daysOverdue,
+      bucket
+    });
+    contact.buckets[bucket] = round(contact.buckets[bucket] + outstanding);
+    contact.total = round(contact.total + outstanding);
+  });
+
+  const sorted = [...contacts.values()].sort((a, b) => a.name.localeCompare(b.name));
+  sorted.forEach(contact => contact.documents.sort((a, b) => a.due_date.localeCompare(b.due_date)));
+
+  const buckets = emptyBuckets();
+  sorted.forEach(contact => AGED_BUCKETS.forEach(({ key }) => { buckets[key] = round(buckets[key] + contact.buckets[key]); }));
+
+  return {
+    kind,
+    as_at: asAt,
+    contacts: sorted,
+    buckets,
+    total: round(sorted.reduce((sum, contact) => sum + contact.total, 0))
+  };
+};
+
+/** One row per outstanding document, with its amount in its age column, and a total row. */
+export const agedBalancesCsvRows = (report: AgedBalances): CsvValue[][] => {
+  const receivables = report.kind === 'receivables';
+
+  return [
+    [
+      receivables ? 'Customer' : 'Supplier',
+      receivables ? 'Invoice' : 'Bill',
+      'Date',
+      'Due Date',
+      'Days Overdue',
+      ...AGED_BUCKETS.map(bucket => bucket.label),
+      'Outstanding'
+    ],
+    ...report.contacts.flatMap(contact => contact.documents.map(document => [
+      contact.name,
+      document.number,
+      document.date,
+      document.due_date,
+      document.days_overdue,
+      ...AGED_BUCKETS.map(bucket => (bucket.key === document.bucket ? document.outstanding.toFixed(2) : '')),
+      document.outstanding.toFixed(2)
+    ])),
+    ['Total', '', '', '', '', ...AGED_BUCKETS.map(bucket => report.buckets[bucket.key].toFixed(2)), report.total.toFixed(2)]
+  ];
+};
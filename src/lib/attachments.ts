@@ -0,0 +1,105 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Permission } from '@/lib/permissions';
+
+export type AttachmentRecordType = 'invoice' | 'bill' | 'journal' | 'bank_transaction';
+
+export interface AttachmentRecord {
+  type: AttachmentRecordType;
+  id: string;
+  // Shown in the dialog title, e.g. the invoice number
+  label: string;
+}
+
+export interface Attachment {
+  id: string;
+  file_name: string;
+  storage_path: string;
+  content_type: string;
+  size_bytes: number;
+  created_at: string;
+}
+
+// The column linking an attachment to its record, the storage folder for the record's area and the
+// permission needed to add or remove files there; the storage policies read the folder
+const RECORD_TYPES: Record<AttachmentRecordType, {
+  column: 'invoice_id' | 'bill_id' | 'journal_id' | 'bank_transaction_id';
+  folder: string;
+  permission: Permission;
+}> = {
+  invoice: { column: 'invoice_id', folder: 'invoices', permission: 'sales.manage' },
+  bill: { column: 'bill_id', folder: 'bills', permission: 'purchases.manage' },
+  journal: { column: 'journal_id', folder: 'journals', permission: 'journals.manage' },
+  bank_transaction: { column: 'bank_transaction_id', folder: 'bank_transactions', permission: 'banking.manage' },
+};
+
+// Matches the attachments bucket's limits
+export const ATTACHMENT_CONTENT_TYPES = ['application/pdf', 'image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+export const attachmentPermission = (type: AttachmentRecordType) => RECORD_TYPES[type].permission;
+
+export const formatFileSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(Math.round(bytes / 1024), 1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export const fetchAttachments = async (record: AttachmentRecord): Promise<Attachment[]> => {
+  const { data, error } = await supabase
+    .from('attachments')
+    .select('id, file_name, storage_path, content_type, size_bytes, created_at')
+    .eq(RECORD_TYPES[record.type].column, record.id)
+    .order('created_at');
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Store a file against a record. The file goes under <organisation>/<area>/<record>/ with a
+ * random prefix so two files of the same name never collide; if the database refuses the
+ * attachment row the stored file is removed again.
+ */
+export const uploadAttachment = async (organisationId: string, record: AttachmentRecord, file: File) => {
+  if (!ATTACHMENT_CONTENT_TYPES.includes(file.type)) {
+    throw new Error(`${file.name} is not a PDF or image`);
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}`);
+  }
+
+  const { column, folder } = RECORD_TYPES[record.type];
+  const safeName = file.name.replace(/[^\w.-]+/g, '_');
+  const path = `${organisationId}/${folder}/${record.id}/${crypto.randomUUID()}-${safeName}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from('attachments')
+    .upload(path, file, { contentType: file.type });
+
+  if (uploadError) throw uploadError;
+
+  const { error } = await supabase.from('attachments').insert({
+    [column]: record.id,
+    file_name: file.name,
+    storage_path: path,
+    content_type: file.type,
+    size_bytes: file.size
+  });
+
+  if (error) {
+    await supabase.storage.from('attachments').remove([path]);
+    throw error;
+  }
+};
+
+export const deleteAttachment = async (attachment: Attachment) => {
+  const { error } = await supabase.from('attachments').delete().eq('id', attachment.id);
+  if (error) throw error;
+
+  const { error: removeError } = await supabase.storage.from('attachments').remove([attachment.storage_path]);
+  if (removeError) throw removeError;
+};
+
+// Short-lived, because the bucket is private
+export const attachmentUrl = async (attachment: Attachment) => {
+  const { data, error } = await supabase.storage.from('attachments').createSignedUrl(attachment.storage_path, 60 * 60);
+  if (error) throw error;
+  return data.signedUrl;
+};
@@ -0,0 +1,83 @@
+import type { ParseResult, ParsedTransaction, SkippedRow } from './types';
+import { parseAmount } from './values';
+
+// Element names are matched without their namespace so every camt.053 version is accepted
+const children = (parent: Element | Document, name: string) =>
+  Array.from(parent.getElementsByTagNameNS('*', name));
+
+const first = (parent: Element, path: string[]): Element | null => {
+  let current: Element | null = parent;
+  for (const name of path) {
+    current = current ? children(current, name)[0] ?? null : null;
+  }
+  return current;
+};
+
+const textAt = (parent: Element, path: string[]) => first(parent, path)?.textContent?.trim() || null;
+
+/**
+ * Parse booked entries (Ntry) from an ISO 20022 camt.053 bank-to-customer statement.
+ * Each entry becomes one transaction even when it batches several payments, matching the
+ * amount that actually moved on the account.
+ */
+export const parseCamt053 = (text: string): ParseResult => {
+  const transactions: ParsedTransaction[] = [];
+  const skipped: SkippedRow[] = [];
+
+  const xml = new DOMParser().parseFromString(text, 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not valid XML');
+  }
+  if (children(xml, 'BkToCstmrStmt').length === 0) {
+    throw new Error('The file is not a camt.053 statement');
+  }
+
+  children(xml, 'Ntry').forEach((entry, index) => {
+    const row = index + 1;
+
+    // Pending and information-only entries have not hit the balance yet
+    const status = textAt(entry, ['Sts']);
+    if (status && status !== 'BOOK') {
+      skipped.push({ row, reason: `Entry status ${status} is not booked` });
+      return;
+    }
+
+    const dateText = textAt(entry, ['BookgDt', 'Dt']) || textAt(entry, ['BookgDt', 'DtTm'])
+      || textAt(entry, ['ValDt', 'Dt']) || textAt(entry, ['ValDt', 'DtTm']);
+    const date = dateText?.match(/^\d{4}-\d{2}-\d{2}/)?.[0];
+    if (!date) {
+      skipped.push({ row, reason: 'Missing booking date' });
+      return;
+    }
+
+    const amount = parseAmount(children(entry, 'Amt')[0]?.textContent || '');
+    if (isNaN(amount)) {
+      skipped.push({ row, reason: 'Missing or unreadable amount' });
+      return;
+    }
+    const isDebit = textAt(entry, ['CdtDbtInd']) === 'DBIT';
+
+    // The counterparty is the creditor on money out and the debtor on money in
+    const counterparty = isDebit
+      ? textAt(entry, ['RltdPties', 'Cdtr', 'Nm'])
+      : textAt(entry, ['RltdPties', 'Dbtr', 'Nm']);
+    const remittance = children(entry, 'Ustrd').map(element => element.textContent?.trim()).filter(Boolean).join(' ');
+    const description = [counterparty, remittance || textAt(entry, ['AddtlNtryInf'])].filter(Boolean).join(' - ');
+    if (!description) {
+      skipped.push({ row, reason: 'Missing description' });
+      return;
+    }
+
+    const endToEndId = textAt(entry, ['Refs', 'EndToEndId']);
+
+    transactions.push({
+      date,
+      description,
+      amount: isDebit ? -Math.abs(amount) : Math.abs(amount),
+      reference: (endToEndId && endToEndId !== 'NOTPROVIDED' ? endToEndId : null) || textAt(entry, ['AcctSvcrRef']),
+      balance: null
+    });
+  });
+
+  return { transactions, skipped };
+};
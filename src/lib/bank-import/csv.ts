@@ -0,0 +1,169 @@
+import type { CsvMapping, ParseResult, ParsedTransaction, SkippedRow } from './types';
+import { parseAmount, parseDate } from './values';
+
+export const CSV_DELIMITERS = [
+  { value: ',', label: 'Comma' },
+  { value: ';', label: 'Semicolon' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe' }
+];
+
+/**
+ * Split CSV text into rows of fields following RFC 4180: fields may be quoted, quoted fields
+ * may contain delimiters, line breaks and doubled quotes, and lines end in CRLF or LF.
+ * Blank lines are dropped.
+ */
+export const parseCsvRows = (text: string, delimiter = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      field = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+/** Pick the delimiter that splits the first line into the most fields, ignoring quoted text. */
+export const detectDelimiter = (text: string): string => {
+  const firstLine = text.replace(/^\uFEFF/, '').split(/\r?\n/)[0].replace(/"[^"]*"/g, '');
+  let best = ',';
+  let bestCount = 0;
+
+  for (const { value } of CSV_DELIMITERS) {
+    const count = firstLine.split(value).length - 1;
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  }
+
+  return best;
+};
+
+const findColumn = (headers: string[], pattern: RegExp) => {
+  const index = headers.findIndex(header => pattern.test(header.trim()));
+  return index === -1 ? null : index;
+};
+
+/** Suggest a mapping from common UK bank header names; the user confirms it in the preview. */
+export const guessCsvMapping = (headers: string[], delimiter: string): CsvMapping => {
+  const amount = findColumn(headers, /^(amount|value|transaction amount)\b/i);
+  const debit = findColumn(headers, /debit|paid out|money out|withdrawal/i);
+  const credit = findColumn(headers, /credit|paid in|money in|deposit/i);
+  const useDebitCredit = amount === null && (debit !== null || credit !== null);
+
+  return {
+    delimiter,
+    has_header: true,
+    date_column: findColumn(headers, /date/i) ?? 0,
+    description_column: findColumn(headers, /description|narrative|details|payee|memo|name/i) ?? 1,
+    amount_column: useDebitCredit ? null : amount ?? 2,
+    debit_column: useDebitCredit ? debit : null,
+    credit_column: useDebitCredit ? credit : null,
+    reference_column: findColumn(headers, /ref/i),
+    balance_column: findColumn(headers, /balance/i),
+    date_format: 'DD/MM/YYYY',
+    decimal_separator: '.',
+    invert_amounts: false
+  };
+};
+
+/** A stable key for a file's header row, used to recognise a bank's export next time. */
+export const headerSignature = (headers: string[]) =>
+  headers.map(header => header.trim().toLowerCase()).join('|');
+
+/** Turn parsed CSV rows into transactions using a column mapping. */
+export const applyCsvMapping = (rows: string[][], mapping: CsvMapping): ParseResult => {
+  const transactions: ParsedTransaction[] = [];
+  const skipped: SkippedRow[] = [];
+  const start = mapping.has_header ? 1 : 0;
+
+  const cell = (values: string[], column: number | null) =>
+    column === null || column === undefined ? '' : (values[column] ?? '').trim();
+
+  for (let i = start; i < rows.length; i++) {
+    const values = rows[i];
+    const row = i + 1;
+
+    const date = parseDate(cell(values, mapping.date_column), mapping.date_format);
+    if (!date) {
+      skipped.push({ row, reason: `Unreadable date "${cell(values, mapping.date_column)}"` });
+      continue;
+    }
+
+    let amount: number;
+    if (mapping.amount_column !== null) {
+      amount = parseAmount(cell(values, mapping.amount_column), mapping.decimal_separator);
+    } else {
+      const debitText = cell(values, mapping.debit_column);
+      const creditText = cell(values, mapping.credit_column);
+      const debit = debitText ? Math.abs(parseAmount(debitText, mapping.decimal_separator)) : 0;
+      const credit = creditText ? Math.abs(parseAmount(creditText, mapping.decimal_separator)) : 0;
+      amount = !debitText && !creditText ? NaN : Math.round((credit - debit) * 100) / 100;
+    }
+
+    if (isNaN(amount)) {
+      skipped.push({ row, reason: 'Missing or unreadable amount' });
+      continue;
+    }
+
+    const description = cell(values, mapping.description_column);
+    if (!description) {
+      skipped.push({ row, reason: 'Missing description' });
+      continue;
+    }
+
+    const balance = parseAmount(cell(values, mapping.balance_column), mapping.decimal_separator);
+
+    transactions.push({
+      date,
+      description,
+      amount: mapping.invert_amounts ? -amount : amount,
+      reference: cell(values, mapping.reference_column) || null,
+      balance: isNaN(balance) ? null : balance
+    });
+  }
+
+  return { transactions, skipped };
+};
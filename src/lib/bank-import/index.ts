@@ -0,0 +1,62 @@
+import type { CsvMapping, DateFormat, ParseResult, StatementFormat } from './types';
+import { applyCsvMapping, parseCsvRows } from './csv';
+import { parseOfx } from './ofx';
+import { parseQif } from './qif';
+import { parseCamt053 } from './camt053';
+
+export * from './types';
+export { DATE_FORMATS, parseAmount, parseDate } from './values';
+export { CSV_DELIMITERS, applyCsvMapping, detectDelimiter, guessCsvMapping, headerSignature, parseCsvRows } from './csv';
+export { parseOfx } from './ofx';
+export { parseQif } from './qif';
+export { parseCamt053 } from './camt053';
+
+export const STATEMENT_FORMATS: { value: StatementFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'ofx', label: 'OFX / QFX' },
+  { value: 'qif', label: 'QIF' },
+  { value: 'camt053', label: 'CAMT.053 (ISO 20022 XML)' }
+];
+
+export const STATEMENT_FILE_TYPES = '.csv,.txt,.ofx,.qfx,.qif,.xml';
+
+/** SHA-256 of the file contents, used to stop the same file being imported twice. */
+export const hashStatement = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/** Work out a statement's format from its extension, falling back to its content. */
+export const detectStatementFormat = (fileName: string, text: string): StatementFormat => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+  if (extension === 'qif') return 'qif';
+
+  const start = text.slice(0, 2000);
+  if (/OFXHEADER|<OFX>/i.test(start)) return 'ofx';
+  if (/^\s*!Type:/i.test(start)) return 'qif';
+  if (/camt\.053|<BkToCstmrStmt/.test(start)) return 'camt053';
+
+  return 'csv';
+};
+
+/** Parse a statement in any supported format. CSV needs a mapping; QIF needs the date order. */
+export const parseStatement = (
+  text: string,
+  format: StatementFormat,
+  options: { csvMapping?: CsvMapping; dateFormat?: DateFormat } = {}
+): ParseResult => {
+  switch (format) {
+    case 'ofx':
+      return parseOfx(text);
+    case 'qif':
+      return parseQif(text, options.dateFormat || 'DD/MM/YYYY');
+    case 'camt053':
+      return parseCamt053(text);
+    case 'csv':
+      if (!options.csvMapping) {
+        throw new Error('Choose which columns hold the date, description and amount');
+      }
+      return applyCsvMapping(parseCsvRows(text, options.csvMapping.delimiter), options.csvMapping);
+  }
+};
@@ -0,0 +1,60 @@
+import type { ParseResult, ParsedTransaction, SkippedRow } from './types';
+import { parseAmount } from './values';
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// OFX 1.x is SGML and leaves leaf elements unclosed, so read a tag's value up to the next tag or line end
+const readTag = (block: string, name: string) => {
+  const match = block.match(new RegExp(`<${name}>([^<\\r\\n]*)`, 'i'));
+  const value = match ? decodeEntities(match[1].trim()) : '';
+  return value || null;
+};
+
+/** Parse the STMTTRN entries of an OFX or QFX statement (SGML 1.x or XML 2.x). */
+export const parseOfx = (text: string): ParseResult => {
+  const transactions: ParsedTransaction[] = [];
+  const skipped: SkippedRow[] = [];
+
+  const blocks = text.split(/<STMTTRN>/i).slice(1).map(block => block.split(/<\/STMTTRN>/i)[0]);
+
+  blocks.forEach((block, index) => {
+    const row = index + 1;
+
+    // DTPOSTED is YYYYMMDD optionally followed by a time and timezone
+    const posted = readTag(block, 'DTPOSTED')?.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (!posted) {
+      skipped.push({ row, reason: 'Missing posted date' });
+      return;
+    }
+
+    const amount = parseAmount(readTag(block, 'TRNAMT') || '');
+    if (isNaN(amount)) {
+      skipped.push({ row, reason: 'Missing or unreadable amount' });
+      return;
+    }
+
+    const name = readTag(block, 'NAME');
+    const memo = readTag(block, 'MEMO');
+    const description = [name, memo && memo !== name ? memo : null].filter(Boolean).join(' - ');
+    if (!description) {
+      skipped.push({ row, reason: 'Missing description' });
+      return;
+    }
+
+    transactions.push({
+      date: `${posted[1]}-${posted[2]}-${posted[3]}`,
+      description,
+      amount,
+      reference: readTag(block, 'CHECKNUM') || readTag(block, 'REFNUM'),
+      balance: null
+    });
+  });
+
+  return { transactions, skipped };
+};
@@ -0,0 +1,55 @@
+import type { DateFormat, ParseResult, ParsedTransaction, SkippedRow } from './types';
+import { parseAmount, parseDate } from './values';
+
+/**
+ * Parse a QIF bank or card export. Records end with "^" and each line starts with a field code:
+ * D date, T or U amount, P payee, M memo and N cheque number or reference. QIF does not say
+ * which way round its dates are, so the format comes from the user.
+ */
+export const parseQif = (text: string, dateFormat: DateFormat): ParseResult => {
+  const transactions: ParsedTransaction[] = [];
+  const skipped: SkippedRow[] = [];
+
+  let record: Record<string, string> = {};
+  let row = 0;
+
+  const endRecord = () => {
+    if (Object.keys(record).length === 0) return;
+    row++;
+
+    const date = parseDate(record.D || '', dateFormat);
+    const amount = parseAmount(record.T ?? record.U ?? '');
+    const description = [record.P, record.M && record.M !== record.P ? record.M : null].filter(Boolean).join(' - ');
+
+    if (!date) {
+      skipped.push({ row, reason: `Unreadable date "${record.D || ''}"` });
+    } else if (isNaN(amount)) {
+      skipped.push({ row, reason: 'Missing or unreadable amount' });
+    } else if (!description) {
+      skipped.push({ row, reason: 'Missing payee or memo' });
+    } else {
+      transactions.push({ date, description, amount, reference: record.N || null, balance: null });
+    }
+
+    record = {};
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('!')) continue;
+
+    if (line === '^') {
+      endRecord();
+      continue;
+    }
+
+    const code = line[0];
+    // Split lines (S, E, $) describe categories and are not needed for the bank side
+    if (!(code in record)) {
+      record[code] = line.slice(1).trim();
+    }
+  }
+  endRecord();
+
+  return { transactions, skipped };
+};
@@ -0,0 +1,48 @@
+export type StatementFormat = 'csv' | 'ofx' | 'qif' | 'camt053';
+
+export type DateFormat = 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD';
+
+export type DecimalSeparator = '.' | ',';
+
+/**
+ * A statement line normalised for insertion into bank_transactions. Declared as a type alias
+ * rather than an interface so arrays of it can be passed straight to rpc() as JSON.
+ */
+export type ParsedTransaction = {
+  date: string; // YYYY-MM-DD
+  description: string;
+  amount: number; // money in is positive, money out negative
+  reference: string | null;
+  balance: number | null; // running balance after the line, when the statement gives one
+};
+
+/** A line that could not be read, reported in the preview rather than silently dropped. */
+export interface SkippedRow {
+  row: number; // 1-based line, record or entry number in the source file
+  reason: string;
+}
+
+export interface ParseResult {
+  transactions: ParsedTransaction[];
+  skipped: SkippedRow[];
+}
+
+/**
+ * How to read one bank's CSV export. Columns are zero-based indexes into each row.
+ * Either amount_column is set (signed amounts) or debit_column/credit_column are.
+ */
+export interface CsvMapping {
+  delimiter: string;
+  has_header: boolean;
+  date_column: number;
+  description_column: number;
+  amount_column: number | null;
+  debit_column: number | null;
+  credit_column: number | null;
+  reference_column: number | null;
+  balance_column: number | null;
+  date_format: DateFormat;
+  decimal_separator: DecimalSeparator;
+  // Card statements often export spending as positive amounts
+  invert_amounts: boolean;
+}
@@ -0,0 +1,93 @@
+import type { DateFormat, DecimalSeparator } from './types';
+
+export const DATE_FORMATS: { value: DateFormat; label: string }[] = [
+  { value: 'DD/MM/YYYY', label: 'DD/MM/YYYY (UK)' },
+  { value: 'MM/DD/YYYY', label: 'MM/DD/YYYY (US)' },
+  { value: 'YYYY-MM-DD', label: 'YYYY-MM-DD (ISO)' }
+];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const parseMonth = (token: string) => {
+  if (/^\d+$/.test(token)) return Number(token);
+  const index = MONTHS.indexOf(token.slice(0, 3).toLowerCase());
+  return index === -1 ? NaN : index + 1;
+};
+
+/**
+ * Read a statement date in the given field order, returning YYYY-MM-DD or null.
+ * Any separator is accepted (05/01/2025, 05-01-2025, 05.01.2025, 5/1'25), as are month
+ * names (05 Jan 2025) and a trailing time. Two-digit years are read as 19xx from 70 upwards.
+ */
+export const parseDate = (value: string, format: DateFormat): string | null => {
+  const tokens = (value || '').match(/\d+|[A-Za-z]+/g);
+  if (!tokens || tokens.length < 3) return null;
+
+  // A month name fixes the order regardless of the configured format
+  const namedMonth = tokens.slice(0, 3).findIndex(token => /^[A-Za-z]+$/.test(token));
+  let [dayToken, monthToken, yearToken] = format === 'YYYY-MM-DD'
+    ? [tokens[2], tokens[1], tokens[0]]
+    : format === 'MM/DD/YYYY'
+      ? [tokens[1], tokens[0], tokens[2]]
+      : [tokens[0], tokens[1], tokens[2]];
+  if (namedMonth === 0) {
+    [monthToken, dayToken, yearToken] = [tokens[0], tokens[1], tokens[2]];
+  } else if (namedMonth === 1) {
+    [dayToken, monthToken, yearToken] = [tokens[0], tokens[1], tokens[2]];
+  }
+
+  const day = Number(dayToken);
+  const month = parseMonth(monthToken);
+  let year = Number(yearToken);
+  if (yearToken?.length === 2) {
+    year += year >= 70 ? 1900 : 2000;
+  }
+
+  if (!Number.isInteger(day) || !Number.isInteger(month) || !Number.isInteger(year) || year < 1900) {
+    return null;
+  }
+
+  // Reject dates that roll over, such as 31/02
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+/**
+ * Read a statement amount, returning NaN when it is not a number. Handles currency symbols,
+ * thousands separators, (brackets) and trailing minus for negatives, and CR/DR suffixes.
+ */
+export const parseAmount = (value: string, decimalSeparator: DecimalSeparator = '.'): number => {
+  let text = (value || '').trim().replace(/\u2212/g, '-');
+  if (!text) return NaN;
+
+  let sign = 1;
+  if (/^\(.*\)$/.test(text)) {
+    sign = -1;
+    text = text.slice(1, -1);
+  }
+  if (/DR$/i.test(text)) {
+    sign = -sign;
+    text = text.slice(0, -2);
+  } else if (/CR$/i.test(text)) {
+    text = text.slice(0, -2);
+  }
+  if (/-\s*$/.test(text)) {
+    sign = -sign;
+    text = text.replace(/-\s*$/, '');
+  }
+
+  text = text.replace(/[^\d.,+-]/g, '');
+  text = decimalSeparator === ','
+    ? text.replace(/\./g, '').replace(',', '.')
+    : text.replace(/,/g, '');
+
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)$/.test(text)) return NaN;
+
+  return Math.round(sign * Number(text) * 100) / 100;
+};
@@ -0,0 +1,195 @@
+export interface MatchableTransaction {
+  date: string;
+  description: string;
+  amount: number; // money in is positive, money out negative
+  reference?: string | null;
+}
+
+/** An invoice or bill that still has something left to pay. */
+export interface OpenDocument {
+  type: 'invoice' | 'bill';
+  id: string;
+  number: string;
+  contact_name?: string;
+  date: string;
+  due_date?: string;
+  outstanding: number;
+}
+
+export interface MatchAllocation {
+  document: OpenDocument;
+  amount: number;
+}
+
+export interface MatchSuggestion {
+  allocations: MatchAllocation[];
+  score: number; // 0 to 100
+  reasons: string[];
+}
+
+// Suggestions scoring below this are noise: a vaguely similar date and nothing else
+export const MIN_MATCH_SCORE = 25;
+
+const MAX_SUGGESTIONS = 5;
+// Subset search for one payment covering several documents is exponential, so cap the candidates
+const MAX_COMBINATION_CANDIDATES = 12;
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const sameAmount = (a: number, b: number) => Math.abs(a - b) < 0.005;
+
+const normalise = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// Words that say nothing about who the payee is
+const STOP_WORDS = new Set(['LTD', 'LIMITED', 'PLC', 'LLP', 'THE', 'AND', 'CO', 'UK', 'INC', 'PAYMENT', 'REF']);
+
+const words = (value: string) =>
+  value
+    .toUpperCase()
+    .split(/[^A-Z0-9]+/)
+    .filter(word => word.length >= 3 && !STOP_WORDS.has(word));
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(to).getTime() - new Date(from).getTime()) / 86400000);
+
+/** Does the statement text carry the document number, in full or by its distinctive digits? */
+const referenceScore = (text: string, document: OpenDocument) => {
+  const number = normalise(document.number);
+  if (number && normalise(text).includes(number)) return 30;
+
+  const digits = document.number.match(/\d{3,}/g)?.pop();
+  if (digits && new RegExp(`(^|\\D)0*${Number(digits)}(\\D|$)`).test(text)) return 15;
+
+  return 0;
+};
+
+/** Share of the contact's name words that appear in the statement text. */
+const payeeScore = (text: string, document: OpenDocument) => {
+  const nameWords = words(document.contact_name || '');
+  if (nameWords.length === 0) return 0;
+
+  const textWords = new Set(words(text));
+  const found = nameWords.filter(word => textWords.has(word)).length;
+  return Math.round((found / nameWords.length) * 20);
+};
+
+/** Closeness to the due date (or issue date): full marks within 3 days, nothing after 60. */
+const dateScore = (transactionDate: string, document: OpenDocument) => {
+  if (daysBetween(document.date, transactionDate) < 0) return 0;
+
+  const days = Math.abs(daysBetween(document.due_date || document.date, transactionDate));
+  if (days <= 3) return 10;
+  return Math.max(0, Math.round(10 * (1 - (days - 3) / 57)));
+};
+
+const scoreDocument = (transaction: MatchableTransaction, document: OpenDocument, text: string) => {
+  const reasons: string[] = [];
+  const amount = Math.abs(transaction.amount);
+
+  let amountScore = 0;
+  if (sameAmount(amount, document.outstanding)) {
+    amountScore = 40;
+    reasons.push('Amount matches');
+  } else if (amount < document.outstanding) {
+    amountScore = 10;
+    reasons.push('Part payment');
+  }
+
+  const reference = referenceScore(text, document);
+  if (reference) reasons.push(reference === 30 ? `Mentions ${document.number}` : `Reference resembles ${document.number}`);
+
+  const payee = payeeScore(text, document);
+  if (payee) reasons.push(`Payee resembles ${document.contact_name}`);
+
+  const date = dateScore(transaction.date, document);
+  if (date >= 5) reasons.push('Close to the due date');
+
+  return { score: amountScore + reference + payee + date, reference, payee, date, reasons };
+};
+
+/** Find the smallest set of documents whose outstanding balances add up exactly to the amount. */
+const findCombination = (amount: number, candidates: OpenDocument[]) => {
+  const sorted = [...candidates].sort((a, b) => a.date.localeCompare(b.date));
+  let best: OpenDocument[] | null = null;
+
+  const search = (start: number, remaining: number, chosen: OpenDocument[]) => {
+    if (best && chosen.length >= best.length) return;
+    if (chosen.length >= 2 && sameAmount(remaining, 0)) {
+      best = [...chosen];
+      return;
+    }
+    for (let i = start; i < sorted.length; i++) {
+      if (sorted[i].outstanding <= remaining + 0.005) {
+        chosen.push(sorted[i]);
+        search(i + 1, round(remaining - sorted[i].outstanding), chosen);
+        chosen.pop();
+      }
+    }
+  };
+
+  search(0, amount, []);
+  return best as OpenDocument[] | null;
+};
+
+/**
+ * Score the open documents that could explain a bank transaction, best first. Each document is
+ * scored on amount (40), document number in the description or reference (30), payee name (20)
+ * and date (10). A payment smaller than a document is offered as a part payment; one that
+ * exactly covers several documents for the same contact, or several documents it names, is
+ * offered as a single suggestion allocating to all of them.
+ */
+export const suggestMatches = (transaction: MatchableTransaction, documents: OpenDocument[]): MatchSuggestion[] => {
+  if (transaction.amount === 0) return [];
+
+  const amount = Math.abs(transaction.amount);
+  const text = [transaction.description, transaction.reference].filter(Boolean).join(' ');
+  const candidates = documents.filter(document =>
+    document.outstanding > 0 && document.type === (transaction.amount > 0 ? 'invoice' : 'bill')
+  );
+
+  const scored = candidates.map(document => ({ document, ...scoreDocument(transaction, document, text) }));
+
+  const suggestions: MatchSuggestion[] = scored.map(({ document, score, reasons }) => ({
+    allocations: [{ document, amount: round(Math.min(amount, document.outstanding)) }],
+    score,
+    reasons
+  }));
+
+  // Several documents paid at once: those the text names, then each contact's documents
+  const groups: OpenDocument[][] = [scored.filter(s => s.reference > 0).map(s => s.document)];
+  const byContact = new Map<string, OpenDocument[]>();
+  scored
+    .filter(s => s.payee > 0 || s.reference > 0)
+    .forEach(({ document }) => {
+      const key = document.contact_name || '';
+      byContact.set(key, [...(byContact.get(key) || []), document]);
+    });
+  groups.push(...byContact.values());
+
+  const seen = new Set<string>();
+  groups.forEach(group => {
+    if (group.length < 2 || group.length > MAX_COMBINATION_CANDIDATES) return;
+
+    const combination = findCombination(amount, group);
+    if (!combination) return;
+
+    const key = combination.map(document => document.id).sort().join(',');
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    const parts = combination.map(document => scored.find(s => s.document.id === document.id)!);
+    const average = (field: 'reference' | 'payee' | 'date') =>
+      parts.reduce((total, part) => total + part[field], 0) / parts.length;
+
+    suggestions.push({
+      allocations: combination.map(document => ({ document, amount: document.outstanding })),
+      score: Math.round(40 + average('reference') + average('payee') + average('date')),
+      reasons: [`Covers ${combination.map(document => document.number).join(', ')}`]
+    });
+  });
+
+  return suggestions
+    .filter(suggestion => suggestion.score >= MIN_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SUGGESTIONS);
+};
@@ -0,0 +1,145 @@
+import { parseAmount, parseDate } from '@/lib/bank-import';
+import type { ExtractedBill, ExtractedBillLine } from './types';
+
+// Amounts on a bill are written with pence, which keeps quantities, dates and phone numbers out
+const AMOUNT = /\(?-?£?\s?\d{1,3}(?:,\d{3})*\.\d{2}\)?(?![\d%])|\(?-?£?\s?\d+\.\d{2}\)?(?![\d%])/g;
+const DATE = /\b(\d{4}-\d{2}-\d{2}|\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}|\d{1,2}(?:st|nd|rd|th)?\s+[A-Za-z]{3,9}\.?,?\s+\d{4}|[A-Za-z]{3,9}\.?\s+\d{1,2}(?:st|nd|rd|th)?,?\s+\d{4})\b/;
+const VAT_NUMBER = /\bGB\s?(\d{3}\s?\d{4}\s?\d{2}(?:\s?\d{3})?)\b/i;
+
+const BILL_NUMBER_LABEL = /\b(?:invoice|inv|bill|document)\s*(?:no\b\.?|number|num\b|#|ref(?:erence)?\b)\s*[:.#]?\s*/i;
+const DUE_DATE_LABEL = /\b(?:due\s+date|payment\s+due|due\s+by|due\s+on|pay\s+by|due)\b\s*[:.]?\s*/i;
+const DATE_LABEL = /\b(?:invoice\s+date|date\s+of\s+invoice|tax\s+point(?:\s+date)?|issue\s+date|date\s+issued|bill\s+date|(?<!due\s{1,3})date)\b\s*[:.]?\s*/i;
+const SUBTOTAL_LABEL = /\b(?:sub[\s-]?total|net\s+(?:amount|total|value)|total\s+(?:net|excl(?:uding|\.)?\s*vat|ex\.?\s*vat|before\s+vat)|net)\b/i;
+const VAT_LABEL = /\b(?:vat|tax)\b/i;
+const NOT_VAT_LABEL = /\b(?:vat|tax)\s*(?:reg(?:istration|istered|\.)?|no\b|number|#|id\b|point|invoice)|\bincl|\bexcl|\bex\.?\s*vat|before\s+vat/i;
+const TOTAL_LABEL = /\b(?:grand\s+total|invoice\s+total|total\s+(?:due|payable|amount|incl(?:uding|\.)?\s*vat|inc\.?\s*vat|gbp)|amount\s+(?:due|payable)|balance\s+(?:due|to\s+pay)|total)\b/i;
+// Lines near the top of a bill that are headings or labels rather than the supplier's name
+const HEADING = /^(?:tax\s+)?invoice\b|^bill\b|^receipt\b|^page\b|^date\b|^to\b|^bill\s+to|^invoice\s+to|^ship\s+to|^from\s*:?$|^tel\b|^phone\b|^email\b|^www\.|@|^vat\b/i;
+const COMPANY = /\b(?:ltd|limited|llp|plc|inc|llc|& co|and co)\b\.?/i;
+
+const STANDARD_VAT_RATES = [20, 5, 0];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const amountsIn = (text: string) => (text.match(AMOUNT) || []).map(amount => parseAmount(amount)).filter(amount => !isNaN(amount));
+
+const readDate = (text: string) => {
+  const match = DATE.exec(text);
+  if (!match) return null;
+
+  const value = match[1].replace(/(\d)(?:st|nd|rd|th)\b/i, '$1');
+  return parseDate(value, /^\d{4}-/.test(value) ? 'YYYY-MM-DD' : 'DD/MM/YYYY');
+};
+
+/**
+ * Find a labelled value: the first line carrying the label with a matching value after it, or
+ * on the line below when the layout puts values under their labels.
+ */
+const labelled = <T>(lines: string[], label: RegExp, read: (text: string) => T | null): T | null => {
+  for (let i = 0; i < lines.length; i++) {
+    const match = label.exec(lines[i]);
+    if (!match) continue;
+
+    const value = read(lines[i].slice(match.index + match[0].length)) ?? (i + 1 < lines.length ? read(lines[i + 1]) : null);
+    if (value !== null) return value;
+  }
+  return null;
+};
+
+// Totals sit at the bottom of a bill, so the last labelled amount wins
+const lastLabelledAmount = (lines: string[], accept: (line: string) => boolean) => {
+  for (let i = lines.length - 1; i >= 0; i--) {
+    if (!accept(lines[i])) continue;
+
+    const amounts = amountsIn(lines[i]);
+    if (amounts.length > 0) return amounts[amounts.length - 1];
+  }
+  return null;
+};
+
+const isSubtotalLine = (line: string) => SUBTOTAL_LABEL.test(line);
+const isVatLine = (line: string) => !isSubtotalLine(line) && VAT_LABEL.test(line) && !NOT_VAT_LABEL.test(line);
+const isTotalLine = (line: string) => !isSubtotalLine(line) && !isVatLine(line) && TOTAL_LABEL.test(line);
+
+const readSupplierName = (lines: string[]) => {
+  const top = lines.slice(0, 12).filter(line => /[A-Za-z]{2}/.test(line) && !HEADING.test(line) && !DATE.test(line) && amountsIn(line).length === 0);
+  const company = top.find(line => COMPANY.test(line));
+  return (company || top[0] || '')
+    .replace(/\b(?:tax\s+)?invoice\b|\breceipt\b/gi, '')
+    .replace(/\s*[-|,]?\s*$/, '')
+    .trim()
+    .slice(0, 100) || null;
+};
+
+/**
+ * Item rows read as description, quantity, unit price and amount, where the quantity times the
+ * unit price gives the amount.
+ */
+const readLines = (lines: string[]): ExtractedBillLine[] =>
+  lines.flatMap(line => {
+    if (isSubtotalLine(line) || isVatLine(line) || isTotalLine(line)) return [];
+
+    const match = /^(.*?[A-Za-z].*?)\s+(\d+(?:\.\d+)?)\s+(?:x\s+)?(\(?-?£?\s?[\d,]+\.\d{2,4}\)?)\s+(?:\d+(?:\.\d+)?%\s+)?(\(?-?£?\s?[\d,]+\.\d{2}\)?)$/i.exec(line);
+    if (!match) return [];
+
+    const quantity = Number(match[2]);
+    const unitPrice = parseAmount(match[3]);
+    const amount = parseAmount(match[4]);
+    if (!quantity || isNaN(unitPrice) || Math.abs(round(quantity * unitPrice) - amount) > 0.01) return [];
+
+    return [{ description: match[1].trim(), quantity, unit_price: unitPrice }];
+  });
+
+/** Read the fields of a bill from its text, one entry per line, using the usual UK layouts. */
+export const extractBillFields = (lines: string[]): ExtractedBill => {
+  const warnings: string[] = [];
+  const vatNumber = VAT_NUMBER.exec(lines.join('\n'))?.[1] ?? null;
+
+  let subtotal = lastLabelledAmount(lines, isSubtotalLine);
+  let vatAmount = lastLabelledAmount(lines, isVatLine);
+  let total = lastLabelledAmount(lines, isTotalLine);
+
+  // Two of the three totals give the third
+  if (subtotal === null && total !== null && vatAmount !== null) subtotal = round(total - vatAmount);
+  if (vatAmount === null && total !== null && subtotal !== null) vatAmount = round(total - subtotal);
+  if (total === null && subtotal !== null && vatAmount !== null) total = round(subtotal + vatAmount);
+  if (subtotal !== null && vatAmount !== null && total !== null && Math.abs(subtotal + vatAmount - total) > 0.01) {
+    warnings.push(`The net (£${subtotal.toFixed(2)}) and VAT (£${vatAmount.toFixed(2)}) do not add up to the total (£${total.toFixed(2)})`);
+  }
+
+  const impliedRate = subtotal && vatAmount !== null ? (vatAmount / subtotal) * 100 : null;
+  const vatRate = impliedRate === null ? null : STANDARD_VAT_RATES.find(rate => Math.abs(rate - impliedRate) < 0.5) ?? null;
+
+  let items = readLines(lines);
+  const itemsTotal = round(items.reduce((sum, line) => sum + line.quantity * line.unit_price, 0));
+  if (items.length > 0 && subtotal !== null && Math.abs(itemsTotal - subtotal) > 0.01) {
+    warnings.push(`The lines read add up to £${itemsTotal.toFixed(2)} but the bill's net total is £${subtotal.toFixed(2)}`);
+  }
+  if (items.length === 0 && subtotal !== null) {
+    items = [{ description: 'As per attached bill', quantity: 1, unit_price: subtotal }];
+  }
+
+  const result: ExtractedBill = {
+    supplier_name: readSupplierName(lines),
+    supplier_vat_number: vatNumber ? `GB${vatNumber.replace(/\s+/g, '')}` : null,
+    bill_number: labelled(lines, BILL_NUMBER_LABEL, text => /^([A-Z0-9][A-Z0-9/_-]*\d[A-Z0-9/_-]*)/i.exec(text)?.[1] ?? null),
+    date: labelled(lines, DATE_LABEL, readDate),
+    due_date: labelled(lines, DUE_DATE_LABEL, readDate),
+    subtotal,
+    vat_amount: vatAmount,
+    total,
+    vat_rate: vatRate,
+    lines: items,
+    text: lines,
+    warnings
+  };
+
+  if (!result.date) {
+    result.date = lines.filter(line => !DUE_DATE_LABEL.test(line)).map(readDate).find(date => date !== null) ?? null;
+  }
+  if (!result.bill_number) warnings.push('No bill number was found');
+  if (!result.date) warnings.push('No bill date was found');
+  if (result.total === null) warnings.push('No total was found');
+
+  return result;
+};
@@ -0,0 +1,35 @@
+import type { BillExtractor, ExtractedBill } from './types';
+import { localExtractor } from './local';
+
+export * from './types';
+export { extractBillFields } from './fields';
+export { readPdfText } from './pdf-text';
+export { localExtractor } from './local';
+
+/** Extractors offered on the review screen; the first that accepts a file is the default. */
+export const BILL_EXTRACTORS: BillExtractor[] = [localExtractor];
+
+export const defaultBillExtractor = (file: File) =>
+  BILL_EXTRACTORS.find(extractor => extractor.accepts.includes(file.type)) || null;
+
+const normalise = (value: string | null | undefined) =>
+  (value || '').toLowerCase().replace(/\b(?:ltd|limited|llp|plc|the)\b|[^a-z0-9]/g, '');
+
+/** The supplier a bill is from: by VAT number when the bill shows one, otherwise by name. */
+export const matchSupplier = <T extends { id: string; name: string; vat_number?: string | null }>(
+  bill: ExtractedBill,
+  suppliers: T[]
+): T | null => {
+  const vatNumber = normalise(bill.supplier_vat_number);
+  const byVatNumber = vatNumber && suppliers.find(supplier => normalise(supplier.vat_number).replace(/^gb/, '') === vatNumber.replace(/^gb/, ''));
+  if (byVatNumber) return byVatNumber;
+
+  const name = normalise(bill.supplier_name);
+  if (!name) return null;
+  return suppliers.find(supplier => normalise(supplier.name) === name)
+    || suppliers.find(supplier => {
+      const candidate = normalise(supplier.name);
+      return candidate.length >= 3 && (name.includes(candidate) || candidate.includes(name));
+    })
+    || null;
+};
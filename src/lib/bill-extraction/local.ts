@@ -0,0 +1,48 @@
+import { ATTACHMENT_CONTENT_TYPES } from '@/lib/attachments';
+import type { BillExtractor, ExtractedBill } from './types';
+import { extractBillFields } from './fields';
+import { readPdfText } from './pdf-text';
+
+const emptyBill = (warning: string): ExtractedBill => ({
+  supplier_name: null,
+  supplier_vat_number: null,
+  bill_number: null,
+  date: null,
+  due_date: null,
+  subtotal: null,
+  vat_amount: null,
+  total: null,
+  vat_rate: null,
+  lines: [],
+  text: [],
+  warnings: [warning]
+});
+
+/**
+ * Reads the text layer of PDF bills in the browser; nothing leaves the device. Images and
+ * scanned PDFs have no text layer, so they come back empty for the reviewer to fill in.
+ */
+export const localExtractor: BillExtractor = {
+  id: 'local',
+  label: 'PDF text (on this device)',
+  accepts: ATTACHMENT_CONTENT_TYPES,
+  extract: async (file) => {
+    if (file.type !== 'application/pdf') {
+      return emptyBill('Images cannot be read on this device. Fill in the bill from the preview.');
+    }
+
+    let lines: string[];
+    try {
+      lines = await readPdfText(new Uint8Array(await file.arrayBuffer()));
+    } catch (error) {
+      console.error('Error reading PDF text:', error);
+      return emptyBill('The PDF could not be read. Fill in the bill from the preview.');
+    }
+
+    if (lines.join('').replace(/\s/g, '').length < 20) {
+      return emptyBill('This PDF has no text to read (it may be a scan). Fill in the bill from the preview.');
+    }
+
+    return extractBillFields(lines);
+  }
+};
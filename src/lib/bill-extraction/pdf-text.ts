@@ -0,0 +1,54 @@
+import { getDocument, GlobalWorkerOptions } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import workerSrc from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+// pdf.js reads the text layer of a PDF; scanned PDFs have none and come back empty.
+GlobalWorkerOptions.workerSrc = workerSrc;
+
+interface TextLine {
+  y: number;
+  height: number;
+  items: TextItem[];
+}
+
+// Text items whose baselines are this close, relative to their height, are on the same line
+const SAME_LINE = 0.5;
+
+/** The text on each page of a PDF, top to bottom, as lines. */
+export const readPdfText = async (bytes: Uint8Array): Promise<string[]> => {
+  const document = await getDocument({ data: bytes, isEvalSupported: false }).promise;
+  const text: string[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const lines: TextLine[] = [];
+
+      for (const item of content.items) {
+        if (!('str' in item) || item.str.trim() === '') continue;
+
+        const y = item.transform[5];
+        const height = Math.abs(item.height || item.transform[3]) || 1;
+        const line = lines.find(candidate => Math.abs(candidate.y - y) <= Math.max(candidate.height, height) * SAME_LINE);
+        if (line) {
+          line.items.push(item);
+        } else {
+          lines.push({ y, height, items: [item] });
+        }
+      }
+
+      text.push(
+        ...lines
+          .sort((a, b) => b.y - a.y)
+          .map(line => line.items.sort((a, b) => a.transform[4] - b.transform[4]).map(item => item.str).join(' ').replace(/\s+/g, ' ').trim())
+          .filter(line => line !== '')
+      );
+      page.cleanup();
+    }
+  } finally {
+    await document.destroy();
+  }
+
+  return text;
+};
@@ -0,0 +1,37 @@
+export type ExtractedBillLine = {
+  description: string;
+  quantity: number;
+  unit_price: number; // net of VAT
+};
+
+/**
+ * What an extractor could read from a supplier's bill. Every field may be missing; the
+ * review screen shows the result next to the file so the gaps can be filled in by hand.
+ */
+export interface ExtractedBill {
+  supplier_name: string | null;
+  supplier_vat_number: string | null;
+  bill_number: string | null;
+  date: string | null; // YYYY-MM-DD
+  due_date: string | null;
+  subtotal: number | null;
+  vat_amount: number | null;
+  total: number | null;
+  vat_rate: number | null; // percentage, when the totals imply a standard rate
+  lines: ExtractedBillLine[];
+  // The text the fields were read from, shown to the reviewer
+  text: string[];
+  warnings: string[];
+}
+
+/**
+ * Reads a bill from an uploaded file. The local extractor works offline from a PDF's text
+ * layer; others (an OCR service, say) can be added to BILL_EXTRACTORS.
+ */
+export interface BillExtractor {
+  id: string;
+  label: string;
+  // MIME types the extractor can read
+  accepts: string[];
+  extract: (file: File) => Promise<ExtractedBill>;
+}
@@ -0,0 +1,26 @@
+export type CsvValue = string | number | null | undefined;
+
+// Text starting with these could run as a formula when the file is opened in a spreadsheet;
+// plain numbers such as -12.50 are left alone
+const FORMULA_START = /^[=+\-@\t\r]/;
+const NUMBER = /^-?\d+(\.\d+)?$/;
+
+const escapeCell = (value: CsvValue) => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return String(value);
+
+  const text = FORMULA_START.test(value) && !NUMBER.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: CsvValue[][]) => rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
+
+/** Save rows as a CSV file through the browser. The byte order mark tells Excel it is UTF-8. */
+export const downloadCsv = (fileName: string, rows: CsvValue[][]) => {
+  const url = URL.createObjectURL(new Blob(['\uFEFF' + toCsv(rows)], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,20 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+
+// PostgREST returns at most 1000 rows a request, so longer lists are read a page at a time
+const PAGE_SIZE = 1000;
+
+/**
+ * Every row of a query, read a page at a time. The query should be ordered on a unique column
+ * so the pages neither overlap nor skip rows.
+ */
+export const fetchAllRows = async <T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>
+) => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
@@ -0,0 +1,224 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { CsvValue } from '@/lib/csv-export';
+import { fetchAllRows } from '@/lib/fetch-all-rows';
+
+export interface LedgerAccount {
+  id: string;
+  account_code: string | null;
+  account_name: string;
+  account_type: string;
+}
+
+export interface LedgerLine {
+  id: string;
+  journal_id: string;
+  date: string;
+  reference: string;
+  description: string;
+  source_type: string;
+  source_id: string | null;
+  document_link: string | null; // the invoice, bill or other document the journal posts
+  debit: number;
+  credit: number;
+  balance: number; // running balance after this line
+}
+
+export interface GeneralLedger {
+  account: LedgerAccount;
+  from: string | null; // null: from the first posting
+  to: string;
+  opening_balance: number;
+  lines: LedgerLine[];
+  total_debits: number;
+  total_credits: number;
+  closing_balance: number;
+}
+
+interface PostedLine {
+  id: string;
+  debit_amount: number | null;
+  credit_amount: number | null;
+  description: string | null;
+  journal: {
+    id: string;
+    date: string;
+    reference: string;
+    description: string | null;
+    source_type: string;
+    source_id: string | null;
+    created_at: string;
+  };
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+// Assets and expenses carry debit balances; liabilities, equity and income carry credit balances
+export const isDebitAccount = (accountType: string) => accountType === 'asset' || accountType === 'expense';
+
+export const SOURCE_LABELS: Record<string, string> = {
+  manual: 'Manual',
+  invoice: 'Invoice',
+  bill: 'Bill',
+  payment: 'Payment',
+  credit_note: 'Credit Note',
+  supplier_credit_note: 'Supplier Credit',
+  bank_transaction: 'Bank',
+  bank_account: 'Opening Balance',
+  year_end_close: 'Year-End Close',
+};
+
+/**
+ * Where to open the document behind a journal. Payments open the invoice or bill they settle;
+ * manual and year-end closing journals open the journal itself.
+ */
+const documentLink = (
+  journal: PostedLine['journal'],
+  payments: Map<string, { invoice_id: string | null; bill_id: string | null }>
+): string | null => {
+  const id = journal.source_id;
+  switch (journal.source_type) {
+    case 'invoice':
+      return id && `/invoices?document=${id}`;
+    case 'bill':
+      return id && `/bills?document=${id}`;
+    case 'credit_note':
+      return id && `/credit-notes?document=${id}`;
+    case 'supplier_credit_note':
+      return id && `/credit-notes?tab=supplier&document=${id}`;
+    case 'payment': {
+      const payment = id ? payments.get(id) : undefined;
+      if (payment?.invoice_id) return `/invoices?document=${payment.invoice_id}`;
+      if (payment?.bill_id) return `/bills?document=${payment.bill_id}`;
+      return null;
+    }
+    case 'bank_transaction':
+      return id && `/banking?document=${id}`;
+    case 'bank_account':
+      return id && `/banking?tab=accounts&document=${id}`;
+    default:
+      return `/journals?document=${journal.id}`;
+  }
+};
+
+// Payment ids are looked up in batches to keep each request's URL short
+const PAYMENT_BATCH = 100;
+
+const fetchPayments = async (ids: string[]) => {
+  const payments = new Map<string, { invoice_id: string | null; bill_id: string | null }>();
+  for (let start = 0; start < ids.length; start += PAYMENT_BATCH) {
+    const { data, error } = await supabase
+      .from('payments')
+      .select('id, invoice_id, bill_id')
+      .in('id', ids.slice(start, start + PAYMENT_BATCH));
+
+    if (error) throw error;
+    (data || []).forEach(payment => payments.set(payment.id, payment));
+  }
+  return payments;
+};
+
+/**
+ * Every posting to an account between two dates, with the balance brought forward from
+ * before the period and the running balance after each line. Balances are shown on the
+ * account's normal side, so they match the P&L, balance sheet and trial balance figures. The
+ * P&L leaves out year-end closing journals, which would zero the year; pass excludeYearEndClose
+ * to leave them out of the period's postings too, so the movement matches the P&L figure.
+ * With no start date every posting up to the end date is listed, as on the trial balance.
+ */
+export const calculateGeneralLedger = async (
+  accountId: string,
+  from: string | null,
+  to: string,
+  { excludeYearEndClose = false }: { excludeYearEndClose?: boolean } = {}
+): Promise<GeneralLedger> => {
+  const periodPage = (start: number, end: number) => {
+    let query = supabase
+      .from('journal_lines')
+      .select('id, debit_amount, credit_amount, description, journal:journals!inner(id, date, reference, description, source_type, source_id, created_at)')
+      .eq('account_id', accountId)
+      .lte('journal.date', to);
+
+    if (from) query = query.gte('journal.date', from);
+    if (excludeYearEndClose) query = query.neq('journal.source_type', 'year_end_close');
+
+    return query.order('id').range(start, end);
+  };
+
+  const [accountResult, earlier, period] = await Promise.all([
+    supabase
+      .from('chart_of_accounts')
+      .select('id, account_code, account_name, account_type')
+      .eq('id', accountId)
+      .single(),
+    from ? fetchAllRows((start, end) => supabase
+      .from('journal_lines')
+      .select('debit_amount, credit_amount, journal:journals!inner(date)')
+      .eq('account_id', accountId)
+      .lt('journal.date', from)
+      .order('id')
+      .range(start, end)) : [],
+    fetchAllRows(periodPage)
+  ]);
+
+  if (accountResult.error) throw accountResult.error;
+
+  const account = accountResult.data;
+  const sign = isDebitAccount(account.account_type) ? 1 : -1;
+  const movement = (line: { debit_amount: number | null; credit_amount: number | null }) =>
+    sign * (Number(line.debit_amount || 0) - Number(line.credit_amount || 0));
+
+  const earlierLines: { debit_amount: number | null; credit_amount: number | null }[] = earlier;
+  const openingBalance = round(earlierLines.reduce((sum, line) => sum + movement(line), 0));
+
+  const posted: PostedLine[] = [...period].sort((a, b) =>
+    a.journal.date.localeCompare(b.journal.date) || a.journal.created_at.localeCompare(b.journal.created_at));
+
+  const payments = await fetchPayments([...new Set(posted
+    .filter(line => line.journal.source_type === 'payment' && line.journal.source_id)
+    .map(line => line.journal.source_id!))]);
+
+  let balance = openingBalance;
+  const lines = posted.map((line): LedgerLine => {
+    balance = round(balance + movement(line));
+    return {
+      id: line.id,
+      journal_id: line.journal.id,
+      date: line.journal.date,
+      reference: line.journal.reference,
+      description: line.description || line.journal.description || '',
+      source_type: line.journal.source_type,
+      source_id: line.journal.source_id,
+      document_link: documentLink(line.journal, payments),
+      debit: Number(line.debit_amount || 0),
+      credit: Number(line.credit_amount || 0),
+      balance
+    };
+  });
+
+  return {
+    account,
+    from,
+    to,
+    opening_balance: openingBalance,
+    lines,
+    total_debits: round(lines.reduce((sum, line) => sum + line.debit, 0)),
+    total_credits: round(lines.reduce((sum, line) => sum + line.credit, 0)),
+    closing_balance: balance
+  };
+};
+
+/** The ledger as CSV rows: opening balance, each posting, then the closing balance. */
+export const generalLedgerCsvRows = (ledger: GeneralLedger): CsvValue[][] => [
+  ['Date', 'Reference', 'Source', 'Description', 'Debit', 'Credit', 'Balance'],
+  [ledger.from || '', '', '', 'Opening balance', '', '', ledger.opening_balance.toFixed(2)],
+  ...ledger.lines.map(line => [
+    line.date,
+    line.reference,
+    SOURCE_LABELS[line.source_type] || line.source_type,
+    line.description,
+    line.debit ? line.debit.toFixed(2) : '',
+    line.credit ? line.credit.toFixed(2) : '',
+    line.balance.toFixed(2)
+  ]),
+  [ledger.to, '', '', 'Closing balance', ledger.total_debits.toFixed(2), ledger.total_credits.toFixed(2), ledger.closing_balance.toFixed(2)]
+];
@@ -0,0 +1,123 @@
+import { supabase } from '@/integrations/supabase/client';
+import { InvoicePdfData, renderIssuedInvoicePdf } from '../../supabase/functions/_shared/invoice-pdf.ts';
+
+export {
+  renderInvoicePdf,
+  renderIssuedInvoicePdf,
+  type InvoicePdfCompany,
+  type InvoicePdfData,
+  type InvoicePdfLine
+} from '../../supabase/functions/_shared/invoice-pdf.ts';
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Load everything needed to render an invoice: the invoice, its customer and lines with
+ * their VAT rates, the organisation's company settings and (if uploaded) the company logo.
+ */
+export const loadInvoicePdfData = async (invoiceId: string): Promise<InvoicePdfData> => {
+  const [invoiceResult, linesResult, companyResult] = await Promise.all([
+    supabase
+      .from('invoices')
+      .select('id, organisation_id, invoice_number, date, due_date, status, subtotal, vat_amount, total, amount_paid, amount_credited, customer:customers(name, address, email)')
+      .eq('id', invoiceId)
+      .single(),
+    supabase
+      .from('invoice_lines')
+      .select('description, quantity, unit_price, line_total, vat_amount, tax_code:tax_codes(rate)')
+      .eq('invoice_id', invoiceId)
+      .order('created_at'),
+    supabase
+      .from('company_settings')
+      .select('*')
+      .maybeSingle()
+  ]);
+
+  if (invoiceResult.error) throw invoiceResult.error;
+  if (linesResult.error) throw linesResult.error;
+  if (companyResult.error) throw companyResult.error;
+
+  const company = companyResult.data;
+  let logoDataUrl: string | undefined;
+  if (company?.logo_path) {
+    const { data: logo, error } = await supabase.storage.from('company-logos').download(company.logo_path);
+    if (error) {
+      console.error('Error loading company logo:', error);
+    } else {
+      logoDataUrl = await blobToDataUrl(logo);
+    }
+  }
+
+  const { customer, ...invoice } = invoiceResult.data;
+
+  return {
+    company: company || { company_name: '' },
+    logoDataUrl,
+    customer: customer || { name: '' },
+    invoice,
+    lines: (linesResult.data || []).map(line => ({
+      description: line.description,
+      quantity: Number(line.quantity),
+      unit_price: Number(line.unit_price),
+      line_total: Number(line.line_total),
+      vat_amount: Number(line.vat_amount),
+      vat_rate: Number(line.tax_code?.rate ?? 0)
+    }))
+  };
+};
+
+/**
+ * File the copy of an issued invoice in the private invoice-pdfs bucket and record its path. The
+ * copy is written once and never replaced; if a copy is already there it is the one kept.
+ */
+const fileInvoicePdf = async (invoice: InvoicePdfData['invoice'], pdf: Blob) => {
+  const path = `${invoice.organisation_id}/${invoice.id}.pdf`;
+  const { error: uploadError } = await supabase.storage
+    .from('invoice-pdfs')
+    .upload(path, pdf, { contentType: 'application/pdf', upsert: false });
+
+  if (uploadError && (uploadError as { statusCode?: string }).statusCode !== '409') throw uploadError;
+
+  const { error } = await supabase
+    .from('invoices')
+    .update({ pdf_path: path, pdf_generated_at: new Date().toISOString() })
+    .eq('id', invoice.id)
+    .is('pdf_path', null);
+
+  if (error) throw error;
+};
+
+/**
+ * The copy of an issued invoice kept on file. It is rendered as the invoice stood when it was
+ * issued, before any payments or credit notes, filed the first time it is needed (normally when the
+ * invoice is issued) and used for every later download and email. Users who cannot file it get the
+ * same rendering without it being stored.
+ */
+export const loadIssuedInvoicePdf = async (invoiceId: string, canFile: boolean): Promise<Blob> => {
+  const { data: invoice, error } = await supabase
+    .from('invoices')
+    .select('status, pdf_path')
+    .eq('id', invoiceId)
+    .single();
+
+  if (error) throw error;
+  if (invoice.status === 'draft') throw new Error('Draft invoices are filed once they are issued');
+
+  if (invoice.pdf_path) {
+    const { data, error: downloadError } = await supabase.storage.from('invoice-pdfs').download(invoice.pdf_path);
+    if (downloadError) throw downloadError;
+    return data;
+  }
+
+  const pdfData = await loadInvoicePdfData(invoiceId);
+  const pdf = renderIssuedInvoicePdf(pdfData).output('blob');
+
+  if (canFile) await fileInvoicePdf(pdfData.invoice, pdf);
+  return pdf;
+};
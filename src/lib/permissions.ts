@@ -0,0 +1,60 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type Role = Database['public']['Enums']['user_role'];
+
+// Matches the role_permissions table, which RLS enforces; the app only uses it to hide actions
+export type Permission =
+  | 'sales.manage'
+  | 'purchases.manage'
+  | 'bills.approve'
+  | 'banking.manage'
+  | 'journals.manage'
+  | 'accounts.manage'
+  | 'vat.manage'
+  | 'settings.manage'
+  | 'lock_dates.override'
+  | 'members.manage';
+
+export const ROLES: Role[] = ['owner', 'accountant', 'bookkeeper', 'approver', 'read_only'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  owner: 'Owner',
+  accountant: 'Accountant',
+  bookkeeper: 'Bookkeeper',
+  approver: 'Approver',
+  read_only: 'Read-only',
+};
+
+export const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  owner: 'Everything, including the team and lock date overrides',
+  accountant: 'All of the books and settings, but not the team',
+  bookkeeper: 'Day-to-day sales, purchases and banking',
+  approver: 'Approves bills and reviews the books without changing them',
+  read_only: 'Views the books and reports',
+};
+
+export const PERMISSIONS: Permission[] = [
+  'sales.manage',
+  'purchases.manage',
+  'bills.approve',
+  'banking.manage',
+  'journals.manage',
+  'accounts.manage',
+  'vat.manage',
+  'settings.manage',
+  'lock_dates.override',
+  'members.manage',
+];
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  'sales.manage': 'Customers, invoices and credit notes',
+  'purchases.manage': 'Suppliers, bills and supplier credits',
+  'bills.approve': 'Approve bills',
+  'banking.manage': 'Bank accounts, transactions and reconciliation',
+  'journals.manage': 'Journals and year-end close',
+  'accounts.manage': 'Chart of accounts',
+  'vat.manage': 'VAT returns and HMRC',
+  'settings.manage': 'Company settings and lock dates',
+  'lock_dates.override': 'Override lock dates',
+  'members.manage': 'Team members and invitations',
+};
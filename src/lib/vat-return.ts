@@ -0,0 +1,94 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface VatReturnBoxes {
+  box1: number; // VAT due on sales
+  box2: number; // VAT due on acquisitions
+  box3: number; // Total VAT due
+  box4: number; // VAT reclaimed on purchases
+  box5: number; // Net VAT due
+  box6: number; // Total value of sales excluding VAT
+  box7: number; // Total value of purchases excluding VAT
+  box8: number; // Total value of supplies to EU
+  box9: number; // Total value of acquisitions from EU
+}
+
+interface VatDocument {
+  subtotal: number;
+  vat_amount: number;
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+interface VatBankAllocation {
+  amount: number;
+  vat_amount: number;
+  bank_transaction: { amount: number };
+}
+
+// Bank allocations include VAT, so the net is what is left once the VAT is taken off
+const asDocument = (allocation: VatBankAllocation): VatDocument => ({
+  subtotal: Number(allocation.amount) - Number(allocation.vat_amount),
+  vat_amount: Number(allocation.vat_amount)
+});
+
+const sum = (documents: VatDocument[] | null, field: keyof VatDocument) =>
+  (documents || []).reduce((total, document) => total + Number(document[field]), 0);
+
+/**
+ * Calculate the nine VAT return boxes for a period from issued documents dated within it.
+ * Credit notes count against the period they are dated in, so they reduce boxes 1 and 6
+ * (customer credit notes) and boxes 4 and 7 (supplier credit notes) and can take a box negative.
+ * Reconciled bank transactions split to accounts with a tax code count as sales (money in) or purchases (money out).
+ */
+export const calculateVatReturn = async (from: string, to: string): Promise<VatReturnBoxes> => {
+  const [invoices, creditNotes, bills, supplierCreditNotes, bankAllocations] = await Promise.all([
+    supabase
+      .from('invoices')
+      .select('subtotal, vat_amount')
+      .in('status', ['sent', 'overdue', 'paid'])
+      .gte('date', from)
+      .lte('date', to),
+    supabase
+      .from('credit_notes')
+      .select('subtotal, vat_amount')
+      .eq('status', 'issued')
+      .gte('date', from)
+      .lte('date', to),
+    supabase
+      .from('bills')
+      .select('subtotal, vat_amount')
+      .in('status', ['received', 'overdue', 'paid'])
+      .gte('date', from)
+      .lte('date', to),
+    supabase
+      .from('supplier_credit_notes')
+      .select('subtotal, vat_amount')
+      .eq('status', 'received')
+      .gte('date', from)
+      .lte('date', to),
+    supabase
+      .from('bank_transaction_allocations')
+      .select('amount, vat_amount, bank_transaction:bank_transactions!inner(amount)')
+      .not('tax_code_id', 'is', null)
+      .eq('bank_transaction.reconciled', true)
+      .gte('bank_transaction.date', from)
+      .lte('bank_transaction.date', to)
+  ]);
+
+  const error = invoices.error || creditNotes.error || bills.error || supplierCreditNotes.error || bankAllocations.error;
+  if (error) throw error;
+
+  const allocations: VatBankAllocation[] = bankAllocations.data || [];
+  const bankSales = allocations.filter(a => Number(a.bank_transaction.amount) > 0).map(asDocument);
+  const bankPurchases = allocations.filter(a => Number(a.bank_transaction.amount) < 0).map(asDocument);
+
+  const box1 = round(sum(invoices.data, 'vat_amount') + sum(bankSales, 'vat_amount') - sum(creditNotes.data, 'vat_amount'));
+  const box2 = 0;
+  const box3 = round(box1 + box2);
+  const box4 = round(sum(bills.data, 'vat_amount') + sum(bankPurchases, 'vat_amount') - sum(supplierCreditNotes.data, 'vat_amount'));
+  const box5 = round(box3 - box4);
+  const box6 = round(sum(invoices.data, 'subtotal') + sum(bankSales, 'subtotal') - sum(creditNotes.data, 'subtotal'));
+  const box7 = round(sum(bills.data, 'subtotal') + sum(bankPurchases, 'subtotal') - sum(supplierCreditNotes.data, 'subtotal'));
+
+  return { box1, box2, box3, box4, box5, box6, box7, box8: 0, box9: 0 };
+};
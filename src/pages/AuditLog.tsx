@@ -0,0 +1,325 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Eye, History, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+type AuditData = Record<string, unknown>;
+
+interface AuditEntry {
+  id: string;
+  actor_email?: string | null;
+  table_name: string;
+  record_id?: string | null;
+  operation: 'INSERT' | 'UPDATE' | 'DELETE';
+  old_data: AuditData | null;
+  new_data: AuditData | null;
+  created_at: string;
+}
+
+const TABLE_LABELS: Record<string, string> = {
+  customers: 'Customer',
+  suppliers: 'Supplier',
+  chart_of_accounts: 'Account',
+  company_settings: 'Company Settings',
+  invoice_number_sequences: 'Invoice Numbering',
+  invoices: 'Invoice',
+  invoice_lines: 'Invoice Line',
+  bills: 'Bill',
+  bill_lines: 'Bill Line',
+  credit_notes: 'Credit Note',
+  credit_note_lines: 'Credit Note Line',
+  supplier_credit_notes: 'Supplier Credit',
+  supplier_credit_note_lines: 'Supplier Credit Line',
+  payments: 'Payment',
+  journals: 'Journal',
+  journal_lines: 'Journal Line',
+  bank_accounts: 'Bank Account',
+  bank_transactions: 'Bank Transaction',
+  vat_returns: 'VAT Return',
+};
+
+const OPERATION_LABELS: Record<string, string> = {
+  INSERT: 'Created',
+  UPDATE: 'Edited',
+  DELETE: 'Deleted',
+};
+
+const OPERATION_COLORS: Record<string, string> = {
+  INSERT: 'bg-green-100 text-green-800',
+  UPDATE: 'bg-blue-100 text-blue-800',
+  DELETE: 'bg-red-100 text-red-800',
+};
+
+// The first of these a record has is what the log shows to identify it
+const SUMMARY_FIELDS = ['invoice_number', 'bill_number', 'credit_note_number', 'reference', 'account_name', 'name', 'company_name', 'period_key', 'description'];
+
+const PAGE_SIZE = 100;
+
+const summarise = (entry: AuditEntry) => {
+  const data = entry.new_data || entry.old_data || {};
+  const field = SUMMARY_FIELDS.find(key => data[key] !== null && data[key] !== undefined && data[key] !== '');
+  return field ? String(data[field]) : '-';
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// Every field for a created or deleted record; only the fields that changed for an edit
+const diffFields = (entry: AuditEntry) => {
+  const before = entry.old_data || {};
+  const after = entry.new_data || {};
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+
+  if (entry.operation !== 'UPDATE') return keys;
+  return keys.filter(key => key !== 'updated_at' && JSON.stringify(before[key]) !== JSON.stringify(after[key]));
+};
+
+const AuditLog = () => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [tableFilter, setTableFilter] = useState('all');
+  const [operationFilter, setOperationFilter] = useState('all');
+  const [recordFilter, setRecordFilter] = useState('');
+  const [dateRange, setDateRange] = useState({ from: '', to: '' });
+  const [viewingEntry, setViewingEntry] = useState<AuditEntry | null>(null);
+  const { toast } = useToast();
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      let query = supabase
+        .from('audit_log')
+        .select('id, actor_email, table_name, record_id, operation, old_data, new_data, created_at')
+        .order('created_at', { ascending: false })
+        .range(0, limit - 1);
+
+      if (tableFilter !== 'all') query = query.eq('table_name', tableFilter);
+      if (operationFilter !== 'all') query = query.eq('operation', operationFilter);
+      if (recordFilter) query = query.eq('record_id', recordFilter);
+      if (dateRange.from) query = query.gte('created_at', new Date(`${dateRange.from}T00:00:00`).toISOString());
+      if (dateRange.to) query = query.lte('created_at', new Date(`${dateRange.to}T23:59:59.999`).toISOString());
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      setEntries((data || []) as AuditEntry[]);
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch the audit log. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [limit, tableFilter, operationFilter, recordFilter, dateRange, toast]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const showRecordHistory = (entry: AuditEntry) => {
+    setRecordFilter(entry.record_id || '');
+    setTableFilter(entry.table_name);
+    setOperationFilter('all');
+    setViewingEntry(null);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-muted-foreground">Loading audit log...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Audit Log</h1>
+        <p className="text-muted-foreground">Every change to your financial records, who made it and what it changed</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col lg:flex-row lg:items-end justify-between gap-4">
+            <CardTitle>Changes</CardTitle>
+            <div className="flex flex-wrap items-end gap-2">
+              <div>
+                <Label htmlFor="audit-from" className="text-xs">From</Label>
+                <Input
+                  id="audit-from"
+                  type="date"
+                  value={dateRange.from}
+                  onChange={(e) => setDateRange(prev => ({ ...prev, from: e.target.value }))}
+                  className="w-36"
+                />
+              </div>
+              <div>
+                <Label htmlFor="audit-to" className="text-xs">To</Label>
+                <Input
+                  id="audit-to"
+                  type="date"
+                  value={dateRange.to}
+                  onChange={(e) => setDateRange(prev => ({ ...prev, to: e.target.value }))}
+                  className="w-36"
+                />
+              </div>
+              <Select value={tableFilter} onValueChange={setTableFilter}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All records</SelectItem>
+                  {Object.entries(TABLE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={operationFilter} onValueChange={setOperationFilter}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All changes</SelectItem>
+                  {Object.entries(OPERATION_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {recordFilter && (
+                <Button variant="outline" onClick={() => setRecordFilter('')}>
+                  <X className="w-4 h-4 mr-2" />
+                  Clear record filter
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Who</TableHead>
+                <TableHead>Record</TableHead>
+                <TableHead>Change</TableHead>
+                <TableHead>Fields</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => {
+                const fields = diffFields(entry);
+                return (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap">{new Date(entry.created_at).toLocaleString()}</TableCell>
+                    <TableCell>{entry.actor_email || 'System'}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{TABLE_LABELS[entry.table_name] || entry.table_name}</div>
+                      <div className="text-sm text-muted-foreground">{summarise(entry)}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={OPERATION_COLORS[entry.operation]}>{OPERATION_LABELS[entry.operation]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground max-w-xs truncate">
+                      {entry.operation === 'UPDATE' ? fields.join(', ') : `${fields.length} fields`}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="icon" title="View changes" onClick={() => setViewingEntry(entry)}>
+                          <Eye className="w-4 h-4" />
+                        </Button>
+                        {entry.record_id && (
+                          <Button variant="outline" size="icon" title="Record history" onClick={() => showRecordHistory(entry)}>
+                            <History className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+
+          {entries.length === 0 && (
+            <div className="text-center py-8 text-muted-foreground">
+              No changes found.
+            </div>
+          )}
+
+          {entries.length === limit && (
+            <div className="flex justify-center pt-4">
+              <Button variant="outline" onClick={() => setLimit(prev => prev + PAGE_SIZE)}>
+                Load more
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Change Details Dialog */}
+      <Dialog open={!!viewingEntry} onOpenChange={(open) => !open && setViewingEntry(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {viewingEntry && `${TABLE_LABELS[viewingEntry.table_name] || viewingEntry.table_name} ${OPERATION_LABELS[viewingEntry.operation].toLowerCase()}`}
+            </DialogTitle>
+            <DialogDescription>
+              {viewingEntry && `${new Date(viewingEntry.created_at).toLocaleString()} by ${viewingEntry.actor_email || 'System'}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {viewingEntry && (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Field</TableHead>
+                    <TableHead>Before</TableHead>
+                    <TableHead>After</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {diffFields(viewingEntry).map((field) => (
+                    <TableRow key={field}>
+                      <TableCell className="font-medium">{field}</TableCell>
+                      <TableCell className="break-all text-red-700">{viewingEntry.old_data ? formatValue(viewingEntry.old_data[field]) : ''}</TableCell>
+                      <TableCell className="break-all text-green-700">{viewingEntry.new_data ? formatValue(viewingEntry.new_data[field]) : ''}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {viewingEntry.record_id && (
+                <div className="flex justify-end">
+                  <Button variant="outline" onClick={() => showRecordHistory(viewingEntry)}>
+                    <History className="w-4 h-4 mr-2" />
+                    Full history of this record
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AuditLog;
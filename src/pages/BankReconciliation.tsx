@@ -0,0 +1,463 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, AlertCircle, CheckCircle, Lock, Undo2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+
+interface BankAccount {
+  id: string;
+  name: string;
+  currency: string;
+  opening_balance: number;
+  opening_balance_date: string;
+}
+
+interface Reconciliation {
+  id: string;
+  statement_date: string;
+  statement_balance: number;
+  created_at: string;
+}
+
+interface BankTransaction {
+  id: string;
+  date: string;
+  description: string;
+  reference?: string;
+  amount: number;
+  reconciled: boolean;
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const BankReconciliation = () => {
+  const { can } = useAuth();
+  const canEdit = can('banking.manage');
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
+  const [reconciliations, setReconciliations] = useState<Reconciliation[]>([]);
+  const [transactions, setTransactions] = useState<BankTransaction[]>([]);
+  const [statementDate, setStatementDate] = useState(new Date().toISOString().split('T')[0]);
+  const [statementBalance, setStatementBalance] = useState('');
+  const [ledgerBalance, setLedgerBalance] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCompleting, setIsCompleting] = useState(false);
+
+  const bankAccountId = searchParams.get('account') || bankAccounts[0]?.id || '';
+  const bankAccount = bankAccounts.find(a => a.id === bankAccountId);
+  const lastReconciliation = reconciliations[0];
+
+  const fetchBankAccounts = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('bank_accounts')
+      .select('id, name, currency, opening_balance, opening_balance_date')
+      .eq('active', true)
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching bank accounts:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load bank accounts",
+        variant: "destructive"
+      });
+    }
+
+    setBankAccounts(data || []);
+    setIsLoading(false);
+  }, [toast]);
+
+  // Reconciliations so far, and the transactions since the last one
+  const fetchAccountData = useCallback(async () => {
+    if (!bankAccountId) return;
+
+    try {
+      const { data: history, error: historyError } = await supabase
+        .from('bank_reconciliations')
+        .select('id, statement_date, statement_balance, created_at')
+        .eq('bank_account_id', bankAccountId)
+        .order('statement_date', { ascending: false });
+
+      if (historyError) throw historyError;
+
+      let query = supabase
+        .from('bank_transactions')
+        .select('id, date, description, reference, amount, reconciled')
+        .eq('bank_account_id', bankAccountId)
+        .order('date');
+
+      if (history && history.length > 0) {
+        query = query.gt('date', history[0].statement_date);
+      }
+
+      const { data: rows, error: rowsError } = await query;
+
+      if (rowsError) throw rowsError;
+
+      setReconciliations(history || []);
+      setTransactions(rows || []);
+    } catch (error) {
+      console.error('Error fetching reconciliation data:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to load reconciliation data",
+        variant: "destructive"
+      });
+    }
+  }, [bankAccountId, toast]);
+
+  const fetchLedgerBalance = useCallback(async () => {
+    setLedgerBalance(null);
+    if (!bankAccountId || !statementDate) return;
+
+    const { data, error } = await supabase.rpc('bank_ledger_balance', {
+      _bank_account_id: bankAccountId,
+      _as_of: statementDate
+    });
+
+    if (error) {
+      console.error('Error fetching ledger balance:', error);
+      return;
+    }
+
+    setLedgerBalance(Number(data));
+  }, [bankAccountId, statementDate]);
+
+  useEffect(() => {
+    fetchBankAccounts();
+  }, [fetchBankAccounts]);
+
+  useEffect(() => {
+    fetchAccountData();
+  }, [fetchAccountData]);
+
+  useEffect(() => {
+    fetchLedgerBalance();
+  }, [fetchLedgerBalance]);
+
+  const completeReconciliation = async () => {
+    setIsCompleting(true);
+    try {
+      const { error } = await supabase.rpc('complete_bank_reconciliation', {
+        _bank_account_id: bankAccountId,
+        _statement_date: statementDate,
+        _statement_balance: Number(statementBalance)
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${bankAccount?.name} reconciled to ${new Date(statementDate).toLocaleDateString()}. Transactions up to that date are now locked.`
+      });
+
+      setStatementBalance('');
+      fetchAccountData();
+    } catch (error) {
+      console.error('Error completing reconciliation:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to complete reconciliation",
+        variant: "destructive"
+      });
+    } finally {
+      setIsCompleting(false);
+    }
+  };
+
+  const undoReconciliation = async (reconciliation: Reconciliation) => {
+    if (!confirm(`Undo the reconciliation to ${new Date(reconciliation.statement_date).toLocaleDateString()}? Transactions in that period can be changed again.`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('bank_reconciliations')
+        .delete()
+        .eq('id', reconciliation.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Reconciliation undone"
+      });
+
+      fetchAccountData();
+    } catch (error) {
+      console.error('Error undoing reconciliation:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to undo reconciliation",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const formatMoney = (amount: number) =>
+    new Intl.NumberFormat('en-GB', { style: 'currency', currency: bankAccount?.currency || 'GBP' }).format(amount);
+
+  const openingBalance = Number(lastReconciliation?.statement_balance ?? bankAccount?.opening_balance ?? 0);
+  const periodTransactions = transactions.filter(t => t.date <= statementDate);
+  const unreconciled = periodTransactions.filter(t => !t.reconciled);
+  const moneyIn = periodTransactions.filter(t => t.amount > 0).reduce((sum, t) => sum + Number(t.amount), 0);
+  const moneyOut = periodTransactions.filter(t => t.amount < 0).reduce((sum, t) => sum + Number(t.amount), 0);
+  const calculatedBalance = round(openingBalance + moneyIn + moneyOut);
+  const enteredBalance = statementBalance === '' ? null : round(Number(statementBalance));
+  const statementDifference = enteredBalance === null ? null : round(enteredBalance - calculatedBalance);
+  const ledgerDifference = enteredBalance === null || ledgerBalance === null ? null : round(enteredBalance - ledgerBalance);
+  const dateTooEarly = !!lastReconciliation && statementDate <= lastReconciliation.statement_date;
+
+  const canComplete = !!bankAccount &&
+    enteredBalance !== null &&
+    !dateTooEarly &&
+    unreconciled.length === 0 &&
+    statementDifference === 0 &&
+    ledgerDifference === 0;
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-muted-foreground">Loading bank accounts...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <Link to="/banking" className="text-sm text-muted-foreground inline-flex items-center hover:underline">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Banking
+        </Link>
+        <h1 className="text-3xl font-bold">Statement Reconciliation</h1>
+        <p className="text-muted-foreground">
+          Agree a bank account to its statement. Completed reconciliations lock the account up to the statement date.
+        </p>
+      </div>
+
+      {bankAccounts.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            No bank accounts yet. Add one on the Banking page first.
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Statement</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>Bank Account</Label>
+                  <Select value={bankAccountId} onValueChange={(value) => setSearchParams({ account: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {bankAccounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="statement-date">Statement Date</Label>
+                  <Input
+                    id="statement-date"
+                    type="date"
+                    value={statementDate}
+                    onChange={(e) => setStatementDate(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="statement-balance">Closing Balance on Statement</Label>
+                  <Input
+                    id="statement-balance"
+                    type="number"
+                    step="0.01"
+                    value={statementBalance}
+                    onChange={(e) => setStatementBalance(e.target.value)}
+                    placeholder="0.00"
+                  />
+                </div>
+              </div>
+
+              {dateTooEarly && (
+                <Alert>
+                  <Lock className="h-4 w-4" />
+                  <AlertDescription>
+                    This account is already reconciled to {new Date(lastReconciliation.statement_date).toLocaleDateString()}.
+                    Choose a later statement date.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {unreconciled.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    {unreconciled.length} transactions up to the statement date are not reconciled yet.{' '}
+                    <Link to="/banking" className="underline">Reconcile them on the Banking page</Link> first.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <Table>
+                <TableBody>
+                  <TableRow>
+                    <TableCell>
+                      {lastReconciliation
+                        ? `Balance at last reconciliation (${new Date(lastReconciliation.statement_date).toLocaleDateString()})`
+                        : `Opening balance (${bankAccount ? new Date(bankAccount.opening_balance_date).toLocaleDateString() : '-'})`}
+                    </TableCell>
+                    <TableCell className="text-right">{formatMoney(openingBalance)}</TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell>Money in</TableCell>
+                    <TableCell className="text-right text-green-600">{formatMoney(moneyIn)}</TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell>Money out</TableCell>
+                    <TableCell className="text-right text-red-600">{formatMoney(moneyOut)}</TableCell>
+                  </TableRow>
+                  <TableRow className="font-medium">
+                    <TableCell>Calculated closing balance</TableCell>
+                    <TableCell className="text-right">{formatMoney(calculatedBalance)}</TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell>Difference to statement</TableCell>
+                    <TableCell className={`text-right ${statementDifference ? 'text-red-600' : ''}`}>
+                      {statementDifference === null ? '-' : formatMoney(statementDifference)}
+                    </TableCell>
+                  </TableRow>
+                  <TableRow className="font-medium">
+                    <TableCell>Ledger balance at statement date</TableCell>
+                    <TableCell className="text-right">{ledgerBalance === null ? '-' : formatMoney(ledgerBalance)}</TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell>Difference to ledger</TableCell>
+                    <TableCell className={`text-right ${ledgerDifference ? 'text-red-600' : ''}`}>
+                      {ledgerDifference === null ? '-' : formatMoney(ledgerDifference)}
+                    </TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+
+              {canEdit && (
+                <div className="flex justify-end">
+                  <Button onClick={completeReconciliation} disabled={!canComplete || isCompleting}>
+                    <CheckCircle className="w-4 h-4 mr-2" />
+                    {isCompleting ? 'Completing...' : 'Complete Reconciliation'}
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Transactions in Period ({periodTransactions.length})</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead>Reference</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {periodTransactions.map((transaction) => (
+                    <TableRow key={transaction.id}>
+                      <TableCell>{new Date(transaction.date).toLocaleDateString()}</TableCell>
+                      <TableCell>{transaction.description}</TableCell>
+                      <TableCell>{transaction.reference || '-'}</TableCell>
+                      <TableCell className={`text-right ${transaction.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatMoney(Number(transaction.amount))}
+                      </TableCell>
+                      <TableCell>
+                        {transaction.reconciled ? (
+                          <Badge className="bg-green-100 text-green-800">Reconciled</Badge>
+                        ) : (
+                          <Badge className="bg-yellow-100 text-yellow-800">Unreconciled</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {periodTransactions.length === 0 && (
+                <div className="text-center py-8 text-muted-foreground">
+                  No transactions since the last reconciliation.
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Reconciliation History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Statement Date</TableHead>
+                    <TableHead className="text-right">Statement Balance</TableHead>
+                    <TableHead>Completed</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {reconciliations.map((reconciliation, index) => (
+                    <TableRow key={reconciliation.id}>
+                      <TableCell>{new Date(reconciliation.statement_date).toLocaleDateString()}</TableCell>
+                      <TableCell className="text-right">{formatMoney(Number(reconciliation.statement_balance))}</TableCell>
+                      <TableCell>{new Date(reconciliation.created_at).toLocaleString()}</TableCell>
+                      <TableCell>
+                        {/* Only the latest can be undone, reopening the periods in order */}
+                        {canEdit && index === 0 && (
+                          <Button variant="outline" size="sm" onClick={() => undoReconciliation(reconciliation)}>
+                            <Undo2 className="w-4 h-4 mr-2" />
+                            Undo
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {reconciliations.length === 0 && (
+                <div className="text-center py-8 text-muted-foreground">
+                  This account has not been reconciled to a statement yet.
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BankReconciliation;
@@ -0,0 +1,582 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, Plus, Edit, Trash2, Wand2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+
+interface BankRule {
+  id: string;
+  name: string;
+  priority: number;
+  active: boolean;
+  direction: string;
+  match_type: string;
+  pattern: string;
+  min_amount?: number;
+  max_amount?: number;
+  account_id: string;
+  tax_code_id?: string;
+  customer_id?: string;
+  supplier_id?: string;
+}
+
+interface Account {
+  id: string;
+  account_code?: string;
+  account_name: string;
+}
+
+interface TaxCode {
+  id: string;
+  name: string;
+  rate: number;
+}
+
+interface Contact {
+  id: string;
+  name: string;
+}
+
+// Radix selects cannot hold an empty value, so "none" uses a sentinel
+const NONE = 'none';
+
+const DIRECTIONS = [
+  { value: 'any', label: 'Money in or out' },
+  { value: 'in', label: 'Money in' },
+  { value: 'out', label: 'Money out' }
+];
+
+const emptyForm = {
+  name: '',
+  priority: 100,
+  active: true,
+  direction: 'any',
+  match_type: 'contains',
+  pattern: '',
+  min_amount: '',
+  max_amount: '',
+  account_id: '',
+  tax_code_id: NONE,
+  // Customers and suppliers share one select as "customer:<id>" or "supplier:<id>"
+  contact: NONE
+};
+
+const BankRules = () => {
+  const { can } = useAuth();
+  const canEdit = can('banking.manage');
+  const { toast } = useToast();
+  const [rules, setRules] = useState<BankRule[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [taxCodes, setTaxCodes] = useState<TaxCode[]>([]);
+  const [customers, setCustomers] = useState<Contact[]>([]);
+  const [suppliers, setSuppliers] = useState<Contact[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [editingRule, setEditingRule] = useState<BankRule | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const [rulesResult, accountsResult, taxCodesResult, customersResult, suppliersResult] = await Promise.all([
+        supabase.from('bank_rules').select('*').order('priority').order('created_at'),
+        supabase
+          .from('chart_of_accounts')
+          .select('id, account_code, account_name')
+          .order('account_code'),
+        supabase.from('tax_codes').select('*').order('name'),
+        supabase.from('customers').select('id, name').order('name'),
+        supabase.from('suppliers').select('id, name').order('name')
+      ]);
+
+      if (rulesResult.error) throw rulesResult.error;
+      if (accountsResult.error) throw accountsResult.error;
+      if (taxCodesResult.error) throw taxCodesResult.error;
+      if (customersResult.error) throw customersResult.error;
+      if (suppliersResult.error) throw suppliersResult.error;
+
+      setRules(rulesResult.data || []);
+      setAccounts(accountsResult.data || []);
+      setTaxCodes(taxCodesResult.data || []);
+      setCustomers(customersResult.data || []);
+      setSuppliers(suppliersResult.data || []);
+    } catch (error) {
+      console.error('Error fetching bank rules:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load bank rules",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const handleSubmit = async () => {
+    const [contactType, contactId] = formData.contact.split(':');
+    const payload = {
+      name: formData.name.trim(),
+      priority: formData.priority,
+      active: formData.active,
+      direction: formData.direction,
+      match_type: formData.match_type,
+      pattern: formData.pattern.trim(),
+      min_amount: formData.min_amount === '' ? null : parseFloat(formData.min_amount),
+      max_amount: formData.max_amount === '' ? null : parseFloat(formData.max_amount),
+      account_id: formData.account_id,
+      tax_code_id: formData.tax_code_id === NONE ? null : formData.tax_code_id,
+      customer_id: contactType === 'customer' ? contactId : null,
+      supplier_id: contactType === 'supplier' ? contactId : null
+    };
+
+    try {
+      if (editingRule) {
+        const { error } = await supabase
+          .from('bank_rules')
+          .update(payload)
+          .eq('id', editingRule.id);
+
+        if (error) throw error;
+
+        toast({
+          title: "Success",
+          description: "Bank rule updated successfully"
+        });
+      } else {
+        const { error } = await supabase
+          .from('bank_rules')
+          .insert([payload]);
+
+        if (error) throw error;
+
+        toast({
+          title: "Success",
+          description: "Bank rule created successfully"
+        });
+      }
+
+      setIsDialogOpen(false);
+      setEditingRule(null);
+      setFormData(emptyForm);
+      fetchRules();
+    } catch (error) {
+      console.error('Error saving bank rule:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to save bank rule",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleEdit = (rule: BankRule) => {
+    setEditingRule(rule);
+    setFormData({
+      name: rule.name,
+      priority: rule.priority,
+      active: rule.active,
+      direction: rule.direction,
+      match_type: rule.match_type,
+      pattern: rule.pattern,
+      min_amount: rule.min_amount != null ? String(rule.min_amount) : '',
+      max_amount: rule.max_amount != null ? String(rule.max_amount) : '',
+      account_id: rule.account_id,
+      tax_code_id: rule.tax_code_id || NONE,
+      contact: rule.customer_id
+        ? `customer:${rule.customer_id}`
+        : rule.supplier_id ? `supplier:${rule.supplier_id}` : NONE
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = async (rule: BankRule) => {
+    if (!confirm(`Delete bank rule "${rule.name}"? Transactions it already coded keep their coding.`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('bank_rules')
+        .delete()
+        .eq('id', rule.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Bank rule deleted"
+      });
+
+      fetchRules();
+    } catch (error) {
+      console.error('Error deleting bank rule:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to delete bank rule",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // New imports are coded as they arrive; this catches up transactions imported before a rule existed
+  const applyRules = async () => {
+    setIsApplying(true);
+    try {
+      const { data, error } = await supabase.rpc('apply_bank_rules');
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: data
+          ? `${data} unreconciled ${data === 1 ? 'transaction' : 'transactions'} coded`
+          : "No uncoded transactions matched a rule"
+      });
+    } catch (error) {
+      console.error('Error applying bank rules:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to apply bank rules",
+        variant: "destructive"
+      });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const openNewDialog = () => {
+    setEditingRule(null);
+    setFormData(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const accountLabel = (id: string) => {
+    const account = accounts.find(a => a.id === id);
+    return account ? `${account.account_code} ${account.account_name}` : 'Unknown account';
+  };
+
+  const contactLabel = (rule: BankRule) =>
+    customers.find(c => c.id === rule.customer_id)?.name ||
+    suppliers.find(s => s.id === rule.supplier_id)?.name ||
+    null;
+
+  const describeMatch = (rule: BankRule) => {
+    const parts = [
+      rule.match_type === 'regex' ? `matches /${rule.pattern}/` : `contains "${rule.pattern}"`
+    ];
+    if (rule.direction !== 'any') parts.push(rule.direction === 'in' ? 'money in' : 'money out');
+    if (rule.min_amount != null && rule.max_amount != null) {
+      parts.push(`£${Number(rule.min_amount).toFixed(2)} to £${Number(rule.max_amount).toFixed(2)}`);
+    } else if (rule.min_amount != null) {
+      parts.push(`at least £${Number(rule.min_amount).toFixed(2)}`);
+    } else if (rule.max_amount != null) {
+      parts.push(`up to £${Number(rule.max_amount).toFixed(2)}`);
+    }
+    return parts.join(', ');
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-muted rounded w-1/4"></div>
+          <div className="h-64 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <Link to="/banking" className="text-sm text-muted-foreground inline-flex items-center hover:underline">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Banking
+          </Link>
+          <h1 className="text-3xl font-bold">Bank Rules</h1>
+          <p className="text-muted-foreground">
+            Code imported transactions automatically. Rules are tried in priority order and the first match wins.
+          </p>
+        </div>
+
+        {canEdit && (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={applyRules} disabled={isApplying}>
+              <Wand2 className="w-4 h-4 mr-2" />
+              Apply to Unreconciled
+            </Button>
+            <Button onClick={openNewDialog}>
+              <Plus className="w-4 h-4 mr-2" />
+              New Rule
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rules</CardTitle>
+          <CardDescription>
+            Coded transactions are posted to the ledger when you confirm them on the Banking page
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Priority</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>When the description</TableHead>
+                <TableHead>Account</TableHead>
+                <TableHead>Tax Code</TableHead>
+                <TableHead>Contact</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule) => (
+                <TableRow key={rule.id}>
+                  <TableCell>{rule.priority}</TableCell>
+                  <TableCell className="font-medium">{rule.name}</TableCell>
+                  <TableCell className="text-sm">{describeMatch(rule)}</TableCell>
+                  <TableCell>{accountLabel(rule.account_id)}</TableCell>
+                  <TableCell>{taxCodes.find(tc => tc.id === rule.tax_code_id)?.name || '-'}</TableCell>
+                  <TableCell>{contactLabel(rule) || '-'}</TableCell>
+                  <TableCell>
+                    <Badge variant={rule.active ? 'default' : 'outline'}>{rule.active ? 'active' : 'off'}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    {canEdit && (
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="icon" title="Edit rule" onClick={() => handleEdit(rule)}>
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button variant="outline" size="icon" title="Delete rule" onClick={() => handleDelete(rule)}>
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {rules.length === 0 && (
+            <div className="text-center py-8 text-muted-foreground">
+              No bank rules yet. Add one for payments that come up every month, like rent or card fees.
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingRule ? 'Edit Bank Rule' : 'New Bank Rule'}</DialogTitle>
+            <DialogDescription>
+              Matching is case-insensitive. Amount limits apply to the size of the transaction either way.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-name">Name *</Label>
+              <Input
+                id="rule-name"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. Office rent"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rule-priority">Priority</Label>
+              <Input
+                id="rule-priority"
+                type="number"
+                step="1"
+                value={formData.priority}
+                onChange={(e) => setFormData(prev => ({ ...prev, priority: parseInt(e.target.value) || 0 }))}
+              />
+              <p className="text-xs text-muted-foreground">Lower numbers are tried first</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Description</Label>
+              <Select
+                value={formData.match_type}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, match_type: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="contains">Contains</SelectItem>
+                  <SelectItem value="regex">Matches regular expression</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rule-pattern">{formData.match_type === 'regex' ? 'Pattern *' : 'Text *'}</Label>
+              <Input
+                id="rule-pattern"
+                value={formData.pattern}
+                onChange={(e) => setFormData(prev => ({ ...prev, pattern: e.target.value }))}
+                placeholder={formData.match_type === 'regex' ? '^(stripe|paypal)' : 'ACME PROPERTIES'}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Direction</Label>
+              <Select
+                value={formData.direction}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, direction: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DIRECTIONS.map((direction) => (
+                    <SelectItem key={direction.value} value={direction.value}>
+                      {direction.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="rule-min">Min Amount</Label>
+                <Input
+                  id="rule-min"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.min_amount}
+                  onChange={(e) => setFormData(prev => ({ ...prev, min_amount: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-max">Max Amount</Label>
+                <Input
+                  id="rule-max"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.max_amount}
+                  onChange={(e) => setFormData(prev => ({ ...prev, max_amount: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Account *</Label>
+              <Select
+                value={formData.account_id}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, account_id: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.account_code} {account.account_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Tax Code</Label>
+              <Select
+                value={formData.tax_code_id}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, tax_code_id: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No VAT</SelectItem>
+                  {taxCodes.map((taxCode) => (
+                    <SelectItem key={taxCode.id} value={taxCode.id}>
+                      {taxCode.name} ({taxCode.rate}%)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Contact</Label>
+              <Select
+                value={formData.contact}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, contact: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No contact</SelectItem>
+                  {customers.map((customer) => (
+                    <SelectItem key={customer.id} value={`customer:${customer.id}`}>
+                      {customer.name} (customer)
+                    </SelectItem>
+                  ))}
+                  {suppliers.map((supplier) => (
+                    <SelectItem key={supplier.id} value={`supplier:${supplier.id}`}>
+                      {supplier.name} (supplier)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center gap-2 pt-6">
+              <Switch
+                id="rule-active"
+                checked={formData.active}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, active: checked }))}
+              />
+              <Label htmlFor="rule-active">Active</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={!formData.name.trim() || !formData.pattern.trim() || !formData.account_id}
+            >
+              {editingRule ? 'Update Rule' : 'Create Rule'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default BankRules;
@@ -1,19 +1,29 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Upload, FileText, CheckCircle, XCircle, Clock, AlertCircle } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Upload, FileText, CheckCircle, XCircle, Clock, AlertCircle, Undo2, Wand2, Plus, Edit, Scale, Paperclip } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { linkedDocumentElementId, useLinkedDocument } from '@/hooks/useLinkedDocument';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import BankImportDialog from '@/components/BankImportDialog';
+import ReconcileDialog from '@/components/ReconcileDialog';
+import BankAccountDialog, { BankAccount } from '@/components/BankAccountDialog';
+import BankFeeds from '@/components/BankFeeds';
+import AttachmentsDialog from '@/components/AttachmentsDialog';
+import { AttachmentRecord } from '@/lib/attachments';
+import { suggestMatches, OpenDocument } from '@/lib/bank-matching';
 
 interface BankTransaction {
   id: string;
+  bank_account_id?: string;
   date: string;
   description: string;
   amount: number;
@@ -21,33 +31,92 @@ interface BankTransaction {
   reconciled: boolean;
   invoice_id?: string;
   bill_id?: string;
+  account_id?: string;
+  tax_code_id?: string;
+  customer_id?: string;
+  supplier_id?: string;
+  bank_rule_id?: string;
+  vat_amount: number;
   created_at: string;
+  allocations: Allocation[];
+  attachments: { count: number }[];
 }
 
-interface Invoice {
+interface Allocation {
   id: string;
-  invoice_number: string;
-  total: number;
-  customer_name?: string;
+  amount: number;
+  invoice?: { invoice_number: string };
+  bill?: { bill_number: string };
+  account?: { account_code?: string; account_name: string };
+}
+
+interface ImportBatch {
+  id: string;
+  file_name: string;
+  format: string;
+  transaction_count: number;
+  duplicate_count: number;
+  locked_count: number;
+  status: string;
+  rolled_back_at?: string;
+  created_at: string;
+}
+
+interface Account {
+  id: string;
+  account_code?: string;
+  account_name: string;
+  account_type: string;
+}
+
+interface BankAccountBalance {
+  bank_account_id: string;
+  statement_balance: number;
+  reconciled_balance: number;
+  ledger_balance: number;
+  unreconciled_count: number;
+  locked_until?: string;
 }
 
-interface Bill {
+const ALL_ACCOUNTS = 'all';
+
+const formatMoney = (amount: number, currency = 'GBP') =>
+  new Intl.NumberFormat('en-GB', { style: 'currency', currency }).format(amount);
+
+interface TaxCode {
   id: string;
-  bill_number: string;
-  total: number;
-  supplier_name?: string;
+  name: string;
+  rate: number;
+}
+
+interface Contact {
+  id: string;
+  name: string;
 }
 
 const Banking = () => {
+  const { can } = useAuth();
+  const canEdit = can('banking.manage');
   const [transactions, setTransactions] = useState<BankTransaction[]>([]);
-  const [invoices, setInvoices] = useState<Invoice[]>([]);
-  const [bills, setBills] = useState<Bill[]>([]);
+  const [documents, setDocuments] = useState<OpenDocument[]>([]);
+  const [importBatches, setImportBatches] = useState<ImportBatch[]>([]);
+  const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
+  const [balances, setBalances] = useState<BankAccountBalance[]>([]);
+  const [selectedBankAccountId, setSelectedBankAccountId] = useState(ALL_ACCOUNTS);
+  const [editingBankAccount, setEditingBankAccount] = useState<BankAccount | null>(null);
+  const [isBankAccountDialogOpen, setIsBankAccountDialogOpen] = useState(false);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [taxCodes, setTaxCodes] = useState<TaxCode[]>([]);
+  const [customers, setCustomers] = useState<Contact[]>([]);
+  const [suppliers, setSuppliers] = useState<Contact[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [isUploading, setIsUploading] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   const [selectedTransaction, setSelectedTransaction] = useState<BankTransaction | null>(null);
   const [isReconcileDialogOpen, setIsReconcileDialogOpen] = useState(false);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [attachmentRecord, setAttachmentRecord] = useState<AttachmentRecord | null>(null);
   const { toast } = useToast();
+  const linkedDocumentId = useLinkedDocument(!isLoading);
+  const [searchParams] = useSearchParams();
 
   useEffect(() => {
     fetchData();
@@ -55,52 +124,116 @@ const Banking = () => {
 
   const fetchData = async () => {
     try {
-      const [transactionsResult, invoicesResult, billsResult] = await Promise.all([
+      const [
+        transactionsResult,
+        invoicesResult,
+        billsResult,
+        batchesResult,
+        bankAccountsResult,
+        balancesResult,
+        accountsResult,
+        taxCodesResult,
+        customersResult,
+        suppliersResult
+      ] = await Promise.all([
         supabase
           .from('bank_transactions')
-          .select('*')
+          .select(`
+            *,
+            allocations:bank_transaction_allocations (
+              id,
+              amount,
+              invoice:invoices (invoice_number),
+              bill:bills (bill_number),
+              account:chart_of_accounts (account_code, account_name)
+            ),
+            attachments(count)
+          `)
           .order('date', { ascending: false }),
         supabase
           .from('invoices')
           .select(`
             id,
             invoice_number,
+            date,
+            due_date,
             total,
+            amount_paid,
+            amount_credited,
             customers (name)
           `)
-          .eq('status', 'sent'),
+          .in('status', ['sent', 'overdue']),
         supabase
           .from('bills')
           .select(`
             id,
             bill_number,
+            date,
+            due_date,
             total,
+            amount_paid,
+            amount_credited,
             suppliers (name)
           `)
-          .in('status', ['approved', 'awaiting_approval'])
+          .in('status', ['received', 'overdue']),
+        supabase
+          .from('bank_import_batches')
+          .select('*')
+          .order('created_at', { ascending: false }),
+        supabase.from('bank_accounts').select('*').order('name'),
+        supabase.rpc('bank_account_balances'),
+        supabase
+          .from('chart_of_accounts')
+          .select('id, account_code, account_name, account_type')
+          .order('account_code'),
+        supabase.from('tax_codes').select('*').order('name'),
+        supabase.from('customers').select('id, name').order('name'),
+        supabase.from('suppliers').select('id, name').order('name')
       ]);
 
       if (transactionsResult.error) throw transactionsResult.error;
       if (invoicesResult.error) throw invoicesResult.error;
       if (billsResult.error) throw billsResult.error;
+      if (batchesResult.error) throw batchesResult.error;
+      if (bankAccountsResult.error) throw bankAccountsResult.error;
+      if (balancesResult.error) throw balancesResult.error;
+      if (accountsResult.error) throw accountsResult.error;
+      if (taxCodesResult.error) throw taxCodesResult.error;
+      if (customersResult.error) throw customersResult.error;
+      if (suppliersResult.error) throw suppliersResult.error;
 
       setTransactions(transactionsResult.data || []);
+      setImportBatches(batchesResult.data || []);
+      setBankAccounts(bankAccountsResult.data || []);
+      setBalances(balancesResult.data || []);
+      setAccounts(accountsResult.data || []);
+      setTaxCodes(taxCodesResult.data || []);
+      setCustomers(customersResult.data || []);
+      setSuppliers(suppliersResult.data || []);
       
-      const invoicesWithNames = (invoicesResult.data || []).map(inv => ({
-        id: inv.id,
-        invoice_number: inv.invoice_number,
-        total: inv.total,
-        customer_name: inv.customers?.name
-      }));
-      setInvoices(invoicesWithNames);
-
-      const billsWithNames = (billsResult.data || []).map(bill => ({
-        id: bill.id,
-        bill_number: bill.bill_number,
-        total: bill.total,
-        supplier_name: bill.suppliers?.name
-      }));
-      setBills(billsWithNames);
+      const outstanding = (document: { total: number; amount_paid: number; amount_credited: number }) =>
+        Math.round((Number(document.total) - Number(document.amount_paid) - Number(document.amount_credited)) * 100) / 100;
+
+      setDocuments([
+        ...(invoicesResult.data || []).map(invoice => ({
+          type: 'invoice' as const,
+          id: invoice.id,
+          number: invoice.invoice_number,
+          contact_name: invoice.customers?.name,
+          date: invoice.date,
+          due_date: invoice.due_date,
+          outstanding: outstanding(invoice)
+        })),
+        ...(billsResult.data || []).map(bill => ({
+          type: 'bill' as const,
+          id: bill.id,
+          number: bill.bill_number,
+          contact_name: bill.suppliers?.name,
+          date: bill.date,
+          due_date: bill.due_date,
+          outstanding: outstanding(bill)
+        }))
+      ]);
     } catch (error) {
       console.error('Error fetching data:', error);
       toast({
@@ -113,129 +246,58 @@ const Banking = () => {
     }
   };
 
-  const parseCSV = (csvText: string): any[] => {
-    const lines = csvText.trim().split('\n');
-    if (lines.length < 2) return [];
-
-    const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, ''));
-    const transactions = [];
-
-    for (let i = 1; i < lines.length; i++) {
-      const values = lines[i].split(',').map(v => v.trim().replace(/"/g, ''));
-      if (values.length >= 3) {
-        // Try different common CSV formats
-        let date, description, amount;
-        
-        // Format 1: Date, Description, Amount
-        if (headers.length >= 3) {
-          date = values[0];
-          description = values[1];
-          amount = parseFloat(values[2]);
-        }
-        
-        // Skip if we can't parse the essential fields
-        if (!date || !description || isNaN(amount)) continue;
-        
-        // Convert date to YYYY-MM-DD format
-        const parsedDate = new Date(date);
-        if (isNaN(parsedDate.getTime())) continue;
-        
-        transactions.push({
-          date: parsedDate.toISOString().split('T')[0],
-          description,
-          amount,
-          reference: values[3] || null
-        });
-      }
-    }
-
-    return transactions;
+  const openReconcileDialog = (transaction: BankTransaction) => {
+    setSelectedTransaction(transaction);
+    setIsReconcileDialogOpen(true);
   };
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    if (!file.name.toLowerCase().endsWith('.csv')) {
-      toast({
-        title: "Error",
-        description: "Please upload a CSV file.",
-        variant: "destructive",
-      });
+  const unreconcile = async (transaction: BankTransaction) => {
+    if (!confirm(`Unreconcile "${transaction.description}"? Its postings will be reversed and any payments it recorded deleted.`)) {
       return;
     }
 
-    setIsUploading(true);
-    
     try {
-      const text = await file.text();
-      const parsedTransactions = parseCSV(text);
-      
-      if (parsedTransactions.length === 0) {
-        toast({
-          title: "Error",
-          description: "No valid transactions found in the CSV file.",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      const { error } = await supabase
-        .from('bank_transactions')
-        .insert(parsedTransactions);
+      const { error } = await supabase.rpc('unreconcile_bank_transaction', { _transaction_id: transaction.id });
 
       if (error) throw error;
 
       toast({
         title: "Success",
-        description: `Successfully imported ${parsedTransactions.length} transactions.`,
+        description: "Transaction unreconciled and its posting reversed.",
       });
 
       fetchData();
     } catch (error) {
-      console.error('Error uploading file:', error);
+      console.error('Error unreconciling transaction:', error);
       toast({
         title: "Error",
-        description: "Failed to upload and process the CSV file.",
+        description: (error as { message?: string }).message || "Failed to unreconcile transaction.",
         variant: "destructive",
       });
-    } finally {
-      setIsUploading(false);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
     }
   };
 
-  const handleReconcile = async (transactionId: string, type: 'invoice' | 'bill', itemId: string) => {
+  const rollbackImport = async (batch: ImportBatch) => {
+    if (!confirm(`Roll back the import of ${batch.file_name}? Its ${batch.transaction_count} transactions will be deleted.`)) {
+      return;
+    }
+
     try {
-      const updates: any = { reconciled: true };
-      if (type === 'invoice') {
-        updates.invoice_id = itemId;
-      } else {
-        updates.bill_id = itemId;
-      }
-
-      const { error } = await supabase
-        .from('bank_transactions')
-        .update(updates)
-        .eq('id', transactionId);
+      const { data, error } = await supabase.rpc('rollback_bank_import', { _batch_id: batch.id });
 
       if (error) throw error;
 
       toast({
         title: "Success",
-        description: "Transaction reconciled successfully.",
+        description: `Import rolled back and ${data} transactions removed.`,
       });
 
-      setIsReconcileDialogOpen(false);
-      setSelectedTransaction(null);
       fetchData();
     } catch (error) {
-      console.error('Error reconciling transaction:', error);
+      console.error('Error rolling back import:', error);
       toast({
         title: "Error",
-        description: "Failed to reconcile transaction.",
+        description: (error as { message?: string }).message || "Failed to roll back import.",
         variant: "destructive",
       });
     }
@@ -248,35 +310,34 @@ const Banking = () => {
     return { status: 'Unreconciled', color: 'bg-yellow-100 text-yellow-800', icon: Clock };
   };
 
-  const getMatchingSuggestions = (transaction: BankTransaction) => {
-    const suggestions = [];
-    
-    // Look for matching invoices (positive amounts)
-    if (transaction.amount > 0) {
-      const matchingInvoices = invoices.filter(inv => 
-        Math.abs(inv.total - transaction.amount) < 0.01 ||
-        transaction.description.toLowerCase().includes(inv.invoice_number.toLowerCase()) ||
-        (inv.customer_name && transaction.description.toLowerCase().includes(inv.customer_name.toLowerCase()))
-      );
-      suggestions.push(...matchingInvoices.map(inv => ({ type: 'invoice' as const, item: inv })));
-    }
-    
-    // Look for matching bills (negative amounts)
-    if (transaction.amount < 0) {
-      const matchingBills = bills.filter(bill => 
-        Math.abs(bill.total + transaction.amount) < 0.01 ||
-        transaction.description.toLowerCase().includes(bill.bill_number.toLowerCase()) ||
-        (bill.supplier_name && transaction.description.toLowerCase().includes(bill.supplier_name.toLowerCase()))
-      );
-      suggestions.push(...matchingBills.map(bill => ({ type: 'bill' as const, item: bill })));
-    }
-    
-    return suggestions;
+  const accountLabel = (id?: string) => {
+    const account = accounts.find(a => a.id === id);
+    return account ? `${account.account_code} ${account.account_name}` : null;
+  };
+
+  const openBankAccountDialog = (bankAccount: BankAccount | null) => {
+    setEditingBankAccount(bankAccount);
+    setIsBankAccountDialogOpen(true);
   };
 
-  const reconciledCount = transactions.filter(t => t.reconciled).length;
-  const unreconciledCount = transactions.filter(t => !t.reconciled).length;
-  const totalBalance = transactions.reduce((sum, t) => sum + t.amount, 0);
+  // Memoised so the import dialog does not reset on every render
+  const activeBankAccounts = useMemo(() => bankAccounts.filter(a => a.active), [bankAccounts]);
+
+  const balanceOf = (bankAccountId: string) => balances.find(b => b.bank_account_id === bankAccountId);
+
+  const selectedBankAccount = bankAccounts.find(a => a.id === selectedBankAccountId);
+  const visibleTransactions = selectedBankAccount
+    ? transactions.filter(t => t.bank_account_id === selectedBankAccount.id)
+    : transactions;
+
+  const reconciledCount = visibleTransactions.filter(t => t.reconciled).length;
+  const unreconciledCount = visibleTransactions.filter(t => !t.reconciled).length;
+  // Balances in other currencies cannot be added to sterling ones
+  const totalBalance = selectedBankAccount
+    ? Number(balanceOf(selectedBankAccount.id)?.statement_balance || 0)
+    : bankAccounts
+        .filter(a => a.currency === 'GBP')
+        .reduce((sum, a) => sum + Number(balanceOf(a.id)?.statement_balance || 0), 0);
 
   if (isLoading) {
     return (
@@ -297,20 +358,35 @@ const Banking = () => {
         </div>
         
         <div className="flex gap-2">
-          <input
-            ref={fileInputRef}
-            type="file"
-            accept=".csv"
-            onChange={handleFileUpload}
-            className="hidden"
-          />
-          <Button 
-            onClick={() => fileInputRef.current?.click()}
-            disabled={isUploading}
-          >
-            <Upload className="w-4 h-4 mr-2" />
-            {isUploading ? 'Uploading...' : 'Upload CSV'}
+          <Select value={selectedBankAccountId} onValueChange={setSelectedBankAccountId}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_ACCOUNTS}>All accounts</SelectItem>
+              {bankAccounts.map((account) => (
+                <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" asChild>
+            <Link to="/banking/reconcile">
+              <Scale className="w-4 h-4 mr-2" />
+              Reconcile Statement
+            </Link>
           </Button>
+          <Button variant="outline" asChild>
+            <Link to="/banking/rules">
+              <Wand2 className="w-4 h-4 mr-2" />
+              Bank Rules
+            </Link>
+          </Button>
+          {canEdit && (
+            <Button onClick={() => setIsImportDialogOpen(true)}>
+              <Upload className="w-4 h-4 mr-2" />
+              Import Statement
+            </Button>
+          )}
         </div>
       </div>
 
@@ -318,10 +394,12 @@ const Banking = () => {
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <Card>
           <CardHeader className="pb-2">
-            <CardTitle className="text-sm font-medium text-muted-foreground">Total Balance</CardTitle>
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              {selectedBankAccount ? 'Balance' : 'Total Balance'}
+            </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">£{totalBalance.toFixed(2)}</div>
+            <div className="text-2xl font-bold">{formatMoney(totalBalance, selectedBankAccount?.currency)}</div>
           </CardContent>
         </Card>
         
@@ -330,7 +408,7 @@ const Banking = () => {
             <CardTitle className="text-sm font-medium text-muted-foreground">Total Transactions</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{transactions.length}</div>
+            <div className="text-2xl font-bold">{visibleTransactions.length}</div>
           </CardContent>
         </Card>
         
@@ -357,16 +435,20 @@ const Banking = () => {
       <Alert>
         <AlertCircle className="h-4 w-4" />
         <AlertDescription>
-          Upload CSV files with columns: Date, Description, Amount, Reference (optional). 
-          Supported date formats: DD/MM/YYYY, MM/DD/YYYY, YYYY-MM-DD
+          Import statements exported from your bank as CSV, OFX/QFX, QIF or CAMT.053.
+          CSV column layouts can be saved per bank and are picked automatically next time.
         </AlertDescription>
       </Alert>
 
-      <Tabs defaultValue="transactions" className="space-y-4">
+      {/* Returning from a bank's consent screen lands on the feeds tab to finish connecting */}
+      <Tabs defaultValue={searchParams.has('consent') ? 'feeds' : searchParams.get('tab') || 'transactions'} className="space-y-4">
         <TabsList>
           <TabsTrigger value="transactions">All Transactions</TabsTrigger>
           <TabsTrigger value="unreconciled">Unreconciled ({unreconciledCount})</TabsTrigger>
           <TabsTrigger value="reconciled">Reconciled ({reconciledCount})</TabsTrigger>
+          <TabsTrigger value="accounts">Accounts</TabsTrigger>
+          <TabsTrigger value="imports">Imports</TabsTrigger>
+          <TabsTrigger value="feeds">Feeds</TabsTrigger>
         </TabsList>
 
         <TabsContent value="transactions">
@@ -387,10 +469,14 @@ const Banking = () => {
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {transactions.map((transaction) => {
+                  {visibleTransactions.map((transaction) => {
                     const { status, color, icon: StatusIcon } = getTransactionStatus(transaction);
                     return (
-                      <TableRow key={transaction.id}>
+                      <TableRow
+                        key={transaction.id}
+                        id={linkedDocumentElementId(transaction.id)}
+                        className={transaction.id === linkedDocumentId ? 'bg-muted' : undefined}
+                      >
                         <TableCell>{new Date(transaction.date).toLocaleDateString()}</TableCell>
                         <TableCell>{transaction.description}</TableCell>
                         <TableCell>{transaction.reference || '-'}</TableCell>
@@ -404,18 +490,26 @@ const Banking = () => {
                           </Badge>
                         </TableCell>
                         <TableCell>
-                          {!transaction.reconciled && (
+                          <div className="flex gap-2">
+                            {canEdit && !transaction.reconciled && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => openReconcileDialog(transaction)}
+                              >
+                                Reconcile
+                              </Button>
+                            )}
                             <Button
                               variant="outline"
                               size="sm"
-                              onClick={() => {
-                                setSelectedTransaction(transaction);
-                                setIsReconcileDialogOpen(true);
-                              }}
+                              title="Attachments"
+                              onClick={() => setAttachmentRecord({ type: 'bank_transaction', id: transaction.id, label: transaction.description })}
                             >
-                              Reconcile
+                              <Paperclip className="w-4 h-4" />
+                              {transaction.attachments[0]?.count > 0 && <span className="ml-1 text-xs">{transaction.attachments[0].count}</span>}
                             </Button>
-                          )}
+                          </div>
                         </TableCell>
                       </TableRow>
                     );
@@ -423,9 +517,9 @@ const Banking = () => {
                 </TableBody>
               </Table>
               
-              {transactions.length === 0 && (
+              {visibleTransactions.length === 0 && (
                 <div className="text-center py-8 text-muted-foreground">
-                  No transactions found. Upload a CSV file to get started.
+                  No transactions found. Import a bank statement to get started.
                 </div>
               )}
             </CardContent>
@@ -449,8 +543,8 @@ const Banking = () => {
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {transactions.filter(t => !t.reconciled).map((transaction) => {
-                    const suggestions = getMatchingSuggestions(transaction);
+                  {visibleTransactions.filter(t => !t.reconciled).map((transaction) => {
+                    const best = suggestMatches(transaction, documents)[0];
                     return (
                       <TableRow key={transaction.id}>
                         <TableCell>{new Date(transaction.date).toLocaleDateString()}</TableCell>
@@ -459,25 +553,30 @@ const Banking = () => {
                           £{Math.abs(transaction.amount).toFixed(2)} {transaction.amount >= 0 ? 'CR' : 'DR'}
                         </TableCell>
                         <TableCell>
-                          {suggestions.length > 0 ? (
+                          {transaction.account_id && (
+                            <Badge variant="outline" className="mb-1">
+                              {transaction.bank_rule_id && <Wand2 className="w-3 h-3 mr-1" />}
+                              {accountLabel(transaction.account_id)}
+                            </Badge>
+                          )}
+                          {best ? (
                             <div className="text-sm text-muted-foreground">
-                              {suggestions.length} possible match{suggestions.length > 1 ? 'es' : ''}
+                              {best.allocations.map(allocation => allocation.document.number).join(' + ')} ({best.score}%)
                             </div>
                           ) : (
                             <div className="text-sm text-muted-foreground">No matches</div>
                           )}
                         </TableCell>
                         <TableCell>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => {
-                              setSelectedTransaction(transaction);
-                              setIsReconcileDialogOpen(true);
-                            }}
-                          >
-                            Reconcile
-                          </Button>
+                          {canEdit && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => openReconcileDialog(transaction)}
+                            >
+                              Reconcile
+                            </Button>
+                          )}
                         </TableCell>
                       </TableRow>
                     );
@@ -501,10 +600,11 @@ const Banking = () => {
                     <TableHead>Description</TableHead>
                     <TableHead>Amount</TableHead>
                     <TableHead>Matched With</TableHead>
+                    <TableHead>Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {transactions.filter(t => t.reconciled).map((transaction) => (
+                  {visibleTransactions.filter(t => t.reconciled).map((transaction) => (
                     <TableRow key={transaction.id}>
                       <TableCell>{new Date(transaction.date).toLocaleDateString()}</TableCell>
                       <TableCell>{transaction.description}</TableCell>
@@ -512,9 +612,29 @@ const Banking = () => {
                         £{Math.abs(transaction.amount).toFixed(2)} {transaction.amount >= 0 ? 'CR' : 'DR'}
                       </TableCell>
                       <TableCell>
-                        {transaction.invoice_id && <Badge variant="secondary">Invoice</Badge>}
-                        {transaction.bill_id && <Badge variant="secondary">Bill</Badge>}
-                        {!transaction.invoice_id && !transaction.bill_id && <span className="text-muted-foreground">Manual</span>}
+                        <div className="flex flex-wrap gap-1">
+                          {transaction.invoice_id && <Badge variant="secondary">Invoice</Badge>}
+                          {transaction.bill_id && <Badge variant="secondary">Bill</Badge>}
+                          {transaction.allocations.map((allocation) => (
+                            <Badge key={allocation.id} variant="secondary">
+                              {allocation.invoice?.invoice_number ||
+                                allocation.bill?.bill_number ||
+                                `${allocation.account?.account_code} ${allocation.account?.account_name}`}
+                              {' · '}£{Number(allocation.amount).toFixed(2)}
+                            </Badge>
+                          ))}
+                          {!transaction.invoice_id && !transaction.bill_id && transaction.allocations.length === 0 && (
+                            <span className="text-muted-foreground">Manual</span>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {canEdit && (
+                          <Button variant="outline" size="sm" onClick={() => unreconcile(transaction)}>
+                            <Undo2 className="w-4 h-4 mr-2" />
+                            Unreconcile
+                          </Button>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))}
@@ -523,101 +643,179 @@ const Banking = () => {
             </CardContent>
           </Card>
         </TabsContent>
-      </Tabs>
 
-      {/* Reconciliation Dialog */}
-      <Dialog open={isReconcileDialogOpen} onOpenChange={setIsReconcileDialogOpen}>
-        <DialogContent className="max-w-2xl">
-          <DialogHeader>
-            <DialogTitle>Reconcile Transaction</DialogTitle>
-          </DialogHeader>
-          
-          {selectedTransaction && (
-            <div className="space-y-4">
-              <div className="p-4 bg-muted rounded-lg">
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <Label className="text-sm font-medium">Date</Label>
-                    <p>{new Date(selectedTransaction.date).toLocaleDateString()}</p>
-                  </div>
-                  <div>
-                    <Label className="text-sm font-medium">Amount</Label>
-                    <p className={selectedTransaction.amount >= 0 ? 'text-green-600' : 'text-red-600'}>
-                      £{Math.abs(selectedTransaction.amount).toFixed(2)} {selectedTransaction.amount >= 0 ? 'CR' : 'DR'}
-                    </p>
-                  </div>
-                  <div className="col-span-2">
-                    <Label className="text-sm font-medium">Description</Label>
-                    <p>{selectedTransaction.description}</p>
-                  </div>
-                </div>
-              </div>
-
-              <div className="space-y-4">
-                <h4 className="font-medium">Match with:</h4>
-                
-                {selectedTransaction.amount > 0 && (
-                  <div>
-                    <Label className="text-sm font-medium">Invoices</Label>
-                    <div className="space-y-2 mt-2">
-                      {invoices.map((invoice) => (
-                        <div key={invoice.id} className="flex items-center justify-between p-2 border rounded">
-                          <div>
-                            <span className="font-medium">{invoice.invoice_number}</span>
-                            <span className="text-muted-foreground ml-2">
-                              {invoice.customer_name} - £{invoice.total.toFixed(2)}
-                            </span>
-                          </div>
-                          <Button
-                            size="sm"
-                            onClick={() => handleReconcile(selectedTransaction.id, 'invoice', invoice.id)}
-                          >
-                            Match
-                          </Button>
-                        </div>
-                      ))}
-                    </div>
-                  </div>
-                )}
-
-                {selectedTransaction.amount < 0 && (
-                  <div>
-                    <Label className="text-sm font-medium">Bills</Label>
-                    <div className="space-y-2 mt-2">
-                      {bills.map((bill) => (
-                        <div key={bill.id} className="flex items-center justify-between p-2 border rounded">
-                          <div>
-                            <span className="font-medium">{bill.bill_number}</span>
-                            <span className="text-muted-foreground ml-2">
-                              {bill.supplier_name} - £{bill.total.toFixed(2)}
-                            </span>
+        <TabsContent value="accounts">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>Bank Accounts</CardTitle>
+              {canEdit && (
+                <Button size="sm" onClick={() => openBankAccountDialog(null)}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  New Bank Account
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Sort Code / Account</TableHead>
+                    <TableHead>Ledger Account</TableHead>
+                    <TableHead>Statement Balance</TableHead>
+                    <TableHead>Ledger Balance</TableHead>
+                    <TableHead>Unreconciled</TableHead>
+                    <TableHead>Reconciled To</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {bankAccounts.map((account) => {
+                    const balance = balanceOf(account.id);
+                    return (
+                      <TableRow key={account.id} id={linkedDocumentElementId(account.id)} className={account.id === linkedDocumentId ? 'bg-muted' : undefined}>
+                        <TableCell className="font-medium">
+                          {account.name}
+                          {!account.active && <Badge variant="secondary" className="ml-2">Inactive</Badge>}
+                        </TableCell>
+                        <TableCell>
+                          {account.sort_code || account.account_number
+                            ? `${account.sort_code || '-'} / ${account.account_number || '-'}`
+                            : '-'}
+                        </TableCell>
+                        <TableCell>{accountLabel(account.ledger_account_id)}</TableCell>
+                        <TableCell>{formatMoney(Number(balance?.statement_balance || 0), account.currency)}</TableCell>
+                        <TableCell>{formatMoney(Number(balance?.ledger_balance || 0), account.currency)}</TableCell>
+                        <TableCell>{balance?.unreconciled_count || 0}</TableCell>
+                        <TableCell>
+                          {balance?.locked_until ? new Date(balance.locked_until).toLocaleDateString() : 'Never'}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-2">
+                            {canEdit && (
+                              <Button variant="outline" size="sm" onClick={() => openBankAccountDialog(account)}>
+                                <Edit className="w-4 h-4" />
+                              </Button>
+                            )}
+                            <Button variant="outline" size="sm" asChild>
+                              <Link to={`/banking/reconcile?account=${account.id}`}>Reconcile</Link>
+                            </Button>
                           </div>
-                          <Button
-                            size="sm"
-                            onClick={() => handleReconcile(selectedTransaction.id, 'bill', bill.id)}
-                          >
-                            Match
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+
+              {bankAccounts.length === 0 && (
+                <div className="text-center py-8 text-muted-foreground">
+                  No bank accounts yet. Add one to import statements into it.
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="imports">
+          <Card>
+            <CardHeader>
+              <CardTitle>Statement Imports</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Imported</TableHead>
+                    <TableHead>File</TableHead>
+                    <TableHead>Format</TableHead>
+                    <TableHead>Transactions</TableHead>
+                    <TableHead>Duplicates Skipped</TableHead>
+                    <TableHead>Locked Skipped</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {importBatches.map((batch) => (
+                    <TableRow key={batch.id}>
+                      <TableCell>{new Date(batch.created_at).toLocaleString()}</TableCell>
+                      <TableCell className="font-medium">{batch.file_name}</TableCell>
+                      <TableCell className="uppercase">{batch.format}</TableCell>
+                      <TableCell>{batch.transaction_count}</TableCell>
+                      <TableCell>{batch.duplicate_count}</TableCell>
+                      <TableCell>{batch.locked_count}</TableCell>
+                      <TableCell>
+                        {batch.status === 'rolled_back' ? (
+                          <Badge variant="secondary">
+                            Rolled back {batch.rolled_back_at ? new Date(batch.rolled_back_at).toLocaleDateString() : ''}
+                          </Badge>
+                        ) : (
+                          <Badge className="bg-green-100 text-green-800">Imported</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {canEdit && batch.status === 'imported' && (
+                          <Button variant="outline" size="sm" onClick={() => rollbackImport(batch)}>
+                            <Undo2 className="w-4 h-4 mr-2" />
+                            Roll Back
                           </Button>
-                        </div>
-                      ))}
-                    </div>
-                  </div>
-                )}
-
-                <div className="pt-4 border-t">
-                  <Button
-                    variant="outline"
-                    onClick={() => handleReconcile(selectedTransaction.id, 'invoice', '')}
-                    className="w-full"
-                  >
-                    Mark as Reconciled (Manual)
-                  </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {importBatches.length === 0 && (
+                <div className="text-center py-8 text-muted-foreground">
+                  No statements imported yet.
                 </div>
-              </div>
-            </div>
-          )}
-        </DialogContent>
-      </Dialog>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="feeds">
+          <BankFeeds bankAccounts={activeBankAccounts} onSynced={fetchData} />
+        </TabsContent>
+      </Tabs>
+
+      <BankImportDialog
+        bankAccounts={activeBankAccounts}
+        defaultBankAccountId={selectedBankAccount?.id}
+        open={isImportDialogOpen}
+        onOpenChange={setIsImportDialogOpen}
+        onImported={fetchData}
+      />
+
+      <ReconcileDialog
+        transaction={selectedTransaction}
+        documents={documents}
+        accounts={accounts}
+        taxCodes={taxCodes}
+        customers={customers}
+        suppliers={suppliers}
+        open={isReconcileDialogOpen}
+        onOpenChange={setIsReconcileDialogOpen}
+        onReconciled={fetchData}
+      />
+
+      <BankAccountDialog
+        bankAccount={editingBankAccount}
+        ledgerAccounts={accounts.filter(a => a.account_type === 'asset')}
+        locked={!!(editingBankAccount && balanceOf(editingBankAccount.id)?.locked_until)}
+        open={isBankAccountDialogOpen}
+        onOpenChange={setIsBankAccountDialogOpen}
+        onSaved={fetchData}
+      />
+
+      <AttachmentsDialog
+        record={attachmentRecord}
+        open={!!attachmentRecord}
+        onOpenChange={(open) => !open && setAttachmentRecord(null)}
+        onChanged={fetchData}
+      />
     </div>
   );
 };
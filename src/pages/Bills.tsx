@@ -9,14 +9,26 @@ import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
-import { Plus, Edit, Trash2, Eye } from 'lucide-react';
+import { Plus, Edit, Trash2, Eye, PackageCheck, XCircle, PoundSterling, FileMinus, Repeat, ClipboardCheck, Paperclip, Upload } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { linkedDocumentElementId, useLinkedDocument } from '@/hooks/useLinkedDocument';
+import PaymentDialog, { PayableDocument } from '@/components/PaymentDialog';
+import CreditNoteDialog, { CreditableDocument } from '@/components/CreditNoteDialog';
+import BillApprovalDialog, { ApprovableBill } from '@/components/BillApprovalDialog';
+import AttachmentsDialog from '@/components/AttachmentsDialog';
+import BillImportDialog from '@/components/BillImportDialog';
+import { AttachmentRecord } from '@/lib/attachments';
 
 interface Supplier {
   id: string;
   name: string;
   email?: string;
   address?: string;
+  vat_number?: string;
+  default_account_id?: string;
+  default_tax_code_id?: string;
+  payment_terms_days?: number;
 }
 
 interface Bill {
@@ -28,8 +40,12 @@ interface Bill {
   subtotal: number;
   vat_amount: number;
   total: number;
+  amount_paid: number;
+  amount_credited: number;
   status: string;
+  recurring_bill_id?: string;
   suppliers?: Supplier;
+  attachments: { count: number }[];
 }
 
 interface BillLine {
@@ -38,6 +54,7 @@ interface BillLine {
   quantity: number;
   unit_price: number;
   tax_code_id?: string;
+  account_id?: string;
   line_total: number;
   vat_amount: number;
 }
@@ -48,14 +65,38 @@ interface TaxCode {
   rate: number;
 }
 
+interface ExpenseAccount {
+  id: string;
+  account_code?: string;
+  account_name: string;
+}
+
+interface ApprovalThreshold {
+  min_amount: number;
+  approvals_required: number;
+}
+
+const outstandingBalance = (bill: Bill) =>
+  Number(bill.total) - Number(bill.amount_paid) - Number(bill.amount_credited);
+
 const Bills = () => {
+  const { can } = useAuth();
+  const canEdit = can('purchases.manage');
   const [bills, setBills] = useState<Bill[]>([]);
   const [suppliers, setSuppliers] = useState<Supplier[]>([]);
   const [taxCodes, setTaxCodes] = useState<TaxCode[]>([]);
+  const [expenseAccounts, setExpenseAccounts] = useState<ExpenseAccount[]>([]);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   const [selectedBill, setSelectedBill] = useState<Bill | null>(null);
+  const [paymentDocument, setPaymentDocument] = useState<PayableDocument | null>(null);
+  const [creditDocument, setCreditDocument] = useState<CreditableDocument | null>(null);
+  const [approvalThresholds, setApprovalThresholds] = useState<ApprovalThreshold[]>([]);
+  const [approvalBill, setApprovalBill] = useState<ApprovableBill | null>(null);
+  const [attachmentRecord, setAttachmentRecord] = useState<AttachmentRecord | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const { toast } = useToast();
+  const linkedDocumentId = useLinkedDocument(!isLoading);
 
   // Form state
   const [formData, setFormData] = useState({
@@ -76,7 +117,7 @@ const Bills = () => {
 
   const fetchData = async () => {
     try {
-      const [billsResult, suppliersResult, taxCodesResult] = await Promise.all([
+      const [billsResult, suppliersResult, taxCodesResult, accountsResult, thresholdsResult] = await Promise.all([
         supabase
           .from('bills')
           .select(`
@@ -86,20 +127,34 @@ const Bills = () => {
               name,
               email,
               address
-            )
+            ),
+            attachments(count)
           `)
           .order('created_at', { ascending: false }),
         supabase.from('suppliers').select('*').order('name'),
-        supabase.from('tax_codes').select('*').order('name')
+        supabase.from('tax_codes').select('*').order('name'),
+        supabase
+          .from('chart_of_accounts')
+          .select('id, account_code, account_name')
+          .eq('account_type', 'expense')
+          .order('account_code'),
+        supabase
+          .from('bill_approval_thresholds')
+          .select('min_amount, approvals_required')
+          .order('min_amount')
       ]);
 
       if (billsResult.error) throw billsResult.error;
       if (suppliersResult.error) throw suppliersResult.error;
       if (taxCodesResult.error) throw taxCodesResult.error;
+      if (accountsResult.error) throw accountsResult.error;
+      if (thresholdsResult.error) throw thresholdsResult.error;
 
       setBills(billsResult.data || []);
       setSuppliers(suppliersResult.data || []);
       setTaxCodes(taxCodesResult.data || []);
+      setExpenseAccounts(accountsResult.data || []);
+      setApprovalThresholds(thresholdsResult.data || []);
     } catch (error) {
       console.error('Error fetching data:', error);
       toast({
@@ -112,6 +167,21 @@ const Bills = () => {
     }
   };
 
+  // The highest threshold the total reaches decides how many approvals a bill needs
+  const approvalsRequired = (total: number) => {
+    const reached = approvalThresholds.filter(threshold => Number(threshold.min_amount) <= Number(total));
+    return reached.length > 0 ? reached[reached.length - 1].approvals_required : 0;
+  };
+
+  const openApproval = (bill: Bill) => setApprovalBill({
+    id: bill.id,
+    number: bill.bill_number,
+    supplier: bill.suppliers?.name || 'Unknown',
+    total: Number(bill.total),
+    status: bill.status,
+    approvalsRequired: approvalsRequired(bill.total)
+  });
+
   const calculateLineTotal = (line: BillLine) => {
     const subtotal = line.quantity * line.unit_price;
     const taxCode = taxCodes.find(tc => tc.id === line.tax_code_id);
@@ -138,7 +208,52 @@ const Bills = () => {
   };
 
   const addBillLine = () => {
-    setBillLines([...billLines, { description: '', quantity: 1, unit_price: 0, line_total: 0, vat_amount: 0 }]);
+    const supplier = suppliers.find(s => s.id === formData.supplier_id);
+    setBillLines([...billLines, {
+      description: '',
+      quantity: 1,
+      unit_price: 0,
+      account_id: supplier?.default_account_id || undefined,
+      tax_code_id: supplier?.default_tax_code_id || undefined,
+      line_total: 0,
+      vat_amount: 0
+    }]);
+  };
+
+  const calculateDueDate = (date: string, supplier?: Supplier) => {
+    if (!date || !supplier) return '';
+    const dueDate = new Date(date);
+    dueDate.setDate(dueDate.getDate() + (supplier.payment_terms_days ?? 30));
+    return dueDate.toISOString().split('T')[0];
+  };
+
+  // Pre-fill the due date and any blank line account/tax code from the supplier's defaults
+  const handleSupplierChange = (supplierId: string) => {
+    const supplier = suppliers.find(s => s.id === supplierId);
+
+    setFormData({
+      ...formData,
+      supplier_id: supplierId,
+      due_date: calculateDueDate(formData.date, supplier) || formData.due_date
+    });
+
+    setBillLines(billLines.map(line => {
+      const updated = {
+        ...line,
+        account_id: line.account_id || supplier?.default_account_id || undefined,
+        tax_code_id: line.tax_code_id || supplier?.default_tax_code_id || undefined
+      };
+      return { ...updated, ...calculateLineTotal(updated) };
+    }));
+  };
+
+  const handleDateChange = (date: string) => {
+    const supplier = suppliers.find(s => s.id === formData.supplier_id);
+    setFormData({
+      ...formData,
+      date,
+      due_date: calculateDueDate(date, supplier) || formData.due_date
+    });
   };
 
   const removeBillLine = (index: number) => {
@@ -190,6 +305,7 @@ const Bills = () => {
         quantity: line.quantity,
         unit_price: line.unit_price,
         tax_code_id: line.tax_code_id || null,
+        account_id: line.account_id || null,
         line_total: line.line_total,
         vat_amount: line.vat_amount
       }));
@@ -218,6 +334,38 @@ const Bills = () => {
     }
   };
 
+  const updateBillStatus = async (bill: Bill, status: 'received' | 'cancelled') => {
+    if (status === 'cancelled' && !confirm(`Cancel bill ${bill.bill_number}? Its ledger posting will be reversed.`)) {
+      return;
+    }
+
+    try {
+      // Posting and reversal journals are created by the database when the status changes
+      const { error } = await supabase
+        .from('bills')
+        .update({ status })
+        .eq('id', bill.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: status === 'received'
+          ? `Bill ${bill.bill_number} received and posted to the ledger.`
+          : `Bill ${bill.bill_number} cancelled and its journal reversed.`,
+      });
+
+      fetchData();
+    } catch (error) {
+      console.error('Error updating bill status:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to update bill status. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const resetForm = () => {
     setFormData({
       bill_number: '',
@@ -233,7 +381,7 @@ const Bills = () => {
     switch (status) {
       case 'draft': return 'bg-secondary';
       case 'awaiting_approval': return 'bg-yellow-100 text-yellow-800';
-      case 'approved': return 'bg-green-100 text-green-800';
+      case 'received': return 'bg-green-100 text-green-800';
       case 'paid': return 'bg-blue-100 text-blue-800';
       default: return 'bg-secondary';
     }
@@ -257,179 +405,205 @@ const Bills = () => {
           <p className="text-muted-foreground">Manage supplier bills and expenses</p>
         </div>
         
-        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={() => setIsCreateDialogOpen(true)}>
-              <Plus className="w-4 h-4 mr-2" />
-              Create Bill
+        <div className="flex gap-2">
+          {canEdit && (
+            <Button variant="outline" onClick={() => setIsImportDialogOpen(true)}>
+              <Upload className="w-4 h-4 mr-2" />
+              Import from File
             </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
-            <DialogHeader>
-              <DialogTitle>Create New Bill</DialogTitle>
-            </DialogHeader>
-            
-            <form onSubmit={handleSubmit} className="space-y-6">
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="bill_number">Bill Number</Label>
-                  <Input
-                    id="bill_number"
-                    value={formData.bill_number}
-                    onChange={(e) => setFormData({ ...formData, bill_number: e.target.value })}
-                    required
-                  />
-                </div>
-                
-                <div>
-                  <Label htmlFor="supplier">Supplier</Label>
-                  <Select value={formData.supplier_id} onValueChange={(value) => setFormData({ ...formData, supplier_id: value })}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select supplier" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {suppliers.map((supplier) => (
-                        <SelectItem key={supplier.id} value={supplier.id}>
-                          {supplier.name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-                
-                <div>
-                  <Label htmlFor="date">Date</Label>
-                  <Input
-                    id="date"
-                    type="date"
-                    value={formData.date}
-                    onChange={(e) => setFormData({ ...formData, date: e.target.value })}
-                    required
-                  />
+          )}
+          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+            {canEdit && (
+              <DialogTrigger asChild>
+                <Button onClick={() => setIsCreateDialogOpen(true)}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Create Bill
+                </Button>
+              </DialogTrigger>
+            )}
+            <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Create New Bill</DialogTitle>
+              </DialogHeader>
+              
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="bill_number">Bill Number</Label>
+                    <Input
+                      id="bill_number"
+                      value={formData.bill_number}
+                      onChange={(e) => setFormData({ ...formData, bill_number: e.target.value })}
+                      required
+                    />
+                  </div>
+                  
+                  <div>
+                    <Label htmlFor="supplier">Supplier</Label>
+                    <Select value={formData.supplier_id} onValueChange={handleSupplierChange}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select supplier" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {suppliers.map((supplier) => (
+                          <SelectItem key={supplier.id} value={supplier.id}>
+                            {supplier.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  
+                  <div>
+                    <Label htmlFor="date">Date</Label>
+                    <Input
+                      id="date"
+                      type="date"
+                      value={formData.date}
+                      onChange={(e) => handleDateChange(e.target.value)}
+                      required
+                    />
+                  </div>
+                  
+                  <div>
+                    <Label htmlFor="due_date">Due Date</Label>
+                    <Input
+                      id="due_date"
+                      type="date"
+                      value={formData.due_date}
+                      onChange={(e) => setFormData({ ...formData, due_date: e.target.value })}
+                    />
+                  </div>
                 </div>
-                
+
                 <div>
-                  <Label htmlFor="due_date">Due Date</Label>
-                  <Input
-                    id="due_date"
-                    type="date"
-                    value={formData.due_date}
-                    onChange={(e) => setFormData({ ...formData, due_date: e.target.value })}
-                  />
-                </div>
-              </div>
-
-              <div>
-                <div className="flex justify-between items-center mb-4">
-                  <h3 className="text-lg font-semibold">Line Items</h3>
-                  <Button type="button" variant="outline" onClick={addBillLine}>
-                    <Plus className="w-4 h-4 mr-2" />
-                    Add Line
-                  </Button>
-                </div>
-                
-                <div className="space-y-4">
-                  {billLines.map((line, index) => (
-                    <div key={index} className="grid grid-cols-12 gap-2 items-end">
-                      <div className="col-span-4">
-                        <Label>Description</Label>
-                        <Textarea
-                          value={line.description}
-                          onChange={(e) => updateBillLine(index, 'description', e.target.value)}
-                          placeholder="Item description"
-                          className="min-h-[60px]"
-                        />
-                      </div>
-                      
-                      <div className="col-span-2">
-                        <Label>Quantity</Label>
-                        <Input
-                          type="number"
-                          value={line.quantity}
-                          onChange={(e) => updateBillLine(index, 'quantity', parseFloat(e.target.value) || 0)}
-                          min="0"
-                          step="0.01"
-                        />
-                      </div>
-                      
-                      <div className="col-span-2">
-                        <Label>Unit Price</Label>
-                        <Input
-                          type="number"
-                          value={line.unit_price}
-                          onChange={(e) => updateBillLine(index, 'unit_price', parseFloat(e.target.value) || 0)}
-                          min="0"
-                          step="0.01"
-                        />
+                  <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-lg font-semibold">Line Items</h3>
+                    <Button type="button" variant="outline" onClick={addBillLine}>
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add Line
+                    </Button>
+                  </div>
+                  
+                  <div className="space-y-4">
+                    {billLines.map((line, index) => (
+                      <div key={index} className="grid grid-cols-12 gap-2 items-end">
+                        <div className="col-span-3">
+                          <Label>Description</Label>
+                          <Textarea
+                            value={line.description}
+                            onChange={(e) => updateBillLine(index, 'description', e.target.value)}
+                            placeholder="Item description"
+                            className="min-h-[60px]"
+                          />
+                        </div>
+                        
+                        <div className="col-span-2">
+                          <Label>Account</Label>
+                          <Select value={line.account_id || ''} onValueChange={(value) => updateBillLine(index, 'account_id', value || undefined)}>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Expense account" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {expenseAccounts.map((account) => (
+                                <SelectItem key={account.id} value={account.id}>
+                                  {account.account_code} {account.account_name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        
+                        <div className="col-span-1">
+                          <Label>Quantity</Label>
+                          <Input
+                            type="number"
+                            value={line.quantity}
+                            onChange={(e) => updateBillLine(index, 'quantity', parseFloat(e.target.value) || 0)}
+                            min="0"
+                            step="0.01"
+                          />
+                        </div>
+                        
+                        <div className="col-span-2">
+                          <Label>Unit Price</Label>
+                          <Input
+                            type="number"
+                            value={line.unit_price}
+                            onChange={(e) => updateBillLine(index, 'unit_price', parseFloat(e.target.value) || 0)}
+                            min="0"
+                            step="0.01"
+                          />
+                        </div>
+                        
+                        <div className="col-span-2">
+                          <Label>VAT Rate</Label>
+                          <Select value={line.tax_code_id || ''} onValueChange={(value) => updateBillLine(index, 'tax_code_id', value || undefined)}>
+                            <SelectTrigger>
+                              <SelectValue placeholder="VAT" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {taxCodes.map((taxCode) => (
+                                <SelectItem key={taxCode.id} value={taxCode.id}>
+                                  {taxCode.name} ({taxCode.rate}%)
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        
+                        <div className="col-span-1">
+                          <Label>Total</Label>
+                          <div className="h-10 px-3 py-2 bg-muted rounded-md text-sm">
+                            £{line.line_total.toFixed(2)}
+                          </div>
+                        </div>
+                        
+                        <div className="col-span-1">
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="icon"
+                            onClick={() => removeBillLine(index)}
+                            disabled={billLines.length === 1}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
                       </div>
-                      
-                      <div className="col-span-2">
-                        <Label>VAT Rate</Label>
-                        <Select value={line.tax_code_id || ''} onValueChange={(value) => updateBillLine(index, 'tax_code_id', value || undefined)}>
-                          <SelectTrigger>
-                            <SelectValue placeholder="VAT" />
-                          </SelectTrigger>
-                          <SelectContent>
-                            {taxCodes.map((taxCode) => (
-                              <SelectItem key={taxCode.id} value={taxCode.id}>
-                                {taxCode.name} ({taxCode.rate}%)
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
+                    ))}
+                  </div>
+                  
+                  <div className="mt-4 p-4 bg-muted rounded-lg">
+                    <div className="text-right space-y-2">
+                      <div className="flex justify-between">
+                        <span>Subtotal:</span>
+                        <span>£{calculateTotals().subtotal.toFixed(2)}</span>
                       </div>
-                      
-                      <div className="col-span-1">
-                        <Label>Total</Label>
-                        <div className="h-10 px-3 py-2 bg-muted rounded-md text-sm">
-                          £{line.line_total.toFixed(2)}
-                        </div>
+                      <div className="flex justify-between">
+                        <span>VAT:</span>
+                        <span>£{calculateTotals().vatAmount.toFixed(2)}</span>
                       </div>
-                      
-                      <div className="col-span-1">
-                        <Button
-                          type="button"
-                          variant="outline"
-                          size="icon"
-                          onClick={() => removeBillLine(index)}
-                          disabled={billLines.length === 1}
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
+                      <div className="flex justify-between font-bold text-lg">
+                        <span>Total:</span>
+                        <span>£{calculateTotals().total.toFixed(2)}</span>
                       </div>
                     </div>
-                  ))}
-                </div>
-                
-                <div className="mt-4 p-4 bg-muted rounded-lg">
-                  <div className="text-right space-y-2">
-                    <div className="flex justify-between">
-                      <span>Subtotal:</span>
-                      <span>£{calculateTotals().subtotal.toFixed(2)}</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span>VAT:</span>
-                      <span>£{calculateTotals().vatAmount.toFixed(2)}</span>
-                    </div>
-                    <div className="flex justify-between font-bold text-lg">
-                      <span>Total:</span>
-                      <span>£{calculateTotals().total.toFixed(2)}</span>
-                    </div>
                   </div>
                 </div>
-              </div>
 
-              <div className="flex justify-end gap-2">
-                <Button type="button" variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
-                  Cancel
-                </Button>
-                <Button type="submit">
-                  Create Bill
-                </Button>
-              </div>
-            </form>
-          </DialogContent>
-        </Dialog>
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit">
+                    Create Bill
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       <Card>
@@ -445,20 +619,35 @@ const Bills = () => {
                 <TableHead>Date</TableHead>
                 <TableHead>Due Date</TableHead>
                 <TableHead>Total</TableHead>
+                <TableHead>Outstanding</TableHead>
                 <TableHead>Status</TableHead>
                 <TableHead>Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {bills.map((bill) => (
-                <TableRow key={bill.id}>
-                  <TableCell className="font-medium">{bill.bill_number}</TableCell>
+                <TableRow key={bill.id} id={linkedDocumentElementId(bill.id)} className={bill.id === linkedDocumentId ? 'bg-muted' : undefined}>
+                  <TableCell className="font-medium">
+                    <div className="flex items-center gap-1">
+                      {bill.bill_number}
+                      {bill.recurring_bill_id && (
+                        <span title="Generated from a recurring template">
+                          <Repeat className="w-3 h-3 text-muted-foreground" />
+                        </span>
+                      )}
+                    </div>
+                  </TableCell>
                   <TableCell>{bill.suppliers?.name || 'Unknown'}</TableCell>
                   <TableCell>{new Date(bill.date).toLocaleDateString()}</TableCell>
                   <TableCell>
                     {bill.due_date ? new Date(bill.due_date).toLocaleDateString() : '-'}
                   </TableCell>
                   <TableCell>£{bill.total.toFixed(2)}</TableCell>
+                  <TableCell>
+                    {['received', 'overdue'].includes(bill.status)
+                      ? `£${outstandingBalance(bill).toFixed(2)}`
+                      : '-'}
+                  </TableCell>
                   <TableCell>
                     <Badge className={getStatusColor(bill.status)}>
                       {bill.status.replace('_', ' ')}
@@ -469,9 +658,72 @@ const Bills = () => {
                       <Button variant="outline" size="icon">
                         <Eye className="w-4 h-4" />
                       </Button>
-                      <Button variant="outline" size="icon">
-                        <Edit className="w-4 h-4" />
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        title="Attachments"
+                        onClick={() => setAttachmentRecord({ type: 'bill', id: bill.id, label: `Bill ${bill.bill_number}` })}
+                      >
+                        <Paperclip className="w-4 h-4" />
+                        {bill.attachments[0]?.count > 0 && <span className="ml-0.5 text-xs">{bill.attachments[0].count}</span>}
                       </Button>
+                      {canEdit && (
+                        <Button variant="outline" size="icon">
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                      )}
+                      {canEdit && bill.status === 'draft' && approvalsRequired(bill.total) === 0 && (
+                        <Button variant="outline" size="icon" title="Mark as received" onClick={() => updateBillStatus(bill, 'received')}>
+                          <PackageCheck className="w-4 h-4" />
+                        </Button>
+                      )}
+                      {(bill.status === 'awaiting_approval' || (canEdit && bill.status === 'draft' && approvalsRequired(bill.total) > 0)) && (
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          title={bill.status === 'draft' ? 'Submit for approval' : 'Approval'}
+                          onClick={() => openApproval(bill)}
+                        >
+                          <ClipboardCheck className="w-4 h-4" />
+                        </Button>
+                      )}
+                      {canEdit && ['received', 'overdue', 'paid'].includes(bill.status) && (
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          title="Payments"
+                          onClick={() => setPaymentDocument({
+                            type: 'bill',
+                            id: bill.id,
+                            number: bill.bill_number,
+                            total: Number(bill.total),
+                            credited: Number(bill.amount_credited)
+                          })}
+                        >
+                          <PoundSterling className="w-4 h-4" />
+                        </Button>
+                      )}
+                      {canEdit && ['received', 'overdue'].includes(bill.status) && outstandingBalance(bill) > 0 && (
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          title="Record supplier credit note"
+                          onClick={() => setCreditDocument({
+                            type: 'bill',
+                            id: bill.id,
+                            number: bill.bill_number,
+                            date: bill.date,
+                            outstanding: outstandingBalance(bill)
+                          })}
+                        >
+                          <FileMinus className="w-4 h-4" />
+                        </Button>
+                      )}
+                      {canEdit && ['received', 'overdue'].includes(bill.status) && (
+                        <Button variant="outline" size="icon" title="Cancel bill" onClick={() => updateBillStatus(bill, 'cancelled')}>
+                          <XCircle className="w-4 h-4" />
+                        </Button>
+                      )}
                     </div>
                   </TableCell>
                 </TableRow>
@@ -486,6 +738,43 @@ const Bills = () => {
           )}
         </CardContent>
       </Card>
+
+      <PaymentDialog
+        document={paymentDocument}
+        open={!!paymentDocument}
+        onOpenChange={(open) => !open && setPaymentDocument(null)}
+        onPaymentsChanged={fetchData}
+      />
+
+      <CreditNoteDialog
+        document={creditDocument}
+        open={!!creditDocument}
+        onOpenChange={(open) => !open && setCreditDocument(null)}
+        onCreated={fetchData}
+      />
+
+      <BillApprovalDialog
+        bill={approvalBill}
+        open={!!approvalBill}
+        onOpenChange={(open) => !open && setApprovalBill(null)}
+        onChanged={fetchData}
+      />
+
+      <BillImportDialog
+        suppliers={suppliers}
+        taxCodes={taxCodes}
+        expenseAccounts={expenseAccounts}
+        open={isImportDialogOpen}
+        onOpenChange={setIsImportDialogOpen}
+        onImported={fetchData}
+      />
+
+      <AttachmentsDialog
+        record={attachmentRecord}
+        open={!!attachmentRecord}
+        onOpenChange={(open) => !open && setAttachmentRecord(null)}
+        onChanged={fetchData}
+      />
     </div>
   );
 };
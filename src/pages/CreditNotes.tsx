@@ -0,0 +1,401 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Badge } from '@/components/ui/badge';
+import { Eye, Send, PackageCheck, XCircle, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { linkedDocumentElementId, useLinkedDocument } from '@/hooks/useLinkedDocument';
+
+interface CreditNote {
+  id: string;
+  credit_note_number: string;
+  date: string;
+  reason?: string;
+  subtotal: number;
+  vat_amount: number;
+  total: number;
+  status: string;
+  invoice?: { invoice_number: string };
+  customer?: { name: string };
+}
+
+interface SupplierCreditNote {
+  id: string;
+  credit_note_number: string;
+  date: string;
+  reason?: string;
+  subtotal: number;
+  vat_amount: number;
+  total: number;
+  status: string;
+  bill?: { bill_number: string };
+  supplier?: { name: string };
+}
+
+interface CreditNoteLine {
+  id: string;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  line_total: number;
+  vat_amount: number;
+}
+
+interface ViewedCreditNote {
+  title: string;
+  reason?: string;
+  lines: CreditNoteLine[];
+  // Customer credit note lines are net; supplier credit note lines include VAT
+  linesIncludeVat: boolean;
+}
+
+const CreditNotes = () => {
+  const { can } = useAuth();
+  const canEditSales = can('sales.manage');
+  const canEditPurchases = can('purchases.manage');
+  const { toast } = useToast();
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
+  const [supplierCreditNotes, setSupplierCreditNotes] = useState<SupplierCreditNote[]>([]);
+  const [viewing, setViewing] = useState<ViewedCreditNote | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchParams] = useSearchParams();
+  const linkedDocumentId = useLinkedDocument(!isLoading);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [creditNotesResult, supplierCreditNotesResult] = await Promise.all([
+        supabase
+          .from('credit_notes')
+          .select('*, invoice:invoices(invoice_number), customer:customers(name)')
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('supplier_credit_notes')
+          .select('*, bill:bills(bill_number), supplier:suppliers(name)')
+          .order('created_at', { ascending: false })
+      ]);
+
+      if (creditNotesResult.error) throw creditNotesResult.error;
+      if (supplierCreditNotesResult.error) throw supplierCreditNotesResult.error;
+
+      setCreditNotes(creditNotesResult.data || []);
+      setSupplierCreditNotes(supplierCreditNotesResult.data || []);
+    } catch (error) {
+      console.error('Error fetching credit notes:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load credit notes",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const viewCreditNote = async (type: 'customer' | 'supplier', note: CreditNote | SupplierCreditNote) => {
+    const { data, error } = type === 'customer'
+      ? await supabase
+          .from('credit_note_lines')
+          .select('id, description, quantity, unit_price, line_total, vat_amount')
+          .eq('credit_note_id', note.id)
+          .order('created_at')
+      : await supabase
+          .from('supplier_credit_note_lines')
+          .select('id, description, quantity, unit_price, line_total, vat_amount')
+          .eq('supplier_credit_note_id', note.id)
+          .order('created_at');
+
+    if (error) {
+      console.error('Error fetching credit note lines:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load credit note lines",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setViewing({
+      title: note.credit_note_number,
+      reason: note.reason,
+      lines: data || [],
+      linesIncludeVat: type === 'supplier'
+    });
+  };
+
+  // Posting, reversal and the linked document's outstanding balance are handled by the database
+  const updateStatus = async (type: 'customer' | 'supplier', note: CreditNote | SupplierCreditNote, status: string) => {
+    if (status === 'cancelled' && !confirm(
+      note.status === 'draft'
+        ? `Cancel draft credit note ${note.credit_note_number}?`
+        : `Cancel credit note ${note.credit_note_number}? Its journal will be reversed and the balance restored.`
+    )) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from(type === 'customer' ? 'credit_notes' : 'supplier_credit_notes')
+        .update({ status })
+        .eq('id', note.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `Credit note ${note.credit_note_number} ${status}`
+      });
+
+      fetchData();
+    } catch (error) {
+      console.error('Error updating credit note:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to update credit note",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const deleteSupplierCreditNote = async (note: SupplierCreditNote) => {
+    if (!confirm(`Delete draft supplier credit note ${note.credit_note_number}?`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('supplier_credit_notes')
+        .delete()
+        .eq('id', note.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Draft supplier credit note deleted"
+      });
+
+      fetchData();
+    } catch (error) {
+      console.error('Error deleting supplier credit note:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to delete supplier credit note",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const getStatusVariant = (status: string) => {
+    switch (status) {
+      case 'issued':
+      case 'received': return 'default';
+      case 'draft': return 'outline';
+      default: return 'secondary';
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-muted rounded w-1/4"></div>
+          <div className="h-64 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Credit Notes</h1>
+        <p className="text-muted-foreground">
+          Credits against sales invoices and supplier bills. Raise them from the Invoices and Bills pages.
+        </p>
+      </div>
+
+      <Tabs defaultValue={searchParams.get('tab') === 'supplier' ? 'supplier' : 'customer'} className="w-full">
+        <TabsList>
+          <TabsTrigger value="customer">Customer Credit Notes</TabsTrigger>
+          <TabsTrigger value="supplier">Supplier Credit Notes</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="customer">
+          <Card>
+            <CardHeader>
+              <CardTitle>Customer Credit Notes</CardTitle>
+              <CardDescription>Issued credit notes reduce the invoice balance and your sales and output VAT</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Number</TableHead>
+                    <TableHead>Invoice</TableHead>
+                    <TableHead>Customer</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Total</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {creditNotes.map((note) => (
+                    <TableRow key={note.id} id={linkedDocumentElementId(note.id)} className={note.id === linkedDocumentId ? 'bg-muted' : undefined}>
+                      <TableCell className="font-medium">{note.credit_note_number}</TableCell>
+                      <TableCell>{note.invoice?.invoice_number || '-'}</TableCell>
+                      <TableCell>{note.customer?.name || 'Unknown'}</TableCell>
+                      <TableCell>{new Date(note.date).toLocaleDateString()}</TableCell>
+                      <TableCell>£{Number(note.total).toFixed(2)}</TableCell>
+                      <TableCell>
+                        <Badge variant={getStatusVariant(note.status)}>{note.status}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button variant="outline" size="icon" title="View lines" onClick={() => viewCreditNote('customer', note)}>
+                            <Eye className="w-4 h-4" />
+                          </Button>
+                          {canEditSales && note.status === 'draft' && (
+                            <Button variant="outline" size="icon" title="Issue credit note" onClick={() => updateStatus('customer', note, 'issued')}>
+                              <Send className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {canEditSales && note.status !== 'cancelled' && (
+                            <Button variant="outline" size="icon" title="Cancel credit note" onClick={() => updateStatus('customer', note, 'cancelled')}>
+                              <XCircle className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {creditNotes.length === 0 && (
+                <div className="text-center py-8 text-muted-foreground">
+                  No customer credit notes yet.
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="supplier">
+          <Card>
+            <CardHeader>
+              <CardTitle>Supplier Credit Notes</CardTitle>
+              <CardDescription>Received credit notes reduce the bill balance and your purchases and input VAT</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Supplier Ref</TableHead>
+                    <TableHead>Bill</TableHead>
+                    <TableHead>Supplier</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Total</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {supplierCreditNotes.map((note) => (
+                    <TableRow key={note.id} id={linkedDocumentElementId(note.id)} className={note.id === linkedDocumentId ? 'bg-muted' : undefined}>
+                      <TableCell className="font-medium">{note.credit_note_number}</TableCell>
+                      <TableCell>{note.bill?.bill_number || '-'}</TableCell>
+                      <TableCell>{note.supplier?.name || 'Unknown'}</TableCell>
+                      <TableCell>{new Date(note.date).toLocaleDateString()}</TableCell>
+                      <TableCell>£{Number(note.total).toFixed(2)}</TableCell>
+                      <TableCell>
+                        <Badge variant={getStatusVariant(note.status)}>{note.status}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button variant="outline" size="icon" title="View lines" onClick={() => viewCreditNote('supplier', note)}>
+                            <Eye className="w-4 h-4" />
+                          </Button>
+                          {canEditPurchases && note.status === 'draft' && (
+                            <Button variant="outline" size="icon" title="Mark as received" onClick={() => updateStatus('supplier', note, 'received')}>
+                              <PackageCheck className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {canEditPurchases && note.status === 'received' && (
+                            <Button variant="outline" size="icon" title="Cancel credit note" onClick={() => updateStatus('supplier', note, 'cancelled')}>
+                              <XCircle className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {canEditPurchases && note.status === 'draft' && (
+                            <Button variant="outline" size="icon" title="Delete draft" onClick={() => deleteSupplierCreditNote(note)}>
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {supplierCreditNotes.length === 0 && (
+                <div className="text-center py-8 text-muted-foreground">
+                  No supplier credit notes yet.
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {/* Credit Note Lines Dialog */}
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Credit Note {viewing?.title}</DialogTitle>
+            {viewing?.reason && <DialogDescription>{viewing.reason}</DialogDescription>}
+          </DialogHeader>
+
+          {viewing && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Qty</TableHead>
+                  <TableHead className="text-right">Unit Price</TableHead>
+                  <TableHead className="text-right">Net</TableHead>
+                  <TableHead className="text-right">VAT</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {viewing.lines.map((line) => (
+                  <TableRow key={line.id}>
+                    <TableCell>{line.description}</TableCell>
+                    <TableCell className="text-right">{Number(line.quantity)}</TableCell>
+                    <TableCell className="text-right">£{Number(line.unit_price).toFixed(2)}</TableCell>
+                    <TableCell className="text-right">
+                      £{(Number(line.line_total) - (viewing.linesIncludeVat ? Number(line.vat_amount) : 0)).toFixed(2)}
+                    </TableCell>
+                    <TableCell className="text-right">£{Number(line.vat_amount).toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default CreditNotes;
@@ -6,8 +6,10 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Textarea } from '@/components/ui/textarea';
-import { Plus, Edit, Trash2, Users } from 'lucide-react';
+import { Plus, Edit, Trash2, Users, Mail } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import SendEmailDialog, { EmailableDocument } from '@/components/SendEmailDialog';
 
 interface Customer {
   id: string;
@@ -18,11 +20,14 @@ interface Customer {
 }
 
 const Customers = () => {
+  const { can } = useAuth();
+  const canEdit = can('sales.manage');
   const { toast } = useToast();
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [loading, setLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [statementDocument, setStatementDocument] = useState<EmailableDocument | null>(null);
   
   const [formData, setFormData] = useState({
     name: '',
@@ -163,12 +168,14 @@ const Customers = () => {
         </div>
         
         <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={openNewDialog}>
-              <Plus className="w-4 h-4 mr-2" />
-              New Customer
-            </Button>
-          </DialogTrigger>
+          {canEdit && (
+            <DialogTrigger asChild>
+              <Button onClick={openNewDialog}>
+                <Plus className="w-4 h-4 mr-2" />
+                New Customer
+              </Button>
+            </DialogTrigger>
+          )}
           <DialogContent>
             <DialogHeader>
               <DialogTitle>
@@ -268,28 +275,49 @@ const Customers = () => {
                     </div>
                   </div>
                   
-                  <div className="flex gap-2">
-                    <Button 
-                      variant="ghost" 
-                      size="sm"
-                      onClick={() => handleEdit(customer)}
-                    >
-                      <Edit className="w-4 h-4" />
-                    </Button>
-                    <Button 
-                      variant="ghost" 
-                      size="sm"
-                      onClick={() => handleDelete(customer)}
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </Button>
-                  </div>
+                  {canEdit && (
+                    <div className="flex gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Email statement"
+                        onClick={() => setStatementDocument({
+                          type: 'statement',
+                          customerId: customer.id,
+                          title: `Statement for ${customer.name}`,
+                          recipient: customer.email || ''
+                        })}
+                      >
+                        <Mail className="w-4 h-4" />
+                      </Button>
+                      <Button 
+                        variant="ghost" 
+                        size="sm"
+                        onClick={() => handleEdit(customer)}
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button 
+                        variant="ghost" 
+                        size="sm"
+                        onClick={() => handleDelete(customer)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
           )}
         </CardContent>
       </Card>
+
+      <SendEmailDialog
+        document={statementDocument}
+        open={!!statementDocument}
+        onOpenChange={(open) => !open && setStatementDocument(null)}
+      />
     </div>
   );
 };
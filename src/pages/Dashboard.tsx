@@ -13,6 +13,9 @@ import {
 
 interface DashboardStats {
   totalCash: number;
+  bankAccountCount: number;
+  // Balances in other currencies, which cannot be added to the sterling total
+  foreignCash: { currency: string; amount: number }[];
   unpaidInvoices: number;
   unpaidInvoicesAmount: number;
   overdueInvoices: number;
@@ -24,6 +27,8 @@ interface DashboardStats {
 const Dashboard = () => {
   const [stats, setStats] = useState<DashboardStats>({
     totalCash: 0,
+    bankAccountCount: 0,
+    foreignCash: [],
     unpaidInvoices: 0,
     unpaidInvoicesAmount: 0,
     overdueInvoices: 0,
@@ -59,16 +64,27 @@ const Dashboard = () => {
         .order('created_at', { ascending: false })
         .limit(5);
 
-      // Get current account balance (simplified - in reality you'd calculate from transactions)
-      const { data: bankTransactions } = await supabase
-        .from('bank_transactions')
-        .select('amount');
+      // Bank balances per the statements: each account's opening balance plus its transactions
+      const { data: bankAccounts } = await supabase
+        .from('bank_accounts')
+        .select('id, currency');
 
-      const totalCash = bankTransactions?.reduce((sum, tx) => sum + Number(tx.amount), 0) || 0;
+      const { data: bankBalances } = await supabase.rpc('bank_account_balances');
+
+      const cashByCurrency = new Map<string, number>();
+      bankBalances?.forEach(balance => {
+        const currency = bankAccounts?.find(account => account.id === balance.bank_account_id)?.currency || 'GBP';
+        cashByCurrency.set(currency, (cashByCurrency.get(currency) || 0) + Number(balance.statement_balance));
+      });
+
+      const totalCash = cashByCurrency.get('GBP') || 0;
+      const foreignCash = [...cashByCurrency.entries()]
+        .filter(([currency]) => currency !== 'GBP')
+        .map(([currency, amount]) => ({ currency, amount }));
 
       // Calculate stats
       const unpaidInvoices = invoices?.length || 0;
-      const unpaidInvoicesAmount = invoices?.reduce((sum, inv) => sum + Number(inv.total), 0) || 0;
+      const unpaidInvoicesAmount = invoices?.reduce((sum, inv) => sum + Number(inv.total) - Number(inv.amount_paid) - Number(inv.amount_credited), 0) || 0;
       const overdueInvoices = invoices?.filter(inv => inv.status === 'overdue').length || 0;
       
       // Calculate VAT owed (simplified)
@@ -76,6 +92,8 @@ const Dashboard = () => {
 
       setStats({
         totalCash,
+        bankAccountCount: bankBalances?.length || 0,
+        foreignCash,
         unpaidInvoices,
         unpaidInvoicesAmount,
         overdueInvoices,
@@ -121,7 +139,14 @@ const Dashboard = () => {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">£{stats.totalCash.toLocaleString()}</div>
-            <p className="text-xs text-muted-foreground">Current account balance</p>
+            <p className="text-xs text-muted-foreground">
+              {stats.bankAccountCount === 1 ? '1 bank account' : `${stats.bankAccountCount} bank accounts`}
+              {stats.foreignCash.map(({ currency, amount }) => (
+                <span key={currency} className="block">
+                  + {new Intl.NumberFormat('en-GB', { style: 'currency', currency }).format(amount)}
+                </span>
+              ))}
+            </p>
           </CardContent>
         </Card>
 
@@ -7,8 +7,16 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Plus, Eye, Edit, Trash2 } from 'lucide-react';
+import { Plus, Eye, Edit, Trash2, Send, XCircle, PoundSterling, Hash, FileDown, Mail, FileMinus, Repeat, Paperclip } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { linkedDocumentElementId, useLinkedDocument } from '@/hooks/useLinkedDocument';
+import PaymentDialog, { PayableDocument } from '@/components/PaymentDialog';
+import SendEmailDialog, { EmailableDocument } from '@/components/SendEmailDialog';
+import CreditNoteDialog, { CreditableDocument } from '@/components/CreditNoteDialog';
+import AttachmentsDialog from '@/components/AttachmentsDialog';
+import { AttachmentRecord } from '@/lib/attachments';
+import { loadInvoicePdfData, loadIssuedInvoicePdf, renderInvoicePdf, renderIssuedInvoicePdf } from '@/lib/invoice-pdf';
 
 interface Customer {
   id: string;
@@ -31,29 +39,74 @@ interface Invoice {
   subtotal: number;
   vat_amount: number;
   total: number;
+  amount_paid: number;
+  amount_credited: number;
   status: string;
-  customer: { name: string };
+  last_sent_at?: string;
+  recurring_invoice_id?: string;
+  auto_send_pending?: boolean;
+  customer: { name: string; email?: string };
+  attachments: { count: number }[];
 }
 
+interface InvoiceNumbering {
+  prefix: string;
+  next_number: number;
+  padding: number;
+  credit_note_prefix: string;
+  credit_note_next_number: number;
+}
+
+const emptyInvoice = () => ({
+  customer_id: '',
+  date: new Date().toISOString().split('T')[0],
+  due_date: '',
+  lines: [{
+    description: '',
+    quantity: 1,
+    unit_price: 0,
+    tax_code_id: '',
+  }]
+});
+
+const defaultNumbering: InvoiceNumbering = {
+  prefix: 'INV-',
+  next_number: 1,
+  padding: 4,
+  credit_note_prefix: 'CN-',
+  credit_note_next_number: 1
+};
+
+const formatInvoiceNumber = ({ prefix, next_number, padding }: InvoiceNumbering) =>
+  `${prefix}${String(next_number).padStart(padding, '0')}`;
+
+const formatCreditNoteNumber = ({ credit_note_prefix, credit_note_next_number, padding }: InvoiceNumbering) =>
+  `${credit_note_prefix}${String(credit_note_next_number).padStart(padding, '0')}`;
+
+const outstandingBalance = (invoice: Invoice) =>
+  Number(invoice.total) - Number(invoice.amount_paid) - Number(invoice.amount_credited);
+
 const Invoices = () => {
   const { toast } = useToast();
+  const { can } = useAuth();
+  const canEdit = can('sales.manage');
   const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [taxCodes, setTaxCodes] = useState<TaxCode[]>([]);
   const [loading, setLoading] = useState(true);
+  const linkedDocumentId = useLinkedDocument(!loading);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [paymentDocument, setPaymentDocument] = useState<PayableDocument | null>(null);
+  const [editingInvoice, setEditingInvoice] = useState<Invoice | null>(null);
+  const [numbering, setNumbering] = useState<InvoiceNumbering>(defaultNumbering);
+  const [numberingForm, setNumberingForm] = useState<InvoiceNumbering>(defaultNumbering);
+  const [isNumberingDialogOpen, setIsNumberingDialogOpen] = useState(false);
+  const [emailInvoice, setEmailInvoice] = useState<Invoice | null>(null);
+  const [emailDocument, setEmailDocument] = useState<EmailableDocument | null>(null);
+  const [creditDocument, setCreditDocument] = useState<CreditableDocument | null>(null);
+  const [attachmentRecord, setAttachmentRecord] = useState<AttachmentRecord | null>(null);
   
-  const [newInvoice, setNewInvoice] = useState({
-    customer_id: '',
-    date: new Date().toISOString().split('T')[0],
-    due_date: '',
-    lines: [{
-      description: '',
-      quantity: 1,
-      unit_price: 0,
-      tax_code_id: '',
-    }]
-  });
+  const [newInvoice, setNewInvoice] = useState(emptyInvoice());
 
   useEffect(() => {
     fetchData();
@@ -61,12 +114,17 @@ const Invoices = () => {
 
   const fetchData = async () => {
     try {
+      // Sent invoices past their due date become overdue before we list them
+      const { error: overdueError } = await supabase.rpc('mark_overdue_invoices');
+      if (overdueError) console.error('Error marking overdue invoices:', overdueError);
+
       // Fetch invoices
       const { data: invoicesData } = await supabase
         .from('invoices')
         .select(`
           *,
-          customer:customers(name)
+          customer:customers(name, email),
+          attachments(count)
         `)
         .order('created_at', { ascending: false });
 
@@ -82,9 +140,16 @@ const Invoices = () => {
         .select('*')
         .order('rate', { ascending: false });
 
+      // Fetch numbering settings (created with defaults on first invoice)
+      const { data: numberingData } = await supabase
+        .from('invoice_number_sequences')
+        .select('prefix, next_number, padding, credit_note_prefix, credit_note_next_number')
+        .maybeSingle();
+
       setInvoices(invoicesData || []);
       setCustomers(customersData || []);
       setTaxCodes(taxCodesData || []);
+      setNumbering(numberingData || defaultNumbering);
     } catch (error) {
       console.error('Error fetching data:', error);
       toast({
@@ -147,81 +212,225 @@ const Invoices = () => {
     }
   };
 
-  const createInvoice = async () => {
+  const openNewDialog = () => {
+    setEditingInvoice(null);
+    setNewInvoice(emptyInvoice());
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = async (invoice: Invoice) => {
     try {
-      const { subtotal, vatTotal, total } = calculateInvoiceTotal();
-      
-      // Generate invoice number
-      const invoiceNumber = `INV-${Date.now()}`;
+      const { data: lines, error } = await supabase
+        .from('invoice_lines')
+        .select('description, quantity, unit_price, tax_code_id')
+        .eq('invoice_id', invoice.id)
+        .order('created_at');
 
-      // Insert invoice
-      const { data: invoice, error: invoiceError } = await supabase
-        .from('invoices')
-        .insert({
+      if (error) throw error;
+
+      setEditingInvoice(invoice);
+      setNewInvoice({
+        customer_id: invoice.customer_id,
+        date: invoice.date,
+        due_date: invoice.due_date || '',
+        lines: (lines && lines.length > 0 ? lines : emptyInvoice().lines).map(line => ({
+          description: line.description,
+          quantity: Number(line.quantity),
+          unit_price: Number(line.unit_price),
+          tax_code_id: line.tax_code_id || '',
+        }))
+      });
+      setIsDialogOpen(true);
+    } catch (error) {
+      console.error('Error loading invoice:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load invoice",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const saveInvoice = async () => {
+    try {
+      // The invoice and its lines are saved together; the database numbers new invoices, works
+      // out the totals and rejects changes to issued invoices
+      const { data: invoice, error } = await supabase.rpc('save_invoice', {
+        _invoice_id: editingInvoice?.id,
+        _invoice: {
           customer_id: newInvoice.customer_id,
-          invoice_number: invoiceNumber,
           date: newInvoice.date,
-          due_date: newInvoice.due_date,
-          subtotal,
-          vat_amount: vatTotal,
-          total,
-          status: 'draft'
-        })
-        .select()
-        .single();
-
-      if (invoiceError) throw invoiceError;
-
-      // Insert invoice lines
-      const linesData = newInvoice.lines.map(line => {
-        const { lineTotal, vatAmount } = calculateLineTotal(line);
-        return {
-          invoice_id: invoice.id,
+          due_date: newInvoice.due_date || null
+        },
+        _lines: newInvoice.lines.map(line => ({
           description: line.description,
           quantity: line.quantity,
           unit_price: line.unit_price,
-          tax_code_id: line.tax_code_id || null,
-          line_total: lineTotal,
-          vat_amount: vatAmount
-        };
+          tax_code_id: line.tax_code_id || null
+        }))
       });
 
-      const { error: linesError } = await supabase
-        .from('invoice_lines')
-        .insert(linesData);
-
-      if (linesError) throw linesError;
+      if (error) throw error;
 
       toast({
         title: "Success",
-        description: "Invoice created successfully"
+        description: editingInvoice
+          ? `Invoice ${invoice.invoice_number} updated successfully`
+          : `Invoice ${invoice.invoice_number} created successfully`
       });
 
       setIsDialogOpen(false);
+      setEditingInvoice(null);
+      setNewInvoice(emptyInvoice());
       fetchData();
-      
-      // Reset form
-      setNewInvoice({
-        customer_id: '',
-        date: new Date().toISOString().split('T')[0],
-        due_date: '',
-        lines: [{
-          description: '',
-          quantity: 1,
-          unit_price: 0,
-          tax_code_id: '',
-        }]
+    } catch (error) {
+      console.error('Error saving invoice:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to save invoice",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const openNumberingDialog = () => {
+    setNumberingForm(numbering);
+    setIsNumberingDialogOpen(true);
+  };
+
+  const saveNumbering = async () => {
+    try {
+      const { error } = await supabase
+        .from('invoice_number_sequences')
+        .upsert({
+          prefix: numberingForm.prefix,
+          next_number: numberingForm.next_number,
+          padding: numberingForm.padding,
+          credit_note_prefix: numberingForm.credit_note_prefix,
+          credit_note_next_number: numberingForm.credit_note_next_number,
+          updated_at: new Date().toISOString()
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `The next invoice will be numbered ${formatInvoiceNumber(numberingForm)}`
+      });
+
+      setNumbering(numberingForm);
+      setIsNumberingDialogOpen(false);
+    } catch (error) {
+      console.error('Error saving invoice numbering:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to save invoice numbering",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const updateInvoiceStatus = async (invoice: Invoice, status: 'sent' | 'cancelled') => {
+    const cancelMessage = invoice.status === 'draft'
+      ? `Cancel draft invoice ${invoice.invoice_number}? Its number will be kept as cancelled.`
+      : `Cancel invoice ${invoice.invoice_number}? Its ledger posting will be reversed.`;
+
+    if (status === 'cancelled' && !confirm(cancelMessage)) {
+      return;
+    }
+
+    try {
+      // Posting and reversal journals are created by the database when the status changes
+      const { error } = await supabase
+        .from('invoices')
+        .update({ status })
+        .eq('id', invoice.id);
+
+      if (error) throw error;
+
+      // The issued invoice is filed now; if that fails it is filed the next time it is downloaded
+      if (status === 'sent') {
+        await loadIssuedInvoicePdf(invoice.id, true).catch(fileError => console.error('Error filing invoice PDF:', fileError));
+      }
+
+      toast({
+        title: "Success",
+        description: status === 'sent'
+          ? `Invoice ${invoice.invoice_number} sent and posted to the ledger`
+          : `Invoice ${invoice.invoice_number} cancelled`
+      });
+
+      fetchData();
+    } catch (error) {
+      console.error('Error updating invoice status:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to update invoice status",
+        variant: "destructive"
       });
+    }
+  };
+
+  const downloadInvoicePdf = async (invoice: Invoice) => {
+    try {
+      // Issued invoices are downloaded as the copy filed when they were issued
+      if (invoice.status !== 'draft') {
+        const url = URL.createObjectURL(await loadIssuedInvoicePdf(invoice.id, canEdit));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${invoice.invoice_number}.pdf`;
+        link.click();
+        URL.revokeObjectURL(url);
+        return;
+      }
+
+      const pdfData = await loadInvoicePdfData(invoice.id);
+
+      if (!pdfData.company.company_name) {
+        toast({
+          title: "Company details missing",
+          description: "Add your company details in Settings so they appear on the invoice",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      renderInvoicePdf(pdfData).save(`${invoice.invoice_number}.pdf`);
     } catch (error) {
-      console.error('Error creating invoice:', error);
+      console.error('Error generating invoice PDF:', error);
       toast({
         title: "Error",
-        description: "Failed to create invoice",
+        description: "Failed to generate invoice PDF",
         variant: "destructive"
       });
     }
   };
 
+  const openEmailDialog = (invoice: Invoice) => {
+    setEmailInvoice(invoice);
+    setEmailDocument({
+      type: 'invoice',
+      customerId: invoice.customer_id,
+      invoiceId: invoice.id,
+      title: `Invoice ${invoice.invoice_number}`,
+      recipient: invoice.customer.email || ''
+    });
+  };
+
+  // A draft is issued by the send itself, once the email has gone, with the PDF rendered here as
+  // it will be issued. Issued invoices are sent with the copy filed when they were issued.
+  const prepareInvoiceForEmail = async () => {
+    if (!emailInvoice) return;
+
+    if (emailInvoice.status !== 'draft') {
+      await loadIssuedInvoicePdf(emailInvoice.id, true);
+      return;
+    }
+
+    const pdfData = await loadInvoicePdfData(emailInvoice.id);
+    return { pdf: btoa(renderIssuedInvoicePdf(pdfData).output()) };
+  };
+
   const getStatusVariant = (status: string) => {
     switch (status) {
       case 'paid': return 'default';
@@ -251,172 +460,273 @@ const Invoices = () => {
           <p className="text-muted-foreground">Manage your sales invoices</p>
         </div>
         
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="w-4 h-4 mr-2" />
-              New Invoice
+        <div className="flex gap-2">
+          {canEdit && (
+            <Button variant="outline" onClick={openNumberingDialog}>
+              <Hash className="w-4 h-4 mr-2" />
+              Numbering
             </Button>
-          </DialogTrigger>
-          <DialogContent className="w-full max-w-4xl max-h-[90vh] overflow-y-auto mx-4">
-            <DialogHeader>
-              <DialogTitle>Create New Invoice</DialogTitle>
-              <DialogDescription>
-                Create a new invoice for your customer
-              </DialogDescription>
-            </DialogHeader>
+          )}
+
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            {canEdit && (
+              <DialogTrigger asChild>
+                <Button onClick={openNewDialog}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  New Invoice
+                </Button>
+              </DialogTrigger>
+            )}
+            <DialogContent className="w-full max-w-4xl max-h-[90vh] overflow-y-auto mx-4">
+              <DialogHeader>
+                <DialogTitle>
+                  {editingInvoice ? `Edit Invoice ${editingInvoice.invoice_number}` : 'Create New Invoice'}
+                </DialogTitle>
+                <DialogDescription>
+                  {editingInvoice
+                    ? 'Draft invoices can be edited until they are sent'
+                    : `Create a new invoice for your customer. It will be numbered ${formatInvoiceNumber(numbering)}.`
+                  }
+                </DialogDescription>
+              </DialogHeader>
             
-            <div className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label>Customer</Label>
-                  <Select value={newInvoice.customer_id} onValueChange={(value) => 
-                    setNewInvoice(prev => ({ ...prev, customer_id: value }))
-                  }>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select customer" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {customers.map(customer => (
-                        <SelectItem key={customer.id} value={customer.id}>
-                          {customer.name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
+              <div className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Customer</Label>
+                    <Select value={newInvoice.customer_id} onValueChange={(value) => 
+                      setNewInvoice(prev => ({ ...prev, customer_id: value }))
+                    }>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select customer" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {customers.map(customer => (
+                          <SelectItem key={customer.id} value={customer.id}>
+                            {customer.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 
-                <div className="space-y-2">
-                  <Label>Invoice Date</Label>
-                  <Input
-                    type="date"
-                    value={newInvoice.date}
-                    onChange={(e) => setNewInvoice(prev => ({ ...prev, date: e.target.value }))}
-                  />
-                </div>
+                  <div className="space-y-2">
+                    <Label>Invoice Date</Label>
+                    <Input
+                      type="date"
+                      value={newInvoice.date}
+                      onChange={(e) => setNewInvoice(prev => ({ ...prev, date: e.target.value }))}
+                    />
+                  </div>
                 
-                <div className="space-y-2">
-                  <Label>Due Date</Label>
-                  <Input
-                    type="date"
-                    value={newInvoice.due_date}
-                    onChange={(e) => setNewInvoice(prev => ({ ...prev, due_date: e.target.value }))}
-                  />
+                  <div className="space-y-2">
+                    <Label>Due Date</Label>
+                    <Input
+                      type="date"
+                      value={newInvoice.due_date}
+                      onChange={(e) => setNewInvoice(prev => ({ ...prev, due_date: e.target.value }))}
+                    />
+                  </div>
                 </div>
-              </div>
 
-              {/* Invoice Lines */}
-              <div className="space-y-4">
-                <div className="flex justify-between items-center">
-                  <Label className="text-base font-semibold">Invoice Lines</Label>
-                  <Button type="button" variant="outline" size="sm" onClick={addLine}>
-                    <Plus className="w-4 h-4 mr-2" />
-                    Add Line
-                  </Button>
-                </div>
+                {/* Invoice Lines */}
+                <div className="space-y-4">
+                  <div className="flex justify-between items-center">
+                    <Label className="text-base font-semibold">Invoice Lines</Label>
+                    <Button type="button" variant="outline" size="sm" onClick={addLine}>
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add Line
+                    </Button>
+                  </div>
                 
-                {newInvoice.lines.map((line, index) => (
-                  <div key={index} className="p-4 border rounded-lg space-y-4">
-                    <div className="flex justify-between items-center">
-                      <span className="font-medium">Line {index + 1}</span>
-                      {newInvoice.lines.length > 1 && (
-                        <Button
-                          type="button"
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => removeLine(index)}
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
-                      )}
-                    </div>
-                    
-                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                      <div className="space-y-2">
-                        <Label>Description</Label>
-                        <Input
-                          value={line.description}
-                          onChange={(e) => updateLine(index, 'description', e.target.value)}
-                          placeholder="Product or service description"
-                        />
+                  {newInvoice.lines.map((line, index) => (
+                    <div key={index} className="p-4 border rounded-lg space-y-4">
+                      <div className="flex justify-between items-center">
+                        <span className="font-medium">Line {index + 1}</span>
+                        {newInvoice.lines.length > 1 && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => removeLine(index)}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
                       </div>
+                    
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label>Description</Label>
+                          <Input
+                            value={line.description}
+                            onChange={(e) => updateLine(index, 'description', e.target.value)}
+                            placeholder="Product or service description"
+                          />
+                        </div>
                       
-                      <div className="space-y-2">
-                        <Label>Tax Code</Label>
-                        <Select 
-                          value={line.tax_code_id} 
-                          onValueChange={(value) => updateLine(index, 'tax_code_id', value)}
-                        >
-                          <SelectTrigger>
-                            <SelectValue placeholder="Select tax code" />
-                          </SelectTrigger>
-                          <SelectContent>
-                            {taxCodes.map(taxCode => (
-                              <SelectItem key={taxCode.id} value={taxCode.id}>
-                                {taxCode.name} ({taxCode.rate}%)
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                      </div>
+                        <div className="space-y-2">
+                          <Label>Tax Code</Label>
+                          <Select 
+                            value={line.tax_code_id} 
+                            onValueChange={(value) => updateLine(index, 'tax_code_id', value)}
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select tax code" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {taxCodes.map(taxCode => (
+                                <SelectItem key={taxCode.id} value={taxCode.id}>
+                                  {taxCode.name} ({taxCode.rate}%)
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
                       
-                      <div className="space-y-2">
-                        <Label>Quantity</Label>
-                        <Input
-                          type="number"
-                          min="0"
-                          step="0.01"
-                          value={line.quantity}
-                          onChange={(e) => updateLine(index, 'quantity', parseFloat(e.target.value) || 0)}
-                        />
-                      </div>
+                        <div className="space-y-2">
+                          <Label>Quantity</Label>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={line.quantity}
+                            onChange={(e) => updateLine(index, 'quantity', parseFloat(e.target.value) || 0)}
+                          />
+                        </div>
                       
-                      <div className="space-y-2">
-                        <Label>Unit Price (£)</Label>
-                        <Input
-                          type="number"
-                          min="0"
-                          step="0.01"
-                          value={line.unit_price}
-                          onChange={(e) => updateLine(index, 'unit_price', parseFloat(e.target.value) || 0)}
-                        />
+                        <div className="space-y-2">
+                          <Label>Unit Price (£)</Label>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={line.unit_price}
+                            onChange={(e) => updateLine(index, 'unit_price', parseFloat(e.target.value) || 0)}
+                          />
+                        </div>
                       </div>
                     </div>
-                  </div>
-                ))}
-              </div>
+                  ))}
+                </div>
 
-              {/* Totals */}
-              <div className="border-t pt-4">
-                <div className="space-y-2 text-right">
-                  <div className="flex justify-between">
-                    <span>Subtotal:</span>
-                    <span>£{calculateInvoiceTotal().subtotal.toFixed(2)}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span>VAT:</span>
-                    <span>£{calculateInvoiceTotal().vatTotal.toFixed(2)}</span>
-                  </div>
-                  <div className="flex justify-between font-bold text-lg">
-                    <span>Total:</span>
-                    <span>£{calculateInvoiceTotal().total.toFixed(2)}</span>
+                {/* Totals */}
+                <div className="border-t pt-4">
+                  <div className="space-y-2 text-right">
+                    <div className="flex justify-between">
+                      <span>Subtotal:</span>
+                      <span>£{calculateInvoiceTotal().subtotal.toFixed(2)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>VAT:</span>
+                      <span>£{calculateInvoiceTotal().vatTotal.toFixed(2)}</span>
+                    </div>
+                    <div className="flex justify-between font-bold text-lg">
+                      <span>Total:</span>
+                      <span>£{calculateInvoiceTotal().total.toFixed(2)}</span>
+                    </div>
                   </div>
                 </div>
               </div>
-            </div>
 
-            <DialogFooter>
-              <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
-                Cancel
-              </Button>
-              <Button onClick={createInvoice}>
-                Create Invoice
-              </Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={saveInvoice} disabled={!newInvoice.customer_id}>
+                  {editingInvoice ? 'Update Invoice' : 'Create Invoice'}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
+      {/* Numbering Dialog */}
+      <Dialog open={isNumberingDialogOpen} onOpenChange={setIsNumberingDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Invoice Numbering</DialogTitle>
+            <DialogDescription>
+              Invoice and credit note numbers are allocated in sequence when created and are never reused. The next number cannot go back to one already used, and changes are kept in the audit log.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="numbering-prefix">Prefix</Label>
+              <Input
+                id="numbering-prefix"
+                value={numberingForm.prefix}
+                onChange={(e) => setNumberingForm(prev => ({ ...prev, prefix: e.target.value }))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="numbering-next">Next Number</Label>
+              <Input
+                id="numbering-next"
+                type="number"
+                min="1"
+                step="1"
+                value={numberingForm.next_number}
+                onChange={(e) => setNumberingForm(prev => ({ ...prev, next_number: parseInt(e.target.value) || 1 }))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="numbering-padding">Digits</Label>
+              <Input
+                id="numbering-padding"
+                type="number"
+                min="0"
+                max="10"
+                step="1"
+                value={numberingForm.padding}
+                onChange={(e) => setNumberingForm(prev => ({ ...prev, padding: parseInt(e.target.value) || 0 }))}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="numbering-credit-prefix">Credit Note Prefix</Label>
+              <Input
+                id="numbering-credit-prefix"
+                value={numberingForm.credit_note_prefix}
+                onChange={(e) => setNumberingForm(prev => ({ ...prev, credit_note_prefix: e.target.value }))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="numbering-credit-next">Next Credit Note</Label>
+              <Input
+                id="numbering-credit-next"
+                type="number"
+                min="1"
+                step="1"
+                value={numberingForm.credit_note_next_number}
+                onChange={(e) => setNumberingForm(prev => ({ ...prev, credit_note_next_number: parseInt(e.target.value) || 1 }))}
+              />
+            </div>
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            Next invoice: <span className="font-medium text-foreground">{formatInvoiceNumber(numberingForm)}</span>
+            {' · '}Next credit note: <span className="font-medium text-foreground">{formatCreditNoteNumber(numberingForm)}</span>
+          </p>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsNumberingDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={saveNumbering}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Invoices List */}
       <Card>
         <CardHeader>
@@ -434,23 +744,54 @@ const Invoices = () => {
           ) : (
             <div className="space-y-4">
               {invoices.map((invoice) => (
-                <div key={invoice.id} className="flex flex-col sm:flex-row sm:items-center justify-between p-4 border rounded-lg space-y-3 sm:space-y-0">
+                <div
+                  key={invoice.id}
+                  id={linkedDocumentElementId(invoice.id)}
+                  className={`flex flex-col sm:flex-row sm:items-center justify-between p-4 border rounded-lg space-y-3 sm:space-y-0 ${invoice.id === linkedDocumentId ? 'ring-2 ring-primary' : ''}`}
+                >
                   <div className="flex flex-col sm:flex-row sm:items-center gap-4 flex-1">
                     <div className="flex items-center gap-4 flex-1">
                       <div>
-                        <p className="font-semibold">{invoice.invoice_number}</p>
+                        <p className="font-semibold flex items-center gap-1">
+                          {invoice.invoice_number}
+                          {invoice.recurring_invoice_id && (
+                            <span title="Generated from a recurring template">
+                              <Repeat className="w-3 h-3 text-muted-foreground" />
+                            </span>
+                          )}
+                        </p>
                         <p className="text-sm text-muted-foreground">{invoice.customer.name}</p>
                       </div>
                       <Badge variant={getStatusVariant(invoice.status)}>
                         {invoice.status}
                       </Badge>
+                      {invoice.auto_send_pending && (
+                        <Badge variant="outline" title="Will be emailed and issued by the next scheduled run">
+                          queued to send
+                        </Badge>
+                      )}
                     </div>
                     
                     <div className="text-left sm:text-right">
                       <p className="font-semibold">£{Number(invoice.total).toLocaleString()}</p>
+                      {(Number(invoice.amount_paid) > 0 || Number(invoice.amount_credited) > 0) && invoice.status !== 'paid' && (
+                        <p className="text-sm text-muted-foreground">
+                          £{outstandingBalance(invoice).toLocaleString()} outstanding
+                        </p>
+                      )}
+                      {Number(invoice.amount_credited) > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          £{Number(invoice.amount_credited).toLocaleString()} credited
+                        </p>
+                      )}
                       <p className="text-sm text-muted-foreground">
                         {new Date(invoice.date).toLocaleDateString()}
                       </p>
+                      {invoice.last_sent_at && (
+                        <p className="text-xs text-muted-foreground">
+                          Emailed {new Date(invoice.last_sent_at).toLocaleDateString()}
+                        </p>
+                      )}
                     </div>
                   </div>
                   
@@ -458,9 +799,70 @@ const Invoices = () => {
                     <Button variant="ghost" size="sm">
                       <Eye className="w-4 h-4" />
                     </Button>
-                    <Button variant="ghost" size="sm">
-                      <Edit className="w-4 h-4" />
+                    <Button variant="ghost" size="sm" title="Download PDF" onClick={() => downloadInvoicePdf(invoice)}>
+                      <FileDown className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Attachments"
+                      onClick={() => setAttachmentRecord({ type: 'invoice', id: invoice.id, label: `Invoice ${invoice.invoice_number}` })}
+                    >
+                      <Paperclip className="w-4 h-4" />
+                      {invoice.attachments[0]?.count > 0 && <span className="ml-1 text-xs">{invoice.attachments[0].count}</span>}
                     </Button>
+                    {canEdit && invoice.status !== 'cancelled' && (
+                      <Button variant="ghost" size="sm" title="Email to customer" onClick={() => openEmailDialog(invoice)}>
+                        <Mail className="w-4 h-4" />
+                      </Button>
+                    )}
+                    {canEdit && invoice.status === 'draft' && (
+                      <Button variant="ghost" size="sm" title="Edit draft" onClick={() => openEditDialog(invoice)}>
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                    )}
+                    {canEdit && invoice.status === 'draft' && (
+                      <Button variant="ghost" size="sm" title="Mark as sent" onClick={() => updateInvoiceStatus(invoice, 'sent')}>
+                        <Send className="w-4 h-4" />
+                      </Button>
+                    )}
+                    {canEdit && ['sent', 'overdue', 'paid'].includes(invoice.status) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Payments"
+                        onClick={() => setPaymentDocument({
+                          type: 'invoice',
+                          id: invoice.id,
+                          number: invoice.invoice_number,
+                          total: Number(invoice.total),
+                          credited: Number(invoice.amount_credited)
+                        })}
+                      >
+                        <PoundSterling className="w-4 h-4" />
+                      </Button>
+                    )}
+                    {canEdit && ['sent', 'overdue'].includes(invoice.status) && outstandingBalance(invoice) > 0 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Raise credit note"
+                        onClick={() => setCreditDocument({
+                          type: 'invoice',
+                          id: invoice.id,
+                          number: invoice.invoice_number,
+                          date: invoice.date,
+                          outstanding: outstandingBalance(invoice)
+                        })}
+                      >
+                        <FileMinus className="w-4 h-4" />
+                      </Button>
+                    )}
+                    {canEdit && ['draft', 'sent', 'overdue'].includes(invoice.status) && (
+                      <Button variant="ghost" size="sm" title="Cancel invoice" onClick={() => updateInvoiceStatus(invoice, 'cancelled')}>
+                        <XCircle className="w-4 h-4" />
+                      </Button>
+                    )}
                   </div>
                 </div>
               ))}
@@ -468,6 +870,40 @@ const Invoices = () => {
           )}
         </CardContent>
       </Card>
+
+      <PaymentDialog
+        document={paymentDocument}
+        open={!!paymentDocument}
+        onOpenChange={(open) => !open && setPaymentDocument(null)}
+        onPaymentsChanged={fetchData}
+      />
+
+      <SendEmailDialog
+        document={emailDocument}
+        open={!!emailDocument}
+        onOpenChange={(open) => {
+          if (!open) {
+            setEmailDocument(null);
+            setEmailInvoice(null);
+          }
+        }}
+        onBeforeSend={prepareInvoiceForEmail}
+        onSent={fetchData}
+      />
+
+      <CreditNoteDialog
+        document={creditDocument}
+        open={!!creditDocument}
+        onOpenChange={(open) => !open && setCreditDocument(null)}
+        onCreated={fetchData}
+      />
+
+      <AttachmentsDialog
+        record={attachmentRecord}
+        open={!!attachmentRecord}
+        onOpenChange={(open) => !open && setAttachmentRecord(null)}
+        onChanged={fetchData}
+      />
     </div>
   );
 };
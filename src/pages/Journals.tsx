@@ -0,0 +1,556 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Trash2, Eye, Undo2, AlertCircle, Paperclip } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { linkedDocumentElementId, useLinkedDocument } from '@/hooks/useLinkedDocument';
+import AttachmentsDialog from '@/components/AttachmentsDialog';
+import { AttachmentRecord } from '@/lib/attachments';
+import { SOURCE_LABELS } from '@/lib/general-ledger';
+
+interface Account {
+  id: string;
+  account_code?: string;
+  account_name: string;
+  account_type: string;
+}
+
+interface JournalLine {
+  id: string;
+  account_id: string;
+  description?: string;
+  debit_amount: number;
+  credit_amount: number;
+  account?: { account_code?: string; account_name: string };
+}
+
+interface Journal {
+  id: string;
+  date: string;
+  reference: string;
+  description?: string;
+  source_type: string;
+  reverses_journal_id?: string;
+  created_at: string;
+  journal_lines: JournalLine[];
+  attachments: { count: number }[];
+}
+
+interface DraftLine {
+  account_id: string;
+  description: string;
+  debit_amount: number;
+  credit_amount: number;
+}
+
+const emptyLine = (): DraftLine => ({ account_id: '', description: '', debit_amount: 0, credit_amount: 0 });
+
+const Journals = () => {
+  const { can } = useAuth();
+  const canEdit = can('journals.manage');
+  const [journals, setJournals] = useState<Journal[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [viewingJournal, setViewingJournal] = useState<Journal | null>(null);
+  const [attachmentRecord, setAttachmentRecord] = useState<AttachmentRecord | null>(null);
+  const [sourceFilter, setSourceFilter] = useState('all');
+  const [searchParams] = useSearchParams();
+  // The general ledger links to a journal by its reference
+  const [search, setSearch] = useState(searchParams.get('search') || '');
+  const { toast } = useToast();
+  const linkedDocumentId = useLinkedDocument(!isLoading);
+
+  // Form state
+  const [formData, setFormData] = useState({
+    date: new Date().toISOString().split('T')[0],
+    reference: '',
+    description: ''
+  });
+  const [lines, setLines] = useState<DraftLine[]>([emptyLine(), emptyLine()]);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [journalsResult, accountsResult] = await Promise.all([
+        supabase
+          .from('journals')
+          .select(`
+            *,
+            journal_lines (
+              id,
+              account_id,
+              description,
+              debit_amount,
+              credit_amount,
+              account:chart_of_accounts (account_code, account_name)
+            ),
+            attachments(count)
+          `)
+          .order('date', { ascending: false })
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('chart_of_accounts')
+          .select('id, account_code, account_name, account_type')
+          .order('account_code')
+      ]);
+
+      if (journalsResult.error) throw journalsResult.error;
+      if (accountsResult.error) throw accountsResult.error;
+
+      setJournals(journalsResult.data || []);
+      setAccounts(accountsResult.data || []);
+    } catch (error) {
+      console.error('Error fetching journals:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch journals. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const updateLine = (index: number, field: keyof DraftLine, value: string | number) => {
+    setLines(prev => prev.map((line, i) => {
+      if (i !== index) return line;
+      const updated = { ...line, [field]: value };
+      // A line is either a debit or a credit, never both
+      if (field === 'debit_amount' && Number(value) > 0) updated.credit_amount = 0;
+      if (field === 'credit_amount' && Number(value) > 0) updated.debit_amount = 0;
+      return updated;
+    }));
+  };
+
+  const addLine = () => {
+    setLines(prev => [...prev, emptyLine()]);
+  };
+
+  const removeLine = (index: number) => {
+    if (lines.length > 2) {
+      setLines(prev => prev.filter((_, i) => i !== index));
+    }
+  };
+
+  const totalDebits = lines.reduce((sum, line) => sum + (line.debit_amount || 0), 0);
+  const totalCredits = lines.reduce((sum, line) => sum + (line.credit_amount || 0), 0);
+  const difference = Math.round((totalDebits - totalCredits) * 100) / 100;
+  const linesComplete = lines.every(line =>
+    line.account_id && ((line.debit_amount > 0) !== (line.credit_amount > 0))
+  );
+  const canSave = !!formData.reference.trim() && linesComplete && difference === 0 && totalDebits > 0;
+
+  const resetForm = () => {
+    setFormData({
+      date: new Date().toISOString().split('T')[0],
+      reference: '',
+      description: ''
+    });
+    setLines([emptyLine(), emptyLine()]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+
+    setIsSaving(true);
+    try {
+      // Balance is validated again by the database before anything is stored
+      const { error } = await supabase.rpc('create_manual_journal', {
+        _date: formData.date,
+        _reference: formData.reference.trim(),
+        _description: formData.description,
+        _lines: lines.map(line => ({
+          account_id: line.account_id,
+          description: line.description,
+          debit_amount: line.debit_amount || 0,
+          credit_amount: line.credit_amount || 0
+        }))
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Journal posted successfully.",
+      });
+
+      setIsCreateDialogOpen(false);
+      resetForm();
+      fetchData();
+    } catch (error) {
+      console.error('Error creating journal:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to post journal. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReverse = async (journal: Journal) => {
+    if (!confirm(`Reverse journal ${journal.reference}? A reversing journal dated today will be posted.`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase.rpc('reverse_journal', { _journal_id: journal.id });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `Journal ${journal.reference} reversed.`,
+      });
+
+      fetchData();
+    } catch (error) {
+      console.error('Error reversing journal:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to reverse journal.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const reversedIds = new Set(journals.map(j => j.reverses_journal_id).filter(Boolean));
+
+  const journalTotal = (journal: Journal) =>
+    journal.journal_lines.reduce((sum, line) => sum + Number(line.debit_amount || 0), 0);
+
+  const filteredJournals = journals.filter(journal => {
+    if (sourceFilter !== 'all' && journal.source_type !== sourceFilter) return false;
+    if (!search) return true;
+    const term = search.toLowerCase();
+    return journal.reference.toLowerCase().includes(term) ||
+      (journal.description || '').toLowerCase().includes(term);
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-muted-foreground">Loading journals...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Journals</h1>
+          <p className="text-muted-foreground">Post manual journals and browse the general ledger</p>
+        </div>
+
+        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+          {canEdit && (
+            <DialogTrigger asChild>
+              <Button onClick={() => setIsCreateDialogOpen(true)}>
+                <Plus className="w-4 h-4 mr-2" />
+                New Journal
+              </Button>
+            </DialogTrigger>
+          )}
+          <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>New Manual Journal</DialogTitle>
+              <DialogDescription>
+                Debits must equal credits before the journal can be posted
+              </DialogDescription>
+            </DialogHeader>
+
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="journal_date">Date</Label>
+                  <Input
+                    id="journal_date"
+                    type="date"
+                    value={formData.date}
+                    onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                    required
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="journal_reference">Reference</Label>
+                  <Input
+                    id="journal_reference"
+                    value={formData.reference}
+                    onChange={(e) => setFormData({ ...formData, reference: e.target.value })}
+                    placeholder="e.g. MJ-001"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="journal_description">Narrative</Label>
+                  <Input
+                    id="journal_description"
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    placeholder="What is this journal for?"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <div className="flex justify-between items-center mb-4">
+                  <h3 className="text-lg font-semibold">Lines</h3>
+                  <Button type="button" variant="outline" onClick={addLine}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Line
+                  </Button>
+                </div>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-1/3">Account</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead className="w-32">Debit</TableHead>
+                      <TableHead className="w-32">Credit</TableHead>
+                      <TableHead className="w-12"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {lines.map((line, index) => (
+                      <TableRow key={index}>
+                        <TableCell>
+                          <Select value={line.account_id} onValueChange={(value) => updateLine(index, 'account_id', value)}>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select account" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {accounts.map((account) => (
+                                <SelectItem key={account.id} value={account.id}>
+                                  {account.account_code} {account.account_name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            value={line.description}
+                            onChange={(e) => updateLine(index, 'description', e.target.value)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={line.debit_amount || ''}
+                            onChange={(e) => updateLine(index, 'debit_amount', parseFloat(e.target.value) || 0)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={line.credit_amount || ''}
+                            onChange={(e) => updateLine(index, 'credit_amount', parseFloat(e.target.value) || 0)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="icon"
+                            onClick={() => removeLine(index)}
+                            disabled={lines.length <= 2}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                  <TableFooter>
+                    <TableRow>
+                      <TableCell colSpan={2} className="text-right">Totals</TableCell>
+                      <TableCell>£{totalDebits.toFixed(2)}</TableCell>
+                      <TableCell>£{totalCredits.toFixed(2)}</TableCell>
+                      <TableCell></TableCell>
+                    </TableRow>
+                  </TableFooter>
+                </Table>
+
+                {difference !== 0 && (
+                  <div className="mt-4 flex items-center gap-2 text-sm text-destructive">
+                    <AlertCircle className="w-4 h-4" />
+                    Out of balance by £{Math.abs(difference).toFixed(2)} ({difference > 0 ? 'debits' : 'credits'} exceed {difference > 0 ? 'credits' : 'debits'})
+                  </div>
+                )}
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={!canSave || isSaving}>
+                  {isSaving ? 'Posting...' : 'Post Journal'}
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <CardTitle>All Journals</CardTitle>
+            <div className="flex gap-2">
+              <Input
+                placeholder="Search reference or narrative"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="w-64"
+              />
+              <Select value={sourceFilter} onValueChange={setSourceFilter}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All sources</SelectItem>
+                  {Object.entries(SOURCE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Reference</TableHead>
+                <TableHead>Narrative</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredJournals.map((journal) => (
+                <TableRow key={journal.id} id={linkedDocumentElementId(journal.id)} className={journal.id === linkedDocumentId ? 'bg-muted' : undefined}>
+                  <TableCell>{new Date(journal.date).toLocaleDateString()}</TableCell>
+                  <TableCell className="font-medium">{journal.reference}</TableCell>
+                  <TableCell>{journal.description || '-'}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Badge variant="secondary">{SOURCE_LABELS[journal.source_type] || journal.source_type}</Badge>
+                      {journal.reverses_journal_id && <Badge variant="outline">Reversal</Badge>}
+                      {reversedIds.has(journal.id) && <Badge variant="outline">Reversed</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell>£{journalTotal(journal).toFixed(2)}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="icon" title="View lines" onClick={() => setViewingJournal(journal)}>
+                        <Eye className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        title="Attachments"
+                        onClick={() => setAttachmentRecord({ type: 'journal', id: journal.id, label: `Journal ${journal.reference}` })}
+                      >
+                        <Paperclip className="w-4 h-4" />
+                        {journal.attachments[0]?.count > 0 && <span className="ml-0.5 text-xs">{journal.attachments[0].count}</span>}
+                      </Button>
+                      {canEdit && journal.source_type === 'manual' && !journal.reverses_journal_id && !reversedIds.has(journal.id) && (
+                        <Button variant="outline" size="icon" title="Reverse journal" onClick={() => handleReverse(journal)}>
+                          <Undo2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {filteredJournals.length === 0 && (
+            <div className="text-center py-8 text-muted-foreground">
+              No journals found.
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Journal Lines Dialog */}
+      <Dialog open={!!viewingJournal} onOpenChange={(open) => !open && setViewingJournal(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Journal {viewingJournal?.reference}</DialogTitle>
+            <DialogDescription>
+              {viewingJournal && new Date(viewingJournal.date).toLocaleDateString()}
+              {viewingJournal?.description && ` · ${viewingJournal.description}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {viewingJournal && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Account</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Debit</TableHead>
+                  <TableHead className="text-right">Credit</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {viewingJournal.journal_lines.map((line) => (
+                  <TableRow key={line.id}>
+                    <TableCell>{line.account?.account_code} {line.account?.account_name || 'Unknown'}</TableCell>
+                    <TableCell>{line.description || '-'}</TableCell>
+                    <TableCell className="text-right">
+                      {Number(line.debit_amount) > 0 ? `£${Number(line.debit_amount).toFixed(2)}` : '-'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {Number(line.credit_amount) > 0 ? `£${Number(line.credit_amount).toFixed(2)}` : '-'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AttachmentsDialog
+        record={attachmentRecord}
+        open={!!attachmentRecord}
+        onOpenChange={(open) => !open && setAttachmentRecord(null)}
+        onChanged={fetchData}
+      />
+    </div>
+  );
+};
+
+export default Journals;
@@ -0,0 +1,332 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Edit, Trash2, Pause, Play, RefreshCw, AlertTriangle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import RecurringTemplateDialog, { RecurringTemplateType } from '@/components/RecurringTemplateDialog';
+
+interface RecurringTemplate {
+  id: string;
+  name: string;
+  frequency: string;
+  start_date: string;
+  end_date?: string;
+  next_run_date: string;
+  total: number;
+  active: boolean;
+  last_run_at?: string;
+  last_error?: string;
+  counterparty?: { name: string };
+}
+
+interface EditingTemplate {
+  type: RecurringTemplateType;
+  id: string | null;
+}
+
+const TABLES = {
+  invoice: 'recurring_invoices',
+  bill: 'recurring_bills'
+} as const;
+
+const Recurring = () => {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [invoiceTemplates, setInvoiceTemplates] = useState<RecurringTemplate[]>([]);
+  const [billTemplates, setBillTemplates] = useState<RecurringTemplate[]>([]);
+  const [activeTab, setActiveTab] = useState<RecurringTemplateType>('invoice');
+  const [editing, setEditing] = useState<EditingTemplate | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [invoicesResult, billsResult] = await Promise.all([
+        supabase
+          .from('recurring_invoices')
+          .select('*, counterparty:customers(name)')
+          .order('next_run_date'),
+        supabase
+          .from('recurring_bills')
+          .select('*, counterparty:suppliers(name)')
+          .order('next_run_date')
+      ]);
+
+      if (invoicesResult.error) throw invoicesResult.error;
+      if (billsResult.error) throw billsResult.error;
+
+      setInvoiceTemplates(invoicesResult.data || []);
+      setBillTemplates(billsResult.data || []);
+    } catch (error) {
+      console.error('Error fetching recurring templates:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load recurring templates",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  // The daily scheduler does this for everyone; running it here only covers the signed-in user's templates
+  const runDueTemplates = async () => {
+    setIsRunning(true);
+    try {
+      const { data, error } = await supabase.rpc('generate_recurring_documents', {
+        _as_of: new Date().toISOString().split('T')[0]
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: data
+          ? `${data} recurring ${data === 1 ? 'document' : 'documents'} generated. Invoices set to send automatically are emailed by the next scheduled run.`
+          : "Nothing was due"
+      });
+
+      fetchData();
+    } catch (error) {
+      console.error('Error generating recurring documents:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to generate recurring documents",
+        variant: "destructive"
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const toggleActive = async (type: RecurringTemplateType, template: RecurringTemplate) => {
+    try {
+      const { error } = await supabase
+        .from(TABLES[type])
+        .update({ active: !template.active })
+        .eq('id', template.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${template.name} ${template.active ? 'paused' : 'resumed'}`
+      });
+
+      fetchData();
+    } catch (error) {
+      console.error('Error updating recurring template:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to update recurring template",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const deleteTemplate = async (type: RecurringTemplateType, template: RecurringTemplate) => {
+    if (!confirm(`Delete recurring template "${template.name}"? Documents it already generated are kept.`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from(TABLES[type])
+        .delete()
+        .eq('id', template.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Recurring template deleted"
+      });
+
+      fetchData();
+    } catch (error) {
+      console.error('Error deleting recurring template:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to delete recurring template",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const getScheduleStatus = (template: RecurringTemplate) => {
+    if (template.end_date && template.next_run_date > template.end_date) {
+      return { label: 'finished', variant: 'secondary' as const };
+    }
+    return template.active
+      ? { label: 'active', variant: 'default' as const }
+      : { label: 'paused', variant: 'outline' as const };
+  };
+
+  const canEdit = (type: RecurringTemplateType) => can(type === 'bill' ? 'purchases.manage' : 'sales.manage');
+
+  const renderTemplates = (type: RecurringTemplateType, templates: RecurringTemplate[]) => (
+    <>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead>{type === 'bill' ? 'Supplier' : 'Customer'}</TableHead>
+            <TableHead>Frequency</TableHead>
+            <TableHead>Next Run</TableHead>
+            <TableHead>Ends</TableHead>
+            <TableHead>Total</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {templates.map((template) => {
+            const status = getScheduleStatus(template);
+            return (
+              <TableRow key={template.id}>
+                <TableCell className="font-medium">
+                  <div className="flex items-center gap-2">
+                    {template.name}
+                    {template.last_error && (
+                      <span title={`Last run failed: ${template.last_error}`}>
+                        <AlertTriangle className="w-4 h-4 text-destructive" />
+                      </span>
+                    )}
+                  </div>
+                  {template.last_error && (
+                    <div className="text-xs text-destructive">{template.last_error}</div>
+                  )}
+                </TableCell>
+                <TableCell>{template.counterparty?.name || 'Unknown'}</TableCell>
+                <TableCell className="capitalize">{template.frequency}</TableCell>
+                <TableCell>
+                  {status.label === 'finished' ? '-' : new Date(template.next_run_date).toLocaleDateString()}
+                </TableCell>
+                <TableCell>{template.end_date ? new Date(template.end_date).toLocaleDateString() : 'Never'}</TableCell>
+                <TableCell>£{Number(template.total).toFixed(2)}</TableCell>
+                <TableCell>
+                  <Badge variant={status.variant}>{status.label}</Badge>
+                </TableCell>
+                <TableCell>
+                  {canEdit(type) && (
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="icon" title="Edit template" onClick={() => setEditing({ type, id: template.id })}>
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        title={template.active ? 'Pause' : 'Resume'}
+                        onClick={() => toggleActive(type, template)}
+                      >
+                        {template.active ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                      </Button>
+                      <Button variant="outline" size="icon" title="Delete template" onClick={() => deleteTemplate(type, template)}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+
+      {templates.length === 0 && (
+        <div className="text-center py-8 text-muted-foreground">
+          No recurring {type === 'bill' ? 'bills' : 'invoices'} yet.
+        </div>
+      )}
+    </>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-muted rounded w-1/4"></div>
+          <div className="h-64 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Recurring</h1>
+          <p className="text-muted-foreground">
+            Templates for invoices and bills that repeat. Due documents are generated every morning.
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          {canEdit('invoice') && canEdit('bill') && (
+            <Button variant="outline" onClick={runDueTemplates} disabled={isRunning}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${isRunning ? 'animate-spin' : ''}`} />
+              Run Due Now
+            </Button>
+          )}
+          {canEdit(activeTab) && (
+            <Button onClick={() => setEditing({ type: activeTab, id: null })}>
+              <Plus className="w-4 h-4 mr-2" />
+              New {activeTab === 'bill' ? 'Recurring Bill' : 'Recurring Invoice'}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as RecurringTemplateType)} className="w-full">
+        <TabsList>
+          <TabsTrigger value="invoice">Invoices</TabsTrigger>
+          <TabsTrigger value="bill">Bills</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="invoice">
+          <Card>
+            <CardHeader>
+              <CardTitle>Recurring Invoices</CardTitle>
+              <CardDescription>Generated as drafts unless set to send automatically</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {renderTemplates('invoice', invoiceTemplates)}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="bill">
+          <Card>
+            <CardHeader>
+              <CardTitle>Recurring Bills</CardTitle>
+              <CardDescription>Generated as drafts unless set to record as received</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {renderTemplates('bill', billTemplates)}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <RecurringTemplateDialog
+        type={editing?.type || activeTab}
+        templateId={editing?.id || null}
+        open={!!editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+        onSaved={fetchData}
+      />
+    </div>
+  );
+};
+
+export default Recurring;
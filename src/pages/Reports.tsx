@@ -1,62 +1,66 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { calculateVatReturn, VatReturnBoxes } from '@/lib/vat-return';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import YearEndCloseDialog from '@/components/YearEndCloseDialog';
+import AgedBalancesReport from '@/components/AgedBalancesReport';
+import GeneralLedgerReport from '@/components/GeneralLedgerReport';
+import { useAuth } from '@/hooks/useAuth';
 import { 
   BarChart3, 
   TrendingUp, 
   FileText, 
   Calculator, 
   Download,
-  AlertTriangle 
+  AlertTriangle,
+  CalendarCheck
 } from 'lucide-react';
 
 interface ReportData {
   profitLoss: {
-    income: { account_name: string; total: number }[];
-    expenses: { account_name: string; total: number }[];
+    income: { account_id: string; account_name: string; total: number }[];
+    expenses: { account_id: string; account_name: string; total: number }[];
     totalIncome: number;
     totalExpenses: number;
     netProfit: number;
   };
   balanceSheet: {
-    assets: { account_name: string; balance: number }[];
-    liabilities: { account_name: string; balance: number }[];
-    equity: { account_name: string; balance: number }[];
+    // account_id is null for Current Year Earnings, which is not an account
+    assets: { account_id: string | null; account_name: string; balance: number }[];
+    liabilities: { account_id: string | null; account_name: string; balance: number }[];
+    equity: { account_id: string | null; account_name: string; balance: number }[];
     totalAssets: number;
     totalLiabilities: number;
     totalEquity: number;
+    balanced: boolean;
   };
   trialBalance: {
-    accounts: { account_name: string; account_type: string; debit: number; credit: number }[];
+    accounts: { account_id: string; account_name: string; account_type: string; debit: number; credit: number }[];
     totalDebits: number;
     totalCredits: number;
     balanced: boolean;
   };
-  vatReturn: {
-    box1: number; // VAT due on sales
-    box2: number; // VAT due on acquisitions
-    box3: number; // Total VAT due
-    box4: number; // VAT reclaimed on purchases
-    box5: number; // Net VAT due
-    box6: number; // Total value of sales
-    box7: number; // Total value of purchases
-    box8: number; // Total value of supplies
-    box9: number; // Total value of acquisitions
-  };
+  vatReturn: VatReturnBoxes;
 }
 
 const Reports = () => {
+  const { can } = useAuth();
   const [reportData, setReportData] = useState<ReportData>({
     profitLoss: { income: [], expenses: [], totalIncome: 0, totalExpenses: 0, netProfit: 0 },
-    balanceSheet: { assets: [], liabilities: [], equity: [], totalAssets: 0, totalLiabilities: 0, totalEquity: 0 },
+    balanceSheet: { assets: [], liabilities: [], equity: [], totalAssets: 0, totalLiabilities: 0, totalEquity: 0, balanced: true },
     trialBalance: { accounts: [], totalDebits: 0, totalCredits: 0, balanced: false },
     vatReturn: { box1: 0, box2: 0, box3: 0, box4: 0, box5: 0, box6: 0, box7: 0, box8: 0, box9: 0 }
   });
   const [loading, setLoading] = useState(true);
+  const [yearEndOpen, setYearEndOpen] = useState(false);
+  const [tab, setTab] = useState('profit-loss');
+  const [ledgerAccountId, setLedgerAccountId] = useState('');
+  const [ledgerExcludesYearEnd, setLedgerExcludesYearEnd] = useState(false);
+  const [ledgerFromStart, setLedgerFromStart] = useState(false);
   const [dateRange, setDateRange] = useState({
     from: new Date(new Date().getFullYear(), 0, 1).toISOString().split('T')[0], // Start of year
     to: new Date().toISOString().split('T')[0] // Today
@@ -66,6 +70,17 @@ const Reports = () => {
     generateReports();
   }, []);
 
+  // Clicking an account's figure on any report opens its postings in the general ledger. The P&L
+  // leaves out year-end closing journals, so the ledger does too when opened from it; the trial
+  // balance totals every posting to the report date, so the ledger opened from it starts with the
+  // first posting.
+  const openLedger = (accountId: string, { excludeYearEndClose = false, fromStart = false } = {}) => {
+    setLedgerAccountId(accountId);
+    setLedgerExcludesYearEnd(excludeYearEndClose);
+    setLedgerFromStart(fromStart);
+    setTab('general-ledger');
+  };
+
   const generateReports = async () => {
     setLoading(true);
     try {
@@ -84,41 +99,42 @@ const Reports = () => {
 
   const generateProfitLoss = async () => {
     try {
-      // Get all income and expense transactions from journal lines
+      // Income and expense lines dated in the period; closing journals would zero the year out
       const { data: journalLines } = await supabase
         .from('journal_lines')
         .select(`
           *,
           account:chart_of_accounts(account_name, account_type),
-          journal:journals(date)
+          journal:journals!inner(date, source_type)
         `)
         .gte('journal.date', dateRange.from)
-        .lte('journal.date', dateRange.to);
+        .lte('journal.date', dateRange.to)
+        .neq('journal.source_type', 'year_end_close');
 
-      const income: { account_name: string; total: number }[] = [];
-      const expenses: { account_name: string; total: number }[] = [];
+      const income: { account_id: string; account_name: string; total: number }[] = [];
+      const expenses: { account_id: string; account_name: string; total: number }[] = [];
       
       journalLines?.forEach(line => {
         const accountType = line.account?.account_type;
         const accountName = line.account?.account_name || 'Unknown';
         
         if (accountType === 'income') {
-          const existing = income.find(item => item.account_name === accountName);
+          const existing = income.find(item => item.account_id === line.account_id);
           const amount = Number(line.credit_amount) - Number(line.debit_amount);
           
           if (existing) {
             existing.total += amount;
           } else {
-            income.push({ account_name: accountName, total: amount });
+            income.push({ account_id: line.account_id, account_name: accountName, total: amount });
           }
         } else if (accountType === 'expense') {
-          const existing = expenses.find(item => item.account_name === accountName);
+          const existing = expenses.find(item => item.account_id === line.account_id);
           const amount = Number(line.debit_amount) - Number(line.credit_amount);
           
           if (existing) {
             existing.total += amount;
           } else {
-            expenses.push({ account_name: accountName, total: amount });
+            expenses.push({ account_id: line.account_id, account_name: accountName, total: amount });
           }
         }
       });
@@ -138,23 +154,27 @@ const Reports = () => {
 
   const generateBalanceSheet = async () => {
     try {
-      // Get all journal lines for balance sheet accounts
+      // Every journal line up to the report date
       const { data: journalLines } = await supabase
         .from('journal_lines')
         .select(`
           *,
-          account:chart_of_accounts(account_name, account_type)
-        `);
+          account:chart_of_accounts(account_name, account_type),
+          journal:journals!inner(date)
+        `)
+        .lte('journal.date', dateRange.to);
 
-      const assets: { account_name: string; balance: number }[] = [];
-      const liabilities: { account_name: string; balance: number }[] = [];
-      const equity: { account_name: string; balance: number }[] = [];
+      const assets: { account_id: string | null; account_name: string; balance: number }[] = [];
+      const liabilities: { account_id: string | null; account_name: string; balance: number }[] = [];
+      const equity: { account_id: string | null; account_name: string; balance: number }[] = [];
+      // Profit not yet closed into Retained Earnings by a year-end close
+      let currentYearEarnings = 0;
       
       journalLines?.forEach(line => {
         const accountType = line.account?.account_type;
         const accountName = line.account?.account_name || 'Unknown';
         
-        let targetArray: { account_name: string; balance: number }[];
+        let targetArray: { account_id: string | null; account_name: string; balance: number }[];
         let balance = 0;
         
         if (accountType === 'asset') {
@@ -166,25 +186,33 @@ const Reports = () => {
         } else if (accountType === 'equity') {
           targetArray = equity;
           balance = Number(line.credit_amount) - Number(line.debit_amount);
+        } else if (accountType === 'income' || accountType === 'expense') {
+          currentYearEarnings += Number(line.credit_amount) - Number(line.debit_amount);
+          return;
         } else {
           return;
         }
         
-        const existing = targetArray.find(item => item.account_name === accountName);
+        const existing = targetArray.find(item => item.account_id === line.account_id);
         if (existing) {
           existing.balance += balance;
         } else {
-          targetArray.push({ account_name: accountName, balance });
+          targetArray.push({ account_id: line.account_id, account_name: accountName, balance });
         }
       });
 
+      if (Math.abs(currentYearEarnings) >= 0.005) {
+        equity.push({ account_id: null, account_name: 'Current Year Earnings', balance: currentYearEarnings });
+      }
+
       const totalAssets = assets.reduce((sum, item) => sum + item.balance, 0);
       const totalLiabilities = liabilities.reduce((sum, item) => sum + item.balance, 0);
       const totalEquity = equity.reduce((sum, item) => sum + item.balance, 0);
+      const balanced = Math.abs(totalAssets - totalLiabilities - totalEquity) < 0.01;
 
       setReportData(prev => ({
         ...prev,
-        balanceSheet: { assets, liabilities, equity, totalAssets, totalLiabilities, totalEquity }
+        balanceSheet: { assets, liabilities, equity, totalAssets, totalLiabilities, totalEquity, balanced }
       }));
     } catch (error) {
       console.error('Error generating balance sheet:', error);
@@ -193,25 +221,28 @@ const Reports = () => {
 
   const generateTrialBalance = async () => {
     try {
+      // Every journal line up to the report date, as for the balance sheet
       const { data: journalLines } = await supabase
         .from('journal_lines')
         .select(`
           *,
-          account:chart_of_accounts(account_name, account_type)
-        `);
+          account:chart_of_accounts(account_name, account_type),
+          journal:journals!inner(date)
+        `)
+        .lte('journal.date', dateRange.to);
 
-      const accountBalances: { [key: string]: { account_name: string; account_type: string; debit: number; credit: number } } = {};
+      const accountBalances: { [key: string]: { account_id: string; account_name: string; account_type: string; debit: number; credit: number } } = {};
       
       journalLines?.forEach(line => {
         const accountName = line.account?.account_name || 'Unknown';
         const accountType = line.account?.account_type || 'unknown';
         
-        if (!accountBalances[accountName]) {
-          accountBalances[accountName] = { account_name: accountName, account_type: accountType, debit: 0, credit: 0 };
+        if (!accountBalances[line.account_id]) {
+          accountBalances[line.account_id] = { account_id: line.account_id, account_name: accountName, account_type: accountType, debit: 0, credit: 0 };
         }
         
-        accountBalances[accountName].debit += Number(line.debit_amount);
-        accountBalances[accountName].credit += Number(line.credit_amount);
+        accountBalances[line.account_id].debit += Number(line.debit_amount);
+        accountBalances[line.account_id].credit += Number(line.credit_amount);
       });
 
       const accounts = Object.values(accountBalances);
@@ -230,34 +261,12 @@ const Reports = () => {
 
   const generateVATReturn = async () => {
     try {
-      // Get VAT amounts from invoices and bills
-      const { data: invoices } = await supabase
-        .from('invoices')
-        .select('vat_amount, total, date')
-        .gte('date', dateRange.from)
-        .lte('date', dateRange.to);
-
-      const { data: bills } = await supabase
-        .from('bills')
-        .select('vat_amount, total, date')
-        .gte('date', dateRange.from)
-        .lte('date', dateRange.to);
-
-      // VAT calculations for UK VAT return boxes
-      const box1 = invoices?.reduce((sum, inv) => sum + Number(inv.vat_amount), 0) || 0; // VAT due on sales
-      const box2 = 0; // VAT due on acquisitions (EU specific)
-      const box3 = box1 + box2; // Total VAT due
-      const box4 = bills?.reduce((sum, bill) => sum + Number(bill.vat_amount), 0) || 0; // VAT reclaimed on purchases
-      const box5 = box3 - box4; // Net VAT due (or reclaim if negative)
-      
-      const box6 = invoices?.reduce((sum, inv) => sum + (Number(inv.total) - Number(inv.vat_amount)), 0) || 0; // Total value of sales (excluding VAT)
-      const box7 = bills?.reduce((sum, bill) => sum + (Number(bill.total) - Number(bill.vat_amount)), 0) || 0; // Total value of purchases (excluding VAT)
-      const box8 = 0; // Total value of supplies (exports, etc.)
-      const box9 = 0; // Total value of acquisitions (imports, etc.)
+      // Issued invoices and bills less credit notes dated in the period
+      const vatReturn = await calculateVatReturn(dateRange.from, dateRange.to);
 
       setReportData(prev => ({
         ...prev,
-        vatReturn: { box1, box2, box3, box4, box5, box6, box7, box8, box9 }
+        vatReturn
       }));
     } catch (error) {
       console.error('Error generating VAT return:', error);
@@ -310,15 +319,30 @@ const Reports = () => {
             <BarChart3 className="w-4 h-4 mr-2" />
             Generate Reports
           </Button>
+          {can('journals.manage') && (
+            <Button variant="outline" onClick={() => setYearEndOpen(true)}>
+              <CalendarCheck className="w-4 h-4 mr-2" />
+              Year End
+            </Button>
+          )}
         </div>
       </div>
 
-      <Tabs defaultValue="profit-loss" className="w-full">
-        <TabsList className="grid w-full grid-cols-4">
+      <YearEndCloseDialog
+        open={yearEndOpen}
+        onOpenChange={setYearEndOpen}
+        onClosed={generateReports}
+      />
+
+      <Tabs value={tab} onValueChange={setTab} className="w-full">
+        <TabsList className="grid w-full grid-cols-7">
           <TabsTrigger value="profit-loss">Profit & Loss</TabsTrigger>
           <TabsTrigger value="balance-sheet">Balance Sheet</TabsTrigger>
           <TabsTrigger value="trial-balance">Trial Balance</TabsTrigger>
           <TabsTrigger value="vat-return">VAT Return</TabsTrigger>
+          <TabsTrigger value="aged-debtors">Aged Debtors</TabsTrigger>
+          <TabsTrigger value="aged-creditors">Aged Creditors</TabsTrigger>
+          <TabsTrigger value="general-ledger">General Ledger</TabsTrigger>
         </TabsList>
         
         <TabsContent value="profit-loss" className="space-y-6">
@@ -339,7 +363,9 @@ const Reports = () => {
                   {reportData.profitLoss.income.map((item, index) => (
                     <div key={index} className="flex justify-between py-2">
                       <span>{item.account_name}</span>
-                      <span className="font-medium">£{item.total.toLocaleString()}</span>
+                      <button type="button" className="font-medium hover:underline" onClick={() => openLedger(item.account_id, { excludeYearEndClose: true })}>
+                        £{item.total.toLocaleString()}
+                      </button>
                     </div>
                   ))}
                   <div className="border-t pt-2 flex justify-between font-semibold">
@@ -355,7 +381,9 @@ const Reports = () => {
                   {reportData.profitLoss.expenses.map((item, index) => (
                     <div key={index} className="flex justify-between py-2">
                       <span>{item.account_name}</span>
-                      <span className="font-medium">£{item.total.toLocaleString()}</span>
+                      <button type="button" className="font-medium hover:underline" onClick={() => openLedger(item.account_id, { excludeYearEndClose: true })}>
+                        £{item.total.toLocaleString()}
+                      </button>
                     </div>
                   ))}
                   <div className="border-t pt-2 flex justify-between font-semibold">
@@ -396,7 +424,14 @@ const Reports = () => {
                     {reportData.balanceSheet.assets.map((item, index) => (
                       <div key={index} className="flex justify-between py-2">
                         <span>{item.account_name}</span>
-                        <span className="font-medium">£{item.balance.toLocaleString()}</span>
+                        <button
+                          type="button"
+                          className="font-medium enabled:hover:underline"
+                          disabled={!item.account_id}
+                          onClick={() => item.account_id && openLedger(item.account_id)}
+                        >
+                          £{item.balance.toLocaleString()}
+                        </button>
                       </div>
                     ))}
                     <div className="border-t pt-2 flex justify-between font-semibold">
@@ -413,7 +448,14 @@ const Reports = () => {
                       {reportData.balanceSheet.liabilities.map((item, index) => (
                         <div key={index} className="flex justify-between py-2">
                           <span>{item.account_name}</span>
-                          <span className="font-medium">£{item.balance.toLocaleString()}</span>
+                          <button
+                            type="button"
+                            className="font-medium enabled:hover:underline"
+                            disabled={!item.account_id}
+                            onClick={() => item.account_id && openLedger(item.account_id)}
+                          >
+                            £{item.balance.toLocaleString()}
+                          </button>
                         </div>
                       ))}
                       <div className="border-t pt-2 flex justify-between font-semibold">
@@ -429,7 +471,14 @@ const Reports = () => {
                       {reportData.balanceSheet.equity.map((item, index) => (
                         <div key={index} className="flex justify-between py-2">
                           <span>{item.account_name}</span>
-                          <span className="font-medium">£{item.balance.toLocaleString()}</span>
+                          <button
+                            type="button"
+                            className="font-medium enabled:hover:underline"
+                            disabled={!item.account_id}
+                            onClick={() => item.account_id && openLedger(item.account_id)}
+                          >
+                            £{item.balance.toLocaleString()}
+                          </button>
                         </div>
                       ))}
                       <div className="border-t pt-2 flex justify-between font-semibold">
@@ -438,8 +487,22 @@ const Reports = () => {
                       </div>
                     </div>
                   </div>
+
+                  <div className="border-t border-b py-4 flex justify-between text-lg font-bold">
+                    <span>Total Liabilities & Equity</span>
+                    <span>£{(reportData.balanceSheet.totalLiabilities + reportData.balanceSheet.totalEquity).toLocaleString()}</span>
+                  </div>
                 </div>
               </div>
+
+              {!reportData.balanceSheet.balanced && (
+                <div className="bg-destructive/10 border border-destructive/20 rounded p-4">
+                  <p className="text-destructive font-medium">The balance sheet does not balance</p>
+                  <p className="text-sm text-destructive/80">
+                    Total assets do not equal total liabilities and equity; check the trial balance for unbalanced journals.
+                  </p>
+                </div>
+              )}
             </CardContent>
           </Card>
         </TabsContent>
@@ -455,7 +518,7 @@ const Reports = () => {
                 )}
               </CardTitle>
               <CardDescription>
-                All account balances {reportData.trialBalance.balanced ? '(Balanced ✓)' : '(Unbalanced - requires attention)'}
+                All account balances at {new Date(dateRange.to).toLocaleDateString()} {reportData.trialBalance.balanced ? '(Balanced ✓)' : '(Unbalanced - requires attention)'}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -481,12 +544,12 @@ const Reports = () => {
                   <div key={index} className="grid grid-cols-4 gap-4 py-2">
                     <span>{account.account_name}</span>
                     <span className="capitalize">{account.account_type}</span>
-                    <span className="text-right font-medium">
+                    <button type="button" className="text-right font-medium hover:underline" onClick={() => openLedger(account.account_id, { fromStart: true })}>
                       {account.debit > 0 ? `£${account.debit.toLocaleString()}` : '-'}
-                    </span>
-                    <span className="text-right font-medium">
+                    </button>
+                    <button type="button" className="text-right font-medium hover:underline" onClick={() => openLedger(account.account_id, { fromStart: true })}>
                       {account.credit > 0 ? `£${account.credit.toLocaleString()}` : '-'}
-                    </span>
+                    </button>
                   </div>
                 ))}
                 
@@ -561,6 +624,25 @@ const Reports = () => {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="aged-debtors" className="space-y-6">
+          <AgedBalancesReport kind="receivables" asAt={dateRange.to} />
+        </TabsContent>
+
+        <TabsContent value="aged-creditors" className="space-y-6">
+          <AgedBalancesReport kind="payables" asAt={dateRange.to} />
+        </TabsContent>
+
+        <TabsContent value="general-ledger" className="space-y-6">
+          <GeneralLedgerReport
+            accountId={ledgerAccountId}
+            onAccountChange={setLedgerAccountId}
+            from={ledgerFromStart ? null : dateRange.from}
+            to={dateRange.to}
+            excludeYearEndClose={ledgerExcludesYearEnd}
+            onExcludeYearEndCloseChange={setLedgerExcludesYearEnd}
+          />
+        </TabsContent>
       </Tabs>
     </div>
   );
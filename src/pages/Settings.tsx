@@ -0,0 +1,397 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import LockDatesCard from '@/components/LockDatesCard';
+import BillApprovalCard from '@/components/BillApprovalCard';
+import { Building2, Landmark, Upload, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+const emptySettings = {
+  company_name: '',
+  address: '',
+  email: '',
+  phone: '',
+  company_number: '',
+  vat_number: '',
+  bank_name: '',
+  bank_account_name: '',
+  bank_sort_code: '',
+  bank_account_number: '',
+  bank_iban: '',
+  invoice_footer: ''
+};
+
+type SettingsForm = typeof emptySettings;
+
+const Settings = () => {
+  const { toast } = useToast();
+  const { currentOrganisation, can } = useAuth();
+  const canEdit = can('settings.manage');
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState<SettingsForm>(emptySettings);
+  const [logoPath, setLogoPath] = useState<string | null>(null);
+  const [logoUrl, setLogoUrl] = useState<string | null>(null);
+
+  const loadLogoPreview = useCallback(async (path: string | null) => {
+    if (!path) {
+      setLogoUrl(null);
+      return;
+    }
+
+    const { data, error } = await supabase.storage.from('company-logos').createSignedUrl(path, 60 * 60);
+    if (error) {
+      console.error('Error loading logo preview:', error);
+      return;
+    }
+    setLogoUrl(data.signedUrl);
+  }, []);
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('company_settings')
+        .select('*')
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (data) {
+        setFormData(Object.fromEntries(
+          Object.keys(emptySettings).map(key => [key, data[key as keyof SettingsForm] || ''])
+        ) as SettingsForm);
+        setLogoPath(data.logo_path);
+        loadLogoPreview(data.logo_path);
+      }
+    } catch (error) {
+      console.error('Error fetching settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load company settings",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast, loadLogoPreview]);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const updateField = (field: keyof SettingsForm, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const payload = Object.fromEntries(
+        Object.entries(formData).map(([key, value]) => [key, value.trim() || null])
+      ) as Record<keyof SettingsForm, string | null>;
+
+      const { error } = await supabase
+        .from('company_settings')
+        .upsert({
+          ...payload,
+          company_name: formData.company_name.trim(),
+          updated_at: new Date().toISOString()
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Company settings saved"
+      });
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save company settings",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleLogoUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !currentOrganisation) return;
+
+    if (!['image/png', 'image/jpeg'].includes(file.type)) {
+      toast({
+        title: "Error",
+        description: "The logo must be a PNG or JPEG image",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      // Logos are stored under the organisation's folder so storage policies can scope access
+      const path = `${currentOrganisation.id}/logo.${file.type === 'image/png' ? 'png' : 'jpg'}`;
+      const { error: uploadError } = await supabase.storage
+        .from('company-logos')
+        .upload(path, file, { contentType: file.type, upsert: true });
+
+      if (uploadError) throw uploadError;
+
+      const { error } = await supabase
+        .from('company_settings')
+        .upsert({ company_name: formData.company_name.trim(), logo_path: path, updated_at: new Date().toISOString() });
+
+      if (error) throw error;
+
+      setLogoPath(path);
+      loadLogoPreview(path);
+      toast({
+        title: "Success",
+        description: "Logo uploaded"
+      });
+    } catch (error) {
+      console.error('Error uploading logo:', error);
+      toast({
+        title: "Error",
+        description: "Failed to upload logo",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleLogoRemove = async () => {
+    if (!logoPath) return;
+
+    try {
+      const { error: removeError } = await supabase.storage.from('company-logos').remove([logoPath]);
+      if (removeError) throw removeError;
+
+      const { error } = await supabase
+        .from('company_settings')
+        .update({ logo_path: null, updated_at: new Date().toISOString() })
+        .eq('organisation_id', currentOrganisation?.id);
+
+      if (error) throw error;
+
+      setLogoPath(null);
+      setLogoUrl(null);
+    } catch (error) {
+      console.error('Error removing logo:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove logo",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-muted rounded w-1/4"></div>
+          <div className="h-64 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Settings</h1>
+          <p className="text-muted-foreground">Company details printed on your invoices</p>
+        </div>
+        {canEdit && (
+          <Button onClick={handleSave} disabled={isSaving || !formData.company_name.trim()}>
+            {isSaving ? 'Saving...' : 'Save Settings'}
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Building2 className="w-5 h-5" />
+            Company
+          </CardTitle>
+          <CardDescription>
+            A VAT registration number turns your invoices into full VAT invoices
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="company_name">Company Name *</Label>
+            <Input
+              id="company_name"
+              value={formData.company_name}
+              onChange={(e) => updateField('company_name', e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="email">Email</Label>
+            <Input
+              id="email"
+              type="email"
+              value={formData.email}
+              onChange={(e) => updateField('email', e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2 md:row-span-2">
+            <Label htmlFor="address">Address</Label>
+            <Textarea
+              id="address"
+              value={formData.address}
+              onChange={(e) => updateField('address', e.target.value)}
+              rows={4}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="phone">Phone</Label>
+            <Input
+              id="phone"
+              type="tel"
+              value={formData.phone}
+              onChange={(e) => updateField('phone', e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="company_number">Company Number</Label>
+            <Input
+              id="company_number"
+              value={formData.company_number}
+              onChange={(e) => updateField('company_number', e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="vat_number">VAT Registration Number</Label>
+            <Input
+              id="vat_number"
+              value={formData.vat_number}
+              onChange={(e) => updateField('vat_number', e.target.value)}
+              placeholder="GB123456789"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Logo</Label>
+            <div className="flex items-center gap-4">
+              {logoUrl ? (
+                <img src={logoUrl} alt="Company logo" className="h-16 max-w-[160px] object-contain border rounded p-1" />
+              ) : (
+                <div className="h-16 w-32 border border-dashed rounded flex items-center justify-center text-sm text-muted-foreground">
+                  No logo
+                </div>
+              )}
+              {canEdit && (
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" asChild>
+                    <label className="cursor-pointer">
+                      <Upload className="w-4 h-4 mr-2" />
+                      Upload
+                      <input type="file" accept="image/png,image/jpeg" className="hidden" onChange={handleLogoUpload} />
+                    </label>
+                  </Button>
+                  {logoPath && (
+                    <Button variant="ghost" size="sm" onClick={handleLogoRemove}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Landmark className="w-5 h-5" />
+            Payment Details
+          </CardTitle>
+          <CardDescription>
+            Shown on invoices so customers know where to pay
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="bank_name">Bank Name</Label>
+            <Input
+              id="bank_name"
+              value={formData.bank_name}
+              onChange={(e) => updateField('bank_name', e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="bank_account_name">Account Name</Label>
+            <Input
+              id="bank_account_name"
+              value={formData.bank_account_name}
+              onChange={(e) => updateField('bank_account_name', e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="bank_sort_code">Sort Code</Label>
+            <Input
+              id="bank_sort_code"
+              value={formData.bank_sort_code}
+              onChange={(e) => updateField('bank_sort_code', e.target.value)}
+              placeholder="00-00-00"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="bank_account_number">Account Number</Label>
+            <Input
+              id="bank_account_number"
+              value={formData.bank_account_number}
+              onChange={(e) => updateField('bank_account_number', e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="bank_iban">IBAN</Label>
+            <Input
+              id="bank_iban"
+              value={formData.bank_iban}
+              onChange={(e) => updateField('bank_iban', e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="invoice_footer">Invoice Footer</Label>
+            <Textarea
+              id="invoice_footer"
+              value={formData.invoice_footer}
+              onChange={(e) => updateField('invoice_footer', e.target.value)}
+              placeholder="e.g. Thank you for your business. Payment terms 30 days."
+              rows={2}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <LockDatesCard />
+
+      <BillApprovalCard />
+    </div>
+  );
+};
+
+export default Settings;
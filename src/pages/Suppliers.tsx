@@ -0,0 +1,461 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { Plus, Edit, Trash2, Truck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+
+interface Supplier {
+  id: string;
+  name: string;
+  contact_name?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  vat_number?: string;
+  default_account_id?: string;
+  default_tax_code_id?: string;
+  payment_terms_days: number;
+  created_at: string;
+}
+
+interface ExpenseAccount {
+  id: string;
+  account_code?: string;
+  account_name: string;
+}
+
+interface TaxCode {
+  id: string;
+  name: string;
+  rate: number;
+}
+
+// Radix selects cannot hold an empty value, so "no default" uses a sentinel
+const NONE = 'none';
+
+const emptyForm = {
+  name: '',
+  contact_name: '',
+  email: '',
+  phone: '',
+  address: '',
+  vat_number: '',
+  default_account_id: NONE,
+  default_tax_code_id: NONE,
+  payment_terms_days: 30
+};
+
+const Suppliers = () => {
+  const { can } = useAuth();
+  const canEdit = can('purchases.manage');
+  const { toast } = useToast();
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [expenseAccounts, setExpenseAccounts] = useState<ExpenseAccount[]>([]);
+  const [taxCodes, setTaxCodes] = useState<TaxCode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+
+  const [formData, setFormData] = useState(emptyForm);
+
+  const fetchSuppliers = useCallback(async () => {
+    try {
+      const [suppliersResult, accountsResult, taxCodesResult] = await Promise.all([
+        supabase.from('suppliers').select('*').order('name'),
+        supabase
+          .from('chart_of_accounts')
+          .select('id, account_code, account_name')
+          .eq('account_type', 'expense')
+          .order('account_code'),
+        supabase.from('tax_codes').select('*').order('name')
+      ]);
+
+      if (suppliersResult.error) throw suppliersResult.error;
+      if (accountsResult.error) throw accountsResult.error;
+      if (taxCodesResult.error) throw taxCodesResult.error;
+
+      setSuppliers(suppliersResult.data || []);
+      setExpenseAccounts(accountsResult.data || []);
+      setTaxCodes(taxCodesResult.data || []);
+    } catch (error) {
+      console.error('Error fetching suppliers:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load suppliers",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchSuppliers();
+  }, [fetchSuppliers]);
+
+  const handleSubmit = async () => {
+    const payload = {
+      name: formData.name.trim(),
+      contact_name: formData.contact_name || null,
+      email: formData.email || null,
+      phone: formData.phone || null,
+      address: formData.address || null,
+      vat_number: formData.vat_number || null,
+      default_account_id: formData.default_account_id === NONE ? null : formData.default_account_id,
+      default_tax_code_id: formData.default_tax_code_id === NONE ? null : formData.default_tax_code_id,
+      payment_terms_days: formData.payment_terms_days
+    };
+
+    try {
+      if (editingSupplier) {
+        // Update supplier
+        const { error } = await supabase
+          .from('suppliers')
+          .update(payload)
+          .eq('id', editingSupplier.id);
+
+        if (error) throw error;
+
+        toast({
+          title: "Success",
+          description: "Supplier updated successfully"
+        });
+      } else {
+        // Create new supplier
+        const { error } = await supabase
+          .from('suppliers')
+          .insert([payload]);
+
+        if (error) throw error;
+
+        toast({
+          title: "Success",
+          description: "Supplier created successfully"
+        });
+      }
+
+      setIsDialogOpen(false);
+      setEditingSupplier(null);
+      setFormData(emptyForm);
+      fetchSuppliers();
+    } catch (error) {
+      console.error('Error saving supplier:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save supplier",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleEdit = (supplier: Supplier) => {
+    setEditingSupplier(supplier);
+    setFormData({
+      name: supplier.name,
+      contact_name: supplier.contact_name || '',
+      email: supplier.email || '',
+      phone: supplier.phone || '',
+      address: supplier.address || '',
+      vat_number: supplier.vat_number || '',
+      default_account_id: supplier.default_account_id || NONE,
+      default_tax_code_id: supplier.default_tax_code_id || NONE,
+      payment_terms_days: supplier.payment_terms_days
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = async (supplier: Supplier) => {
+    if (!confirm(`Are you sure you want to delete ${supplier.name}?`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('suppliers')
+        .delete()
+        .eq('id', supplier.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Supplier deleted successfully"
+      });
+
+      fetchSuppliers();
+    } catch (error) {
+      console.error('Error deleting supplier:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete supplier. They may have associated bills.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const openNewDialog = () => {
+    setEditingSupplier(null);
+    setFormData(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const accountLabel = (id?: string) => {
+    const account = expenseAccounts.find(a => a.id === id);
+    return account ? `${account.account_code} ${account.account_name}` : null;
+  };
+
+  const taxCodeLabel = (id?: string) => taxCodes.find(tc => tc.id === id)?.name || null;
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-muted rounded w-1/4"></div>
+          <div className="h-64 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Suppliers</h1>
+          <p className="text-muted-foreground">Manage your suppliers and their billing defaults</p>
+        </div>
+
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          {canEdit && (
+            <DialogTrigger asChild>
+              <Button onClick={openNewDialog}>
+                <Plus className="w-4 h-4 mr-2" />
+                New Supplier
+              </Button>
+            </DialogTrigger>
+          )}
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>
+                {editingSupplier ? 'Edit Supplier' : 'Create New Supplier'}
+              </DialogTitle>
+              <DialogDescription>
+                {editingSupplier
+                  ? 'Update supplier information'
+                  : 'Add a new supplier to your database'
+                }
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="name">Supplier Name *</Label>
+                <Input
+                  id="name"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Enter supplier name"
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="contact_name">Contact Name</Label>
+                <Input
+                  id="contact_name"
+                  value={formData.contact_name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, contact_name: e.target.value }))}
+                  placeholder="Who you deal with"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
+                  placeholder="accounts@supplier.com"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="phone">Phone</Label>
+                <Input
+                  id="phone"
+                  type="tel"
+                  value={formData.phone}
+                  onChange={(e) => setFormData(prev => ({ ...prev, phone: e.target.value }))}
+                />
+              </div>
+
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="address">Address</Label>
+                <Textarea
+                  id="address"
+                  value={formData.address}
+                  onChange={(e) => setFormData(prev => ({ ...prev, address: e.target.value }))}
+                  placeholder="Supplier address"
+                  rows={3}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="vat_number">VAT Number</Label>
+                <Input
+                  id="vat_number"
+                  value={formData.vat_number}
+                  onChange={(e) => setFormData(prev => ({ ...prev, vat_number: e.target.value }))}
+                  placeholder="GB123456789"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="payment_terms_days">Payment Terms (days)</Label>
+                <Input
+                  id="payment_terms_days"
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={formData.payment_terms_days}
+                  onChange={(e) => setFormData(prev => ({ ...prev, payment_terms_days: parseInt(e.target.value) || 0 }))}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Default Expense Account</Label>
+                <Select
+                  value={formData.default_account_id}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, default_account_id: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No default</SelectItem>
+                    {expenseAccounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.account_code} {account.account_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Default Tax Code</Label>
+                <Select
+                  value={formData.default_tax_code_id}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, default_tax_code_id: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No default</SelectItem>
+                    {taxCodes.map((taxCode) => (
+                      <SelectItem key={taxCode.id} value={taxCode.id}>
+                        {taxCode.name} ({taxCode.rate}%)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSubmit} disabled={!formData.name.trim()}>
+                {editingSupplier ? 'Update Supplier' : 'Create Supplier'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* Suppliers List */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Truck className="w-5 h-5" />
+            All Suppliers
+          </CardTitle>
+          <CardDescription>
+            {suppliers.length} supplier{suppliers.length !== 1 ? 's' : ''} total
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {suppliers.length === 0 ? (
+            <div className="text-center py-12">
+              <Truck className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No suppliers yet</p>
+              <p className="text-sm text-muted-foreground mt-1">Add your first supplier to start recording bills</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {suppliers.map((supplier) => (
+                <div key={supplier.id} className="flex items-center justify-between p-4 border rounded-lg">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-4">
+                      <div className="flex-1">
+                        <p className="font-semibold">{supplier.name}</p>
+                        {(supplier.contact_name || supplier.email || supplier.phone) && (
+                          <p className="text-sm text-muted-foreground">
+                            {[supplier.contact_name, supplier.email, supplier.phone].filter(Boolean).join(' · ')}
+                          </p>
+                        )}
+                        {supplier.address && (
+                          <p className="text-sm text-muted-foreground mt-1">{supplier.address}</p>
+                        )}
+                      </div>
+                      <div className="text-right text-sm text-muted-foreground">
+                        <p>{supplier.payment_terms_days} day terms</p>
+                        {accountLabel(supplier.default_account_id) && (
+                          <p>{accountLabel(supplier.default_account_id)}</p>
+                        )}
+                        {taxCodeLabel(supplier.default_tax_code_id) && (
+                          <p>{taxCodeLabel(supplier.default_tax_code_id)}</p>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+
+                  {canEdit && (
+                    <div className="flex gap-2 ml-4">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleEdit(supplier)}
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(supplier)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Suppliers;
@@ -0,0 +1,456 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Check, Mail, Trash2, UserPlus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { PERMISSIONS, PERMISSION_LABELS, ROLES, ROLE_DESCRIPTIONS, ROLE_LABELS, Role } from '@/lib/permissions';
+
+interface Member {
+  id: string;
+  user_id: string;
+  name: string | null;
+  email: string | null;
+  role: Role;
+  created_at: string;
+}
+
+interface Invitation {
+  id: string;
+  email: string;
+  role: Role;
+  expires_at: string;
+  created_at: string;
+}
+
+const Team = () => {
+  const { user, currentOrganisation, can } = useAuth();
+  const { toast } = useToast();
+  const [members, setMembers] = useState<Member[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [matrix, setMatrix] = useState<{ role: Role; permission: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isInviteOpen, setIsInviteOpen] = useState(false);
+  const [invite, setInvite] = useState<{ email: string; role: Role }>({ email: '', role: 'bookkeeper' });
+  const [busy, setBusy] = useState(false);
+
+  const canManage = can('members.manage');
+
+  const fetchTeam = useCallback(async () => {
+    try {
+      const [membersResult, invitationsResult, matrixResult] = await Promise.all([
+        supabase.rpc('organisation_members'),
+        // Only visible to those who can manage the team
+        supabase
+          .from('organisation_invitations')
+          .select('id, email, role, expires_at, created_at')
+          .is('accepted_at', null)
+          .is('declined_at', null)
+          .order('created_at', { ascending: false }),
+        supabase.from('role_permissions').select('role, permission'),
+      ]);
+
+      if (membersResult.error) throw membersResult.error;
+      if (invitationsResult.error) throw invitationsResult.error;
+      if (matrixResult.error) throw matrixResult.error;
+
+      setMembers(membersResult.data || []);
+      setInvitations(invitationsResult.data || []);
+      setMatrix(matrixResult.data || []);
+    } catch (error) {
+      console.error('Error fetching team:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the team",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchTeam();
+  }, [fetchTeam]);
+
+  const sendInvitation = async (body: Record<string, string>) => {
+    const { error } = await supabase.functions.invoke('invite-member', { body });
+
+    if (error) {
+      // The function reports the reason in the response body
+      const details = await (error as { context?: Response }).context?.json?.().catch(() => null);
+      throw new Error(details?.error || error.message);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setBusy(true);
+    try {
+      await sendInvitation({ email: invite.email.trim(), role: invite.role });
+
+      toast({
+        title: "Success",
+        description: `Invitation sent to ${invite.email.trim()}`
+      });
+
+      setIsInviteOpen(false);
+      setInvite({ email: '', role: 'bookkeeper' });
+    } catch (error) {
+      console.error('Error inviting member:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to send the invitation",
+        variant: "destructive"
+      });
+    } finally {
+      setBusy(false);
+      fetchTeam();
+    }
+  };
+
+  const handleResend = async (invitation: Invitation) => {
+    setBusy(true);
+    try {
+      await sendInvitation({ invitationId: invitation.id });
+
+      toast({
+        title: "Success",
+        description: `Invitation resent to ${invitation.email}`
+      });
+    } catch (error) {
+      console.error('Error resending invitation:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to resend the invitation",
+        variant: "destructive"
+      });
+    } finally {
+      setBusy(false);
+      fetchTeam();
+    }
+  };
+
+  const handleCancelInvitation = async (invitation: Invitation) => {
+    if (!confirm(`Cancel the invitation to ${invitation.email}?`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('organisation_invitations')
+        .delete()
+        .eq('id', invitation.id);
+
+      if (error) throw error;
+
+      fetchTeam();
+    } catch (error) {
+      console.error('Error cancelling invitation:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to cancel the invitation",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRoleChange = async (member: Member, role: Role) => {
+    try {
+      const { error } = await supabase
+        .from('user_roles')
+        .update({ role })
+        .eq('id', member.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${member.name || member.email} is now ${ROLE_LABELS[role].toLowerCase()}`
+      });
+
+      // Changing your own role changes what you can do
+      if (member.user_id === user?.id) {
+        window.location.reload();
+        return;
+      }
+
+      fetchTeam();
+    } catch (error) {
+      console.error('Error changing role:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to change the role",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRemove = async (member: Member) => {
+    const isSelf = member.user_id === user?.id;
+    if (!confirm(isSelf
+      ? `Leave ${currentOrganisation?.name}? You will lose access to its books.`
+      : `Remove ${member.name || member.email} from ${currentOrganisation?.name}?`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('user_roles')
+        .delete()
+        .eq('id', member.id);
+
+      if (error) throw error;
+
+      if (isSelf) {
+        window.location.reload();
+        return;
+      }
+
+      fetchTeam();
+    } catch (error) {
+      console.error('Error removing member:', error);
+      toast({
+        title: "Error",
+        description: (error as { message?: string }).message || "Failed to remove the member",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const hasPermission = (role: Role, permission: string) =>
+    matrix.some(entry => entry.role === role && entry.permission === permission);
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-muted-foreground">Loading team...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Team</h1>
+          <p className="text-muted-foreground">Who can work on {currentOrganisation?.name} and what they can change</p>
+        </div>
+        {canManage && (
+          <Button onClick={() => setIsInviteOpen(true)}>
+            <UserPlus className="w-4 h-4 mr-2" />
+            Invite Member
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Members</CardTitle>
+          <CardDescription>
+            {members.length} member{members.length !== 1 ? 's' : ''}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Joined</TableHead>
+                {canManage && <TableHead></TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {members.map((member) => (
+                <TableRow key={member.id}>
+                  <TableCell className="font-medium">
+                    {member.name || '-'}
+                    {member.user_id === user?.id && <span className="text-muted-foreground"> (you)</span>}
+                  </TableCell>
+                  <TableCell>{member.email}</TableCell>
+                  <TableCell>
+                    {canManage ? (
+                      <Select value={member.role} onValueChange={(value) => handleRoleChange(member, value as Role)}>
+                        <SelectTrigger className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROLES.map((role) => (
+                            <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant="secondary">{ROLE_LABELS[member.role]}</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{new Date(member.created_at).toLocaleDateString()}</TableCell>
+                  {canManage && (
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        title={member.user_id === user?.id ? 'Leave organisation' : 'Remove member'}
+                        onClick={() => handleRemove(member)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {canManage && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Invitations</CardTitle>
+            <CardDescription>
+              Invited people join by signing in with the address the invitation was sent to
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {invitations.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                No open invitations.
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Sent</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {invitations.map((invitation) => {
+                    const expired = new Date(invitation.expires_at) <= new Date();
+                    return (
+                      <TableRow key={invitation.id}>
+                        <TableCell className="font-medium">{invitation.email}</TableCell>
+                        <TableCell>{ROLE_LABELS[invitation.role]}</TableCell>
+                        <TableCell>{new Date(invitation.created_at).toLocaleDateString()}</TableCell>
+                        <TableCell>
+                          {expired
+                            ? <Badge variant="destructive">Expired</Badge>
+                            : new Date(invitation.expires_at).toLocaleDateString()}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-2">
+                            <Button variant="outline" size="icon" title="Resend invitation" onClick={() => handleResend(invitation)} disabled={busy}>
+                              <Mail className="w-4 h-4" />
+                            </Button>
+                            <Button variant="outline" size="icon" title="Cancel invitation" onClick={() => handleCancelInvitation(invitation)}>
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Roles</CardTitle>
+          <CardDescription>
+            Every member can view the books and reports. Each role can also change the areas ticked below.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead></TableHead>
+                {ROLES.map((role) => (
+                  <TableHead key={role} className="text-center">{ROLE_LABELS[role]}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {PERMISSIONS.map((permission) => (
+                <TableRow key={permission}>
+                  <TableCell>{PERMISSION_LABELS[permission]}</TableCell>
+                  {ROLES.map((role) => (
+                    <TableCell key={role} className="text-center">
+                      {hasPermission(role, permission) && <Check className="w-4 h-4 mx-auto text-green-600" />}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isInviteOpen} onOpenChange={setIsInviteOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite Member</DialogTitle>
+            <DialogDescription>
+              We will email an invitation to join {currentOrganisation?.name}. It lasts for 14 days.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleInvite} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="invite-email">Email</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                value={invite.email}
+                onChange={(e) => setInvite(prev => ({ ...prev, email: e.target.value }))}
+                placeholder="colleague@example.com"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invite-role">Role</Label>
+              <Select value={invite.role} onValueChange={(value) => setInvite(prev => ({ ...prev, role: value as Role }))}>
+                <SelectTrigger id="invite-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">{ROLE_DESCRIPTIONS[invite.role]}</p>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsInviteOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={busy || !invite.email.trim()}>
+                {busy ? 'Sending...' : 'Send Invitation'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Team;
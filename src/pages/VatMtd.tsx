@@ -4,7 +4,9 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
+import { calculateVatReturn } from "@/lib/vat-return";
 import { Loader2, CheckCircle, AlertCircle, ExternalLink } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -39,6 +41,8 @@ interface VATReturn {
 }
 
 const VatMtd = () => {
+  const { can } = useAuth();
+  const canEdit = can("vat.manage");
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
   const [connected, setConnected] = useState(false);
@@ -175,63 +179,25 @@ const VatMtd = () => {
   };
 
   const calculateVATReturn = async (obligation: Obligation) => {
-    // Calculate VAT from journal entries for the period
-    const { data: journalData, error } = await supabase
-      .from("journal_lines")
-      .select(`
-        debit_amount,
-        credit_amount,
-        journals!inner (
-          date
-        ),
-        chart_of_accounts!inner (
-          account_type,
-          account_name
-        )
-      `)
-      .gte("journals.date", obligation.start_date)
-      .lte("journals.date", obligation.end_date);
-
-    if (!error && journalData) {
-      // Calculate basic VAT figures from journal entries
-      let vatDueSales = 0;
-      let vatReclaimed = 0;
-      let salesExVat = 0;
-      let purchasesExVat = 0;
-
-      journalData.forEach((line: any) => {
-        const accountName = line.chart_of_accounts?.account_name?.toLowerCase() || "";
-        
-        if (accountName.includes("vat") && accountName.includes("sales")) {
-          vatDueSales += line.credit_amount || 0;
-        }
-        if (accountName.includes("vat") && accountName.includes("purchase")) {
-          vatReclaimed += line.debit_amount || 0;
-        }
-        if (line.chart_of_accounts?.account_type === "Revenue") {
-          salesExVat += line.credit_amount || 0;
-        }
-        if (line.chart_of_accounts?.account_type === "Expense") {
-          purchasesExVat += line.debit_amount || 0;
-        }
-      });
-
-      const totalVatDue = vatDueSales;
-      const netVatDue = totalVatDue - vatReclaimed;
+    // Calculate VAT from the issued invoices, bills and credit notes in the period
+    try {
+      const boxes = await calculateVatReturn(obligation.start_date, obligation.end_date);
 
       setVatReturn({
-        vatDueSales: Math.round(vatDueSales * 100) / 100,
-        vatDueAcquisitions: 0,
-        totalVatDue: Math.round(totalVatDue * 100) / 100,
-        vatReclaimedCurrPeriod: Math.round(vatReclaimed * 100) / 100,
-        netVatDue: Math.round(netVatDue * 100) / 100,
-        totalValueSalesExVAT: Math.round(salesExVat * 100) / 100,
-        totalValuePurchasesExVAT: Math.round(purchasesExVat * 100) / 100,
-        totalValueGoodsSuppliedExVAT: 0,
-        totalAcquisitionsExVAT: 0,
+        vatDueSales: boxes.box1,
+        vatDueAcquisitions: boxes.box2,
+        totalVatDue: boxes.box3,
+        vatReclaimedCurrPeriod: boxes.box4,
+        netVatDue: boxes.box5,
+        totalValueSalesExVAT: boxes.box6,
+        totalValuePurchasesExVAT: boxes.box7,
+        totalValueGoodsSuppliedExVAT: boxes.box8,
+        totalAcquisitionsExVAT: boxes.box9,
       });
+    } catch (error) {
+      console.error("Error calculating VAT return:", error);
     }
-    
+
     setSelectedObligation(obligation);
   };
 
@@ -292,11 +258,15 @@ const VatMtd = () => {
               <CheckCircle className="h-5 w-5 text-green-600" />
               <span className="text-sm">Connected to HMRC MTD</span>
             </div>
-          ) : (
+          ) : canEdit ? (
             <Button onClick={connectToHMRC} disabled={loading}>
               {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
               Connect to HMRC
             </Button>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Your role in this organisation does not include VAT returns.
+            </p>
           )}
 
           {connected && (
@@ -351,7 +321,7 @@ const VatMtd = () => {
                     >
                       {obligation.status === "O" ? "Open" : "Fulfilled"}
                     </Badge>
-                    {obligation.status === "O" && (
+                    {canEdit && obligation.status === "O" && (
                       <Dialog>
                         <DialogTrigger asChild>
                           <Button
@@ -0,0 +1,150 @@
+export type ConsentStatus = 'pending' | 'active' | 'expired' | 'revoked';
+
+export interface FeedConsent {
+  consentId: string;
+  // Where to send the user to authorise access at their bank
+  authUrl: string;
+  institutionName?: string;
+  expiresAt?: string;
+}
+
+export interface FeedAccount {
+  providerAccountId: string;
+  name: string;
+  sortCode?: string;
+  accountNumber?: string;
+  currency: string;
+}
+
+export interface FeedTransaction {
+  // The provider's id for the transaction, stable across syncs
+  id: string;
+  date: string; // YYYY-MM-DD
+  description: string;
+  amount: number; // money in is positive, money out negative
+  reference?: string;
+  balance?: number;
+}
+
+export interface FeedPage {
+  transactions: FeedTransaction[];
+  // Pass back on the next call to carry on from here
+  cursor: string;
+  hasMore: boolean;
+}
+
+/**
+ * What the bank-feeds function needs from an Open Banking aggregator. Adding a provider means
+ * implementing this and registering it in createBankFeedProvider; nothing else changes.
+ *
+ * Pages must end on a day boundary: duplicate lines are recognised by their position within the
+ * day, so one day's transactions cannot be split across two pages.
+ */
+export interface BankFeedProvider {
+  readonly name: string;
+  createConsent(options: { redirectUrl: string; reference: string }): Promise<FeedConsent>;
+  getConsentStatus(consentId: string): Promise<{ status: ConsentStatus; expiresAt?: string }>;
+  revokeConsent(consentId: string): Promise<void>;
+  listAccounts(consentId: string): Promise<FeedAccount[]>;
+  // A null cursor starts from the earliest transaction the provider offers
+  fetchTransactions(consentId: string, providerAccountId: string, cursor: string | null): Promise<FeedPage>;
+}
+
+const addDays = (date: string, days: number) => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+};
+
+// Small deterministic generator so the same day always produces the same transactions
+const seededRandom = (seed: string) => {
+  let state = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 16777619);
+  }
+  return () => {
+    state = Math.imul(state ^ (state >>> 15), 2246822507);
+    state = Math.imul(state ^ (state >>> 13), 3266489909);
+    return ((state ^= state >>> 16) >>> 0) / 4294967296;
+  };
+};
+
+const MOCK_PAYEES = [
+  { description: 'CARD PAYMENT OFFICE SUPPLIES LTD', min: -120, max: -8 },
+  { description: 'DIRECT DEBIT BRITISH TELECOM', min: -65, max: -40 },
+  { description: 'FASTER PAYMENT RECEIVED', min: 150, max: 2400 },
+  { description: 'CARD PAYMENT COFFEE SHOP', min: -9, max: -2 },
+  { description: 'STANDING ORDER RENT', min: -950, max: -950 },
+];
+
+const MOCK_ACCOUNTS: FeedAccount[] = [
+  { providerAccountId: 'mock-current', name: 'Mock Business Current Account', sortCode: '04-00-04', accountNumber: '12345678', currency: 'GBP' },
+  { providerAccountId: 'mock-savings', name: 'Mock Business Savings', sortCode: '04-00-04', accountNumber: '87654321', currency: 'GBP' },
+];
+
+/**
+ * A stand-in bank for development and tests. Consents are granted straight away (the auth URL
+ * returns to the app) and each account produces a repeatable stream of made-up transactions, up
+ * to a week at a time, starting 90 days back.
+ */
+export class MockBankFeedProvider implements BankFeedProvider {
+  readonly name = 'mock';
+
+  async createConsent({ redirectUrl, reference }: { redirectUrl: string; reference: string }) {
+    const consentId = `mock-${crypto.randomUUID()}`;
+    const url = new URL(redirectUrl);
+    url.searchParams.set('consent', consentId);
+    url.searchParams.set('reference', reference);
+
+    return {
+      consentId,
+      authUrl: url.toString(),
+      institutionName: 'Mock Bank',
+      expiresAt: new Date(Date.now() + 90 * 86400000).toISOString(),
+    };
+  }
+
+  async getConsentStatus(_consentId: string) {
+    return { status: 'active' as const };
+  }
+
+  async revokeConsent(_consentId: string) {}
+
+  async listAccounts(_consentId: string) {
+    return MOCK_ACCOUNTS;
+  }
+
+  async fetchTransactions(_consentId: string, providerAccountId: string, cursor: string | null) {
+    // Only whole days are delivered, so today's transactions arrive tomorrow
+    const yesterday = addDays(new Date().toISOString().split('T')[0], -1);
+    // The cursor is the last day delivered
+    const from = cursor ? addDays(cursor, 1) : addDays(yesterday, -89);
+    const to = addDays(from, 6) < yesterday ? addDays(from, 6) : yesterday;
+
+    const transactions: FeedTransaction[] = [];
+    for (let date = from; date <= to; date = addDays(date, 1)) {
+      const random = seededRandom(`${providerAccountId}|${date}`);
+      const count = Math.floor(random() * 3);
+      for (let n = 0; n < count; n++) {
+        const payee = MOCK_PAYEES[Math.floor(random() * MOCK_PAYEES.length)];
+        transactions.push({
+          id: `${providerAccountId}-${date}-${n}`,
+          date,
+          description: payee.description,
+          amount: Math.round((payee.min + random() * (payee.max - payee.min)) * 100) / 100,
+        });
+      }
+    }
+
+    return { transactions, cursor: to < from ? cursor ?? to : to, hasMore: to < yesterday };
+  }
+}
+
+/** Build the provider selected by BANK_FEED_PROVIDER (only "mock" so far, the default). */
+export const createBankFeedProvider = (name = Deno.env.get('BANK_FEED_PROVIDER') ?? 'mock'): BankFeedProvider => {
+  if (name === 'mock') {
+    return new MockBankFeedProvider();
+  }
+
+  throw new Error(`Unknown BANK_FEED_PROVIDER "${name}"`);
+};
@@ -0,0 +1,105 @@
+export interface EmailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface InvoiceEmailData {
+  companyName: string;
+  customerName: string;
+  invoiceNumber: string;
+  total: number;
+  outstanding: number;
+  dueDate: string | null;
+  note?: string;
+}
+
+interface StatementLine {
+  invoiceNumber: string;
+  date: string;
+  dueDate: string | null;
+  total: number;
+  outstanding: number;
+}
+
+interface StatementEmailData {
+  companyName: string;
+  customerName: string;
+  lines: StatementLine[];
+  note?: string;
+}
+
+const money = (amount: number) =>
+  `£${Number(amount).toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' });
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const paragraphs = (text: string) =>
+  text.split(/\n{2,}/).map((p) => `<p>${escapeHtml(p).replace(/\n/g, '<br>')}</p>`).join('');
+
+export const renderInvoiceEmail = (data: InvoiceEmailData): EmailContent => {
+  const due = data.dueDate ? ` and is due on ${formatDate(data.dueDate)}` : '';
+  const text = [
+    `Dear ${data.customerName},`,
+    `Please find attached invoice ${data.invoiceNumber} for ${money(data.total)}${due}.`,
+    data.outstanding < data.total ? `The balance outstanding is ${money(data.outstanding)}.` : null,
+    data.note || null,
+    `Kind regards,\n${data.companyName}`,
+  ].filter(Boolean).join('\n\n');
+
+  return {
+    subject: `Invoice ${data.invoiceNumber} from ${data.companyName}`,
+    text,
+    html: paragraphs(text),
+  };
+};
+
+export const renderStatementEmail = (data: StatementEmailData): EmailContent => {
+  const balance = data.lines.reduce((sum, line) => sum + line.outstanding, 0);
+  const listing = data.lines
+    .map((line) =>
+      `${line.invoiceNumber}  ${formatDate(line.date)}  due ${line.dueDate ? formatDate(line.dueDate) : '-'}  ` +
+      `total ${money(line.total)}  outstanding ${money(line.outstanding)}`
+    )
+    .join('\n');
+
+  const intro = data.lines.length > 0
+    ? `Here is your statement of account. The total balance outstanding is ${money(balance)}.`
+    : 'Here is your statement of account. There is nothing outstanding.';
+
+  const text = [
+    `Dear ${data.customerName},`,
+    intro,
+    listing || null,
+    data.note || null,
+    `Kind regards,\n${data.companyName}`,
+  ].filter(Boolean).join('\n\n');
+
+  const table = data.lines.length > 0
+    ? `<table cellpadding="4" style="border-collapse:collapse">
+<tr><th align="left">Invoice</th><th align="left">Date</th><th align="left">Due</th><th align="right">Total</th><th align="right">Outstanding</th></tr>
+${data.lines.map((line) =>
+  `<tr><td>${escapeHtml(line.invoiceNumber)}</td><td>${formatDate(line.date)}</td>` +
+  `<td>${line.dueDate ? formatDate(line.dueDate) : '-'}</td><td align="right">${money(line.total)}</td>` +
+  `<td align="right">${money(line.outstanding)}</td></tr>`
+).join('\n')}
+<tr><td colspan="4"><strong>Balance</strong></td><td align="right"><strong>${money(balance)}</strong></td></tr>
+</table>`
+    : '';
+
+  return {
+    subject: `Statement of account from ${data.companyName}`,
+    text,
+    html: [
+      paragraphs(`Dear ${data.customerName},`),
+      paragraphs(intro),
+      table,
+      data.note ? paragraphs(data.note) : '',
+      paragraphs(`Kind regards,\n${data.companyName}`),
+    ].join('\n'),
+  };
+};
@@ -0,0 +1,225 @@
+import { jsPDF } from 'jspdf';
+
+// Invoice PDFs are rendered here for both the app and the edge functions, so an invoice sent by the
+// scheduler looks the same as one downloaded or emailed from the app
+
+export interface InvoicePdfCompany {
+  company_name: string;
+  address?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  company_number?: string | null;
+  vat_number?: string | null;
+  bank_name?: string | null;
+  bank_account_name?: string | null;
+  bank_sort_code?: string | null;
+  bank_account_number?: string | null;
+  bank_iban?: string | null;
+  invoice_footer?: string | null;
+}
+
+export interface InvoicePdfLine {
+  description: string;
+  quantity: number;
+  unit_price: number;
+  line_total: number;
+  vat_amount: number;
+  vat_rate: number;
+}
+
+export interface InvoicePdfData {
+  company: InvoicePdfCompany;
+  logoDataUrl?: string;
+  customer: { name: string; address?: string | null; email?: string | null };
+  invoice: {
+    id: string;
+    organisation_id: string;
+    invoice_number: string;
+    date: string;
+    due_date?: string | null;
+    status: string;
+    subtotal: number;
+    vat_amount: number;
+    total: number;
+    amount_paid: number;
+    amount_credited: number;
+  };
+  lines: InvoicePdfLine[];
+}
+
+const PAGE_WIDTH = 210;
+const MARGIN = 15;
+const CONTENT_BOTTOM = 270;
+
+const money = (amount: number) => `£${Number(amount).toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const formatDate = (date: string) => new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' });
+
+/**
+ * Render an invoice as an A4 PDF. When the company is VAT registered the document is laid
+ * out as a full VAT invoice: supplier VAT number, tax point, per-line rate and a VAT summary
+ * per rate, all in sterling.
+ */
+export const renderInvoicePdf = ({ company, logoDataUrl, customer, invoice, lines }: InvoicePdfData) => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const isVatInvoice = !!company.vat_number;
+  const right = PAGE_WIDTH - MARGIN;
+  let y = MARGIN;
+
+  // Header: logo on the left, supplier details on the right
+  if (logoDataUrl) {
+    const format = logoDataUrl.startsWith('data:image/png') ? 'PNG' : 'JPEG';
+    const { width, height } = doc.getImageProperties(logoDataUrl);
+    const scale = Math.min(50 / width, 25 / height);
+    doc.addImage(logoDataUrl, format, MARGIN, y, width * scale, height * scale);
+  }
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.text(company.company_name || '', right, y + 4, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  const supplierLines = [
+    ...(company.address ? company.address.split('\n') : []),
+    company.email,
+    company.phone,
+    isVatInvoice ? `VAT Reg No: ${company.vat_number}` : null
+  ].filter(Boolean) as string[];
+  supplierLines.forEach((line, index) => doc.text(line, right, y + 9 + index * 4, { align: 'right' }));
+  y = Math.max(y + 30, y + 12 + supplierLines.length * 4);
+
+  // Title and draft marker
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.text(isVatInvoice ? 'VAT INVOICE' : 'INVOICE', MARGIN, y);
+  if (invoice.status === 'draft') {
+    doc.setTextColor(200, 0, 0);
+    doc.text('DRAFT', right, y, { align: 'right' });
+    doc.setTextColor(0);
+  }
+  y += 10;
+
+  // Customer and invoice details
+  doc.setFontSize(9);
+  doc.text('Bill to', MARGIN, y);
+  doc.text('Invoice number', 120, y);
+  doc.text(isVatInvoice ? 'Invoice date / tax point' : 'Invoice date', 120, y + 10);
+  if (invoice.due_date) doc.text('Due date', 120, y + 20);
+
+  doc.setFont('helvetica', 'normal');
+  const customerLines = [
+    customer.name,
+    ...(customer.address ? customer.address.split('\n') : []),
+    customer.email
+  ].filter(Boolean) as string[];
+  customerLines.forEach((line, index) => doc.text(line, MARGIN, y + 5 + index * 4));
+  doc.text(invoice.invoice_number, 120, y + 5);
+  doc.text(formatDate(invoice.date), 120, y + 15);
+  if (invoice.due_date) doc.text(formatDate(invoice.due_date), 120, y + 25);
+  y += Math.max(32, 8 + customerLines.length * 4);
+
+  // Line items
+  const columns = { description: MARGIN, quantity: 120, unitPrice: 145, vatRate: 160, net: right };
+  const drawTableHeader = () => {
+    doc.setFont('helvetica', 'bold');
+    doc.setFillColor(240, 240, 240);
+    doc.rect(MARGIN, y - 4, right - MARGIN, 6, 'F');
+    doc.text('Description', columns.description + 1, y);
+    doc.text('Qty', columns.quantity, y, { align: 'right' });
+    doc.text('Unit price', columns.unitPrice, y, { align: 'right' });
+    doc.text('VAT', columns.vatRate, y, { align: 'right' });
+    doc.text('Net amount', columns.net, y, { align: 'right' });
+    doc.setFont('helvetica', 'normal');
+    y += 6;
+  };
+  drawTableHeader();
+
+  lines.forEach(line => {
+    const description: string[] = doc.splitTextToSize(line.description || '', columns.quantity - columns.description - 15);
+    if (y + description.length * 4 > CONTENT_BOTTOM) {
+      doc.addPage();
+      y = MARGIN + 4;
+      drawTableHeader();
+    }
+    doc.text(description, columns.description + 1, y);
+    doc.text(String(line.quantity), columns.quantity, y, { align: 'right' });
+    doc.text(money(line.unit_price), columns.unitPrice, y, { align: 'right' });
+    doc.text(`${line.vat_rate}%`, columns.vatRate, y, { align: 'right' });
+    doc.text(money(line.line_total), columns.net, y, { align: 'right' });
+    y += description.length * 4 + 2;
+  });
+
+  // VAT summary per rate, then totals
+  const vatByRate = new Map<number, { net: number; vat: number }>();
+  lines.forEach(line => {
+    const entry = vatByRate.get(line.vat_rate) || { net: 0, vat: 0 };
+    entry.net += line.line_total;
+    entry.vat += line.vat_amount;
+    vatByRate.set(line.vat_rate, entry);
+  });
+
+  const outstanding = Number(invoice.total) - Number(invoice.amount_paid) - Number(invoice.amount_credited);
+  const settlementRows = (Number(invoice.amount_credited) > 0 ? 1 : 0) + (Number(invoice.amount_paid) > 0 ? 1 : 0);
+  const totalRows = 4 + vatByRate.size + (settlementRows > 0 ? settlementRows + 1 : 0);
+  if (y + totalRows * 5 > CONTENT_BOTTOM) {
+    doc.addPage();
+    y = MARGIN + 4;
+  }
+
+  y += 2;
+  doc.line(120, y, right, y);
+  y += 5;
+  const totalRow = (label: string, value: string, bold = false) => {
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    doc.text(label, 120, y);
+    doc.text(value, right, y, { align: 'right' });
+    y += 5;
+  };
+
+  totalRow('Total excluding VAT', money(invoice.subtotal));
+  [...vatByRate.entries()]
+    .sort(([a], [b]) => b - a)
+    .forEach(([rate, { net, vat }]) => totalRow(`VAT at ${rate}% on ${money(net)}`, money(vat)));
+  totalRow('Total VAT', money(invoice.vat_amount));
+  totalRow('Total', money(invoice.total), true);
+  if (Number(invoice.amount_credited) > 0) {
+    totalRow('Credit notes', money(invoice.amount_credited));
+  }
+  if (Number(invoice.amount_paid) > 0) {
+    totalRow('Amount paid', money(invoice.amount_paid));
+  }
+  if (settlementRows > 0) {
+    totalRow('Balance due', money(outstanding), true);
+  }
+
+  // Footer: payment details and company registration
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  let footerY = 275;
+  const paymentDetails = [
+    company.bank_name,
+    company.bank_account_name && `Account name: ${company.bank_account_name}`,
+    company.bank_sort_code && `Sort code: ${company.bank_sort_code}`,
+    company.bank_account_number && `Account number: ${company.bank_account_number}`,
+    company.bank_iban && `IBAN: ${company.bank_iban}`
+  ].filter(Boolean) as string[];
+  if (paymentDetails.length > 0) {
+    doc.text(`Payment details: ${paymentDetails.join(' · ')}. Please quote ${invoice.invoice_number}.`, MARGIN, footerY);
+    footerY += 4;
+  }
+  const registration = [
+    company.company_name,
+    company.company_number && `Company No. ${company.company_number}`,
+    isVatInvoice && `VAT Reg No. ${company.vat_number}`
+  ].filter(Boolean) as string[];
+  doc.text(registration.join(' · '), MARGIN, footerY);
+  footerY += 4;
+  if (company.invoice_footer) {
+    doc.text(doc.splitTextToSize(company.invoice_footer, right - MARGIN), MARGIN, footerY);
+  }
+
+  return doc;
+};
+
+/** Render an invoice as it stands when issued, before any payments or credit notes. */
+export const renderIssuedInvoicePdf = (data: InvoicePdfData) =>
+  renderInvoicePdf({ ...data, invoice: { ...data.invoice, status: 'sent', amount_paid: 0, amount_credited: 0 } });
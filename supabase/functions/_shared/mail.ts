@@ -0,0 +1,125 @@
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+
+export interface MailAttachment {
+  filename: string;
+  content: Uint8Array;
+  contentType: string;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  fromName?: string;
+  replyTo?: string;
+  attachments?: MailAttachment[];
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<{ messageId: string }>;
+}
+
+const formatFrom = (address: string, name?: string) =>
+  name ? `${name.replace(/[<>"]/g, '')} <${address}>` : address;
+
+/**
+ * Sends through any SMTP server. Point SMTP_HOST/SMTP_PORT at a local stand-in such as
+ * Inbucket or Mailpit in development and tests, and at the real relay in production.
+ */
+export class SmtpTransport implements MailTransport {
+  constructor(
+    private readonly options: {
+      hostname: string;
+      port: number;
+      tls: boolean;
+      username?: string;
+      password?: string;
+      from: string;
+    },
+  ) {}
+
+  async send(message: MailMessage) {
+    const client = new SMTPClient({
+      connection: {
+        hostname: this.options.hostname,
+        port: this.options.port,
+        tls: this.options.tls,
+        auth: this.options.username
+          ? { username: this.options.username, password: this.options.password ?? '' }
+          : undefined,
+      },
+    });
+
+    const messageId = `<${crypto.randomUUID()}@${this.options.from.split('@')[1] ?? 'localhost'}>`;
+
+    try {
+      await client.send({
+        from: formatFrom(this.options.from, message.fromName),
+        to: message.to,
+        replyTo: message.replyTo,
+        subject: message.subject,
+        content: message.text,
+        html: message.html,
+        headers: { 'Message-ID': messageId },
+        attachments: (message.attachments ?? []).map((attachment) => ({
+          filename: attachment.filename,
+          content: attachment.content,
+          contentType: attachment.contentType,
+          encoding: 'binary' as const,
+        })),
+      });
+    } finally {
+      await client.close();
+    }
+
+    return { messageId };
+  }
+}
+
+/** Writes messages to the function log instead of delivering them. */
+export class LogTransport implements MailTransport {
+  async send(message: MailMessage) {
+    const messageId = crypto.randomUUID();
+    console.log('Mail (log transport):', {
+      messageId,
+      to: message.to,
+      subject: message.subject,
+      attachments: (message.attachments ?? []).map((a) => `${a.filename} (${a.content.byteLength} bytes)`),
+    });
+    console.log(message.text);
+    return { messageId };
+  }
+}
+
+/**
+ * Build the transport selected by MAIL_TRANSPORT ("smtp" or "log", default "smtp").
+ * SMTP settings: SMTP_HOST, SMTP_PORT (default 587), SMTP_TLS ("true" for implicit TLS),
+ * SMTP_USERNAME, SMTP_PASSWORD and MAIL_FROM for the sender address.
+ */
+export const createMailTransport = (): MailTransport => {
+  const kind = Deno.env.get('MAIL_TRANSPORT') ?? 'smtp';
+
+  if (kind === 'log') {
+    return new LogTransport();
+  }
+
+  if (kind !== 'smtp') {
+    throw new Error(`Unknown MAIL_TRANSPORT "${kind}"`);
+  }
+
+  const hostname = Deno.env.get('SMTP_HOST');
+  const from = Deno.env.get('MAIL_FROM');
+  if (!hostname || !from) {
+    throw new Error('Email is not configured: set SMTP_HOST and MAIL_FROM');
+  }
+
+  return new SmtpTransport({
+    hostname,
+    port: Number(Deno.env.get('SMTP_PORT') ?? 587),
+    tls: Deno.env.get('SMTP_TLS') === 'true',
+    username: Deno.env.get('SMTP_USERNAME') ?? undefined,
+    password: Deno.env.get('SMTP_PASSWORD') ?? undefined,
+    from,
+  });
+};
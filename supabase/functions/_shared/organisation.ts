@@ -0,0 +1,11 @@
+// The app names the organisation each tab works in on every request, and current_organisation_id()
+// reads it from there. Functions acting as the user pass it on so they work in the same one.
+export const ORGANISATION_HEADER = 'x-organisation-id';
+
+/** Headers for a client that acts as the user who made the request */
+export const userHeaders = (req: Request): Record<string, string> => {
+  const headers: Record<string, string> = { Authorization: req.headers.get('Authorization')! };
+  const organisationId = req.headers.get(ORGANISATION_HEADER);
+  if (organisationId) headers[ORGANISATION_HEADER] = organisationId;
+  return headers;
+};
@@ -0,0 +1,200 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { createBankFeedProvider } from '../_shared/bank-feeds.ts';
+import { syncConnection } from './sync.ts';
+import { userHeaders } from '../_shared/organisation.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-organisation-id',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+// Users connect, sync and disconnect their organisation's feeds; pg_cron calls "sync_all" with the service
+// role key every few hours. Connections are written with the service role because users cannot
+// create them directly: they only exist once the provider has issued a consent.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const adminClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+    const { action, consent, connectionId, redirectUrl } = await req.json();
+
+    if (action === 'sync_all') {
+      if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+        return json({ error: 'Unauthorized' }, 401);
+      }
+
+      const { data: connections, error } = await adminClient
+        .from('bank_feed_connections')
+        .select('id, organisation_id, provider, consent_id')
+        .in('status', ['active', 'error']);
+
+      if (error) throw error;
+
+      let imported = 0;
+      for (const connection of connections ?? []) {
+        imported += await syncConnection(adminClient, connection);
+      }
+
+      console.log(`Synced ${connections?.length ?? 0} bank feeds, ${imported} new transactions`);
+      return json({ connections: connections?.length ?? 0, imported });
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: userHeaders(req),
+        },
+      }
+    );
+
+    const { data: { user } } = await supabaseClient.auth.getUser();
+    if (!user) {
+      throw new Error('Unauthorized');
+    }
+
+    const { data: allowed } = await supabaseClient.rpc('has_permission', { _permission: 'banking.manage' });
+    if (!allowed) {
+      throw new Error('Your role in this organisation does not allow this');
+    }
+
+    // The admin client bypasses RLS, so everything below is filtered to the organisation in use
+    const { data: organisationId, error: organisationError } = await supabaseClient.rpc('current_organisation_id');
+    if (organisationError || !organisationId) {
+      throw new Error('No organisation selected');
+    }
+
+    if (action === 'connect') {
+      // The provider sends the user back to redirectUrl with the consent id once they have authorised
+      const provider = createBankFeedProvider();
+      const created = await provider.createConsent({ redirectUrl, reference: crypto.randomUUID() });
+
+      const { error } = await adminClient
+        .from('bank_feed_connections')
+        .insert({
+          organisation_id: organisationId,
+          user_id: user.id,
+          provider: provider.name,
+          consent_id: created.consentId,
+          institution_name: created.institutionName ?? null,
+          consent_expires_at: created.expiresAt ?? null,
+        });
+
+      if (error) throw error;
+
+      return json({ authUrl: created.authUrl });
+    }
+
+    if (action === 'complete') {
+      const { data: connection, error } = await adminClient
+        .from('bank_feed_connections')
+        .select('id, organisation_id, provider, consent_id')
+        .eq('consent_id', consent)
+        .eq('organisation_id', organisationId)
+        .single();
+
+      if (error || !connection) {
+        throw new Error('Bank feed connection not found');
+      }
+
+      const provider = createBankFeedProvider(connection.provider);
+      const status = await provider.getConsentStatus(connection.consent_id);
+      if (status.status !== 'active') {
+        await adminClient.from('bank_feed_connections').update({ status: status.status }).eq('id', connection.id);
+        throw new Error('The bank did not grant access');
+      }
+
+      const { data: bankAccounts } = await adminClient
+        .from('bank_accounts')
+        .select('id, sort_code, account_number')
+        .eq('organisation_id', organisationId);
+
+      const { data: linked } = await adminClient
+        .from('bank_feed_accounts')
+        .select('bank_account_id')
+        .eq('organisation_id', organisationId)
+        .not('bank_account_id', 'is', null);
+
+      const taken = new Set((linked ?? []).map((account) => account.bank_account_id));
+
+      // Link each feed account to the bank account with the same sort code and number, if there is one
+      const accounts = (await provider.listAccounts(connection.consent_id)).map((account) => {
+        const match = (bankAccounts ?? []).find((bankAccount) =>
+          !taken.has(bankAccount.id) &&
+          !!account.accountNumber &&
+          bankAccount.account_number === account.accountNumber &&
+          bankAccount.sort_code === account.sortCode
+        );
+        if (match) taken.add(match.id);
+
+        return {
+          organisation_id: organisationId,
+          user_id: user.id,
+          connection_id: connection.id,
+          provider_account_id: account.providerAccountId,
+          name: account.name,
+          sort_code: account.sortCode ?? null,
+          account_number: account.accountNumber ?? null,
+          currency: account.currency,
+          bank_account_id: match?.id ?? null,
+        };
+      });
+
+      const { error: accountsError } = await adminClient
+        .from('bank_feed_accounts')
+        .upsert(accounts, { onConflict: 'connection_id,provider_account_id', ignoreDuplicates: true });
+
+      if (accountsError) throw accountsError;
+
+      await adminClient
+        .from('bank_feed_connections')
+        .update({ status: 'active', consent_expires_at: status.expiresAt ?? undefined, last_error: null })
+        .eq('id', connection.id);
+
+      const imported = await syncConnection(adminClient, connection, provider);
+      return json({ accounts: accounts.length, imported });
+    }
+
+    if (action === 'sync' || action === 'disconnect') {
+      const { data: connection, error } = await adminClient
+        .from('bank_feed_connections')
+        .select('id, organisation_id, provider, consent_id')
+        .eq('id', connectionId)
+        .eq('organisation_id', organisationId)
+        .single();
+
+      if (error || !connection) {
+        throw new Error('Bank feed connection not found');
+      }
+
+      if (action === 'sync') {
+        const imported = await syncConnection(adminClient, connection);
+        return json({ imported });
+      }
+
+      // Transactions already synced stay; they just stop being linked to the feed
+      await createBankFeedProvider(connection.provider).revokeConsent(connection.consent_id);
+      const { error: deleteError } = await adminClient
+        .from('bank_feed_connections')
+        .delete()
+        .eq('id', connection.id);
+
+      if (deleteError) throw deleteError;
+
+      return json({ disconnected: true });
+    }
+
+    throw new Error(`Unknown action "${action}"`);
+
+  } catch (error) {
+    console.error('Error:', error);
+    return json({ error: error.message }, 400);
+  }
+});
@@ -0,0 +1,76 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { BankFeedProvider, createBankFeedProvider } from '../_shared/bank-feeds.ts';
+
+export interface FeedConnection {
+  id: string;
+  organisation_id: string;
+  provider: string;
+  consent_id: string;
+}
+
+// Bounds one run; a feed that is further behind carries on at the next sync
+const MAX_PAGES_PER_ACCOUNT = 20;
+
+/**
+ * Pull new transactions for every linked account of a connection. Each page is stored together
+ * with its cursor, so a failure part way through resumes from the last stored page next time.
+ */
+export const syncConnection = async (
+  client: SupabaseClient,
+  connection: FeedConnection,
+  provider: BankFeedProvider = createBankFeedProvider(connection.provider),
+) => {
+  let imported = 0;
+
+  try {
+    const consent = await provider.getConsentStatus(connection.consent_id);
+    if (consent.status !== 'active') {
+      await client
+        .from('bank_feed_connections')
+        .update({ status: consent.status, last_error: 'The bank no longer allows access; reconnect to carry on syncing' })
+        .eq('id', connection.id);
+      return imported;
+    }
+
+    const { data: accounts, error } = await client
+      .from('bank_feed_accounts')
+      .select('id, provider_account_id, sync_cursor')
+      .eq('connection_id', connection.id)
+      .not('bank_account_id', 'is', null);
+
+    if (error) throw error;
+
+    for (const account of accounts ?? []) {
+      let cursor: string | null = account.sync_cursor;
+
+      for (let page = 0; page < MAX_PAGES_PER_ACCOUNT; page++) {
+        const result = await provider.fetchTransactions(connection.consent_id, account.provider_account_id, cursor);
+
+        const { data: inserted, error: ingestError } = await client.rpc('ingest_bank_feed_transactions', {
+          _feed_account_id: account.id,
+          _transactions: result.transactions,
+          _cursor: result.cursor,
+        });
+
+        if (ingestError) throw ingestError;
+
+        imported += inserted ?? 0;
+        cursor = result.cursor;
+        if (!result.hasMore) break;
+      }
+    }
+
+    await client
+      .from('bank_feed_connections')
+      .update({ status: 'active', last_synced_at: new Date().toISOString(), last_error: null })
+      .eq('id', connection.id);
+  } catch (error) {
+    console.error(`Error syncing bank feed ${connection.id}:`, error);
+    await client
+      .from('bank_feed_connections')
+      .update({ status: 'error', last_error: (error as { message?: string }).message ?? 'Sync failed' })
+      .eq('id', connection.id);
+  }
+
+  return imported;
+};
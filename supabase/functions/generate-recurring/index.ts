@@ -0,0 +1,48 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { sendQueuedInvoices } from './send.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Called daily by pg_cron. Generation itself happens in generate_recurring_documents so each
+// template's period is created in one transaction and re-running the same day is harmless. Invoices
+// set to send automatically are then emailed, and only issued once they have been sent.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+    const today = new Date().toISOString().split('T')[0];
+    const { data: generated, error } = await supabaseClient.rpc('generate_recurring_documents', { _as_of: today });
+    if (error) throw error;
+
+    const sent = await sendQueuedInvoices(supabaseClient);
+
+    console.log(`Generated ${generated} recurring documents and sent ${sent} invoices for ${today}`);
+
+    return new Response(
+      JSON.stringify({ generated, sent }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
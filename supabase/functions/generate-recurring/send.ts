@@ -0,0 +1,206 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { createMailTransport } from '../_shared/mail.ts';
+import { renderInvoiceEmail } from '../_shared/email-templates.ts';
+import { InvoicePdfData, renderIssuedInvoicePdf } from '../_shared/invoice-pdf.ts';
+
+interface QueuedInvoice {
+  id: string;
+  organisation_id: string;
+  user_id: string | null;
+  recurring_invoice_id: string | null;
+  invoice_number: string;
+  date: string;
+  due_date: string | null;
+  status: string;
+  subtotal: number;
+  vat_amount: number;
+  total: number;
+  amount_paid: number;
+  amount_credited: number;
+  customer: { id: string; name: string; address: string | null; email: string | null };
+}
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// The same data the app renders from, read for the invoice's own organisation
+const loadPdfData = async (client: SupabaseClient, invoice: QueuedInvoice): Promise<InvoicePdfData> => {
+  const [{ data: lines, error: linesError }, { data: company, error: companyError }] = await Promise.all([
+    client
+      .from('invoice_lines')
+      .select('description, quantity, unit_price, line_total, vat_amount, tax_code:tax_codes(rate)')
+      .eq('invoice_id', invoice.id)
+      .order('created_at'),
+    client
+      .from('company_settings')
+      .select('*')
+      .eq('organisation_id', invoice.organisation_id)
+      .maybeSingle(),
+  ]);
+
+  if (linesError) throw linesError;
+  if (companyError) throw companyError;
+
+  let logoDataUrl: string | undefined;
+  if (company?.logo_path) {
+    const { data: logo, error } = await client.storage.from('company-logos').download(company.logo_path);
+    if (error) {
+      console.error('Error loading company logo:', error);
+    } else {
+      logoDataUrl = `data:${logo.type};base64,${toBase64(new Uint8Array(await logo.arrayBuffer()))}`;
+    }
+  }
+
+  const { customer, ...rest } = invoice;
+
+  return {
+    company: company || { company_name: '' },
+    logoDataUrl,
+    customer,
+    invoice: rest,
+    lines: (lines ?? []).map((line) => ({
+      description: line.description,
+      quantity: Number(line.quantity),
+      unit_price: Number(line.unit_price),
+      line_total: Number(line.line_total),
+      vat_amount: Number(line.vat_amount),
+      vat_rate: Number(line.tax_code?.rate ?? 0),
+    })),
+  };
+};
+
+// Whether an earlier run emailed the invoice but could not issue it
+const alreadySent = async (client: SupabaseClient, invoiceId: string) => {
+  const { data, error } = await client
+    .from('document_sends')
+    .select('id')
+    .eq('invoice_id', invoiceId)
+    .eq('status', 'sent')
+    .limit(1);
+
+  if (error) throw error;
+  return (data ?? []).length > 0;
+};
+
+// Email the invoice with its PDF and record the send
+const emailInvoice = async (client: SupabaseClient, invoice: QueuedInvoice, pdfData: InvoicePdfData, pdf: Uint8Array) => {
+  const content = renderInvoiceEmail({
+    companyName: pdfData.company.company_name,
+    customerName: invoice.customer.name,
+    invoiceNumber: invoice.invoice_number,
+    total: Number(invoice.total),
+    outstanding: Number(invoice.total),
+    dueDate: invoice.due_date,
+  });
+
+  const sendRecord = {
+    organisation_id: invoice.organisation_id,
+    user_id: invoice.user_id,
+    document_type: 'invoice',
+    invoice_id: invoice.id,
+    customer_id: invoice.customer.id,
+    recipient: invoice.customer.email,
+    subject: content.subject,
+  };
+
+  let messageId: string;
+  try {
+    ({ messageId } = await createMailTransport().send({
+      to: invoice.customer.email,
+      ...content,
+      fromName: pdfData.company.company_name,
+      replyTo: pdfData.company.email ?? undefined,
+      attachments: [{ filename: `${invoice.invoice_number}.pdf`, content: pdf, contentType: 'application/pdf' }],
+    }));
+  } catch (sendError) {
+    await client
+      .from('document_sends')
+      .insert({ ...sendRecord, status: 'failed', error: String(sendError?.message ?? sendError) });
+    throw new Error(`Invoice ${invoice.invoice_number} could not be emailed`);
+  }
+
+  await client
+    .from('document_sends')
+    .insert({ ...sendRecord, status: 'sent', message_id: messageId });
+};
+
+/**
+ * Email one queued invoice with its PDF, then issue it and file the PDF that was sent. A failed
+ * send is recorded and the invoice stays queued as a draft, to be tried again on the next run.
+ * An invoice that was emailed but not issued is only issued on later runs, never emailed again.
+ */
+const sendQueuedInvoice = async (client: SupabaseClient, invoice: QueuedInvoice) => {
+  const pdfData = await loadPdfData(client, invoice);
+  if (!pdfData.company.company_name) {
+    throw new Error('Add your company details in Settings before invoices can be sent automatically');
+  }
+  if (!invoice.customer.email) {
+    throw new Error(`${invoice.customer.name} has no email address`);
+  }
+
+  const pdf = new Uint8Array(renderIssuedInvoicePdf(pdfData).output('arraybuffer'));
+  if (!(await alreadySent(client, invoice.id))) {
+    await emailInvoice(client, invoice, pdfData, pdf);
+  }
+
+  // Issuing posts the invoice to the ledger and takes it out of the queue
+  const { error: issueError } = await client
+    .from('invoices')
+    .update({ status: 'sent', last_sent_at: new Date().toISOString() })
+    .eq('id', invoice.id);
+
+  if (issueError) {
+    throw new Error(`Invoice ${invoice.invoice_number} was emailed but could not be issued: ${issueError.message}`);
+  }
+
+  const path = `${invoice.organisation_id}/${invoice.id}.pdf`;
+  const { error: uploadError } = await client.storage
+    .from('invoice-pdfs')
+    .upload(path, pdf, { contentType: 'application/pdf', upsert: false });
+
+  if (uploadError) {
+    console.error(`Error filing invoice ${invoice.invoice_number}:`, uploadError);
+    return;
+  }
+
+  await client
+    .from('invoices')
+    .update({ pdf_path: path, pdf_generated_at: new Date().toISOString() })
+    .eq('id', invoice.id)
+    .is('pdf_path', null);
+};
+
+/** Send every invoice waiting to be emailed. Failures are noted on the invoice's template. */
+export const sendQueuedInvoices = async (client: SupabaseClient) => {
+  const { data: invoices, error } = await client
+    .from('invoices')
+    .select('id, organisation_id, user_id, recurring_invoice_id, invoice_number, date, due_date, status, subtotal, vat_amount, total, amount_paid, amount_credited, customer:customers(id, name, address, email)')
+    .eq('status', 'draft')
+    .eq('auto_send_pending', true)
+    .order('date');
+
+  if (error) throw error;
+
+  let sent = 0;
+  for (const invoice of (invoices ?? []) as QueuedInvoice[]) {
+    try {
+      await sendQueuedInvoice(client, invoice);
+      sent++;
+    } catch (sendError) {
+      console.error('Error sending recurring invoice:', sendError);
+      if (invoice.recurring_invoice_id) {
+        await client
+          .from('recurring_invoices')
+          .update({ last_error: sendError.message })
+          .eq('id', invoice.recurring_invoice_id);
+      }
+    }
+  }
+
+  return sent;
+};
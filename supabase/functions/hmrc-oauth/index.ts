@@ -1,8 +1,9 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { userHeaders } from '../_shared/organisation.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-organisation-id',
 };
 
 Deno.serve(async (req) => {
@@ -16,7 +17,7 @@ Deno.serve(async (req) => {
       Deno.env.get('SUPABASE_ANON_KEY') ?? '',
       {
         global: {
-          headers: { Authorization: req.headers.get('Authorization')! },
+          headers: userHeaders(req),
         },
       }
     );
@@ -26,6 +27,11 @@ Deno.serve(async (req) => {
       throw new Error('Unauthorized');
     }
 
+    const { data: allowed } = await supabaseClient.rpc('has_permission', { _permission: 'vat.manage' });
+    if (!allowed) {
+      throw new Error('Your role in this organisation does not allow this');
+    }
+
     const { action, code, state } = await req.json();
 
     const clientId = Deno.env.get('HMRC_CLIENT_ID');
@@ -81,7 +87,7 @@ Deno.serve(async (req) => {
           token_type: tokens.token_type,
           expires_at: expiresAt.toISOString(),
           scope: tokens.scope,
-        });
+        }, { onConflict: 'organisation_id' });
 
       if (dbError) {
         console.error('Database error:', dbError);
@@ -98,8 +104,7 @@ Deno.serve(async (req) => {
       // Get current refresh token
       const { data: tokenData } = await supabaseClient
         .from('hmrc_oauth_tokens')
-        .select('refresh_token')
-        .eq('user_id', user.id)
+        .select('organisation_id, refresh_token')
         .single();
 
       if (!tokenData) {
@@ -133,7 +138,7 @@ Deno.serve(async (req) => {
           refresh_token: tokens.refresh_token,
           expires_at: expiresAt.toISOString(),
         })
-        .eq('user_id', user.id);
+        .eq('organisation_id', tokenData.organisation_id);
 
       return new Response(
         JSON.stringify({ success: true }),
@@ -1,8 +1,9 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { userHeaders } from '../_shared/organisation.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-organisation-id',
 };
 
 Deno.serve(async (req) => {
@@ -16,7 +17,7 @@ Deno.serve(async (req) => {
       Deno.env.get('SUPABASE_ANON_KEY') ?? '',
       {
         global: {
-          headers: { Authorization: req.headers.get('Authorization')! },
+          headers: userHeaders(req),
         },
       }
     );
@@ -26,13 +27,17 @@ Deno.serve(async (req) => {
       throw new Error('Unauthorized');
     }
 
+    const { data: allowed } = await supabaseClient.rpc('has_permission', { _permission: 'vat.manage' });
+    if (!allowed) {
+      throw new Error('Your role in this organisation does not allow this');
+    }
+
     const { vrn, periodKey, vatReturn } = await req.json();
 
     // Get access token
     const { data: tokenData } = await supabaseClient
       .from('hmrc_oauth_tokens')
       .select('access_token, expires_at')
-      .eq('user_id', user.id)
       .single();
 
     if (!tokenData) {
@@ -85,7 +90,6 @@ Deno.serve(async (req) => {
     const { data: obligation } = await supabaseClient
       .from('vat_obligations')
       .select('id')
-      .eq('user_id', user.id)
       .eq('period_key', periodKey)
       .single();
 
@@ -0,0 +1,109 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { createMailTransport } from '../_shared/mail.ts';
+import { userHeaders } from '../_shared/organisation.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-organisation-id',
+};
+
+const ROLE_LABELS: Record<string, string> = {
+  owner: 'an owner',
+  accountant: 'an accountant',
+  bookkeeper: 'a bookkeeper',
+  approver: 'an approver',
+  read_only: 'a read-only member',
+};
+
+const INVITATION_DAYS = 14;
+
+// Creates an invitation (or renews one when invitationId is given) and emails it. RLS only lets
+// members who may manage the team write invitations, so both fail for everyone else.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // The link in the email goes to the app's own address, never to the origin the request names
+    const siteUrl = Deno.env.get('SITE_URL');
+    if (!siteUrl) {
+      throw new Error('Invitations are not configured: set SITE_URL');
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: userHeaders(req),
+        },
+      }
+    );
+
+    const { data: { user } } = await supabaseClient.auth.getUser();
+    if (!user) {
+      throw new Error('Unauthorized');
+    }
+
+    const { email, role, invitationId } = await req.json();
+
+    const { data: invitation, error } = invitationId
+      ? await supabaseClient
+        .from('organisation_invitations')
+        .update({ expires_at: new Date(Date.now() + INVITATION_DAYS * 24 * 60 * 60 * 1000).toISOString() })
+        .eq('id', invitationId)
+        .is('accepted_at', null)
+        .is('declined_at', null)
+        .select('id, organisation_id, email, role, expires_at')
+        .single()
+      : await supabaseClient
+        .from('organisation_invitations')
+        .insert({ email, role })
+        .select('id, organisation_id, email, role, expires_at')
+        .single();
+
+    if (error || !invitation) {
+      throw new Error(error?.message ?? 'Invitation not found');
+    }
+
+    const [{ data: organisation }, { data: profile }] = await Promise.all([
+      supabaseClient.from('organisations').select('name').eq('id', invitation.organisation_id).single(),
+      supabaseClient.from('profiles').select('name').eq('user_id', user.id).maybeSingle(),
+    ]);
+
+    const inviter = profile?.name || user.email;
+    const text = [
+      'Hello,',
+      `${inviter} has invited you to join ${organisation?.name} on UK Bookkeeping as ${ROLE_LABELS[invitation.role] ?? invitation.role}.`,
+      `To accept, sign in or create an account with this email address (${invitation.email}) at ${siteUrl.replace(/\/+$/, '')}/auth and accept the invitation from the menu. ` +
+        `The invitation expires on ${new Date(invitation.expires_at).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' })}.`,
+      'If you were not expecting this, you can ignore this email.',
+    ].join('\n\n');
+
+    try {
+      await createMailTransport().send({
+        to: invitation.email,
+        subject: `Join ${organisation?.name} on UK Bookkeeping`,
+        text,
+        fromName: inviter,
+        replyTo: user.email,
+      });
+    } catch (sendError) {
+      console.error('Mail transport error:', sendError);
+      throw new Error('The invitation was saved but the email could not be sent; try resending it');
+    }
+
+    return new Response(
+      JSON.stringify({ invitationId: invitation.id, recipient: invitation.email }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
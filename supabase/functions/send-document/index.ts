@@ -0,0 +1,219 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { createMailTransport, MailMessage } from '../_shared/mail.ts';
+import { renderInvoiceEmail, renderStatementEmail } from '../_shared/email-templates.ts';
+import { userHeaders } from '../_shared/organisation.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-organisation-id',
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: userHeaders(req),
+        },
+      }
+    );
+
+    const { data: { user } } = await supabaseClient.auth.getUser();
+    if (!user) {
+      throw new Error('Unauthorized');
+    }
+
+    const { data: allowed } = await supabaseClient.rpc('has_permission', { _permission: 'sales.manage' });
+    if (!allowed) {
+      throw new Error('Your role in this organisation does not allow this');
+    }
+
+    const { type, invoiceId, customerId, to, note, pdf: draftPdf } = await req.json();
+
+    const { data: company } = await supabaseClient
+      .from('company_settings')
+      .select('company_name, email')
+      .maybeSingle();
+
+    if (!company?.company_name) {
+      throw new Error('Add your company details in Settings before emailing customers');
+    }
+
+    let message: MailMessage;
+    let customer: { id: string; name: string; email: string | null };
+    let draft: { id: string; organisation_id: string; invoice_number: string; pdf: Uint8Array } | null = null;
+
+    if (type === 'invoice') {
+      const { data: invoice, error } = await supabaseClient
+        .from('invoices')
+        .select('id, organisation_id, invoice_number, status, total, amount_paid, amount_credited, due_date, pdf_path, customer:customers(id, name, email)')
+        .eq('id', invoiceId)
+        .single();
+
+      if (error || !invoice) {
+        throw new Error('Invoice not found');
+      }
+      if (invoice.status === 'cancelled') {
+        throw new Error('A cancelled invoice cannot be emailed');
+      }
+
+      let pdf: Uint8Array;
+      if (invoice.status === 'draft') {
+        // Emailing a draft issues it, but only once the email has gone: the app sends the PDF
+        // rendered as the invoice will be issued, and it is filed after sending
+        if (!draftPdf) {
+          throw new Error('Generate the invoice PDF before emailing it');
+        }
+        pdf = Uint8Array.from(atob(draftPdf), (char) => char.charCodeAt(0));
+        draft = { id: invoice.id, organisation_id: invoice.organisation_id, invoice_number: invoice.invoice_number, pdf };
+      } else {
+        if (!invoice.pdf_path) {
+          throw new Error('Generate the invoice PDF before emailing it');
+        }
+
+        const { data: filed, error: pdfError } = await supabaseClient.storage
+          .from('invoice-pdfs')
+          .download(invoice.pdf_path);
+
+        if (pdfError || !filed) {
+          throw new Error('Could not load the invoice PDF');
+        }
+        pdf = new Uint8Array(await filed.arrayBuffer());
+      }
+
+      customer = invoice.customer;
+      const content = renderInvoiceEmail({
+        companyName: company.company_name,
+        customerName: customer.name,
+        invoiceNumber: invoice.invoice_number,
+        total: Number(invoice.total),
+        outstanding: Number(invoice.total) - Number(invoice.amount_paid) - Number(invoice.amount_credited),
+        dueDate: invoice.due_date,
+        note,
+      });
+
+      message = {
+        to: to || customer.email,
+        ...content,
+        attachments: [{
+          filename: `${invoice.invoice_number}.pdf`,
+          content: pdf,
+          contentType: 'application/pdf',
+        }],
+      };
+    } else if (type === 'statement') {
+      const { data: customerData, error } = await supabaseClient
+        .from('customers')
+        .select('id, name, email')
+        .eq('id', customerId)
+        .single();
+
+      if (error || !customerData) {
+        throw new Error('Customer not found');
+      }
+      customer = customerData;
+
+      const { data: invoices } = await supabaseClient
+        .from('invoices')
+        .select('invoice_number, date, due_date, total, amount_paid, amount_credited')
+        .eq('customer_id', customerId)
+        .in('status', ['sent', 'overdue'])
+        .order('date');
+
+      const content = renderStatementEmail({
+        companyName: company.company_name,
+        customerName: customer.name,
+        lines: (invoices ?? []).map((invoice) => ({
+          invoiceNumber: invoice.invoice_number,
+          date: invoice.date,
+          dueDate: invoice.due_date,
+          total: Number(invoice.total),
+          outstanding: Number(invoice.total) - Number(invoice.amount_paid) - Number(invoice.amount_credited),
+        })),
+        note,
+      });
+
+      message = { to: to || customer.email, ...content };
+    } else {
+      throw new Error(`Unknown document type "${type}"`);
+    }
+
+    if (!message.to) {
+      throw new Error(`${customer.name} has no email address`);
+    }
+
+    message.fromName = company.company_name;
+    message.replyTo = company.email ?? undefined;
+
+    const sendRecord = {
+      user_id: user.id,
+      document_type: type,
+      invoice_id: type === 'invoice' ? invoiceId : null,
+      customer_id: customer.id,
+      recipient: message.to,
+      subject: message.subject,
+    };
+
+    let messageId: string;
+    try {
+      ({ messageId } = await createMailTransport().send(message));
+    } catch (sendError) {
+      console.error('Mail transport error:', sendError);
+      await supabaseClient
+        .from('document_sends')
+        .insert({ ...sendRecord, status: 'failed', error: String(sendError?.message ?? sendError) });
+      throw new Error('The email could not be sent');
+    }
+
+    await supabaseClient
+      .from('document_sends')
+      .insert({ ...sendRecord, status: 'sent', message_id: messageId });
+
+    if (type === 'invoice') {
+      // Issuing posts the draft to the ledger; the PDF that was sent becomes its filed copy
+      const { error: updateError } = await supabaseClient
+        .from('invoices')
+        .update(draft ? { status: 'sent', last_sent_at: new Date().toISOString() } : { last_sent_at: new Date().toISOString() })
+        .eq('id', invoiceId);
+
+      if (draft && updateError) {
+        throw new Error(`The email was sent, but invoice ${draft.invoice_number} could not be issued: ${updateError.message}`);
+      }
+
+      if (draft) {
+        const path = `${draft.organisation_id}/${draft.id}.pdf`;
+        const { error: uploadError } = await supabaseClient.storage
+          .from('invoice-pdfs')
+          .upload(path, draft.pdf, { contentType: 'application/pdf', upsert: false });
+
+        if (uploadError) {
+          console.error('Error filing invoice PDF:', uploadError);
+        } else {
+          await supabaseClient
+            .from('invoices')
+            .update({ pdf_path: path, pdf_generated_at: new Date().toISOString() })
+            .eq('id', draft.id)
+            .is('pdf_path', null);
+        }
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ messageId, recipient: message.to }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
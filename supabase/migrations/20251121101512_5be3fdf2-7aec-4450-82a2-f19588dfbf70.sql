@@ -0,0 +1,196 @@
+-- Automatic double-entry posting for invoices and bills
+
+-- 1) Track where each journal came from so postings can be found and reversed
+ALTER TABLE public.journals ADD COLUMN IF NOT EXISTS source_type text NOT NULL DEFAULT 'manual';
+ALTER TABLE public.journals ADD COLUMN IF NOT EXISTS source_id uuid;
+ALTER TABLE public.journals ADD COLUMN IF NOT EXISTS reverses_journal_id uuid REFERENCES public.journals(id);
+
+CREATE INDEX IF NOT EXISTS idx_journals_source ON public.journals(source_type, source_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_journals_reverses_journal_id ON public.journals(reverses_journal_id);
+
+-- 2) Expense account per bill line (falls back to Office Expenses 5000 when not set)
+ALTER TABLE public.bill_lines ADD COLUMN IF NOT EXISTS account_id uuid REFERENCES public.chart_of_accounts(id);
+
+-- 3) The seeded accounts have no owner; let everyone read them so posted lines resolve their account
+CREATE POLICY "Users can view shared chart of accounts" ON public.chart_of_accounts
+FOR SELECT TO authenticated USING (user_id IS NULL);
+
+-- 4) Posting helpers
+-- Resolve an account by code, preferring the user's own account over the shared one
+CREATE OR REPLACE FUNCTION public.get_account_id(_user_id uuid, _account_code text)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT id
+  FROM public.chart_of_accounts
+  WHERE account_code = _account_code
+    AND (user_id = _user_id OR user_id IS NULL)
+  ORDER BY user_id NULLS LAST
+  LIMIT 1
+$$;
+
+-- Add a line to a journal: positive amounts are debits, negative amounts are credits, zero is skipped
+CREATE OR REPLACE FUNCTION public.add_journal_line(_journal_id uuid, _account_id uuid, _description text, _amount numeric)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _rounded numeric := round(_amount, 2);
+BEGIN
+  IF _account_id IS NULL THEN
+    RAISE EXCEPTION 'No ledger account found for "%"', _description;
+  END IF;
+
+  IF _rounded = 0 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.journal_lines (journal_id, account_id, description, debit_amount, credit_amount)
+  VALUES (_journal_id, _account_id, _description, GREATEST(_rounded, 0), GREATEST(-_rounded, 0));
+END;
+$$;
+
+-- Create a journal that swaps every debit and credit of the original
+CREATE OR REPLACE FUNCTION public.create_reversal_journal(_journal_id uuid, _date date)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _original public.journals%ROWTYPE;
+  _reversal_id uuid;
+BEGIN
+  SELECT * INTO _original FROM public.journals WHERE id = _journal_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Journal % not found', _journal_id;
+  END IF;
+  IF _original.reverses_journal_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Journal % is itself a reversal', _original.reference;
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.journals WHERE reverses_journal_id = _journal_id) THEN
+    RAISE EXCEPTION 'Journal % has already been reversed', _original.reference;
+  END IF;
+
+  INSERT INTO public.journals (user_id, date, reference, description, source_type, source_id, reverses_journal_id)
+  VALUES (
+    _original.user_id,
+    _date,
+    'REV-' || _original.reference,
+    'Reversal of ' || COALESCE(_original.description, _original.reference),
+    _original.source_type,
+    _original.source_id,
+    _journal_id
+  )
+  RETURNING id INTO _reversal_id;
+
+  INSERT INTO public.journal_lines (journal_id, account_id, description, debit_amount, credit_amount)
+  SELECT _reversal_id, account_id, description, credit_amount, debit_amount
+  FROM public.journal_lines
+  WHERE journal_id = _journal_id;
+
+  RETURN _reversal_id;
+END;
+$$;
+
+-- The posting journal of a document that has not been reversed yet
+CREATE OR REPLACE FUNCTION public.get_active_posting(_source_type text, _source_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT j.id
+  FROM public.journals j
+  WHERE j.source_type = _source_type
+    AND j.source_id = _source_id
+    AND j.reverses_journal_id IS NULL
+    AND NOT EXISTS (SELECT 1 FROM public.journals r WHERE r.reverses_journal_id = j.id)
+  LIMIT 1
+$$;
+
+-- 5) Invoices: Dr Accounts Receivable 1100 / Cr Sales 4000 / Cr VAT Payable 2100 once sent
+CREATE OR REPLACE FUNCTION public.post_invoice_journal()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _active_journal uuid := public.get_active_posting('invoice', NEW.id);
+  _journal_id uuid;
+BEGIN
+  IF NEW.status IN ('sent', 'paid', 'overdue') AND _active_journal IS NULL THEN
+    INSERT INTO public.journals (user_id, date, reference, description, source_type, source_id)
+    VALUES (NEW.user_id, NEW.date, NEW.invoice_number, 'Sales invoice ' || NEW.invoice_number, 'invoice', NEW.id)
+    RETURNING id INTO _journal_id;
+
+    PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.user_id, '1100'), 'Accounts receivable', NEW.subtotal + NEW.vat_amount);
+    PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.user_id, '4000'), 'Sales', -NEW.subtotal);
+    PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.user_id, '2100'), 'VAT on sales', -NEW.vat_amount);
+  ELSIF NEW.status = 'cancelled' AND _active_journal IS NOT NULL THEN
+    PERFORM public.create_reversal_journal(_active_journal, CURRENT_DATE);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS post_invoice_journal ON public.invoices;
+CREATE TRIGGER post_invoice_journal
+AFTER INSERT OR UPDATE OF status ON public.invoices
+FOR EACH ROW EXECUTE FUNCTION public.post_invoice_journal();
+
+-- 6) Bills: Dr expense (per line account) / Dr VAT Receivable 1150 / Cr Accounts Payable 2000 once received
+CREATE OR REPLACE FUNCTION public.post_bill_journal()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _active_journal uuid := public.get_active_posting('bill', NEW.id);
+  _journal_id uuid;
+  _expense record;
+  _net_total numeric := 0;
+BEGIN
+  IF NEW.status IN ('received', 'paid', 'overdue') AND _active_journal IS NULL THEN
+    INSERT INTO public.journals (user_id, date, reference, description, source_type, source_id)
+    VALUES (NEW.user_id, NEW.date, NEW.bill_number, 'Supplier bill ' || NEW.bill_number, 'bill', NEW.id)
+    RETURNING id INTO _journal_id;
+
+    -- bill_lines.line_total includes VAT, so the net amount is line_total - vat_amount
+    FOR _expense IN
+      SELECT COALESCE(bl.account_id, public.get_account_id(NEW.user_id, '5000')) AS account_id,
+             SUM(bl.line_total - bl.vat_amount) AS net_amount
+      FROM public.bill_lines bl
+      WHERE bl.bill_id = NEW.id
+      GROUP BY 1
+    LOOP
+      PERFORM public.add_journal_line(_journal_id, _expense.account_id, 'Purchases', _expense.net_amount);
+      _net_total := _net_total + round(_expense.net_amount, 2);
+    END LOOP;
+
+    -- No lines yet (e.g. inserted straight as received): post the header subtotal to the default expense account
+    IF NOT FOUND THEN
+      PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.user_id, '5000'), 'Purchases', NEW.subtotal);
+      _net_total := NEW.subtotal;
+    END IF;
+
+    PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.user_id, '1150'), 'VAT on purchases', NEW.vat_amount);
+    PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.user_id, '2000'), 'Accounts payable', -(_net_total + NEW.vat_amount));
+  ELSIF NEW.status = 'cancelled' AND _active_journal IS NOT NULL THEN
+    PERFORM public.create_reversal_journal(_active_journal, CURRENT_DATE);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS post_bill_journal ON public.bills;
+CREATE TRIGGER post_bill_journal
+AFTER INSERT OR UPDATE OF status ON public.bills
+FOR EACH ROW EXECUTE FUNCTION public.post_bill_journal();
@@ -0,0 +1,152 @@
+-- Payments against invoices and bills
+
+-- 1) Running total of payments allocated to each document
+ALTER TABLE public.invoices ADD COLUMN IF NOT EXISTS amount_paid DECIMAL(12,2) NOT NULL DEFAULT 0;
+ALTER TABLE public.bills    ADD COLUMN IF NOT EXISTS amount_paid DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_payments_invoice_id ON public.payments(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_payments_bill_id    ON public.payments(bill_id);
+
+-- 2) Validate a payment before it is stored
+CREATE OR REPLACE FUNCTION public.validate_payment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _status text;
+  _outstanding numeric;
+  _already_allocated numeric := 0;
+BEGIN
+  IF NEW.amount <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than zero';
+  END IF;
+
+  -- When editing a payment its previous amount is no longer allocated
+  IF TG_OP = 'UPDATE' AND (OLD.invoice_id IS NOT DISTINCT FROM NEW.invoice_id AND OLD.bill_id IS NOT DISTINCT FROM NEW.bill_id) THEN
+    _already_allocated := OLD.amount;
+  END IF;
+
+  IF NEW.invoice_id IS NOT NULL THEN
+    SELECT status, total - amount_paid + _already_allocated INTO _status, _outstanding
+    FROM public.invoices WHERE id = NEW.invoice_id;
+
+    IF _status NOT IN ('sent', 'overdue', 'paid') THEN
+      RAISE EXCEPTION 'Payments can only be recorded against sent invoices';
+    END IF;
+  ELSE
+    SELECT status, total - amount_paid + _already_allocated INTO _status, _outstanding
+    FROM public.bills WHERE id = NEW.bill_id;
+
+    IF _status NOT IN ('received', 'overdue', 'paid') THEN
+      RAISE EXCEPTION 'Payments can only be recorded against received bills';
+    END IF;
+  END IF;
+
+  IF NEW.amount > _outstanding THEN
+    RAISE EXCEPTION 'Payment of % exceeds the outstanding balance of %', NEW.amount, _outstanding;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_payment ON public.payments;
+CREATE TRIGGER validate_payment
+BEFORE INSERT OR UPDATE ON public.payments
+FOR EACH ROW EXECUTE FUNCTION public.validate_payment();
+
+-- 3) Recalculate amount_paid and flip status between paid and unpaid
+CREATE OR REPLACE FUNCTION public.refresh_payment_status(_invoice_id uuid, _bill_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF _invoice_id IS NOT NULL THEN
+    UPDATE public.invoices i
+    SET amount_paid = p.paid,
+        status = CASE
+          WHEN p.paid >= i.total AND i.status IN ('sent', 'overdue') THEN 'paid'
+          WHEN p.paid < i.total AND i.status = 'paid' THEN
+            CASE WHEN i.due_date < CURRENT_DATE THEN 'overdue' ELSE 'sent' END
+          ELSE i.status
+        END
+    FROM (SELECT COALESCE(SUM(amount), 0) AS paid FROM public.payments WHERE invoice_id = _invoice_id) p
+    WHERE i.id = _invoice_id;
+  END IF;
+
+  IF _bill_id IS NOT NULL THEN
+    UPDATE public.bills b
+    SET amount_paid = p.paid,
+        status = CASE
+          WHEN p.paid >= b.total AND b.status IN ('received', 'overdue') THEN 'paid'
+          WHEN p.paid < b.total AND b.status = 'paid' THEN
+            CASE WHEN b.due_date < CURRENT_DATE THEN 'overdue' ELSE 'received' END
+          ELSE b.status
+        END
+    FROM (SELECT COALESCE(SUM(amount), 0) AS paid FROM public.payments WHERE bill_id = _bill_id) p
+    WHERE b.id = _bill_id;
+  END IF;
+END;
+$$;
+
+-- 4) Post payments: Dr Current Account 1000 / Cr Accounts Receivable 1100 for receipts,
+--    Dr Accounts Payable 2000 / Cr Current Account 1000 for supplier payments
+CREATE OR REPLACE FUNCTION public.post_payment_journal()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _active_journal uuid;
+  _journal_id uuid;
+  _document_number text;
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    _active_journal := public.get_active_posting('payment', OLD.id);
+    IF _active_journal IS NOT NULL THEN
+      PERFORM public.create_reversal_journal(_active_journal, CURRENT_DATE);
+    END IF;
+    PERFORM public.refresh_payment_status(OLD.invoice_id, OLD.bill_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    IF NEW.invoice_id IS NOT NULL THEN
+      SELECT invoice_number INTO _document_number FROM public.invoices WHERE id = NEW.invoice_id;
+    ELSE
+      SELECT bill_number INTO _document_number FROM public.bills WHERE id = NEW.bill_id;
+    END IF;
+
+    INSERT INTO public.journals (user_id, date, reference, description, source_type, source_id)
+    VALUES (
+      NEW.user_id,
+      NEW.date,
+      COALESCE(NULLIF(NEW.reference, ''), _document_number),
+      CASE WHEN NEW.invoice_id IS NOT NULL THEN 'Payment received for ' ELSE 'Payment made for ' END || _document_number,
+      'payment',
+      NEW.id
+    )
+    RETURNING id INTO _journal_id;
+
+    IF NEW.invoice_id IS NOT NULL THEN
+      PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.user_id, '1000'), 'Bank', NEW.amount);
+      PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.user_id, '1100'), 'Accounts receivable', -NEW.amount);
+    ELSE
+      PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.user_id, '2000'), 'Accounts payable', NEW.amount);
+      PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.user_id, '1000'), 'Bank', -NEW.amount);
+    END IF;
+
+    PERFORM public.refresh_payment_status(NEW.invoice_id, NEW.bill_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS post_payment_journal ON public.payments;
+CREATE TRIGGER post_payment_journal
+AFTER INSERT OR UPDATE OF amount, date, invoice_id, bill_id OR DELETE ON public.payments
+FOR EACH ROW EXECUTE FUNCTION public.post_payment_journal();
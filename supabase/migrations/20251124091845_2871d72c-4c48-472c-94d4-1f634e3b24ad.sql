@@ -0,0 +1,88 @@
+-- Manual journals with server-side balance enforcement
+
+-- 1) Every journal must balance when the transaction commits, whoever writes the lines
+CREATE OR REPLACE FUNCTION public.check_journal_balanced()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _journal_id uuid := CASE WHEN TG_OP = 'DELETE' THEN OLD.journal_id ELSE NEW.journal_id END;
+  _debits numeric;
+  _credits numeric;
+BEGIN
+  SELECT COALESCE(SUM(debit_amount), 0), COALESCE(SUM(credit_amount), 0)
+  INTO _debits, _credits
+  FROM public.journal_lines
+  WHERE journal_id = _journal_id;
+
+  IF _debits <> _credits THEN
+    RAISE EXCEPTION 'Journal is not balanced: debits % do not equal credits %', _debits, _credits;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_journal_balanced ON public.journal_lines;
+CREATE CONSTRAINT TRIGGER check_journal_balanced
+AFTER INSERT OR UPDATE OR DELETE ON public.journal_lines
+DEFERRABLE INITIALLY DEFERRED
+FOR EACH ROW EXECUTE FUNCTION public.check_journal_balanced();
+
+-- 2) Create a manual journal and its lines atomically
+-- _lines: [{ "account_id": uuid, "description": text, "debit_amount": numeric, "credit_amount": numeric }]
+CREATE OR REPLACE FUNCTION public.create_manual_journal(_date date, _reference text, _description text, _lines jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _journal_id uuid;
+  _debits numeric;
+  _credits numeric;
+BEGIN
+  IF COALESCE(jsonb_array_length(_lines), 0) < 2 THEN
+    RAISE EXCEPTION 'A journal needs at least two lines';
+  END IF;
+
+  SELECT COALESCE(SUM((l->>'debit_amount')::numeric), 0), COALESCE(SUM((l->>'credit_amount')::numeric), 0)
+  INTO _debits, _credits
+  FROM jsonb_array_elements(_lines) l;
+
+  IF _debits <> _credits THEN
+    RAISE EXCEPTION 'Journal is not balanced: debits % do not equal credits %', _debits, _credits;
+  END IF;
+
+  INSERT INTO public.journals (date, reference, description, source_type)
+  VALUES (_date, _reference, NULLIF(_description, ''), 'manual')
+  RETURNING id INTO _journal_id;
+
+  INSERT INTO public.journal_lines (journal_id, account_id, description, debit_amount, credit_amount)
+  SELECT
+    _journal_id,
+    (l->>'account_id')::uuid,
+    NULLIF(l->>'description', ''),
+    COALESCE((l->>'debit_amount')::numeric, 0),
+    COALESCE((l->>'credit_amount')::numeric, 0)
+  FROM jsonb_array_elements(_lines) l;
+
+  RETURN _journal_id;
+END;
+$$;
+
+-- 3) Reverse a manual journal; document postings are reversed by cancelling the document instead
+CREATE OR REPLACE FUNCTION public.reverse_journal(_journal_id uuid, _date date DEFAULT CURRENT_DATE)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.journals WHERE id = _journal_id AND source_type = 'manual') THEN
+    RAISE EXCEPTION 'Only manual journals can be reversed directly; cancel the source document instead';
+  END IF;
+
+  RETURN public.create_reversal_journal(_journal_id, _date);
+END;
+$$;
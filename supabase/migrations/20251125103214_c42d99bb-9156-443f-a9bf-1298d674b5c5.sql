@@ -0,0 +1,15 @@
+-- Supplier contact details and bill defaults
+ALTER TABLE public.suppliers ADD COLUMN IF NOT EXISTS contact_name text;
+ALTER TABLE public.suppliers ADD COLUMN IF NOT EXISTS phone text;
+ALTER TABLE public.suppliers ADD COLUMN IF NOT EXISTS vat_number text;
+ALTER TABLE public.suppliers ADD COLUMN IF NOT EXISTS default_account_id uuid REFERENCES public.chart_of_accounts(id) ON DELETE SET NULL;
+ALTER TABLE public.suppliers ADD COLUMN IF NOT EXISTS default_tax_code_id uuid REFERENCES public.tax_codes(id) ON DELETE SET NULL;
+ALTER TABLE public.suppliers ADD COLUMN IF NOT EXISTS payment_terms_days integer NOT NULL DEFAULT 30;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'suppliers_payment_terms_days_check') THEN
+    ALTER TABLE public.suppliers
+      ADD CONSTRAINT suppliers_payment_terms_days_check CHECK (payment_terms_days >= 0);
+  END IF;
+END $$;
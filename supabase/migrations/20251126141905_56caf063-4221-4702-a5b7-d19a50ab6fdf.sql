@@ -0,0 +1,179 @@
+-- Sequential invoice numbering and the invoice status workflow
+
+-- 1) Per-user numbering settings; next_number is the number the next invoice receives
+CREATE TABLE IF NOT EXISTS public.invoice_number_sequences (
+  user_id uuid PRIMARY KEY DEFAULT auth.uid(),
+  prefix text NOT NULL DEFAULT 'INV-',
+  next_number integer NOT NULL DEFAULT 1 CHECK (next_number > 0),
+  padding integer NOT NULL DEFAULT 4 CHECK (padding BETWEEN 0 AND 10),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.invoice_number_sequences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users select own invoice numbering" ON public.invoice_number_sequences FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users insert own invoice numbering" ON public.invoice_number_sequences FOR INSERT TO authenticated WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users update own invoice numbering" ON public.invoice_number_sequences FOR UPDATE TO authenticated USING (user_id = auth.uid());
+
+-- 2) Invoice numbers only need to be unique per user
+ALTER TABLE public.invoices DROP CONSTRAINT IF EXISTS invoices_invoice_number_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_user_invoice_number ON public.invoices(user_id, invoice_number);
+
+-- Blank numbers are replaced by the allocation trigger below
+ALTER TABLE public.invoices ALTER COLUMN invoice_number SET DEFAULT '';
+
+-- 3) Allocate the next number; the sequence row stays locked until the calling transaction ends,
+--    so a failed insert rolls the counter back and numbers never skip
+CREATE OR REPLACE FUNCTION public.next_invoice_number(_user_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _prefix text;
+  _number integer;
+  _padding integer;
+BEGIN
+  INSERT INTO public.invoice_number_sequences (user_id)
+  VALUES (_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  UPDATE public.invoice_number_sequences
+  SET next_number = next_number + 1, updated_at = now()
+  WHERE user_id = _user_id
+  RETURNING prefix, next_number - 1, padding INTO _prefix, _number, _padding;
+
+  RETURN _prefix || lpad(_number::text, GREATEST(_padding, length(_number::text)), '0');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.assign_invoice_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(NEW.invoice_number, '') = '' THEN
+    NEW.invoice_number := public.next_invoice_number(COALESCE(NEW.user_id, auth.uid()));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assign_invoice_number ON public.invoices;
+CREATE TRIGGER assign_invoice_number
+BEFORE INSERT ON public.invoices
+FOR EACH ROW EXECUTE FUNCTION public.assign_invoice_number();
+
+-- 4) Status transitions and locking of issued invoices
+--    draft -> sent | cancelled
+--    sent/overdue -> paid | overdue | cancelled
+--    paid -> sent | overdue (only when a payment is removed)
+CREATE OR REPLACE FUNCTION public.enforce_invoice_workflow()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.invoice_number IS DISTINCT FROM OLD.invoice_number THEN
+    RAISE EXCEPTION 'Invoice numbers cannot be changed once allocated';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'draft' AND NEW.status IN ('sent', 'cancelled')) OR
+      (OLD.status IN ('sent', 'overdue') AND NEW.status IN ('sent', 'overdue', 'paid', 'cancelled')) OR
+      (OLD.status = 'paid' AND NEW.status IN ('sent', 'overdue'))
+    ) THEN
+      RAISE EXCEPTION 'Invoice % cannot move from % to %', OLD.invoice_number, OLD.status, NEW.status;
+    END IF;
+
+    IF NEW.status = 'paid' AND NEW.amount_paid < NEW.total THEN
+      RAISE EXCEPTION 'Invoice % cannot be marked paid until payments cover the total', OLD.invoice_number;
+    END IF;
+
+    IF OLD.status = 'paid' AND NEW.amount_paid >= NEW.total THEN
+      RAISE EXCEPTION 'Invoice % is fully paid', OLD.invoice_number;
+    END IF;
+  END IF;
+
+  IF OLD.status <> 'draft' AND (
+    NEW.customer_id IS DISTINCT FROM OLD.customer_id OR
+    NEW.date IS DISTINCT FROM OLD.date OR
+    NEW.due_date IS DISTINCT FROM OLD.due_date OR
+    NEW.subtotal IS DISTINCT FROM OLD.subtotal OR
+    NEW.vat_amount IS DISTINCT FROM OLD.vat_amount OR
+    NEW.total IS DISTINCT FROM OLD.total
+  ) THEN
+    RAISE EXCEPTION 'Invoice % has been issued and can no longer be edited', OLD.invoice_number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_invoice_workflow ON public.invoices;
+CREATE TRIGGER enforce_invoice_workflow
+BEFORE UPDATE ON public.invoices
+FOR EACH ROW EXECUTE FUNCTION public.enforce_invoice_workflow();
+
+-- Deleting an issued number would leave a gap, so invoices are cancelled instead
+CREATE OR REPLACE FUNCTION public.prevent_invoice_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Invoice % cannot be deleted; cancel it instead', OLD.invoice_number;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_invoice_delete ON public.invoices;
+CREATE TRIGGER prevent_invoice_delete
+BEFORE DELETE ON public.invoices
+FOR EACH ROW EXECUTE FUNCTION public.prevent_invoice_delete();
+
+-- 5) Lines can only change while their invoice is a draft
+CREATE OR REPLACE FUNCTION public.lock_issued_invoice_lines()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _invoice_id uuid := CASE WHEN TG_OP = 'DELETE' THEN OLD.invoice_id ELSE NEW.invoice_id END;
+  _status text;
+  _number text;
+BEGIN
+  SELECT status, invoice_number INTO _status, _number FROM public.invoices WHERE id = _invoice_id;
+
+  IF _status IS DISTINCT FROM 'draft' THEN
+    RAISE EXCEPTION 'Invoice % has been issued and its lines can no longer be edited', _number;
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS lock_issued_invoice_lines ON public.invoice_lines;
+CREATE TRIGGER lock_issued_invoice_lines
+BEFORE INSERT OR UPDATE OR DELETE ON public.invoice_lines
+FOR EACH ROW EXECUTE FUNCTION public.lock_issued_invoice_lines();
+
+-- 6) Move the caller's sent invoices past their due date to overdue
+CREATE OR REPLACE FUNCTION public.mark_overdue_invoices()
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _count integer;
+BEGIN
+  UPDATE public.invoices
+  SET status = 'overdue'
+  WHERE status = 'sent' AND due_date < CURRENT_DATE;
+
+  GET DIAGNOSTICS _count = ROW_COUNT;
+  RETURN _count;
+END;
+$$;
@@ -0,0 +1,52 @@
+-- Company details for invoice documents and stored invoice PDFs
+
+-- 1) One row of company settings per user
+CREATE TABLE IF NOT EXISTS public.company_settings (
+  user_id uuid PRIMARY KEY DEFAULT auth.uid(),
+  company_name text NOT NULL DEFAULT '',
+  address text,
+  email text,
+  phone text,
+  company_number text,
+  vat_number text,
+  bank_name text,
+  bank_account_name text,
+  bank_sort_code text,
+  bank_account_number text,
+  bank_iban text,
+  logo_path text,
+  invoice_footer text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.company_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users select own company settings" ON public.company_settings FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users insert own company settings" ON public.company_settings FOR INSERT TO authenticated WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users update own company settings" ON public.company_settings FOR UPDATE TO authenticated USING (user_id = auth.uid());
+
+-- 2) Where the last generated PDF for an invoice is stored
+ALTER TABLE public.invoices ADD COLUMN IF NOT EXISTS pdf_path text;
+ALTER TABLE public.invoices ADD COLUMN IF NOT EXISTS pdf_generated_at timestamptz;
+
+-- 3) Private buckets; objects live under a folder named after the owning user id
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('company-logos', 'company-logos', false), ('invoice-pdfs', 'invoice-pdfs', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users read own company logos" ON storage.objects FOR SELECT TO authenticated
+  USING (bucket_id = 'company-logos' AND (storage.foldername(name))[1] = auth.uid()::text);
+CREATE POLICY "Users upload own company logos" ON storage.objects FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'company-logos' AND (storage.foldername(name))[1] = auth.uid()::text);
+CREATE POLICY "Users update own company logos" ON storage.objects FOR UPDATE TO authenticated
+  USING (bucket_id = 'company-logos' AND (storage.foldername(name))[1] = auth.uid()::text);
+CREATE POLICY "Users delete own company logos" ON storage.objects FOR DELETE TO authenticated
+  USING (bucket_id = 'company-logos' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users read own invoice PDFs" ON storage.objects FOR SELECT TO authenticated
+  USING (bucket_id = 'invoice-pdfs' AND (storage.foldername(name))[1] = auth.uid()::text);
+CREATE POLICY "Users upload own invoice PDFs" ON storage.objects FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'invoice-pdfs' AND (storage.foldername(name))[1] = auth.uid()::text);
+CREATE POLICY "Users update own invoice PDFs" ON storage.objects FOR UPDATE TO authenticated
+  USING (bucket_id = 'invoice-pdfs' AND (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,28 @@
+-- History of invoices and statements emailed to customers
+
+CREATE TABLE IF NOT EXISTS public.document_sends (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid DEFAULT auth.uid(),
+  document_type text NOT NULL CHECK (document_type IN ('invoice', 'statement')),
+  invoice_id uuid REFERENCES public.invoices(id) ON DELETE CASCADE,
+  customer_id uuid NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  recipient text NOT NULL,
+  subject text NOT NULL,
+  status text NOT NULL CHECK (status IN ('sent', 'failed')),
+  error text,
+  message_id text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT document_sends_invoice_required CHECK (document_type <> 'invoice' OR invoice_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_sends_user_id     ON public.document_sends(user_id);
+CREATE INDEX IF NOT EXISTS idx_document_sends_invoice_id  ON public.document_sends(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_document_sends_customer_id ON public.document_sends(customer_id);
+
+ALTER TABLE public.document_sends ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users select own document sends" ON public.document_sends FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users insert own document sends" ON public.document_sends FOR INSERT TO authenticated WITH CHECK (user_id = auth.uid());
+
+-- Most recent successful email of each invoice, for the invoice list
+ALTER TABLE public.invoices ADD COLUMN IF NOT EXISTS last_sent_at timestamptz;
@@ -0,0 +1,700 @@
+-- Credit notes against sales invoices and supplier credit notes against bills
+
+-- 1) Running total of credit applied to each document, alongside amount_paid
+ALTER TABLE public.invoices ADD COLUMN IF NOT EXISTS amount_credited DECIMAL(12,2) NOT NULL DEFAULT 0;
+ALTER TABLE public.bills    ADD COLUMN IF NOT EXISTS amount_credited DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- 2) Credit notes are numbered from their own sequence on the invoice numbering row
+ALTER TABLE public.invoice_number_sequences ADD COLUMN IF NOT EXISTS credit_note_prefix text NOT NULL DEFAULT 'CN-';
+ALTER TABLE public.invoice_number_sequences ADD COLUMN IF NOT EXISTS credit_note_next_number integer NOT NULL DEFAULT 1 CHECK (credit_note_next_number > 0);
+
+-- 3) Sales credit notes; line_total is net of VAT like invoice_lines
+CREATE TABLE IF NOT EXISTS public.credit_notes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid DEFAULT auth.uid(),
+  invoice_id uuid NOT NULL REFERENCES public.invoices(id),
+  customer_id uuid NOT NULL REFERENCES public.customers(id),
+  credit_note_number text NOT NULL DEFAULT '',
+  date date NOT NULL,
+  reason text,
+  subtotal DECIMAL(12,2) NOT NULL DEFAULT 0,
+  vat_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  total DECIMAL(12,2) NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'issued', 'cancelled')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.credit_note_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  credit_note_id uuid NOT NULL REFERENCES public.credit_notes(id) ON DELETE CASCADE,
+  description text NOT NULL,
+  quantity DECIMAL(10,2) NOT NULL DEFAULT 1,
+  unit_price DECIMAL(12,2) NOT NULL,
+  tax_code_id uuid REFERENCES public.tax_codes(id),
+  line_total DECIMAL(12,2) NOT NULL,
+  vat_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- 4) Supplier credit notes carry the supplier's own reference; line_total includes VAT like bill_lines
+CREATE TABLE IF NOT EXISTS public.supplier_credit_notes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid DEFAULT auth.uid(),
+  bill_id uuid NOT NULL REFERENCES public.bills(id),
+  supplier_id uuid NOT NULL REFERENCES public.suppliers(id),
+  credit_note_number text NOT NULL,
+  date date NOT NULL,
+  reason text,
+  subtotal DECIMAL(12,2) NOT NULL DEFAULT 0,
+  vat_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  total DECIMAL(12,2) NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'received', 'cancelled')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.supplier_credit_note_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  supplier_credit_note_id uuid NOT NULL REFERENCES public.supplier_credit_notes(id) ON DELETE CASCADE,
+  description text NOT NULL,
+  quantity DECIMAL(10,2) NOT NULL DEFAULT 1,
+  unit_price DECIMAL(12,2) NOT NULL,
+  tax_code_id uuid REFERENCES public.tax_codes(id),
+  account_id uuid REFERENCES public.chart_of_accounts(id),
+  line_total DECIMAL(12,2) NOT NULL,
+  vat_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_notes_user_number ON public.credit_notes(user_id, credit_note_number);
+CREATE INDEX IF NOT EXISTS idx_credit_notes_invoice_id ON public.credit_notes(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_credit_note_lines_credit_note_id ON public.credit_note_lines(credit_note_id);
+CREATE INDEX IF NOT EXISTS idx_supplier_credit_notes_user_id ON public.supplier_credit_notes(user_id);
+CREATE INDEX IF NOT EXISTS idx_supplier_credit_notes_bill_id ON public.supplier_credit_notes(bill_id);
+CREATE INDEX IF NOT EXISTS idx_supplier_credit_note_lines_note_id ON public.supplier_credit_note_lines(supplier_credit_note_id);
+
+CREATE TRIGGER update_credit_notes_updated_at
+  BEFORE UPDATE ON public.credit_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_supplier_credit_notes_updated_at
+  BEFORE UPDATE ON public.supplier_credit_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 5) Row level security: headers by owner, lines through their header
+ALTER TABLE public.credit_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.credit_note_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.supplier_credit_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.supplier_credit_note_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users select own credit_notes" ON public.credit_notes FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users insert own credit_notes" ON public.credit_notes FOR INSERT TO authenticated WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users update own credit_notes" ON public.credit_notes FOR UPDATE TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users delete own credit_notes" ON public.credit_notes FOR DELETE TO authenticated USING (user_id = auth.uid());
+
+CREATE POLICY "Users select own supplier_credit_notes" ON public.supplier_credit_notes FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users insert own supplier_credit_notes" ON public.supplier_credit_notes FOR INSERT TO authenticated WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users update own supplier_credit_notes" ON public.supplier_credit_notes FOR UPDATE TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users delete own supplier_credit_notes" ON public.supplier_credit_notes FOR DELETE TO authenticated USING (user_id = auth.uid());
+
+CREATE POLICY "Users select own credit_note_lines via credit_notes" ON public.credit_note_lines
+FOR SELECT TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.credit_notes c
+    WHERE c.id = credit_note_id AND c.user_id = auth.uid()
+  )
+);
+CREATE POLICY "Users insert own credit_note_lines via credit_notes" ON public.credit_note_lines
+FOR INSERT TO authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.credit_notes c
+    WHERE c.id = credit_note_id AND c.user_id = auth.uid()
+  )
+);
+CREATE POLICY "Users update own credit_note_lines via credit_notes" ON public.credit_note_lines
+FOR UPDATE TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.credit_notes c
+    WHERE c.id = credit_note_id AND c.user_id = auth.uid()
+  )
+);
+CREATE POLICY "Users delete own credit_note_lines via credit_notes" ON public.credit_note_lines
+FOR DELETE TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.credit_notes c
+    WHERE c.id = credit_note_id AND c.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users select own supplier_credit_note_lines via supplier_credit_notes" ON public.supplier_credit_note_lines
+FOR SELECT TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.supplier_credit_notes s
+    WHERE s.id = supplier_credit_note_id AND s.user_id = auth.uid()
+  )
+);
+CREATE POLICY "Users insert own supplier_credit_note_lines via supplier_credit_notes" ON public.supplier_credit_note_lines
+FOR INSERT TO authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.supplier_credit_notes s
+    WHERE s.id = supplier_credit_note_id AND s.user_id = auth.uid()
+  )
+);
+CREATE POLICY "Users update own supplier_credit_note_lines via supplier_credit_notes" ON public.supplier_credit_note_lines
+FOR UPDATE TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.supplier_credit_notes s
+    WHERE s.id = supplier_credit_note_id AND s.user_id = auth.uid()
+  )
+);
+CREATE POLICY "Users delete own supplier_credit_note_lines via supplier_credit_notes" ON public.supplier_credit_note_lines
+FOR DELETE TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.supplier_credit_notes s
+    WHERE s.id = supplier_credit_note_id AND s.user_id = auth.uid()
+  )
+);
+
+-- 6) Credit note numbers, allocated like invoice numbers so they never skip
+CREATE OR REPLACE FUNCTION public.next_credit_note_number(_user_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _prefix text;
+  _number integer;
+  _padding integer;
+BEGIN
+  INSERT INTO public.invoice_number_sequences (user_id)
+  VALUES (_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  UPDATE public.invoice_number_sequences
+  SET credit_note_next_number = credit_note_next_number + 1, updated_at = now()
+  WHERE user_id = _user_id
+  RETURNING credit_note_prefix, credit_note_next_number - 1, padding INTO _prefix, _number, _padding;
+
+  RETURN _prefix || lpad(_number::text, GREATEST(_padding, length(_number::text)), '0');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.assign_credit_note_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(NEW.credit_note_number, '') = '' THEN
+    NEW.credit_note_number := public.next_credit_note_number(COALESCE(NEW.user_id, auth.uid()));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assign_credit_note_number ON public.credit_notes;
+CREATE TRIGGER assign_credit_note_number
+BEFORE INSERT ON public.credit_notes
+FOR EACH ROW EXECUTE FUNCTION public.assign_credit_note_number();
+
+-- 7) Payments, credit notes and status: a document is settled once paid + credited covers its total
+CREATE OR REPLACE FUNCTION public.refresh_payment_status(_invoice_id uuid, _bill_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF _invoice_id IS NOT NULL THEN
+    UPDATE public.invoices i
+    SET amount_paid = s.paid,
+        amount_credited = s.credited,
+        status = CASE
+          WHEN s.paid + s.credited >= i.total AND i.status IN ('sent', 'overdue') THEN 'paid'
+          WHEN s.paid + s.credited < i.total AND i.status = 'paid' THEN
+            CASE WHEN i.due_date < CURRENT_DATE THEN 'overdue' ELSE 'sent' END
+          ELSE i.status
+        END
+    FROM (
+      SELECT
+        (SELECT COALESCE(SUM(amount), 0) FROM public.payments WHERE invoice_id = _invoice_id) AS paid,
+        (SELECT COALESCE(SUM(total), 0) FROM public.credit_notes WHERE invoice_id = _invoice_id AND status = 'issued') AS credited
+    ) s
+    WHERE i.id = _invoice_id;
+  END IF;
+
+  IF _bill_id IS NOT NULL THEN
+    UPDATE public.bills b
+    SET amount_paid = s.paid,
+        amount_credited = s.credited,
+        status = CASE
+          WHEN s.paid + s.credited >= b.total AND b.status IN ('received', 'overdue') THEN 'paid'
+          WHEN s.paid + s.credited < b.total AND b.status = 'paid' THEN
+            CASE WHEN b.due_date < CURRENT_DATE THEN 'overdue' ELSE 'received' END
+          ELSE b.status
+        END
+    FROM (
+      SELECT
+        (SELECT COALESCE(SUM(amount), 0) FROM public.payments WHERE bill_id = _bill_id) AS paid,
+        (SELECT COALESCE(SUM(total), 0) FROM public.supplier_credit_notes WHERE bill_id = _bill_id AND status = 'received') AS credited
+    ) s
+    WHERE b.id = _bill_id;
+  END IF;
+END;
+$$;
+
+-- Payments can only cover what has not already been paid or credited
+CREATE OR REPLACE FUNCTION public.validate_payment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _status text;
+  _outstanding numeric;
+  _already_allocated numeric := 0;
+BEGIN
+  IF NEW.amount <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than zero';
+  END IF;
+
+  -- When editing a payment its previous amount is no longer allocated
+  IF TG_OP = 'UPDATE' AND (OLD.invoice_id IS NOT DISTINCT FROM NEW.invoice_id AND OLD.bill_id IS NOT DISTINCT FROM NEW.bill_id) THEN
+    _already_allocated := OLD.amount;
+  END IF;
+
+  IF NEW.invoice_id IS NOT NULL THEN
+    SELECT status, total - amount_paid - amount_credited + _already_allocated INTO _status, _outstanding
+    FROM public.invoices WHERE id = NEW.invoice_id;
+
+    IF _status NOT IN ('sent', 'overdue', 'paid') THEN
+      RAISE EXCEPTION 'Payments can only be recorded against sent invoices';
+    END IF;
+  ELSE
+    SELECT status, total - amount_paid - amount_credited + _already_allocated INTO _status, _outstanding
+    FROM public.bills WHERE id = NEW.bill_id;
+
+    IF _status NOT IN ('received', 'overdue', 'paid') THEN
+      RAISE EXCEPTION 'Payments can only be recorded against received bills';
+    END IF;
+  END IF;
+
+  IF NEW.amount > _outstanding THEN
+    RAISE EXCEPTION 'Payment of % exceeds the outstanding balance of %', NEW.amount, _outstanding;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Invoices settle through payments and credit notes; a credited invoice cannot also be cancelled
+CREATE OR REPLACE FUNCTION public.enforce_invoice_workflow()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.invoice_number IS DISTINCT FROM OLD.invoice_number THEN
+    RAISE EXCEPTION 'Invoice numbers cannot be changed once allocated';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'draft' AND NEW.status IN ('sent', 'cancelled')) OR
+      (OLD.status IN ('sent', 'overdue') AND NEW.status IN ('sent', 'overdue', 'paid', 'cancelled')) OR
+      (OLD.status = 'paid' AND NEW.status IN ('sent', 'overdue'))
+    ) THEN
+      RAISE EXCEPTION 'Invoice % cannot move from % to %', OLD.invoice_number, OLD.status, NEW.status;
+    END IF;
+
+    IF NEW.status = 'paid' AND NEW.amount_paid + NEW.amount_credited < NEW.total THEN
+      RAISE EXCEPTION 'Invoice % cannot be marked paid until payments and credit notes cover the total', OLD.invoice_number;
+    END IF;
+
+    IF OLD.status = 'paid' AND NEW.amount_paid + NEW.amount_credited >= NEW.total THEN
+      RAISE EXCEPTION 'Invoice % is fully paid', OLD.invoice_number;
+    END IF;
+
+    IF NEW.status = 'cancelled' AND NEW.amount_credited > 0 THEN
+      RAISE EXCEPTION 'Invoice % has issued credit notes; cancel them before cancelling the invoice', OLD.invoice_number;
+    END IF;
+  END IF;
+
+  IF OLD.status <> 'draft' AND (
+    NEW.customer_id IS DISTINCT FROM OLD.customer_id OR
+    NEW.date IS DISTINCT FROM OLD.date OR
+    NEW.due_date IS DISTINCT FROM OLD.due_date OR
+    NEW.subtotal IS DISTINCT FROM OLD.subtotal OR
+    NEW.vat_amount IS DISTINCT FROM OLD.vat_amount OR
+    NEW.total IS DISTINCT FROM OLD.total
+  ) THEN
+    RAISE EXCEPTION 'Invoice % has been issued and can no longer be edited', OLD.invoice_number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.prevent_credited_bill_cancellation()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' AND NEW.amount_credited > 0 THEN
+    RAISE EXCEPTION 'Bill % has supplier credit notes; cancel them before cancelling the bill', OLD.bill_number;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_credited_bill_cancellation ON public.bills;
+CREATE TRIGGER prevent_credited_bill_cancellation
+BEFORE UPDATE OF status ON public.bills
+FOR EACH ROW EXECUTE FUNCTION public.prevent_credited_bill_cancellation();
+
+-- 8) Sales credit note workflow
+--    draft -> issued | cancelled
+--    issued -> cancelled
+--    Issuing requires a sent invoice with enough outstanding balance to absorb the credit
+CREATE OR REPLACE FUNCTION public.validate_credit_note()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invoice public.invoices%ROWTYPE;
+  _outstanding numeric;
+BEGIN
+  SELECT * INTO _invoice FROM public.invoices WHERE id = NEW.invoice_id;
+
+  IF NOT FOUND OR _invoice.user_id IS DISTINCT FROM COALESCE(NEW.user_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  -- The customer always follows the invoice being credited
+  NEW.customer_id := _invoice.customer_id;
+
+  IF TG_OP = 'INSERT' AND _invoice.status NOT IN ('sent', 'overdue', 'paid') THEN
+    RAISE EXCEPTION 'Credit notes can only be raised against sent invoices';
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.credit_note_number IS DISTINCT FROM OLD.credit_note_number THEN
+      RAISE EXCEPTION 'Credit note numbers cannot be changed once allocated';
+    END IF;
+
+    IF NEW.status IS DISTINCT FROM OLD.status AND NOT (
+      (OLD.status = 'draft' AND NEW.status IN ('issued', 'cancelled')) OR
+      (OLD.status = 'issued' AND NEW.status = 'cancelled')
+    ) THEN
+      RAISE EXCEPTION 'Credit note % cannot move from % to %', OLD.credit_note_number, OLD.status, NEW.status;
+    END IF;
+
+    IF OLD.status <> 'draft' AND (
+      NEW.invoice_id IS DISTINCT FROM OLD.invoice_id OR
+      NEW.date IS DISTINCT FROM OLD.date OR
+      NEW.subtotal IS DISTINCT FROM OLD.subtotal OR
+      NEW.vat_amount IS DISTINCT FROM OLD.vat_amount OR
+      NEW.total IS DISTINCT FROM OLD.total
+    ) THEN
+      RAISE EXCEPTION 'Credit note % has been issued and can no longer be edited', OLD.credit_note_number;
+    END IF;
+  END IF;
+
+  IF NEW.status = 'issued' AND (TG_OP = 'INSERT' OR OLD.status = 'draft') THEN
+    IF NEW.total <= 0 THEN
+      RAISE EXCEPTION 'Credit note total must be greater than zero';
+    END IF;
+
+    IF NEW.date < _invoice.date THEN
+      RAISE EXCEPTION 'A credit note cannot be dated before invoice %', _invoice.invoice_number;
+    END IF;
+
+    _outstanding := _invoice.total - _invoice.amount_paid - _invoice.amount_credited;
+    IF NEW.total > _outstanding THEN
+      RAISE EXCEPTION 'Credit of % exceeds the outstanding balance of % on invoice %', NEW.total, _outstanding, _invoice.invoice_number;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_credit_note ON public.credit_notes;
+CREATE TRIGGER validate_credit_note
+BEFORE INSERT OR UPDATE ON public.credit_notes
+FOR EACH ROW EXECUTE FUNCTION public.validate_credit_note();
+
+-- Numbers are allocated on creation, so credit notes are cancelled rather than deleted
+CREATE OR REPLACE FUNCTION public.prevent_credit_note_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Credit note % cannot be deleted; cancel it instead', OLD.credit_note_number;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_credit_note_delete ON public.credit_notes;
+CREATE TRIGGER prevent_credit_note_delete
+BEFORE DELETE ON public.credit_notes
+FOR EACH ROW EXECUTE FUNCTION public.prevent_credit_note_delete();
+
+CREATE OR REPLACE FUNCTION public.lock_issued_credit_note_lines()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _credit_note_id uuid := CASE WHEN TG_OP = 'DELETE' THEN OLD.credit_note_id ELSE NEW.credit_note_id END;
+  _status text;
+  _number text;
+BEGIN
+  SELECT status, credit_note_number INTO _status, _number FROM public.credit_notes WHERE id = _credit_note_id;
+
+  IF _status IS DISTINCT FROM 'draft' THEN
+    RAISE EXCEPTION 'Credit note % has been issued and its lines can no longer be edited', _number;
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS lock_issued_credit_note_lines ON public.credit_note_lines;
+CREATE TRIGGER lock_issued_credit_note_lines
+BEFORE INSERT OR UPDATE OR DELETE ON public.credit_note_lines
+FOR EACH ROW EXECUTE FUNCTION public.lock_issued_credit_note_lines();
+
+-- Issued credit notes reverse the sale: Dr Sales 4000 / Dr VAT Payable 2100 / Cr Accounts Receivable 1100
+CREATE OR REPLACE FUNCTION public.post_credit_note_journal()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _active_journal uuid := public.get_active_posting('credit_note', NEW.id);
+  _journal_id uuid;
+  _invoice_number text;
+BEGIN
+  IF NEW.status = 'issued' AND _active_journal IS NULL THEN
+    SELECT invoice_number INTO _invoice_number FROM public.invoices WHERE id = NEW.invoice_id;
+
+    INSERT INTO public.journals (user_id, date, reference, description, source_type, source_id)
+    VALUES (NEW.user_id, NEW.date, NEW.credit_note_number, 'Credit note ' || NEW.credit_note_number || ' against ' || _invoice_number, 'credit_note', NEW.id)
+    RETURNING id INTO _journal_id;
+
+    PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.user_id, '4000'), 'Sales', NEW.subtotal);
+    PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.user_id, '2100'), 'VAT on sales', NEW.vat_amount);
+    PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.user_id, '1100'), 'Accounts receivable', -(NEW.subtotal + NEW.vat_amount));
+  ELSIF NEW.status = 'cancelled' AND _active_journal IS NOT NULL THEN
+    PERFORM public.create_reversal_journal(_active_journal, CURRENT_DATE);
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM public.refresh_payment_status(NEW.invoice_id, NULL);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS post_credit_note_journal ON public.credit_notes;
+CREATE TRIGGER post_credit_note_journal
+AFTER INSERT OR UPDATE OF status ON public.credit_notes
+FOR EACH ROW EXECUTE FUNCTION public.post_credit_note_journal();
+
+-- 9) Supplier credit note workflow
+--    draft -> received | cancelled
+--    received -> cancelled
+CREATE OR REPLACE FUNCTION public.validate_supplier_credit_note()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _bill public.bills%ROWTYPE;
+  _outstanding numeric;
+BEGIN
+  SELECT * INTO _bill FROM public.bills WHERE id = NEW.bill_id;
+
+  IF NOT FOUND OR _bill.user_id IS DISTINCT FROM COALESCE(NEW.user_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Bill not found';
+  END IF;
+
+  NEW.supplier_id := _bill.supplier_id;
+
+  IF btrim(COALESCE(NEW.credit_note_number, '')) = '' THEN
+    RAISE EXCEPTION 'Enter the supplier''s credit note reference';
+  END IF;
+
+  IF TG_OP = 'INSERT' AND _bill.status NOT IN ('received', 'overdue', 'paid') THEN
+    RAISE EXCEPTION 'Supplier credit notes can only be recorded against received bills';
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.status IS DISTINCT FROM OLD.status AND NOT (
+      (OLD.status = 'draft' AND NEW.status IN ('received', 'cancelled')) OR
+      (OLD.status = 'received' AND NEW.status = 'cancelled')
+    ) THEN
+      RAISE EXCEPTION 'Supplier credit note % cannot move from % to %', OLD.credit_note_number, OLD.status, NEW.status;
+    END IF;
+
+    IF OLD.status <> 'draft' AND (
+      NEW.bill_id IS DISTINCT FROM OLD.bill_id OR
+      NEW.credit_note_number IS DISTINCT FROM OLD.credit_note_number OR
+      NEW.date IS DISTINCT FROM OLD.date OR
+      NEW.subtotal IS DISTINCT FROM OLD.subtotal OR
+      NEW.vat_amount IS DISTINCT FROM OLD.vat_amount OR
+      NEW.total IS DISTINCT FROM OLD.total
+    ) THEN
+      RAISE EXCEPTION 'Supplier credit note % has been received and can no longer be edited', OLD.credit_note_number;
+    END IF;
+  END IF;
+
+  IF NEW.status = 'received' AND (TG_OP = 'INSERT' OR OLD.status = 'draft') THEN
+    IF NEW.total <= 0 THEN
+      RAISE EXCEPTION 'Credit note total must be greater than zero';
+    END IF;
+
+    IF NEW.date < _bill.date THEN
+      RAISE EXCEPTION 'A supplier credit note cannot be dated before bill %', _bill.bill_number;
+    END IF;
+
+    _outstanding := _bill.total - _bill.amount_paid - _bill.amount_credited;
+    IF NEW.total > _outstanding THEN
+      RAISE EXCEPTION 'Credit of % exceeds the outstanding balance of % on bill %', NEW.total, _outstanding, _bill.bill_number;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_supplier_credit_note ON public.supplier_credit_notes;
+CREATE TRIGGER validate_supplier_credit_note
+BEFORE INSERT OR UPDATE ON public.supplier_credit_notes
+FOR EACH ROW EXECUTE FUNCTION public.validate_supplier_credit_note();
+
+-- Drafts carry no number of ours and can be discarded; received credit notes are cancelled instead
+CREATE OR REPLACE FUNCTION public.prevent_supplier_credit_note_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status <> 'draft' THEN
+    RAISE EXCEPTION 'Supplier credit note % cannot be deleted; cancel it instead', OLD.credit_note_number;
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_supplier_credit_note_delete ON public.supplier_credit_notes;
+CREATE TRIGGER prevent_supplier_credit_note_delete
+BEFORE DELETE ON public.supplier_credit_notes
+FOR EACH ROW EXECUTE FUNCTION public.prevent_supplier_credit_note_delete();
+
+CREATE OR REPLACE FUNCTION public.lock_received_supplier_credit_note_lines()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _note_id uuid := CASE WHEN TG_OP = 'DELETE' THEN OLD.supplier_credit_note_id ELSE NEW.supplier_credit_note_id END;
+  _status text;
+  _number text;
+BEGIN
+  SELECT status, credit_note_number INTO _status, _number FROM public.supplier_credit_notes WHERE id = _note_id;
+
+  -- Deleting a draft cascades to its lines, by which point the header row is already gone
+  IF TG_OP = 'DELETE' AND NOT FOUND THEN
+    RETURN OLD;
+  END IF;
+
+  IF _status IS DISTINCT FROM 'draft' THEN
+    RAISE EXCEPTION 'Supplier credit note % has been received and its lines can no longer be edited', _number;
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS lock_received_supplier_credit_note_lines ON public.supplier_credit_note_lines;
+CREATE TRIGGER lock_received_supplier_credit_note_lines
+BEFORE INSERT OR UPDATE OR DELETE ON public.supplier_credit_note_lines
+FOR EACH ROW EXECUTE FUNCTION public.lock_received_supplier_credit_note_lines();
+
+-- Received supplier credit notes reverse the purchase:
+-- Dr Accounts Payable 2000 / Cr expense (per line account) / Cr VAT Receivable 1150
+CREATE OR REPLACE FUNCTION public.post_supplier_credit_note_journal()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _active_journal uuid := public.get_active_posting('supplier_credit_note', NEW.id);
+  _journal_id uuid;
+  _bill_number text;
+  _expense record;
+  _net_total numeric := 0;
+BEGIN
+  IF NEW.status = 'received' AND _active_journal IS NULL THEN
+    SELECT bill_number INTO _bill_number FROM public.bills WHERE id = NEW.bill_id;
+
+    INSERT INTO public.journals (user_id, date, reference, description, source_type, source_id)
+    VALUES (NEW.user_id, NEW.date, NEW.credit_note_number, 'Supplier credit note ' || NEW.credit_note_number || ' against ' || _bill_number, 'supplier_credit_note', NEW.id)
+    RETURNING id INTO _journal_id;
+
+    -- Line totals include VAT, so the net amount is line_total - vat_amount
+    FOR _expense IN
+      SELECT COALESCE(l.account_id, public.get_account_id(NEW.user_id, '5000')) AS account_id,
+             SUM(l.line_total - l.vat_amount) AS net_amount
+      FROM public.supplier_credit_note_lines l
+      WHERE l.supplier_credit_note_id = NEW.id
+      GROUP BY 1
+    LOOP
+      PERFORM public.add_journal_line(_journal_id, _expense.account_id, 'Purchases', -_expense.net_amount);
+      _net_total := _net_total + round(_expense.net_amount, 2);
+    END LOOP;
+
+    IF NOT FOUND THEN
+      PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.user_id, '5000'), 'Purchases', -NEW.subtotal);
+      _net_total := NEW.subtotal;
+    END IF;
+
+    PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.user_id, '1150'), 'VAT on purchases', -NEW.vat_amount);
+    PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.user_id, '2000'), 'Accounts payable', _net_total + NEW.vat_amount);
+  ELSIF NEW.status = 'cancelled' AND _active_journal IS NOT NULL THEN
+    PERFORM public.create_reversal_journal(_active_journal, CURRENT_DATE);
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM public.refresh_payment_status(NULL, NEW.bill_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS post_supplier_credit_note_journal ON public.supplier_credit_notes;
+CREATE TRIGGER post_supplier_credit_note_journal
+AFTER INSERT OR UPDATE OF status ON public.supplier_credit_notes
+FOR EACH ROW EXECUTE FUNCTION public.post_supplier_credit_note_journal();
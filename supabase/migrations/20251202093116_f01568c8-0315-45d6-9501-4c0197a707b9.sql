@@ -0,0 +1,396 @@
+-- Recurring invoice and bill templates, generated on schedule
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- 1) Invoice templates; lines mirror invoice_lines (line_total is net of VAT)
+CREATE TABLE IF NOT EXISTS public.recurring_invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid DEFAULT auth.uid(),
+  customer_id uuid NOT NULL REFERENCES public.customers(id),
+  name text NOT NULL,
+  frequency text NOT NULL CHECK (frequency IN ('weekly', 'monthly', 'quarterly', 'yearly')),
+  start_date date NOT NULL,
+  end_date date,
+  next_run_date date NOT NULL,
+  due_days integer NOT NULL DEFAULT 30 CHECK (due_days >= 0),
+  -- Issue generated invoices as sent (posted to the ledger) instead of leaving drafts for review
+  auto_send boolean NOT NULL DEFAULT false,
+  active boolean NOT NULL DEFAULT true,
+  subtotal DECIMAL(12,2) NOT NULL DEFAULT 0,
+  vat_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  total DECIMAL(12,2) NOT NULL DEFAULT 0,
+  last_run_at timestamptz,
+  last_error text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE TABLE IF NOT EXISTS public.recurring_invoice_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  recurring_invoice_id uuid NOT NULL REFERENCES public.recurring_invoices(id) ON DELETE CASCADE,
+  description text NOT NULL,
+  quantity DECIMAL(10,2) NOT NULL DEFAULT 1,
+  unit_price DECIMAL(12,2) NOT NULL,
+  tax_code_id uuid REFERENCES public.tax_codes(id),
+  line_total DECIMAL(12,2) NOT NULL,
+  vat_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- 2) Bill templates; lines mirror bill_lines (line_total includes VAT)
+CREATE TABLE IF NOT EXISTS public.recurring_bills (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid DEFAULT auth.uid(),
+  supplier_id uuid NOT NULL REFERENCES public.suppliers(id),
+  name text NOT NULL,
+  -- Generated bills are numbered <bill_reference>-<period date>
+  bill_reference text NOT NULL,
+  frequency text NOT NULL CHECK (frequency IN ('weekly', 'monthly', 'quarterly', 'yearly')),
+  start_date date NOT NULL,
+  end_date date,
+  next_run_date date NOT NULL,
+  due_days integer NOT NULL DEFAULT 30 CHECK (due_days >= 0),
+  -- Record generated bills as received (posted to the ledger) instead of leaving drafts for review
+  auto_receive boolean NOT NULL DEFAULT false,
+  active boolean NOT NULL DEFAULT true,
+  subtotal DECIMAL(12,2) NOT NULL DEFAULT 0,
+  vat_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  total DECIMAL(12,2) NOT NULL DEFAULT 0,
+  last_run_at timestamptz,
+  last_error text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE TABLE IF NOT EXISTS public.recurring_bill_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  recurring_bill_id uuid NOT NULL REFERENCES public.recurring_bills(id) ON DELETE CASCADE,
+  description text NOT NULL,
+  quantity DECIMAL(10,2) NOT NULL DEFAULT 1,
+  unit_price DECIMAL(12,2) NOT NULL,
+  tax_code_id uuid REFERENCES public.tax_codes(id),
+  account_id uuid REFERENCES public.chart_of_accounts(id),
+  line_total DECIMAL(12,2) NOT NULL,
+  vat_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_invoices_user_id ON public.recurring_invoices(user_id);
+CREATE INDEX IF NOT EXISTS idx_recurring_invoices_next_run_date ON public.recurring_invoices(next_run_date) WHERE active;
+CREATE INDEX IF NOT EXISTS idx_recurring_invoice_lines_template_id ON public.recurring_invoice_lines(recurring_invoice_id);
+CREATE INDEX IF NOT EXISTS idx_recurring_bills_user_id ON public.recurring_bills(user_id);
+CREATE INDEX IF NOT EXISTS idx_recurring_bills_next_run_date ON public.recurring_bills(next_run_date) WHERE active;
+CREATE INDEX IF NOT EXISTS idx_recurring_bill_lines_template_id ON public.recurring_bill_lines(recurring_bill_id);
+
+CREATE TRIGGER update_recurring_invoices_updated_at
+  BEFORE UPDATE ON public.recurring_invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_recurring_bills_updated_at
+  BEFORE UPDATE ON public.recurring_bills
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 3) Each generated document remembers its template and period; one document per template per period
+ALTER TABLE public.invoices ADD COLUMN IF NOT EXISTS recurring_invoice_id uuid REFERENCES public.recurring_invoices(id) ON DELETE SET NULL;
+ALTER TABLE public.invoices ADD COLUMN IF NOT EXISTS recurring_period date;
+ALTER TABLE public.bills    ADD COLUMN IF NOT EXISTS recurring_bill_id uuid REFERENCES public.recurring_bills(id) ON DELETE SET NULL;
+ALTER TABLE public.bills    ADD COLUMN IF NOT EXISTS recurring_period date;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_recurring_period ON public.invoices(recurring_invoice_id, recurring_period);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bills_recurring_period ON public.bills(recurring_bill_id, recurring_period);
+
+-- 4) Row level security: templates by owner, lines through their template
+ALTER TABLE public.recurring_invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recurring_invoice_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recurring_bills ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recurring_bill_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users select own recurring_invoices" ON public.recurring_invoices FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users insert own recurring_invoices" ON public.recurring_invoices FOR INSERT TO authenticated WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users update own recurring_invoices" ON public.recurring_invoices FOR UPDATE TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users delete own recurring_invoices" ON public.recurring_invoices FOR DELETE TO authenticated USING (user_id = auth.uid());
+
+CREATE POLICY "Users select own recurring_bills" ON public.recurring_bills FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users insert own recurring_bills" ON public.recurring_bills FOR INSERT TO authenticated WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users update own recurring_bills" ON public.recurring_bills FOR UPDATE TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users delete own recurring_bills" ON public.recurring_bills FOR DELETE TO authenticated USING (user_id = auth.uid());
+
+CREATE POLICY "Users select own recurring_invoice_lines via recurring_invoices" ON public.recurring_invoice_lines
+FOR SELECT TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.recurring_invoices r
+    WHERE r.id = recurring_invoice_id AND r.user_id = auth.uid()
+  )
+);
+CREATE POLICY "Users insert own recurring_invoice_lines via recurring_invoices" ON public.recurring_invoice_lines
+FOR INSERT TO authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.recurring_invoices r
+    WHERE r.id = recurring_invoice_id AND r.user_id = auth.uid()
+  )
+);
+CREATE POLICY "Users update own recurring_invoice_lines via recurring_invoices" ON public.recurring_invoice_lines
+FOR UPDATE TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.recurring_invoices r
+    WHERE r.id = recurring_invoice_id AND r.user_id = auth.uid()
+  )
+);
+CREATE POLICY "Users delete own recurring_invoice_lines via recurring_invoices" ON public.recurring_invoice_lines
+FOR DELETE TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.recurring_invoices r
+    WHERE r.id = recurring_invoice_id AND r.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users select own recurring_bill_lines via recurring_bills" ON public.recurring_bill_lines
+FOR SELECT TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.recurring_bills r
+    WHERE r.id = recurring_bill_id AND r.user_id = auth.uid()
+  )
+);
+CREATE POLICY "Users insert own recurring_bill_lines via recurring_bills" ON public.recurring_bill_lines
+FOR INSERT TO authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.recurring_bills r
+    WHERE r.id = recurring_bill_id AND r.user_id = auth.uid()
+  )
+);
+CREATE POLICY "Users update own recurring_bill_lines via recurring_bills" ON public.recurring_bill_lines
+FOR UPDATE TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.recurring_bills r
+    WHERE r.id = recurring_bill_id AND r.user_id = auth.uid()
+  )
+);
+CREATE POLICY "Users delete own recurring_bill_lines via recurring_bills" ON public.recurring_bill_lines
+FOR DELETE TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.recurring_bills r
+    WHERE r.id = recurring_bill_id AND r.user_id = auth.uid()
+  )
+);
+
+-- 5) Schedule helpers
+-- First scheduled date after _after, counted from the start date so month ends do not drift
+-- (a template starting on 31 January runs on 28/29 February, then 31 March)
+CREATE OR REPLACE FUNCTION public.recurring_next_date(_start date, _frequency text, _after date)
+RETURNS date
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  _step interval := CASE _frequency
+    WHEN 'weekly' THEN interval '1 week'
+    WHEN 'monthly' THEN interval '1 month'
+    WHEN 'quarterly' THEN interval '3 months'
+    WHEN 'yearly' THEN interval '1 year'
+  END;
+  _count integer := 0;
+  _next date := _start;
+BEGIN
+  IF _step IS NULL THEN
+    RAISE EXCEPTION 'Unknown frequency "%"', _frequency;
+  END IF;
+
+  WHILE _next <= _after LOOP
+    _count := _count + 1;
+    _next := (_start + _count * _step)::date;
+  END LOOP;
+
+  RETURN _next;
+END;
+$$;
+
+-- New templates start on their start date; moving the start date or frequency later never
+-- schedules a period earlier than the one already due, so nothing is generated twice
+CREATE OR REPLACE FUNCTION public.schedule_recurring_template()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.next_run_date := NEW.start_date;
+  ELSIF NEW.start_date IS DISTINCT FROM OLD.start_date OR NEW.frequency IS DISTINCT FROM OLD.frequency THEN
+    NEW.next_run_date := public.recurring_next_date(NEW.start_date, NEW.frequency, OLD.next_run_date - 1);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS schedule_recurring_invoice ON public.recurring_invoices;
+CREATE TRIGGER schedule_recurring_invoice
+BEFORE INSERT OR UPDATE OF start_date, frequency ON public.recurring_invoices
+FOR EACH ROW EXECUTE FUNCTION public.schedule_recurring_template();
+
+DROP TRIGGER IF EXISTS schedule_recurring_bill ON public.recurring_bills;
+CREATE TRIGGER schedule_recurring_bill
+BEFORE INSERT OR UPDATE OF start_date, frequency ON public.recurring_bills
+FOR EACH ROW EXECUTE FUNCTION public.schedule_recurring_template();
+
+-- 6) Generate every period that has fallen due up to _as_of, catching up missed runs.
+--    A document is only created when its template has none for that period, so re-running is
+--    harmless. Each template runs in its own subtransaction: a failure is stored in last_error
+--    and rolled back (including any allocated invoice number) without stopping the others.
+--    Called by the scheduler without a user to process everyone, or by a user for their own templates.
+CREATE OR REPLACE FUNCTION public.generate_recurring_documents(_as_of date DEFAULT CURRENT_DATE)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _template record;
+  _period date;
+  _document_id uuid;
+  _template_created integer;
+  _created integer := 0;
+BEGIN
+  FOR _template IN
+    SELECT * FROM public.recurring_invoices
+    WHERE active
+      AND next_run_date <= _as_of
+      AND (end_date IS NULL OR next_run_date <= end_date)
+      AND (auth.uid() IS NULL OR user_id = auth.uid())
+    ORDER BY next_run_date
+  LOOP
+    BEGIN
+      IF NOT EXISTS (SELECT 1 FROM public.recurring_invoice_lines WHERE recurring_invoice_id = _template.id) THEN
+        RAISE EXCEPTION 'Template has no lines';
+      END IF;
+
+      _template_created := 0;
+      _period := _template.next_run_date;
+
+      WHILE _period <= _as_of AND (_template.end_date IS NULL OR _period <= _template.end_date) LOOP
+        IF NOT EXISTS (SELECT 1 FROM public.invoices WHERE recurring_invoice_id = _template.id AND recurring_period = _period) THEN
+          INSERT INTO public.invoices (user_id, customer_id, date, due_date, subtotal, vat_amount, total, status, recurring_invoice_id, recurring_period)
+          SELECT _template.user_id, _template.customer_id, _period, _period + _template.due_days,
+                 SUM(line_total), SUM(vat_amount), SUM(line_total + vat_amount), 'draft', _template.id, _period
+          FROM public.recurring_invoice_lines
+          WHERE recurring_invoice_id = _template.id
+          RETURNING id INTO _document_id;
+
+          INSERT INTO public.invoice_lines (invoice_id, description, quantity, unit_price, tax_code_id, line_total, vat_amount)
+          SELECT _document_id, description, quantity, unit_price, tax_code_id, line_total, vat_amount
+          FROM public.recurring_invoice_lines
+          WHERE recurring_invoice_id = _template.id
+          ORDER BY created_at;
+
+          -- Issuing posts the invoice to the ledger once its lines are in place
+          IF _template.auto_send THEN
+            UPDATE public.invoices SET status = 'sent' WHERE id = _document_id;
+          END IF;
+
+          _template_created := _template_created + 1;
+        END IF;
+
+        _period := public.recurring_next_date(_template.start_date, _template.frequency, _period);
+      END LOOP;
+
+      UPDATE public.recurring_invoices
+      SET next_run_date = _period, last_run_at = now(), last_error = NULL
+      WHERE id = _template.id;
+
+      _created := _created + _template_created;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE public.recurring_invoices
+      SET last_run_at = now(), last_error = SQLERRM
+      WHERE id = _template.id;
+    END;
+  END LOOP;
+
+  FOR _template IN
+    SELECT * FROM public.recurring_bills
+    WHERE active
+      AND next_run_date <= _as_of
+      AND (end_date IS NULL OR next_run_date <= end_date)
+      AND (auth.uid() IS NULL OR user_id = auth.uid())
+    ORDER BY next_run_date
+  LOOP
+    BEGIN
+      IF NOT EXISTS (SELECT 1 FROM public.recurring_bill_lines WHERE recurring_bill_id = _template.id) THEN
+        RAISE EXCEPTION 'Template has no lines';
+      END IF;
+
+      _template_created := 0;
+      _period := _template.next_run_date;
+
+      WHILE _period <= _as_of AND (_template.end_date IS NULL OR _period <= _template.end_date) LOOP
+        IF NOT EXISTS (SELECT 1 FROM public.bills WHERE recurring_bill_id = _template.id AND recurring_period = _period) THEN
+          INSERT INTO public.bills (user_id, supplier_id, bill_number, date, due_date, subtotal, vat_amount, total, status, recurring_bill_id, recurring_period)
+          SELECT _template.user_id, _template.supplier_id, _template.bill_reference || '-' || to_char(_period, 'YYYY-MM-DD'),
+                 _period, _period + _template.due_days,
+                 SUM(line_total - vat_amount), SUM(vat_amount), SUM(line_total), 'draft', _template.id, _period
+          FROM public.recurring_bill_lines
+          WHERE recurring_bill_id = _template.id
+          RETURNING id INTO _document_id;
+
+          INSERT INTO public.bill_lines (bill_id, description, quantity, unit_price, tax_code_id, account_id, line_total, vat_amount)
+          SELECT _document_id, description, quantity, unit_price, tax_code_id, account_id, line_total, vat_amount
+          FROM public.recurring_bill_lines
+          WHERE recurring_bill_id = _template.id
+          ORDER BY created_at;
+
+          IF _template.auto_receive THEN
+            UPDATE public.bills SET status = 'received' WHERE id = _document_id;
+          END IF;
+
+          _template_created := _template_created + 1;
+        END IF;
+
+        _period := public.recurring_next_date(_template.start_date, _template.frequency, _period);
+      END LOOP;
+
+      UPDATE public.recurring_bills
+      SET next_run_date = _period, last_run_at = now(), last_error = NULL
+      WHERE id = _template.id;
+
+      _created := _created + _template_created;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE public.recurring_bills
+      SET last_run_at = now(), last_error = SQLERRM
+      WHERE id = _template.id;
+    END;
+  END LOOP;
+
+  RETURN _created;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_recurring_documents(date) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_recurring_documents(date) TO authenticated, service_role;
+
+-- 7) Run the generate-recurring function every morning. The service role key is read from Vault
+--    (store it once with: SELECT vault.create_secret('<service role key>', 'service_role_key');)
+SELECT cron.schedule(
+  'generate-recurring-documents',
+  '15 5 * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://dzlbhufjorhmxtpktzga.supabase.co/functions/v1/generate-recurring',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,39 @@
+-- Saved CSV column mappings for bank statement imports, one per bank export layout
+
+CREATE TABLE IF NOT EXISTS public.bank_import_mappings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid DEFAULT auth.uid(),
+  name text NOT NULL,
+  delimiter text NOT NULL DEFAULT ',' CHECK (delimiter IN (',', ';', E'\t', '|')),
+  has_header boolean NOT NULL DEFAULT true,
+  -- Zero-based column positions in each row
+  date_column integer NOT NULL CHECK (date_column >= 0),
+  description_column integer NOT NULL CHECK (description_column >= 0),
+  amount_column integer CHECK (amount_column >= 0),
+  debit_column integer CHECK (debit_column >= 0),
+  credit_column integer CHECK (credit_column >= 0),
+  reference_column integer CHECK (reference_column >= 0),
+  date_format text NOT NULL DEFAULT 'DD/MM/YYYY' CHECK (date_format IN ('DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD')),
+  decimal_separator text NOT NULL DEFAULT '.' CHECK (decimal_separator IN ('.', ',')),
+  invert_amounts boolean NOT NULL DEFAULT false,
+  -- Lower-cased header row, used to pick this mapping automatically for the same bank's files
+  header_signature text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name),
+  CHECK (amount_column IS NOT NULL OR debit_column IS NOT NULL OR credit_column IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_import_mappings_user_id ON public.bank_import_mappings(user_id);
+
+CREATE TRIGGER update_bank_import_mappings_updated_at
+  BEFORE UPDATE ON public.bank_import_mappings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.bank_import_mappings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users select own bank_import_mappings" ON public.bank_import_mappings FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users insert own bank_import_mappings" ON public.bank_import_mappings FOR INSERT TO authenticated WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users update own bank_import_mappings" ON public.bank_import_mappings FOR UPDATE TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users delete own bank_import_mappings" ON public.bank_import_mappings FOR DELETE TO authenticated USING (user_id = auth.uid());
@@ -0,0 +1,226 @@
+-- Bank statement imports are recorded as batches; transactions carry a fingerprint so
+-- overlapping or repeated statements do not create duplicates, and a batch can be rolled back
+
+-- 1) One row per imported file
+CREATE TABLE IF NOT EXISTS public.bank_import_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid DEFAULT auth.uid(),
+  file_name text NOT NULL,
+  -- SHA-256 of the file contents, hex encoded
+  file_hash text NOT NULL,
+  format text NOT NULL CHECK (format IN ('csv', 'ofx', 'qif', 'camt053')),
+  transaction_count integer NOT NULL DEFAULT 0,
+  duplicate_count integer NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'imported' CHECK (status IN ('imported', 'rolled_back')),
+  rolled_back_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_import_batches_user_id ON public.bank_import_batches(user_id);
+-- The same file cannot be imported twice unless the earlier import was rolled back
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bank_import_batches_file_hash
+  ON public.bank_import_batches(user_id, file_hash) WHERE status = 'imported';
+
+ALTER TABLE public.bank_import_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users select own bank_import_batches" ON public.bank_import_batches FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users insert own bank_import_batches" ON public.bank_import_batches FOR INSERT TO authenticated WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users update own bank_import_batches" ON public.bank_import_batches FOR UPDATE TO authenticated USING (user_id = auth.uid());
+
+-- 2) Link transactions to their batch and fingerprint them
+ALTER TABLE public.bank_transactions ADD COLUMN IF NOT EXISTS import_batch_id uuid REFERENCES public.bank_import_batches(id);
+ALTER TABLE public.bank_transactions ADD COLUMN IF NOT EXISTS balance DECIMAL(12,2);
+ALTER TABLE public.bank_transactions ADD COLUMN IF NOT EXISTS fingerprint text;
+
+ALTER TABLE public.bank_import_mappings ADD COLUMN IF NOT EXISTS balance_column integer CHECK (balance_column >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_bank_transactions_import_batch_id ON public.bank_transactions(import_batch_id);
+
+-- The identifying fields of a statement line, normalised so whitespace and case differences
+-- between exports of the same statement do not matter
+CREATE OR REPLACE FUNCTION public.bank_transaction_key(_date date, _amount numeric, _description text, _reference text, _balance numeric)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT concat_ws('|',
+    _date::text,
+    round(_amount, 2)::text,
+    lower(trim(regexp_replace(_description, '\s+', ' ', 'g'))),
+    lower(trim(COALESCE(_reference, ''))),
+    COALESCE(round(_balance, 2)::text, '')
+  );
+$$;
+
+-- Identical lines on one statement (two coffees on the same day) are told apart by their
+-- occurrence number, which is the same on every export that contains them
+CREATE OR REPLACE FUNCTION public.bank_statement_fingerprints(_transactions jsonb)
+RETURNS TABLE (line_number integer, fingerprint text)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT k.line_number::integer,
+         md5(k.key || '|' || row_number() OVER (PARTITION BY k.key ORDER BY k.line_number))
+  FROM (
+    SELECT t.line_number,
+           public.bank_transaction_key(
+             (t.item->>'date')::date,
+             (t.item->>'amount')::numeric,
+             t.item->>'description',
+             t.item->>'reference',
+             (t.item->>'balance')::numeric
+           ) AS key
+    FROM jsonb_array_elements(_transactions) WITH ORDINALITY AS t(item, line_number)
+  ) k;
+$$;
+
+-- Fingerprint what is already there so the first import after this change is checked too
+UPDATE public.bank_transactions bt
+SET fingerprint = f.fingerprint
+FROM (
+  SELECT id,
+         md5(key || '|' || row_number() OVER (PARTITION BY user_id, key ORDER BY created_at, id)) AS fingerprint
+  FROM (
+    SELECT id, user_id, created_at,
+           public.bank_transaction_key(date, amount, description, reference, balance) AS key
+    FROM public.bank_transactions
+  ) k
+) f
+WHERE bt.id = f.id AND bt.fingerprint IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bank_transactions_fingerprint ON public.bank_transactions(user_id, fingerprint);
+
+-- Transactions added one at a time (not through a statement import) are fingerprinted as the
+-- next occurrence of their key, the same numbering the backfill above uses
+CREATE OR REPLACE FUNCTION public.set_bank_transaction_fingerprint()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _key text := public.bank_transaction_key(NEW.date, NEW.amount, NEW.description, NEW.reference, NEW.balance);
+  _occurrence integer;
+BEGIN
+  IF NEW.fingerprint IS NULL THEN
+    SELECT count(*) + 1 INTO _occurrence
+    FROM public.bank_transactions
+    WHERE user_id = NEW.user_id
+      AND date = NEW.date
+      AND amount = NEW.amount
+      AND public.bank_transaction_key(date, amount, description, reference, balance) = _key;
+
+    NEW.fingerprint := md5(_key || '|' || _occurrence);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Triggers fire in name order; this one sorts after the set_*_user_id triggers that fill in user_id
+DROP TRIGGER IF EXISTS stamp_bank_transactions_fingerprint ON public.bank_transactions;
+CREATE TRIGGER stamp_bank_transactions_fingerprint
+BEFORE INSERT ON public.bank_transactions
+FOR EACH ROW EXECUTE FUNCTION public.set_bank_transaction_fingerprint();
+
+-- 3) Line numbers (1-based) of statement lines that are already in the caller's bank transactions
+CREATE OR REPLACE FUNCTION public.find_duplicate_bank_transactions(_transactions jsonb)
+RETURNS SETOF integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT f.line_number
+  FROM public.bank_statement_fingerprints(_transactions) f
+  WHERE EXISTS (
+    SELECT 1 FROM public.bank_transactions bt
+    WHERE bt.user_id = auth.uid() AND bt.fingerprint = f.fingerprint
+  )
+  ORDER BY f.line_number;
+$$;
+
+-- 4) Import a parsed statement as one batch, skipping lines that were imported before.
+--    _transactions is an array of { date, description, amount, reference, balance }.
+CREATE OR REPLACE FUNCTION public.import_bank_statement(_file_name text, _file_hash text, _format text, _transactions jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _batch_id uuid;
+  _imported_at timestamptz;
+  _total integer := COALESCE(jsonb_array_length(_transactions), 0);
+  _inserted integer;
+BEGIN
+  IF _total = 0 THEN
+    RAISE EXCEPTION 'The statement has no transactions to import';
+  END IF;
+
+  SELECT created_at INTO _imported_at
+  FROM public.bank_import_batches
+  WHERE user_id = auth.uid() AND file_hash = _file_hash AND status = 'imported';
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'This file was already imported on %', to_char(_imported_at, 'DD/MM/YYYY');
+  END IF;
+
+  INSERT INTO public.bank_import_batches (user_id, file_name, file_hash, format)
+  VALUES (auth.uid(), _file_name, _file_hash, _format)
+  RETURNING id INTO _batch_id;
+
+  INSERT INTO public.bank_transactions (user_id, date, description, amount, reference, balance, fingerprint, import_batch_id)
+  SELECT auth.uid(),
+         (t.item->>'date')::date,
+         t.item->>'description',
+         (t.item->>'amount')::numeric,
+         NULLIF(t.item->>'reference', ''),
+         (t.item->>'balance')::numeric,
+         f.fingerprint,
+         _batch_id
+  FROM jsonb_array_elements(_transactions) WITH ORDINALITY AS t(item, line_number)
+  JOIN public.bank_statement_fingerprints(_transactions) f ON f.line_number = t.line_number
+  ORDER BY t.line_number
+  ON CONFLICT (user_id, fingerprint) DO NOTHING;
+
+  GET DIAGNOSTICS _inserted = ROW_COUNT;
+
+  UPDATE public.bank_import_batches
+  SET transaction_count = _inserted, duplicate_count = _total - _inserted
+  WHERE id = _batch_id;
+
+  RETURN _batch_id;
+END;
+$$;
+
+-- 5) Remove every transaction a batch created. Reconciled transactions have to be
+--    unmatched first so no reconciliation is lost silently.
+CREATE OR REPLACE FUNCTION public.rollback_bank_import(_batch_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _reconciled integer;
+  _deleted integer;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.bank_import_batches WHERE id = _batch_id AND status = 'imported') THEN
+    RAISE EXCEPTION 'Import not found or already rolled back';
+  END IF;
+
+  SELECT count(*) INTO _reconciled
+  FROM public.bank_transactions
+  WHERE import_batch_id = _batch_id
+    AND (reconciled OR invoice_id IS NOT NULL OR bill_id IS NOT NULL);
+
+  IF _reconciled > 0 THEN
+    RAISE EXCEPTION '% transactions from this import are reconciled; unreconcile them before rolling back', _reconciled;
+  END IF;
+
+  DELETE FROM public.bank_transactions WHERE import_batch_id = _batch_id;
+  GET DIAGNOSTICS _deleted = ROW_COUNT;
+
+  UPDATE public.bank_import_batches
+  SET status = 'rolled_back', rolled_back_at = now()
+  WHERE id = _batch_id;
+
+  RETURN _deleted;
+END;
+$$;
@@ -0,0 +1,242 @@
+-- Bank rules: code bank transactions to a ledger account, tax code and contact, applied
+-- automatically on import and posted to the ledger when the transaction is confirmed
+
+-- 1) Rules, tried in priority order; the first active rule that matches wins
+CREATE TABLE IF NOT EXISTS public.bank_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid DEFAULT auth.uid(),
+  name text NOT NULL,
+  priority integer NOT NULL DEFAULT 100,
+  active boolean NOT NULL DEFAULT true,
+  direction text NOT NULL DEFAULT 'any' CHECK (direction IN ('any', 'in', 'out')),
+  match_type text NOT NULL DEFAULT 'contains' CHECK (match_type IN ('contains', 'regex')),
+  -- Matched case-insensitively against the description; regex uses PostgreSQL syntax
+  pattern text NOT NULL CHECK (length(trim(pattern)) > 0),
+  -- Bounds on the absolute amount, inclusive
+  min_amount DECIMAL(12,2) CHECK (min_amount >= 0),
+  max_amount DECIMAL(12,2) CHECK (max_amount >= 0),
+  account_id uuid NOT NULL REFERENCES public.chart_of_accounts(id),
+  tax_code_id uuid REFERENCES public.tax_codes(id),
+  customer_id uuid REFERENCES public.customers(id),
+  supplier_id uuid REFERENCES public.suppliers(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (min_amount IS NULL OR max_amount IS NULL OR max_amount >= min_amount),
+  CHECK (customer_id IS NULL OR supplier_id IS NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_rules_user_id ON public.bank_rules(user_id);
+
+CREATE TRIGGER update_bank_rules_updated_at
+  BEFORE UPDATE ON public.bank_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.bank_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users select own bank_rules" ON public.bank_rules FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users insert own bank_rules" ON public.bank_rules FOR INSERT TO authenticated WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users update own bank_rules" ON public.bank_rules FOR UPDATE TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users delete own bank_rules" ON public.bank_rules FOR DELETE TO authenticated USING (user_id = auth.uid());
+
+-- Reject regular expressions PostgreSQL cannot compile when the rule is saved, not on import
+CREATE OR REPLACE FUNCTION public.validate_bank_rule()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.match_type = 'regex' THEN
+    BEGIN
+      PERFORM '' ~* NEW.pattern;
+    EXCEPTION WHEN invalid_regular_expression THEN
+      RAISE EXCEPTION 'Invalid regular expression: %', SQLERRM;
+    END;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_bank_rule ON public.bank_rules;
+CREATE TRIGGER validate_bank_rule
+BEFORE INSERT OR UPDATE OF match_type, pattern ON public.bank_rules
+FOR EACH ROW EXECUTE FUNCTION public.validate_bank_rule();
+
+-- 2) Coding on each bank transaction
+ALTER TABLE public.bank_transactions ADD COLUMN IF NOT EXISTS account_id uuid REFERENCES public.chart_of_accounts(id);
+ALTER TABLE public.bank_transactions ADD COLUMN IF NOT EXISTS tax_code_id uuid REFERENCES public.tax_codes(id);
+ALTER TABLE public.bank_transactions ADD COLUMN IF NOT EXISTS customer_id uuid REFERENCES public.customers(id);
+ALTER TABLE public.bank_transactions ADD COLUMN IF NOT EXISTS supplier_id uuid REFERENCES public.suppliers(id);
+ALTER TABLE public.bank_transactions ADD COLUMN IF NOT EXISTS bank_rule_id uuid REFERENCES public.bank_rules(id) ON DELETE SET NULL;
+-- VAT included in the amount, always positive; set from the tax code
+ALTER TABLE public.bank_transactions ADD COLUMN IF NOT EXISTS vat_amount DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- 3) Matching
+CREATE OR REPLACE FUNCTION public.find_bank_rule(_user_id uuid, _description text, _amount numeric)
+RETURNS SETOF public.bank_rules
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT r.*
+  FROM public.bank_rules r
+  WHERE r.user_id = _user_id
+    AND r.active
+    AND (r.direction = 'any' OR (r.direction = 'in' AND _amount > 0) OR (r.direction = 'out' AND _amount < 0))
+    AND (r.min_amount IS NULL OR abs(_amount) >= r.min_amount)
+    AND (r.max_amount IS NULL OR abs(_amount) <= r.max_amount)
+    AND CASE r.match_type
+          WHEN 'regex' THEN _description ~* r.pattern
+          ELSE strpos(lower(_description), lower(r.pattern)) > 0
+        END
+  ORDER BY r.priority, r.created_at
+  LIMIT 1
+$$;
+
+-- New transactions (imports, feeds) pick up the first matching rule unless already coded
+CREATE OR REPLACE FUNCTION public.apply_bank_rule_on_insert()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _rule public.bank_rules%ROWTYPE;
+BEGIN
+  IF NEW.account_id IS NULL AND NEW.invoice_id IS NULL AND NEW.bill_id IS NULL THEN
+    SELECT * INTO _rule FROM public.find_bank_rule(NEW.user_id, NEW.description, NEW.amount);
+    IF FOUND THEN
+      NEW.account_id := _rule.account_id;
+      NEW.tax_code_id := _rule.tax_code_id;
+      NEW.customer_id := _rule.customer_id;
+      NEW.supplier_id := _rule.supplier_id;
+      NEW.bank_rule_id := _rule.id;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Triggers fire in name order; both sort after set_*_user_id so user_id is known, rule before VAT
+DROP TRIGGER IF EXISTS stamp_bank_transactions_rule ON public.bank_transactions;
+CREATE TRIGGER stamp_bank_transactions_rule
+BEFORE INSERT ON public.bank_transactions
+FOR EACH ROW EXECUTE FUNCTION public.apply_bank_rule_on_insert();
+
+-- Bank amounts are gross, so VAT is the tax fraction of the amount
+CREATE OR REPLACE FUNCTION public.set_bank_transaction_vat()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _rate numeric;
+BEGIN
+  SELECT rate INTO _rate FROM public.tax_codes WHERE id = NEW.tax_code_id;
+  NEW.vat_amount := CASE
+    WHEN NEW.tax_code_id IS NULL OR COALESCE(_rate, 0) = 0 THEN 0
+    ELSE round(abs(NEW.amount) * _rate / (100 + _rate), 2)
+  END;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS stamp_bank_transactions_vat ON public.bank_transactions;
+CREATE TRIGGER stamp_bank_transactions_vat
+BEFORE INSERT OR UPDATE OF amount, tax_code_id ON public.bank_transactions
+FOR EACH ROW EXECUTE FUNCTION public.set_bank_transaction_vat();
+
+-- Code the caller's unconfirmed, uncoded transactions with their rules, e.g. after adding a rule
+CREATE OR REPLACE FUNCTION public.apply_bank_rules()
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _updated integer;
+BEGIN
+  UPDATE public.bank_transactions bt
+  SET account_id = r.account_id,
+      tax_code_id = r.tax_code_id,
+      customer_id = r.customer_id,
+      supplier_id = r.supplier_id,
+      bank_rule_id = r.id
+  FROM public.bank_transactions t
+  CROSS JOIN LATERAL public.find_bank_rule(t.user_id, t.description, t.amount) r
+  WHERE bt.id = t.id
+    AND t.user_id = auth.uid()
+    AND NOT COALESCE(t.reconciled, false)
+    AND t.account_id IS NULL
+    AND t.invoice_id IS NULL
+    AND t.bill_id IS NULL;
+
+  GET DIAGNOSTICS _updated = ROW_COUNT;
+  RETURN _updated;
+END;
+$$;
+
+-- 4) Confirming (reconciling) a coded transaction posts it:
+--    money in:  Dr Current Account 1000 / Cr account (net) / Cr VAT Payable 2100
+--    money out: Dr account (net) / Dr VAT Receivable 1150 / Cr Current Account 1000
+--    Unreconciling reverses the posting.
+CREATE OR REPLACE FUNCTION public.post_bank_transaction_journal()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _active_journal uuid := public.get_active_posting('bank_transaction', NEW.id);
+  _journal_id uuid;
+  _vat numeric := sign(NEW.amount) * NEW.vat_amount;
+BEGIN
+  -- Transactions matched to an invoice or bill settle that document instead
+  IF COALESCE(NEW.reconciled, false) AND NEW.account_id IS NOT NULL
+     AND NEW.invoice_id IS NULL AND NEW.bill_id IS NULL AND _active_journal IS NULL THEN
+    INSERT INTO public.journals (user_id, date, reference, description, source_type, source_id)
+    VALUES (NEW.user_id, NEW.date, COALESCE(NEW.reference, 'BANK-' || NEW.date), NEW.description, 'bank_transaction', NEW.id)
+    RETURNING id INTO _journal_id;
+
+    PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.user_id, '1000'), 'Bank', NEW.amount);
+    PERFORM public.add_journal_line(_journal_id, NEW.account_id, NEW.description, -(NEW.amount - _vat));
+    PERFORM public.add_journal_line(
+      _journal_id,
+      public.get_account_id(NEW.user_id, CASE WHEN NEW.amount > 0 THEN '2100' ELSE '1150' END),
+      CASE WHEN NEW.amount > 0 THEN 'VAT on sales' ELSE 'VAT on purchases' END,
+      -_vat
+    );
+  ELSIF NOT COALESCE(NEW.reconciled, false) AND _active_journal IS NOT NULL THEN
+    PERFORM public.create_reversal_journal(_active_journal, CURRENT_DATE);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS post_bank_transaction_journal ON public.bank_transactions;
+CREATE TRIGGER post_bank_transaction_journal
+AFTER UPDATE OF reconciled ON public.bank_transactions
+FOR EACH ROW EXECUTE FUNCTION public.post_bank_transaction_journal();
+
+-- A posted transaction keeps its coding until it is unreconciled
+CREATE OR REPLACE FUNCTION public.lock_posted_bank_transaction()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(OLD.reconciled, false) AND COALESCE(NEW.reconciled, false)
+     AND public.get_active_posting('bank_transaction', OLD.id) IS NOT NULL
+     AND (NEW.date IS DISTINCT FROM OLD.date
+       OR NEW.amount IS DISTINCT FROM OLD.amount
+       OR NEW.account_id IS DISTINCT FROM OLD.account_id
+       OR NEW.tax_code_id IS DISTINCT FROM OLD.tax_code_id) THEN
+    RAISE EXCEPTION 'Unreconcile the transaction before changing how it is coded';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS lock_posted_bank_transaction ON public.bank_transactions;
+CREATE TRIGGER lock_posted_bank_transaction
+BEFORE UPDATE ON public.bank_transactions
+FOR EACH ROW EXECUTE FUNCTION public.lock_posted_bank_transaction();
@@ -0,0 +1,295 @@
+-- Reconciliation allocations: a bank transaction can settle several invoices or bills, part of one,
+-- and be split across ledger accounts. Each allocation covers part of the transaction's amount.
+
+-- 1) Allocations. Document allocations record a payment (which posts Dr/Cr bank against
+--    receivables or payables); account allocations are posted by the bank transaction's own journal.
+CREATE TABLE IF NOT EXISTS public.bank_transaction_allocations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid DEFAULT auth.uid(),
+  bank_transaction_id uuid NOT NULL REFERENCES public.bank_transactions(id) ON DELETE CASCADE,
+  invoice_id uuid REFERENCES public.invoices(id),
+  bill_id uuid REFERENCES public.bills(id),
+  account_id uuid REFERENCES public.chart_of_accounts(id),
+  tax_code_id uuid REFERENCES public.tax_codes(id),
+  payment_id uuid REFERENCES public.payments(id),
+  description text,
+  -- Always positive; the direction comes from the bank transaction
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  -- VAT included in an account allocation's amount, set from the tax code
+  vat_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (num_nonnulls(invoice_id, bill_id, account_id) = 1),
+  CHECK (tax_code_id IS NULL OR account_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_transaction_allocations_user_id ON public.bank_transaction_allocations(user_id);
+CREATE INDEX IF NOT EXISTS idx_bank_transaction_allocations_transaction ON public.bank_transaction_allocations(bank_transaction_id);
+CREATE INDEX IF NOT EXISTS idx_bank_transaction_allocations_payment ON public.bank_transaction_allocations(payment_id);
+
+ALTER TABLE public.bank_transaction_allocations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users select own bank_transaction_allocations" ON public.bank_transaction_allocations FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users insert own bank_transaction_allocations" ON public.bank_transaction_allocations FOR INSERT TO authenticated WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users delete own bank_transaction_allocations" ON public.bank_transaction_allocations FOR DELETE TO authenticated USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION public.set_bank_allocation_vat()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _rate numeric;
+BEGIN
+  SELECT rate INTO _rate FROM public.tax_codes WHERE id = NEW.tax_code_id;
+  NEW.vat_amount := CASE
+    WHEN NEW.tax_code_id IS NULL OR COALESCE(_rate, 0) = 0 THEN 0
+    ELSE round(NEW.amount * _rate / (100 + _rate), 2)
+  END;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_bank_allocation_vat ON public.bank_transaction_allocations;
+CREATE TRIGGER set_bank_allocation_vat
+BEFORE INSERT ON public.bank_transaction_allocations
+FOR EACH ROW EXECUTE FUNCTION public.set_bank_allocation_vat();
+
+-- 2) Transactions already confirmed against a single account become one allocation,
+--    so their existing postings and VAT keep being reported the same way
+INSERT INTO public.bank_transaction_allocations (user_id, bank_transaction_id, account_id, tax_code_id, description, amount)
+SELECT user_id, id, account_id, tax_code_id, description, abs(amount)
+FROM public.bank_transactions
+WHERE COALESCE(reconciled, false)
+  AND account_id IS NOT NULL
+  AND invoice_id IS NULL
+  AND bill_id IS NULL
+  AND amount <> 0;
+
+-- Allocations are fixed while the transaction is reconciled
+CREATE OR REPLACE FUNCTION public.guard_bank_allocation()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.bank_transactions
+    WHERE id = COALESCE(NEW.bank_transaction_id, OLD.bank_transaction_id)
+      AND COALESCE(reconciled, false)
+  ) THEN
+    RAISE EXCEPTION 'Unreconcile the transaction before changing its allocations';
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_bank_allocation ON public.bank_transaction_allocations;
+CREATE TRIGGER guard_bank_allocation
+BEFORE INSERT OR DELETE ON public.bank_transaction_allocations
+FOR EACH ROW EXECUTE FUNCTION public.guard_bank_allocation();
+
+-- Payments recorded by a reconciliation are removed by unreconciling, not edited directly
+CREATE OR REPLACE FUNCTION public.protect_bank_payment()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.bank_transaction_allocations WHERE payment_id = OLD.id) THEN
+    RAISE EXCEPTION 'This payment was recorded by reconciling a bank transaction; unreconcile it on the Banking page instead';
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_bank_payment ON public.payments;
+CREATE TRIGGER protect_bank_payment
+BEFORE UPDATE OF amount, date, invoice_id, bill_id OR DELETE ON public.payments
+FOR EACH ROW EXECUTE FUNCTION public.protect_bank_payment();
+
+-- 3) The bank transaction's journal now covers its account allocations, one split per line:
+--    money in:  Dr Current Account 1000 / Cr each account (net) / Cr VAT Payable 2100
+--    money out: Dr each account (net) / Dr VAT Receivable 1150 / Cr Current Account 1000
+CREATE OR REPLACE FUNCTION public.post_bank_transaction_journal()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _active_journal uuid := public.get_active_posting('bank_transaction', NEW.id);
+  _journal_id uuid;
+  _sign numeric := sign(NEW.amount);
+  _split_total numeric;
+  _split record;
+BEGIN
+  IF COALESCE(NEW.reconciled, false) AND _active_journal IS NULL THEN
+    SELECT COALESCE(SUM(amount), 0) INTO _split_total
+    FROM public.bank_transaction_allocations
+    WHERE bank_transaction_id = NEW.id AND account_id IS NOT NULL;
+
+    IF _split_total > 0 THEN
+      INSERT INTO public.journals (user_id, date, reference, description, source_type, source_id)
+      VALUES (NEW.user_id, NEW.date, COALESCE(NEW.reference, 'BANK-' || NEW.date), NEW.description, 'bank_transaction', NEW.id)
+      RETURNING id INTO _journal_id;
+
+      PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.user_id, '1000'), 'Bank', _sign * _split_total);
+
+      FOR _split IN
+        SELECT account_id, description, amount, vat_amount
+        FROM public.bank_transaction_allocations
+        WHERE bank_transaction_id = NEW.id AND account_id IS NOT NULL
+        ORDER BY created_at, id
+      LOOP
+        PERFORM public.add_journal_line(_journal_id, _split.account_id, COALESCE(_split.description, NEW.description), -_sign * (_split.amount - _split.vat_amount));
+        PERFORM public.add_journal_line(
+          _journal_id,
+          public.get_account_id(NEW.user_id, CASE WHEN NEW.amount > 0 THEN '2100' ELSE '1150' END),
+          CASE WHEN NEW.amount > 0 THEN 'VAT on sales' ELSE 'VAT on purchases' END,
+          -_sign * _split.vat_amount
+        );
+      END LOOP;
+    END IF;
+  ELSIF NOT COALESCE(NEW.reconciled, false) AND _active_journal IS NOT NULL THEN
+    PERFORM public.create_reversal_journal(_active_journal, CURRENT_DATE);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- A reconciled transaction's date and amount are what its postings were made from; the coding
+-- columns only hold the bank rule's suggestion and stay editable
+CREATE OR REPLACE FUNCTION public.lock_posted_bank_transaction()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(OLD.reconciled, false) AND COALESCE(NEW.reconciled, false)
+     AND (NEW.date IS DISTINCT FROM OLD.date OR NEW.amount IS DISTINCT FROM OLD.amount) THEN
+    RAISE EXCEPTION 'Unreconcile the transaction before changing its date or amount';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- 4) Reconcile a transaction against invoices, bills and accounts in one go.
+--    _allocations: [{"invoice_id"|"bill_id"|"account_id": uuid, "tax_code_id"?: uuid, "description"?: text, "amount": number}]
+--    Amounts are positive and must add up to the transaction's amount. Invoices take money in and
+--    bills money out; a document allocation may be less than its outstanding balance (a part payment).
+CREATE OR REPLACE FUNCTION public.reconcile_bank_transaction(_transaction_id uuid, _allocations jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _transaction public.bank_transactions%ROWTYPE;
+  _allocation jsonb;
+  _amount numeric;
+  _total numeric := 0;
+  _payment_id uuid;
+BEGIN
+  SELECT * INTO _transaction
+  FROM public.bank_transactions
+  WHERE id = _transaction_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bank transaction not found';
+  END IF;
+
+  IF COALESCE(_transaction.reconciled, false) THEN
+    RAISE EXCEPTION 'This transaction is already reconciled';
+  END IF;
+
+  IF jsonb_typeof(_allocations) <> 'array' OR jsonb_array_length(_allocations) = 0 THEN
+    RAISE EXCEPTION 'Allocate the transaction to at least one invoice, bill or account';
+  END IF;
+
+  FOR _allocation IN SELECT * FROM jsonb_array_elements(_allocations)
+  LOOP
+    _amount := round((_allocation->>'amount')::numeric, 2);
+
+    IF _amount IS NULL OR _amount <= 0 THEN
+      RAISE EXCEPTION 'Each allocation needs an amount greater than zero';
+    END IF;
+
+    IF _allocation ? 'invoice_id' AND _transaction.amount < 0 THEN
+      RAISE EXCEPTION 'Money paid out cannot settle an invoice';
+    END IF;
+
+    IF _allocation ? 'bill_id' AND _transaction.amount > 0 THEN
+      RAISE EXCEPTION 'Money received cannot settle a bill';
+    END IF;
+
+    _payment_id := NULL;
+    IF _allocation ? 'invoice_id' OR _allocation ? 'bill_id' THEN
+      -- validate_payment rejects documents that are not open and amounts over the outstanding balance
+      INSERT INTO public.payments (invoice_id, bill_id, amount, date, reference, method)
+      VALUES (
+        (_allocation->>'invoice_id')::uuid,
+        (_allocation->>'bill_id')::uuid,
+        _amount,
+        _transaction.date,
+        NULLIF(_transaction.reference, ''),
+        'bank_transfer'
+      )
+      RETURNING id INTO _payment_id;
+    END IF;
+
+    INSERT INTO public.bank_transaction_allocations (
+      bank_transaction_id, invoice_id, bill_id, account_id, tax_code_id, payment_id, description, amount
+    )
+    VALUES (
+      _transaction.id,
+      (_allocation->>'invoice_id')::uuid,
+      (_allocation->>'bill_id')::uuid,
+      (_allocation->>'account_id')::uuid,
+      (_allocation->>'tax_code_id')::uuid,
+      _payment_id,
+      NULLIF(_allocation->>'description', ''),
+      _amount
+    );
+
+    _total := _total + _amount;
+  END LOOP;
+
+  IF _total <> abs(_transaction.amount) THEN
+    RAISE EXCEPTION 'Allocations add up to % but the transaction is %', _total, abs(_transaction.amount);
+  END IF;
+
+  UPDATE public.bank_transactions SET reconciled = true WHERE id = _transaction.id;
+END;
+$$;
+
+-- Undo a reconciliation: reverse the account postings and delete the payments it recorded
+CREATE OR REPLACE FUNCTION public.unreconcile_bank_transaction(_transaction_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _payment_ids uuid[];
+BEGIN
+  PERFORM 1
+  FROM public.bank_transactions
+  WHERE id = _transaction_id AND user_id = auth.uid() AND COALESCE(reconciled, false)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This transaction is not reconciled';
+  END IF;
+
+  UPDATE public.bank_transactions
+  SET reconciled = false, invoice_id = NULL, bill_id = NULL
+  WHERE id = _transaction_id;
+
+  SELECT array_agg(payment_id) INTO _payment_ids
+  FROM public.bank_transaction_allocations
+  WHERE bank_transaction_id = _transaction_id AND payment_id IS NOT NULL;
+
+  DELETE FROM public.bank_transaction_allocations WHERE bank_transaction_id = _transaction_id;
+  DELETE FROM public.payments WHERE id = ANY(COALESCE(_payment_ids, '{}'));
+END;
+$$;
@@ -0,0 +1,661 @@
+-- Bank accounts: transactions belong to an account with its own ledger account and opening
+-- balance, and statement reconciliations lock each account up to the statement date
+
+-- 1) Equity account the opening balances are posted against
+INSERT INTO public.chart_of_accounts (account_name, account_type, account_code)
+SELECT 'Opening Balances', 'equity', '3200'
+WHERE NOT EXISTS (SELECT 1 FROM public.chart_of_accounts WHERE account_code = '3200' AND user_id IS NULL);
+
+-- 2) Accounts
+CREATE TABLE IF NOT EXISTS public.bank_accounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid DEFAULT auth.uid(),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  sort_code text CHECK (sort_code ~ '^\d{2}-\d{2}-\d{2}$'),
+  account_number text CHECK (account_number ~ '^\d{8}$'),
+  currency text NOT NULL DEFAULT 'GBP' CHECK (currency ~ '^[A-Z]{3}$'),
+  -- Asset account in the chart of accounts that this bank account's postings go to
+  ledger_account_id uuid NOT NULL REFERENCES public.chart_of_accounts(id),
+  opening_balance DECIMAL(12,2) NOT NULL DEFAULT 0,
+  opening_balance_date date NOT NULL DEFAULT CURRENT_DATE,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name),
+  -- Two bank accounts sharing a ledger account could never both reconcile to it
+  UNIQUE (user_id, ledger_account_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_accounts_user_id ON public.bank_accounts(user_id);
+
+CREATE TRIGGER update_bank_accounts_updated_at
+  BEFORE UPDATE ON public.bank_accounts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.bank_accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users select own bank_accounts" ON public.bank_accounts FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users insert own bank_accounts" ON public.bank_accounts FOR INSERT TO authenticated WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users update own bank_accounts" ON public.bank_accounts FOR UPDATE TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users delete own bank_accounts" ON public.bank_accounts FOR DELETE TO authenticated USING (user_id = auth.uid());
+
+-- The account transactions go to when none is given: the user's first account, created on
+-- demand against the Current Account (1000) so existing behaviour carries on unchanged
+CREATE OR REPLACE FUNCTION public.default_bank_account_id(_user_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _id uuid;
+BEGIN
+  SELECT id INTO _id
+  FROM public.bank_accounts
+  WHERE user_id = _user_id
+  ORDER BY active DESC, created_at, id
+  LIMIT 1;
+
+  IF _id IS NULL THEN
+    INSERT INTO public.bank_accounts (user_id, name, ledger_account_id, opening_balance_date)
+    VALUES (_user_id, 'Current Account', public.get_account_id(_user_id, '1000'),
+            COALESCE((SELECT min(date) FROM public.bank_transactions WHERE user_id = _user_id), CURRENT_DATE))
+    RETURNING id INTO _id;
+  END IF;
+
+  RETURN _id;
+END;
+$$;
+
+-- 3) Transactions, imports and payments belong to an account
+ALTER TABLE public.bank_transactions ADD COLUMN IF NOT EXISTS bank_account_id uuid REFERENCES public.bank_accounts(id);
+ALTER TABLE public.bank_import_batches ADD COLUMN IF NOT EXISTS bank_account_id uuid REFERENCES public.bank_accounts(id);
+ALTER TABLE public.payments ADD COLUMN IF NOT EXISTS bank_account_id uuid REFERENCES public.bank_accounts(id);
+
+CREATE INDEX IF NOT EXISTS idx_bank_transactions_bank_account_id ON public.bank_transactions(bank_account_id);
+
+UPDATE public.bank_transactions
+SET bank_account_id = public.default_bank_account_id(user_id)
+WHERE bank_account_id IS NULL AND user_id IS NOT NULL;
+
+UPDATE public.bank_import_batches b
+SET bank_account_id = (SELECT t.bank_account_id FROM public.bank_transactions t WHERE t.import_batch_id = b.id LIMIT 1)
+WHERE bank_account_id IS NULL;
+
+UPDATE public.payments p
+SET bank_account_id = t.bank_account_id
+FROM public.bank_transaction_allocations a
+JOIN public.bank_transactions t ON t.id = a.bank_transaction_id
+WHERE a.payment_id = p.id AND p.bank_account_id IS NULL;
+
+CREATE OR REPLACE FUNCTION public.set_bank_transaction_account()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.bank_account_id IS NULL AND NEW.user_id IS NOT NULL THEN
+    NEW.bank_account_id := public.default_bank_account_id(NEW.user_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Sorts after set_*_user_id (user_id known) and before the fingerprint and rule stamps
+DROP TRIGGER IF EXISTS stamp_bank_transactions_account ON public.bank_transactions;
+CREATE TRIGGER stamp_bank_transactions_account
+BEFORE INSERT ON public.bank_transactions
+FOR EACH ROW EXECUTE FUNCTION public.set_bank_transaction_account();
+
+-- 4) Duplicate detection is per account: the same line can legitimately appear on two accounts
+DROP INDEX IF EXISTS public.idx_bank_transactions_fingerprint;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bank_transactions_account_fingerprint
+  ON public.bank_transactions(bank_account_id, fingerprint);
+
+CREATE OR REPLACE FUNCTION public.set_bank_transaction_fingerprint()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _key text := public.bank_transaction_key(NEW.date, NEW.amount, NEW.description, NEW.reference, NEW.balance);
+  _occurrence integer;
+BEGIN
+  IF NEW.fingerprint IS NULL THEN
+    SELECT count(*) + 1 INTO _occurrence
+    FROM public.bank_transactions
+    WHERE bank_account_id = NEW.bank_account_id
+      AND date = NEW.date
+      AND amount = NEW.amount
+      AND public.bank_transaction_key(date, amount, description, reference, balance) = _key;
+
+    NEW.fingerprint := md5(_key || '|' || _occurrence);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- 5) Reconciliations against bank statements
+CREATE TABLE IF NOT EXISTS public.bank_reconciliations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid DEFAULT auth.uid(),
+  bank_account_id uuid NOT NULL REFERENCES public.bank_accounts(id),
+  statement_date date NOT NULL,
+  statement_balance DECIMAL(12,2) NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (bank_account_id, statement_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_reconciliations_user_id ON public.bank_reconciliations(user_id);
+
+ALTER TABLE public.bank_reconciliations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users select own bank_reconciliations" ON public.bank_reconciliations FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users insert own bank_reconciliations" ON public.bank_reconciliations FOR INSERT TO authenticated WITH CHECK (user_id = auth.uid());
+CREATE POLICY "Users delete own bank_reconciliations" ON public.bank_reconciliations FOR DELETE TO authenticated USING (user_id = auth.uid());
+
+-- Last statement date the account has been reconciled to; nothing on or before it can change
+CREATE OR REPLACE FUNCTION public.bank_account_locked_until(_bank_account_id uuid)
+RETURNS date
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT max(statement_date) FROM public.bank_reconciliations WHERE bank_account_id = _bank_account_id;
+$$;
+
+-- Only the latest reconciliation can be undone, which reopens the period back to the one before
+CREATE OR REPLACE FUNCTION public.guard_bank_reconciliation_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.statement_date < public.bank_account_locked_until(OLD.bank_account_id) THEN
+    RAISE EXCEPTION 'Undo the later reconciliations of this account first';
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_bank_reconciliation_delete ON public.bank_reconciliations;
+CREATE TRIGGER guard_bank_reconciliation_delete
+BEFORE DELETE ON public.bank_reconciliations
+FOR EACH ROW EXECUTE FUNCTION public.guard_bank_reconciliation_delete();
+
+CREATE OR REPLACE FUNCTION public.lock_reconciled_bank_period()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _old_lock date;
+  _new_lock date;
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    _old_lock := public.bank_account_locked_until(OLD.bank_account_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    _new_lock := public.bank_account_locked_until(NEW.bank_account_id);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.date IS NOT DISTINCT FROM OLD.date
+     AND NEW.amount IS NOT DISTINCT FROM OLD.amount
+     AND NEW.reconciled IS NOT DISTINCT FROM OLD.reconciled
+     AND NEW.bank_account_id IS NOT DISTINCT FROM OLD.bank_account_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.date <= _old_lock OR NEW.date <= _new_lock THEN
+    RAISE EXCEPTION 'The bank account is reconciled to %; transactions on or before that date cannot be changed',
+      to_char(COALESCE(_old_lock, _new_lock), 'DD/MM/YYYY');
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+-- Sorts after the stamp_* triggers so the account is already filled in on insert
+DROP TRIGGER IF EXISTS validate_bank_transactions_period ON public.bank_transactions;
+CREATE TRIGGER validate_bank_transactions_period
+BEFORE INSERT OR UPDATE OR DELETE ON public.bank_transactions
+FOR EACH ROW EXECUTE FUNCTION public.lock_reconciled_bank_period();
+
+-- Ledger balance of the account's linked ledger account at the end of a day
+CREATE OR REPLACE FUNCTION public.bank_ledger_balance(_bank_account_id uuid, _as_of date)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(COALESCE(jl.debit_amount, 0) - COALESCE(jl.credit_amount, 0)), 0)
+  FROM public.bank_accounts ba
+  JOIN public.journal_lines jl ON jl.account_id = ba.ledger_account_id
+  JOIN public.journals j ON j.id = jl.journal_id AND j.user_id = ba.user_id
+  WHERE ba.id = _bank_account_id
+    AND j.date <= _as_of;
+$$;
+
+-- Balances of each of the caller's accounts: per the imported statement lines, per the
+-- reconciled lines only, and per the ledger
+CREATE OR REPLACE FUNCTION public.bank_account_balances()
+RETURNS TABLE (
+  bank_account_id uuid,
+  statement_balance numeric,
+  reconciled_balance numeric,
+  ledger_balance numeric,
+  unreconciled_count integer,
+  locked_until date
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT ba.id,
+         ba.opening_balance + COALESCE(SUM(bt.amount), 0),
+         ba.opening_balance + COALESCE(SUM(bt.amount) FILTER (WHERE COALESCE(bt.reconciled, false)), 0),
+         public.bank_ledger_balance(ba.id, 'infinity'::date),
+         (count(bt.id) FILTER (WHERE NOT COALESCE(bt.reconciled, false)))::integer,
+         public.bank_account_locked_until(ba.id)
+  FROM public.bank_accounts ba
+  LEFT JOIN public.bank_transactions bt ON bt.bank_account_id = ba.id
+  WHERE ba.user_id = auth.uid()
+  GROUP BY ba.id;
+$$;
+
+-- Record that the account agrees with a bank statement. Every transaction up to the statement
+-- date must be reconciled and the ledger must show the statement's closing balance.
+CREATE OR REPLACE FUNCTION public.complete_bank_reconciliation(_bank_account_id uuid, _statement_date date, _statement_balance numeric)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _account public.bank_accounts%ROWTYPE;
+  _locked date;
+  _unreconciled integer;
+  _ledger numeric;
+  _id uuid;
+BEGIN
+  SELECT * INTO _account FROM public.bank_accounts WHERE id = _bank_account_id AND user_id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bank account not found';
+  END IF;
+
+  _locked := public.bank_account_locked_until(_bank_account_id);
+  IF _statement_date <= _locked THEN
+    RAISE EXCEPTION 'This account is already reconciled to %', to_char(_locked, 'DD/MM/YYYY');
+  END IF;
+
+  IF _statement_date < _account.opening_balance_date THEN
+    RAISE EXCEPTION 'The statement date is before the account''s opening balance date';
+  END IF;
+
+  SELECT count(*) INTO _unreconciled
+  FROM public.bank_transactions
+  WHERE bank_account_id = _bank_account_id
+    AND date <= _statement_date
+    AND NOT COALESCE(reconciled, false);
+
+  IF _unreconciled > 0 THEN
+    RAISE EXCEPTION '% transactions up to % are not reconciled yet', _unreconciled, to_char(_statement_date, 'DD/MM/YYYY');
+  END IF;
+
+  _ledger := public.bank_ledger_balance(_bank_account_id, _statement_date);
+  IF _ledger <> round(_statement_balance, 2) THEN
+    RAISE EXCEPTION 'The statement balance of % does not match the ledger balance of %', round(_statement_balance, 2), _ledger;
+  END IF;
+
+  INSERT INTO public.bank_reconciliations (bank_account_id, statement_date, statement_balance)
+  VALUES (_bank_account_id, _statement_date, round(_statement_balance, 2))
+  RETURNING id INTO _id;
+
+  RETURN _id;
+END;
+$$;
+
+-- 6) Opening balances: Dr the bank's ledger account / Cr Opening Balances 3200, reposted on change
+CREATE OR REPLACE FUNCTION public.post_bank_account_opening_balance()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _active_journal uuid := public.get_active_posting('bank_account', NEW.id);
+  _journal_id uuid;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF public.bank_account_locked_until(NEW.id) IS NOT NULL THEN
+      RAISE EXCEPTION 'The opening balance and ledger account cannot change once the account has been reconciled';
+    END IF;
+    IF _active_journal IS NOT NULL THEN
+      PERFORM public.create_reversal_journal(_active_journal, CURRENT_DATE);
+    END IF;
+  END IF;
+
+  IF NEW.opening_balance <> 0 THEN
+    INSERT INTO public.journals (user_id, date, reference, description, source_type, source_id)
+    VALUES (NEW.user_id, NEW.opening_balance_date, 'OPENING', 'Opening balance of ' || NEW.name, 'bank_account', NEW.id)
+    RETURNING id INTO _journal_id;
+
+    PERFORM public.add_journal_line(_journal_id, NEW.ledger_account_id, 'Opening balance', NEW.opening_balance);
+    PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.user_id, '3200'), 'Opening balance', -NEW.opening_balance);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS post_bank_account_opening_balance ON public.bank_accounts;
+CREATE TRIGGER post_bank_account_opening_balance
+AFTER INSERT OR UPDATE OF opening_balance, opening_balance_date, ledger_account_id ON public.bank_accounts
+FOR EACH ROW EXECUTE FUNCTION public.post_bank_account_opening_balance();
+
+-- The bank's ledger account, falling back to the Current Account for payments not tied to a bank account
+CREATE OR REPLACE FUNCTION public.bank_ledger_account_id(_user_id uuid, _bank_account_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT ledger_account_id FROM public.bank_accounts WHERE id = _bank_account_id),
+    public.get_account_id(_user_id, '1000')
+  );
+$$;
+
+-- 7) Postings go to the bank account's ledger account instead of always 1000
+CREATE OR REPLACE FUNCTION public.post_payment_journal()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _active_journal uuid;
+  _journal_id uuid;
+  _document_number text;
+  _bank_ledger uuid;
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    _active_journal := public.get_active_posting('payment', OLD.id);
+    IF _active_journal IS NOT NULL THEN
+      PERFORM public.create_reversal_journal(_active_journal, CURRENT_DATE);
+    END IF;
+    PERFORM public.refresh_payment_status(OLD.invoice_id, OLD.bill_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    IF NEW.invoice_id IS NOT NULL THEN
+      SELECT invoice_number INTO _document_number FROM public.invoices WHERE id = NEW.invoice_id;
+    ELSE
+      SELECT bill_number INTO _document_number FROM public.bills WHERE id = NEW.bill_id;
+    END IF;
+
+    _bank_ledger := public.bank_ledger_account_id(NEW.user_id, NEW.bank_account_id);
+
+    INSERT INTO public.journals (user_id, date, reference, description, source_type, source_id)
+    VALUES (
+      NEW.user_id,
+      NEW.date,
+      COALESCE(NULLIF(NEW.reference, ''), _document_number),
+      CASE WHEN NEW.invoice_id IS NOT NULL THEN 'Payment received for ' ELSE 'Payment made for ' END || _document_number,
+      'payment',
+      NEW.id
+    )
+    RETURNING id INTO _journal_id;
+
+    IF NEW.invoice_id IS NOT NULL THEN
+      PERFORM public.add_journal_line(_journal_id, _bank_ledger, 'Bank', NEW.amount);
+      PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.user_id, '1100'), 'Accounts receivable', -NEW.amount);
+    ELSE
+      PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.user_id, '2000'), 'Accounts payable', NEW.amount);
+      PERFORM public.add_journal_line(_journal_id, _bank_ledger, 'Bank', -NEW.amount);
+    END IF;
+
+    PERFORM public.refresh_payment_status(NEW.invoice_id, NEW.bill_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS post_payment_journal ON public.payments;
+CREATE TRIGGER post_payment_journal
+AFTER INSERT OR UPDATE OF amount, date, invoice_id, bill_id, bank_account_id OR DELETE ON public.payments
+FOR EACH ROW EXECUTE FUNCTION public.post_payment_journal();
+
+CREATE OR REPLACE FUNCTION public.post_bank_transaction_journal()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _active_journal uuid := public.get_active_posting('bank_transaction', NEW.id);
+  _journal_id uuid;
+  _sign numeric := sign(NEW.amount);
+  _split_total numeric;
+  _split record;
+BEGIN
+  IF COALESCE(NEW.reconciled, false) AND _active_journal IS NULL THEN
+    SELECT COALESCE(SUM(amount), 0) INTO _split_total
+    FROM public.bank_transaction_allocations
+    WHERE bank_transaction_id = NEW.id AND account_id IS NOT NULL;
+
+    IF _split_total > 0 THEN
+      INSERT INTO public.journals (user_id, date, reference, description, source_type, source_id)
+      VALUES (NEW.user_id, NEW.date, COALESCE(NEW.reference, 'BANK-' || NEW.date), NEW.description, 'bank_transaction', NEW.id)
+      RETURNING id INTO _journal_id;
+
+      PERFORM public.add_journal_line(_journal_id, public.bank_ledger_account_id(NEW.user_id, NEW.bank_account_id), 'Bank', _sign * _split_total);
+
+      FOR _split IN
+        SELECT account_id, description, amount, vat_amount
+        FROM public.bank_transaction_allocations
+        WHERE bank_transaction_id = NEW.id AND account_id IS NOT NULL
+        ORDER BY created_at, id
+      LOOP
+        PERFORM public.add_journal_line(_journal_id, _split.account_id, COALESCE(_split.description, NEW.description), -_sign * (_split.amount - _split.vat_amount));
+        PERFORM public.add_journal_line(
+          _journal_id,
+          public.get_account_id(NEW.user_id, CASE WHEN NEW.amount > 0 THEN '2100' ELSE '1150' END),
+          CASE WHEN NEW.amount > 0 THEN 'VAT on sales' ELSE 'VAT on purchases' END,
+          -_sign * _split.vat_amount
+        );
+      END LOOP;
+    END IF;
+  ELSIF NOT COALESCE(NEW.reconciled, false) AND _active_journal IS NOT NULL THEN
+    PERFORM public.create_reversal_journal(_active_journal, CURRENT_DATE);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 8) Imports go into a chosen account. Lines are duplicates when the account already has them,
+--    and lines in a reconciled period are skipped the same way since the statement covered them.
+DROP FUNCTION IF EXISTS public.find_duplicate_bank_transactions(jsonb);
+DROP FUNCTION IF EXISTS public.import_bank_statement(text, text, text, jsonb);
+
+CREATE OR REPLACE FUNCTION public.find_duplicate_bank_transactions(_bank_account_id uuid, _transactions jsonb)
+RETURNS SETOF integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT f.line_number
+  FROM public.bank_statement_fingerprints(_transactions) f
+  JOIN jsonb_array_elements(_transactions) WITH ORDINALITY AS t(item, line_number) ON t.line_number = f.line_number
+  WHERE EXISTS (
+    SELECT 1 FROM public.bank_transactions bt
+    WHERE bt.user_id = auth.uid() AND bt.bank_account_id = _bank_account_id AND bt.fingerprint = f.fingerprint
+  )
+  OR (t.item->>'date')::date <= public.bank_account_locked_until(_bank_account_id)
+  ORDER BY f.line_number;
+$$;
+
+CREATE OR REPLACE FUNCTION public.import_bank_statement(_bank_account_id uuid, _file_name text, _file_hash text, _format text, _transactions jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _batch_id uuid;
+  _imported_at timestamptz;
+  _locked date;
+  _total integer := COALESCE(jsonb_array_length(_transactions), 0);
+  _inserted integer;
+BEGIN
+  IF _total = 0 THEN
+    RAISE EXCEPTION 'The statement has no transactions to import';
+  END IF;
+
+  PERFORM 1 FROM public.bank_accounts WHERE id = _bank_account_id AND user_id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bank account not found';
+  END IF;
+
+  SELECT created_at INTO _imported_at
+  FROM public.bank_import_batches
+  WHERE user_id = auth.uid() AND file_hash = _file_hash AND status = 'imported';
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'This file was already imported on %', to_char(_imported_at, 'DD/MM/YYYY');
+  END IF;
+
+  _locked := public.bank_account_locked_until(_bank_account_id);
+
+  INSERT INTO public.bank_import_batches (user_id, bank_account_id, file_name, file_hash, format)
+  VALUES (auth.uid(), _bank_account_id, _file_name, _file_hash, _format)
+  RETURNING id INTO _batch_id;
+
+  INSERT INTO public.bank_transactions (user_id, bank_account_id, date, description, amount, reference, balance, fingerprint, import_batch_id)
+  SELECT auth.uid(),
+         _bank_account_id,
+         (t.item->>'date')::date,
+         t.item->>'description',
+         (t.item->>'amount')::numeric,
+         NULLIF(t.item->>'reference', ''),
+         (t.item->>'balance')::numeric,
+         f.fingerprint,
+         _batch_id
+  FROM jsonb_array_elements(_transactions) WITH ORDINALITY AS t(item, line_number)
+  JOIN public.bank_statement_fingerprints(_transactions) f ON f.line_number = t.line_number
+  WHERE _locked IS NULL OR (t.item->>'date')::date > _locked
+  ORDER BY t.line_number
+  ON CONFLICT (bank_account_id, fingerprint) DO NOTHING;
+
+  GET DIAGNOSTICS _inserted = ROW_COUNT;
+
+  UPDATE public.bank_import_batches
+  SET transaction_count = _inserted, duplicate_count = _total - _inserted
+  WHERE id = _batch_id;
+
+  RETURN _batch_id;
+END;
+$$;
+
+-- 9) Payments created by reconciling remember the bank account so they post to its ledger account
+CREATE OR REPLACE FUNCTION public.reconcile_bank_transaction(_transaction_id uuid, _allocations jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _transaction public.bank_transactions%ROWTYPE;
+  _allocation jsonb;
+  _amount numeric;
+  _total numeric := 0;
+  _payment_id uuid;
+BEGIN
+  SELECT * INTO _transaction
+  FROM public.bank_transactions
+  WHERE id = _transaction_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bank transaction not found';
+  END IF;
+
+  IF COALESCE(_transaction.reconciled, false) THEN
+    RAISE EXCEPTION 'This transaction is already reconciled';
+  END IF;
+
+  IF jsonb_typeof(_allocations) <> 'array' OR jsonb_array_length(_allocations) = 0 THEN
+    RAISE EXCEPTION 'Allocate the transaction to at least one invoice, bill or account';
+  END IF;
+
+  FOR _allocation IN SELECT * FROM jsonb_array_elements(_allocations)
+  LOOP
+    _amount := round((_allocation->>'amount')::numeric, 2);
+
+    IF _amount IS NULL OR _amount <= 0 THEN
+      RAISE EXCEPTION 'Each allocation needs an amount greater than zero';
+    END IF;
+
+    IF _allocation ? 'invoice_id' AND _transaction.amount < 0 THEN
+      RAISE EXCEPTION 'Money paid out cannot settle an invoice';
+    END IF;
+
+    IF _allocation ? 'bill_id' AND _transaction.amount > 0 THEN
+      RAISE EXCEPTION 'Money received cannot settle a bill';
+    END IF;
+
+    _payment_id := NULL;
+    IF _allocation ? 'invoice_id' OR _allocation ? 'bill_id' THEN
+      -- validate_payment rejects documents that are not open and amounts over the outstanding balance
+      INSERT INTO public.payments (invoice_id, bill_id, bank_account_id, amount, date, reference, method)
+      VALUES (
+        (_allocation->>'invoice_id')::uuid,
+        (_allocation->>'bill_id')::uuid,
+        _transaction.bank_account_id,
+        _amount,
+        _transaction.date,
+        NULLIF(_transaction.reference, ''),
+        'bank_transfer'
+      )
+      RETURNING id INTO _payment_id;
+    END IF;
+
+    INSERT INTO public.bank_transaction_allocations (
+      bank_transaction_id, invoice_id, bill_id, account_id, tax_code_id, payment_id, description, amount
+    )
+    VALUES (
+      _transaction.id,
+      (_allocation->>'invoice_id')::uuid,
+      (_allocation->>'bill_id')::uuid,
+      (_allocation->>'account_id')::uuid,
+      (_allocation->>'tax_code_id')::uuid,
+      _payment_id,
+      NULLIF(_allocation->>'description', ''),
+      _amount
+    );
+
+    _total := _total + _amount;
+  END LOOP;
+
+  IF _total <> abs(_transaction.amount) THEN
+    RAISE EXCEPTION 'Allocations add up to % but the transaction is %', _total, abs(_transaction.amount);
+  END IF;
+
+  UPDATE public.bank_transactions SET reconciled = true WHERE id = _transaction.id;
+END;
+$$;
+
+-- A posted transaction's journal sits on its account's ledger account, so it cannot move accounts either
+CREATE OR REPLACE FUNCTION public.lock_posted_bank_transaction()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(OLD.reconciled, false) AND COALESCE(NEW.reconciled, false)
+     AND (NEW.date IS DISTINCT FROM OLD.date OR NEW.amount IS DISTINCT FROM OLD.amount
+          OR NEW.bank_account_id IS DISTINCT FROM OLD.bank_account_id) THEN
+    RAISE EXCEPTION 'Unreconcile the transaction before changing its date, amount or bank account';
+  END IF;
+  RETURN NEW;
+END;
+$$;
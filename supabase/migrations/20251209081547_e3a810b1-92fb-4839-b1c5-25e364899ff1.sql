@@ -0,0 +1,182 @@
+-- Bank feeds: a consent with a feed provider (an Open Banking aggregator, or the mock provider in
+-- development) exposes accounts whose transactions are synced into bank_transactions on schedule
+
+-- 1) One row per consent the user has given a provider
+CREATE TABLE IF NOT EXISTS public.bank_feed_connections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid DEFAULT auth.uid(),
+  provider text NOT NULL,
+  -- The provider's id for the consent (a requisition or consent id)
+  consent_id text NOT NULL,
+  institution_name text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active', 'expired', 'revoked', 'error')),
+  consent_expires_at timestamptz,
+  last_synced_at timestamptz,
+  last_error text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (provider, consent_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_feed_connections_user_id ON public.bank_feed_connections(user_id);
+
+CREATE TRIGGER update_bank_feed_connections_updated_at
+  BEFORE UPDATE ON public.bank_feed_connections
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.bank_feed_connections ENABLE ROW LEVEL SECURITY;
+
+-- Connections are created, updated and removed by the bank-feeds function, which also deals with
+-- the provider; users only read them
+CREATE POLICY "Users select own bank_feed_connections" ON public.bank_feed_connections FOR SELECT TO authenticated USING (user_id = auth.uid());
+
+-- 2) Accounts the consent covers. Only accounts linked to one of the user's bank accounts are synced.
+CREATE TABLE IF NOT EXISTS public.bank_feed_accounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid DEFAULT auth.uid(),
+  connection_id uuid NOT NULL REFERENCES public.bank_feed_connections(id) ON DELETE CASCADE,
+  provider_account_id text NOT NULL,
+  name text NOT NULL,
+  sort_code text,
+  account_number text,
+  currency text NOT NULL DEFAULT 'GBP',
+  bank_account_id uuid REFERENCES public.bank_accounts(id) ON DELETE SET NULL,
+  -- Opaque position in the provider's transaction list; the next sync carries on from here
+  sync_cursor text,
+  last_synced_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (connection_id, provider_account_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_feed_accounts_user_id ON public.bank_feed_accounts(user_id);
+-- A bank account takes its transactions from one feed at most
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bank_feed_accounts_bank_account_id
+  ON public.bank_feed_accounts(bank_account_id) WHERE bank_account_id IS NOT NULL;
+
+ALTER TABLE public.bank_feed_accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users select own bank_feed_accounts" ON public.bank_feed_accounts FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users update own bank_feed_accounts" ON public.bank_feed_accounts FOR UPDATE TO authenticated USING (user_id = auth.uid());
+
+-- Linking is the only change users make to a feed account, and only to their own bank accounts
+CREATE OR REPLACE FUNCTION public.validate_bank_feed_account()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.bank_account_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.bank_accounts WHERE id = NEW.bank_account_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Bank account not found';
+  END IF;
+
+  -- Relinking starts the new account's sync from the beginning of the feed
+  IF TG_OP = 'UPDATE' AND NEW.bank_account_id IS DISTINCT FROM OLD.bank_account_id THEN
+    NEW.sync_cursor := NULL;
+    NEW.last_synced_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_bank_feed_account ON public.bank_feed_accounts;
+CREATE TRIGGER validate_bank_feed_account
+BEFORE INSERT OR UPDATE ON public.bank_feed_accounts
+FOR EACH ROW EXECUTE FUNCTION public.validate_bank_feed_account();
+
+-- 3) Transactions remember the feed they came from and the provider's id for them
+ALTER TABLE public.bank_transactions ADD COLUMN IF NOT EXISTS feed_account_id uuid REFERENCES public.bank_feed_accounts(id) ON DELETE SET NULL;
+ALTER TABLE public.bank_transactions ADD COLUMN IF NOT EXISTS external_id text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bank_transactions_external_id
+  ON public.bank_transactions(bank_account_id, external_id) WHERE external_id IS NOT NULL;
+
+-- 4) Store a page of synced transactions and move the account's cursor on, in one transaction so
+--    a failed sync leaves the cursor where it was. Lines already held (by provider id, or by
+--    fingerprint when the same statement was also imported from a file) and lines in a reconciled
+--    period are skipped. _transactions is an array of { id, date, description, amount, reference, balance }.
+CREATE OR REPLACE FUNCTION public.ingest_bank_feed_transactions(_feed_account_id uuid, _transactions jsonb, _cursor text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _feed public.bank_feed_accounts%ROWTYPE;
+  _locked date;
+  _inserted integer := 0;
+BEGIN
+  SELECT * INTO _feed
+  FROM public.bank_feed_accounts
+  WHERE id = _feed_account_id
+    -- Scheduled syncs run as the service role, without a user
+    AND (auth.uid() IS NULL OR user_id = auth.uid())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bank feed account not found';
+  END IF;
+
+  IF _feed.bank_account_id IS NULL THEN
+    RAISE EXCEPTION 'Link the feed account to a bank account before syncing it';
+  END IF;
+
+  _locked := public.bank_account_locked_until(_feed.bank_account_id);
+
+  IF COALESCE(jsonb_array_length(_transactions), 0) > 0 THEN
+    INSERT INTO public.bank_transactions (
+      user_id, bank_account_id, feed_account_id, external_id, date, description, amount, reference, balance, fingerprint
+    )
+    SELECT _feed.user_id,
+           _feed.bank_account_id,
+           _feed.id,
+           t.item->>'id',
+           (t.item->>'date')::date,
+           t.item->>'description',
+           (t.item->>'amount')::numeric,
+           NULLIF(t.item->>'reference', ''),
+           (t.item->>'balance')::numeric,
+           f.fingerprint
+    FROM jsonb_array_elements(_transactions) WITH ORDINALITY AS t(item, line_number)
+    JOIN public.bank_statement_fingerprints(_transactions) f ON f.line_number = t.line_number
+    WHERE (_locked IS NULL OR (t.item->>'date')::date > _locked)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.bank_transactions bt
+        WHERE bt.bank_account_id = _feed.bank_account_id AND bt.external_id = t.item->>'id'
+      )
+    ORDER BY t.line_number
+    ON CONFLICT (bank_account_id, fingerprint) DO NOTHING;
+
+    GET DIAGNOSTICS _inserted = ROW_COUNT;
+  END IF;
+
+  UPDATE public.bank_feed_accounts
+  SET sync_cursor = _cursor, last_synced_at = now()
+  WHERE id = _feed.id;
+
+  RETURN _inserted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.ingest_bank_feed_transactions(uuid, jsonb, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.ingest_bank_feed_transactions(uuid, jsonb, text) TO authenticated, service_role;
+
+-- 5) Sync every active feed every four hours. The service role key is read from Vault as for
+--    generate-recurring.
+SELECT cron.schedule(
+  'sync-bank-feeds',
+  '20 */4 * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://dzlbhufjorhmxtpktzga.supabase.co/functions/v1/bank-feeds',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"action": "sync_all"}'::jsonb
+  );
+  $$
+);
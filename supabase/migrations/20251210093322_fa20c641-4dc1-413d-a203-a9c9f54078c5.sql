@@ -0,0 +1,328 @@
+-- Lock dates: nothing dated on or before the lock date can be added, changed or removed. The
+-- general lock is set by the user; the VAT lock moves forward by itself when a VAT return is
+-- submitted. The owner can open a short, audited override window to correct a locked period.
+
+-- 1) Lock dates live with the company settings
+ALTER TABLE public.company_settings ADD COLUMN IF NOT EXISTS lock_date date;
+ALTER TABLE public.company_settings ADD COLUMN IF NOT EXISTS vat_lock_date date;
+
+-- Returns already submitted lock their periods straight away
+UPDATE public.company_settings cs
+SET vat_lock_date = v.period_end
+FROM (
+  SELECT r.user_id, max(o.end_date) AS period_end
+  FROM public.vat_returns r
+  JOIN public.vat_obligations o ON o.id = r.obligation_id OR (o.user_id = r.user_id AND o.period_key = r.period_key)
+  GROUP BY r.user_id
+) v
+WHERE cs.user_id = v.user_id;
+
+-- The VAT lock follows submitted returns only; it cannot be edited directly
+CREATE OR REPLACE FUNCTION public.protect_vat_lock_date()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.vat_lock_date IS DISTINCT FROM (CASE WHEN TG_OP = 'UPDATE' THEN OLD.vat_lock_date END)
+     AND pg_trigger_depth() = 1 THEN
+    RAISE EXCEPTION 'The VAT lock date is set by submitting VAT returns';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_vat_lock_date ON public.company_settings;
+CREATE TRIGGER protect_vat_lock_date
+BEFORE INSERT OR UPDATE ON public.company_settings
+FOR EACH ROW EXECUTE FUNCTION public.protect_vat_lock_date();
+
+-- A submitted return locks its period against VAT-affecting changes
+CREATE OR REPLACE FUNCTION public.apply_vat_lock_date()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _period_end date;
+BEGIN
+  SELECT end_date INTO _period_end
+  FROM public.vat_obligations
+  WHERE id = NEW.obligation_id
+     OR (NEW.obligation_id IS NULL AND user_id = NEW.user_id AND period_key = NEW.period_key)
+  ORDER BY end_date DESC
+  LIMIT 1;
+
+  IF _period_end IS NOT NULL THEN
+    INSERT INTO public.company_settings (user_id, vat_lock_date)
+    VALUES (NEW.user_id, _period_end)
+    ON CONFLICT (user_id) DO UPDATE
+    SET vat_lock_date = GREATEST(public.company_settings.vat_lock_date, EXCLUDED.vat_lock_date);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_vat_lock_date ON public.vat_returns;
+CREATE TRIGGER apply_vat_lock_date
+AFTER INSERT ON public.vat_returns
+FOR EACH ROW EXECUTE FUNCTION public.apply_vat_lock_date();
+
+-- 2) Overrides: a window during which the owner may change locked periods, with a stated reason
+CREATE TABLE IF NOT EXISTS public.lock_date_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid DEFAULT auth.uid(),
+  reason text NOT NULL CHECK (length(trim(reason)) > 0),
+  expires_at timestamptz NOT NULL,
+  ended_at timestamptz,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lock_date_overrides_user_id ON public.lock_date_overrides(user_id);
+
+ALTER TABLE public.lock_date_overrides ENABLE ROW LEVEL SECURITY;
+
+-- Opened and ended through begin_lock_override / end_lock_override only, so the trail cannot be edited
+CREATE POLICY "Users select own lock_date_overrides" ON public.lock_date_overrides FOR SELECT TO authenticated USING (user_id = auth.uid());
+
+-- Every change to a locked period made under an override
+CREATE TABLE IF NOT EXISTS public.lock_date_override_changes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid,
+  override_id uuid NOT NULL REFERENCES public.lock_date_overrides(id),
+  table_name text NOT NULL,
+  record_id uuid,
+  operation text NOT NULL,
+  record_date date NOT NULL,
+  changed_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lock_date_override_changes_override_id ON public.lock_date_override_changes(override_id);
+
+ALTER TABLE public.lock_date_override_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users select own lock_date_override_changes" ON public.lock_date_override_changes FOR SELECT TO authenticated USING (user_id = auth.uid());
+
+-- Until organisations exist the owner is the user the company settings belong to
+CREATE OR REPLACE FUNCTION public.begin_lock_override(_reason text, _minutes integer DEFAULT 15)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Only the owner can override lock dates';
+  END IF;
+
+  IF _minutes IS NULL OR _minutes < 1 OR _minutes > 60 THEN
+    RAISE EXCEPTION 'An override lasts between 1 and 60 minutes';
+  END IF;
+
+  UPDATE public.lock_date_overrides
+  SET ended_at = now()
+  WHERE user_id = auth.uid() AND ended_at IS NULL AND expires_at > now();
+
+  INSERT INTO public.lock_date_overrides (user_id, reason, expires_at, created_by)
+  VALUES (auth.uid(), trim(_reason), now() + make_interval(mins => _minutes), auth.uid())
+  RETURNING id INTO _id;
+
+  RETURN _id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.end_lock_override()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.lock_date_overrides
+  SET ended_at = now()
+  WHERE user_id = auth.uid() AND ended_at IS NULL AND expires_at > now();
+$$;
+
+-- 3) The check every protected table runs. Changes on or before the later of the two lock dates
+--    are refused unless an override is open, in which case they are recorded against it.
+CREATE OR REPLACE FUNCTION public.check_lock_date(_user_id uuid, _date date, _table_name text, _record_id uuid, _operation text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings record;
+  _override_id uuid;
+BEGIN
+  -- On insert this can run before the user_id is stamped
+  _user_id := COALESCE(_user_id, auth.uid());
+
+  IF _date IS NULL OR _user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT lock_date, vat_lock_date INTO _settings FROM public.company_settings WHERE user_id = _user_id;
+
+  IF NOT FOUND OR _date > COALESCE(GREATEST(_settings.lock_date, _settings.vat_lock_date), '-infinity'::date) THEN
+    RETURN;
+  END IF;
+
+  SELECT id INTO _override_id
+  FROM public.lock_date_overrides
+  WHERE user_id = _user_id AND ended_at IS NULL AND expires_at > now()
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF _override_id IS NOT NULL THEN
+    INSERT INTO public.lock_date_override_changes (user_id, override_id, table_name, record_id, operation, record_date)
+    VALUES (_user_id, _override_id, _table_name, _record_id, _operation, _date);
+    RETURN;
+  END IF;
+
+  IF _date <= _settings.vat_lock_date THEN
+    RAISE EXCEPTION 'The period to % is covered by a submitted VAT return and is locked', to_char(_settings.vat_lock_date, 'DD/MM/YYYY');
+  END IF;
+
+  RAISE EXCEPTION 'The books are locked to %; nothing dated on or before it can change', to_char(_settings.lock_date, 'DD/MM/YYYY');
+END;
+$$;
+
+-- 4) Invoices and bills: their date, party and amounts are what the books and VAT return use.
+--    Payments and status changes on old documents are dated today, so they are not affected.
+--    Drafts are not in the books until they are issued.
+CREATE OR REPLACE FUNCTION public.enforce_document_lock_date()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _old jsonb := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  _new jsonb := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  _party text := CASE WHEN TG_TABLE_NAME = 'invoices' THEN 'customer_id' ELSE 'supplier_id' END;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF _old->>'status' = 'draft' AND _new->>'status' = 'draft' THEN
+      RETURN NEW;
+    END IF;
+
+    IF _old->'date' = _new->'date' AND _old->_party = _new->_party
+       AND _old->'subtotal' = _new->'subtotal' AND _old->'vat_amount' = _new->'vat_amount'
+       AND _old->'total' = _new->'total'
+       AND (_old->>'status' = 'draft') = (_new->>'status' = 'draft') THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') AND _old->>'status' <> 'draft' THEN
+    PERFORM public.check_lock_date((_old->>'user_id')::uuid, (_old->>'date')::date, TG_TABLE_NAME, (_old->>'id')::uuid, TG_OP);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND _new->>'status' <> 'draft' THEN
+    PERFORM public.check_lock_date((_new->>'user_id')::uuid, (_new->>'date')::date, TG_TABLE_NAME, (_new->>'id')::uuid, TG_OP);
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_invoices_lock_date ON public.invoices;
+CREATE TRIGGER enforce_invoices_lock_date
+BEFORE INSERT OR UPDATE OR DELETE ON public.invoices
+FOR EACH ROW EXECUTE FUNCTION public.enforce_document_lock_date();
+
+DROP TRIGGER IF EXISTS enforce_bills_lock_date ON public.bills;
+CREATE TRIGGER enforce_bills_lock_date
+BEFORE INSERT OR UPDATE OR DELETE ON public.bills
+FOR EACH ROW EXECUTE FUNCTION public.enforce_document_lock_date();
+
+-- 5) Journals and their lines: every posting, whatever created it
+CREATE OR REPLACE FUNCTION public.enforce_journal_lock_date()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.date IS NOT DISTINCT FROM OLD.date AND NEW.user_id IS NOT DISTINCT FROM OLD.user_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.check_lock_date(OLD.user_id, OLD.date, 'journals', OLD.id, TG_OP);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM public.check_lock_date(NEW.user_id, NEW.date, 'journals', NEW.id, TG_OP);
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_journals_lock_date ON public.journals;
+CREATE TRIGGER enforce_journals_lock_date
+BEFORE INSERT OR UPDATE OR DELETE ON public.journals
+FOR EACH ROW EXECUTE FUNCTION public.enforce_journal_lock_date();
+
+-- Lines written while their journal is created are covered by the journal's own check
+CREATE OR REPLACE FUNCTION public.enforce_journal_line_lock_date()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _journal record;
+BEGIN
+  SELECT id, user_id, date, created_at INTO _journal
+  FROM public.journals
+  WHERE id = COALESCE(NEW.journal_id, OLD.journal_id);
+
+  IF FOUND AND _journal.created_at < now() THEN
+    PERFORM public.check_lock_date(_journal.user_id, _journal.date, 'journal_lines', COALESCE(NEW.id, OLD.id), TG_OP);
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_journal_lines_lock_date ON public.journal_lines;
+CREATE TRIGGER enforce_journal_lines_lock_date
+BEFORE INSERT OR UPDATE OR DELETE ON public.journal_lines
+FOR EACH ROW EXECUTE FUNCTION public.enforce_journal_line_lock_date();
+
+-- 6) Bank transactions: the same changes the reconciled-period lock watches
+CREATE OR REPLACE FUNCTION public.enforce_bank_transaction_lock_date()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.date IS NOT DISTINCT FROM OLD.date
+     AND NEW.amount IS NOT DISTINCT FROM OLD.amount
+     AND NEW.reconciled IS NOT DISTINCT FROM OLD.reconciled
+     AND NEW.bank_account_id IS NOT DISTINCT FROM OLD.bank_account_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.check_lock_date(OLD.user_id, OLD.date, 'bank_transactions', OLD.id, TG_OP);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM public.check_lock_date(NEW.user_id, NEW.date, 'bank_transactions', NEW.id, TG_OP);
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+-- Sorts after the stamp_* triggers so user_id is filled in on insert
+DROP TRIGGER IF EXISTS validate_bank_transactions_lock_date ON public.bank_transactions;
+CREATE TRIGGER validate_bank_transactions_lock_date
+BEFORE INSERT OR UPDATE OR DELETE ON public.bank_transactions
+FOR EACH ROW EXECUTE FUNCTION public.enforce_bank_transaction_lock_date();
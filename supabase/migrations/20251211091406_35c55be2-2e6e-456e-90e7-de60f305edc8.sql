@@ -0,0 +1,222 @@
+-- Year-end close: a closing journal dated the financial year end moves every income and expense
+-- balance into Retained Earnings 3100, so the next year's P&L starts from nothing and the balance
+-- sheet carries the profit as equity.
+
+-- 1) One row per closed year; reopened years keep their row for the record
+CREATE TABLE IF NOT EXISTS public.year_end_closes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid DEFAULT auth.uid(),
+  year_end date NOT NULL,
+  net_profit numeric(12,2) NOT NULL DEFAULT 0,
+  journal_id uuid REFERENCES public.journals(id),
+  reopened_at timestamptz,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_year_end_closes_open_year_end ON public.year_end_closes(user_id, year_end) WHERE reopened_at IS NULL;
+
+ALTER TABLE public.year_end_closes ENABLE ROW LEVEL SECURITY;
+
+-- Written by close_financial_year / reopen_financial_year only
+CREATE POLICY "Users select own year_end_closes" ON public.year_end_closes FOR SELECT TO authenticated USING (user_id = auth.uid());
+
+-- 2) The VAT lock protects VAT figures, and closing journals never touch VAT, so a close (or its
+--    reversal) made by the functions below only has to respect the general lock date
+DROP FUNCTION IF EXISTS public.check_lock_date(uuid, date, text, uuid, text);
+
+CREATE OR REPLACE FUNCTION public.check_lock_date(_user_id uuid, _date date, _table_name text, _record_id uuid, _operation text, _include_vat boolean DEFAULT true)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings record;
+  _lock date;
+  _override_id uuid;
+BEGIN
+  -- On insert this can run before the user_id is stamped
+  _user_id := COALESCE(_user_id, auth.uid());
+
+  IF _date IS NULL OR _user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT lock_date, vat_lock_date INTO _settings FROM public.company_settings WHERE user_id = _user_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  _lock := CASE WHEN _include_vat THEN GREATEST(_settings.lock_date, _settings.vat_lock_date) ELSE _settings.lock_date END;
+
+  IF _date > COALESCE(_lock, '-infinity'::date) THEN
+    RETURN;
+  END IF;
+
+  SELECT id INTO _override_id
+  FROM public.lock_date_overrides
+  WHERE user_id = _user_id AND ended_at IS NULL AND expires_at > now()
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF _override_id IS NOT NULL THEN
+    INSERT INTO public.lock_date_override_changes (user_id, override_id, table_name, record_id, operation, record_date)
+    VALUES (_user_id, _override_id, _table_name, _record_id, _operation, _date);
+    RETURN;
+  END IF;
+
+  IF _include_vat AND _date <= _settings.vat_lock_date THEN
+    RAISE EXCEPTION 'The period to % is covered by a submitted VAT return and is locked', to_char(_settings.vat_lock_date, 'DD/MM/YYYY');
+  END IF;
+
+  RAISE EXCEPTION 'The books are locked to %; nothing dated on or before it can change', to_char(_settings.lock_date, 'DD/MM/YYYY');
+END;
+$$;
+
+-- Users cannot write year_end_closes, so a close row created or reopened in this very transaction
+-- means the journal is being written by one of the functions below
+CREATE OR REPLACE FUNCTION public.is_year_end_close_journal(_journal public.journals)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT _journal.source_type = 'year_end_close' AND EXISTS (
+    SELECT 1
+    FROM public.year_end_closes c
+    WHERE c.id = _journal.source_id
+      AND c.user_id = _journal.user_id
+      AND c.year_end = _journal.date
+      AND (c.created_at = now() OR c.reopened_at = now())
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_journal_lock_date()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.date IS NOT DISTINCT FROM OLD.date AND NEW.user_id IS NOT DISTINCT FROM OLD.user_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.check_lock_date(OLD.user_id, OLD.date, 'journals', OLD.id, TG_OP);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM public.check_lock_date(NEW.user_id, NEW.date, 'journals', NEW.id, TG_OP,
+      TG_OP = 'UPDATE' OR NOT public.is_year_end_close_journal(NEW));
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+-- 3) Close the year: zero each income and expense account as at the year end against 3100.
+--    Balances are cumulative, so anything left over from an earlier closed year is swept up too.
+CREATE OR REPLACE FUNCTION public.close_financial_year(_year_end date)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _last_close date;
+  _close_id uuid;
+  _journal_id uuid;
+  _net_profit numeric := 0;
+  _balance record;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF _year_end IS NULL OR _year_end > CURRENT_DATE THEN
+    RAISE EXCEPTION 'A financial year can only be closed once it has ended';
+  END IF;
+
+  SELECT max(year_end) INTO _last_close
+  FROM public.year_end_closes
+  WHERE user_id = _user_id AND reopened_at IS NULL;
+
+  IF _year_end <= _last_close THEN
+    RAISE EXCEPTION 'The year to % is already closed', to_char(_last_close, 'DD/MM/YYYY');
+  END IF;
+
+  INSERT INTO public.year_end_closes (user_id, year_end, created_by)
+  VALUES (_user_id, _year_end, _user_id)
+  RETURNING id INTO _close_id;
+
+  FOR _balance IN
+    SELECT a.id AS account_id, a.account_name, SUM(COALESCE(l.debit_amount, 0) - COALESCE(l.credit_amount, 0)) AS amount
+    FROM public.journal_lines l
+    JOIN public.journals j ON j.id = l.journal_id
+    JOIN public.chart_of_accounts a ON a.id = l.account_id
+    WHERE j.user_id = _user_id
+      AND j.date <= _year_end
+      AND a.account_type IN ('income', 'expense')
+    GROUP BY a.id, a.account_name, a.account_code
+    HAVING SUM(COALESCE(l.debit_amount, 0) - COALESCE(l.credit_amount, 0)) <> 0
+    ORDER BY a.account_code
+  LOOP
+    IF _journal_id IS NULL THEN
+      INSERT INTO public.journals (user_id, date, reference, description, source_type, source_id)
+      VALUES (_user_id, _year_end, 'YE-' || to_char(_year_end, 'YYYY-MM-DD'),
+              'Year-end close to ' || to_char(_year_end, 'DD/MM/YYYY'), 'year_end_close', _close_id)
+      RETURNING id INTO _journal_id;
+    END IF;
+
+    PERFORM public.add_journal_line(_journal_id, _balance.account_id, 'Close ' || _balance.account_name, -_balance.amount);
+    _net_profit := _net_profit - _balance.amount;
+  END LOOP;
+
+  IF _journal_id IS NOT NULL THEN
+    PERFORM public.add_journal_line(_journal_id, public.get_account_id(_user_id, '3100'), 'Retained earnings', -_net_profit);
+  END IF;
+
+  UPDATE public.year_end_closes
+  SET journal_id = _journal_id, net_profit = _net_profit
+  WHERE id = _close_id;
+
+  RETURN _close_id;
+END;
+$$;
+
+-- 4) Reopen the latest closed year by reversing its closing journal on the same date
+CREATE OR REPLACE FUNCTION public.reopen_financial_year(_close_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _close public.year_end_closes%ROWTYPE;
+BEGIN
+  SELECT * INTO _close
+  FROM public.year_end_closes
+  WHERE id = _close_id AND user_id = auth.uid() AND reopened_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Year-end close not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.year_end_closes
+    WHERE user_id = _close.user_id AND reopened_at IS NULL AND year_end > _close.year_end
+  ) THEN
+    RAISE EXCEPTION 'Reopen the later years first';
+  END IF;
+
+  UPDATE public.year_end_closes SET reopened_at = now() WHERE id = _close_id;
+
+  IF _close.journal_id IS NOT NULL THEN
+    PERFORM public.create_reversal_journal(_close.journal_id, _close.year_end);
+  END IF;
+END;
+$$;
+
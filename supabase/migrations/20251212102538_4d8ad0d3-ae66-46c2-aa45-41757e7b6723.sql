@@ -0,0 +1,180 @@
+-- Audit trail: every insert, update and delete of a financial record is written to an append-only
+-- log with who made it and the record before and after, whether it came from the app, a posting
+-- trigger or a scheduled job.
+
+-- 1) The log. user_id is the owner of the record, so accountants see the history of their books.
+CREATE TABLE IF NOT EXISTS public.audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid,
+  actor_id uuid,
+  actor_email text,
+  table_name text NOT NULL,
+  record_id uuid,
+  operation text NOT NULL CHECK (operation IN ('INSERT', 'UPDATE', 'DELETE')),
+  old_data jsonb,
+  new_data jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_user_id_created_at ON public.audit_log(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_record ON public.audit_log(table_name, record_id);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Written by the audit triggers only
+CREATE POLICY "Users select own audit_log" ON public.audit_log FOR SELECT TO authenticated USING (user_id = auth.uid());
+
+-- Nobody, the service role included, may rewrite history
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION 'The audit log is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_audit_log_change ON public.audit_log;
+CREATE TRIGGER prevent_audit_log_change
+BEFORE UPDATE OR DELETE ON public.audit_log
+FOR EACH ROW EXECUTE FUNCTION public.prevent_audit_log_change();
+
+DROP TRIGGER IF EXISTS prevent_audit_log_truncate ON public.audit_log;
+CREATE TRIGGER prevent_audit_log_truncate
+BEFORE TRUNCATE ON public.audit_log
+FOR EACH STATEMENT EXECUTE FUNCTION public.prevent_audit_log_change();
+
+-- 2) One trigger function for every audited table. Tables without a user_id (document lines) pass
+--    their parent table and foreign key so the entry is filed under the parent's owner.
+CREATE OR REPLACE FUNCTION public.audit_record_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old jsonb := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  _new jsonb := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  _row jsonb := COALESCE(_new, _old);
+  _owner uuid := (_row->>'user_id')::uuid;
+BEGIN
+  -- Saving a form without changing anything only bumps updated_at
+  IF TG_OP = 'UPDATE' AND (_old - 'updated_at') = (_new - 'updated_at') THEN
+    RETURN NULL;
+  END IF;
+
+  IF _owner IS NULL AND TG_NARGS = 2 THEN
+    EXECUTE format('SELECT user_id FROM public.%I WHERE id = $1', TG_ARGV[0])
+    INTO _owner
+    USING (_row->>TG_ARGV[1])::uuid;
+  END IF;
+
+  -- clock_timestamp keeps the order of changes made within one transaction
+  INSERT INTO public.audit_log (user_id, actor_id, actor_email, table_name, record_id, operation, old_data, new_data, created_at)
+  VALUES (
+    COALESCE(_owner, auth.uid()),
+    auth.uid(),
+    (SELECT email FROM auth.users WHERE id = auth.uid()),
+    TG_TABLE_NAME,
+    COALESCE(_row->>'id', _row->>'user_id')::uuid,
+    TG_OP,
+    _old,
+    _new,
+    clock_timestamp()
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+-- 3) The audited tables
+DROP TRIGGER IF EXISTS audit_customers ON public.customers;
+CREATE TRIGGER audit_customers
+AFTER INSERT OR UPDATE OR DELETE ON public.customers
+FOR EACH ROW EXECUTE FUNCTION public.audit_record_change();
+
+DROP TRIGGER IF EXISTS audit_suppliers ON public.suppliers;
+CREATE TRIGGER audit_suppliers
+AFTER INSERT OR UPDATE OR DELETE ON public.suppliers
+FOR EACH ROW EXECUTE FUNCTION public.audit_record_change();
+
+DROP TRIGGER IF EXISTS audit_chart_of_accounts ON public.chart_of_accounts;
+CREATE TRIGGER audit_chart_of_accounts
+AFTER INSERT OR UPDATE OR DELETE ON public.chart_of_accounts
+FOR EACH ROW EXECUTE FUNCTION public.audit_record_change();
+
+DROP TRIGGER IF EXISTS audit_company_settings ON public.company_settings;
+CREATE TRIGGER audit_company_settings
+AFTER INSERT OR UPDATE OR DELETE ON public.company_settings
+FOR EACH ROW EXECUTE FUNCTION public.audit_record_change();
+
+DROP TRIGGER IF EXISTS audit_invoices ON public.invoices;
+CREATE TRIGGER audit_invoices
+AFTER INSERT OR UPDATE OR DELETE ON public.invoices
+FOR EACH ROW EXECUTE FUNCTION public.audit_record_change();
+
+DROP TRIGGER IF EXISTS audit_invoice_lines ON public.invoice_lines;
+CREATE TRIGGER audit_invoice_lines
+AFTER INSERT OR UPDATE OR DELETE ON public.invoice_lines
+FOR EACH ROW EXECUTE FUNCTION public.audit_record_change('invoices', 'invoice_id');
+
+DROP TRIGGER IF EXISTS audit_bills ON public.bills;
+CREATE TRIGGER audit_bills
+AFTER INSERT OR UPDATE OR DELETE ON public.bills
+FOR EACH ROW EXECUTE FUNCTION public.audit_record_change();
+
+DROP TRIGGER IF EXISTS audit_bill_lines ON public.bill_lines;
+CREATE TRIGGER audit_bill_lines
+AFTER INSERT OR UPDATE OR DELETE ON public.bill_lines
+FOR EACH ROW EXECUTE FUNCTION public.audit_record_change('bills', 'bill_id');
+
+DROP TRIGGER IF EXISTS audit_credit_notes ON public.credit_notes;
+CREATE TRIGGER audit_credit_notes
+AFTER INSERT OR UPDATE OR DELETE ON public.credit_notes
+FOR EACH ROW EXECUTE FUNCTION public.audit_record_change();
+
+DROP TRIGGER IF EXISTS audit_credit_note_lines ON public.credit_note_lines;
+CREATE TRIGGER audit_credit_note_lines
+AFTER INSERT OR UPDATE OR DELETE ON public.credit_note_lines
+FOR EACH ROW EXECUTE FUNCTION public.audit_record_change('credit_notes', 'credit_note_id');
+
+DROP TRIGGER IF EXISTS audit_supplier_credit_notes ON public.supplier_credit_notes;
+CREATE TRIGGER audit_supplier_credit_notes
+AFTER INSERT OR UPDATE OR DELETE ON public.supplier_credit_notes
+FOR EACH ROW EXECUTE FUNCTION public.audit_record_change();
+
+DROP TRIGGER IF EXISTS audit_supplier_credit_note_lines ON public.supplier_credit_note_lines;
+CREATE TRIGGER audit_supplier_credit_note_lines
+AFTER INSERT OR UPDATE OR DELETE ON public.supplier_credit_note_lines
+FOR EACH ROW EXECUTE FUNCTION public.audit_record_change('supplier_credit_notes', 'supplier_credit_note_id');
+
+DROP TRIGGER IF EXISTS audit_payments ON public.payments;
+CREATE TRIGGER audit_payments
+AFTER INSERT OR UPDATE OR DELETE ON public.payments
+FOR EACH ROW EXECUTE FUNCTION public.audit_record_change();
+
+DROP TRIGGER IF EXISTS audit_journals ON public.journals;
+CREATE TRIGGER audit_journals
+AFTER INSERT OR UPDATE OR DELETE ON public.journals
+FOR EACH ROW EXECUTE FUNCTION public.audit_record_change();
+
+DROP TRIGGER IF EXISTS audit_journal_lines ON public.journal_lines;
+CREATE TRIGGER audit_journal_lines
+AFTER INSERT OR UPDATE OR DELETE ON public.journal_lines
+FOR EACH ROW EXECUTE FUNCTION public.audit_record_change('journals', 'journal_id');
+
+DROP TRIGGER IF EXISTS audit_bank_accounts ON public.bank_accounts;
+CREATE TRIGGER audit_bank_accounts
+AFTER INSERT OR UPDATE OR DELETE ON public.bank_accounts
+FOR EACH ROW EXECUTE FUNCTION public.audit_record_change();
+
+DROP TRIGGER IF EXISTS audit_bank_transactions ON public.bank_transactions;
+CREATE TRIGGER audit_bank_transactions
+AFTER INSERT OR UPDATE OR DELETE ON public.bank_transactions
+FOR EACH ROW EXECUTE FUNCTION public.audit_record_change();
+
+DROP TRIGGER IF EXISTS audit_vat_returns ON public.vat_returns;
+CREATE TRIGGER audit_vat_returns
+AFTER INSERT OR UPDATE OR DELETE ON public.vat_returns
+FOR EACH ROW EXECUTE FUNCTION public.audit_record_change();
@@ -0,0 +1,1850 @@
+-- Multi-organisation books: records belong to an organisation rather than to the user who keeps
+-- them, and a user can belong to any number of organisations with a role in each, e.g. an
+-- accountant looking after many clients. Row level security follows the organisation the user has
+-- switched to; user_id stays on each record as the user who created it.
+
+-- 1) Organisations, with user_roles as the membership table
+CREATE TABLE IF NOT EXISTS public.organisations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.organisations ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS update_organisations_updated_at ON public.organisations;
+CREATE TRIGGER update_organisations_updated_at
+BEFORE UPDATE ON public.organisations
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.user_roles ADD COLUMN IF NOT EXISTS organisation_id uuid REFERENCES public.organisations(id) ON DELETE CASCADE;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS current_organisation_id uuid REFERENCES public.organisations(id) ON DELETE SET NULL;
+
+-- The organisation the signed in user is working in: the one they last switched to while they are
+-- still a member of it, otherwise the first they joined
+CREATE OR REPLACE FUNCTION public.current_organisation_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.organisation_id
+  FROM public.user_roles r
+  LEFT JOIN public.profiles p ON p.user_id = r.user_id
+  WHERE r.user_id = auth.uid()
+  ORDER BY r.organisation_id = p.current_organisation_id DESC NULLS LAST, r.created_at, r.organisation_id
+  LIMIT 1
+$$;
+
+-- 2) Everyone's existing books become an organisation they own. It takes the user's id, so the
+--    storage folders already named after it keep working.
+INSERT INTO public.organisations (id, name, created_by)
+SELECT u.id, COALESCE(NULLIF(cs.company_name, ''), p.name, u.email, 'My organisation'), u.id
+FROM auth.users u
+LEFT JOIN public.company_settings cs ON cs.user_id = u.id
+LEFT JOIN public.profiles p ON p.user_id = u.id
+ON CONFLICT (id) DO NOTHING;
+
+DELETE FROM public.user_roles WHERE role <> 'owner';
+
+INSERT INTO public.user_roles (user_id, role)
+SELECT id, 'owner' FROM auth.users
+ON CONFLICT (user_id, role) DO NOTHING;
+
+UPDATE public.user_roles SET organisation_id = user_id;
+UPDATE public.profiles SET current_organisation_id = user_id;
+
+ALTER TABLE public.user_roles ALTER COLUMN organisation_id SET NOT NULL;
+ALTER TABLE public.user_roles DROP CONSTRAINT IF EXISTS user_roles_user_id_role_key;
+ALTER TABLE public.user_roles ADD CONSTRAINT user_roles_organisation_id_user_id_key UNIQUE (organisation_id, user_id);
+
+-- 3) Every table of books gets its organisation. Shared chart of accounts rows have no user and so
+--    no organisation. Triggers are off for the backfill: nothing about the records changes, and the
+--    audit log refuses updates.
+DO $$
+DECLARE
+  _table text;
+BEGIN
+  FOREACH _table IN ARRAY ARRAY[
+    'audit_log', 'bank_accounts', 'bank_feed_accounts', 'bank_feed_connections', 'bank_import_batches',
+    'bank_import_mappings', 'bank_reconciliations', 'bank_rules', 'bank_transaction_allocations',
+    'bank_transactions', 'bills', 'chart_of_accounts', 'company_settings', 'credit_notes', 'customers',
+    'document_sends', 'hmrc_oauth_tokens', 'invoice_number_sequences', 'invoices', 'journals',
+    'lock_date_override_changes', 'lock_date_overrides', 'payments', 'recurring_bills',
+    'recurring_invoices', 'supplier_credit_notes', 'suppliers', 'vat_obligations', 'vat_returns',
+    'year_end_closes'
+  ]
+  LOOP
+    EXECUTE format('ALTER TABLE public.%I ADD COLUMN IF NOT EXISTS organisation_id uuid REFERENCES public.organisations(id)', _table);
+    EXECUTE format('ALTER TABLE public.%I DISABLE TRIGGER USER', _table);
+    EXECUTE format('UPDATE public.%I SET organisation_id = user_id', _table);
+    EXECUTE format('ALTER TABLE public.%I ENABLE TRIGGER USER', _table);
+    EXECUTE format('ALTER TABLE public.%I ALTER COLUMN organisation_id SET DEFAULT public.current_organisation_id()', _table);
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON public.%I(organisation_id)', 'idx_' || _table || '_organisation_id', _table);
+
+    IF _table <> 'chart_of_accounts' THEN
+      EXECUTE format('ALTER TABLE public.%I ALTER COLUMN organisation_id SET NOT NULL', _table);
+    END IF;
+  END LOOP;
+END $$;
+
+-- Keys that were per user are now per organisation
+ALTER TABLE public.company_settings DROP CONSTRAINT company_settings_pkey;
+ALTER TABLE public.company_settings ADD PRIMARY KEY (organisation_id);
+ALTER TABLE public.company_settings ALTER COLUMN user_id DROP NOT NULL;
+
+ALTER TABLE public.invoice_number_sequences DROP CONSTRAINT invoice_number_sequences_pkey;
+ALTER TABLE public.invoice_number_sequences ADD PRIMARY KEY (organisation_id);
+ALTER TABLE public.invoice_number_sequences ALTER COLUMN user_id DROP NOT NULL;
+
+ALTER TABLE public.bank_accounts DROP CONSTRAINT IF EXISTS bank_accounts_user_id_name_key;
+ALTER TABLE public.bank_accounts DROP CONSTRAINT IF EXISTS bank_accounts_user_id_ledger_account_id_key;
+ALTER TABLE public.bank_accounts ADD CONSTRAINT bank_accounts_organisation_id_name_key UNIQUE (organisation_id, name);
+ALTER TABLE public.bank_accounts ADD CONSTRAINT bank_accounts_organisation_id_ledger_account_id_key UNIQUE (organisation_id, ledger_account_id);
+
+ALTER TABLE public.bank_import_mappings DROP CONSTRAINT IF EXISTS bank_import_mappings_user_id_name_key;
+ALTER TABLE public.bank_import_mappings ADD CONSTRAINT bank_import_mappings_organisation_id_name_key UNIQUE (organisation_id, name);
+
+ALTER TABLE public.hmrc_oauth_tokens DROP CONSTRAINT IF EXISTS hmrc_oauth_tokens_user_id_key;
+ALTER TABLE public.hmrc_oauth_tokens ADD CONSTRAINT hmrc_oauth_tokens_organisation_id_key UNIQUE (organisation_id);
+
+ALTER TABLE public.vat_obligations DROP CONSTRAINT IF EXISTS vat_obligations_user_id_period_key_key;
+ALTER TABLE public.vat_obligations ADD CONSTRAINT vat_obligations_organisation_id_period_key_key UNIQUE (organisation_id, period_key);
+
+DROP INDEX IF EXISTS public.idx_bank_import_batches_file_hash;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bank_import_batches_file_hash ON public.bank_import_batches(organisation_id, file_hash) WHERE status = 'imported';
+
+DROP INDEX IF EXISTS public.idx_invoices_user_invoice_number;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_organisation_invoice_number ON public.invoices(organisation_id, invoice_number);
+
+DROP INDEX IF EXISTS public.idx_credit_notes_user_number;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_notes_organisation_number ON public.credit_notes(organisation_id, credit_note_number);
+
+DROP INDEX IF EXISTS public.idx_year_end_closes_open_year_end;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_year_end_closes_open_year_end ON public.year_end_closes(organisation_id, year_end) WHERE reopened_at IS NULL;
+
+-- 4) Row level security: every policy that checked the record's user (directly, or through the
+--    parent document for lines) now checks the organisation the user is working in
+DO $$
+DECLARE
+  _policy record;
+  _member constant text := 'organisation_id = (SELECT public.current_organisation_id())';
+BEGIN
+  FOR _policy IN
+    SELECT tablename, policyname, qual, with_check
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename NOT IN ('profiles', 'subscriptions', 'user_roles', 'tax_codes', 'organisations')
+  LOOP
+    IF _policy.qual IS NOT NULL THEN
+      EXECUTE format('ALTER POLICY %I ON public.%I USING (%s)', _policy.policyname, _policy.tablename,
+        replace(replace(_policy.qual, 'user_id = auth.uid()', _member), 'user_id IS NULL', 'organisation_id IS NULL'));
+    END IF;
+
+    IF _policy.with_check IS NOT NULL THEN
+      EXECUTE format('ALTER POLICY %I ON public.%I WITH CHECK (%s)', _policy.policyname, _policy.tablename,
+        replace(_policy.with_check, 'user_id = auth.uid()', _member));
+    END IF;
+  END LOOP;
+END $$;
+
+-- The audit log was filed under the owning user; the organisation replaces that
+DROP INDEX IF EXISTS public.idx_audit_log_user_id_created_at;
+ALTER TABLE public.audit_log DROP COLUMN IF EXISTS user_id;
+CREATE INDEX IF NOT EXISTS idx_audit_log_organisation_id_created_at ON public.audit_log(organisation_id, created_at DESC);
+
+-- Members see the organisations they belong to; owners can rename theirs
+CREATE POLICY "Members select own organisations" ON public.organisations FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.user_roles r WHERE r.organisation_id = organisations.id AND r.user_id = auth.uid()));
+CREATE POLICY "Owners update own organisations" ON public.organisations FOR UPDATE TO authenticated
+  USING (id = (SELECT public.current_organisation_id()) AND public.has_role(auth.uid(), 'owner'));
+
+-- Roles are per organisation: members see who else belongs, owners manage them. The old policy
+-- let the owner of any books manage everyone's roles.
+DROP POLICY IF EXISTS "Owners can manage all roles" ON public.user_roles;
+CREATE POLICY "Members view organisation roles" ON public.user_roles FOR SELECT TO authenticated
+  USING (organisation_id = (SELECT public.current_organisation_id()));
+CREATE POLICY "Owners manage organisation roles" ON public.user_roles FOR ALL TO authenticated
+  USING (organisation_id = (SELECT public.current_organisation_id()) AND public.has_role(auth.uid(), 'owner'))
+  WITH CHECK (organisation_id = (SELECT public.current_organisation_id()) AND public.has_role(auth.uid(), 'owner'));
+
+-- Logos and PDFs live under a folder named after the organisation
+ALTER POLICY "Users read own company logos" ON storage.objects
+  USING (bucket_id = 'company-logos' AND (storage.foldername(name))[1] = (SELECT public.current_organisation_id())::text);
+ALTER POLICY "Users upload own company logos" ON storage.objects
+  WITH CHECK (bucket_id = 'company-logos' AND (storage.foldername(name))[1] = (SELECT public.current_organisation_id())::text);
+ALTER POLICY "Users update own company logos" ON storage.objects
+  USING (bucket_id = 'company-logos' AND (storage.foldername(name))[1] = (SELECT public.current_organisation_id())::text);
+ALTER POLICY "Users delete own company logos" ON storage.objects
+  USING (bucket_id = 'company-logos' AND (storage.foldername(name))[1] = (SELECT public.current_organisation_id())::text);
+ALTER POLICY "Users read own invoice PDFs" ON storage.objects
+  USING (bucket_id = 'invoice-pdfs' AND (storage.foldername(name))[1] = (SELECT public.current_organisation_id())::text);
+ALTER POLICY "Users upload own invoice PDFs" ON storage.objects
+  WITH CHECK (bucket_id = 'invoice-pdfs' AND (storage.foldername(name))[1] = (SELECT public.current_organisation_id())::text);
+ALTER POLICY "Users update own invoice PDFs" ON storage.objects
+  USING (bucket_id = 'invoice-pdfs' AND (storage.foldername(name))[1] = (SELECT public.current_organisation_id())::text);
+
+-- 5) Membership functions
+-- Roles now belong to the organisation being worked in
+CREATE OR REPLACE FUNCTION public.has_role(_user_id uuid, _role user_role)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = _user_id
+      AND role = _role
+      AND organisation_id = public.current_organisation_id()
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.switch_organisation(_organisation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_roles WHERE user_id = auth.uid() AND organisation_id = _organisation_id
+  ) THEN
+    RAISE EXCEPTION 'Organisation not found';
+  END IF;
+
+  UPDATE public.profiles SET current_organisation_id = _organisation_id WHERE user_id = auth.uid();
+END;
+$$;
+
+-- A new organisation starts with its creator as owner and becomes the one they are working in
+CREATE OR REPLACE FUNCTION public.create_organisation(_name text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF btrim(COALESCE(_name, '')) = '' THEN
+    RAISE EXCEPTION 'Enter a name for the organisation';
+  END IF;
+
+  INSERT INTO public.organisations (name, created_by)
+  VALUES (btrim(_name), auth.uid())
+  RETURNING id INTO _id;
+
+  INSERT INTO public.user_roles (user_id, organisation_id, role)
+  VALUES (auth.uid(), _id, 'owner');
+
+  UPDATE public.profiles SET current_organisation_id = _id WHERE user_id = auth.uid();
+
+  INSERT INTO public.company_settings (organisation_id, company_name)
+  VALUES (_id, btrim(_name));
+
+  RETURN _id;
+END;
+$$;
+
+-- New users get an organisation of their own for their books
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _organisation_id uuid;
+BEGIN
+  INSERT INTO public.organisations (name, created_by)
+  VALUES (COALESCE(NEW.raw_user_meta_data ->> 'name', NEW.email), NEW.id)
+  RETURNING id INTO _organisation_id;
+
+  INSERT INTO public.profiles (user_id, name, role, current_organisation_id)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data ->> 'name', NEW.email),
+    'accountant',
+    _organisation_id
+  );
+
+  INSERT INTO public.user_roles (user_id, organisation_id, role)
+  VALUES (NEW.id, _organisation_id, 'owner');
+
+  RETURN NEW;
+END;
+$$;
+
+-- 6) Everything that looked records up by user now does so by organisation. Functions called by
+--    the app use the current organisation; triggers, scheduled jobs and the service role use the
+--    organisation of the record they are working on.
+DROP FUNCTION IF EXISTS public.get_account_id(uuid, text);
+DROP FUNCTION IF EXISTS public.next_invoice_number(uuid);
+DROP FUNCTION IF EXISTS public.next_credit_note_number(uuid);
+DROP FUNCTION IF EXISTS public.bank_ledger_account_id(uuid, uuid);
+DROP FUNCTION IF EXISTS public.default_bank_account_id(uuid);
+DROP FUNCTION IF EXISTS public.find_bank_rule(uuid, text, numeric);
+DROP FUNCTION IF EXISTS public.check_lock_date(uuid, date, text, uuid, text, boolean);
+
+CREATE OR REPLACE FUNCTION public.get_account_id(_organisation_id uuid, _account_code text)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT id
+  FROM public.chart_of_accounts
+  WHERE account_code = _account_code
+    AND (organisation_id = _organisation_id OR organisation_id IS NULL)
+  ORDER BY organisation_id NULLS LAST
+  LIMIT 1
+$$;
+
+-- Numbering
+CREATE OR REPLACE FUNCTION public.next_invoice_number(_organisation_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _prefix text;
+  _number integer;
+  _padding integer;
+BEGIN
+  INSERT INTO public.invoice_number_sequences (organisation_id)
+  VALUES (_organisation_id)
+  ON CONFLICT (organisation_id) DO NOTHING;
+
+  UPDATE public.invoice_number_sequences
+  SET next_number = next_number + 1, updated_at = now()
+  WHERE organisation_id = _organisation_id
+  RETURNING prefix, next_number - 1, padding INTO _prefix, _number, _padding;
+
+  RETURN _prefix || lpad(_number::text, GREATEST(_padding, length(_number::text)), '0');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.next_credit_note_number(_organisation_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _prefix text;
+  _number integer;
+  _padding integer;
+BEGIN
+  INSERT INTO public.invoice_number_sequences (organisation_id)
+  VALUES (_organisation_id)
+  ON CONFLICT (organisation_id) DO NOTHING;
+
+  UPDATE public.invoice_number_sequences
+  SET credit_note_next_number = credit_note_next_number + 1, updated_at = now()
+  WHERE organisation_id = _organisation_id
+  RETURNING credit_note_prefix, credit_note_next_number - 1, padding INTO _prefix, _number, _padding;
+
+  RETURN _prefix || lpad(_number::text, GREATEST(_padding, length(_number::text)), '0');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.assign_invoice_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(NEW.invoice_number, '') = '' THEN
+    NEW.invoice_number := public.next_invoice_number(NEW.organisation_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.assign_credit_note_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(NEW.credit_note_number, '') = '' THEN
+    NEW.credit_note_number := public.next_credit_note_number(NEW.organisation_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Posting
+CREATE OR REPLACE FUNCTION public.create_reversal_journal(_journal_id uuid, _date date)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _original public.journals%ROWTYPE;
+  _reversal_id uuid;
+BEGIN
+  SELECT * INTO _original FROM public.journals WHERE id = _journal_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Journal % not found', _journal_id;
+  END IF;
+  IF _original.reverses_journal_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Journal % is itself a reversal', _original.reference;
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.journals WHERE reverses_journal_id = _journal_id) THEN
+    RAISE EXCEPTION 'Journal % has already been reversed', _original.reference;
+  END IF;
+
+  INSERT INTO public.journals (organisation_id, user_id, date, reference, description, source_type, source_id, reverses_journal_id)
+  VALUES (
+    _original.organisation_id,
+    _original.user_id,
+    _date,
+    'REV-' || _original.reference,
+    'Reversal of ' || COALESCE(_original.description, _original.reference),
+    _original.source_type,
+    _original.source_id,
+    _journal_id
+  )
+  RETURNING id INTO _reversal_id;
+
+  INSERT INTO public.journal_lines (journal_id, account_id, description, debit_amount, credit_amount)
+  SELECT _reversal_id, account_id, description, credit_amount, debit_amount
+  FROM public.journal_lines
+  WHERE journal_id = _journal_id;
+
+  RETURN _reversal_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.post_invoice_journal()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _active_journal uuid := public.get_active_posting('invoice', NEW.id);
+  _journal_id uuid;
+BEGIN
+  IF NEW.status IN ('sent', 'paid', 'overdue') AND _active_journal IS NULL THEN
+    INSERT INTO public.journals (organisation_id, user_id, date, reference, description, source_type, source_id)
+    VALUES (NEW.organisation_id, NEW.user_id, NEW.date, NEW.invoice_number, 'Sales invoice ' || NEW.invoice_number, 'invoice', NEW.id)
+    RETURNING id INTO _journal_id;
+
+    PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.organisation_id, '1100'), 'Accounts receivable', NEW.subtotal + NEW.vat_amount);
+    PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.organisation_id, '4000'), 'Sales', -NEW.subtotal);
+    PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.organisation_id, '2100'), 'VAT on sales', -NEW.vat_amount);
+  ELSIF NEW.status = 'cancelled' AND _active_journal IS NOT NULL THEN
+    PERFORM public.create_reversal_journal(_active_journal, CURRENT_DATE);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.post_bill_journal()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _active_journal uuid := public.get_active_posting('bill', NEW.id);
+  _journal_id uuid;
+  _expense record;
+  _net_total numeric := 0;
+BEGIN
+  IF NEW.status IN ('received', 'paid', 'overdue') AND _active_journal IS NULL THEN
+    INSERT INTO public.journals (organisation_id, user_id, date, reference, description, source_type, source_id)
+    VALUES (NEW.organisation_id, NEW.user_id, NEW.date, NEW.bill_number, 'Supplier bill ' || NEW.bill_number, 'bill', NEW.id)
+    RETURNING id INTO _journal_id;
+
+    -- bill_lines.line_total includes VAT, so the net amount is line_total - vat_amount
+    FOR _expense IN
+      SELECT COALESCE(bl.account_id, public.get_account_id(NEW.organisation_id, '5000')) AS account_id,
+             SUM(bl.line_total - bl.vat_amount) AS net_amount
+      FROM public.bill_lines bl
+      WHERE bl.bill_id = NEW.id
+      GROUP BY 1
+    LOOP
+      PERFORM public.add_journal_line(_journal_id, _expense.account_id, 'Purchases', _expense.net_amount);
+      _net_total := _net_total + round(_expense.net_amount, 2);
+    END LOOP;
+
+    -- No lines yet (e.g. inserted straight as received): post the header subtotal to the default expense account
+    IF NOT FOUND THEN
+      PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.organisation_id, '5000'), 'Purchases', NEW.subtotal);
+      _net_total := NEW.subtotal;
+    END IF;
+
+    PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.organisation_id, '1150'), 'VAT on purchases', NEW.vat_amount);
+    PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.organisation_id, '2000'), 'Accounts payable', -(_net_total + NEW.vat_amount));
+  ELSIF NEW.status = 'cancelled' AND _active_journal IS NOT NULL THEN
+    PERFORM public.create_reversal_journal(_active_journal, CURRENT_DATE);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.post_credit_note_journal()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _active_journal uuid := public.get_active_posting('credit_note', NEW.id);
+  _journal_id uuid;
+  _invoice_number text;
+BEGIN
+  IF NEW.status = 'issued' AND _active_journal IS NULL THEN
+    SELECT invoice_number INTO _invoice_number FROM public.invoices WHERE id = NEW.invoice_id;
+
+    INSERT INTO public.journals (organisation_id, user_id, date, reference, description, source_type, source_id)
+    VALUES (NEW.organisation_id, NEW.user_id, NEW.date, NEW.credit_note_number, 'Credit note ' || NEW.credit_note_number || ' against ' || _invoice_number, 'credit_note', NEW.id)
+    RETURNING id INTO _journal_id;
+
+    PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.organisation_id, '4000'), 'Sales', NEW.subtotal);
+    PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.organisation_id, '2100'), 'VAT on sales', NEW.vat_amount);
+    PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.organisation_id, '1100'), 'Accounts receivable', -(NEW.subtotal + NEW.vat_amount));
+  ELSIF NEW.status = 'cancelled' AND _active_journal IS NOT NULL THEN
+    PERFORM public.create_reversal_journal(_active_journal, CURRENT_DATE);
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM public.refresh_payment_status(NEW.invoice_id, NULL);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.post_supplier_credit_note_journal()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _active_journal uuid := public.get_active_posting('supplier_credit_note', NEW.id);
+  _journal_id uuid;
+  _bill_number text;
+  _expense record;
+  _net_total numeric := 0;
+BEGIN
+  IF NEW.status = 'received' AND _active_journal IS NULL THEN
+    SELECT bill_number INTO _bill_number FROM public.bills WHERE id = NEW.bill_id;
+
+    INSERT INTO public.journals (organisation_id, user_id, date, reference, description, source_type, source_id)
+    VALUES (NEW.organisation_id, NEW.user_id, NEW.date, NEW.credit_note_number, 'Supplier credit note ' || NEW.credit_note_number || ' against ' || _bill_number, 'supplier_credit_note', NEW.id)
+    RETURNING id INTO _journal_id;
+
+    -- Line totals include VAT, so the net amount is line_total - vat_amount
+    FOR _expense IN
+      SELECT COALESCE(l.account_id, public.get_account_id(NEW.organisation_id, '5000')) AS account_id,
+             SUM(l.line_total - l.vat_amount) AS net_amount
+      FROM public.supplier_credit_note_lines l
+      WHERE l.supplier_credit_note_id = NEW.id
+      GROUP BY 1
+    LOOP
+      PERFORM public.add_journal_line(_journal_id, _expense.account_id, 'Purchases', -_expense.net_amount);
+      _net_total := _net_total + round(_expense.net_amount, 2);
+    END LOOP;
+
+    IF NOT FOUND THEN
+      PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.organisation_id, '5000'), 'Purchases', -NEW.subtotal);
+      _net_total := NEW.subtotal;
+    END IF;
+
+    PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.organisation_id, '1150'), 'VAT on purchases', -NEW.vat_amount);
+    PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.organisation_id, '2000'), 'Accounts payable', _net_total + NEW.vat_amount);
+  ELSIF NEW.status = 'cancelled' AND _active_journal IS NOT NULL THEN
+    PERFORM public.create_reversal_journal(_active_journal, CURRENT_DATE);
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM public.refresh_payment_status(NULL, NEW.bill_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.post_payment_journal()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _active_journal uuid;
+  _journal_id uuid;
+  _document_number text;
+  _bank_ledger uuid;
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    _active_journal := public.get_active_posting('payment', OLD.id);
+    IF _active_journal IS NOT NULL THEN
+      PERFORM public.create_reversal_journal(_active_journal, CURRENT_DATE);
+    END IF;
+    PERFORM public.refresh_payment_status(OLD.invoice_id, OLD.bill_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    IF NEW.invoice_id IS NOT NULL THEN
+      SELECT invoice_number INTO _document_number FROM public.invoices WHERE id = NEW.invoice_id;
+    ELSE
+      SELECT bill_number INTO _document_number FROM public.bills WHERE id = NEW.bill_id;
+    END IF;
+
+    _bank_ledger := public.bank_ledger_account_id(NEW.organisation_id, NEW.bank_account_id);
+
+    INSERT INTO public.journals (organisation_id, user_id, date, reference, description, source_type, source_id)
+    VALUES (
+      NEW.organisation_id,
+      NEW.user_id,
+      NEW.date,
+      COALESCE(NULLIF(NEW.reference, ''), _document_number),
+      CASE WHEN NEW.invoice_id IS NOT NULL THEN 'Payment received for ' ELSE 'Payment made for ' END || _document_number,
+      'payment',
+      NEW.id
+    )
+    RETURNING id INTO _journal_id;
+
+    IF NEW.invoice_id IS NOT NULL THEN
+      PERFORM public.add_journal_line(_journal_id, _bank_ledger, 'Bank', NEW.amount);
+      PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.organisation_id, '1100'), 'Accounts receivable', -NEW.amount);
+    ELSE
+      PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.organisation_id, '2000'), 'Accounts payable', NEW.amount);
+      PERFORM public.add_journal_line(_journal_id, _bank_ledger, 'Bank', -NEW.amount);
+    END IF;
+
+    PERFORM public.refresh_payment_status(NEW.invoice_id, NEW.bill_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Credit notes only ever credit a document of the same organisation
+CREATE OR REPLACE FUNCTION public.validate_credit_note()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invoice public.invoices%ROWTYPE;
+  _outstanding numeric;
+BEGIN
+  SELECT * INTO _invoice FROM public.invoices WHERE id = NEW.invoice_id;
+
+  IF NOT FOUND OR _invoice.organisation_id IS DISTINCT FROM NEW.organisation_id THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  -- The customer always follows the invoice being credited
+  NEW.customer_id := _invoice.customer_id;
+
+  IF TG_OP = 'INSERT' AND _invoice.status NOT IN ('sent', 'overdue', 'paid') THEN
+    RAISE EXCEPTION 'Credit notes can only be raised against sent invoices';
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.credit_note_number IS DISTINCT FROM OLD.credit_note_number THEN
+      RAISE EXCEPTION 'Credit note numbers cannot be changed once allocated';
+    END IF;
+
+    IF NEW.status IS DISTINCT FROM OLD.status AND NOT (
+      (OLD.status = 'draft' AND NEW.status IN ('issued', 'cancelled')) OR
+      (OLD.status = 'issued' AND NEW.status = 'cancelled')
+    ) THEN
+      RAISE EXCEPTION 'Credit note % cannot move from % to %', OLD.credit_note_number, OLD.status, NEW.status;
+    END IF;
+
+    IF OLD.status <> 'draft' AND (
+      NEW.invoice_id IS DISTINCT FROM OLD.invoice_id OR
+      NEW.date IS DISTINCT FROM OLD.date OR
+      NEW.subtotal IS DISTINCT FROM OLD.subtotal OR
+      NEW.vat_amount IS DISTINCT FROM OLD.vat_amount OR
+      NEW.total IS DISTINCT FROM OLD.total
+    ) THEN
+      RAISE EXCEPTION 'Credit note % has been issued and can no longer be edited', OLD.credit_note_number;
+    END IF;
+  END IF;
+
+  IF NEW.status = 'issued' AND (TG_OP = 'INSERT' OR OLD.status = 'draft') THEN
+    IF NEW.total <= 0 THEN
+      RAISE EXCEPTION 'Credit note total must be greater than zero';
+    END IF;
+
+    IF NEW.date < _invoice.date THEN
+      RAISE EXCEPTION 'A credit note cannot be dated before invoice %', _invoice.invoice_number;
+    END IF;
+
+    _outstanding := _invoice.total - _invoice.amount_paid - _invoice.amount_credited;
+    IF NEW.total > _outstanding THEN
+      RAISE EXCEPTION 'Credit of % exceeds the outstanding balance of % on invoice %', NEW.total, _outstanding, _invoice.invoice_number;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.validate_supplier_credit_note()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _bill public.bills%ROWTYPE;
+  _outstanding numeric;
+BEGIN
+  SELECT * INTO _bill FROM public.bills WHERE id = NEW.bill_id;
+
+  IF NOT FOUND OR _bill.organisation_id IS DISTINCT FROM NEW.organisation_id THEN
+    RAISE EXCEPTION 'Bill not found';
+  END IF;
+
+  NEW.supplier_id := _bill.supplier_id;
+
+  IF btrim(COALESCE(NEW.credit_note_number, '')) = '' THEN
+    RAISE EXCEPTION 'Enter the supplier''s credit note reference';
+  END IF;
+
+  IF TG_OP = 'INSERT' AND _bill.status NOT IN ('received', 'overdue', 'paid') THEN
+    RAISE EXCEPTION 'Supplier credit notes can only be recorded against received bills';
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.status IS DISTINCT FROM OLD.status AND NOT (
+      (OLD.status = 'draft' AND NEW.status IN ('received', 'cancelled')) OR
+      (OLD.status = 'received' AND NEW.status = 'cancelled')
+    ) THEN
+      RAISE EXCEPTION 'Supplier credit note % cannot move from % to %', OLD.credit_note_number, OLD.status, NEW.status;
+    END IF;
+
+    IF OLD.status <> 'draft' AND (
+      NEW.bill_id IS DISTINCT FROM OLD.bill_id OR
+      NEW.credit_note_number IS DISTINCT FROM OLD.credit_note_number OR
+      NEW.date IS DISTINCT FROM OLD.date OR
+      NEW.subtotal IS DISTINCT FROM OLD.subtotal OR
+      NEW.vat_amount IS DISTINCT FROM OLD.vat_amount OR
+      NEW.total IS DISTINCT FROM OLD.total
+    ) THEN
+      RAISE EXCEPTION 'Supplier credit note % has been received and can no longer be edited', OLD.credit_note_number;
+    END IF;
+  END IF;
+
+  IF NEW.status = 'received' AND (TG_OP = 'INSERT' OR OLD.status = 'draft') THEN
+    IF NEW.total <= 0 THEN
+      RAISE EXCEPTION 'Credit note total must be greater than zero';
+    END IF;
+
+    IF NEW.date < _bill.date THEN
+      RAISE EXCEPTION 'A supplier credit note cannot be dated before bill %', _bill.bill_number;
+    END IF;
+
+    _outstanding := _bill.total - _bill.amount_paid - _bill.amount_credited;
+    IF NEW.total > _outstanding THEN
+      RAISE EXCEPTION 'Credit of % exceeds the outstanding balance of % on bill %', NEW.total, _outstanding, _bill.bill_number;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Bank accounts and rules
+CREATE OR REPLACE FUNCTION public.bank_ledger_account_id(_organisation_id uuid, _bank_account_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT ledger_account_id FROM public.bank_accounts WHERE id = _bank_account_id),
+    public.get_account_id(_organisation_id, '1000')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.bank_ledger_balance(_bank_account_id uuid, _as_of date)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(COALESCE(jl.debit_amount, 0) - COALESCE(jl.credit_amount, 0)), 0)
+  FROM public.bank_accounts ba
+  JOIN public.journal_lines jl ON jl.account_id = ba.ledger_account_id
+  JOIN public.journals j ON j.id = jl.journal_id AND j.organisation_id = ba.organisation_id
+  WHERE ba.id = _bank_account_id
+    AND j.date <= _as_of;
+$$;
+
+CREATE OR REPLACE FUNCTION public.bank_account_balances()
+RETURNS TABLE(bank_account_id uuid, statement_balance numeric, reconciled_balance numeric, ledger_balance numeric, unreconciled_count integer, locked_until date)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT ba.id,
+         ba.opening_balance + COALESCE(SUM(bt.amount), 0),
+         ba.opening_balance + COALESCE(SUM(bt.amount) FILTER (WHERE COALESCE(bt.reconciled, false)), 0),
+         public.bank_ledger_balance(ba.id, 'infinity'::date),
+         (count(bt.id) FILTER (WHERE NOT COALESCE(bt.reconciled, false)))::integer,
+         public.bank_account_locked_until(ba.id)
+  FROM public.bank_accounts ba
+  LEFT JOIN public.bank_transactions bt ON bt.bank_account_id = ba.id
+  WHERE ba.organisation_id = public.current_organisation_id()
+  GROUP BY ba.id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.default_bank_account_id(_organisation_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _id uuid;
+BEGIN
+  SELECT id INTO _id
+  FROM public.bank_accounts
+  WHERE organisation_id = _organisation_id
+  ORDER BY active DESC, created_at, id
+  LIMIT 1;
+
+  IF _id IS NULL THEN
+    INSERT INTO public.bank_accounts (organisation_id, name, ledger_account_id, opening_balance_date)
+    VALUES (_organisation_id, 'Current Account', public.get_account_id(_organisation_id, '1000'),
+            COALESCE((SELECT min(date) FROM public.bank_transactions WHERE organisation_id = _organisation_id), CURRENT_DATE))
+    RETURNING id INTO _id;
+  END IF;
+
+  RETURN _id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_bank_transaction_account()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.bank_account_id IS NULL AND NEW.organisation_id IS NOT NULL THEN
+    NEW.bank_account_id := public.default_bank_account_id(NEW.organisation_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.find_bank_rule(_organisation_id uuid, _description text, _amount numeric)
+RETURNS SETOF public.bank_rules
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT r.*
+  FROM public.bank_rules r
+  WHERE r.organisation_id = _organisation_id
+    AND r.active
+    AND (r.direction = 'any' OR (r.direction = 'in' AND _amount > 0) OR (r.direction = 'out' AND _amount < 0))
+    AND (r.min_amount IS NULL OR abs(_amount) >= r.min_amount)
+    AND (r.max_amount IS NULL OR abs(_amount) <= r.max_amount)
+    AND CASE r.match_type
+          WHEN 'regex' THEN _description ~* r.pattern
+          ELSE strpos(lower(_description), lower(r.pattern)) > 0
+        END
+  ORDER BY r.priority, r.created_at
+  LIMIT 1
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_bank_rule_on_insert()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _rule public.bank_rules%ROWTYPE;
+BEGIN
+  IF NEW.account_id IS NULL AND NEW.invoice_id IS NULL AND NEW.bill_id IS NULL THEN
+    SELECT * INTO _rule FROM public.find_bank_rule(NEW.organisation_id, NEW.description, NEW.amount);
+    IF FOUND THEN
+      NEW.account_id := _rule.account_id;
+      NEW.tax_code_id := _rule.tax_code_id;
+      NEW.customer_id := _rule.customer_id;
+      NEW.supplier_id := _rule.supplier_id;
+      NEW.bank_rule_id := _rule.id;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_bank_rules()
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _updated integer;
+BEGIN
+  UPDATE public.bank_transactions bt
+  SET account_id = r.account_id,
+      tax_code_id = r.tax_code_id,
+      customer_id = r.customer_id,
+      supplier_id = r.supplier_id,
+      bank_rule_id = r.id
+  FROM public.bank_transactions t
+  CROSS JOIN LATERAL public.find_bank_rule(t.organisation_id, t.description, t.amount) r
+  WHERE bt.id = t.id
+    AND t.organisation_id = public.current_organisation_id()
+    AND NOT COALESCE(t.reconciled, false)
+    AND t.account_id IS NULL
+    AND t.invoice_id IS NULL
+    AND t.bill_id IS NULL;
+
+  GET DIAGNOSTICS _updated = ROW_COUNT;
+  RETURN _updated;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.post_bank_account_opening_balance()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _active_journal uuid := public.get_active_posting('bank_account', NEW.id);
+  _journal_id uuid;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF public.bank_account_locked_until(NEW.id) IS NOT NULL THEN
+      RAISE EXCEPTION 'The opening balance and ledger account cannot change once the account has been reconciled';
+    END IF;
+    IF _active_journal IS NOT NULL THEN
+      PERFORM public.create_reversal_journal(_active_journal, CURRENT_DATE);
+    END IF;
+  END IF;
+
+  IF NEW.opening_balance <> 0 THEN
+    INSERT INTO public.journals (organisation_id, user_id, date, reference, description, source_type, source_id)
+    VALUES (NEW.organisation_id, NEW.user_id, NEW.opening_balance_date, 'OPENING', 'Opening balance of ' || NEW.name, 'bank_account', NEW.id)
+    RETURNING id INTO _journal_id;
+
+    PERFORM public.add_journal_line(_journal_id, NEW.ledger_account_id, 'Opening balance', NEW.opening_balance);
+    PERFORM public.add_journal_line(_journal_id, public.get_account_id(NEW.organisation_id, '3200'), 'Opening balance', -NEW.opening_balance);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.post_bank_transaction_journal()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _active_journal uuid := public.get_active_posting('bank_transaction', NEW.id);
+  _journal_id uuid;
+  _sign numeric := sign(NEW.amount);
+  _split_total numeric;
+  _split record;
+BEGIN
+  IF COALESCE(NEW.reconciled, false) AND _active_journal IS NULL THEN
+    SELECT COALESCE(SUM(amount), 0) INTO _split_total
+    FROM public.bank_transaction_allocations
+    WHERE bank_transaction_id = NEW.id AND account_id IS NOT NULL;
+
+    IF _split_total > 0 THEN
+      INSERT INTO public.journals (organisation_id, user_id, date, reference, description, source_type, source_id)
+      VALUES (NEW.organisation_id, NEW.user_id, NEW.date, COALESCE(NEW.reference, 'BANK-' || NEW.date), NEW.description, 'bank_transaction', NEW.id)
+      RETURNING id INTO _journal_id;
+
+      PERFORM public.add_journal_line(_journal_id, public.bank_ledger_account_id(NEW.organisation_id, NEW.bank_account_id), 'Bank', _sign * _split_total);
+
+      FOR _split IN
+        SELECT account_id, description, amount, vat_amount
+        FROM public.bank_transaction_allocations
+        WHERE bank_transaction_id = NEW.id AND account_id IS NOT NULL
+        ORDER BY created_at, id
+      LOOP
+        PERFORM public.add_journal_line(_journal_id, _split.account_id, COALESCE(_split.description, NEW.description), -_sign * (_split.amount - _split.vat_amount));
+        PERFORM public.add_journal_line(
+          _journal_id,
+          public.get_account_id(NEW.organisation_id, CASE WHEN NEW.amount > 0 THEN '2100' ELSE '1150' END),
+          CASE WHEN NEW.amount > 0 THEN 'VAT on sales' ELSE 'VAT on purchases' END,
+          -_sign * _split.vat_amount
+        );
+      END LOOP;
+    END IF;
+  ELSIF NOT COALESCE(NEW.reconciled, false) AND _active_journal IS NOT NULL THEN
+    PERFORM public.create_reversal_journal(_active_journal, CURRENT_DATE);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Statements, feeds and reconciliation
+CREATE OR REPLACE FUNCTION public.find_duplicate_bank_transactions(_bank_account_id uuid, _transactions jsonb)
+RETURNS SETOF integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT f.line_number
+  FROM public.bank_statement_fingerprints(_transactions) f
+  JOIN jsonb_array_elements(_transactions) WITH ORDINALITY AS t(item, line_number) ON t.line_number = f.line_number
+  WHERE EXISTS (
+    SELECT 1 FROM public.bank_transactions bt
+    WHERE bt.organisation_id = public.current_organisation_id() AND bt.bank_account_id = _bank_account_id AND bt.fingerprint = f.fingerprint
+  )
+  OR (t.item->>'date')::date <= public.bank_account_locked_until(_bank_account_id)
+  ORDER BY f.line_number;
+$$;
+
+CREATE OR REPLACE FUNCTION public.import_bank_statement(_bank_account_id uuid, _file_name text, _file_hash text, _format text, _transactions jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _organisation_id uuid := public.current_organisation_id();
+  _batch_id uuid;
+  _imported_at timestamptz;
+  _locked date;
+  _total integer := COALESCE(jsonb_array_length(_transactions), 0);
+  _inserted integer;
+BEGIN
+  IF _total = 0 THEN
+    RAISE EXCEPTION 'The statement has no transactions to import';
+  END IF;
+
+  PERFORM 1 FROM public.bank_accounts WHERE id = _bank_account_id AND organisation_id = _organisation_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bank account not found';
+  END IF;
+
+  SELECT created_at INTO _imported_at
+  FROM public.bank_import_batches
+  WHERE organisation_id = _organisation_id AND file_hash = _file_hash AND status = 'imported';
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'This file was already imported on %', to_char(_imported_at, 'DD/MM/YYYY');
+  END IF;
+
+  _locked := public.bank_account_locked_until(_bank_account_id);
+
+  INSERT INTO public.bank_import_batches (organisation_id, user_id, bank_account_id, file_name, file_hash, format)
+  VALUES (_organisation_id, auth.uid(), _bank_account_id, _file_name, _file_hash, _format)
+  RETURNING id INTO _batch_id;
+
+  INSERT INTO public.bank_transactions (organisation_id, user_id, bank_account_id, date, description, amount, reference, balance, fingerprint, import_batch_id)
+  SELECT _organisation_id,
+         auth.uid(),
+         _bank_account_id,
+         (t.item->>'date')::date,
+         t.item->>'description',
+         (t.item->>'amount')::numeric,
+         NULLIF(t.item->>'reference', ''),
+         (t.item->>'balance')::numeric,
+         f.fingerprint,
+         _batch_id
+  FROM jsonb_array_elements(_transactions) WITH ORDINALITY AS t(item, line_number)
+  JOIN public.bank_statement_fingerprints(_transactions) f ON f.line_number = t.line_number
+  WHERE _locked IS NULL OR (t.item->>'date')::date > _locked
+  ORDER BY t.line_number
+  ON CONFLICT (bank_account_id, fingerprint) DO NOTHING;
+
+  GET DIAGNOSTICS _inserted = ROW_COUNT;
+
+  UPDATE public.bank_import_batches
+  SET transaction_count = _inserted, duplicate_count = _total - _inserted
+  WHERE id = _batch_id;
+
+  RETURN _batch_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.ingest_bank_feed_transactions(_feed_account_id uuid, _transactions jsonb, _cursor text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _feed public.bank_feed_accounts%ROWTYPE;
+  _locked date;
+  _inserted integer := 0;
+BEGIN
+  SELECT * INTO _feed
+  FROM public.bank_feed_accounts
+  WHERE id = _feed_account_id
+    -- Scheduled syncs run as the service role, without a user
+    AND (auth.uid() IS NULL OR organisation_id = public.current_organisation_id())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bank feed account not found';
+  END IF;
+
+  IF _feed.bank_account_id IS NULL THEN
+    RAISE EXCEPTION 'Link the feed account to a bank account before syncing it';
+  END IF;
+
+  _locked := public.bank_account_locked_until(_feed.bank_account_id);
+
+  IF COALESCE(jsonb_array_length(_transactions), 0) > 0 THEN
+    INSERT INTO public.bank_transactions (
+      organisation_id, user_id, bank_account_id, feed_account_id, external_id, date, description, amount, reference, balance, fingerprint
+    )
+    SELECT _feed.organisation_id,
+           _feed.user_id,
+           _feed.bank_account_id,
+           _feed.id,
+           t.item->>'id',
+           (t.item->>'date')::date,
+           t.item->>'description',
+           (t.item->>'amount')::numeric,
+           NULLIF(t.item->>'reference', ''),
+           (t.item->>'balance')::numeric,
+           f.fingerprint
+    FROM jsonb_array_elements(_transactions) WITH ORDINALITY AS t(item, line_number)
+    JOIN public.bank_statement_fingerprints(_transactions) f ON f.line_number = t.line_number
+    WHERE (_locked IS NULL OR (t.item->>'date')::date > _locked)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.bank_transactions bt
+        WHERE bt.bank_account_id = _feed.bank_account_id AND bt.external_id = t.item->>'id'
+      )
+    ORDER BY t.line_number
+    ON CONFLICT (bank_account_id, fingerprint) DO NOTHING;
+
+    GET DIAGNOSTICS _inserted = ROW_COUNT;
+  END IF;
+
+  UPDATE public.bank_feed_accounts
+  SET sync_cursor = _cursor, last_synced_at = now()
+  WHERE id = _feed.id;
+
+  RETURN _inserted;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.validate_bank_feed_account()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.bank_account_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.bank_accounts WHERE id = NEW.bank_account_id AND organisation_id = NEW.organisation_id
+  ) THEN
+    RAISE EXCEPTION 'Bank account not found';
+  END IF;
+
+  -- Relinking starts the new account's sync from the beginning of the feed
+  IF TG_OP = 'UPDATE' AND NEW.bank_account_id IS DISTINCT FROM OLD.bank_account_id THEN
+    NEW.sync_cursor := NULL;
+    NEW.last_synced_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reconcile_bank_transaction(_transaction_id uuid, _allocations jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _transaction public.bank_transactions%ROWTYPE;
+  _allocation jsonb;
+  _amount numeric;
+  _total numeric := 0;
+  _payment_id uuid;
+BEGIN
+  SELECT * INTO _transaction
+  FROM public.bank_transactions
+  WHERE id = _transaction_id AND organisation_id = public.current_organisation_id()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bank transaction not found';
+  END IF;
+
+  IF COALESCE(_transaction.reconciled, false) THEN
+    RAISE EXCEPTION 'This transaction is already reconciled';
+  END IF;
+
+  IF jsonb_typeof(_allocations) <> 'array' OR jsonb_array_length(_allocations) = 0 THEN
+    RAISE EXCEPTION 'Allocate the transaction to at least one invoice, bill or account';
+  END IF;
+
+  FOR _allocation IN SELECT * FROM jsonb_array_elements(_allocations)
+  LOOP
+    _amount := round((_allocation->>'amount')::numeric, 2);
+
+    IF _amount IS NULL OR _amount <= 0 THEN
+      RAISE EXCEPTION 'Each allocation needs an amount greater than zero';
+    END IF;
+
+    IF _allocation ? 'invoice_id' AND _transaction.amount < 0 THEN
+      RAISE EXCEPTION 'Money paid out cannot settle an invoice';
+    END IF;
+
+    IF _allocation ? 'bill_id' AND _transaction.amount > 0 THEN
+      RAISE EXCEPTION 'Money received cannot settle a bill';
+    END IF;
+
+    _payment_id := NULL;
+    IF _allocation ? 'invoice_id' OR _allocation ? 'bill_id' THEN
+      -- validate_payment rejects documents that are not open and amounts over the outstanding balance
+      INSERT INTO public.payments (invoice_id, bill_id, bank_account_id, amount, date, reference, method)
+      VALUES (
+        (_allocation->>'invoice_id')::uuid,
+        (_allocation->>'bill_id')::uuid,
+        _transaction.bank_account_id,
+        _amount,
+        _transaction.date,
+        NULLIF(_transaction.reference, ''),
+        'bank_transfer'
+      )
+      RETURNING id INTO _payment_id;
+    END IF;
+
+    INSERT INTO public.bank_transaction_allocations (
+      bank_transaction_id, invoice_id, bill_id, account_id, tax_code_id, payment_id, description, amount
+    )
+    VALUES (
+      _transaction.id,
+      (_allocation->>'invoice_id')::uuid,
+      (_allocation->>'bill_id')::uuid,
+      (_allocation->>'account_id')::uuid,
+      (_allocation->>'tax_code_id')::uuid,
+      _payment_id,
+      NULLIF(_allocation->>'description', ''),
+      _amount
+    );
+
+    _total := _total + _amount;
+  END LOOP;
+
+  IF _total <> abs(_transaction.amount) THEN
+    RAISE EXCEPTION 'Allocations add up to % but the transaction is %', _total, abs(_transaction.amount);
+  END IF;
+
+  UPDATE public.bank_transactions SET reconciled = true WHERE id = _transaction.id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.unreconcile_bank_transaction(_transaction_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _payment_ids uuid[];
+BEGIN
+  PERFORM 1
+  FROM public.bank_transactions
+  WHERE id = _transaction_id AND organisation_id = public.current_organisation_id() AND COALESCE(reconciled, false)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This transaction is not reconciled';
+  END IF;
+
+  UPDATE public.bank_transactions
+  SET reconciled = false, invoice_id = NULL, bill_id = NULL
+  WHERE id = _transaction_id;
+
+  SELECT array_agg(payment_id) INTO _payment_ids
+  FROM public.bank_transaction_allocations
+  WHERE bank_transaction_id = _transaction_id AND payment_id IS NOT NULL;
+
+  DELETE FROM public.bank_transaction_allocations WHERE bank_transaction_id = _transaction_id;
+  DELETE FROM public.payments WHERE id = ANY(COALESCE(_payment_ids, '{}'));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.complete_bank_reconciliation(_bank_account_id uuid, _statement_date date, _statement_balance numeric)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _account public.bank_accounts%ROWTYPE;
+  _locked date;
+  _unreconciled integer;
+  _ledger numeric;
+  _id uuid;
+BEGIN
+  SELECT * INTO _account FROM public.bank_accounts WHERE id = _bank_account_id AND organisation_id = public.current_organisation_id();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bank account not found';
+  END IF;
+
+  _locked := public.bank_account_locked_until(_bank_account_id);
+  IF _statement_date <= _locked THEN
+    RAISE EXCEPTION 'This account is already reconciled to %', to_char(_locked, 'DD/MM/YYYY');
+  END IF;
+
+  IF _statement_date < _account.opening_balance_date THEN
+    RAISE EXCEPTION 'The statement date is before the account''s opening balance date';
+  END IF;
+
+  SELECT count(*) INTO _unreconciled
+  FROM public.bank_transactions
+  WHERE bank_account_id = _bank_account_id
+    AND date <= _statement_date
+    AND NOT COALESCE(reconciled, false);
+
+  IF _unreconciled > 0 THEN
+    RAISE EXCEPTION '% transactions up to % are not reconciled yet', _unreconciled, to_char(_statement_date, 'DD/MM/YYYY');
+  END IF;
+
+  _ledger := public.bank_ledger_balance(_bank_account_id, _statement_date);
+  IF _ledger <> round(_statement_balance, 2) THEN
+    RAISE EXCEPTION 'The statement balance of % does not match the ledger balance of %', round(_statement_balance, 2), _ledger;
+  END IF;
+
+  INSERT INTO public.bank_reconciliations (bank_account_id, statement_date, statement_balance)
+  VALUES (_bank_account_id, _statement_date, round(_statement_balance, 2))
+  RETURNING id INTO _id;
+
+  RETURN _id;
+END;
+$$;
+
+-- Lock dates. Overriding them is now for the organisation's owners only.
+CREATE OR REPLACE FUNCTION public.check_lock_date(_organisation_id uuid, _date date, _table_name text, _record_id uuid, _operation text, _include_vat boolean DEFAULT true)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings record;
+  _lock date;
+  _override_id uuid;
+BEGIN
+  IF _date IS NULL OR _organisation_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT lock_date, vat_lock_date INTO _settings FROM public.company_settings WHERE organisation_id = _organisation_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  _lock := CASE WHEN _include_vat THEN GREATEST(_settings.lock_date, _settings.vat_lock_date) ELSE _settings.lock_date END;
+
+  IF _date > COALESCE(_lock, '-infinity'::date) THEN
+    RETURN;
+  END IF;
+
+  SELECT id INTO _override_id
+  FROM public.lock_date_overrides
+  WHERE organisation_id = _organisation_id AND ended_at IS NULL AND expires_at > now()
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF _override_id IS NOT NULL THEN
+    INSERT INTO public.lock_date_override_changes (organisation_id, user_id, override_id, table_name, record_id, operation, record_date)
+    VALUES (_organisation_id, auth.uid(), _override_id, _table_name, _record_id, _operation, _date);
+    RETURN;
+  END IF;
+
+  IF _include_vat AND _date <= _settings.vat_lock_date THEN
+    RAISE EXCEPTION 'The period to % is covered by a submitted VAT return and is locked', to_char(_settings.vat_lock_date, 'DD/MM/YYYY');
+  END IF;
+
+  RAISE EXCEPTION 'The books are locked to %; nothing dated on or before it can change', to_char(_settings.lock_date, 'DD/MM/YYYY');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_document_lock_date()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _old jsonb := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  _new jsonb := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  _party text := CASE WHEN TG_TABLE_NAME = 'invoices' THEN 'customer_id' ELSE 'supplier_id' END;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF _old->>'status' = 'draft' AND _new->>'status' = 'draft' THEN
+      RETURN NEW;
+    END IF;
+
+    IF _old->'date' = _new->'date' AND _old->_party = _new->_party
+       AND _old->'subtotal' = _new->'subtotal' AND _old->'vat_amount' = _new->'vat_amount'
+       AND _old->'total' = _new->'total'
+       AND (_old->>'status' = 'draft') = (_new->>'status' = 'draft') THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') AND _old->>'status' <> 'draft' THEN
+    PERFORM public.check_lock_date((_old->>'organisation_id')::uuid, (_old->>'date')::date, TG_TABLE_NAME, (_old->>'id')::uuid, TG_OP);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND _new->>'status' <> 'draft' THEN
+    PERFORM public.check_lock_date((_new->>'organisation_id')::uuid, (_new->>'date')::date, TG_TABLE_NAME, (_new->>'id')::uuid, TG_OP);
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_bank_transaction_lock_date()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.date IS NOT DISTINCT FROM OLD.date
+     AND NEW.amount IS NOT DISTINCT FROM OLD.amount
+     AND NEW.reconciled IS NOT DISTINCT FROM OLD.reconciled
+     AND NEW.bank_account_id IS NOT DISTINCT FROM OLD.bank_account_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.check_lock_date(OLD.organisation_id, OLD.date, 'bank_transactions', OLD.id, TG_OP);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM public.check_lock_date(NEW.organisation_id, NEW.date, 'bank_transactions', NEW.id, TG_OP);
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_year_end_close_journal(_journal public.journals)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT _journal.source_type = 'year_end_close' AND EXISTS (
+    SELECT 1
+    FROM public.year_end_closes c
+    WHERE c.id = _journal.source_id
+      AND c.organisation_id = _journal.organisation_id
+      AND c.year_end = _journal.date
+      AND (c.created_at = now() OR c.reopened_at = now())
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_journal_lock_date()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.date IS NOT DISTINCT FROM OLD.date AND NEW.organisation_id IS NOT DISTINCT FROM OLD.organisation_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.check_lock_date(OLD.organisation_id, OLD.date, 'journals', OLD.id, TG_OP);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM public.check_lock_date(NEW.organisation_id, NEW.date, 'journals', NEW.id, TG_OP,
+      TG_OP = 'UPDATE' OR NOT public.is_year_end_close_journal(NEW));
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_journal_line_lock_date()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _journal record;
+BEGIN
+  SELECT id, organisation_id, date, created_at INTO _journal
+  FROM public.journals
+  WHERE id = COALESCE(NEW.journal_id, OLD.journal_id);
+
+  IF FOUND AND _journal.created_at < now() THEN
+    PERFORM public.check_lock_date(_journal.organisation_id, _journal.date, 'journal_lines', COALESCE(NEW.id, OLD.id), TG_OP);
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_vat_lock_date()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _period_end date;
+BEGIN
+  SELECT end_date INTO _period_end
+  FROM public.vat_obligations
+  WHERE id = NEW.obligation_id
+     OR (NEW.obligation_id IS NULL AND organisation_id = NEW.organisation_id AND period_key = NEW.period_key)
+  ORDER BY end_date DESC
+  LIMIT 1;
+
+  IF _period_end IS NOT NULL THEN
+    INSERT INTO public.company_settings (organisation_id, vat_lock_date)
+    VALUES (NEW.organisation_id, _period_end)
+    ON CONFLICT (organisation_id) DO UPDATE
+    SET vat_lock_date = GREATEST(public.company_settings.vat_lock_date, EXCLUDED.vat_lock_date);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.begin_lock_override(_reason text, _minutes integer DEFAULT 15)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _organisation_id uuid := public.current_organisation_id();
+  _id uuid;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'owner') THEN
+    RAISE EXCEPTION 'Only the owner can override lock dates';
+  END IF;
+
+  IF _minutes IS NULL OR _minutes < 1 OR _minutes > 60 THEN
+    RAISE EXCEPTION 'An override lasts between 1 and 60 minutes';
+  END IF;
+
+  UPDATE public.lock_date_overrides
+  SET ended_at = now()
+  WHERE organisation_id = _organisation_id AND ended_at IS NULL AND expires_at > now();
+
+  INSERT INTO public.lock_date_overrides (organisation_id, user_id, reason, expires_at, created_by)
+  VALUES (_organisation_id, auth.uid(), trim(_reason), now() + make_interval(mins => _minutes), auth.uid())
+  RETURNING id INTO _id;
+
+  RETURN _id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.end_lock_override()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.lock_date_overrides
+  SET ended_at = now()
+  WHERE organisation_id = public.current_organisation_id() AND ended_at IS NULL AND expires_at > now();
+$$;
+
+-- Year-end close
+CREATE OR REPLACE FUNCTION public.close_financial_year(_year_end date)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _organisation_id uuid := public.current_organisation_id();
+  _last_close date;
+  _close_id uuid;
+  _journal_id uuid;
+  _net_profit numeric := 0;
+  _balance record;
+BEGIN
+  IF _organisation_id IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF _year_end IS NULL OR _year_end > CURRENT_DATE THEN
+    RAISE EXCEPTION 'A financial year can only be closed once it has ended';
+  END IF;
+
+  SELECT max(year_end) INTO _last_close
+  FROM public.year_end_closes
+  WHERE organisation_id = _organisation_id AND reopened_at IS NULL;
+
+  IF _year_end <= _last_close THEN
+    RAISE EXCEPTION 'The year to % is already closed', to_char(_last_close, 'DD/MM/YYYY');
+  END IF;
+
+  INSERT INTO public.year_end_closes (organisation_id, user_id, year_end, created_by)
+  VALUES (_organisation_id, auth.uid(), _year_end, auth.uid())
+  RETURNING id INTO _close_id;
+
+  FOR _balance IN
+    SELECT a.id AS account_id, a.account_name, SUM(COALESCE(l.debit_amount, 0) - COALESCE(l.credit_amount, 0)) AS amount
+    FROM public.journal_lines l
+    JOIN public.journals j ON j.id = l.journal_id
+    JOIN public.chart_of_accounts a ON a.id = l.account_id
+    WHERE j.organisation_id = _organisation_id
+      AND j.date <= _year_end
+      AND a.account_type IN ('income', 'expense')
+    GROUP BY a.id, a.account_name, a.account_code
+    HAVING SUM(COALESCE(l.debit_amount, 0) - COALESCE(l.credit_amount, 0)) <> 0
+    ORDER BY a.account_code
+  LOOP
+    IF _journal_id IS NULL THEN
+      INSERT INTO public.journals (organisation_id, user_id, date, reference, description, source_type, source_id)
+      VALUES (_organisation_id, auth.uid(), _year_end, 'YE-' || to_char(_year_end, 'YYYY-MM-DD'),
+              'Year-end close to ' || to_char(_year_end, 'DD/MM/YYYY'), 'year_end_close', _close_id)
+      RETURNING id INTO _journal_id;
+    END IF;
+
+    PERFORM public.add_journal_line(_journal_id, _balance.account_id, 'Close ' || _balance.account_name, -_balance.amount);
+    _net_profit := _net_profit - _balance.amount;
+  END LOOP;
+
+  IF _journal_id IS NOT NULL THEN
+    PERFORM public.add_journal_line(_journal_id, public.get_account_id(_organisation_id, '3100'), 'Retained earnings', -_net_profit);
+  END IF;
+
+  UPDATE public.year_end_closes
+  SET journal_id = _journal_id, net_profit = _net_profit
+  WHERE id = _close_id;
+
+  RETURN _close_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reopen_financial_year(_close_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _close public.year_end_closes%ROWTYPE;
+BEGIN
+  SELECT * INTO _close
+  FROM public.year_end_closes
+  WHERE id = _close_id AND organisation_id = public.current_organisation_id() AND reopened_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Year-end close not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.year_end_closes
+    WHERE organisation_id = _close.organisation_id AND reopened_at IS NULL AND year_end > _close.year_end
+  ) THEN
+    RAISE EXCEPTION 'Reopen the later years first';
+  END IF;
+
+  UPDATE public.year_end_closes SET reopened_at = now() WHERE id = _close_id;
+
+  IF _close.journal_id IS NOT NULL THEN
+    PERFORM public.create_reversal_journal(_close.journal_id, _close.year_end);
+  END IF;
+END;
+$$;
+
+-- Recurring documents are raised in the template's organisation
+CREATE OR REPLACE FUNCTION public.generate_recurring_documents(_as_of date DEFAULT CURRENT_DATE)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _template record;
+  _period date;
+  _document_id uuid;
+  _template_created integer;
+  _created integer := 0;
+BEGIN
+  FOR _template IN
+    SELECT * FROM public.recurring_invoices
+    WHERE active
+      AND next_run_date <= _as_of
+      AND (end_date IS NULL OR next_run_date <= end_date)
+      AND (auth.uid() IS NULL OR organisation_id = public.current_organisation_id())
+    ORDER BY next_run_date
+  LOOP
+    BEGIN
+      IF NOT EXISTS (SELECT 1 FROM public.recurring_invoice_lines WHERE recurring_invoice_id = _template.id) THEN
+        RAISE EXCEPTION 'Template has no lines';
+      END IF;
+
+      _template_created := 0;
+      _period := _template.next_run_date;
+
+      WHILE _period <= _as_of AND (_template.end_date IS NULL OR _period <= _template.end_date) LOOP
+        IF NOT EXISTS (SELECT 1 FROM public.invoices WHERE recurring_invoice_id = _template.id AND recurring_period = _period) THEN
+          INSERT INTO public.invoices (organisation_id, user_id, customer_id, date, due_date, subtotal, vat_amount, total, status, recurring_invoice_id, recurring_period)
+          SELECT _template.organisation_id, _template.user_id, _template.customer_id, _period, _period + _template.due_days,
+                 SUM(line_total), SUM(vat_amount), SUM(line_total + vat_amount), 'draft', _template.id, _period
+          FROM public.recurring_invoice_lines
+          WHERE recurring_invoice_id = _template.id
+          RETURNING id INTO _document_id;
+
+          INSERT INTO public.invoice_lines (invoice_id, description, quantity, unit_price, tax_code_id, line_total, vat_amount)
+          SELECT _document_id, description, quantity, unit_price, tax_code_id, line_total, vat_amount
+          FROM public.recurring_invoice_lines
+          WHERE recurring_invoice_id = _template.id
+          ORDER BY created_at;
+
+          -- Issuing posts the invoice to the ledger once its lines are in place
+          IF _template.auto_send THEN
+            UPDATE public.invoices SET status = 'sent' WHERE id = _document_id;
+          END IF;
+
+          _template_created := _template_created + 1;
+        END IF;
+
+        _period := public.recurring_next_date(_template.start_date, _template.frequency, _period);
+      END LOOP;
+
+      UPDATE public.recurring_invoices
+      SET next_run_date = _period, last_run_at = now(), last_error = NULL
+      WHERE id = _template.id;
+
+      _created := _created + _template_created;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE public.recurring_invoices
+      SET last_run_at = now(), last_error = SQLERRM
+      WHERE id = _template.id;
+    END;
+  END LOOP;
+
+  FOR _template IN
+    SELECT * FROM public.recurring_bills
+    WHERE active
+      AND next_run_date <= _as_of
+      AND (end_date IS NULL OR next_run_date <= end_date)
+      AND (auth.uid() IS NULL OR organisation_id = public.current_organisation_id())
+    ORDER BY next_run_date
+  LOOP
+    BEGIN
+      IF NOT EXISTS (SELECT 1 FROM public.recurring_bill_lines WHERE recurring_bill_id = _template.id) THEN
+        RAISE EXCEPTION 'Template has no lines';
+      END IF;
+
+      _template_created := 0;
+      _period := _template.next_run_date;
+
+      WHILE _period <= _as_of AND (_template.end_date IS NULL OR _period <= _template.end_date) LOOP
+        IF NOT EXISTS (SELECT 1 FROM public.bills WHERE recurring_bill_id = _template.id AND recurring_period = _period) THEN
+          INSERT INTO public.bills (organisation_id, user_id, supplier_id, bill_number, date, due_date, subtotal, vat_amount, total, status, recurring_bill_id, recurring_period)
+          SELECT _template.organisation_id, _template.user_id, _template.supplier_id, _template.bill_reference || '-' || to_char(_period, 'YYYY-MM-DD'),
+                 _period, _period + _template.due_days,
+                 SUM(line_total - vat_amount), SUM(vat_amount), SUM(line_total), 'draft', _template.id, _period
+          FROM public.recurring_bill_lines
+          WHERE recurring_bill_id = _template.id
+          RETURNING id INTO _document_id;
+
+          INSERT INTO public.bill_lines (bill_id, description, quantity, unit_price, tax_code_id, account_id, line_total, vat_amount)
+          SELECT _document_id, description, quantity, unit_price, tax_code_id, account_id, line_total, vat_amount
+          FROM public.recurring_bill_lines
+          WHERE recurring_bill_id = _template.id
+          ORDER BY created_at;
+
+          IF _template.auto_receive THEN
+            UPDATE public.bills SET status = 'received' WHERE id = _document_id;
+          END IF;
+
+          _template_created := _template_created + 1;
+        END IF;
+
+        _period := public.recurring_next_date(_template.start_date, _template.frequency, _period);
+      END LOOP;
+
+      UPDATE public.recurring_bills
+      SET next_run_date = _period, last_run_at = now(), last_error = NULL
+      WHERE id = _template.id;
+
+      _created := _created + _template_created;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE public.recurring_bills
+      SET last_run_at = now(), last_error = SQLERRM
+      WHERE id = _template.id;
+    END;
+  END LOOP;
+
+  RETURN _created;
+END;
+$$;
+
+-- The audit log is filed under the record's organisation. Tables without one (document lines)
+-- pass their parent table and foreign key.
+CREATE OR REPLACE FUNCTION public.audit_record_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old jsonb := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  _new jsonb := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  _row jsonb := COALESCE(_new, _old);
+  _organisation_id uuid := (_row->>'organisation_id')::uuid;
+BEGIN
+  -- Saving a form without changing anything only bumps updated_at
+  IF TG_OP = 'UPDATE' AND (_old - 'updated_at') = (_new - 'updated_at') THEN
+    RETURN NULL;
+  END IF;
+
+  IF _organisation_id IS NULL AND TG_NARGS = 2 THEN
+    EXECUTE format('SELECT organisation_id FROM public.%I WHERE id = $1', TG_ARGV[0])
+    INTO _organisation_id
+    USING (_row->>TG_ARGV[1])::uuid;
+  END IF;
+
+  -- Only shared chart of accounts rows changed outside the app have no organisation to file under
+  _organisation_id := COALESCE(_organisation_id, public.current_organisation_id());
+  IF _organisation_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- clock_timestamp keeps the order of changes made within one transaction
+  INSERT INTO public.audit_log (organisation_id, actor_id, actor_email, table_name, record_id, operation, old_data, new_data, created_at)
+  VALUES (
+    _organisation_id,
+    auth.uid(),
+    (SELECT email FROM auth.users WHERE id = auth.uid()),
+    TG_TABLE_NAME,
+    COALESCE(_row->>'id', _row->>'organisation_id')::uuid,
+    TG_OP,
+    _old,
+    _new,
+    clock_timestamp()
+  );
+
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,5 @@
+-- New team roles. Postgres only lets a new enum value be used once the transaction that added it
+-- has committed, so the permissions that use them follow in the next migration.
+ALTER TYPE public.user_role ADD VALUE IF NOT EXISTS 'bookkeeper';
+ALTER TYPE public.user_role ADD VALUE IF NOT EXISTS 'approver';
+ALTER TYPE public.user_role ADD VALUE IF NOT EXISTS 'read_only';
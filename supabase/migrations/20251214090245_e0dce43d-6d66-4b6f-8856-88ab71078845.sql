@@ -0,0 +1,674 @@
+-- Team roles: a fixed matrix of what each role may change, enforced by restrictive RLS policies on
+-- top of the organisation policies, plus email invitations to join an organisation.
+
+-- 1) The permission matrix. Every member can read the books; a permission grants changing one area.
+CREATE TABLE IF NOT EXISTS public.role_permissions (
+  role public.user_role NOT NULL,
+  permission text NOT NULL,
+  PRIMARY KEY (role, permission)
+);
+
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Role permissions readable to authenticated" ON public.role_permissions FOR SELECT TO authenticated USING (true);
+
+INSERT INTO public.role_permissions (role, permission)
+SELECT 'owner'::public.user_role, permission
+FROM unnest(ARRAY['sales.manage', 'purchases.manage', 'banking.manage', 'journals.manage', 'accounts.manage',
+                  'vat.manage', 'settings.manage', 'lock_dates.override', 'members.manage']) AS permission
+UNION ALL
+SELECT 'accountant', permission
+FROM unnest(ARRAY['sales.manage', 'purchases.manage', 'banking.manage', 'journals.manage', 'accounts.manage',
+                  'vat.manage', 'settings.manage']) AS permission
+UNION ALL
+SELECT 'bookkeeper', permission
+FROM unnest(ARRAY['sales.manage', 'purchases.manage', 'banking.manage']) AS permission
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.has_permission(_permission text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles r
+    JOIN public.role_permissions p ON p.role = r.role
+    WHERE r.user_id = auth.uid()
+      AND r.organisation_id = public.current_organisation_id()
+      AND p.permission = _permission
+  )
+$$;
+
+-- For functions that bypass RLS
+CREATE OR REPLACE FUNCTION public.require_permission(_permission text)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission(_permission) THEN
+    RAISE EXCEPTION 'Your role in this organisation does not allow this';
+  END IF;
+END;
+$$;
+
+-- 2) Writes need the permission for the table's area. Restrictive policies are ANDed with the
+--    existing ones, so the organisation scoping is untouched. Posting triggers and scheduled jobs
+--    run as the table owner and are not affected.
+DO $$
+DECLARE
+  _area record;
+  _table text;
+  _command text;
+BEGIN
+  FOR _area IN
+    SELECT * FROM (VALUES
+      ('sales.manage', ARRAY['customers', 'invoices', 'invoice_lines', 'credit_notes', 'credit_note_lines',
+                             'recurring_invoices', 'recurring_invoice_lines', 'invoice_number_sequences', 'document_sends']),
+      ('purchases.manage', ARRAY['suppliers', 'bills', 'bill_lines', 'supplier_credit_notes', 'supplier_credit_note_lines',
+                                 'recurring_bills', 'recurring_bill_lines']),
+      ('banking.manage', ARRAY['bank_accounts', 'bank_transactions', 'bank_transaction_allocations', 'bank_reconciliations',
+                               'bank_rules', 'bank_import_batches', 'bank_import_mappings', 'bank_feed_connections',
+                               'bank_feed_accounts']),
+      ('journals.manage', ARRAY['journals', 'journal_lines']),
+      ('accounts.manage', ARRAY['chart_of_accounts']),
+      ('vat.manage', ARRAY['vat_returns', 'vat_obligations', 'hmrc_oauth_tokens']),
+      ('settings.manage', ARRAY['company_settings'])
+    ) AS a(permission, tables)
+  LOOP
+    FOREACH _table IN ARRAY _area.tables LOOP
+      FOREACH _command IN ARRAY ARRAY['INSERT', 'UPDATE', 'DELETE'] LOOP
+        EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Require ' || _area.permission || ' to ' || lower(_command), _table);
+        EXECUTE format(
+          'CREATE POLICY %I ON public.%I AS RESTRICTIVE FOR %s TO authenticated %s (public.has_permission(%L))',
+          'Require ' || _area.permission || ' to ' || lower(_command), _table, _command,
+          CASE _command WHEN 'INSERT' THEN 'WITH CHECK' ELSE 'USING' END, _area.permission
+        );
+      END LOOP;
+    END LOOP;
+  END LOOP;
+END $$;
+
+-- A payment belongs to whichever side of the books it settles
+CREATE OR REPLACE FUNCTION public.can_manage_payment(_bill_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT public.has_permission(CASE WHEN _bill_id IS NULL THEN 'sales.manage' ELSE 'purchases.manage' END)
+$$;
+
+CREATE POLICY "Require payment permission to insert" ON public.payments AS RESTRICTIVE FOR INSERT TO authenticated
+  WITH CHECK (public.can_manage_payment(bill_id));
+CREATE POLICY "Require payment permission to update" ON public.payments AS RESTRICTIVE FOR UPDATE TO authenticated
+  USING (public.can_manage_payment(bill_id)) WITH CHECK (public.can_manage_payment(bill_id));
+CREATE POLICY "Require payment permission to delete" ON public.payments AS RESTRICTIVE FOR DELETE TO authenticated
+  USING (public.can_manage_payment(bill_id));
+
+-- HMRC tokens can file VAT returns, so only those who may file can read them
+CREATE POLICY "Require vat.manage to select" ON public.hmrc_oauth_tokens AS RESTRICTIVE FOR SELECT TO authenticated
+  USING (public.has_permission('vat.manage'));
+
+-- Stored files follow the area they belong to
+CREATE OR REPLACE FUNCTION public.can_write_storage_object(_bucket_id text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE _bucket_id
+    WHEN 'company-logos' THEN public.has_permission('settings.manage')
+    WHEN 'invoice-pdfs' THEN public.has_permission('sales.manage')
+    ELSE true
+  END
+$$;
+
+CREATE POLICY "Require permission to upload files" ON storage.objects AS RESTRICTIVE FOR INSERT TO authenticated
+  WITH CHECK (public.can_write_storage_object(bucket_id));
+CREATE POLICY "Require permission to update files" ON storage.objects AS RESTRICTIVE FOR UPDATE TO authenticated
+  USING (public.can_write_storage_object(bucket_id));
+CREATE POLICY "Require permission to delete files" ON storage.objects AS RESTRICTIVE FOR DELETE TO authenticated
+  USING (public.can_write_storage_object(bucket_id));
+
+-- 3) Members. Managing the team is a permission like any other; new members only join through an
+--    invitation, so nobody can add a user by id.
+DROP POLICY IF EXISTS "Owners manage organisation roles" ON public.user_roles;
+CREATE POLICY "Managers update organisation roles" ON public.user_roles FOR UPDATE TO authenticated
+  USING (organisation_id = (SELECT public.current_organisation_id()) AND public.has_permission('members.manage'))
+  WITH CHECK (organisation_id = (SELECT public.current_organisation_id()) AND public.has_permission('members.manage'));
+CREATE POLICY "Managers remove organisation members" ON public.user_roles FOR DELETE TO authenticated
+  USING (organisation_id = (SELECT public.current_organisation_id()) AND public.has_permission('members.manage'));
+
+DROP POLICY IF EXISTS "Owners update own organisations" ON public.organisations;
+CREATE POLICY "Managers update own organisations" ON public.organisations FOR UPDATE TO authenticated
+  USING (id = (SELECT public.current_organisation_id()) AND public.has_permission('members.manage'));
+
+-- A role can be changed but not handed to someone else, and an organisation always keeps an
+-- owner. Deleting the organisation itself removes every role.
+CREATE OR REPLACE FUNCTION public.guard_user_role_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND (NEW.user_id <> OLD.user_id OR NEW.organisation_id <> OLD.organisation_id) THEN
+    RAISE EXCEPTION 'Only the role of a member can be changed';
+  END IF;
+
+  IF OLD.role <> 'owner' OR (TG_OP = 'UPDATE' AND NEW.role = 'owner') THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.organisations WHERE id = OLD.organisation_id) THEN
+    RETURN OLD;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE organisation_id = OLD.organisation_id AND role = 'owner' AND id <> OLD.id
+  ) THEN
+    RAISE EXCEPTION 'An organisation needs at least one owner';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_user_role_change ON public.user_roles;
+CREATE TRIGGER guard_user_role_change
+BEFORE UPDATE OR DELETE ON public.user_roles
+FOR EACH ROW EXECUTE FUNCTION public.guard_user_role_change();
+
+-- Profiles are private, so the team list comes from here
+CREATE OR REPLACE FUNCTION public.organisation_members()
+RETURNS TABLE (id uuid, user_id uuid, name text, email text, role public.user_role, created_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.id, r.user_id, p.name, u.email::text, r.role, r.created_at
+  FROM public.user_roles r
+  LEFT JOIN public.profiles p ON p.user_id = r.user_id
+  LEFT JOIN auth.users u ON u.id = r.user_id
+  WHERE r.organisation_id = public.current_organisation_id()
+  ORDER BY r.created_at
+$$;
+
+-- 4) Invitations. The invitee accepts by signing in with the invited address.
+CREATE TABLE IF NOT EXISTS public.organisation_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organisation_id uuid NOT NULL DEFAULT public.current_organisation_id() REFERENCES public.organisations(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  role public.user_role NOT NULL,
+  invited_by uuid DEFAULT auth.uid(),
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '14 days',
+  accepted_at timestamptz,
+  accepted_by uuid,
+  declined_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organisation_invitations_pending_email
+  ON public.organisation_invitations(organisation_id, email)
+  WHERE accepted_at IS NULL AND declined_at IS NULL;
+
+ALTER TABLE public.organisation_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers select organisation invitations" ON public.organisation_invitations FOR SELECT TO authenticated
+  USING (organisation_id = (SELECT public.current_organisation_id()) AND public.has_permission('members.manage'));
+CREATE POLICY "Managers insert organisation invitations" ON public.organisation_invitations FOR INSERT TO authenticated
+  WITH CHECK (organisation_id = (SELECT public.current_organisation_id()) AND public.has_permission('members.manage'));
+CREATE POLICY "Managers update organisation invitations" ON public.organisation_invitations FOR UPDATE TO authenticated
+  USING (organisation_id = (SELECT public.current_organisation_id()) AND public.has_permission('members.manage'));
+CREATE POLICY "Managers delete organisation invitations" ON public.organisation_invitations FOR DELETE TO authenticated
+  USING (organisation_id = (SELECT public.current_organisation_id()) AND public.has_permission('members.manage'));
+
+CREATE OR REPLACE FUNCTION public.validate_organisation_invitation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.email := lower(btrim(NEW.email));
+
+  IF NEW.email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Enter a valid email address';
+  END IF;
+
+  IF TG_OP = 'INSERT' AND EXISTS (
+    SELECT 1
+    FROM public.user_roles r
+    JOIN auth.users u ON u.id = r.user_id
+    WHERE r.organisation_id = NEW.organisation_id AND lower(u.email) = NEW.email
+  ) THEN
+    RAISE EXCEPTION '% is already a member of this organisation', NEW.email;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_organisation_invitation ON public.organisation_invitations;
+CREATE TRIGGER validate_organisation_invitation
+BEFORE INSERT OR UPDATE ON public.organisation_invitations
+FOR EACH ROW EXECUTE FUNCTION public.validate_organisation_invitation();
+
+-- Open invitations addressed to the signed-in user, from organisations they cannot see yet
+CREATE OR REPLACE FUNCTION public.my_invitations()
+RETURNS TABLE (id uuid, organisation_id uuid, organisation_name text, role public.user_role, expires_at timestamptz, created_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT i.id, i.organisation_id, o.name, i.role, i.expires_at, i.created_at
+  FROM public.organisation_invitations i
+  JOIN public.organisations o ON o.id = i.organisation_id
+  WHERE i.email = (SELECT lower(email) FROM auth.users WHERE id = auth.uid())
+    AND i.accepted_at IS NULL
+    AND i.declined_at IS NULL
+    AND i.expires_at > now()
+  ORDER BY i.created_at
+$$;
+
+-- Joining makes the organisation the one the user is working in
+CREATE OR REPLACE FUNCTION public.accept_invitation(_invitation_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invitation public.organisation_invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO _invitation
+  FROM public.organisation_invitations
+  WHERE id = _invitation_id
+    AND email = (SELECT lower(email) FROM auth.users WHERE id = auth.uid())
+    AND accepted_at IS NULL
+    AND declined_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  IF _invitation.expires_at <= now() THEN
+    RAISE EXCEPTION 'This invitation has expired; ask for a new one';
+  END IF;
+
+  INSERT INTO public.user_roles (user_id, organisation_id, role)
+  VALUES (auth.uid(), _invitation.organisation_id, _invitation.role)
+  ON CONFLICT (organisation_id, user_id) DO NOTHING;
+
+  UPDATE public.organisation_invitations
+  SET accepted_at = now(), accepted_by = auth.uid()
+  WHERE id = _invitation_id;
+
+  UPDATE public.profiles SET current_organisation_id = _invitation.organisation_id WHERE user_id = auth.uid();
+
+  RETURN _invitation.organisation_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.decline_invitation(_invitation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.organisation_invitations
+  SET declined_at = now()
+  WHERE id = _invitation_id
+    AND email = (SELECT lower(email) FROM auth.users WHERE id = auth.uid())
+    AND accepted_at IS NULL
+    AND declined_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+END;
+$$;
+
+-- 5) Functions that write past RLS check the permission themselves
+CREATE OR REPLACE FUNCTION public.begin_lock_override(_reason text, _minutes integer DEFAULT 15)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _organisation_id uuid := public.current_organisation_id();
+  _id uuid;
+BEGIN
+  IF NOT public.has_permission('lock_dates.override') THEN
+    RAISE EXCEPTION 'Only the owner can override lock dates';
+  END IF;
+
+  IF _minutes IS NULL OR _minutes < 1 OR _minutes > 60 THEN
+    RAISE EXCEPTION 'An override lasts between 1 and 60 minutes';
+  END IF;
+
+  UPDATE public.lock_date_overrides
+  SET ended_at = now()
+  WHERE organisation_id = _organisation_id AND ended_at IS NULL AND expires_at > now();
+
+  INSERT INTO public.lock_date_overrides (organisation_id, user_id, reason, expires_at, created_by)
+  VALUES (_organisation_id, auth.uid(), trim(_reason), now() + make_interval(mins => _minutes), auth.uid())
+  RETURNING id INTO _id;
+
+  RETURN _id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.close_financial_year(_year_end date)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _organisation_id uuid := public.current_organisation_id();
+  _last_close date;
+  _close_id uuid;
+  _journal_id uuid;
+  _net_profit numeric := 0;
+  _balance record;
+BEGIN
+  PERFORM public.require_permission('journals.manage');
+
+  IF _organisation_id IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF _year_end IS NULL OR _year_end > CURRENT_DATE THEN
+    RAISE EXCEPTION 'A financial year can only be closed once it has ended';
+  END IF;
+
+  SELECT max(year_end) INTO _last_close
+  FROM public.year_end_closes
+  WHERE organisation_id = _organisation_id AND reopened_at IS NULL;
+
+  IF _year_end <= _last_close THEN
+    RAISE EXCEPTION 'The year to % is already closed', to_char(_last_close, 'DD/MM/YYYY');
+  END IF;
+
+  INSERT INTO public.year_end_closes (organisation_id, user_id, year_end, created_by)
+  VALUES (_organisation_id, auth.uid(), _year_end, auth.uid())
+  RETURNING id INTO _close_id;
+
+  FOR _balance IN
+    SELECT a.id AS account_id, a.account_name, SUM(COALESCE(l.debit_amount, 0) - COALESCE(l.credit_amount, 0)) AS amount
+    FROM public.journal_lines l
+    JOIN public.journals j ON j.id = l.journal_id
+    JOIN public.chart_of_accounts a ON a.id = l.account_id
+    WHERE j.organisation_id = _organisation_id
+      AND j.date <= _year_end
+      AND a.account_type IN ('income', 'expense')
+    GROUP BY a.id, a.account_name, a.account_code
+    HAVING SUM(COALESCE(l.debit_amount, 0) - COALESCE(l.credit_amount, 0)) <> 0
+    ORDER BY a.account_code
+  LOOP
+    IF _journal_id IS NULL THEN
+      INSERT INTO public.journals (organisation_id, user_id, date, reference, description, source_type, source_id)
+      VALUES (_organisation_id, auth.uid(), _year_end, 'YE-' || to_char(_year_end, 'YYYY-MM-DD'),
+              'Year-end close to ' || to_char(_year_end, 'DD/MM/YYYY'), 'year_end_close', _close_id)
+      RETURNING id INTO _journal_id;
+    END IF;
+
+    PERFORM public.add_journal_line(_journal_id, _balance.account_id, 'Close ' || _balance.account_name, -_balance.amount);
+    _net_profit := _net_profit - _balance.amount;
+  END LOOP;
+
+  IF _journal_id IS NOT NULL THEN
+    PERFORM public.add_journal_line(_journal_id, public.get_account_id(_organisation_id, '3100'), 'Retained earnings', -_net_profit);
+  END IF;
+
+  UPDATE public.year_end_closes
+  SET journal_id = _journal_id, net_profit = _net_profit
+  WHERE id = _close_id;
+
+  RETURN _close_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reopen_financial_year(_close_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _close public.year_end_closes%ROWTYPE;
+BEGIN
+  PERFORM public.require_permission('journals.manage');
+
+  SELECT * INTO _close
+  FROM public.year_end_closes
+  WHERE id = _close_id AND organisation_id = public.current_organisation_id() AND reopened_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Year-end close not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.year_end_closes
+    WHERE organisation_id = _close.organisation_id AND reopened_at IS NULL AND year_end > _close.year_end
+  ) THEN
+    RAISE EXCEPTION 'Reopen the later years first';
+  END IF;
+
+  UPDATE public.year_end_closes SET reopened_at = now() WHERE id = _close_id;
+
+  IF _close.journal_id IS NOT NULL THEN
+    PERFORM public.create_reversal_journal(_close.journal_id, _close.year_end);
+  END IF;
+END;
+$$;
+
+-- Scheduled runs have no user and cover every organisation
+CREATE OR REPLACE FUNCTION public.generate_recurring_documents(_as_of date DEFAULT CURRENT_DATE)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _template record;
+  _period date;
+  _document_id uuid;
+  _template_created integer;
+  _created integer := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    PERFORM public.require_permission('sales.manage');
+    PERFORM public.require_permission('purchases.manage');
+  END IF;
+
+  FOR _template IN
+    SELECT * FROM public.recurring_invoices
+    WHERE active
+      AND next_run_date <= _as_of
+      AND (end_date IS NULL OR next_run_date <= end_date)
+      AND (auth.uid() IS NULL OR organisation_id = public.current_organisation_id())
+    ORDER BY next_run_date
+  LOOP
+    BEGIN
+      IF NOT EXISTS (SELECT 1 FROM public.recurring_invoice_lines WHERE recurring_invoice_id = _template.id) THEN
+        RAISE EXCEPTION 'Template has no lines';
+      END IF;
+
+      _template_created := 0;
+      _period := _template.next_run_date;
+
+      WHILE _period <= _as_of AND (_template.end_date IS NULL OR _period <= _template.end_date) LOOP
+        IF NOT EXISTS (SELECT 1 FROM public.invoices WHERE recurring_invoice_id = _template.id AND recurring_period = _period) THEN
+          INSERT INTO public.invoices (organisation_id, user_id, customer_id, date, due_date, subtotal, vat_amount, total, status, recurring_invoice_id, recurring_period)
+          SELECT _template.organisation_id, _template.user_id, _template.customer_id, _period, _period + _template.due_days,
+                 SUM(line_total), SUM(vat_amount), SUM(line_total + vat_amount), 'draft', _template.id, _period
+          FROM public.recurring_invoice_lines
+          WHERE recurring_invoice_id = _template.id
+          RETURNING id INTO _document_id;
+
+          INSERT INTO public.invoice_lines (invoice_id, description, quantity, unit_price, tax_code_id, line_total, vat_amount)
+          SELECT _document_id, description, quantity, unit_price, tax_code_id, line_total, vat_amount
+          FROM public.recurring_invoice_lines
+          WHERE recurring_invoice_id = _template.id
+          ORDER BY created_at;
+
+          -- Issuing posts the invoice to the ledger once its lines are in place
+          IF _template.auto_send THEN
+            UPDATE public.invoices SET status = 'sent' WHERE id = _document_id;
+          END IF;
+
+          _template_created := _template_created + 1;
+        END IF;
+
+        _period := public.recurring_next_date(_template.start_date, _template.frequency, _period);
+      END LOOP;
+
+      UPDATE public.recurring_invoices
+      SET next_run_date = _period, last_run_at = now(), last_error = NULL
+      WHERE id = _template.id;
+
+      _created := _created + _template_created;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE public.recurring_invoices
+      SET last_run_at = now(), last_error = SQLERRM
+      WHERE id = _template.id;
+    END;
+  END LOOP;
+
+  FOR _template IN
+    SELECT * FROM public.recurring_bills
+    WHERE active
+      AND next_run_date <= _as_of
+      AND (end_date IS NULL OR next_run_date <= end_date)
+      AND (auth.uid() IS NULL OR organisation_id = public.current_organisation_id())
+    ORDER BY next_run_date
+  LOOP
+    BEGIN
+      IF NOT EXISTS (SELECT 1 FROM public.recurring_bill_lines WHERE recurring_bill_id = _template.id) THEN
+        RAISE EXCEPTION 'Template has no lines';
+      END IF;
+
+      _template_created := 0;
+      _period := _template.next_run_date;
+
+      WHILE _period <= _as_of AND (_template.end_date IS NULL OR _period <= _template.end_date) LOOP
+        IF NOT EXISTS (SELECT 1 FROM public.bills WHERE recurring_bill_id = _template.id AND recurring_period = _period) THEN
+          INSERT INTO public.bills (organisation_id, user_id, supplier_id, bill_number, date, due_date, subtotal, vat_amount, total, status, recurring_bill_id, recurring_period)
+          SELECT _template.organisation_id, _template.user_id, _template.supplier_id, _template.bill_reference || '-' || to_char(_period, 'YYYY-MM-DD'),
+                 _period, _period + _template.due_days,
+                 SUM(line_total - vat_amount), SUM(vat_amount), SUM(line_total), 'draft', _template.id, _period
+          FROM public.recurring_bill_lines
+          WHERE recurring_bill_id = _template.id
+          RETURNING id INTO _document_id;
+
+          INSERT INTO public.bill_lines (bill_id, description, quantity, unit_price, tax_code_id, account_id, line_total, vat_amount)
+          SELECT _document_id, description, quantity, unit_price, tax_code_id, account_id, line_total, vat_amount
+          FROM public.recurring_bill_lines
+          WHERE recurring_bill_id = _template.id
+          ORDER BY created_at;
+
+          IF _template.auto_receive THEN
+            UPDATE public.bills SET status = 'received' WHERE id = _document_id;
+          END IF;
+
+          _template_created := _template_created + 1;
+        END IF;
+
+        _period := public.recurring_next_date(_template.start_date, _template.frequency, _period);
+      END LOOP;
+
+      UPDATE public.recurring_bills
+      SET next_run_date = _period, last_run_at = now(), last_error = NULL
+      WHERE id = _template.id;
+
+      _created := _created + _template_created;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE public.recurring_bills
+      SET last_run_at = now(), last_error = SQLERRM
+      WHERE id = _template.id;
+    END;
+  END LOOP;
+
+  RETURN _created;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.ingest_bank_feed_transactions(_feed_account_id uuid, _transactions jsonb, _cursor text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _feed public.bank_feed_accounts%ROWTYPE;
+  _locked date;
+  _inserted integer := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    PERFORM public.require_permission('banking.manage');
+  END IF;
+
+  SELECT * INTO _feed
+  FROM public.bank_feed_accounts
+  WHERE id = _feed_account_id
+    -- Scheduled syncs run as the service role, without a user
+    AND (auth.uid() IS NULL OR organisation_id = public.current_organisation_id())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bank feed account not found';
+  END IF;
+
+  IF _feed.bank_account_id IS NULL THEN
+    RAISE EXCEPTION 'Link the feed account to a bank account before syncing it';
+  END IF;
+
+  _locked := public.bank_account_locked_until(_feed.bank_account_id);
+
+  IF COALESCE(jsonb_array_length(_transactions), 0) > 0 THEN
+    INSERT INTO public.bank_transactions (
+      organisation_id, user_id, bank_account_id, feed_account_id, external_id, date, description, amount, reference, balance, fingerprint
+    )
+    SELECT _feed.organisation_id,
+           _feed.user_id,
+           _feed.bank_account_id,
+           _feed.id,
+           t.item->>'id',
+           (t.item->>'date')::date,
+           t.item->>'description',
+           (t.item->>'amount')::numeric,
+           NULLIF(t.item->>'reference', ''),
+           (t.item->>'balance')::numeric,
+           f.fingerprint
+    FROM jsonb_array_elements(_transactions) WITH ORDINALITY AS t(item, line_number)
+    JOIN public.bank_statement_fingerprints(_transactions) f ON f.line_number = t.line_number
+    WHERE (_locked IS NULL OR (t.item->>'date')::date > _locked)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.bank_transactions bt
+        WHERE bt.bank_account_id = _feed.bank_account_id AND bt.external_id = t.item->>'id'
+      )
+    ORDER BY t.line_number
+    ON CONFLICT (bank_account_id, fingerprint) DO NOTHING;
+
+    GET DIAGNOSTICS _inserted = ROW_COUNT;
+  END IF;
+
+  UPDATE public.bank_feed_accounts
+  SET sync_cursor = _cursor, last_synced_at = now()
+  WHERE id = _feed.id;
+
+  RETURN _inserted;
+END;
+$$;
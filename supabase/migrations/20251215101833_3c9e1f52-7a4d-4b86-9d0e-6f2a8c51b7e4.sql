@@ -0,0 +1,484 @@
+-- Bill approval: bills at or over an amount threshold are submitted for approval and only post to
+-- the ledger, and become payable, once enough approvers other than the submitter have approved them.
+--    draft -> awaiting_approval | received | cancelled (received only when no approval is needed)
+--    awaiting_approval -> draft (rejected or withdrawn) | received (approved)
+--    received/overdue -> received | overdue | paid | cancelled
+--    paid -> received | overdue (only when a payment is removed)
+
+-- 1) Approving bills is a permission of its own, held by approvers as well as owners and accountants
+INSERT INTO public.role_permissions (role, permission)
+SELECT role::public.user_role, 'bills.approve'
+FROM unnest(ARRAY['owner', 'accountant', 'approver']) AS role
+ON CONFLICT DO NOTHING;
+
+-- 2) Thresholds: a bill needs the approvals of the highest threshold its total (including VAT)
+--    reaches; with no thresholds nothing needs approval
+CREATE TABLE IF NOT EXISTS public.bill_approval_thresholds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organisation_id uuid NOT NULL DEFAULT public.current_organisation_id() REFERENCES public.organisations(id) ON DELETE CASCADE,
+  min_amount numeric(12,2) NOT NULL CHECK (min_amount >= 0),
+  approvals_required integer NOT NULL DEFAULT 1 CHECK (approvals_required BETWEEN 1 AND 5),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (organisation_id, min_amount)
+);
+
+ALTER TABLE public.bill_approval_thresholds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members select bill approval thresholds" ON public.bill_approval_thresholds FOR SELECT TO authenticated
+  USING (organisation_id = (SELECT public.current_organisation_id()));
+CREATE POLICY "Managers insert bill approval thresholds" ON public.bill_approval_thresholds FOR INSERT TO authenticated
+  WITH CHECK (organisation_id = (SELECT public.current_organisation_id()) AND public.has_permission('settings.manage'));
+CREATE POLICY "Managers update bill approval thresholds" ON public.bill_approval_thresholds FOR UPDATE TO authenticated
+  USING (organisation_id = (SELECT public.current_organisation_id()) AND public.has_permission('settings.manage'));
+CREATE POLICY "Managers delete bill approval thresholds" ON public.bill_approval_thresholds FOR DELETE TO authenticated
+  USING (organisation_id = (SELECT public.current_organisation_id()) AND public.has_permission('settings.manage'));
+
+DROP TRIGGER IF EXISTS audit_bill_approval_thresholds ON public.bill_approval_thresholds;
+CREATE TRIGGER audit_bill_approval_thresholds
+AFTER INSERT OR UPDATE OR DELETE ON public.bill_approval_thresholds
+FOR EACH ROW EXECUTE FUNCTION public.audit_record_change();
+
+CREATE OR REPLACE FUNCTION public.bill_approvals_required(_organisation_id uuid, _amount numeric)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT approvals_required
+    FROM public.bill_approval_thresholds
+    WHERE organisation_id = _organisation_id AND min_amount <= _amount
+    ORDER BY min_amount DESC
+    LIMIT 1
+  ), 0)
+$$;
+
+-- 3) Bills gain their approval status
+ALTER TABLE public.bills DROP CONSTRAINT IF EXISTS bills_status_check;
+ALTER TABLE public.bills ADD CONSTRAINT bills_status_check
+  CHECK (status IN ('draft', 'awaiting_approval', 'received', 'paid', 'overdue', 'cancelled'));
+
+-- 4) The approval history of each bill: submissions, decisions and comments. Written only by the
+--    functions below; user_id is empty for bills submitted by a scheduled run.
+CREATE TABLE IF NOT EXISTS public.bill_approval_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organisation_id uuid NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  bill_id uuid NOT NULL REFERENCES public.bills(id) ON DELETE CASCADE,
+  user_id uuid,
+  action text NOT NULL CHECK (action IN ('submitted', 'approved', 'rejected', 'withdrawn', 'commented')),
+  comment text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bill_approval_events_bill ON public.bill_approval_events(bill_id, created_at);
+
+ALTER TABLE public.bill_approval_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members select bill approval events" ON public.bill_approval_events FOR SELECT TO authenticated
+  USING (organisation_id = (SELECT public.current_organisation_id()));
+
+-- Distinct approvals since the bill was last submitted
+CREATE OR REPLACE FUNCTION public.bill_approval_count(_bill_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(DISTINCT e.user_id)::integer
+  FROM public.bill_approval_events e
+  WHERE e.bill_id = _bill_id
+    AND e.action = 'approved'
+    AND e.created_at >= COALESCE((
+      SELECT MAX(s.created_at) FROM public.bill_approval_events s
+      WHERE s.bill_id = _bill_id AND s.action = 'submitted'
+    ), '-infinity')
+$$;
+
+-- 5) Status transitions, and no edits once a bill has left draft
+CREATE OR REPLACE FUNCTION public.enforce_bill_workflow()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status = 'awaiting_approval' THEN
+      RAISE EXCEPTION 'Save bill % as a draft before submitting it for approval', NEW.bill_number;
+    END IF;
+
+    IF NEW.status IN ('received', 'paid', 'overdue') AND public.bill_approvals_required(NEW.organisation_id, NEW.total) > 0 THEN
+      RAISE EXCEPTION 'Bill % needs approval before it can be posted', NEW.bill_number;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'draft' AND NEW.status IN ('awaiting_approval', 'received', 'cancelled')) OR
+      (OLD.status = 'awaiting_approval' AND NEW.status IN ('draft', 'received')) OR
+      (OLD.status IN ('received', 'overdue') AND NEW.status IN ('received', 'overdue', 'paid', 'cancelled')) OR
+      (OLD.status = 'paid' AND NEW.status IN ('received', 'overdue'))
+    ) THEN
+      RAISE EXCEPTION 'Bill % cannot move from % to %', OLD.bill_number, OLD.status, NEW.status;
+    END IF;
+
+    IF OLD.status = 'draft' AND NEW.status = 'received'
+       AND public.bill_approvals_required(NEW.organisation_id, NEW.total) > 0 THEN
+      RAISE EXCEPTION 'Bill % needs approval before it can be posted', OLD.bill_number;
+    END IF;
+
+    -- A bill submitted without needing approval still needs one approval
+    IF OLD.status = 'awaiting_approval' AND NEW.status = 'received'
+       AND public.bill_approval_count(NEW.id) < GREATEST(public.bill_approvals_required(NEW.organisation_id, NEW.total), 1) THEN
+      RAISE EXCEPTION 'Bill % has not been approved', OLD.bill_number;
+    END IF;
+  END IF;
+
+  IF OLD.status <> 'draft' AND (
+    NEW.supplier_id IS DISTINCT FROM OLD.supplier_id OR
+    NEW.bill_number IS DISTINCT FROM OLD.bill_number OR
+    NEW.date IS DISTINCT FROM OLD.date OR
+    NEW.due_date IS DISTINCT FROM OLD.due_date OR
+    NEW.subtotal IS DISTINCT FROM OLD.subtotal OR
+    NEW.vat_amount IS DISTINCT FROM OLD.vat_amount OR
+    NEW.total IS DISTINCT FROM OLD.total
+  ) THEN
+    RAISE EXCEPTION 'Bill % is no longer a draft and can no longer be edited', OLD.bill_number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_bill_workflow ON public.bills;
+CREATE TRIGGER enforce_bill_workflow
+BEFORE INSERT OR UPDATE ON public.bills
+FOR EACH ROW EXECUTE FUNCTION public.enforce_bill_workflow();
+
+-- Lines can only change while their bill is a draft, so what was approved is what gets posted
+CREATE OR REPLACE FUNCTION public.lock_submitted_bill_lines()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _bill_id uuid := CASE WHEN TG_OP = 'DELETE' THEN OLD.bill_id ELSE NEW.bill_id END;
+  _status text;
+  _number text;
+BEGIN
+  SELECT status, bill_number INTO _status, _number FROM public.bills WHERE id = _bill_id;
+
+  -- Lines go when their bill is deleted
+  IF _status IS NOT NULL AND _status <> 'draft' THEN
+    RAISE EXCEPTION 'Bill % is no longer a draft and its lines can no longer be edited', _number;
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS lock_submitted_bill_lines ON public.bill_lines;
+CREATE TRIGGER lock_submitted_bill_lines
+BEFORE INSERT OR UPDATE OR DELETE ON public.bill_lines
+FOR EACH ROW EXECUTE FUNCTION public.lock_submitted_bill_lines();
+
+-- 6) The approval actions. They write past RLS, so each checks the permission it needs and that
+--    the bill belongs to the organisation being worked in.
+CREATE OR REPLACE FUNCTION public.bill_for_approval(_bill_id uuid, _status text)
+RETURNS public.bills
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _bill public.bills%ROWTYPE;
+BEGIN
+  SELECT * INTO _bill
+  FROM public.bills
+  WHERE id = _bill_id AND organisation_id = public.current_organisation_id()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bill not found';
+  END IF;
+
+  IF _status IS NOT NULL AND _bill.status <> _status THEN
+    RAISE EXCEPTION 'Bill % is %, not %', _bill.bill_number, replace(_bill.status, '_', ' '), replace(_status, '_', ' ');
+  END IF;
+
+  RETURN _bill;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.submit_bill_for_approval(_bill_id uuid, _comment text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _bill public.bills%ROWTYPE;
+BEGIN
+  PERFORM public.require_permission('purchases.manage');
+  _bill := public.bill_for_approval(_bill_id, 'draft');
+
+  UPDATE public.bills SET status = 'awaiting_approval' WHERE id = _bill.id;
+
+  INSERT INTO public.bill_approval_events (organisation_id, bill_id, user_id, action, comment)
+  VALUES (_bill.organisation_id, _bill.id, auth.uid(), 'submitted', NULLIF(btrim(_comment), ''));
+END;
+$$;
+
+-- The last approval needed posts the bill; returns the bill's status afterwards
+CREATE OR REPLACE FUNCTION public.approve_bill(_bill_id uuid, _comment text DEFAULT NULL)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _bill public.bills%ROWTYPE;
+  _submitted_by uuid;
+BEGIN
+  PERFORM public.require_permission('bills.approve');
+  _bill := public.bill_for_approval(_bill_id, 'awaiting_approval');
+
+  SELECT user_id INTO _submitted_by
+  FROM public.bill_approval_events
+  WHERE bill_id = _bill.id AND action = 'submitted'
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF _submitted_by = auth.uid() THEN
+    RAISE EXCEPTION 'Bills must be approved by someone other than the person who submitted them';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.bill_approval_events
+    WHERE bill_id = _bill.id AND action = 'approved' AND user_id = auth.uid()
+      AND created_at >= (SELECT MAX(created_at) FROM public.bill_approval_events WHERE bill_id = _bill.id AND action = 'submitted')
+  ) THEN
+    RAISE EXCEPTION 'You have already approved bill %', _bill.bill_number;
+  END IF;
+
+  INSERT INTO public.bill_approval_events (organisation_id, bill_id, user_id, action, comment)
+  VALUES (_bill.organisation_id, _bill.id, auth.uid(), 'approved', NULLIF(btrim(_comment), ''));
+
+  IF public.bill_approval_count(_bill.id) >= GREATEST(public.bill_approvals_required(_bill.organisation_id, _bill.total), 1) THEN
+    UPDATE public.bills SET status = 'received' WHERE id = _bill.id;
+    RETURN 'received';
+  END IF;
+
+  RETURN _bill.status;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reject_bill(_bill_id uuid, _comment text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _bill public.bills%ROWTYPE;
+BEGIN
+  PERFORM public.require_permission('bills.approve');
+
+  IF NULLIF(btrim(_comment), '') IS NULL THEN
+    RAISE EXCEPTION 'Give a reason for rejecting the bill';
+  END IF;
+
+  _bill := public.bill_for_approval(_bill_id, 'awaiting_approval');
+
+  UPDATE public.bills SET status = 'draft' WHERE id = _bill.id;
+
+  INSERT INTO public.bill_approval_events (organisation_id, bill_id, user_id, action, comment)
+  VALUES (_bill.organisation_id, _bill.id, auth.uid(), 'rejected', btrim(_comment));
+END;
+$$;
+
+-- Takes a bill back to draft to correct it before anyone has decided
+CREATE OR REPLACE FUNCTION public.withdraw_bill_from_approval(_bill_id uuid, _comment text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _bill public.bills%ROWTYPE;
+BEGIN
+  PERFORM public.require_permission('purchases.manage');
+  _bill := public.bill_for_approval(_bill_id, 'awaiting_approval');
+
+  UPDATE public.bills SET status = 'draft' WHERE id = _bill.id;
+
+  INSERT INTO public.bill_approval_events (organisation_id, bill_id, user_id, action, comment)
+  VALUES (_bill.organisation_id, _bill.id, auth.uid(), 'withdrawn', NULLIF(btrim(_comment), ''));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.comment_on_bill(_bill_id uuid, _comment text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _bill public.bills%ROWTYPE;
+BEGIN
+  IF NOT (public.has_permission('purchases.manage') OR public.has_permission('bills.approve')) THEN
+    RAISE EXCEPTION 'Your role in this organisation does not allow this';
+  END IF;
+
+  IF NULLIF(btrim(_comment), '') IS NULL THEN
+    RAISE EXCEPTION 'Enter a comment';
+  END IF;
+
+  _bill := public.bill_for_approval(_bill_id, NULL);
+
+  INSERT INTO public.bill_approval_events (organisation_id, bill_id, user_id, action, comment)
+  VALUES (_bill.organisation_id, _bill.id, auth.uid(), 'commented', btrim(_comment));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.bill_for_approval(uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- 7) Recurring bills that would need approval are submitted instead of received
+CREATE OR REPLACE FUNCTION public.generate_recurring_documents(_as_of date DEFAULT CURRENT_DATE)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _template record;
+  _period date;
+  _document_id uuid;
+  _document_total numeric;
+  _template_created integer;
+  _created integer := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    PERFORM public.require_permission('sales.manage');
+    PERFORM public.require_permission('purchases.manage');
+  END IF;
+
+  FOR _template IN
+    SELECT * FROM public.recurring_invoices
+    WHERE active
+      AND next_run_date <= _as_of
+      AND (end_date IS NULL OR next_run_date <= end_date)
+      AND (auth.uid() IS NULL OR organisation_id = public.current_organisation_id())
+    ORDER BY next_run_date
+  LOOP
+    BEGIN
+      IF NOT EXISTS (SELECT 1 FROM public.recurring_invoice_lines WHERE recurring_invoice_id = _template.id) THEN
+        RAISE EXCEPTION 'Template has no lines';
+      END IF;
+
+      _template_created := 0;
+      _period := _template.next_run_date;
+
+      WHILE _period <= _as_of AND (_template.end_date IS NULL OR _period <= _template.end_date) LOOP
+        IF NOT EXISTS (SELECT 1 FROM public.invoices WHERE recurring_invoice_id = _template.id AND recurring_period = _period) THEN
+          INSERT INTO public.invoices (organisation_id, user_id, customer_id, date, due_date, subtotal, vat_amount, total, status, recurring_invoice_id, recurring_period)
+          SELECT _template.organisation_id, _template.user_id, _template.customer_id, _period, _period + _template.due_days,
+                 SUM(line_total), SUM(vat_amount), SUM(line_total + vat_amount), 'draft', _template.id, _period
+          FROM public.recurring_invoice_lines
+          WHERE recurring_invoice_id = _template.id
+          RETURNING id INTO _document_id;
+
+          INSERT INTO public.invoice_lines (invoice_id, description, quantity, unit_price, tax_code_id, line_total, vat_amount)
+          SELECT _document_id, description, quantity, unit_price, tax_code_id, line_total, vat_amount
+          FROM public.recurring_invoice_lines
+          WHERE recurring_invoice_id = _template.id
+          ORDER BY created_at;
+
+          -- Issuing posts the invoice to the ledger once its lines are in place
+          IF _template.auto_send THEN
+            UPDATE public.invoices SET status = 'sent' WHERE id = _document_id;
+          END IF;
+
+          _template_created := _template_created + 1;
+        END IF;
+
+        _period := public.recurring_next_date(_template.start_date, _template.frequency, _period);
+      END LOOP;
+
+      UPDATE public.recurring_invoices
+      SET next_run_date = _period, last_run_at = now(), last_error = NULL
+      WHERE id = _template.id;
+
+      _created := _created + _template_created;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE public.recurring_invoices
+      SET last_run_at = now(), last_error = SQLERRM
+      WHERE id = _template.id;
+    END;
+  END LOOP;
+
+  FOR _template IN
+    SELECT * FROM public.recurring_bills
+    WHERE active
+      AND next_run_date <= _as_of
+      AND (end_date IS NULL OR next_run_date <= end_date)
+      AND (auth.uid() IS NULL OR organisation_id = public.current_organisation_id())
+    ORDER BY next_run_date
+  LOOP
+    BEGIN
+      IF NOT EXISTS (SELECT 1 FROM public.recurring_bill_lines WHERE recurring_bill_id = _template.id) THEN
+        RAISE EXCEPTION 'Template has no lines';
+      END IF;
+
+      _template_created := 0;
+      _period := _template.next_run_date;
+
+      WHILE _period <= _as_of AND (_template.end_date IS NULL OR _period <= _template.end_date) LOOP
+        IF NOT EXISTS (SELECT 1 FROM public.bills WHERE recurring_bill_id = _template.id AND recurring_period = _period) THEN
+          INSERT INTO public.bills (organisation_id, user_id, supplier_id, bill_number, date, due_date, subtotal, vat_amount, total, status, recurring_bill_id, recurring_period)
+          SELECT _template.organisation_id, _template.user_id, _template.supplier_id, _template.bill_reference || '-' || to_char(_period, 'YYYY-MM-DD'),
+                 _period, _period + _template.due_days,
+                 SUM(line_total - vat_amount), SUM(vat_amount), SUM(line_total), 'draft', _template.id, _period
+          FROM public.recurring_bill_lines
+          WHERE recurring_bill_id = _template.id
+          RETURNING id, total INTO _document_id, _document_total;
+
+          INSERT INTO public.bill_lines (bill_id, description, quantity, unit_price, tax_code_id, account_id, line_total, vat_amount)
+          SELECT _document_id, description, quantity, unit_price, tax_code_id, account_id, line_total, vat_amount
+          FROM public.recurring_bill_lines
+          WHERE recurring_bill_id = _template.id
+          ORDER BY created_at;
+
+          IF _template.auto_receive AND public.bill_approvals_required(_template.organisation_id, _document_total) > 0 THEN
+            UPDATE public.bills SET status = 'awaiting_approval' WHERE id = _document_id;
+
+            INSERT INTO public.bill_approval_events (organisation_id, bill_id, user_id, action, comment)
+            VALUES (_template.organisation_id, _document_id, NULL, 'submitted', 'Raised from a recurring template');
+          ELSIF _template.auto_receive THEN
+            UPDATE public.bills SET status = 'received' WHERE id = _document_id;
+          END IF;
+
+          _template_created := _template_created + 1;
+        END IF;
+
+        _period := public.recurring_next_date(_template.start_date, _template.frequency, _period);
+      END LOOP;
+
+      UPDATE public.recurring_bills
+      SET next_run_date = _period, last_run_at = now(), last_error = NULL
+      WHERE id = _template.id;
+
+      _created := _created + _template_created;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE public.recurring_bills
+      SET last_run_at = now(), last_error = SQLERRM
+      WHERE id = _template.id;
+    END;
+  END LOOP;
+
+  RETURN _created;
+END;
+$$;
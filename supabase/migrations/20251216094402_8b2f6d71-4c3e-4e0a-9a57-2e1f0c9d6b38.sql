@@ -0,0 +1,147 @@
+-- Supporting documents: receipts, supplier invoices and statements kept as PDF or image files
+-- against the invoice, bill, journal or bank transaction they support.
+
+-- 1) One row per stored file, attached to exactly one record
+CREATE TABLE IF NOT EXISTS public.attachments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organisation_id uuid NOT NULL DEFAULT public.current_organisation_id() REFERENCES public.organisations(id) ON DELETE CASCADE,
+  user_id uuid DEFAULT auth.uid(),
+  invoice_id uuid REFERENCES public.invoices(id) ON DELETE CASCADE,
+  bill_id uuid REFERENCES public.bills(id) ON DELETE CASCADE,
+  journal_id uuid REFERENCES public.journals(id) ON DELETE CASCADE,
+  bank_transaction_id uuid REFERENCES public.bank_transactions(id) ON DELETE CASCADE,
+  file_name text NOT NULL,
+  storage_path text NOT NULL UNIQUE,
+  content_type text NOT NULL,
+  size_bytes bigint NOT NULL CHECK (size_bytes >= 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (num_nonnulls(invoice_id, bill_id, journal_id, bank_transaction_id) = 1)
+);
+
+CREATE INDEX IF NOT EXISTS idx_attachments_invoice ON public.attachments(invoice_id) WHERE invoice_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_attachments_bill ON public.attachments(bill_id) WHERE bill_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_attachments_journal ON public.attachments(journal_id) WHERE journal_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_attachments_bank_transaction ON public.attachments(bank_transaction_id) WHERE bank_transaction_id IS NOT NULL;
+
+-- 2) Row level security: members see every attachment, and add or remove them with the permission
+--    for the area of the record. Files are never changed, only replaced.
+CREATE OR REPLACE FUNCTION public.attachment_permission(_folder text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _folder
+    WHEN 'invoices' THEN 'sales.manage'
+    WHEN 'bills' THEN 'purchases.manage'
+    WHEN 'journals' THEN 'journals.manage'
+    WHEN 'bank_transactions' THEN 'banking.manage'
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_manage_attachment(_attachment public.attachments)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT public.has_permission(public.attachment_permission(CASE
+    WHEN _attachment.invoice_id IS NOT NULL THEN 'invoices'
+    WHEN _attachment.bill_id IS NOT NULL THEN 'bills'
+    WHEN _attachment.journal_id IS NOT NULL THEN 'journals'
+    ELSE 'bank_transactions'
+  END))
+$$;
+
+ALTER TABLE public.attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members select attachments" ON public.attachments FOR SELECT TO authenticated
+  USING (organisation_id = (SELECT public.current_organisation_id()));
+CREATE POLICY "Members insert attachments" ON public.attachments FOR INSERT TO authenticated
+  WITH CHECK (organisation_id = (SELECT public.current_organisation_id()) AND public.can_manage_attachment(attachments));
+CREATE POLICY "Members delete attachments" ON public.attachments FOR DELETE TO authenticated
+  USING (organisation_id = (SELECT public.current_organisation_id()) AND public.can_manage_attachment(attachments));
+
+-- The record and the file both belong to the attachment's organisation
+CREATE OR REPLACE FUNCTION public.validate_attachment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _record_organisation_id uuid;
+BEGIN
+  SELECT organisation_id INTO _record_organisation_id
+  FROM (
+    SELECT organisation_id FROM public.invoices WHERE id = NEW.invoice_id
+    UNION ALL
+    SELECT organisation_id FROM public.bills WHERE id = NEW.bill_id
+    UNION ALL
+    SELECT organisation_id FROM public.journals WHERE id = NEW.journal_id
+    UNION ALL
+    SELECT organisation_id FROM public.bank_transactions WHERE id = NEW.bank_transaction_id
+  ) AS record;
+
+  IF _record_organisation_id IS DISTINCT FROM NEW.organisation_id THEN
+    RAISE EXCEPTION 'The record to attach to was not found';
+  END IF;
+
+  IF split_part(NEW.storage_path, '/', 1) <> NEW.organisation_id::text THEN
+    RAISE EXCEPTION 'Attachments must be stored under their organisation''s folder';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_attachment ON public.attachments;
+CREATE TRIGGER validate_attachment
+BEFORE INSERT OR UPDATE ON public.attachments
+FOR EACH ROW EXECUTE FUNCTION public.validate_attachment();
+
+DROP TRIGGER IF EXISTS audit_attachments ON public.attachments;
+CREATE TRIGGER audit_attachments
+AFTER INSERT OR UPDATE OR DELETE ON public.attachments
+FOR EACH ROW EXECUTE FUNCTION public.audit_record_change();
+
+-- 3) A private bucket; files live under <organisation>/<area>/<record>/ so storage policies can
+--    scope reads to the organisation and writes to the area's permission
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('attachments', 'attachments', false, 10485760,
+        ARRAY['application/pdf', 'image/png', 'image/jpeg', 'image/gif', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Members read attachments" ON storage.objects FOR SELECT TO authenticated
+  USING (bucket_id = 'attachments' AND (storage.foldername(name))[1] = (SELECT public.current_organisation_id())::text);
+CREATE POLICY "Members upload attachments" ON storage.objects FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'attachments' AND (storage.foldername(name))[1] = (SELECT public.current_organisation_id())::text);
+CREATE POLICY "Members delete attachments" ON storage.objects FOR DELETE TO authenticated
+  USING (bucket_id = 'attachments' AND (storage.foldername(name))[1] = (SELECT public.current_organisation_id())::text);
+
+-- Which permission a file needs now depends on its folder as well as its bucket
+DROP POLICY IF EXISTS "Require permission to upload files" ON storage.objects;
+DROP POLICY IF EXISTS "Require permission to update files" ON storage.objects;
+DROP POLICY IF EXISTS "Require permission to delete files" ON storage.objects;
+DROP FUNCTION IF EXISTS public.can_write_storage_object(text);
+
+CREATE OR REPLACE FUNCTION public.can_write_storage_object(_bucket_id text, _name text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE _bucket_id
+    WHEN 'company-logos' THEN public.has_permission('settings.manage')
+    WHEN 'invoice-pdfs' THEN public.has_permission('sales.manage')
+    WHEN 'attachments' THEN COALESCE(public.has_permission(public.attachment_permission((storage.foldername(_name))[2])), false)
+    ELSE true
+  END
+$$;
+
+CREATE POLICY "Require permission to upload files" ON storage.objects AS RESTRICTIVE FOR INSERT TO authenticated
+  WITH CHECK (public.can_write_storage_object(bucket_id, name));
+CREATE POLICY "Require permission to update files" ON storage.objects AS RESTRICTIVE FOR UPDATE TO authenticated
+  USING (public.can_write_storage_object(bucket_id, name));
+CREATE POLICY "Require permission to delete files" ON storage.objects AS RESTRICTIVE FOR DELETE TO authenticated
+  USING (public.can_write_storage_object(bucket_id, name));
@@ -0,0 +1,138 @@
+-- Invoice numbering stays gap-free: the next number can no longer be set back onto numbers already
+-- used, changes made to it from the settings are audited, and a draft invoice is saved together
+-- with its lines in one transaction.
+
+-- 1) The next invoice or credit note number must be above every number already used under its
+--    prefix. Allocation only ever moves the counter on by one, so only changes made directly (not
+--    from within the numbering triggers) are checked.
+CREATE OR REPLACE FUNCTION public.validate_document_numbering()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _highest numeric;
+BEGIN
+  SELECT max(substr(invoice_number, length(NEW.prefix) + 1)::numeric) INTO _highest
+  FROM public.invoices
+  WHERE organisation_id = NEW.organisation_id
+    AND left(invoice_number, length(NEW.prefix)) = NEW.prefix
+    AND substr(invoice_number, length(NEW.prefix) + 1) ~ '^[0-9]+$';
+
+  IF NEW.next_number <= COALESCE(_highest, 0) THEN
+    RAISE EXCEPTION 'Invoice numbers up to % have been used, so the next invoice number must be % or more', _highest, _highest + 1;
+  END IF;
+
+  SELECT max(substr(credit_note_number, length(NEW.credit_note_prefix) + 1)::numeric) INTO _highest
+  FROM public.credit_notes
+  WHERE organisation_id = NEW.organisation_id
+    AND left(credit_note_number, length(NEW.credit_note_prefix)) = NEW.credit_note_prefix
+    AND substr(credit_note_number, length(NEW.credit_note_prefix) + 1) ~ '^[0-9]+$';
+
+  IF NEW.credit_note_next_number <= COALESCE(_highest, 0) THEN
+    RAISE EXCEPTION 'Credit note numbers up to % have been used, so the next credit note number must be % or more', _highest, _highest + 1;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_document_numbering ON public.invoice_number_sequences;
+CREATE TRIGGER validate_document_numbering
+BEFORE INSERT OR UPDATE ON public.invoice_number_sequences
+FOR EACH ROW
+WHEN (pg_trigger_depth() = 0)
+EXECUTE FUNCTION public.validate_document_numbering();
+
+-- A number moved on leaves a gap, so who moved it and from what is kept in the audit log
+DROP TRIGGER IF EXISTS audit_invoice_number_sequences ON public.invoice_number_sequences;
+CREATE TRIGGER audit_invoice_number_sequences
+AFTER INSERT OR UPDATE ON public.invoice_number_sequences
+FOR EACH ROW
+WHEN (pg_trigger_depth() = 0)
+EXECUTE FUNCTION public.audit_record_change();
+
+-- 2) Price the lines of an invoice from their tax codes, rounding each line to the penny
+CREATE OR REPLACE FUNCTION public.price_invoice_lines(_lines jsonb)
+RETURNS TABLE (line_number bigint, description text, quantity numeric, unit_price numeric, tax_code_id uuid, line_total numeric, vat_amount numeric)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    l.line_number,
+    l.line->>'description',
+    (l.line->>'quantity')::numeric,
+    (l.line->>'unit_price')::numeric,
+    t.id,
+    round((l.line->>'quantity')::numeric * (l.line->>'unit_price')::numeric, 2),
+    round(round((l.line->>'quantity')::numeric * (l.line->>'unit_price')::numeric, 2) * COALESCE(t.rate, 0) / 100, 2)
+  FROM jsonb_array_elements(_lines) WITH ORDINALITY AS l(line, line_number)
+  LEFT JOIN public.tax_codes t ON t.id = (NULLIF(l.line->>'tax_code_id', ''))::uuid
+$$;
+
+-- 3) Save a draft invoice with its lines, creating it when no id is given. A new invoice is
+--    numbered by assign_invoice_number; an existing one must still be a draft
+--    (enforce_invoice_workflow and lock_issued_invoice_lines). The totals are worked out here from
+--    the lines rather than taken from the app.
+CREATE OR REPLACE FUNCTION public.save_invoice(_invoice jsonb, _lines jsonb, _invoice_id uuid DEFAULT NULL)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _saved public.invoices%ROWTYPE;
+  _subtotal numeric;
+  _vat_amount numeric;
+BEGIN
+  IF jsonb_typeof(_lines) <> 'array' OR jsonb_array_length(_lines) = 0 THEN
+    RAISE EXCEPTION 'Add at least one line to the invoice';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.price_invoice_lines(_lines) l WHERE l.quantity IS NULL OR l.unit_price IS NULL) THEN
+    RAISE EXCEPTION 'Each line needs a quantity and a unit price';
+  END IF;
+
+  SELECT sum(l.line_total), sum(l.vat_amount) INTO _subtotal, _vat_amount
+  FROM public.price_invoice_lines(_lines) l;
+
+  IF _invoice_id IS NULL THEN
+    INSERT INTO public.invoices (customer_id, date, due_date, subtotal, vat_amount, total, status)
+    VALUES (
+      (_invoice->>'customer_id')::uuid,
+      (_invoice->>'date')::date,
+      (NULLIF(_invoice->>'due_date', ''))::date,
+      _subtotal,
+      _vat_amount,
+      _subtotal + _vat_amount,
+      'draft'
+    )
+    RETURNING * INTO _saved;
+  ELSE
+    UPDATE public.invoices
+    SET customer_id = (_invoice->>'customer_id')::uuid,
+        date = (_invoice->>'date')::date,
+        due_date = (NULLIF(_invoice->>'due_date', ''))::date,
+        subtotal = _subtotal,
+        vat_amount = _vat_amount,
+        total = _subtotal + _vat_amount
+    WHERE id = _invoice_id
+    RETURNING * INTO _saved;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invoice not found';
+    END IF;
+
+    DELETE FROM public.invoice_lines WHERE invoice_id = _invoice_id;
+  END IF;
+
+  -- created_at keeps the lines in the order they were entered
+  INSERT INTO public.invoice_lines (invoice_id, description, quantity, unit_price, tax_code_id, line_total, vat_amount, created_at)
+  SELECT _saved.id, l.description, l.quantity, l.unit_price, l.tax_code_id, l.line_total, l.vat_amount, clock_timestamp()
+  FROM public.price_invoice_lines(_lines) l
+  ORDER BY l.line_number;
+
+  RETURN _saved;
+END;
+$$;
@@ -0,0 +1,25 @@
+-- The PDF of an issued invoice is filed once and kept as issued: the stored file can no longer be
+-- overwritten and the invoice's record of it cannot be changed.
+DROP POLICY IF EXISTS "Users update own invoice PDFs" ON storage.objects;
+
+CREATE OR REPLACE FUNCTION public.lock_filed_invoice_pdf()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.pdf_path IS NOT NULL AND (
+    NEW.pdf_path IS DISTINCT FROM OLD.pdf_path OR
+    NEW.pdf_generated_at IS DISTINCT FROM OLD.pdf_generated_at
+  ) THEN
+    RAISE EXCEPTION 'Invoice % has already been filed', OLD.invoice_number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS lock_filed_invoice_pdf ON public.invoices;
+CREATE TRIGGER lock_filed_invoice_pdf
+BEFORE UPDATE ON public.invoices
+FOR EACH ROW EXECUTE FUNCTION public.lock_filed_invoice_pdf();
@@ -0,0 +1,159 @@
+-- Recurring invoices set to send automatically are emailed before they are issued. The generator
+-- leaves them as drafts marked auto_send_pending; the generate-recurring function renders and emails
+-- each one and only then issues it, so an invoice is never marked sent without being sent.
+
+-- 1) Drafts waiting to be emailed. Issuing or cancelling a draft by hand takes it out of the queue.
+ALTER TABLE public.invoices ADD COLUMN IF NOT EXISTS auto_send_pending boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_auto_send_pending ON public.invoices(organisation_id) WHERE auto_send_pending;
+
+CREATE OR REPLACE FUNCTION public.clear_invoice_auto_send()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status <> 'draft' THEN
+    NEW.auto_send_pending := false;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS clear_invoice_auto_send ON public.invoices;
+CREATE TRIGGER clear_invoice_auto_send
+BEFORE UPDATE OF status ON public.invoices
+FOR EACH ROW EXECUTE FUNCTION public.clear_invoice_auto_send();
+
+-- 2) Generation queues invoices to send instead of issuing them
+CREATE OR REPLACE FUNCTION public.generate_recurring_documents(_as_of date DEFAULT CURRENT_DATE)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _template record;
+  _period date;
+  _document_id uuid;
+  _document_total numeric;
+  _template_created integer;
+  _created integer := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    PERFORM public.require_permission('sales.manage');
+    PERFORM public.require_permission('purchases.manage');
+  END IF;
+
+  FOR _template IN
+    SELECT * FROM public.recurring_invoices
+    WHERE active
+      AND next_run_date <= _as_of
+      AND (end_date IS NULL OR next_run_date <= end_date)
+      AND (auth.uid() IS NULL OR organisation_id = public.current_organisation_id())
+    ORDER BY next_run_date
+  LOOP
+    BEGIN
+      IF NOT EXISTS (SELECT 1 FROM public.recurring_invoice_lines WHERE recurring_invoice_id = _template.id) THEN
+        RAISE EXCEPTION 'Template has no lines';
+      END IF;
+
+      _template_created := 0;
+      _period := _template.next_run_date;
+
+      WHILE _period <= _as_of AND (_template.end_date IS NULL OR _period <= _template.end_date) LOOP
+        IF NOT EXISTS (SELECT 1 FROM public.invoices WHERE recurring_invoice_id = _template.id AND recurring_period = _period) THEN
+          -- Invoices to send automatically wait as drafts until they have been emailed
+          INSERT INTO public.invoices (organisation_id, user_id, customer_id, date, due_date, subtotal, vat_amount, total, status, recurring_invoice_id, recurring_period, auto_send_pending)
+          SELECT _template.organisation_id, _template.user_id, _template.customer_id, _period, _period + _template.due_days,
+                 SUM(line_total), SUM(vat_amount), SUM(line_total + vat_amount), 'draft', _template.id, _period, _template.auto_send
+          FROM public.recurring_invoice_lines
+          WHERE recurring_invoice_id = _template.id
+          RETURNING id INTO _document_id;
+
+          INSERT INTO public.invoice_lines (invoice_id, description, quantity, unit_price, tax_code_id, line_total, vat_amount)
+          SELECT _document_id, description, quantity, unit_price, tax_code_id, line_total, vat_amount
+          FROM public.recurring_invoice_lines
+          WHERE recurring_invoice_id = _template.id
+          ORDER BY created_at;
+
+          _template_created := _template_created + 1;
+        END IF;
+
+        _period := public.recurring_next_date(_template.start_date, _template.frequency, _period);
+      END LOOP;
+
+      UPDATE public.recurring_invoices
+      SET next_run_date = _period, last_run_at = now(), last_error = NULL
+      WHERE id = _template.id;
+
+      _created := _created + _template_created;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE public.recurring_invoices
+      SET last_run_at = now(), last_error = SQLERRM
+      WHERE id = _template.id;
+    END;
+  END LOOP;
+
+  FOR _template IN
+    SELECT * FROM public.recurring_bills
+    WHERE active
+      AND next_run_date <= _as_of
+      AND (end_date IS NULL OR next_run_date <= end_date)
+      AND (auth.uid() IS NULL OR organisation_id = public.current_organisation_id())
+    ORDER BY next_run_date
+  LOOP
+    BEGIN
+      IF NOT EXISTS (SELECT 1 FROM public.recurring_bill_lines WHERE recurring_bill_id = _template.id) THEN
+        RAISE EXCEPTION 'Template has no lines';
+      END IF;
+
+      _template_created := 0;
+      _period := _template.next_run_date;
+
+      WHILE _period <= _as_of AND (_template.end_date IS NULL OR _period <= _template.end_date) LOOP
+        IF NOT EXISTS (SELECT 1 FROM public.bills WHERE recurring_bill_id = _template.id AND recurring_period = _period) THEN
+          INSERT INTO public.bills (organisation_id, user_id, supplier_id, bill_number, date, due_date, subtotal, vat_amount, total, status, recurring_bill_id, recurring_period)
+          SELECT _template.organisation_id, _template.user_id, _template.supplier_id, _template.bill_reference || '-' || to_char(_period, 'YYYY-MM-DD'),
+                 _period, _period + _template.due_days,
+                 SUM(line_total - vat_amount), SUM(vat_amount), SUM(line_total), 'draft', _template.id, _period
+          FROM public.recurring_bill_lines
+          WHERE recurring_bill_id = _template.id
+          RETURNING id, total INTO _document_id, _document_total;
+
+          INSERT INTO public.bill_lines (bill_id, description, quantity, unit_price, tax_code_id, account_id, line_total, vat_amount)
+          SELECT _document_id, description, quantity, unit_price, tax_code_id, account_id, line_total, vat_amount
+          FROM public.recurring_bill_lines
+          WHERE recurring_bill_id = _template.id
+          ORDER BY created_at;
+
+          IF _template.auto_receive AND public.bill_approvals_required(_template.organisation_id, _document_total) > 0 THEN
+            UPDATE public.bills SET status = 'awaiting_approval' WHERE id = _document_id;
+
+            INSERT INTO public.bill_approval_events (organisation_id, bill_id, user_id, action, comment)
+            VALUES (_template.organisation_id, _document_id, NULL, 'submitted', 'Raised from a recurring template');
+          ELSIF _template.auto_receive THEN
+            UPDATE public.bills SET status = 'received' WHERE id = _document_id;
+          END IF;
+
+          _template_created := _template_created + 1;
+        END IF;
+
+        _period := public.recurring_next_date(_template.start_date, _template.frequency, _period);
+      END LOOP;
+
+      UPDATE public.recurring_bills
+      SET next_run_date = _period, last_run_at = now(), last_error = NULL
+      WHERE id = _template.id;
+
+      _created := _created + _template_created;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE public.recurring_bills
+      SET last_run_at = now(), last_error = SQLERRM
+      WHERE id = _template.id;
+    END;
+  END LOOP;
+
+  RETURN _created;
+END;
+$$;
@@ -0,0 +1,100 @@
+-- A completed reconciliation agrees the ledger with the bank statement, so the bank account's
+-- ledger postings up to the statement date are locked along with its statement lines. Otherwise a
+-- journal dated in the reconciled period could still move the ledger away from the statement.
+
+-- 1) Last statement date any of the organisation's bank accounts posting to a ledger account has
+--    been reconciled to
+CREATE OR REPLACE FUNCTION public.bank_ledger_locked_until(_organisation_id uuid, _account_id uuid)
+RETURNS date
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT max(r.statement_date)
+  FROM public.bank_accounts ba
+  JOIN public.bank_reconciliations r ON r.bank_account_id = ba.id
+  WHERE ba.organisation_id = _organisation_id
+    AND ba.ledger_account_id = _account_id;
+$$;
+
+-- 2) Journal lines on a reconciled bank ledger account. Lines deleted along with their journal are
+--    checked by the journal's own trigger below.
+CREATE OR REPLACE FUNCTION public.lock_reconciled_bank_ledger_lines()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _journal record;
+  _lock date;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.journal_id IS NOT DISTINCT FROM OLD.journal_id
+     AND NEW.account_id IS NOT DISTINCT FROM OLD.account_id
+     AND NEW.debit_amount IS NOT DISTINCT FROM OLD.debit_amount
+     AND NEW.credit_amount IS NOT DISTINCT FROM OLD.credit_amount THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    SELECT organisation_id, date INTO _journal FROM public.journals WHERE id = OLD.journal_id;
+    IF FOUND THEN
+      _lock := public.bank_ledger_locked_until(_journal.organisation_id, OLD.account_id);
+      IF _journal.date <= _lock THEN
+        RAISE EXCEPTION 'The bank account is reconciled to %; its ledger entries on or before that date cannot be changed',
+          to_char(_lock, 'DD/MM/YYYY');
+      END IF;
+    END IF;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    SELECT organisation_id, date INTO _journal FROM public.journals WHERE id = NEW.journal_id;
+    IF FOUND THEN
+      _lock := public.bank_ledger_locked_until(_journal.organisation_id, NEW.account_id);
+      IF _journal.date <= _lock THEN
+        RAISE EXCEPTION 'The bank account is reconciled to %; its ledger entries on or before that date cannot be changed',
+          to_char(_lock, 'DD/MM/YYYY');
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_journal_lines_bank_period ON public.journal_lines;
+CREATE TRIGGER validate_journal_lines_bank_period
+BEFORE INSERT OR UPDATE OR DELETE ON public.journal_lines
+FOR EACH ROW EXECUTE FUNCTION public.lock_reconciled_bank_ledger_lines();
+
+-- 3) Journals with lines on a reconciled bank ledger account cannot be deleted, or moved into or
+--    out of the reconciled period
+CREATE OR REPLACE FUNCTION public.lock_reconciled_bank_ledger_journal()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _lock date;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.date IS NOT DISTINCT FROM OLD.date
+     AND NEW.organisation_id IS NOT DISTINCT FROM OLD.organisation_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT max(public.bank_ledger_locked_until(OLD.organisation_id, l.account_id)) INTO _lock
+  FROM public.journal_lines l
+  WHERE l.journal_id = OLD.id;
+
+  IF OLD.date <= _lock OR (TG_OP = 'UPDATE' AND NEW.date <= _lock) THEN
+    RAISE EXCEPTION 'The bank account is reconciled to %; its ledger entries on or before that date cannot be changed',
+      to_char(_lock, 'DD/MM/YYYY');
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_journals_bank_period ON public.journals;
+CREATE TRIGGER validate_journals_bank_period
+BEFORE UPDATE OR DELETE ON public.journals
+FOR EACH ROW EXECUTE FUNCTION public.lock_reconciled_bank_ledger_journal();
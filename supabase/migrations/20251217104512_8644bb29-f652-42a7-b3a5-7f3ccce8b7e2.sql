@@ -0,0 +1,188 @@
+-- Statement imports and feed syncs skip lines dated in a locked period instead of failing on
+-- them. The bank transaction lock-date check rejects anything on or before the period or VAT lock
+-- date, so one old line in a file or feed page used to stop the whole import. Lines are now left
+-- out when they fall on or before the later of the reconciled statement date and the lock dates,
+-- and counted separately from duplicates. A lock date override is for deliberate corrections, so
+-- imports never write into a locked period.
+
+-- 1) The date up to which nothing can be imported into a bank account
+CREATE OR REPLACE FUNCTION public.bank_import_locked_until(_bank_account_id uuid)
+RETURNS date
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT GREATEST(public.bank_account_locked_until(ba.id), s.lock_date, s.vat_lock_date)
+  FROM public.bank_accounts ba
+  LEFT JOIN public.company_settings s ON s.organisation_id = ba.organisation_id
+  WHERE ba.id = _bank_account_id;
+$$;
+
+ALTER TABLE public.bank_import_batches ADD COLUMN IF NOT EXISTS locked_count integer NOT NULL DEFAULT 0;
+ALTER TABLE public.bank_feed_accounts ADD COLUMN IF NOT EXISTS locked_count integer NOT NULL DEFAULT 0;
+
+-- 2) The preview marks lines already held; locked lines are marked from the date above
+CREATE OR REPLACE FUNCTION public.find_duplicate_bank_transactions(_bank_account_id uuid, _transactions jsonb)
+RETURNS SETOF integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT f.line_number
+  FROM public.bank_statement_fingerprints(_transactions) f
+  WHERE EXISTS (
+    SELECT 1 FROM public.bank_transactions bt
+    WHERE bt.organisation_id = public.current_organisation_id() AND bt.bank_account_id = _bank_account_id AND bt.fingerprint = f.fingerprint
+  )
+  ORDER BY f.line_number;
+$$;
+
+-- 3) Statement import
+CREATE OR REPLACE FUNCTION public.import_bank_statement(_bank_account_id uuid, _file_name text, _file_hash text, _format text, _transactions jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _organisation_id uuid := public.current_organisation_id();
+  _batch_id uuid;
+  _imported_at timestamptz;
+  _locked date;
+  _total integer := COALESCE(jsonb_array_length(_transactions), 0);
+  _locked_count integer;
+  _inserted integer;
+BEGIN
+  IF _total = 0 THEN
+    RAISE EXCEPTION 'The statement has no transactions to import';
+  END IF;
+
+  PERFORM 1 FROM public.bank_accounts WHERE id = _bank_account_id AND organisation_id = _organisation_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bank account not found';
+  END IF;
+
+  SELECT created_at INTO _imported_at
+  FROM public.bank_import_batches
+  WHERE organisation_id = _organisation_id AND file_hash = _file_hash AND status = 'imported';
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'This file was already imported on %', to_char(_imported_at, 'DD/MM/YYYY');
+  END IF;
+
+  _locked := public.bank_import_locked_until(_bank_account_id);
+
+  SELECT count(*) INTO _locked_count
+  FROM jsonb_array_elements(_transactions) AS t(item)
+  WHERE (t.item->>'date')::date <= _locked;
+
+  INSERT INTO public.bank_import_batches (organisation_id, user_id, bank_account_id, file_name, file_hash, format)
+  VALUES (_organisation_id, auth.uid(), _bank_account_id, _file_name, _file_hash, _format)
+  RETURNING id INTO _batch_id;
+
+  INSERT INTO public.bank_transactions (organisation_id, user_id, bank_account_id, date, description, amount, reference, balance, fingerprint, import_batch_id)
+  SELECT _organisation_id,
+         auth.uid(),
+         _bank_account_id,
+         (t.item->>'date')::date,
+         t.item->>'description',
+         (t.item->>'amount')::numeric,
+         NULLIF(t.item->>'reference', ''),
+         (t.item->>'balance')::numeric,
+         f.fingerprint,
+         _batch_id
+  FROM jsonb_array_elements(_transactions) WITH ORDINALITY AS t(item, line_number)
+  JOIN public.bank_statement_fingerprints(_transactions) f ON f.line_number = t.line_number
+  WHERE _locked IS NULL OR (t.item->>'date')::date > _locked
+  ORDER BY t.line_number
+  ON CONFLICT (bank_account_id, fingerprint) DO NOTHING;
+
+  GET DIAGNOSTICS _inserted = ROW_COUNT;
+
+  UPDATE public.bank_import_batches
+  SET transaction_count = _inserted,
+      duplicate_count = _total - _locked_count - _inserted,
+      locked_count = _locked_count
+  WHERE id = _batch_id;
+
+  RETURN _batch_id;
+END;
+$$;
+
+-- 4) Feed sync. Locked lines are counted on the feed account, as the provider will not send them
+--    again once the cursor has moved past them.
+CREATE OR REPLACE FUNCTION public.ingest_bank_feed_transactions(_feed_account_id uuid, _transactions jsonb, _cursor text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _feed public.bank_feed_accounts%ROWTYPE;
+  _locked date;
+  _locked_count integer := 0;
+  _inserted integer := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    PERFORM public.require_permission('banking.manage');
+  END IF;
+
+  SELECT * INTO _feed
+  FROM public.bank_feed_accounts
+  WHERE id = _feed_account_id
+    -- Scheduled syncs run as the service role, without a user
+    AND (auth.uid() IS NULL OR organisation_id = public.current_organisation_id())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bank feed account not found';
+  END IF;
+
+  IF _feed.bank_account_id IS NULL THEN
+    RAISE EXCEPTION 'Link the feed account to a bank account before syncing it';
+  END IF;
+
+  _locked := public.bank_import_locked_until(_feed.bank_account_id);
+
+  IF COALESCE(jsonb_array_length(_transactions), 0) > 0 THEN
+    SELECT count(*) INTO _locked_count
+    FROM jsonb_array_elements(_transactions) AS t(item)
+    WHERE (t.item->>'date')::date <= _locked
+      AND NOT EXISTS (
+        SELECT 1 FROM public.bank_transactions bt
+        WHERE bt.bank_account_id = _feed.bank_account_id AND bt.external_id = t.item->>'id'
+      );
+
+    INSERT INTO public.bank_transactions (
+      organisation_id, user_id, bank_account_id, feed_account_id, external_id, date, description, amount, reference, balance, fingerprint
+    )
+    SELECT _feed.organisation_id,
+           _feed.user_id,
+           _feed.bank_account_id,
+           _feed.id,
+           t.item->>'id',
+           (t.item->>'date')::date,
+           t.item->>'description',
+           (t.item->>'amount')::numeric,
+           NULLIF(t.item->>'reference', ''),
+           (t.item->>'balance')::numeric,
+           f.fingerprint
+    FROM jsonb_array_elements(_transactions) WITH ORDINALITY AS t(item, line_number)
+    JOIN public.bank_statement_fingerprints(_transactions) f ON f.line_number = t.line_number
+    WHERE (_locked IS NULL OR (t.item->>'date')::date > _locked)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.bank_transactions bt
+        WHERE bt.bank_account_id = _feed.bank_account_id AND bt.external_id = t.item->>'id'
+      )
+    ORDER BY t.line_number
+    ON CONFLICT (bank_account_id, fingerprint) DO NOTHING;
+
+    GET DIAGNOSTICS _inserted = ROW_COUNT;
+  END IF;
+
+  UPDATE public.bank_feed_accounts
+  SET sync_cursor = _cursor, last_synced_at = now(), locked_count = locked_count + _locked_count
+  WHERE id = _feed.id;
+
+  RETURN _inserted;
+END;
+$$;
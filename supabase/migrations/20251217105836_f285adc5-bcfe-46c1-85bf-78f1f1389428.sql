@@ -0,0 +1,9 @@
+-- check_lock_date writes to the override log past RLS, so like the other internal helpers it can
+-- no longer be called directly. The lock-date triggers that call it now run as their owner.
+
+ALTER FUNCTION public.enforce_document_lock_date() SECURITY DEFINER;
+ALTER FUNCTION public.enforce_bank_transaction_lock_date() SECURITY DEFINER;
+ALTER FUNCTION public.enforce_journal_lock_date() SECURITY DEFINER;
+ALTER FUNCTION public.enforce_journal_line_lock_date() SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.check_lock_date(uuid, date, text, uuid, text, boolean) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,7 @@
+-- Tax codes are shared by every organisation, but the write policies only asked for the owner role,
+-- which every user holds in their own organisation. The rates are maintained by migrations and the
+-- service role, so members can only read them.
+
+DROP POLICY IF EXISTS "Only owners can insert tax codes" ON public.tax_codes;
+DROP POLICY IF EXISTS "Only owners can update tax codes" ON public.tax_codes;
+DROP POLICY IF EXISTS "Only owners can delete tax codes" ON public.tax_codes;
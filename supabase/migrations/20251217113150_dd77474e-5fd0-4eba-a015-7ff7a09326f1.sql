@@ -0,0 +1,35 @@
+-- The organisation being worked in is chosen per request. profiles.current_organisation_id is
+-- shared by every tab and device the user has open, so switching in one tab used to move the
+-- others' reads and writes to the new organisation while they still showed the old one. The app
+-- now sends the organisation each tab is in with every request, and the profile column is only
+-- the last one used, which a new tab starts in.
+
+-- 1) The organisation named by the request's x-organisation-id header, if the user belongs to it.
+--    A header naming any other organisation resolves to none, so the request sees nothing rather
+--    than another organisation's books. Requests without the header fall back to the last used.
+CREATE OR REPLACE FUNCTION public.current_organisation_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN h.requested IS NOT NULL THEN (
+      SELECT r.organisation_id
+      FROM public.user_roles r
+      WHERE r.user_id = auth.uid() AND r.organisation_id::text = h.requested
+    )
+    ELSE (
+      SELECT r.organisation_id
+      FROM public.user_roles r
+      LEFT JOIN public.profiles p ON p.user_id = r.user_id
+      WHERE r.user_id = auth.uid()
+      ORDER BY r.organisation_id = p.current_organisation_id DESC NULLS LAST, r.created_at, r.organisation_id
+      LIMIT 1
+    )
+  END
+  FROM (
+    SELECT lower(NULLIF(NULLIF(current_setting('request.headers', true), '')::json->>'x-organisation-id', '')) AS requested
+  ) h
+$$;
@@ -0,0 +1,61 @@
+-- An invitation is matched to the signed-in user by email address, so only an address the user
+-- has confirmed counts. Otherwise anyone could sign up with an invited address they do not own and
+-- join the organisation before confirming it.
+
+-- 1) Open invitations addressed to the signed-in user's confirmed email address
+CREATE OR REPLACE FUNCTION public.my_invitations()
+RETURNS TABLE (id uuid, organisation_id uuid, organisation_name text, role public.user_role, expires_at timestamptz, created_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT i.id, i.organisation_id, o.name, i.role, i.expires_at, i.created_at
+  FROM public.organisation_invitations i
+  JOIN public.organisations o ON o.id = i.organisation_id
+  WHERE i.email = (SELECT lower(email) FROM auth.users WHERE id = auth.uid() AND email_confirmed_at IS NOT NULL)
+    AND i.accepted_at IS NULL
+    AND i.declined_at IS NULL
+    AND i.expires_at > now()
+  ORDER BY i.created_at
+$$;
+
+-- 2) Joining makes the organisation the last one used
+CREATE OR REPLACE FUNCTION public.accept_invitation(_invitation_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invitation public.organisation_invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO _invitation
+  FROM public.organisation_invitations
+  WHERE id = _invitation_id
+    AND email = (SELECT lower(email) FROM auth.users WHERE id = auth.uid() AND email_confirmed_at IS NOT NULL)
+    AND accepted_at IS NULL
+    AND declined_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+
+  IF _invitation.expires_at <= now() THEN
+    RAISE EXCEPTION 'This invitation has expired; ask for a new one';
+  END IF;
+
+  INSERT INTO public.user_roles (user_id, organisation_id, role)
+  VALUES (auth.uid(), _invitation.organisation_id, _invitation.role)
+  ON CONFLICT (organisation_id, user_id) DO NOTHING;
+
+  UPDATE public.organisation_invitations
+  SET accepted_at = now(), accepted_by = auth.uid()
+  WHERE id = _invitation_id;
+
+  UPDATE public.profiles SET current_organisation_id = _invitation.organisation_id WHERE user_id = auth.uid();
+
+  RETURN _invitation.organisation_id;
+END;
+$$;
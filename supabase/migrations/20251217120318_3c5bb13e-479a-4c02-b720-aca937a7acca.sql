@@ -0,0 +1,127 @@
+-- The approval threshold was checked against the total the app sent with the bill, which need
+-- not match its lines. Posting takes the net amounts from the lines, so a bill could be saved with
+-- a small total, posted without approval and still post its lines in full. A draft's subtotal,
+-- VAT and total are now worked out from its lines whenever the lines or the bill change, and the
+-- threshold is tested against those. A bill entered straight as received has no lines and posts
+-- its header amounts, so those are what the threshold sees.
+
+-- 1) Totals of a bill's lines. bill_lines.line_total includes VAT.
+CREATE OR REPLACE FUNCTION public.bill_line_totals(_bill_id uuid)
+RETURNS TABLE (line_count integer, subtotal numeric, vat_amount numeric, total numeric)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT count(*)::integer,
+         round(COALESCE(sum(bl.line_total - bl.vat_amount), 0), 2),
+         round(COALESCE(sum(bl.vat_amount), 0), 2),
+         round(COALESCE(sum(bl.line_total), 0), 2)
+  FROM public.bill_lines bl
+  WHERE bl.bill_id = _bill_id
+$$;
+
+-- 2) Status transitions, with a draft's totals taken from its lines
+CREATE OR REPLACE FUNCTION public.enforce_bill_workflow()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _totals record;
+BEGIN
+  -- A draft's totals are those of its lines, so approval is decided on the amount that posts
+  IF TG_OP = 'UPDATE' AND OLD.status = 'draft' THEN
+    SELECT * INTO _totals FROM public.bill_line_totals(NEW.id);
+    IF _totals.line_count > 0 THEN
+      NEW.subtotal := _totals.subtotal;
+      NEW.vat_amount := _totals.vat_amount;
+      NEW.total := _totals.total;
+    END IF;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status = 'awaiting_approval' THEN
+      RAISE EXCEPTION 'Save bill % as a draft before submitting it for approval', NEW.bill_number;
+    END IF;
+
+    IF NEW.status IN ('received', 'paid', 'overdue') AND public.bill_approvals_required(NEW.organisation_id, NEW.total) > 0 THEN
+      RAISE EXCEPTION 'Bill % needs approval before it can be posted', NEW.bill_number;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'draft' AND NEW.status IN ('awaiting_approval', 'received', 'cancelled')) OR
+      (OLD.status = 'awaiting_approval' AND NEW.status IN ('draft', 'received')) OR
+      (OLD.status IN ('received', 'overdue') AND NEW.status IN ('received', 'overdue', 'paid', 'cancelled')) OR
+      (OLD.status = 'paid' AND NEW.status IN ('received', 'overdue'))
+    ) THEN
+      RAISE EXCEPTION 'Bill % cannot move from % to %', OLD.bill_number, OLD.status, NEW.status;
+    END IF;
+
+    IF OLD.status = 'draft' AND NEW.status = 'received'
+       AND public.bill_approvals_required(NEW.organisation_id, NEW.total) > 0 THEN
+      RAISE EXCEPTION 'Bill % needs approval before it can be posted', OLD.bill_number;
+    END IF;
+
+    -- A bill submitted without needing approval still needs one approval
+    IF OLD.status = 'awaiting_approval' AND NEW.status = 'received'
+       AND public.bill_approval_count(NEW.id) < GREATEST(public.bill_approvals_required(NEW.organisation_id, NEW.total), 1) THEN
+      RAISE EXCEPTION 'Bill % has not been approved', OLD.bill_number;
+    END IF;
+  END IF;
+
+  IF OLD.status <> 'draft' AND (
+    NEW.supplier_id IS DISTINCT FROM OLD.supplier_id OR
+    NEW.bill_number IS DISTINCT FROM OLD.bill_number OR
+    NEW.date IS DISTINCT FROM OLD.date OR
+    NEW.due_date IS DISTINCT FROM OLD.due_date OR
+    NEW.subtotal IS DISTINCT FROM OLD.subtotal OR
+    NEW.vat_amount IS DISTINCT FROM OLD.vat_amount OR
+    NEW.total IS DISTINCT FROM OLD.total
+  ) THEN
+    RAISE EXCEPTION 'Bill % is no longer a draft and can no longer be edited', OLD.bill_number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 3) Changing a draft's lines brings its totals up to date. A draft left with no lines totals nothing.
+CREATE OR REPLACE FUNCTION public.refresh_bill_totals()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _bill_id uuid := CASE WHEN TG_OP = 'DELETE' THEN OLD.bill_id ELSE NEW.bill_id END;
+  _totals record;
+BEGIN
+  SELECT * INTO _totals FROM public.bill_line_totals(_bill_id);
+
+  UPDATE public.bills
+  SET subtotal = _totals.subtotal, vat_amount = _totals.vat_amount, total = _totals.total
+  WHERE id = _bill_id
+    AND status = 'draft'
+    AND (subtotal, vat_amount, total) IS DISTINCT FROM (_totals.subtotal, _totals.vat_amount, _totals.total);
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_bill_totals ON public.bill_lines;
+CREATE TRIGGER refresh_bill_totals
+AFTER INSERT OR UPDATE OR DELETE ON public.bill_lines
+FOR EACH ROW EXECUTE FUNCTION public.refresh_bill_totals();
+
+-- 4) Bring drafts saved before this up to date
+UPDATE public.bills b
+SET subtotal = t.subtotal, vat_amount = t.vat_amount, total = t.total
+FROM public.bills d
+CROSS JOIN LATERAL public.bill_line_totals(d.id) t
+WHERE b.id = d.id
+  AND d.status = 'draft'
+  AND t.line_count > 0
+  AND (d.subtotal, d.vat_amount, d.total) IS DISTINCT FROM (t.subtotal, t.vat_amount, t.total);
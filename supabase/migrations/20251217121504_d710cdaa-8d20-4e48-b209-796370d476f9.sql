@@ -0,0 +1,75 @@
+-- A lock date override lets through only the owner who started it. The lookup matched any open
+-- override in the organisation, so while one was running every member, and scheduled jobs with no
+-- user, could write into locked periods. Ending an override is for owners too, as starting one is.
+
+-- 1) Only the overriding user's own writes pass the lock
+CREATE OR REPLACE FUNCTION public.check_lock_date(_organisation_id uuid, _date date, _table_name text, _record_id uuid, _operation text, _include_vat boolean DEFAULT true)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings record;
+  _lock date;
+  _override_id uuid;
+BEGIN
+  IF _date IS NULL OR _organisation_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT lock_date, vat_lock_date INTO _settings FROM public.company_settings WHERE organisation_id = _organisation_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  _lock := CASE WHEN _include_vat THEN GREATEST(_settings.lock_date, _settings.vat_lock_date) ELSE _settings.lock_date END;
+
+  IF _date > COALESCE(_lock, '-infinity'::date) THEN
+    RETURN;
+  END IF;
+
+  -- Calls with no user (scheduled jobs) never match, so they always meet the lock
+  SELECT id INTO _override_id
+  FROM public.lock_date_overrides
+  WHERE organisation_id = _organisation_id
+    AND user_id = auth.uid()
+    AND ended_at IS NULL
+    AND expires_at > now()
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF _override_id IS NOT NULL THEN
+    INSERT INTO public.lock_date_override_changes (organisation_id, user_id, override_id, table_name, record_id, operation, record_date)
+    VALUES (_organisation_id, auth.uid(), _override_id, _table_name, _record_id, _operation, _date);
+    RETURN;
+  END IF;
+
+  IF _include_vat AND _date <= _settings.vat_lock_date THEN
+    RAISE EXCEPTION 'The period to % is covered by a submitted VAT return and is locked', to_char(_settings.vat_lock_date, 'DD/MM/YYYY');
+  END IF;
+
+  RAISE EXCEPTION 'The books are locked to %; nothing dated on or before it can change', to_char(_settings.lock_date, 'DD/MM/YYYY');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_lock_date(uuid, date, text, uuid, text, boolean) FROM PUBLIC, anon, authenticated;
+
+-- 2) Ending an override
+CREATE OR REPLACE FUNCTION public.end_lock_override()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'owner') THEN
+    RAISE EXCEPTION 'Only the owner can override lock dates';
+  END IF;
+
+  UPDATE public.lock_date_overrides
+  SET ended_at = now()
+  WHERE organisation_id = public.current_organisation_id() AND ended_at IS NULL AND expires_at > now();
+END;
+$$;
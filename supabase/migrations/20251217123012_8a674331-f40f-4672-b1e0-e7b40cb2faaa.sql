@@ -0,0 +1,60 @@
+-- Journals posted by documents (invoices, bills, payments, credit notes, bank transactions and the
+-- rest) follow their documents: they are undone by a reversal when the document is cancelled, and
+-- get_active_posting finds them by source. Editing or deleting them directly left the ledger out of
+-- step with the documents, so only manual journals can now be changed directly. Changes made from
+-- within triggers, including cascades, are the postings themselves and are let through.
+
+-- 1) Journals
+CREATE OR REPLACE FUNCTION public.protect_posted_journal()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.source_type <> 'manual' OR (TG_OP = 'UPDATE' AND NEW.source_type <> 'manual') THEN
+    RAISE EXCEPTION 'Journal % was posted by its source document (%); cancel or change the document instead',
+      OLD.reference, replace(OLD.source_type, '_', ' ');
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_posted_journal ON public.journals;
+CREATE TRIGGER protect_posted_journal
+BEFORE UPDATE OR DELETE ON public.journals
+FOR EACH ROW
+WHEN (pg_trigger_depth() = 0)
+EXECUTE FUNCTION public.protect_posted_journal();
+
+-- 2) Journal lines, by the journal they are on or are moved to
+CREATE OR REPLACE FUNCTION public.protect_posted_journal_lines()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _journal record;
+BEGIN
+  SELECT reference, source_type INTO _journal
+  FROM public.journals
+  WHERE id IN (OLD.journal_id, CASE WHEN TG_OP = 'UPDATE' THEN NEW.journal_id END)
+    AND source_type <> 'manual'
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Journal % was posted by its source document (%); cancel or change the document instead',
+      _journal.reference, replace(_journal.source_type, '_', ' ');
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_posted_journal_lines ON public.journal_lines;
+CREATE TRIGGER protect_posted_journal_lines
+BEFORE UPDATE OR DELETE ON public.journal_lines
+FOR EACH ROW
+WHEN (pg_trigger_depth() = 0)
+EXECUTE FUNCTION public.protect_posted_journal_lines();
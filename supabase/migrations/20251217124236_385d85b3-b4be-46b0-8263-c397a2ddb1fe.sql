@@ -0,0 +1,75 @@
+-- Attachment files go with their records. Deleting an invoice, bill, journal or bank transaction
+-- removed its attachment rows by cascade but left the files in the bucket with nothing pointing at
+-- them. An attachment's file must also sit in the folder for its record, as the storage policies
+-- grant access by that folder.
+
+-- 1) The path is <organisation>/<area>/<record>/<file>, with the area matching the record's type
+CREATE OR REPLACE FUNCTION public.validate_attachment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _record_organisation_id uuid;
+  _folder text := CASE
+    WHEN NEW.invoice_id IS NOT NULL THEN 'invoices'
+    WHEN NEW.bill_id IS NOT NULL THEN 'bills'
+    WHEN NEW.journal_id IS NOT NULL THEN 'journals'
+    ELSE 'bank_transactions'
+  END;
+BEGIN
+  SELECT organisation_id INTO _record_organisation_id
+  FROM (
+    SELECT organisation_id FROM public.invoices WHERE id = NEW.invoice_id
+    UNION ALL
+    SELECT organisation_id FROM public.bills WHERE id = NEW.bill_id
+    UNION ALL
+    SELECT organisation_id FROM public.journals WHERE id = NEW.journal_id
+    UNION ALL
+    SELECT organisation_id FROM public.bank_transactions WHERE id = NEW.bank_transaction_id
+  ) AS record;
+
+  IF _record_organisation_id IS DISTINCT FROM NEW.organisation_id THEN
+    RAISE EXCEPTION 'The record to attach to was not found';
+  END IF;
+
+  IF split_part(NEW.storage_path, '/', 1) <> NEW.organisation_id::text THEN
+    RAISE EXCEPTION 'Attachments must be stored under their organisation''s folder';
+  END IF;
+
+  IF split_part(NEW.storage_path, '/', 2) <> _folder
+     OR split_part(NEW.storage_path, '/', 3) <> COALESCE(NEW.invoice_id, NEW.bill_id, NEW.journal_id, NEW.bank_transaction_id)::text THEN
+    RAISE EXCEPTION 'Attachments must be stored under their record''s folder';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 2) Files of attachments removed along with their record. Attachments deleted on their own are
+--    removed through the storage API by the app, which deletes the file itself as well.
+CREATE OR REPLACE FUNCTION public.remove_attachment_file()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  BEGIN
+    DELETE FROM storage.objects WHERE bucket_id = 'attachments' AND name = OLD.storage_path;
+  EXCEPTION WHEN OTHERS THEN
+    -- Never stop the record being deleted over its file
+    RAISE WARNING 'Could not remove attachment file %: %', OLD.storage_path, SQLERRM;
+  END;
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS remove_attachment_file ON public.attachments;
+CREATE TRIGGER remove_attachment_file
+AFTER DELETE ON public.attachments
+FOR EACH ROW
+WHEN (pg_trigger_depth() > 0)
+EXECUTE FUNCTION public.remove_attachment_file();